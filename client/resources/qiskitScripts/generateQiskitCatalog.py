@@ -0,0 +1,198 @@
+# Copyright (c) 2018, IBM.
+#
+# This source code is licensed under the Apache License, Version 2.0 found in
+# the LICENSE.txt file in the root directory of this source tree.
+import argparse
+import importlib
+import inspect
+import json
+import os
+import warnings
+from qiskit import __version__
+
+# Modules introspected, the classes and functions found first keep their name
+MODULES = [
+    'qiskit',
+    'qiskit.circuit',
+    'qiskit.extensions.standard',
+    'qiskit.tools.visualization',
+    'qiskit.providers',
+    'qiskit.result',
+    'qiskit.transpiler',
+    'qiskit.quantum_info',
+    'qiskit.wrapper'
+]
+
+PRIMITIVE_TYPES = [
+    (bool, 'boolean'),
+    (int, 'number'),
+    (float, 'number'),
+    (complex, 'number'),
+    (str, 'string'),
+    (dict, 'dict')
+]
+
+
+def catalog_file(output_dir):
+    return os.path.join(output_dir, 'qiskit-{}.json'.format(__version__))
+
+
+def detail_of(member):
+    lines = (inspect.getdoc(member) or '').strip().splitlines()
+    return lines[0].strip().rstrip('.') if lines else ''
+
+
+def type_of(value, class_names):
+    if value is None or value is inspect.Parameter.empty:
+        return 'object'
+    if inspect.isclass(value):
+        for primitive, name in PRIMITIVE_TYPES:
+            if value is primitive:
+                return name
+        return value.__name__ if value.__name__ in class_names else 'object'
+    for primitive, name in PRIMITIVE_TYPES:
+        if isinstance(value, primitive):
+            return name
+    return 'object'
+
+
+def annotation_type_of(annotation, class_names):
+    # the forward references are written as strings
+    if isinstance(annotation, str):
+        return annotation if annotation in class_names else 'object'
+    return type_of(annotation, class_names)
+
+
+def arguments_of(function, class_names, skip_first=False):
+    try:
+        signature = inspect.signature(function)
+    except (TypeError, ValueError):
+        return []
+
+    parameters = list(signature.parameters.values())
+    if skip_first and parameters:
+        parameters = parameters[1:]
+
+    arguments = []
+    for parameter in parameters:
+        # the variadic arguments are named as in Python, *args and **kwargs
+        prefix = {parameter.VAR_POSITIONAL: '*', parameter.VAR_KEYWORD: '**'}.get(parameter.kind, '')
+        has_default = parameter.default is not parameter.empty
+        argument = {
+            'name': prefix + parameter.name,
+            'type': annotation_type_of(parameter.annotation, class_names)
+            if parameter.annotation is not parameter.empty
+            else type_of(parameter.default if has_default else None, class_names)
+        }
+        if has_default:
+            argument['optional'] = True
+            argument['default'] = repr(parameter.default)
+        if parameter.kind == parameter.KEYWORD_ONLY:
+            argument['keywordOnly'] = True
+        arguments.append(argument)
+    return arguments
+
+
+def return_type_of(function, class_names):
+    try:
+        annotation = inspect.signature(function).return_annotation
+    except (TypeError, ValueError):
+        return 'void'
+    return annotation_type_of(annotation, class_names) if annotation is not inspect.Signature.empty else 'void'
+
+
+def function_of(name, function, class_names, module=None, skip_first=False):
+    entry = {
+        'name': name,
+        'type': return_type_of(function, class_names),
+        'detail': detail_of(function),
+        'documentation': inspect.getdoc(function) or '',
+        'arguments': arguments_of(function, class_names, skip_first)
+    }
+    if module is not None:
+        entry['module'] = module
+    return entry
+
+
+def class_of(name, cls, module, class_names):
+    methods = []
+    for method_name, method in inspect.getmembers(cls, inspect.isroutine):
+        if method_name.startswith('_'):
+            continue
+        is_static = isinstance(inspect.getattr_static(cls, method_name, None), staticmethod)
+        methods.append(function_of(method_name, method, class_names, skip_first=not is_static))
+
+    return {
+        'name': name,
+        'module': module,
+        'detail': detail_of(cls),
+        'documentation': inspect.getdoc(cls) or '',
+        'arguments': arguments_of(cls.__init__, class_names, skip_first=True),
+        'methods': methods
+    }
+
+
+def public_names(module):
+    return getattr(module, '__all__', None) or [name for name in dir(module) if not name.startswith('_')]
+
+
+def public_members(module):
+    for name in public_names(module):
+        member = getattr(module, name, None)
+        if inspect.isclass(member) or inspect.isfunction(member):
+            yield name, member
+
+
+def introspect():
+    modules = []
+    for name in MODULES:
+        try:
+            modules.append((name, importlib.import_module(name)))
+        except ImportError:
+            continue
+
+    found = {}
+    for module_name, module in modules:
+        for name, member in public_members(module):
+            found.setdefault(name, (module_name, member))
+
+    class_names = set(name for name, (_, member) in found.items() if inspect.isclass(member))
+    classes = []
+    functions = []
+    for name in sorted(found):
+        module_name, member = found[name]
+        if inspect.isclass(member):
+            classes.append(class_of(name, member, module_name, class_names))
+        else:
+            functions.append(function_of(name, member, class_names, module=module_name))
+
+    return {
+        'version': __version__,
+        'modules': [name for name, _ in modules],
+        'exports': dict((name, sorted(public_names(module))) for name, module in modules),
+        'classes': classes,
+        'functions': functions
+    }
+
+
+def main():
+    warnings.simplefilter('ignore')
+
+    parser = argparse.ArgumentParser(description='Writes the catalog of the installed Qiskit.')
+    parser.add_argument('--output', required=True, help='folder where the catalogs are written')
+    parser.add_argument('--force', action='store_true', help='writes the catalog again if it exists')
+    args = parser.parse_args()
+
+    output_file = catalog_file(args.output)
+    if args.force or not os.path.exists(output_file):
+        if not os.path.isdir(args.output):
+            os.makedirs(args.output)
+        with open(output_file, 'w') as catalog:
+            json.dump(introspect(), catalog, indent=2, sort_keys=True)
+
+    # the last line tells the extension which catalog to use
+    print(json.dumps({'version': __version__, 'file': output_file}))
+
+
+if __name__ == '__main__':
+    main()
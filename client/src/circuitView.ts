@@ -0,0 +1,82 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/lib/main';
+import { CircuitRenderer } from './visualizations/circuitRenderer';
+import { CircuitDiagram } from './visualizations/types';
+import { QLogger } from './logger';
+
+const UPDATE_DELAY = 300;
+
+/** Webview with the circuit of a QASM document, redrawn every time the document changes. */
+export class CircuitView {
+    private panel: vscode.WebviewPanel;
+    private document: vscode.TextDocument;
+    private pendingUpdate: NodeJS.Timer;
+
+    constructor(private client: LanguageClient) {}
+
+    show(document: vscode.TextDocument) {
+        if (this.panel === undefined) {
+            this.panel = vscode.window.createWebviewPanel('qasmCircuit', 'Circuit', vscode.ViewColumn.Two, {});
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.document = undefined;
+            });
+        } else {
+            this.panel.reveal(vscode.ViewColumn.Two);
+        }
+
+        this.document = document;
+        this.update();
+    }
+
+    documentChanged(document: vscode.TextDocument) {
+        if (this.document === undefined || document.uri.toString() !== this.document.uri.toString()) {
+            return;
+        }
+
+        clearTimeout(this.pendingUpdate);
+        this.pendingUpdate = setTimeout(() => this.update(), UPDATE_DELAY);
+    }
+
+    /** The circuit follows the QASM document being edited. */
+    activeEditorChanged(editor: vscode.TextEditor) {
+        if (this.panel === undefined || editor === undefined || editor.document.languageId !== 'qasm-lang') {
+            return;
+        }
+
+        this.document = editor.document;
+        this.update();
+    }
+
+    private update() {
+        let document = this.document;
+        let params = { uri: document.uri.toString() };
+
+        this.client
+            .onReady()
+            .then(() => this.client.sendRequest<CircuitDiagram>('qasm/circuitDiagram', params))
+            .then(
+                diagram => {
+                    if (this.panel === undefined || diagram === null || document !== this.document) {
+                        return;
+                    }
+
+                    this.panel.title = `Circuit - ${path.basename(document.fileName)}`;
+                    this.panel.webview.html = new CircuitRenderer(diagram).render();
+                },
+                reason => QLogger.error(`Error: ${reason}`, this)
+            );
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { Diagnostic, LanguageClient, PublishDiagnosticsParams } from 'vscode-languageclient/lib/main';
+
+/** Value of the unnecessary code tag in the version 3.15 of the language server protocol. */
+const UNNECESSARY = 1;
+
+interface TaggedDiagnostic extends Diagnostic {
+    tags?: number[];
+}
+
+export namespace DiagnosticTags {
+    /**
+     * The diagnostics of this client version are converted without their tags, so the published
+     * diagnostics are handled here to keep the unused code faded out by the editor.
+     */
+    export function register(client: LanguageClient) {
+        client
+            .onReady()
+            .then(() =>
+                client.onNotification('textDocument/publishDiagnostics', (params: PublishDiagnosticsParams) =>
+                    client.diagnostics.set(
+                        client.protocol2CodeConverter.asUri(params.uri),
+                        params.diagnostics.map(diagnostic => asDiagnostic(client, diagnostic))
+                    )
+                )
+            );
+    }
+
+    function asDiagnostic(client: LanguageClient, diagnostic: TaggedDiagnostic): vscode.Diagnostic {
+        let result = client.protocol2CodeConverter.asDiagnostic(diagnostic);
+        if (diagnostic.tags !== undefined && diagnostic.tags.indexOf(UNNECESSARY) > -1) {
+            result.tags = [vscode.DiagnosticTag.Unnecessary];
+        }
+
+        return result;
+    }
+}
@@ -13,6 +13,10 @@ import * as vscode from 'vscode';
 import { LanguagesActivation } from './languages';
 import { ActivationUtils } from './activationUtils';
 import { QLogger } from './logger';
+import { LanguageCommands } from './languageCommands';
+import { QiskitCatalog } from './qiskitCatalog';
+import { QASMFileWatchers } from './qasmFileWatchers';
+import { DiagnosticTags } from './diagnosticTags';
 
 export function activate(context: vscode.ExtensionContext) {
     QLogger.verbose('Activating qiskit-vscode extension...', this);
@@ -21,18 +25,26 @@ export function activate(context: vscode.ExtensionContext) {
 
     let languagesActivation = new LanguagesActivation(context);
 
-    let qasmLanguage = languagesActivation.qasmLanguageClient().start();
-    context.subscriptions.push(qasmLanguage);
+    let qasmLanguageClient = languagesActivation.qasmLanguageClient();
+    context.subscriptions.push(qasmLanguageClient.start(), new QASMFileWatchers(qasmLanguageClient));
 
-    let qiskitLanguage = languagesActivation.qiskitLanguageClient().start();
-    context.subscriptions.push(qiskitLanguage);
+    let qiskitLanguageClient = languagesActivation.qiskitLanguageClient();
+    context.subscriptions.push(qiskitLanguageClient.start());
+
+    DiagnosticTags.register(qasmLanguageClient);
+    DiagnosticTags.register(qiskitLanguageClient);
 
     ActivationUtils.registerCommands(context);
+    LanguageCommands.registerQasmCommands(context, qasmLanguageClient);
+    LanguageCommands.registerQiskitCommands(context, qiskitLanguageClient);
 
     ActivationUtils.checkDependencies(false)
         .then(() => {
             QLogger.verbose('qiskit-vscode extension successfully loaded!', this);
             ActivationUtils.showExtensionBootInfo('🚀 qiskit-vscode extension loaded! 🚀', false);
+
+            // the bundled catalog is used meanwhile or when the installed Qiskit cannot be inspected
+            return QiskitCatalog.generate(qiskitLanguageClient, context.globalStoragePath).catch(() => undefined);
         })
         .catch(err => {
             QLogger.error(`Dependencies error: ${err}`, this);
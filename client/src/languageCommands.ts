@@ -0,0 +1,283 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/lib/main';
+import { ResultProvider } from './resultProvider';
+import { HistogramRenderer } from './visualizations/histogramRenderer';
+import { CircuitView } from './circuitView';
+import { TopologyStatus, ActiveTopology } from './topologyStatus';
+import { QiskitCatalog } from './qiskitCatalog';
+import { QLogger } from './logger';
+
+interface SimulationError {
+    line: number;
+    message: string;
+}
+
+interface SimulationResult {
+    counts: object;
+    errors: SimulationError[];
+}
+
+interface ExportError {
+    line: number;
+    start: number;
+    end: number;
+    message: string;
+    level: number;
+}
+
+interface ExportResult {
+    content: string;
+    fileExtension: string;
+    errors: ExportError[];
+}
+
+interface ResourceReportResult {
+    content: string;
+    errors: SimulationError[];
+}
+
+const EXPORT_TARGETS = [
+    { label: 'Quil', description: 'Rigetti Forest', target: 'quil' },
+    { label: 'Cirq JSON', description: 'Google Cirq', target: 'cirq' },
+    { label: 'Q#', description: 'Microsoft Quantum Development Kit', target: 'qsharp' }
+];
+
+const REPLACE_ACTION = 'Replace';
+
+export namespace LanguageCommands {
+    export function registerQasmCommands(context: vscode.ExtensionContext, client: LanguageClient) {
+        let resultProvider = new ResultProvider();
+        let previewUri = vscode.Uri.parse('qasm-simulation-result://authority/simulation-preview');
+        let circuitView = new CircuitView(client);
+        let exportDiagnostics = vscode.languages.createDiagnosticCollection('qasm-export');
+        let topologyStatus = new TopologyStatus();
+
+        client
+            .onReady()
+            .then(() =>
+                client.onNotification('qasm/activeTopology', (topology: ActiveTopology) =>
+                    topologyStatus.topologyChanged(topology)
+                )
+            );
+
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider('qasm-simulation-result', resultProvider),
+            vscode.commands.registerCommand('qiskit-vscode.simulateQASMCode', () => {
+                let editor = vscode.window.activeTextEditor;
+                if (editor === undefined || editor.document.languageId !== 'qasm-lang') {
+                    vscode.window.showErrorMessage('Open a QASM file to simulate it');
+                    return;
+                }
+
+                let shots = vscode.workspace.getConfiguration('qasmLang').get('simulator.shots');
+                let params = { uri: editor.document.uri.toString(), shots };
+
+                client
+                    .onReady()
+                    .then(() => client.sendRequest<SimulationResult>('qasm/simulate', params))
+                    .then(result => {
+                        if (result.errors.length > 0) {
+                            let error = result.errors[0];
+                            vscode.window.showErrorMessage(`Line ${error.line + 1}: ${error.message}`);
+                            return;
+                        }
+
+                        resultProvider.displayContent(new HistogramRenderer(result.counts).render(), previewUri);
+                        return vscode.commands.executeCommand(
+                            'vscode.previewHtml',
+                            previewUri,
+                            vscode.ViewColumn.Two,
+                            'Simulation result - QASM'
+                        );
+                    })
+                    .then(
+                        _success => {},
+                        reason => {
+                            QLogger.error(`Error: ${reason}`, this);
+                            vscode.window.showErrorMessage(reason);
+                        }
+                    );
+            }),
+            vscode.commands.registerCommand('qiskit-vscode.showCircuit', () => {
+                let editor = vscode.window.activeTextEditor;
+                if (editor === undefined || editor.document.languageId !== 'qasm-lang') {
+                    vscode.window.showErrorMessage('Open a QASM file to show its circuit');
+                    return;
+                }
+
+                circuitView.show(editor.document);
+            }),
+            vscode.commands.registerCommand('qiskit-vscode.exportQASMCode', () => {
+                let editor = vscode.window.activeTextEditor;
+                if (editor === undefined || editor.document.languageId !== 'qasm-lang') {
+                    vscode.window.showErrorMessage('Open a QASM file to export it');
+                    return;
+                }
+                if (editor.document.isUntitled) {
+                    vscode.window.showErrorMessage('Save the QASM file before exporting it');
+                    return;
+                }
+
+                exportQasmCode(editor.document, client, exportDiagnostics);
+            }),
+            vscode.commands.registerCommand('qiskit-vscode.showQASMResources', (uri?: string) => {
+                // the resource lenses tell the document, the command palette uses the active one
+                let editor = vscode.window.activeTextEditor;
+                if (uri === undefined && (editor === undefined || editor.document.languageId !== 'qasm-lang')) {
+                    vscode.window.showErrorMessage('Open a QASM file to show its resources');
+                    return;
+                }
+
+                showResourceReport(uri || editor.document.uri.toString(), client);
+            }),
+            exportDiagnostics,
+            topologyStatus,
+            vscode.workspace.onDidChangeTextDocument(change => exportDiagnostics.delete(change.document.uri)),
+            vscode.workspace.onDidChangeTextDocument(change => circuitView.documentChanged(change.document)),
+            vscode.window.onDidChangeActiveTextEditor(editor => circuitView.activeEditorChanged(editor)),
+            vscode.window.onDidChangeActiveTextEditor(editor => topologyStatus.activeEditorChanged(editor))
+        );
+    }
+
+    export function registerQiskitCommands(context: vscode.ExtensionContext, client: LanguageClient) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('qiskit-vscode.generateQiskitCatalog', () =>
+                QiskitCatalog.generate(client, context.globalStoragePath, true).then(
+                    version => vscode.window.showInformationMessage(`Using the catalog of Qiskit ${version}`),
+                    reason => vscode.window.showErrorMessage(`The Qiskit catalog cannot be generated: ${reason}`)
+                )
+            )
+        );
+    }
+
+    /**
+     * Writes the exported code next to the QASM file, asking before replacing a file which already exists.
+     * The constructs which could not be exported are shown as diagnostics of the QASM document until it
+     * is modified.
+     */
+    function exportQasmCode(
+        document: vscode.TextDocument,
+        client: LanguageClient,
+        diagnostics: vscode.DiagnosticCollection
+    ) {
+        let exportFile: string;
+
+        vscode.window
+            .showQuickPick(EXPORT_TARGETS, { placeHolder: 'Select the language to export the QASM code to' })
+            .then(selected => {
+                if (selected === undefined) {
+                    return undefined;
+                }
+
+                let params = { uri: document.uri.toString(), target: selected.target };
+
+                return client.onReady().then(() => client.sendRequest<ExportResult>('qasm/export', params));
+            })
+            .then(result => {
+                if (result === undefined) {
+                    return undefined;
+                }
+                if (result.content === null) {
+                    diagnostics.delete(document.uri);
+                    let error = result.errors[0];
+                    vscode.window.showErrorMessage(
+                        error !== undefined
+                            ? `Line ${error.line + 1}: ${error.message}`
+                            : 'This QASM file cannot be exported'
+                    );
+                    return undefined;
+                }
+
+                diagnostics.set(document.uri, result.errors.map(error => toDiagnostic(error)));
+
+                let fileName = path.basename(document.fileName, path.extname(document.fileName));
+                exportFile = path.join(path.dirname(document.fileName), fileName + result.fileExtension);
+
+                return confirmReplacing(exportFile).then(confirmed => {
+                    if (!confirmed) {
+                        return undefined;
+                    }
+                    fs.writeFileSync(exportFile, result.content, 'utf8');
+
+                    return vscode.workspace.openTextDocument(exportFile);
+                });
+            })
+            .then(
+                exported => {
+                    if (exported !== undefined) {
+                        vscode.window.showTextDocument(exported, vscode.ViewColumn.Two);
+                    }
+                },
+                reason => {
+                    QLogger.error(`Error exporting to ${exportFile}: ${reason}`, this);
+                    vscode.window.showErrorMessage(`${reason}`);
+                }
+            );
+    }
+
+    function confirmReplacing(file: string): Thenable<boolean> {
+        if (!fs.existsSync(file)) {
+            return Promise.resolve(true);
+        }
+
+        return vscode.window
+            .showWarningMessage(
+                `${path.basename(file)} already exists. Do you want to replace it?`,
+                { modal: true },
+                REPLACE_ACTION
+            )
+            .then(action => action === REPLACE_ACTION);
+    }
+
+    function showResourceReport(uri: string, client: LanguageClient) {
+        client
+            .onReady()
+            .then(() => client.sendRequest<ResourceReportResult>('qasm/resourceReport', { uri }))
+            .then(result => {
+                if (result.content === null) {
+                    let error = result.errors[0];
+                    vscode.window.showErrorMessage(
+                        error !== undefined
+                            ? `Line ${error.line + 1}: ${error.message}`
+                            : 'The resources of this QASM file cannot be estimated'
+                    );
+                    return undefined;
+                }
+
+                return vscode.workspace.openTextDocument({ content: result.content, language: 'markdown' });
+            })
+            .then(
+                report => {
+                    if (report !== undefined) {
+                        vscode.window.showTextDocument(report, vscode.ViewColumn.Two);
+                    }
+                },
+                reason => {
+                    QLogger.error(`Error estimating the resources: ${reason}`, this);
+                    vscode.window.showErrorMessage(`${reason}`);
+                }
+            );
+    }
+
+    function toDiagnostic(error: ExportError): vscode.Diagnostic {
+        let range = new vscode.Range(error.line, error.start, error.line, error.end);
+        let severity = error.level === 0 ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+        let diagnostic = new vscode.Diagnostic(range, error.message, severity);
+        diagnostic.source = 'qasm-export';
+
+        return diagnostic;
+    }
+}
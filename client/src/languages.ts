@@ -26,6 +26,7 @@ export class LanguagesActivation {
 
         let serverOptions = this.buildServerOptions(serverModule, debugOptions);
 
+        // the files read by the server from disk are watched by QASMFileWatchers, which follows the settings
         let clientOptions = this.buildClientOptions('qasm-lang', 'qasmLang');
 
         return new LanguageClient('qasmLang', 'QAsm Language support', serverOptions, clientOptions);
@@ -40,7 +41,7 @@ export class LanguagesActivation {
 
         let serverOptions = this.buildServerOptions(serverModule, debugOptions);
 
-        let clientOptions = this.buildClientOptions('python', 'qiskitLang');
+        let clientOptions = this.buildClientOptions('python', 'qiskitLang', '{**/.clientrc,**/*.py}');
 
         return new LanguageClient('qiskitLang', 'Qiskit support', serverOptions, clientOptions);
     }
@@ -59,7 +60,11 @@ export class LanguagesActivation {
         };
     }
 
-    private buildClientOptions(language: string, configurationSection: string): LanguageClientOptions {
+    private buildClientOptions(
+        language: string,
+        configurationSection: string,
+        watchedFiles?: string
+    ): LanguageClientOptions {
         return {
             documentSelector: [
                 {
@@ -69,7 +74,7 @@ export class LanguagesActivation {
             ],
             synchronize: {
                 configurationSection,
-                fileEvents: vscode.workspace.createFileSystemWatcher('**/.clientrc')
+                fileEvents: watchedFiles ? vscode.workspace.createFileSystemWatcher(watchedFiles) : undefined
             }
         };
     }
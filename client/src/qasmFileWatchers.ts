@@ -0,0 +1,87 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DidChangeWatchedFilesNotification, FileChangeType, LanguageClient } from 'vscode-languageclient/lib/main';
+
+const QASM_SOURCES = '**/*.{qasm,inc}';
+
+/**
+ * Tells the QASM language server about the files it reads from disk: the QASM sources of the workspace,
+ * the ones in the include search paths and the topology file. The watchers follow the settings.
+ */
+export class QASMFileWatchers implements vscode.Disposable {
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private configurationListener: vscode.Disposable;
+
+    constructor(private client: LanguageClient) {
+        this.watch();
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration(change => {
+            if (change.affectsConfiguration('qasmLang.include') || change.affectsConfiguration('qasmLang.topology')) {
+                this.watch();
+            }
+        });
+    }
+
+    dispose() {
+        this.configurationListener.dispose();
+        this.watchers.forEach(watcher => watcher.dispose());
+    }
+
+    private watch() {
+        this.watchers.forEach(watcher => watcher.dispose());
+
+        let configuration = vscode.workspace.getConfiguration('qasmLang');
+        let searchPaths = configuration.get<string[]>('include.searchPaths', []);
+        let topologyFile = configuration.get<string>('topology.file', '');
+
+        let patterns: vscode.GlobPattern[] = [QASM_SOURCES];
+        searchPaths
+            .map(searchPath => this.resolve(searchPath))
+            .filter(folder => !this.isInWorkspace(folder))
+            .forEach(folder => patterns.push(new vscode.RelativePattern(folder, QASM_SOURCES)));
+        if (topologyFile) {
+            let file = this.resolve(topologyFile);
+            patterns.push(new vscode.RelativePattern(path.dirname(file), path.basename(file)));
+        }
+
+        this.watchers = patterns.map(pattern => this.watcherFor(pattern));
+    }
+
+    /** Paths of the settings are relative to the workspace, as the language server reads them. */
+    private resolve(file: string): string {
+        return path.resolve(vscode.workspace.rootPath || '', file);
+    }
+
+    private isInWorkspace(folder: string): boolean {
+        let root = vscode.workspace.rootPath;
+
+        return root !== undefined && !path.relative(root, folder).startsWith('..');
+    }
+
+    private watcherFor(pattern: vscode.GlobPattern): vscode.FileSystemWatcher {
+        let watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        watcher.onDidCreate(uri => this.notify(uri, FileChangeType.Created));
+        watcher.onDidChange(uri => this.notify(uri, FileChangeType.Changed));
+        watcher.onDidDelete(uri => this.notify(uri, FileChangeType.Deleted));
+
+        return watcher;
+    }
+
+    private notify(uri: vscode.Uri, type: FileChangeType) {
+        this.client.onReady().then(() =>
+            this.client.sendNotification(DidChangeWatchedFilesNotification.type, {
+                changes: [{ uri: uri.toString(), type }]
+            })
+        );
+    }
+}
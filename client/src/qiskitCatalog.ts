@@ -0,0 +1,84 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Q from 'q';
+import { LanguageClient } from 'vscode-languageclient/lib/main';
+import { CommandExecutor } from './commandExecutor';
+import { PipExecutor } from './pip/pipExecutor';
+import { ChildProcessCommandExecutor } from './pip/pipCommandExecutor';
+import { Util } from './utils';
+import { QLogger } from './logger';
+
+interface GeneratedCatalog {
+    version: string;
+    file: string;
+}
+
+export namespace QiskitCatalog {
+    const generatorScript = Util.getOSDependentPath('../../resources/qiskitScripts/generateQiskitCatalog.py');
+
+    /**
+     * Tells the Qiskit language server to use the catalog of the installed Qiskit, kept in the storage folder
+     * of the extension. The catalog is only generated when there is none for the installed version or when
+     * it is forced. The server keeps the bundled catalog when the generation fails.
+     */
+    export function generate(
+        client: LanguageClient,
+        storagePath: string,
+        force = false,
+        pipExecutor = new PipExecutor(new ChildProcessCommandExecutor())
+    ): Q.Promise<string> {
+        return Q(pipExecutor.getPackageInfo('qiskit'))
+            .then(packageInfo => packageInfo.version.toString(), () => null)
+            .then(installedVersion => {
+                let cachedFile = installedVersion !== null ? catalogFile(storagePath, installedVersion) : null;
+                if (!force && cachedFile !== null && fs.existsSync(cachedFile)) {
+                    return { version: installedVersion, file: cachedFile };
+                }
+
+                return runGenerator(storagePath, force);
+            })
+            .then(catalog => {
+                QLogger.verbose(`Using the catalog of Qiskit ${catalog.version} at ${catalog.file}`, this);
+
+                return client.onReady().then(() => {
+                    client.sendNotification('qiskit/catalog', { version: catalog.version, folder: storagePath });
+
+                    return catalog.version;
+                });
+            })
+            .catch(error => {
+                QLogger.error(`The Qiskit catalog cannot be generated, using the bundled one: ${error}`, this);
+
+                return Q.reject<string>(error);
+            });
+    }
+
+    /** Same name the generator gives to the catalog of every Qiskit version. */
+    function catalogFile(storagePath: string, version: string): string {
+        return path.join(storagePath, `qiskit-${version}.json`);
+    }
+
+    function runGenerator(storagePath: string, force: boolean): Q.Promise<GeneratedCatalog> {
+        let args = [generatorScript, '--output', storagePath].concat(force ? ['--force'] : []);
+
+        return CommandExecutor.exec('python', args).then(catalogOf);
+    }
+
+    /** The script may print warnings before, the last line tells the catalog written. */
+    function catalogOf(output: string): GeneratedCatalog {
+        let lines = output.split('\n').filter(line => line.trim() !== '');
+
+        return JSON.parse(lines[lines.length - 1]);
+    }
+}
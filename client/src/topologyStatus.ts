@@ -0,0 +1,60 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+
+export interface ActiveTopology {
+    name: string;
+    qubits: number;
+    error?: string;
+}
+
+/** Status bar item showing the device topology the QASM documents are checked against. */
+export class TopologyStatus {
+    private item: vscode.StatusBarItem;
+    private topology: ActiveTopology = { name: null, qubits: 0 };
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+    }
+
+    topologyChanged(topology: ActiveTopology) {
+        this.topology = topology;
+        this.update(vscode.window.activeTextEditor);
+    }
+
+    /** The topology is only shown while a QASM document is being edited. */
+    activeEditorChanged(editor: vscode.TextEditor) {
+        this.update(editor);
+    }
+
+    dispose() {
+        this.item.dispose();
+    }
+
+    private update(editor: vscode.TextEditor) {
+        let isQasm = editor !== undefined && editor.document.languageId === 'qasm-lang';
+        if (!isQasm || (this.topology.name === null && this.topology.error === undefined)) {
+            this.item.hide();
+            return;
+        }
+
+        if (this.topology.error !== undefined) {
+            this.item.text = '$(alert) No device topology';
+            this.item.tooltip = this.topology.error;
+        } else {
+            let { name, qubits } = this.topology;
+            this.item.text = `$(circuit-board) ${name}`;
+            this.item.tooltip = `The QASM code is checked against the ${qubits} qubits of ${name}`;
+        }
+        this.item.show();
+    }
+}
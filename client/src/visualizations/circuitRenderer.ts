@@ -0,0 +1,215 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { RenderStrategy, CircuitDiagram, CircuitOperation } from './types';
+
+const MARGIN = 20;
+const LABELS_WIDTH = 60;
+const WIRES_SPACING = 40;
+const COLUMNS_SPACING = 16;
+const CHARACTER_WIDTH = 8;
+const BOX_PADDING = 12;
+const BOX_HEIGHT = 28;
+const CONTROL_RADIUS = 4;
+const TARGET_RADIUS = 10;
+const CLASSICAL_WIRES_GAP = 2;
+const CONDITION_LABEL_OFFSET = 16;
+const TEXT_BASELINE_OFFSET = 5;
+const HALF = 0.5;
+const CONTROLLED_NOT_QUBITS = 2;
+
+/** Draws the circuit diagram as an SVG image, with the quantum wires above the classical ones. */
+export class CircuitRenderer implements RenderStrategy {
+    private columnsStart: number[] = [];
+    private columnsWidth: number[] = [];
+
+    constructor(private diagram: CircuitDiagram) {}
+
+    render(): string {
+        this.calculateColumns();
+
+        let wires = this.diagram.qubits + this.diagram.clbits;
+        let width = LABELS_WIDTH + this.columnsWidth.reduce((total, columnWidth) => total + columnWidth, 0) + MARGIN;
+        let height = this.wireY(wires - 1) + CONDITION_LABEL_OFFSET + MARGIN;
+        let elements = this.wires().concat(...this.diagram.operations.map(operation => this.operation(operation)));
+        let notice =
+            this.diagram.errors.length > 0 ? '<p>The code has errors, so the circuit may be incomplete.</p>' : '';
+
+        return `<!DOCTYPE html>
+<html>
+<body>
+${notice}
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" stroke="currentColor" fill="none" font-family="monospace" font-size="13">
+${elements.join('\n')}
+</svg>
+</body>
+</html>`;
+    }
+
+    private calculateColumns() {
+        this.columnsWidth = [];
+        for (let column = 0; column < this.diagram.columns; column++) {
+            let boxesWidth = this.diagram.operations
+                .filter(operation => operation.column === column)
+                .map(operation => boxWidth(operation));
+            this.columnsWidth.push(Math.max(BOX_HEIGHT, ...boxesWidth) + COLUMNS_SPACING);
+        }
+
+        this.columnsStart = [];
+        this.columnsWidth.reduce((start, columnWidth) => {
+            this.columnsStart.push(start);
+            return start + columnWidth;
+        }, LABELS_WIDTH);
+    }
+
+    private wires(): string[] {
+        let end = LABELS_WIDTH + this.columnsWidth.reduce((total, columnWidth) => total + columnWidth, 0);
+        let elements: string[] = [];
+
+        this.diagram.quantumRegisters.forEach(register => {
+            for (let i = 0; i < register.size; i++) {
+                let y = this.wireY(register.offset + i);
+                elements.push(text(`${register.name}[${i}]`, MARGIN, y, 'start'));
+                elements.push(line(LABELS_WIDTH, y, end, y));
+            }
+        });
+
+        this.diagram.classicalRegisters.forEach(register => {
+            for (let i = 0; i < register.size; i++) {
+                let y = this.wireY(this.diagram.qubits + register.offset + i);
+                elements.push(text(`${register.name}[${i}]`, MARGIN, y, 'start'));
+                elements.push(line(LABELS_WIDTH, y - CLASSICAL_WIRES_GAP, end, y - CLASSICAL_WIRES_GAP));
+                elements.push(line(LABELS_WIDTH, y + CLASSICAL_WIRES_GAP, end, y + CLASSICAL_WIRES_GAP));
+            }
+        });
+
+        return elements;
+    }
+
+    private operation(operation: CircuitOperation): string[] {
+        let x = this.columnsStart[operation.column] + this.columnsWidth[operation.column] * HALF;
+        let elements = operation.condition !== undefined ? this.condition(operation, x) : [];
+
+        switch (operation.type) {
+            case 'measure':
+                return elements.concat(this.measure(operation, x));
+            case 'barrier':
+                return elements.concat(this.barrier(operation, x));
+            case 'reset':
+                return elements.concat(this.box(operation, x, '|0⟩'));
+            default:
+                if (isControlledNot(operation)) {
+                    return elements.concat(this.controlledNot(operation, x));
+                }
+
+                return elements.concat(this.box(operation, x, labelOf(operation)));
+        }
+    }
+
+    private box(operation: CircuitOperation, x: number, label: string): string[] {
+        let top = this.wireY(Math.min(...operation.qubits)) - BOX_HEIGHT * HALF;
+        let bottom = this.wireY(Math.max(...operation.qubits)) + BOX_HEIGHT * HALF;
+        let width = boxWidth(operation);
+
+        return [
+            `<rect x="${x - width * HALF}" y="${top}" width="${width}" height="${bottom - top}" ` +
+                'fill="var(--vscode-editor-background, white)"/>',
+            text(label, x, (top + bottom) * HALF, 'middle')
+        ];
+    }
+
+    private controlledNot(operation: CircuitOperation, x: number): string[] {
+        let controlY = this.wireY(operation.qubits[0]);
+        let targetY = this.wireY(operation.qubits[1]);
+        let targetTop = targetY + (controlY < targetY ? -TARGET_RADIUS : TARGET_RADIUS);
+
+        return [
+            line(x, controlY, x, targetTop),
+            `<circle cx="${x}" cy="${controlY}" r="${CONTROL_RADIUS}" fill="currentColor"/>`,
+            `<circle cx="${x}" cy="${targetY}" r="${TARGET_RADIUS}"/>`,
+            line(x - TARGET_RADIUS, targetY, x + TARGET_RADIUS, targetY),
+            line(x, targetY - TARGET_RADIUS, x, targetY + TARGET_RADIUS)
+        ];
+    }
+
+    private measure(operation: CircuitOperation, x: number): string[] {
+        let clbitY = this.wireY(this.diagram.qubits + operation.clbit);
+        let boxBottom = this.wireY(operation.qubits[0]) + BOX_HEIGHT * HALF;
+
+        return [
+            line(x - CLASSICAL_WIRES_GAP, boxBottom, x - CLASSICAL_WIRES_GAP, clbitY),
+            line(x + CLASSICAL_WIRES_GAP, boxBottom, x + CLASSICAL_WIRES_GAP, clbitY),
+            `<circle cx="${x}" cy="${clbitY}" r="${CONTROL_RADIUS}" fill="currentColor"/>`,
+            ...this.box(operation, x, 'M')
+        ];
+    }
+
+    private barrier(operation: CircuitOperation, x: number): string[] {
+        let top = this.wireY(Math.min(...operation.qubits)) - BOX_HEIGHT * HALF;
+        let bottom = this.wireY(Math.max(...operation.qubits)) + BOX_HEIGHT * HALF;
+
+        return [`<line x1="${x}" y1="${top}" x2="${x}" y2="${bottom}" stroke-dasharray="4 4"/>`];
+    }
+
+    /** Connects the operation with the last bit of the classical register it depends on. */
+    private condition(operation: CircuitOperation, x: number): string[] {
+        let register = this.diagram.classicalRegisters.find(layout => layout.name === operation.condition.register);
+        if (register === undefined) {
+            return [];
+        }
+
+        let top = this.wireY(Math.max(...operation.qubits));
+        let bottom = this.wireY(this.diagram.qubits + register.offset + register.size - 1);
+
+        return [
+            line(x - CLASSICAL_WIRES_GAP, top, x - CLASSICAL_WIRES_GAP, bottom),
+            line(x + CLASSICAL_WIRES_GAP, top, x + CLASSICAL_WIRES_GAP, bottom),
+            `<circle cx="${x}" cy="${bottom}" r="${CONTROL_RADIUS}" fill="currentColor"/>`,
+            text(`${register.name}==${operation.condition.value}`, x, bottom + CONDITION_LABEL_OFFSET, 'middle')
+        ];
+    }
+
+    private wireY(wire: number): number {
+        return MARGIN + BOX_HEIGHT * HALF + Math.max(wire, 0) * WIRES_SPACING;
+    }
+}
+
+function isControlledNot(operation: CircuitOperation): boolean {
+    return (operation.name === 'CX' || operation.name === 'cx') && operation.qubits.length === CONTROLLED_NOT_QUBITS;
+}
+
+function labelOf(operation: CircuitOperation): string {
+    return operation.parameters.length > 0 ? `${operation.name}(${operation.parameters.join(', ')})` : operation.name;
+}
+
+function boxWidth(operation: CircuitOperation): number {
+    if (operation.type !== 'gate' || isControlledNot(operation)) {
+        return BOX_HEIGHT;
+    }
+
+    return Math.max(BOX_HEIGHT, labelOf(operation).length * CHARACTER_WIDTH + BOX_PADDING);
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): string {
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>`;
+}
+
+function text(content: string, x: number, y: number, anchor: string): string {
+    let escaped = content
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+
+    return (
+        `<text x="${x}" y="${y + TEXT_BASELINE_OFFSET}" text-anchor="${anchor}" ` +
+        `fill="currentColor" stroke="none">${escaped}</text>`
+    );
+}
@@ -19,17 +19,11 @@ export class HistogramRenderer implements RenderStrategy {
 
     render(): string {
         let templatePath = Util.getOSDependentPath('../../resources/html-templates/temp-plot-shots.html');
-        let resultString = this.result.toString().replace(/'/g, '"');
+        let resultString = this.resultAsString().replace(/'/g, '"');
         try {
-            let execResult = JSON.parse(String(resultString));
-            return this.createHistogram(execResult.result[0].data.counts, templatePath);
+            return this.createHistogram(this.countsOf(JSON.parse(String(resultString))), templatePath);
         } catch (err) {
-            try {
-                let execResult = JSON.parse(String(resultString));
-                return this.createHistogram(execResult, templatePath);
-            } catch (err) {
-                return `<pre>${resultString}</pre>`;
-            }
+            return `<pre>${resultString}</pre>`;
         }
     }
 
@@ -64,4 +58,21 @@ export class HistogramRenderer implements RenderStrategy {
             return `<pre>${countsArray}</pre>`;
         }
     }
+
+    /** Qiskit results nest the counts of each experiment, while the built-in simulator sends the counts alone. */
+    private countsOf(execResult: any): object {
+        if (Array.isArray(execResult.result)) {
+            return execResult.result[0].data.counts;
+        }
+
+        return execResult;
+    }
+
+    private resultAsString(): string {
+        if (typeof this.result === 'string') {
+            return this.result;
+        }
+
+        return JSON.stringify(this.result);
+    }
 }
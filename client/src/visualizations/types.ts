@@ -12,3 +12,35 @@
 export interface RenderStrategy {
     render(): string;
 }
+
+export interface RegisterLayout {
+    name: string;
+    offset: number;
+    size: number;
+}
+
+export interface CircuitCondition {
+    register: string;
+    value: number;
+}
+
+export interface CircuitOperation {
+    type: 'gate' | 'measure' | 'barrier' | 'reset';
+    name: string;
+    parameters: string[];
+    qubits: number[];
+    clbit?: number;
+    condition?: CircuitCondition;
+    column: number;
+}
+
+/** Circuit diagram calculated by the QASM language server. */
+export interface CircuitDiagram {
+    quantumRegisters: RegisterLayout[];
+    classicalRegisters: RegisterLayout[];
+    qubits: number;
+    clbits: number;
+    columns: number;
+    operations: CircuitOperation[];
+    errors: object[];
+}
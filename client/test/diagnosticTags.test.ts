@@ -0,0 +1,40 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+import { DiagnosticTags } from '../src/diagnosticTags';
+jest.mock('vscode', () => ({ DiagnosticTag: { Unnecessary: 1 } }), { virtual: true });
+
+describe('DiagnosticTags', () => {
+    let published: any;
+    let client: any = {
+        onReady: () => Promise.resolve(),
+        onNotification: (_type: any, handler: any) => (published = handler),
+        diagnostics: { set: jest.fn() },
+        protocol2CodeConverter: {
+            asUri: (uri: string) => `converted ${uri}`,
+            asDiagnostic: (diagnostic: any) => ({ message: diagnostic.message })
+        }
+    };
+    let range = { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } };
+
+    it('keeps the unnecessary tag of the published diagnostics', async () => {
+        DiagnosticTags.register(client);
+        await client.onReady();
+
+        published({
+            uri: 'file:///bell.qasm',
+            diagnostics: [{ range, message: 'unused', tags: [1] }, { range, message: 'error' }]
+        });
+
+        expect(client.diagnostics.set).toHaveBeenCalledWith('converted file:///bell.qasm', [
+            { message: 'unused', tags: [1] },
+            { message: 'error' }
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as Q from 'q';
+import { QiskitCatalog } from '../src/qiskitCatalog';
+import { CommandExecutor } from '../src/commandExecutor';
+import { PipExecutor } from '../src/pip/pipExecutor';
+import { FakePipCommandExecutor } from './tools/fakePipCommandExecutor';
+
+describe('QiskitCatalog', () => {
+    let storagePath: string;
+    let generator: jest.SpyInstance;
+    let client: any;
+    let pipExecutor = new PipExecutor(new FakePipCommandExecutor());
+    let generatedFile = () => path.join(storagePath, 'qiskit-0.5.5.json');
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'qiskit-catalogs-'));
+        client = { onReady: () => Promise.resolve(), sendNotification: jest.fn() };
+        generator = jest
+            .spyOn(CommandExecutor, 'exec')
+            .mockImplementation(() => Q(`warning\n${JSON.stringify({ version: '0.5.5', file: generatedFile() })}`));
+    });
+
+    afterEach(() => {
+        generator.mockRestore();
+        if (fs.existsSync(generatedFile())) {
+            fs.unlinkSync(generatedFile());
+        }
+        fs.rmdirSync(storagePath);
+    });
+
+    it('generates the catalog of the installed Qiskit in the storage folder', async () => {
+        let version = await QiskitCatalog.generate(client, storagePath, false, pipExecutor);
+
+        expect(version).toBe('0.5.5');
+        expect(generator.mock.calls[0][1]).toEqual([expect.any(String), '--output', storagePath]);
+        expect(client.sendNotification).toHaveBeenCalledWith('qiskit/catalog', {
+            version: '0.5.5',
+            folder: storagePath
+        });
+    });
+
+    it('reuses the catalog of the installed Qiskit without running the generator', async () => {
+        fs.writeFileSync(generatedFile(), '{}');
+
+        let version = await QiskitCatalog.generate(client, storagePath, false, pipExecutor);
+
+        expect(version).toBe('0.5.5');
+        expect(generator).not.toHaveBeenCalled();
+        expect(client.sendNotification).toHaveBeenCalledWith('qiskit/catalog', {
+            version: '0.5.5',
+            folder: storagePath
+        });
+    });
+
+    it('generates the catalog again when it is forced', async () => {
+        fs.writeFileSync(generatedFile(), '{}');
+
+        await QiskitCatalog.generate(client, storagePath, true, pipExecutor);
+
+        expect(generator.mock.calls[0][1]).toEqual([expect.any(String), '--output', storagePath, '--force']);
+    });
+});
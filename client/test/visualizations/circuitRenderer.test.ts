@@ -0,0 +1,49 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+import { CircuitRenderer } from '../../src/visualizations/circuitRenderer';
+import { CircuitDiagram } from '../../src/visualizations/types';
+
+describe('CircuitRenderer', () => {
+    let diagram: CircuitDiagram = {
+        quantumRegisters: [{ name: 'q', offset: 0, size: 2 }],
+        classicalRegisters: [{ name: 'c', offset: 0, size: 1 }],
+        qubits: 2,
+        clbits: 1,
+        columns: 3,
+        operations: [
+            { type: 'gate', name: 'u1', parameters: ['pi/2'], qubits: [0], column: 0 },
+            { type: 'gate', name: 'cx', parameters: [], qubits: [0, 1], column: 1 },
+            { type: 'measure', name: 'measure', parameters: [], qubits: [1], clbit: 0, column: 2 }
+        ],
+        errors: []
+    };
+
+    it('draws a wire for every qubit and classical bit', () => {
+        let html = new CircuitRenderer(diagram).render();
+
+        expect(html).toContain('>q[0]</text>');
+        expect(html).toContain('>q[1]</text>');
+        expect(html).toContain('>c[0]</text>');
+    });
+
+    it('draws the gates with their parameters', () => {
+        let html = new CircuitRenderer(diagram).render();
+
+        expect(html).toContain('>u1(pi/2)</text>');
+        expect(html).toContain('>M</text>');
+        expect(html).not.toContain('>cx</text>');
+    });
+
+    it('warns when the code has errors', () => {
+        let html = new CircuitRenderer(Object.assign({}, diagram, { errors: [{ message: 'error' }] })).render();
+
+        expect(html).toContain('The code has errors');
+    });
+});
@@ -23,4 +23,20 @@ describe('HistogramRenderer', () => {
 
         expect(histRend).toEqual(outputPar);
     });
+
+    it('renders the counts sent by the built-in simulator', () => {
+        let histRend = new HistogramRenderer({ '00': 514, '11': 510 });
+        let createHistogram = jest.spyOn(histRend, 'createHistogram').mockReturnValue('histogram');
+
+        expect(histRend.render()).toEqual('histogram');
+        expect(createHistogram.mock.calls[0][0]).toEqual({ '00': 514, '11': 510 });
+    });
+
+    it('renders the counts of the first experiment of a Qiskit result', () => {
+        let histRend = new HistogramRenderer({ result: [{ data: { counts: { '01': 3 } } }] });
+        let createHistogram = jest.spyOn(histRend, 'createHistogram').mockReturnValue('histogram');
+
+        expect(histRend.render()).toEqual('histogram');
+        expect(createHistogram.mock.calls[0][0]).toEqual({ '01': 3 });
+    });
 });
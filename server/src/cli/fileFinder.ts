@@ -0,0 +1,99 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+import { DirectoryWalker } from '../tools/directoryWalker';
+
+/** Files linted when a folder is given, the libraries are only linted when they are named. */
+const FOLDER_EXTENSIONS = ['.qasm', '.py'];
+const GLOB_CHARACTERS = /[*?]/;
+
+export interface FoundFiles {
+    files: string[];
+    /** Patterns which did not match any file. */
+    unmatched: string[];
+}
+
+export namespace FileFinder {
+    /**
+     * Expands the files, folders and glob patterns, relative to the working directory. The globs support
+     * `*` and `?` inside a path segment and `**` for any number of folders.
+     */
+    export function find(patterns: string[], workingDirectory: string): FoundFiles {
+        let found: string[] = [];
+        let unmatched: string[] = [];
+
+        patterns.forEach(pattern => {
+            let files = GLOB_CHARACTERS.test(pattern)
+                ? filesMatching(pattern, workingDirectory)
+                : filesAt(path.resolve(workingDirectory, pattern));
+            if (files.length === 0) {
+                unmatched.push(pattern);
+            }
+            files.filter(file => found.indexOf(file) === -1).forEach(file => found.push(file));
+        });
+
+        return { files: found, unmatched };
+    }
+}
+
+function filesAt(file: string): string[] {
+    let stats: fs.Stats;
+    try {
+        stats = fs.statSync(file);
+    } catch (error) {
+        return [];
+    }
+
+    if (!stats.isDirectory()) {
+        return [file];
+    }
+
+    return DirectoryWalker.filesIn(file).filter(entry => FOLDER_EXTENSIONS.indexOf(path.extname(entry)) > -1);
+}
+
+function filesMatching(pattern: string, workingDirectory: string): string[] {
+    let segments = path.resolve(workingDirectory, pattern).split(path.sep);
+    let firstGlob = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+    let base = segments.slice(0, firstGlob).join(path.sep) || path.sep;
+    let globSegments = segments.slice(firstGlob).map(regExpOf);
+    let expression = new RegExp(`^${globSegments.join('')}$`);
+
+    return DirectoryWalker.filesIn(base).filter(file => expression.test(`${slashPathOf(path.relative(base, file))}/`));
+}
+
+function slashPathOf(file: string): string {
+    return file.split(path.sep).join('/');
+}
+
+/** Every segment matches the path up to the next slash, the `**` ones match any number of folders. */
+function regExpOf(segment: string): string {
+    if (segment === '**') {
+        return '(?:[^/]+/)*';
+    }
+
+    let escaped = segment
+        .split('')
+        .map(character => {
+            if (character === '*') {
+                return '[^/]*';
+            }
+            if (character === '?') {
+                return '[^/]';
+            }
+
+            return character.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+        })
+        .join('');
+
+    return `${escaped}/`;
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+import Uri from 'vscode-uri';
+import { FileDiagnostics, LintOptions } from './types';
+import { QASMParser } from '../qasm/parser';
+import { QASM3Parser } from '../qasm3/parser';
+import { QASMVersionedParser } from '../qasm/versionedParser';
+import { QASMConfiguration, LintSettings } from '../qasm/settings';
+import { QASMIncludeResolver } from '../qasm/libs/includeResolver';
+import { DeviceTopology } from '../qasm/topology/types';
+import { QiskitParser } from '../qiskit/parser';
+import { Parser } from '../types';
+
+const QASM_EXTENSIONS = ['.qasm', '.inc'];
+const QISKIT_EXTENSIONS = ['.py'];
+
+/** Runs on files the same parsers the language servers run on the open documents. */
+export class FileLinter {
+    private qasmParser: QASMParser;
+    private versionedParser: QASMVersionedParser;
+    private qiskitParser = new QiskitParser();
+
+    constructor(options: LintOptions, topology: DeviceTopology = null, includeResolver = new QASMIncludeResolver()) {
+        this.qasmParser = new QASMParser(includeResolver);
+        this.qasmParser.lintSettings = lintSettingsOf(options.rules);
+        this.qasmParser.topology = topology;
+        this.versionedParser = new QASMVersionedParser(this.qasmParser, new QASM3Parser(includeResolver));
+    }
+
+    static isSupported(file: string): boolean {
+        let extension = path.extname(file);
+
+        return QASM_EXTENSIONS.indexOf(extension) > -1 || QISKIT_EXTENSIONS.indexOf(extension) > -1;
+    }
+
+    /** Throws the error of the file system when the file cannot be read. */
+    lint(file: string): FileDiagnostics {
+        let content = fs.readFileSync(file, 'utf-8');
+        let parser: Parser =
+            QASM_EXTENSIONS.indexOf(path.extname(file)) > -1 ? this.versionedParser : this.qiskitParser;
+
+        return { file, errors: parser.parse(content, Uri.file(file).toString()).errors };
+    }
+}
+
+function lintSettingsOf(rules: string[]): LintSettings {
+    let settings: any = QASMConfiguration.defaults().lint;
+    Object.keys(settings).forEach(rule => (settings[rule] = rules.indexOf(rule) > -1));
+
+    return settings;
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import Uri from 'vscode-uri';
+import { FileDiagnostics, OutputFormat } from './types';
+import { ParserError, ParseErrorLevel } from '../types';
+
+const SARIF_VERSION = '2.1.0';
+const SARIF_SCHEMA = 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json';
+const TOOL_NAME = 'qiskit-vscode';
+const TOOL_URI = 'https://github.com/Qiskit/qiskit-vscode';
+const JSON_INDENT = 2;
+
+/** Writes the diagnostics of the linted files, with lines and columns starting at 1 in every format. */
+export namespace DiagnosticsFormatter {
+    export function format(results: FileDiagnostics[], outputFormat: OutputFormat, workingDirectory: string): string {
+        switch (outputFormat) {
+            case OutputFormat.Json:
+                return JSON.stringify(results.map(result => jsonOf(result, workingDirectory)), null, JSON_INDENT);
+            case OutputFormat.Sarif:
+                return JSON.stringify(sarifOf(results, workingDirectory), null, JSON_INDENT);
+            default:
+                return humanOf(results, workingDirectory);
+        }
+    }
+}
+
+function humanOf(results: FileDiagnostics[], workingDirectory: string): string {
+    let lines = results
+        .map(result =>
+            result.errors.map(
+                error =>
+                    `${relative(result.file, workingDirectory)}:${error.line + 1}:${error.start + 1}: ` +
+                    `${severityOf(error)}: ${error.message}${error.code !== undefined ? ` [${error.code}]` : ''}`
+            )
+        )
+        .reduce((all, fileLines) => all.concat(fileLines), []);
+
+    let errors = countOf(results, ParseErrorLevel.ERROR);
+    let warnings = countOf(results, ParseErrorLevel.WARNING);
+    let files = results.length;
+    lines.push(
+        `${plural(errors, 'error')} and ${plural(warnings, 'warning')} found in ${plural(files, 'file')} checked.`
+    );
+
+    return lines.join('\n');
+}
+
+function jsonOf(result: FileDiagnostics, workingDirectory: string) {
+    return {
+        file: relative(result.file, workingDirectory),
+        diagnostics: result.errors.map(error => ({
+            line: error.line + 1,
+            column: error.start + 1,
+            endColumn: error.end + 1,
+            severity: severityOf(error),
+            message: error.message,
+            rule: error.code || null
+        }))
+    };
+}
+
+/** Static Analysis Results Interchange Format, read by the code scanning of the CI services. */
+function sarifOf(results: FileDiagnostics[], workingDirectory: string) {
+    let errors = results
+        .map(result => result.errors.map(error => ({ file: result.file, error })))
+        .reduce((all, fileErrors) => all.concat(fileErrors), []);
+    let rules = errors
+        .map(({ error }) => error.code)
+        .filter((code, index, codes) => code !== undefined && codes.indexOf(code) === index);
+
+    return {
+        version: SARIF_VERSION,
+        $schema: SARIF_SCHEMA,
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: TOOL_NAME,
+                        informationUri: TOOL_URI,
+                        rules: rules.map(rule => ({ id: rule }))
+                    }
+                },
+                results: errors.map(({ file, error }) => ({
+                    ruleId: error.code,
+                    level: severityOf(error),
+                    message: { text: error.message },
+                    locations: [
+                        {
+                            physicalLocation: {
+                                artifactLocation: { uri: sarifUriOf(file, workingDirectory) },
+                                region: {
+                                    startLine: error.line + 1,
+                                    startColumn: error.start + 1,
+                                    endColumn: error.end + 1
+                                }
+                            }
+                        }
+                    ]
+                }))
+            }
+        ]
+    };
+}
+
+/** The files inside the working directory are written relative to it, as the CI services expect. */
+function sarifUriOf(file: string, workingDirectory: string): string {
+    let relativePath = relative(file, workingDirectory);
+
+    return path.isAbsolute(relativePath) ? Uri.file(file).toString() : relativePath.split(path.sep).join('/');
+}
+
+function relative(file: string, workingDirectory: string): string {
+    let relativePath = path.relative(workingDirectory, file);
+
+    return relativePath.startsWith('..') ? file : relativePath;
+}
+
+function severityOf(error: ParserError): string {
+    return error.level === ParseErrorLevel.ERROR ? 'error' : 'warning';
+}
+
+function countOf(results: FileDiagnostics[], level: ParseErrorLevel): number {
+    return results
+        .map(result => result.errors.filter(error => error.level === level).length)
+        .reduce((total, count) => total + count, 0);
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { LintOptionsParser, USAGE } from './optionsParser';
+import { FileFinder } from './fileFinder';
+import { FileLinter } from './fileLinter';
+import { DiagnosticsFormatter } from './formatters';
+import { FileDiagnostics } from './types';
+import { TopologyLoader } from '../qasm/topology/topologyLoader';
+
+export const EXIT_SUCCESS = 0;
+/** Diagnostics at the failing severity were found. */
+export const EXIT_FAILURE = 1;
+/** The arguments are wrong or some file could not be linted. */
+export const EXIT_USAGE_ERROR = 2;
+
+/** The first arguments are node and this script. */
+const FIRST_ARGUMENT = 2;
+
+export interface LintOutput {
+    log(message: string): void;
+    error(message: string): void;
+}
+
+/**
+ * Lints the files given in the command line and writes their diagnostics to the output, the problems
+ * running the command are written to the error output. Returns the exit code.
+ */
+export function run(args: string[], workingDirectory: string, output: LintOutput): number {
+    let { options, error } = LintOptionsParser.parse(args);
+    if (error !== undefined) {
+        output.error(`${error}\n\n${USAGE}`);
+        return EXIT_USAGE_ERROR;
+    }
+    if (options.help) {
+        output.log(USAGE);
+        return EXIT_SUCCESS;
+    }
+
+    let topology = null;
+    if (options.topology !== undefined) {
+        let loaded = TopologyLoader.load({ file: options.topology, device: null }, workingDirectory);
+        if (loaded.topology === null) {
+            output.error(loaded.error);
+            return EXIT_USAGE_ERROR;
+        }
+        topology = loaded.topology;
+    }
+
+    let exitCode = EXIT_SUCCESS;
+    let found = FileFinder.find(options.patterns, workingDirectory);
+    found.unmatched.forEach(pattern => output.error(`No files found at ${pattern}.`));
+    found.files
+        .filter(file => !FileLinter.isSupported(file))
+        .forEach(file => output.error(`Skipping ${file}, only .qasm, .inc and .py files are linted.`));
+
+    let linter = new FileLinter(options, topology);
+    let results: FileDiagnostics[] = [];
+    found.files.filter(file => FileLinter.isSupported(file)).forEach(file => {
+        try {
+            results.push(linter.lint(file));
+        } catch (readError) {
+            output.error(`${file} cannot be read: ${readError.message}`);
+            exitCode = EXIT_USAGE_ERROR;
+        }
+    });
+    if (results.length === 0) {
+        output.error('No files to lint.');
+        return EXIT_USAGE_ERROR;
+    }
+
+    let failed = results.some(result => result.errors.some(diagnostic => diagnostic.level <= options.failOn));
+    let reported = results.map(result => ({
+        file: result.file,
+        errors: result.errors.filter(diagnostic => diagnostic.level <= options.severity)
+    }));
+    output.log(DiagnosticsFormatter.format(reported, options.format, workingDirectory));
+
+    return exitCode === EXIT_SUCCESS && failed ? EXIT_FAILURE : exitCode;
+}
+
+if (require.main === module) {
+    process.exitCode = run(process.argv.slice(FIRST_ARGUMENT), process.cwd(), console);
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { LintOptions, OptionsResult, OutputFormat } from './types';
+import { QASMConfiguration } from '../qasm/settings';
+import { ParseErrorLevel } from '../types';
+
+const SEVERITIES: { [name: string]: ParseErrorLevel } = {
+    error: ParseErrorLevel.ERROR,
+    warning: ParseErrorLevel.WARNING
+};
+
+export const USAGE = `Usage: qiskit-vscode-lint [options] <files, folders or globs...>
+
+Lints OpenQASM (.qasm, .inc) and Qiskit (.py) files with the diagnostics of the editor.
+
+Options:
+  --format <human|json|sarif>   Output format, human by default.
+  --rules <rule,...>            QASM lint rules to run, all by default: ${allRules().join(', ')}.
+  --severity <error|warning>    Lowest severity reported, warning by default.
+  --fail-on <error|warning>     Lowest severity making the command fail, error by default.
+  --topology <file>             JSON file with the device topology the QASM files are checked against.
+  --help                        Shows this help.`;
+
+export namespace LintOptionsParser {
+    export function parse(args: string[]): OptionsResult {
+        let options: LintOptions = {
+            patterns: [],
+            format: OutputFormat.Human,
+            rules: allRules(),
+            severity: ParseErrorLevel.WARNING,
+            failOn: ParseErrorLevel.ERROR,
+            help: false
+        };
+        let invalid = (error: string): OptionsResult => ({ options: null, error });
+
+        for (let i = 0; i < args.length; i++) {
+            let arg = args[i];
+            if (arg === '--help') {
+                options.help = true;
+                continue;
+            }
+            if (!arg.startsWith('--')) {
+                options.patterns.push(arg);
+                continue;
+            }
+
+            let value = args[++i];
+            if (value === undefined) {
+                return invalid(`Missing value of ${arg}.`);
+            }
+
+            switch (arg) {
+                case '--format':
+                    let formats = Object.keys(OutputFormat).map(key => (OutputFormat as any)[key]);
+                    if (formats.indexOf(value) === -1) {
+                        return invalid(`Unknown format ${value}, expecting ${formats.join(', ')}.`);
+                    }
+                    options.format = value as OutputFormat;
+                    break;
+                case '--rules':
+                    let rules = value.split(',').filter(rule => rule !== '');
+                    let unknownRule = rules.find(rule => allRules().indexOf(rule) === -1);
+                    if (unknownRule !== undefined) {
+                        return invalid(`Unknown rule ${unknownRule}, expecting ${allRules().join(', ')}.`);
+                    }
+                    options.rules = rules;
+                    break;
+                case '--severity':
+                case '--fail-on':
+                    if (!(value in SEVERITIES)) {
+                        return invalid(`Unknown severity ${value}, expecting error or warning.`);
+                    }
+                    if (arg === '--severity') {
+                        options.severity = SEVERITIES[value];
+                    } else {
+                        options.failOn = SEVERITIES[value];
+                    }
+                    break;
+                case '--topology':
+                    options.topology = value;
+                    break;
+                default:
+                    return invalid(`Unknown option ${arg}.`);
+            }
+        }
+
+        if (options.patterns.length === 0 && !options.help) {
+            return invalid('Expecting the files to lint.');
+        }
+
+        return { options };
+    }
+}
+
+function allRules(): string[] {
+    return Object.keys(QASMConfiguration.defaults().lint);
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserError, ParseErrorLevel } from '../types';
+
+export enum OutputFormat {
+    Human = 'human',
+    Json = 'json',
+    Sarif = 'sarif'
+}
+
+export interface LintOptions {
+    /** Files, folders or glob patterns to lint. */
+    patterns: string[];
+    format: OutputFormat;
+    /** QASM lint rules to run, named as the qasmLang.lint settings. */
+    rules: string[];
+    /** Lowest severity reported. */
+    severity: ParseErrorLevel;
+    /** Lowest severity making the command fail. */
+    failOn: ParseErrorLevel;
+    /** JSON file with the device topology the QASM files are checked against. */
+    topology?: string;
+    help: boolean;
+}
+
+export interface OptionsResult {
+    options: LintOptions;
+    /** Explains the wrong arguments, in which case the options are null. */
+    error?: string;
+}
+
+export interface FileDiagnostics {
+    file: string;
+    errors: ParserError[];
+}
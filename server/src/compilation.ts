@@ -17,30 +17,122 @@ import {
     TextDocument,
     TextDocumentPositionParams
 } from 'vscode-languageserver/lib/main';
-import { Parser, Suggester, ParserError, ParseErrorLevel, SuggestionSymbol } from './types';
+import {
+    IncrementalParser,
+    Parser,
+    Suggester,
+    ParserError,
+    ParseErrorLevel,
+    SuggestionSymbol,
+    ParserResult
+} from './types';
 import { SuggestionSymbolAdapter } from './tools/suggestionSymbolAdapter';
 
+/** Time waited after the last change of a document before validating it, so typing does not parse every key. */
+export const VALIDATION_DELAY = 200;
+
+const DEFAULT_MAX_NUMBER_OF_PROBLEMS = 100;
+
+/**
+ * Latest version of an open document, with the result of parsing it when it has been validated and the last
+ * result of a previous version, which an incremental parser reuses for the code that did not change.
+ */
+interface DocumentState {
+    document: TextDocument;
+    version: number;
+    result: ParserResult;
+    previousResult: ParserResult;
+    pendingValidation: NodeJS.Timer;
+}
+
 export class CompilationTool {
-    currentDocument: TextDocument = null;
+    /** Maximum number of diagnostics sent for each document, the errors first. */
+    maxNumberOfProblems = DEFAULT_MAX_NUMBER_OF_PROBLEMS;
     currentSuggestions: CompletionItem[] = [];
+    private states: Map<string, DocumentState> = new Map();
 
     constructor(private connection: IConnection, private parser: Parser, private suggester: Suggester) {}
 
-    validateDocument(document: TextDocument): void {
-        this.currentDocument = document;
+    /**
+     * Parses the document and sends its diagnostics right away, cancelling its pending validation. The
+     * version already parsed is not parsed again until it is invalidated.
+     */
+    validateDocument(document: TextDocument): ParserResult {
+        let state = this.stateOf(document);
+        clearTimeout(state.pendingValidation);
+        state.pendingValidation = undefined;
+
+        if (state.result === null) {
+            state.result = this.parseState(state, document.getText(), document.uri);
+        }
+        this.launchCompilationErrors(document, state.result.errors);
+
+        return state.result;
+    }
+
+    /**
+     * Validates the document once it stops changing. A newer change cancels the validation of the previous
+     * version, so the callback is only run with the result of the latest one. An incremental parser only
+     * parses again the code changed since the last validation, the delay avoids parsing it on every key stroke.
+     */
+    debounceValidation(document: TextDocument, validated?: (result: ParserResult) => void) {
+        let state = this.stateOf(document);
+        clearTimeout(state.pendingValidation);
 
-        let result = this.parser.parse(document.getText());
-        this.launchCompilationErrors(document, result.errors);
+        state.pendingValidation = setTimeout(() => {
+            let result = this.validateDocument(state.document);
+            if (validated !== undefined) {
+                validated(result);
+            }
+        }, VALIDATION_DELAY);
+    }
+
+    /**
+     * Result of the latest version of the open document when it has the given content, parsed without sending
+     * its diagnostics if it has not been validated yet. Returns null for other contents, which are not kept.
+     */
+    resultFor(uri: string, input: string): ParserResult {
+        let state = this.states.get(uri);
+        if (state === undefined || state.document.getText() !== input) {
+            return null;
+        }
+
+        if (state.result === null) {
+            state.result = this.parseState(state, input, uri);
+        }
+
+        return state.result;
+    }
+
+    /**
+     * Forgets the results of the document, or of every document when no uri is given, so the next
+     * validation parses them again. Needed when the settings or the included files change. An incremental
+     * parser still reuses the forgotten result for the code, as it analyzes the whole document again.
+     */
+    invalidate(uri?: string) {
+        this.states.forEach((state, stateUri) => {
+            if (uri === undefined || uri === stateUri) {
+                state.previousResult = state.result || state.previousResult;
+                state.result = null;
+            }
+        });
+    }
+
+    closeDocument(uri: string) {
+        let state = this.states.get(uri);
+        if (state !== undefined) {
+            clearTimeout(state.pendingValidation);
+            this.states.delete(uri);
+        }
     }
 
     availableCompletions(documentPosition: TextDocumentPositionParams): CompletionItem[] {
-        if (this.currentDocument === null) {
+        let state = this.states.get(documentPosition.textDocument.uri);
+        if (state === undefined) {
             return [];
         }
 
-        let textToCaret = this.currentDocument
-            .getText()
-            .substring(0, this.currentDocument.offsetAt(documentPosition.position));
+        let textToCaret = state.document.getText().substring(0, state.document.offsetAt(documentPosition.position));
 
         this.currentSuggestions = this.suggester
             .calculateSuggestionsFor(textToCaret)
@@ -74,11 +166,45 @@ export class CompilationTool {
         return availableOptions[0];
     }
 
+    /** Keeps the state of the latest version of the document, with the last result of the older ones. */
+    private stateOf(document: TextDocument): DocumentState {
+        let state = this.states.get(document.uri);
+        if (state === undefined) {
+            state = {
+                document,
+                version: document.version,
+                result: null,
+                previousResult: null,
+                pendingValidation: undefined
+            };
+            this.states.set(document.uri, state);
+        } else if (state.version !== document.version || state.document !== document) {
+            state.document = document;
+            state.version = document.version;
+            state.previousResult = state.result || state.previousResult;
+            state.result = null;
+        }
+
+        return state;
+    }
+
+    private parseState(state: DocumentState, input: string, uri: string): ParserResult {
+        if (state.previousResult === null || !isIncremental(this.parser)) {
+            return this.parser.parse(input, uri);
+        }
+
+        return this.parser.reparse(input, state.previousResult, uri);
+    }
+
     private launchCompilationErrors(document: TextDocument, errors: ParserError[]) {
         let diagnostics: Diagnostic[] = [];
-        errors.forEach(error => {
-            diagnostics.push(this.errorToDiagnostics(error));
-        });
+        errors
+            .filter(error => error.level === ParseErrorLevel.ERROR)
+            .concat(errors.filter(error => error.level !== ParseErrorLevel.ERROR))
+            .slice(0, Math.max(0, this.maxNumberOfProblems))
+            .forEach(error => {
+                diagnostics.push(this.errorToDiagnostics(error));
+            });
 
         this.connection.sendDiagnostics({
             uri: document.uri,
@@ -100,7 +226,32 @@ export class CompilationTool {
                 }
             },
             message: error.message,
-            source: 'ex'
+            source: 'ex',
+            tags: error.tags,
+            code: error.code
         };
     }
 }
+
+function isIncremental(parser: Parser): parser is IncrementalParser {
+    return (parser as IncrementalParser).reparse !== undefined;
+}
+
+/**
+ * Parser of the providers, reusing the result of the validation when the input is the latest version of an
+ * open document, so the requests about it do not parse it again. The other inputs, and the ones the providers
+ * cannot use the validation of, are parsed with the given parser.
+ */
+export class ValidatedDocumentParser implements Parser {
+    constructor(
+        private compilationTool: CompilationTool,
+        private parser: Parser,
+        private reusable: (input: string) => boolean = () => true
+    ) {}
+
+    parse(input: string, uri?: string): ParserResult {
+        let result = uri !== undefined && this.reusable(input) ? this.compilationTool.resultFor(uri, input) : null;
+
+        return result !== null ? result : this.parser.parse(input, uri);
+    }
+}
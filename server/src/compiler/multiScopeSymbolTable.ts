@@ -24,8 +24,8 @@ export class MultiScopeSymbolTable implements SymbolTable {
         return this.currentScope.lookup(symbolName, line);
     }
 
-    define(symbol: Symbol, declarationLine: number): void {
-        this.currentScope.define(symbol, declarationLine);
+    define(symbol: Symbol, declarationLine: number, name?: string): void {
+        this.currentScope.define(symbol, declarationLine, name);
     }
 
     push(scopeName: string, line: number): void {
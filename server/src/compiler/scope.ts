@@ -36,18 +36,18 @@ export class Scope {
         return this.lookupParent(symbolName, line);
     }
 
-    define(symbol: Symbol, declarationLine: number) {
-        if (this.dictionary.has(symbol.name)) {
-            let lastDefinition = this.dictionary.get(symbol.name).pop();
+    define(symbol: Symbol, declarationLine: number, name = symbol.name) {
+        if (this.dictionary.has(name)) {
+            let lastDefinition = this.dictionary.get(name).pop();
             lastDefinition.endLine = declarationLine;
 
-            this.dictionary.get(symbol.name).push(lastDefinition);
+            this.dictionary.get(name).push(lastDefinition);
 
-            let variableDefinition = new VariableDefinition(symbol, declarationLine + 1, MAX_LINE);
-            this.dictionary.get(symbol.name).push(variableDefinition);
+            let variableDefinition = new VariableDefinition(symbol, declarationLine + 1, MAX_LINE, name);
+            this.dictionary.get(name).push(variableDefinition);
         } else {
-            let variableDefinition = new VariableDefinition(symbol, declarationLine + 1, MAX_LINE);
-            this.dictionary.set(symbol.name, [variableDefinition]);
+            let variableDefinition = new VariableDefinition(symbol, declarationLine + 1, MAX_LINE, name);
+            this.dictionary.set(name, [variableDefinition]);
         }
     }
 
@@ -75,6 +75,16 @@ export class Scope {
         return symbols;
     }
 
+    /** The latest symbol of each name defined at this scope, without the ones of the parent scopes. */
+    ownSymbols(): Map<string, Symbol> {
+        let symbols: Map<string, Symbol> = new Map();
+        this.dictionary.forEach((variableDefinitions, name) =>
+            symbols.set(name, variableDefinitions[variableDefinitions.length - 1].symbol)
+        );
+
+        return symbols;
+    }
+
     print(level = 1): void {
         let tabs = `${this.tabsGenerator(level - 1)}`;
         console.log(`${tabs}Scope "${this.name}" from ${this.startLine} to ${this.endLine} => `);
@@ -112,7 +122,7 @@ export class Scope {
                 return result;
             }
 
-            this.parentScope.lookupParent(symbolName, line);
+            return this.parentScope.lookupParent(symbolName, line);
         }
 
         return null;
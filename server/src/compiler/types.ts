@@ -21,8 +21,11 @@ export interface SymbolTable {
      */
     lookup(symbolName: string, line?: number): Symbol;
 
-    /** Stores the given symbol with the line where it was declared for first time. */
-    define(symbol: Symbol, declarationLine: number): void;
+    /**
+     * Stores the given symbol with the line where it was declared for first time, by its own name unless
+     * another one is given.
+     */
+    define(symbol: Symbol, declarationLine: number, name?: string): void;
 
     /** Adds a new scope to the current scope. */
     push(scopeName: string, line: number): void;
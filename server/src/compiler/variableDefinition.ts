@@ -12,10 +12,16 @@
 import { Symbol } from './symbols';
 
 export class VariableDefinition {
-    constructor(public symbol: Symbol, public startLine: number, public endLine: number) {}
+    /** The name is the one of the symbol unless it is defined with another one, like an imported alias. */
+    constructor(
+        public symbol: Symbol,
+        public startLine: number,
+        public endLine: number,
+        public name: string = symbol.name
+    ) {}
 
     nameEquals(name: string): boolean {
-        return this.symbol.name === name;
+        return this.name === name;
     }
 
     inScope(line: number): boolean {
@@ -123,13 +123,11 @@ exp
     | Pi
     | Id
     | unaryOp LeftParen exp RightParen
-    | '-' exp
     | LeftParen exp RightParen
-    | exp '+' exp
-    | exp '-' exp
-    | exp '*' exp
-    | exp '/' exp
-    | exp '^' exp
+    | <assoc=right> exp '^' exp
+    | '-' exp
+    | exp ('*' | '/') exp
+    | exp ('+' | '-') exp
     ;
 
 unaryOp
@@ -1147,6 +1147,7 @@ export class QasmParser extends Parser {
 		let _prevctx: ExpContext = _localctx;
 		let _startState: number = 40;
 		this.enterRecursionRule(_localctx, 40, QasmParser.RULE_exp, _p);
+		let _la: number;
 		try {
 			let _alt: number;
 			this.enterOuterAlt(_localctx, 1);
@@ -1195,29 +1196,29 @@ export class QasmParser extends Parser {
 				this.match(QasmParser.RightParen);
 				}
 				break;
-			case QasmParser.Subs:
+			case QasmParser.LeftParen:
 				{
 				this.state = 260;
-				this.match(QasmParser.Subs);
+				this.match(QasmParser.LeftParen);
 				this.state = 261;
-				this.exp(7);
+				this.exp(0);
+				this.state = 262;
+				this.match(QasmParser.RightParen);
 				}
 				break;
-			case QasmParser.LeftParen:
+			case QasmParser.Subs:
 				{
-				this.state = 262;
-				this.match(QasmParser.LeftParen);
-				this.state = 263;
-				this.exp(0);
 				this.state = 264;
-				this.match(QasmParser.RightParen);
+				this.match(QasmParser.Subs);
+				this.state = 265;
+				this.exp(3);
 				}
 				break;
 			default:
 				throw new NoViableAltException(this);
 			}
 			this._ctx._stop = this._input.tryLT(-1);
-			this.state = 285;
+			this.state = 279;
 			this._errHandler.sync(this);
 			_alt = this.interpreter.adaptivePredict(this._input,14,this._ctx);
 			while ( _alt!==2 && _alt!==ATN.INVALID_ALT_NUMBER ) {
@@ -1225,7 +1226,7 @@ export class QasmParser extends Parser {
 					if ( this._parseListeners!=null ) this.triggerExitRuleEvent();
 					_prevctx = _localctx;
 					{
-					this.state = 283;
+					this.state = 277;
 					this._errHandler.sync(this);
 					switch ( this.interpreter.adaptivePredict(this._input,13,this._ctx) ) {
 					case 1:
@@ -1233,11 +1234,11 @@ export class QasmParser extends Parser {
 						_localctx = new ExpContext(_parentctx, _parentState);
 						this.pushNewRecursionContext(_localctx, _startState, QasmParser.RULE_exp);
 						this.state = 268;
-						if (!(this.precpred(this._ctx, 5))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 5)");
+						if (!(this.precpred(this._ctx, 4))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 4)");
 						this.state = 269;
-						this.match(QasmParser.Sum);
+						this.match(QasmParser.Pow);
 						this.state = 270;
-						this.exp(6);
+						this.exp(4);
 						}
 						break;
 
@@ -1246,11 +1247,21 @@ export class QasmParser extends Parser {
 						_localctx = new ExpContext(_parentctx, _parentState);
 						this.pushNewRecursionContext(_localctx, _startState, QasmParser.RULE_exp);
 						this.state = 271;
-						if (!(this.precpred(this._ctx, 4))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 4)");
+						if (!(this.precpred(this._ctx, 2))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 2)");
 						this.state = 272;
-						this.match(QasmParser.Subs);
+						_la = this._input.LA(1);
+						if ( !(_la===QasmParser.Mult || _la===QasmParser.Div) ) {
+						this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
+						}
 						this.state = 273;
-						this.exp(5);
+						this.exp(3);
 						}
 						break;
 
@@ -1259,43 +1270,27 @@ export class QasmParser extends Parser {
 						_localctx = new ExpContext(_parentctx, _parentState);
 						this.pushNewRecursionContext(_localctx, _startState, QasmParser.RULE_exp);
 						this.state = 274;
-						if (!(this.precpred(this._ctx, 3))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 3)");
+						if (!(this.precpred(this._ctx, 1))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 1)");
 						this.state = 275;
-						this.match(QasmParser.Mult);
-						this.state = 276;
-						this.exp(4);
-						}
-						break;
-
-					case 4:
-						{
-						_localctx = new ExpContext(_parentctx, _parentState);
-						this.pushNewRecursionContext(_localctx, _startState, QasmParser.RULE_exp);
-						this.state = 277;
-						if (!(this.precpred(this._ctx, 2))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 2)");
-						this.state = 278;
-						this.match(QasmParser.Div);
-						this.state = 279;
-						this.exp(3);
+						_la = this._input.LA(1);
+						if ( !(_la===QasmParser.Sum || _la===QasmParser.Subs) ) {
+						this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
 						}
-						break;
-
-					case 5:
-						{
-						_localctx = new ExpContext(_parentctx, _parentState);
-						this.pushNewRecursionContext(_localctx, _startState, QasmParser.RULE_exp);
-						this.state = 280;
-						if (!(this.precpred(this._ctx, 1))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 1)");
-						this.state = 281;
-						this.match(QasmParser.Pow);
-						this.state = 282;
+						this.state = 276;
 						this.exp(2);
 						}
 						break;
 					}
 					} 
 				}
-				this.state = 287;
+				this.state = 281;
 				this._errHandler.sync(this);
 				_alt = this.interpreter.adaptivePredict(this._input,14,this._ctx);
 			}
@@ -1323,7 +1318,7 @@ export class QasmParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 288;
+			this.state = 282;
 			_la = this._input.LA(1);
 			if ( !((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << QasmParser.Sin) | (1 << QasmParser.Cos) | (1 << QasmParser.Tan) | (1 << QasmParser.Exp) | (1 << QasmParser.Ln) | (1 << QasmParser.Sqrt))) !== 0)) ) {
 			this._errHandler.recoverInline(this);
@@ -1356,19 +1351,19 @@ export class QasmParser extends Parser {
 		let _localctx: MeasureContext = new MeasureContext(this._ctx, this.state);
 		this.enterRule(_localctx, 44, QasmParser.RULE_measure);
 		try {
-			this.state = 299;
+			this.state = 293;
 			this._errHandler.sync(this);
 			switch ( this.interpreter.adaptivePredict(this._input,15,this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 290;
+				this.state = 284;
 				this.match(QasmParser.Measure);
-				this.state = 291;
+				this.state = 285;
 				this.qubit();
-				this.state = 292;
+				this.state = 286;
 				this.match(QasmParser.Assign);
-				this.state = 293;
+				this.state = 287;
 				this.cbit();
 				}
 				break;
@@ -1376,13 +1371,13 @@ export class QasmParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 295;
+				this.state = 289;
 				this.match(QasmParser.Measure);
-				this.state = 296;
+				this.state = 290;
 				_localctx._quantumRegister = this.match(QasmParser.Id);
-				this.state = 297;
+				this.state = 291;
 				this.match(QasmParser.Assign);
-				this.state = 298;
+				this.state = 292;
 				_localctx._classicalRegister = this.match(QasmParser.Id);
 				}
 				break;
@@ -1409,13 +1404,13 @@ export class QasmParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 301;
+			this.state = 295;
 			this.match(QasmParser.Id);
-			this.state = 302;
+			this.state = 296;
 			this.match(QasmParser.LeftBrace);
-			this.state = 303;
+			this.state = 297;
 			_localctx._position = this.match(QasmParser.Int);
-			this.state = 304;
+			this.state = 298;
 			this.match(QasmParser.RightBrace);
 			}
 		}
@@ -1440,13 +1435,13 @@ export class QasmParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 306;
+			this.state = 300;
 			this.match(QasmParser.Id);
-			this.state = 307;
+			this.state = 301;
 			this.match(QasmParser.LeftBrace);
-			this.state = 308;
+			this.state = 302;
 			_localctx._position = this.match(QasmParser.Int);
-			this.state = 309;
+			this.state = 303;
 			this.match(QasmParser.RightBrace);
 			}
 		}
@@ -1469,21 +1464,21 @@ export class QasmParser extends Parser {
 		let _localctx: CustomArglistContext = new CustomArglistContext(this._ctx, this.state);
 		this.enterRule(_localctx, 50, QasmParser.RULE_customArglist);
 		try {
-			this.state = 319;
+			this.state = 313;
 			this._errHandler.sync(this);
 			switch ( this.interpreter.adaptivePredict(this._input,16,this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 311;
+				this.state = 305;
 				_localctx._gate = this.match(QasmParser.Id);
-				this.state = 312;
+				this.state = 306;
 				this.match(QasmParser.LeftParen);
-				this.state = 313;
+				this.state = 307;
 				this.paramsListNumber(0);
-				this.state = 314;
+				this.state = 308;
 				this.match(QasmParser.RightParen);
-				this.state = 315;
+				this.state = 309;
 				this.qubitAndQregList();
 				}
 				break;
@@ -1491,9 +1486,9 @@ export class QasmParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 317;
+				this.state = 311;
 				_localctx._gate = this.match(QasmParser.Id);
-				this.state = 318;
+				this.state = 312;
 				this.qubitAndQregList();
 				}
 				break;
@@ -1533,11 +1528,11 @@ export class QasmParser extends Parser {
 			this.enterOuterAlt(_localctx, 1);
 			{
 			{
-			this.state = 322;
+			this.state = 316;
 			this.exp(0);
 			}
 			this._ctx._stop = this._input.tryLT(-1);
-			this.state = 329;
+			this.state = 323;
 			this._errHandler.sync(this);
 			_alt = this.interpreter.adaptivePredict(this._input,17,this._ctx);
 			while ( _alt!==2 && _alt!==ATN.INVALID_ALT_NUMBER ) {
@@ -1548,16 +1543,16 @@ export class QasmParser extends Parser {
 					{
 					_localctx = new ParamsListNumberContext(_parentctx, _parentState);
 					this.pushNewRecursionContext(_localctx, _startState, QasmParser.RULE_paramsListNumber);
-					this.state = 324;
+					this.state = 318;
 					if (!(this.precpred(this._ctx, 1))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 1)");
-					this.state = 325;
+					this.state = 319;
 					this.match(QasmParser.Comma);
-					this.state = 326;
+					this.state = 320;
 					this.exp(0);
 					}
 					} 
 				}
-				this.state = 331;
+				this.state = 325;
 				this._errHandler.sync(this);
 				_alt = this.interpreter.adaptivePredict(this._input,17,this._ctx);
 			}
@@ -1582,13 +1577,13 @@ export class QasmParser extends Parser {
 		let _localctx: QubitAndQregListContext = new QubitAndQregListContext(this._ctx, this.state);
 		this.enterRule(_localctx, 54, QasmParser.RULE_qubitAndQregList);
 		try {
-			this.state = 337;
+			this.state = 331;
 			this._errHandler.sync(this);
 			switch ( this.interpreter.adaptivePredict(this._input,18,this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 332;
+				this.state = 326;
 				this.qbitOrQreg();
 				}
 				break;
@@ -1596,11 +1591,11 @@ export class QasmParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 333;
+				this.state = 327;
 				this.qbitOrQreg();
-				this.state = 334;
+				this.state = 328;
 				this.match(QasmParser.Comma);
-				this.state = 335;
+				this.state = 329;
 				this.qubitAndQregList();
 				}
 				break;
@@ -1625,13 +1620,13 @@ export class QasmParser extends Parser {
 		let _localctx: QbitOrQregContext = new QbitOrQregContext(this._ctx, this.state);
 		this.enterRule(_localctx, 56, QasmParser.RULE_qbitOrQreg);
 		try {
-			this.state = 344;
+			this.state = 338;
 			this._errHandler.sync(this);
 			switch ( this.interpreter.adaptivePredict(this._input,19,this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 339;
+				this.state = 333;
 				this.match(QasmParser.Id);
 				}
 				break;
@@ -1639,13 +1634,13 @@ export class QasmParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 340;
+				this.state = 334;
 				this.match(QasmParser.Id);
-				this.state = 341;
+				this.state = 335;
 				this.match(QasmParser.LeftBrace);
-				this.state = 342;
+				this.state = 336;
 				_localctx._position = this.match(QasmParser.Int);
-				this.state = 343;
+				this.state = 337;
 				this.match(QasmParser.RightBrace);
 				}
 				break;
@@ -1672,9 +1667,9 @@ export class QasmParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 346;
+			this.state = 340;
 			this.match(QasmParser.Cx);
-			this.state = 347;
+			this.state = 341;
 			this.qubitAndQregList();
 			}
 		}
@@ -1697,15 +1692,15 @@ export class QasmParser extends Parser {
 		let _localctx: BarrierGateContext = new BarrierGateContext(this._ctx, this.state);
 		this.enterRule(_localctx, 60, QasmParser.RULE_barrierGate);
 		try {
-			this.state = 353;
+			this.state = 347;
 			this._errHandler.sync(this);
 			switch ( this.interpreter.adaptivePredict(this._input,20,this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 349;
+				this.state = 343;
 				this.match(QasmParser.Barrier);
-				this.state = 350;
+				this.state = 344;
 				this.match(QasmParser.Id);
 				}
 				break;
@@ -1713,9 +1708,9 @@ export class QasmParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 351;
+				this.state = 345;
 				this.match(QasmParser.Barrier);
-				this.state = 352;
+				this.state = 346;
 				this.qubitList();
 				}
 				break;
@@ -1740,13 +1735,13 @@ export class QasmParser extends Parser {
 		let _localctx: QubitListContext = new QubitListContext(this._ctx, this.state);
 		this.enterRule(_localctx, 62, QasmParser.RULE_qubitList);
 		try {
-			this.state = 360;
+			this.state = 354;
 			this._errHandler.sync(this);
 			switch ( this.interpreter.adaptivePredict(this._input,21,this._ctx) ) {
 			case 1:
 				this.enterOuterAlt(_localctx, 1);
 				{
-				this.state = 355;
+				this.state = 349;
 				this.qubit();
 				}
 				break;
@@ -1754,11 +1749,11 @@ export class QasmParser extends Parser {
 			case 2:
 				this.enterOuterAlt(_localctx, 2);
 				{
-				this.state = 356;
+				this.state = 350;
 				this.qubit();
-				this.state = 357;
+				this.state = 351;
 				this.match(QasmParser.Comma);
-				this.state = 358;
+				this.state = 352;
 				this.qubitList();
 				}
 				break;
@@ -1785,9 +1780,9 @@ export class QasmParser extends Parser {
 		try {
 			this.enterOuterAlt(_localctx, 1);
 			{
-			this.state = 362;
+			this.state = 356;
 			this.match(QasmParser.Reset);
-			this.state = 363;
+			this.state = 357;
 			this.qbitOrQreg();
 			}
 		}
@@ -1829,32 +1824,26 @@ export class QasmParser extends Parser {
 	private exp_sempred(_localctx: ExpContext, predIndex: number): boolean {
 		switch (predIndex) {
 		case 1:
-			return this.precpred(this._ctx, 5);
-
-		case 2:
 			return this.precpred(this._ctx, 4);
 
-		case 3:
-			return this.precpred(this._ctx, 3);
-
-		case 4:
+		case 2:
 			return this.precpred(this._ctx, 2);
 
-		case 5:
+		case 3:
 			return this.precpred(this._ctx, 1);
 		}
 		return true;
 	}
 	private paramsListNumber_sempred(_localctx: ParamsListNumberContext, predIndex: number): boolean {
 		switch (predIndex) {
-		case 6:
+		case 4:
 			return this.precpred(this._ctx, 1);
 		}
 		return true;
 	}
 
 	public static readonly _serializedATN: string =
-		"\x03\uAF6F\u8320\u479D\uB75C\u4880\u1605\u191C\uAB37\x03,\u0170\x04\x02"+
+		"\x03\uAF6F\u8320\u479D\uB75C\u4880\u1605\u191C\uAB37\x03,\u016A\x04\x02"+
 		"\t\x02\x04\x03\t\x03\x04\x04\t\x04\x04\x05\t\x05\x04\x06\t\x06\x04\x07"+
 		"\t\x07\x04\b\t\b\x04\t\t\t\x04\n\t\n\x04\v\t\v\x04\f\t\f\x04\r\t\r\x04"+
 		"\x0E\t\x0E\x04\x0F\t\x0F\x04\x10\t\x10\x04\x11\t\x11\x04\x12\t\x12\x04"+
@@ -1883,143 +1872,140 @@ export class QasmParser extends Parser {
 		"\f\x15\x0E\x15\xFB\v\x15\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16"+
 		"\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16"+
 		"\x03\x16\x05\x16\u010D\n\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03"+
-		"\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03"+
-		"\x16\x07\x16\u011E\n\x16\f\x16\x0E\x16\u0121\v\x16\x03\x17\x03\x17\x03"+
-		"\x18\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x05"+
-		"\x18\u012E\n\x18\x03\x19\x03\x19\x03\x19\x03\x19\x03\x19\x03\x1A\x03\x1A"+
-		"\x03\x1A\x03\x1A\x03\x1A\x03\x1B\x03\x1B\x03\x1B\x03\x1B\x03\x1B\x03\x1B"+
-		"\x03\x1B\x03\x1B\x05\x1B\u0142\n\x1B\x03\x1C\x03\x1C\x03\x1C\x03\x1C\x03"+
-		"\x1C\x03\x1C\x07\x1C\u014A\n\x1C\f\x1C\x0E\x1C\u014D\v\x1C\x03\x1D\x03"+
-		"\x1D\x03\x1D\x03\x1D\x03\x1D\x05\x1D\u0154\n\x1D\x03\x1E\x03\x1E\x03\x1E"+
-		"\x03\x1E\x03\x1E\x05\x1E\u015B\n\x1E\x03\x1F\x03\x1F\x03\x1F\x03 \x03"+
-		" \x03 \x03 \x05 \u0164\n \x03!\x03!\x03!\x03!\x03!\x05!\u016B\n!\x03\""+
-		"\x03\"\x03\"\x03\"\x02\x02\x05(*6#\x02\x02\x04\x02\x06\x02\b\x02\n\x02"+
-		"\f\x02\x0E\x02\x10\x02\x12\x02\x14\x02\x16\x02\x18\x02\x1A\x02\x1C\x02"+
-		"\x1E\x02 \x02\"\x02$\x02&\x02(\x02*\x02,\x02.\x020\x022\x024\x026\x02"+
-		"8\x02:\x02<\x02>\x02@\x02B\x02\x02\x03\x03\x02\x0F\x14\u017B\x02I\x03"+
-		"\x02\x02\x02\x04O\x03\x02\x02\x02\x06Q\x03\x02\x02\x02\bY\x03\x02\x02"+
-		"\x02\n[\x03\x02\x02\x02\fd\x03\x02\x02\x02\x0El\x03\x02\x02\x02\x10}\x03"+
-		"\x02\x02\x02\x12\x7F\x03\x02\x02\x02\x14\x86\x03\x02\x02\x02\x16\x8D\x03"+
-		"\x02\x02\x02\x18\x94\x03\x02\x02\x02\x1A\x96\x03\x02\x02\x02\x1C\x9A\x03"+
-		"\x02\x02\x02\x1E\xC3\x03\x02\x02\x02 \xCB\x03\x02\x02\x02\"\xD1\x03\x02"+
-		"\x02\x02$\xD7\x03\x02\x02\x02&\xEF\x03\x02\x02\x02(\xF1\x03\x02\x02\x02"+
-		"*\u010C\x03\x02\x02\x02,\u0122\x03\x02\x02\x02.\u012D\x03\x02\x02\x02"+
-		"0\u012F\x03\x02\x02\x022\u0134\x03\x02\x02\x024\u0141\x03\x02\x02\x02"+
-		"6\u0143\x03\x02\x02\x028\u0153\x03\x02\x02\x02:\u015A\x03\x02\x02\x02"+
-		"<\u015C\x03\x02\x02\x02>\u0163\x03\x02\x02\x02@\u016A\x03\x02\x02\x02"+
-		"B\u016C\x03\x02\x02\x02DJ\x05\b\x05\x02EF\x05\x04\x03\x02FG\x05\b\x05"+
-		"\x02GJ\x03\x02\x02\x02HJ\x05\n\x06\x02ID\x03\x02\x02\x02IE\x03\x02\x02"+
-		"\x02IH\x03\x02\x02\x02J\x03\x03\x02\x02\x02KP\x07\x07\x02\x02LM\x07\x07"+
-		"\x02\x02MP\x05\x06\x04\x02NP\x05\x06\x04\x02OK\x03\x02\x02\x02OL\x03\x02"+
-		"\x02\x02ON\x03\x02\x02\x02P\x05\x03\x02\x02\x02QR\x07\b\x02\x02RS\x07"+
-		"+\x02\x02ST\x07\x1C\x02\x02T\x07\x03\x02\x02\x02UZ\x05\f\x07\x02VW\x05"+
-		"\f\x07\x02WX\x05\b\x05\x02XZ\x03\x02\x02\x02YU\x03\x02\x02\x02YV\x03\x02"+
-		"\x02\x02Z\t\x03\x02\x02\x02[\\\x07\f\x02\x02\\]\x07\x02\x02\x03]\v\x03"+
-		"\x02\x02\x02^e\x05\x0E\b\x02_e\x05\x10\t\x02`a\x05\x12\n\x02ab\x05\x10"+
-		"\t\x02be\x03\x02\x02\x02ce\x07\x02\x02\x03d^\x03\x02\x02\x02d_\x03\x02"+
-		"\x02\x02d`\x03\x02\x02\x02dc\x03\x02\x02\x02e\r\x03\x02\x02\x02fm\x05"+
-		"\x14\v\x02gm\x05\x16\f\x02hm\x05\x1A\x0E\x02ij\x05\x1C\x0F\x02jk\x07\x1C"+
-		"\x02\x02km\x03\x02\x02\x02lf\x03\x02\x02\x02lg\x03\x02\x02\x02lh\x03\x02"+
-		"\x02\x02li\x03\x02\x02\x02m\x0F\x03\x02\x02\x02no\x05.\x18\x02op\x07\x1C"+
-		"\x02\x02p~\x03\x02\x02\x02qr\x054\x1B\x02rs\x07\x1C\x02\x02s~\x03\x02"+
-		"\x02\x02tu\x05<\x1F\x02uv\x07\x1C\x02\x02v~\x03\x02\x02\x02wx\x05> \x02"+
-		"xy\x07\x1C\x02\x02y~\x03\x02\x02\x02z{\x05B\"\x02{|\x07\x1C\x02\x02|~"+
-		"\x03\x02\x02\x02}n\x03\x02\x02\x02}q\x03\x02\x02\x02}t\x03\x02\x02\x02"+
-		"}w\x03\x02\x02\x02}z\x03\x02\x02\x02~\x11\x03\x02\x02\x02\x7F\x80\x07"+
-		"\x19\x02\x02\x80\x81\x07\"\x02\x02\x81\x82\x07,\x02\x02\x82\x83\x07\x1A"+
-		"\x02\x02\x83\x84\x07\x06\x02\x02\x84\x85\x07#\x02\x02\x85\x13\x03\x02"+
-		"\x02\x02\x86\x87\x07\n\x02\x02\x87\x88\x07,\x02\x02\x88\x89\x07 \x02\x02"+
-		"\x89\x8A\x05\x18\r\x02\x8A\x8B\x07!\x02\x02\x8B\x8C\x07\x1C\x02\x02\x8C"+
-		"\x15\x03\x02\x02\x02\x8D\x8E\x07\v\x02\x02\x8E\x8F\x07,\x02\x02\x8F\x90"+
-		"\x07 \x02\x02\x90\x91\x05\x18\r\x02\x91\x92\x07!\x02\x02\x92\x93\x07\x1C"+
-		"\x02\x02\x93\x17\x03\x02\x02\x02\x94\x95\x07\x06\x02\x02\x95\x19\x03\x02"+
-		"\x02\x02\x96\x97\x07*\x02\x02\x97\x98\x07,\x02\x02\x98\x99\x05\x1E\x10"+
-		"\x02\x99\x1B\x03\x02\x02\x02\x9A\x9B\x07\x18\x02\x02\x9B\x9C\x07,\x02"+
-		"\x02\x9C\x9D\x05 \x11\x02\x9D\x1D\x03\x02\x02\x02\x9E\x9F\x05\"\x12\x02"+
-		"\x9F\xA0\x07\x1E\x02\x02\xA0\xA1\x05$\x13\x02\xA1\xA2\x07\x1F\x02\x02"+
-		"\xA2\xC4\x03\x02\x02\x02\xA3\xA4\x07\"\x02\x02\xA4\xA5\x05\"\x12\x02\xA5"+
-		"\xA6\x07#\x02\x02\xA6\xA7\x05\"\x12\x02\xA7\xA8\x07\x1E\x02\x02\xA8\xA9"+
-		"\x05$\x13\x02\xA9\xAA\x07\x1F\x02\x02\xAA\xC4\x03\x02\x02\x02\xAB\xAC"+
-		"\x07\"\x02\x02\xAC\xAD\x05\"\x12\x02\xAD\xAE\x07#\x02\x02\xAE\xAF\x05"+
-		"\"\x12\x02\xAF\xB0\x07\x1E\x02\x02\xB0\xB1\x07\x1F\x02\x02\xB1\xC4\x03"+
-		"\x02\x02\x02\xB2\xB3\x07\"\x02\x02\xB3\xB4\x07#\x02\x02\xB4\xB5\x05\""+
-		"\x12\x02\xB5\xB6\x07\x1E\x02\x02\xB6\xB7\x07\x1F\x02\x02\xB7\xC4\x03\x02"+
-		"\x02\x02\xB8\xB9\x07\"\x02\x02\xB9\xBA\x07#\x02\x02\xBA\xBB\x05\"\x12"+
-		"\x02\xBB\xBC\x07\x1E\x02\x02\xBC\xBD\x05$\x13\x02\xBD\xBE\x07\x1F\x02"+
-		"\x02\xBE\xC4\x03\x02\x02\x02\xBF\xC0\x05\"\x12\x02\xC0\xC1\x07\x1E\x02"+
-		"\x02\xC1\xC2\x07\x1F\x02\x02\xC2\xC4\x03\x02\x02\x02\xC3\x9E\x03\x02\x02"+
-		"\x02\xC3\xA3\x03\x02\x02\x02\xC3\xAB\x03\x02\x02\x02\xC3\xB2\x03\x02\x02"+
-		"\x02\xC3\xB8\x03\x02\x02\x02\xC3\xBF\x03\x02\x02\x02\xC4\x1F\x03\x02\x02"+
-		"\x02\xC5\xCC\x05\"\x12\x02\xC6\xC7\x07\"\x02\x02\xC7\xC8\x05\"\x12\x02"+
-		"\xC8\xC9\x07#\x02\x02\xC9\xCA\x05\"\x12\x02\xCA\xCC\x03\x02\x02\x02\xCB"+
-		"\xC5\x03\x02\x02\x02\xCB\xC6\x03\x02\x02\x02\xCC!\x03\x02\x02\x02\xCD"+
-		"\xD2\x07,\x02\x02\xCE\xCF\x07,\x02\x02\xCF\xD0\x07\x1D\x02\x02\xD0\xD2"+
-		"\x05\"\x12\x02\xD1\xCD\x03\x02\x02\x02\xD1\xCE\x03\x02\x02\x02\xD2#\x03"+
-		"\x02\x02\x02\xD3\xD8\x05&\x14\x02\xD4\xD5\x05&\x14\x02\xD5\xD6\x05$\x13"+
-		"\x02\xD6\xD8\x03\x02\x02\x02\xD7\xD3\x03\x02\x02\x02\xD7\xD4\x03\x02\x02"+
-		"\x02\xD8%\x03\x02\x02\x02\xD9\xDA\x07\x0E\x02\x02\xDA\xDB\x05\"\x12\x02"+
-		"\xDB\xDC\x07\x1C\x02\x02\xDC\xF0\x03\x02\x02\x02\xDD\xDE\x07\r\x02\x02"+
-		"\xDE\xDF\x07\"\x02\x02\xDF\xE0\x05(\x15\x02\xE0\xE1\x07#\x02\x02\xE1\xE2"+
-		"\x05\"\x12\x02\xE2\xE3\x07\x1C\x02\x02\xE3\xF0\x03\x02\x02\x02\xE4\xE5"+
-		"\x07,\x02\x02\xE5\xE6\x05\"\x12\x02\xE6\xE7\x07\x1C\x02\x02\xE7\xF0\x03"+
-		"\x02\x02\x02\xE8\xE9\x07,\x02\x02\xE9\xEA\x07\"\x02\x02\xEA\xEB\x05(\x15"+
-		"\x02\xEB\xEC\x07#\x02\x02\xEC\xED\x05\"\x12\x02\xED\xEE\x07\x1C\x02\x02"+
-		"\xEE\xF0\x03\x02\x02\x02\xEF\xD9\x03\x02\x02\x02\xEF\xDD\x03\x02\x02\x02"+
-		"\xEF\xE4\x03\x02\x02\x02\xEF\xE8\x03\x02\x02\x02\xF0\'\x03\x02\x02\x02"+
-		"\xF1\xF2\b\x15\x01\x02\xF2\xF3\x05*\x16\x02\xF3\xF9\x03\x02\x02\x02\xF4"+
-		"\xF5\f\x03\x02\x02\xF5\xF6\x07\x1D\x02\x02\xF6\xF8\x05*\x16\x02\xF7\xF4"+
-		"\x03\x02\x02\x02\xF8\xFB\x03\x02\x02\x02\xF9\xF7\x03\x02\x02\x02\xF9\xFA"+
-		"\x03\x02\x02\x02\xFA)\x03\x02\x02\x02\xFB\xF9\x03\x02\x02\x02\xFC\xFD"+
-		"\b\x16\x01\x02\xFD\u010D\x07\x06\x02\x02\xFE\u010D\x07\x05\x02\x02\xFF"+
-		"\u010D\x07)\x02\x02\u0100\u010D\x07,\x02\x02\u0101\u0102\x05,\x17\x02"+
-		"\u0102\u0103\x07\"\x02\x02\u0103\u0104\x05*\x16\x02\u0104\u0105\x07#\x02"+
-		"\x02\u0105\u010D\x03\x02\x02\x02\u0106\u0107\x07(\x02\x02\u0107\u010D"+
-		"\x05*\x16\t\u0108\u0109\x07\"\x02\x02\u0109\u010A\x05*\x16\x02\u010A\u010B"+
-		"\x07#\x02\x02\u010B\u010D\x03\x02\x02\x02\u010C\xFC\x03\x02\x02\x02\u010C"+
-		"\xFE\x03\x02\x02\x02\u010C\xFF\x03\x02\x02\x02\u010C\u0100\x03\x02\x02"+
-		"\x02\u010C\u0101\x03\x02\x02\x02\u010C\u0106\x03\x02\x02\x02\u010C\u0108"+
-		"\x03\x02\x02\x02\u010D\u011F\x03\x02\x02\x02\u010E\u010F\f\x07\x02\x02"+
-		"\u010F\u0110\x07\'\x02\x02\u0110\u011E\x05*\x16\b\u0111\u0112\f\x06\x02"+
-		"\x02\u0112\u0113\x07(\x02\x02\u0113\u011E\x05*\x16\x07\u0114\u0115\f\x05"+
-		"\x02\x02\u0115\u0116\x07%\x02\x02\u0116\u011E\x05*\x16\x06\u0117\u0118"+
-		"\f\x04\x02\x02\u0118\u0119\x07&\x02\x02\u0119\u011E\x05*\x16\x05\u011A"+
-		"\u011B\f\x03\x02\x02\u011B\u011C\x07$\x02\x02\u011C\u011E\x05*\x16\x04"+
-		"\u011D\u010E\x03\x02\x02\x02\u011D\u0111\x03\x02\x02\x02\u011D\u0114\x03"+
-		"\x02\x02\x02\u011D\u0117\x03\x02\x02\x02\u011D\u011A\x03\x02\x02\x02\u011E"+
-		"\u0121\x03\x02\x02\x02\u011F\u011D\x03\x02\x02\x02\u011F\u0120\x03\x02"+
-		"\x02\x02\u0120+\x03\x02\x02\x02\u0121\u011F\x03\x02\x02\x02\u0122\u0123"+
-		"\t\x02\x02\x02\u0123-\x03\x02\x02\x02\u0124\u0125\x07\x15\x02\x02\u0125"+
-		"\u0126\x050\x19\x02\u0126\u0127\x07\x1B\x02\x02\u0127\u0128\x052\x1A\x02"+
-		"\u0128\u012E\x03\x02\x02\x02\u0129\u012A\x07\x15\x02\x02\u012A\u012B\x07"+
-		",\x02\x02\u012B\u012C\x07\x1B\x02\x02\u012C\u012E\x07,\x02\x02\u012D\u0124"+
-		"\x03\x02\x02\x02\u012D\u0129\x03\x02\x02\x02\u012E/\x03\x02\x02\x02\u012F"+
-		"\u0130\x07,\x02\x02\u0130\u0131\x07 \x02\x02\u0131\u0132\x07\x06\x02\x02"+
-		"\u0132\u0133\x07!\x02\x02\u01331\x03\x02\x02\x02\u0134\u0135\x07,\x02"+
-		"\x02\u0135\u0136\x07 \x02\x02\u0136\u0137\x07\x06\x02\x02\u0137\u0138"+
-		"\x07!\x02\x02\u01383\x03\x02\x02\x02\u0139\u013A\x07,\x02\x02\u013A\u013B"+
-		"\x07\"\x02\x02\u013B\u013C\x056\x1C\x02\u013C\u013D\x07#\x02\x02\u013D"+
-		"\u013E\x058\x1D\x02\u013E\u0142\x03\x02\x02\x02\u013F\u0140\x07,\x02\x02"+
-		"\u0140\u0142\x058\x1D\x02\u0141\u0139\x03\x02\x02\x02\u0141\u013F\x03"+
-		"\x02\x02\x02\u01425\x03\x02\x02\x02\u0143\u0144\b\x1C\x01\x02\u0144\u0145"+
-		"\x05*\x16\x02\u0145\u014B\x03\x02\x02\x02\u0146\u0147\f\x03\x02\x02\u0147"+
-		"\u0148\x07\x1D\x02\x02\u0148\u014A\x05*\x16\x02\u0149\u0146\x03\x02\x02"+
-		"\x02\u014A\u014D\x03\x02\x02\x02\u014B\u0149\x03\x02\x02\x02\u014B\u014C"+
-		"\x03\x02\x02\x02\u014C7\x03\x02\x02\x02\u014D\u014B\x03\x02\x02\x02\u014E"+
-		"\u0154\x05:\x1E\x02\u014F\u0150\x05:\x1E\x02\u0150\u0151\x07\x1D\x02\x02"+
-		"\u0151\u0152\x058\x1D\x02\u0152\u0154\x03\x02\x02\x02\u0153\u014E\x03"+
-		"\x02\x02\x02\u0153\u014F\x03\x02\x02\x02\u01549\x03\x02\x02\x02\u0155"+
-		"\u015B\x07,\x02\x02\u0156\u0157\x07,\x02\x02\u0157\u0158\x07 \x02\x02"+
-		"\u0158\u0159\x07\x06\x02\x02\u0159\u015B\x07!\x02\x02\u015A\u0155\x03"+
-		"\x02\x02\x02\u015A\u0156\x03\x02\x02\x02\u015B;\x03\x02\x02\x02\u015C"+
-		"\u015D\x07\x0E\x02\x02\u015D\u015E\x058\x1D\x02\u015E=\x03\x02\x02\x02"+
-		"\u015F\u0160\x07\x16\x02\x02\u0160\u0164\x07,\x02\x02\u0161\u0162\x07"+
-		"\x16\x02\x02\u0162\u0164\x05@!\x02\u0163\u015F\x03\x02\x02\x02\u0163\u0161"+
-		"\x03\x02\x02\x02\u0164?\x03\x02\x02\x02\u0165\u016B\x050\x19\x02\u0166"+
-		"\u0167\x050\x19\x02\u0167\u0168\x07\x1D\x02\x02\u0168\u0169\x05@!\x02"+
-		"\u0169\u016B\x03\x02\x02\x02\u016A\u0165\x03\x02\x02\x02\u016A\u0166\x03"+
-		"\x02\x02\x02\u016BA\x03\x02\x02\x02\u016C\u016D\x07\x17\x02\x02\u016D"+
-		"\u016E\x05:\x1E\x02\u016EC\x03\x02\x02\x02\x18IOYdl}\xC3\xCB\xD1\xD7\xEF"+
-		"\xF9\u010C\u011D\u011F\u012D\u0141\u014B\u0153\u015A\u0163\u016A";
+		"\x16\x03\x16\x03\x16\x03\x16\x07\x16\u0118\n\x16\f\x16\x0E\x16\u011B\v"+
+		"\x16\x03\x17\x03\x17\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x03"+
+		"\x18\x03\x18\x03\x18\x05\x18\u0128\n\x18\x03\x19\x03\x19\x03\x19\x03\x19"+
+		"\x03\x19\x03\x1A\x03\x1A\x03\x1A\x03\x1A\x03\x1A\x03\x1B\x03\x1B\x03\x1B"+
+		"\x03\x1B\x03\x1B\x03\x1B\x03\x1B\x03\x1B\x05\x1B\u013C\n\x1B\x03\x1C\x03"+
+		"\x1C\x03\x1C\x03\x1C\x03\x1C\x03\x1C\x07\x1C\u0144\n\x1C\f\x1C\x0E\x1C"+
+		"\u0147\v\x1C\x03\x1D\x03\x1D\x03\x1D\x03\x1D\x03\x1D\x05\x1D\u014E\n\x1D"+
+		"\x03\x1E\x03\x1E\x03\x1E\x03\x1E\x03\x1E\x05\x1E\u0155\n\x1E\x03\x1F\x03"+
+		"\x1F\x03\x1F\x03 \x03 \x03 \x03 \x05 \u015E\n \x03!\x03!\x03!\x03!\x03"+
+		"!\x05!\u0165\n!\x03\"\x03\"\x03\"\x03\"\x02\x02\x05(*6#\x02\x02\x04\x02"+
+		"\x06\x02\b\x02\n\x02\f\x02\x0E\x02\x10\x02\x12\x02\x14\x02\x16\x02\x18"+
+		"\x02\x1A\x02\x1C\x02\x1E\x02 \x02\"\x02$\x02&\x02(\x02*\x02,\x02.\x02"+
+		"0\x022\x024\x026\x028\x02:\x02<\x02>\x02@\x02B\x02\x02\x05\x03\x02%&\x03"+
+		"\x02\'(\x03\x02\x0F\x14\u0173\x02I\x03\x02\x02\x02\x04O\x03\x02\x02\x02"+
+		"\x06Q\x03\x02\x02\x02\bY\x03\x02\x02\x02\n[\x03\x02\x02\x02\fd\x03\x02"+
+		"\x02\x02\x0El\x03\x02\x02\x02\x10}\x03\x02\x02\x02\x12\x7F\x03\x02\x02"+
+		"\x02\x14\x86\x03\x02\x02\x02\x16\x8D\x03\x02\x02\x02\x18\x94\x03\x02\x02"+
+		"\x02\x1A\x96\x03\x02\x02\x02\x1C\x9A\x03\x02\x02\x02\x1E\xC3\x03\x02\x02"+
+		"\x02 \xCB\x03\x02\x02\x02\"\xD1\x03\x02\x02\x02$\xD7\x03\x02\x02\x02&"+
+		"\xEF\x03\x02\x02\x02(\xF1\x03\x02\x02\x02*\u010C\x03\x02\x02\x02,\u011C"+
+		"\x03\x02\x02\x02.\u0127\x03\x02\x02\x020\u0129\x03\x02\x02\x022\u012E"+
+		"\x03\x02\x02\x024\u013B\x03\x02\x02\x026\u013D\x03\x02\x02\x028\u014D"+
+		"\x03\x02\x02\x02:\u0154\x03\x02\x02\x02<\u0156\x03\x02\x02\x02>\u015D"+
+		"\x03\x02\x02\x02@\u0164\x03\x02\x02\x02B\u0166\x03\x02\x02\x02DJ\x05\b"+
+		"\x05\x02EF\x05\x04\x03\x02FG\x05\b\x05\x02GJ\x03\x02\x02\x02HJ\x05\n\x06"+
+		"\x02ID\x03\x02\x02\x02IE\x03\x02\x02\x02IH\x03\x02\x02\x02J\x03\x03\x02"+
+		"\x02\x02KP\x07\x07\x02\x02LM\x07\x07\x02\x02MP\x05\x06\x04\x02NP\x05\x06"+
+		"\x04\x02OK\x03\x02\x02\x02OL\x03\x02\x02\x02ON\x03\x02\x02\x02P\x05\x03"+
+		"\x02\x02\x02QR\x07\b\x02\x02RS\x07+\x02\x02ST\x07\x1C\x02\x02T\x07\x03"+
+		"\x02\x02\x02UZ\x05\f\x07\x02VW\x05\f\x07\x02WX\x05\b\x05\x02XZ\x03\x02"+
+		"\x02\x02YU\x03\x02\x02\x02YV\x03\x02\x02\x02Z\t\x03\x02\x02\x02[\\\x07"+
+		"\f\x02\x02\\]\x07\x02\x02\x03]\v\x03\x02\x02\x02^e\x05\x0E\b\x02_e\x05"+
+		"\x10\t\x02`a\x05\x12\n\x02ab\x05\x10\t\x02be\x03\x02\x02\x02ce\x07\x02"+
+		"\x02\x03d^\x03\x02\x02\x02d_\x03\x02\x02\x02d`\x03\x02\x02\x02dc\x03\x02"+
+		"\x02\x02e\r\x03\x02\x02\x02fm\x05\x14\v\x02gm\x05\x16\f\x02hm\x05\x1A"+
+		"\x0E\x02ij\x05\x1C\x0F\x02jk\x07\x1C\x02\x02km\x03\x02\x02\x02lf\x03\x02"+
+		"\x02\x02lg\x03\x02\x02\x02lh\x03\x02\x02\x02li\x03\x02\x02\x02m\x0F\x03"+
+		"\x02\x02\x02no\x05.\x18\x02op\x07\x1C\x02\x02p~\x03\x02\x02\x02qr\x05"+
+		"4\x1B\x02rs\x07\x1C\x02\x02s~\x03\x02\x02\x02tu\x05<\x1F\x02uv\x07\x1C"+
+		"\x02\x02v~\x03\x02\x02\x02wx\x05> \x02xy\x07\x1C\x02\x02y~\x03\x02\x02"+
+		"\x02z{\x05B\"\x02{|\x07\x1C\x02\x02|~\x03\x02\x02\x02}n\x03\x02\x02\x02"+
+		"}q\x03\x02\x02\x02}t\x03\x02\x02\x02}w\x03\x02\x02\x02}z\x03\x02\x02\x02"+
+		"~\x11\x03\x02\x02\x02\x7F\x80\x07\x19\x02\x02\x80\x81\x07\"\x02\x02\x81"+
+		"\x82\x07,\x02\x02\x82\x83\x07\x1A\x02\x02\x83\x84\x07\x06\x02\x02\x84"+
+		"\x85\x07#\x02\x02\x85\x13\x03\x02\x02\x02\x86\x87\x07\n\x02\x02\x87\x88"+
+		"\x07,\x02\x02\x88\x89\x07 \x02\x02\x89\x8A\x05\x18\r\x02\x8A\x8B\x07!"+
+		"\x02\x02\x8B\x8C\x07\x1C\x02\x02\x8C\x15\x03\x02\x02\x02\x8D\x8E\x07\v"+
+		"\x02\x02\x8E\x8F\x07,\x02\x02\x8F\x90\x07 \x02\x02\x90\x91\x05\x18\r\x02"+
+		"\x91\x92\x07!\x02\x02\x92\x93\x07\x1C\x02\x02\x93\x17\x03\x02\x02\x02"+
+		"\x94\x95\x07\x06\x02\x02\x95\x19\x03\x02\x02\x02\x96\x97\x07*\x02\x02"+
+		"\x97\x98\x07,\x02\x02\x98\x99\x05\x1E\x10\x02\x99\x1B\x03\x02\x02\x02"+
+		"\x9A\x9B\x07\x18\x02\x02\x9B\x9C\x07,\x02\x02\x9C\x9D\x05 \x11\x02\x9D"+
+		"\x1D\x03\x02\x02\x02\x9E\x9F\x05\"\x12\x02\x9F\xA0\x07\x1E\x02\x02\xA0"+
+		"\xA1\x05$\x13\x02\xA1\xA2\x07\x1F\x02\x02\xA2\xC4\x03\x02\x02\x02\xA3"+
+		"\xA4\x07\"\x02\x02\xA4\xA5\x05\"\x12\x02\xA5\xA6\x07#\x02\x02\xA6\xA7"+
+		"\x05\"\x12\x02\xA7\xA8\x07\x1E\x02\x02\xA8\xA9\x05$\x13\x02\xA9\xAA\x07"+
+		"\x1F\x02\x02\xAA\xC4\x03\x02\x02\x02\xAB\xAC\x07\"\x02\x02\xAC\xAD\x05"+
+		"\"\x12\x02\xAD\xAE\x07#\x02\x02\xAE\xAF\x05\"\x12\x02\xAF\xB0\x07\x1E"+
+		"\x02\x02\xB0\xB1\x07\x1F\x02\x02\xB1\xC4\x03\x02\x02\x02\xB2\xB3\x07\""+
+		"\x02\x02\xB3\xB4\x07#\x02\x02\xB4\xB5\x05\"\x12\x02\xB5\xB6\x07\x1E\x02"+
+		"\x02\xB6\xB7\x07\x1F\x02\x02\xB7\xC4\x03\x02\x02\x02\xB8\xB9\x07\"\x02"+
+		"\x02\xB9\xBA\x07#\x02\x02\xBA\xBB\x05\"\x12\x02\xBB\xBC\x07\x1E\x02\x02"+
+		"\xBC\xBD\x05$\x13\x02\xBD\xBE\x07\x1F\x02\x02\xBE\xC4\x03\x02\x02\x02"+
+		"\xBF\xC0\x05\"\x12\x02\xC0\xC1\x07\x1E\x02\x02\xC1\xC2\x07\x1F\x02\x02"+
+		"\xC2\xC4\x03\x02\x02\x02\xC3\x9E\x03\x02\x02\x02\xC3\xA3\x03\x02\x02\x02"+
+		"\xC3\xAB\x03\x02\x02\x02\xC3\xB2\x03\x02\x02\x02\xC3\xB8\x03\x02\x02\x02"+
+		"\xC3\xBF\x03\x02\x02\x02\xC4\x1F\x03\x02\x02\x02\xC5\xCC\x05\"\x12\x02"+
+		"\xC6\xC7\x07\"\x02\x02\xC7\xC8\x05\"\x12\x02\xC8\xC9\x07#\x02\x02\xC9"+
+		"\xCA\x05\"\x12\x02\xCA\xCC\x03\x02\x02\x02\xCB\xC5\x03\x02\x02\x02\xCB"+
+		"\xC6\x03\x02\x02\x02\xCC!\x03\x02\x02\x02\xCD\xD2\x07,\x02\x02\xCE\xCF"+
+		"\x07,\x02\x02\xCF\xD0\x07\x1D\x02\x02\xD0\xD2\x05\"\x12\x02\xD1\xCD\x03"+
+		"\x02\x02\x02\xD1\xCE\x03\x02\x02\x02\xD2#\x03\x02\x02\x02\xD3\xD8\x05"+
+		"&\x14\x02\xD4\xD5\x05&\x14\x02\xD5\xD6\x05$\x13\x02\xD6\xD8\x03\x02\x02"+
+		"\x02\xD7\xD3\x03\x02\x02\x02\xD7\xD4\x03\x02\x02\x02\xD8%\x03\x02\x02"+
+		"\x02\xD9\xDA\x07\x0E\x02\x02\xDA\xDB\x05\"\x12\x02\xDB\xDC\x07\x1C\x02"+
+		"\x02\xDC\xF0\x03\x02\x02\x02\xDD\xDE\x07\r\x02\x02\xDE\xDF\x07\"\x02\x02"+
+		"\xDF\xE0\x05(\x15\x02\xE0\xE1\x07#\x02\x02\xE1\xE2\x05\"\x12\x02\xE2\xE3"+
+		"\x07\x1C\x02\x02\xE3\xF0\x03\x02\x02\x02\xE4\xE5\x07,\x02\x02\xE5\xE6"+
+		"\x05\"\x12\x02\xE6\xE7\x07\x1C\x02\x02\xE7\xF0\x03\x02\x02\x02\xE8\xE9"+
+		"\x07,\x02\x02\xE9\xEA\x07\"\x02\x02\xEA\xEB\x05(\x15\x02\xEB\xEC\x07#"+
+		"\x02\x02\xEC\xED\x05\"\x12\x02\xED\xEE\x07\x1C\x02\x02\xEE\xF0\x03\x02"+
+		"\x02\x02\xEF\xD9\x03\x02\x02\x02\xEF\xDD\x03\x02\x02\x02\xEF\xE4\x03\x02"+
+		"\x02\x02\xEF\xE8\x03\x02\x02\x02\xF0\'\x03\x02\x02\x02\xF1\xF2\b\x15\x01"+
+		"\x02\xF2\xF3\x05*\x16\x02\xF3\xF9\x03\x02\x02\x02\xF4\xF5\f\x03\x02\x02"+
+		"\xF5\xF6\x07\x1D\x02\x02\xF6\xF8\x05*\x16\x02\xF7\xF4\x03\x02\x02\x02"+
+		"\xF8\xFB\x03\x02\x02\x02\xF9\xF7\x03\x02\x02\x02\xF9\xFA\x03\x02\x02\x02"+
+		"\xFA)\x03\x02\x02\x02\xFB\xF9\x03\x02\x02\x02\xFC\xFD\b\x16\x01\x02\xFD"+
+		"\u010D\x07\x06\x02\x02\xFE\u010D\x07\x05\x02\x02\xFF\u010D\x07)\x02\x02"+
+		"\u0100\u010D\x07,\x02\x02\u0101\u0102\x05,\x17\x02\u0102\u0103\x07\"\x02"+
+		"\x02\u0103\u0104\x05*\x16\x02\u0104\u0105\x07#\x02\x02\u0105\u010D\x03"+
+		"\x02\x02\x02\u0106\u0107\x07\"\x02\x02\u0107\u0108\x05*\x16\x02\u0108"+
+		"\u0109\x07#\x02\x02\u0109\u010D\x03\x02\x02\x02\u010A\u010B\x07(\x02\x02"+
+		"\u010B\u010D\x05*\x16\x05\u010C\xFC\x03\x02\x02\x02\u010C\xFE\x03\x02"+
+		"\x02\x02\u010C\xFF\x03\x02\x02\x02\u010C\u0100\x03\x02\x02\x02\u010C\u0101"+
+		"\x03\x02\x02\x02\u010C\u0106\x03\x02\x02\x02\u010C\u010A\x03\x02\x02\x02"+
+		"\u010D\u0119\x03\x02\x02\x02\u010E\u010F\f\x06\x02\x02\u010F\u0110\x07"+
+		"$\x02\x02\u0110\u0118\x05*\x16\x06\u0111\u0112\f\x04\x02\x02\u0112\u0113"+
+		"\t\x02\x02\x02\u0113\u0118\x05*\x16\x05\u0114\u0115\f\x03\x02\x02\u0115"+
+		"\u0116\t\x03\x02\x02\u0116\u0118\x05*\x16\x04\u0117\u010E\x03\x02\x02"+
+		"\x02\u0117\u0111\x03\x02\x02\x02\u0117\u0114\x03\x02\x02\x02\u0118\u011B"+
+		"\x03\x02\x02\x02\u0119\u0117\x03\x02\x02\x02\u0119\u011A\x03\x02\x02\x02"+
+		"\u011A+\x03\x02\x02\x02\u011B\u0119\x03\x02\x02\x02\u011C\u011D\t\x04"+
+		"\x02\x02\u011D-\x03\x02\x02\x02\u011E\u011F\x07\x15\x02\x02\u011F\u0120"+
+		"\x050\x19\x02\u0120\u0121\x07\x1B\x02\x02\u0121\u0122\x052\x1A\x02\u0122"+
+		"\u0128\x03\x02\x02\x02\u0123\u0124\x07\x15\x02\x02\u0124\u0125\x07,\x02"+
+		"\x02\u0125\u0126\x07\x1B\x02\x02\u0126\u0128\x07,\x02\x02\u0127\u011E"+
+		"\x03\x02\x02\x02\u0127\u0123\x03\x02\x02\x02\u0128/\x03\x02\x02\x02\u0129"+
+		"\u012A\x07,\x02\x02\u012A\u012B\x07 \x02\x02\u012B\u012C\x07\x06\x02\x02"+
+		"\u012C\u012D\x07!\x02\x02\u012D1\x03\x02\x02\x02\u012E\u012F\x07,\x02"+
+		"\x02\u012F\u0130\x07 \x02\x02\u0130\u0131\x07\x06\x02\x02\u0131\u0132"+
+		"\x07!\x02\x02\u01323\x03\x02\x02\x02\u0133\u0134\x07,\x02\x02\u0134\u0135"+
+		"\x07\"\x02\x02\u0135\u0136\x056\x1C\x02\u0136\u0137\x07#\x02\x02\u0137"+
+		"\u0138\x058\x1D\x02\u0138\u013C\x03\x02\x02\x02\u0139\u013A\x07,\x02\x02"+
+		"\u013A\u013C\x058\x1D\x02\u013B\u0133\x03\x02\x02\x02\u013B\u0139\x03"+
+		"\x02\x02\x02\u013C5\x03\x02\x02\x02\u013D\u013E\b\x1C\x01\x02\u013E\u013F"+
+		"\x05*\x16\x02\u013F\u0145\x03\x02\x02\x02\u0140\u0141\f\x03\x02\x02\u0141"+
+		"\u0142\x07\x1D\x02\x02\u0142\u0144\x05*\x16\x02\u0143\u0140\x03\x02\x02"+
+		"\x02\u0144\u0147\x03\x02\x02\x02\u0145\u0143\x03\x02\x02\x02\u0145\u0146"+
+		"\x03\x02\x02\x02\u01467\x03\x02\x02\x02\u0147\u0145\x03\x02\x02\x02\u0148"+
+		"\u014E\x05:\x1E\x02\u0149\u014A\x05:\x1E\x02\u014A\u014B\x07\x1D\x02\x02"+
+		"\u014B\u014C\x058\x1D\x02\u014C\u014E\x03\x02\x02\x02\u014D\u0148\x03"+
+		"\x02\x02\x02\u014D\u0149\x03\x02\x02\x02\u014E9\x03\x02\x02\x02\u014F"+
+		"\u0155\x07,\x02\x02\u0150\u0151\x07,\x02\x02\u0151\u0152\x07 \x02\x02"+
+		"\u0152\u0153\x07\x06\x02\x02\u0153\u0155\x07!\x02\x02\u0154\u014F\x03"+
+		"\x02\x02\x02\u0154\u0150\x03\x02\x02\x02\u0155;\x03\x02\x02\x02\u0156"+
+		"\u0157\x07\x0E\x02\x02\u0157\u0158\x058\x1D\x02\u0158=\x03\x02\x02\x02"+
+		"\u0159\u015A\x07\x16\x02\x02\u015A\u015E\x07,\x02\x02\u015B\u015C\x07"+
+		"\x16\x02\x02\u015C\u015E\x05@!\x02\u015D\u0159\x03\x02\x02\x02\u015D\u015B"+
+		"\x03\x02\x02\x02\u015E?\x03\x02\x02\x02\u015F\u0165\x050\x19\x02\u0160"+
+		"\u0161\x050\x19\x02\u0161\u0162\x07\x1D\x02\x02\u0162\u0163\x05@!\x02"+
+		"\u0163\u0165\x03\x02\x02\x02\u0164\u015F\x03\x02\x02\x02\u0164\u0160\x03"+
+		"\x02\x02\x02\u0165A\x03\x02\x02\x02\u0166\u0167\x07\x17\x02\x02\u0167"+
+		"\u0168\x05:\x1E\x02\u0168C\x03\x02\x02\x02\x18IOYdl}\xC3\xCB\xD1\xD7\xEF"+
+		"\xF9\u010C\u0117\u0119\u0127\u013B\u0145\u014D\u0154\u015D\u0164";
 	public static __ATN: ATN;
 	public static get _ATN(): ATN {
 		if (!QasmParser.__ATN) {
@@ -0,0 +1,309 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext, Token } from 'antlr4ts';
+import { AbstractParseTreeVisitor, TerminalNode } from 'antlr4ts/tree';
+import { Command, Diagnostic, Range, TextEdit, WorkspaceEdit } from 'vscode-languageserver/lib/main';
+import { QasmParserVisitor } from './antlr/QasmParserVisitor';
+import {
+    HeadersContext,
+    IncludeLibraryContext,
+    QregDefinitionContext,
+    CregDefinitionContext,
+    DefinitionContext,
+    MeasureContext,
+    ConditionalContext,
+    CustomArglistContext,
+    QubitContext,
+    CbitContext,
+    QbitOrQregContext,
+    QasmParser
+} from './antlr/QasmParser';
+import { QASMSyntacticParser } from './compiler/qasmSyntacticParser';
+import { SymbolTableGenerator } from './compiler/symbolTableGenerator';
+import { RegisterSymbol, GateSymbol } from './compiler/symbolTable';
+import { TokenLocator } from './compiler/tools/tokenLocator';
+import { QASMVersion } from './versionedParser';
+import { QASMParser } from './parser';
+import { QASMLibraries } from './libs/libraries';
+import { QuickFixCommand } from './requests';
+import { ErrorListener } from '../tools/errorListener';
+import { Parser } from '../types';
+import { ErrorCode } from '../types';
+import { SymbolTable } from '../compiler/types';
+
+const STANDARD_LIBRARY = 'qelib1.inc';
+const BINARY = 2;
+
+/**
+ * Offers fixes for the diagnostics of the QASM documents: declaring the undefined registers, including the
+ * standard library, resizing the registers and removing the duplicated declarations.
+ */
+export class QASMCodeActionProvider {
+    private standardGates: SymbolTable = null;
+
+    /** The server gives the parser reusing the validation of the open documents. */
+    constructor(private parser: Parser = new QASMParser()) {}
+
+    codeActionsFor(uri: string, input: string, diagnostics: Diagnostic[]): Command[] {
+        if (QASMVersion.isQASM3(input)) {
+            return [];
+        }
+
+        let result = this.parser.parse(input, uri);
+        let tree: ParserRuleContext = result.ast;
+        let symbolTable = result.symbolTable;
+        let document = new DocumentCollector();
+        tree.accept(document);
+
+        let fixer = new DiagnosticFixer(uri, input, tree, symbolTable, document, name => this.isStandardGate(name));
+
+        return diagnostics.map(diagnostic => fixer.fixFor(diagnostic)).filter(command => command !== null);
+    }
+
+    private isStandardGate(name: string): boolean {
+        if (this.standardGates === null) {
+            let library = QASMSyntacticParser.parseWithErrorListener(
+                QASMLibraries.contentOf(STANDARD_LIBRARY),
+                new ErrorListener()
+            );
+            this.standardGates = SymbolTableGenerator.symbolTableFor(library);
+        }
+
+        return this.standardGates.lookup(name) instanceof GateSymbol;
+    }
+}
+
+class DiagnosticFixer {
+    private lines: string[];
+
+    constructor(
+        private uri: string,
+        private input: string,
+        private tree: ParserRuleContext,
+        private symbolTable: SymbolTable,
+        private document: DocumentCollector,
+        private isStandardGate: (name: string) => boolean
+    ) {
+        this.lines = input.split(/\r?\n/);
+    }
+
+    fixFor(diagnostic: Diagnostic): Command {
+        let node = this.nodeAt(diagnostic.range);
+        if (node === null) {
+            return null;
+        }
+
+        switch (diagnostic.code) {
+            case ErrorCode.UndefinedSymbol:
+                return this.declarationFor(node);
+            case ErrorCode.RegisterTooSmall:
+                return this.classicalRegisterResizeFor(node);
+            case ErrorCode.IndexOutOfBound:
+                return this.resize(node.text, this.document.requiredSizeOf(node.text));
+            case ErrorCode.PreviousDefinition:
+                return this.removalOf(node);
+            default:
+                return null;
+        }
+    }
+
+    private declarationFor(node: TerminalNode): Command {
+        let name = node.text;
+        let usage = node.parent;
+
+        if (usage instanceof CustomArglistContext) {
+            if (!this.isStandardGate(name) || this.document.includes.indexOf(STANDARD_LIBRARY) > -1) {
+                return null;
+            }
+
+            let include = `include "${STANDARD_LIBRARY}";\n`;
+
+            return this.command(`Add ${include.trim()}`, [
+                TextEdit.insert(this.lineStart(this.document.headerEnd), include)
+            ]);
+        }
+
+        let isClassical =
+            usage instanceof CbitContext ||
+            usage instanceof ConditionalContext ||
+            (usage instanceof MeasureContext && usage._classicalRegister === node.symbol);
+        let isQuantum =
+            usage instanceof QubitContext || usage instanceof QbitOrQregContext || usage instanceof MeasureContext;
+        if (!isClassical && !isQuantum) {
+            return null;
+        }
+
+        let size = this.document.requiredSizeOf(name);
+        if (usage instanceof MeasureContext && usage._quantumRegister !== undefined) {
+            // the whole registers are measured qubit by qubit, so they need the same size
+            let other = usage._quantumRegister === node.symbol ? usage._classicalRegister : usage._quantumRegister;
+            let otherSymbol = this.symbolTable.lookup(other.text);
+            size = otherSymbol instanceof RegisterSymbol ? Math.max(size, otherSymbol.size) : size;
+        }
+
+        let declaration = `${isClassical ? 'creg' : 'qreg'} ${name}[${size}];`;
+        let line = this.lineStart(this.document.declarationsEnd);
+
+        return this.command(`Declare ${declaration}`, [TextEdit.insert(line, `${declaration}\n`)]);
+    }
+
+    private classicalRegisterResizeFor(node: TerminalNode): Command {
+        let measure = node.parent;
+        if (!(measure instanceof MeasureContext) || measure._quantumRegister === undefined) {
+            return null;
+        }
+
+        let quantumRegister = this.symbolTable.lookup(measure._quantumRegister.text);
+        if (!(quantumRegister instanceof RegisterSymbol)) {
+            return null;
+        }
+
+        return this.resize(node.text, quantumRegister.size);
+    }
+
+    /** Changes the size of the register when it is declared in the document. */
+    private resize(name: string, size: number): Command {
+        let definition = this.document.registers.get(name);
+        if (definition === undefined) {
+            return null;
+        }
+
+        let dimension = definition.dimension().start;
+        let range = Range.create(
+            dimension.line - 1,
+            dimension.charPositionInLine,
+            dimension.line - 1,
+            dimension.charPositionInLine + dimension.text.length
+        );
+
+        return this.command(`Change the size of ${name} to ${size}`, [TextEdit.replace(range, `${size}`)]);
+    }
+
+    private removalOf(node: TerminalNode): Command {
+        let definition = node.parent && node.parent.parent;
+        if (!(definition instanceof DefinitionContext) || definition.stop === undefined) {
+            return null;
+        }
+
+        let range = Range.create(
+            definition.start.line - 1,
+            definition.start.charPositionInLine,
+            definition.stop.line - 1,
+            definition.stop.charPositionInLine + definition.stop.text.length
+        );
+
+        // the whole lines are removed when the declaration is alone in them
+        let before = this.lines[range.start.line].substring(0, range.start.character);
+        let after = this.lines[range.end.line].substring(range.end.character);
+        if (before.trim() === '' && after.trim() === '') {
+            range = Range.create(range.start.line, 0, range.end.line + 1, 0);
+        }
+
+        return this.command(`Remove the duplicated declaration of ${node.text}`, [TextEdit.del(range)]);
+    }
+
+    private nodeAt(range: Range): TerminalNode {
+        // the next character avoids finding the token placed just before the diagnostic
+        let token = TokenLocator.tokenAt(this.input, range.start.line, range.start.character + 1);
+        if (token === null) {
+            return null;
+        }
+
+        return TokenLocator.nodeAt(this.tree, token);
+    }
+
+    private lineStart(line: number) {
+        return { line, character: 0 };
+    }
+
+    private command(title: string, edits: TextEdit[]): Command {
+        let edit: WorkspaceEdit = { changes: { [this.uri]: edits } };
+
+        return Command.create(title, QuickFixCommand.command, edit);
+    }
+}
+
+/** Collects the declarations of the document and the sizes its registers need to be used. */
+class DocumentCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    includes: string[] = [];
+    registers: Map<string, QregDefinitionContext | CregDefinitionContext> = new Map();
+    /** First line after the header. */
+    headerEnd = 0;
+    /** First line after the header and the register declarations. */
+    declarationsEnd = 0;
+    private requiredSizes: Map<string, number> = new Map();
+
+    defaultResult() {}
+
+    requiredSizeOf(register: string): number {
+        return this.requiredSizes.get(register) || 1;
+    }
+
+    visitHeaders(ctx: HeadersContext) {
+        let descriptor = ctx.QasmDescriptor();
+        if (descriptor !== undefined) {
+            this.headerEnd = descriptor.symbol.line;
+        }
+        this.declarationsEnd = this.lineAfter(ctx.stop);
+
+        this.visitChildren(ctx);
+    }
+
+    visitIncludeLibrary(ctx: IncludeLibraryContext) {
+        let library = ctx.tryGetToken(QasmParser.Library, 0);
+        if (library !== undefined) {
+            this.includes.push(library.text);
+        }
+    }
+
+    visitQregDefinition(ctx: QregDefinitionContext) {
+        this.addRegister(ctx.Id().text, ctx);
+    }
+
+    visitCregDefinition(ctx: CregDefinitionContext) {
+        this.addRegister(ctx.Id().text, ctx);
+    }
+
+    visitConditional(ctx: ConditionalContext) {
+        let value = +ctx.Int().text;
+        this.require(ctx.Id().text, value.toString(BINARY).length);
+    }
+
+    visitQubit(ctx: QubitContext) {
+        this.require(ctx.Id().text, +ctx.Int().text + 1);
+    }
+
+    visitCbit(ctx: CbitContext) {
+        this.require(ctx.Id().text, +ctx.Int().text + 1);
+    }
+
+    visitQbitOrQreg(ctx: QbitOrQregContext) {
+        if (ctx.Int() !== undefined) {
+            this.require(ctx.Id().text, +ctx.Int().text + 1);
+        }
+    }
+
+    private addRegister(name: string, ctx: QregDefinitionContext | CregDefinitionContext) {
+        if (!this.registers.has(name)) {
+            this.registers.set(name, ctx);
+        }
+        this.declarationsEnd = Math.max(this.declarationsEnd, this.lineAfter(ctx.stop));
+    }
+
+    private require(register: string, size: number) {
+        this.requiredSizes.set(register, Math.max(this.requiredSizeOf(register), size));
+    }
+
+    private lineAfter(token: Token): number {
+        return token !== undefined ? token.line : 0;
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
+import { TerminalNode } from 'antlr4ts/tree';
+import { ExpContext, UnaryOpContext } from '../antlr/QasmParser';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { PositionAdapter } from '../../tools/positionAdapter';
+import { ErrorMessages } from './tools/errorMessages';
+
+const BINARY_OPERANDS = 2;
+
+/**
+ * Calculates the numeric value of an expression using the given values for the parameters
+ * it references. Expressions that cannot be calculated are evaluated as NaN, and when an error
+ * listener is given the divisions by zero and the unknown functions are reported.
+ */
+export class ExpressionEvaluator extends AbstractParseTreeVisitor<number> implements QasmParserVisitor<number> {
+    constructor(private parameters: Map<string, number> = new Map(), private errorListener?: ErrorListener) {
+        super();
+    }
+
+    defaultResult(): number {
+        return NaN;
+    }
+
+    visitExp(ctx: ExpContext): number {
+        if (ctx.Int() || ctx.Real()) {
+            return +ctx.text;
+        }
+        if (ctx.Pi()) {
+            return Math.PI;
+        }
+        if (ctx.Id()) {
+            return this.parameterValue(ctx.Id().text);
+        }
+        if (ctx.unaryOp()) {
+            return this.applyFunction(ctx.unaryOp(), ctx.exp(0).accept(this));
+        }
+
+        let operands = ctx.exp();
+        if (operands.length === BINARY_OPERANDS) {
+            let operator = ctx.getChild(1) as TerminalNode;
+            let left = operands[0].accept(this);
+            let right = operands[1].accept(this);
+            if (operator.text === '/' && right === 0) {
+                this.report(ErrorMessages.divisionByZero(), operator);
+            }
+
+            return this.applyOperator(operator.text, left, right);
+        }
+
+        let value = operands[0].accept(this);
+        if (ctx.getChild(0).text === '-') {
+            return -value;
+        }
+
+        return value;
+    }
+
+    private parameterValue(name: string): number {
+        if (this.parameters.has(name)) {
+            return this.parameters.get(name);
+        }
+
+        return NaN;
+    }
+
+    private applyFunction(ctx: UnaryOpContext, value: number): number {
+        switch (ctx.text) {
+            case 'sin':
+                return Math.sin(value);
+            case 'cos':
+                return Math.cos(value);
+            case 'tan':
+                return Math.tan(value);
+            case 'exp':
+                return Math.exp(value);
+            case 'ln':
+                return Math.log(value);
+            case 'sqrt':
+                return Math.sqrt(value);
+            default:
+                this.report(ErrorMessages.unknownFunction(ctx.text), ctx.getChild(0) as TerminalNode);
+                return NaN;
+        }
+    }
+
+    private report(message: string, node: TerminalNode) {
+        if (this.errorListener !== undefined) {
+            this.errorListener.addError(ErrorBuilder.error(message, PositionAdapter.fromTerminalNode(node)));
+        }
+    }
+
+    private applyOperator(operator: string, left: number, right: number): number {
+        switch (operator) {
+            case '+':
+                return left + right;
+            case '-':
+                return left - right;
+            case '*':
+                return left * right;
+            case '/':
+                return left / right;
+            case '^':
+                return Math.pow(left, right);
+            default:
+                return NaN;
+        }
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
+import {
+    GateDefinitionContext,
+    ConditionalContext,
+    MeasureContext,
+    CustomArglistContext,
+    CxGateContext,
+    ResetGateContext,
+    QbitOrQregContext
+} from '../antlr/QasmParser';
+import { RegisterSymbol, GateSymbol, DeclaredSymbol } from './symbolTable';
+import { ListFlattener } from './tools/listFlattener';
+import { ErrorMessages } from './tools/errorMessages';
+import { LintSettings } from '../settings';
+import { SymbolTable } from '../../compiler/types';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { PositionAdapter } from '../../tools/positionAdapter';
+import { ContentPosition } from '../../types';
+
+export namespace QASMLinter {
+    /**
+     * Warns about code which does not change the results of the circuit. It runs after the semantic
+     * analysis, which records where every symbol is used.
+     */
+    export function lint(
+        tree: ParserRuleContext,
+        symbolTable: SymbolTable,
+        settings: LintSettings,
+        errorListener: ErrorListener
+    ) {
+        symbolTable
+            .currentSymbols()
+            .filter(symbol => symbol instanceof DeclaredSymbol && isDeclaredInDocument(symbol))
+            .forEach(symbol => {
+                let declared = symbol as DeclaredSymbol;
+                if (declared.references.length > 0) {
+                    return;
+                }
+
+                let position = declared.declaration.position;
+                if (declared instanceof RegisterSymbol && settings.unusedRegisters) {
+                    errorListener.addError(
+                        ErrorBuilder.unnecessary(ErrorMessages.unusedRegister(declared.name), position)
+                    );
+                }
+                if (declared instanceof GateSymbol && settings.unusedGates) {
+                    errorListener.addError(ErrorBuilder.unnecessary(ErrorMessages.unusedGate(declared.name), position));
+                }
+            });
+
+        if (settings.overwrittenMeasurements || settings.operationsAfterMeasurement) {
+            let measurementsTracker = new MeasurementsTracker(symbolTable, settings, errorListener);
+            tree.accept(measurementsTracker);
+            measurementsTracker.finish();
+        }
+    }
+}
+
+function isDeclaredInDocument(symbol: DeclaredSymbol): boolean {
+    return symbol.declaration !== undefined && symbol.declaration.file === undefined;
+}
+
+interface PendingOperation {
+    position: ContentPosition;
+    qubits: string[];
+}
+
+/**
+ * Follows the order of the operations over the qubits and bits of the circuit, to find the measurements
+ * overwritten before being read and the operations applied after the last measurement of their qubits.
+ */
+class MeasurementsTracker extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    private measuredQubits: Set<string> = new Set();
+    private unreadBits: Map<string, ContentPosition> = new Map();
+    private operationsAfterMeasurement: PendingOperation[] = [];
+    private overwrittenPositions: ContentPosition[] = [];
+
+    constructor(
+        private symbolTable: SymbolTable,
+        private settings: LintSettings,
+        private errorListener: ErrorListener
+    ) {
+        super();
+    }
+
+    defaultResult() {}
+
+    visitGateDefinition(_ctx: GateDefinitionContext) {
+        // the body of a gate is analyzed where the gate is applied
+    }
+
+    visitConditional(ctx: ConditionalContext) {
+        this.bitsOf(ctx.Id().text).forEach(bit => this.unreadBits.delete(bit));
+    }
+
+    visitMeasure(ctx: MeasureContext) {
+        let position = PositionAdapter.fromContext(ctx);
+        let qubits: string[];
+        let bits: string[];
+
+        if (ctx.qubit() !== undefined && ctx.cbit() !== undefined) {
+            qubits = [`${ctx.qubit().Id().text}[${ctx.qubit()._position.text}]`];
+            bits = [`${ctx.cbit().Id().text}[${ctx.cbit()._position.text}]`];
+        } else {
+            qubits = this.bitsOf(ctx._quantumRegister.text);
+            bits = this.bitsOf(ctx._classicalRegister.text);
+        }
+
+        bits.forEach(bit => {
+            let previous = this.unreadBits.get(bit);
+            if (previous !== undefined && this.overwrittenPositions.indexOf(previous) === -1) {
+                this.overwrittenPositions.push(previous);
+                this.report(this.settings.overwrittenMeasurements, ErrorMessages.overwrittenMeasurement(bit), previous);
+            }
+
+            this.unreadBits.set(bit, position);
+        });
+
+        qubits.forEach(qubit => this.measuredQubits.add(qubit));
+        this.operationsAfterMeasurement = this.operationsAfterMeasurement.filter(operation =>
+            operation.qubits.every(qubit => qubits.indexOf(qubit) === -1)
+        );
+    }
+
+    visitCustomArglist(ctx: CustomArglistContext) {
+        this.apply(ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()), PositionAdapter.fromContext(ctx));
+    }
+
+    visitCxGate(ctx: CxGateContext) {
+        this.apply(ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()), PositionAdapter.fromContext(ctx));
+    }
+
+    visitResetGate(ctx: ResetGateContext) {
+        this.apply([ctx.qbitOrQreg()], PositionAdapter.fromContext(ctx));
+    }
+
+    /** Reports the operations which are not followed by any measurement of their qubits. */
+    finish() {
+        this.operationsAfterMeasurement.forEach(operation => {
+            let message = ErrorMessages.operationAfterFinalMeasurement();
+            this.report(this.settings.operationsAfterMeasurement, message, operation.position);
+        });
+    }
+
+    private apply(qubitsAndRegisters: QbitOrQregContext[], position: ContentPosition) {
+        let qubits = qubitsAndRegisters
+            .map(
+                argument =>
+                    argument.Int() !== undefined
+                        ? [`${argument.Id().text}[${argument.Int().text}]`]
+                        : this.bitsOf(argument.Id().text)
+            )
+            .reduce((result, argumentQubits) => result.concat(argumentQubits), []);
+
+        if (qubits.length > 0 && qubits.every(qubit => this.measuredQubits.has(qubit))) {
+            this.operationsAfterMeasurement.push({ position, qubits });
+        }
+    }
+
+    private bitsOf(register: string): string[] {
+        let symbol = this.symbolTable.lookup(register);
+        if (!(symbol instanceof RegisterSymbol)) {
+            return [];
+        }
+
+        let bits: string[] = [];
+        for (let i = 0; i < symbol.size; i++) {
+            bits.push(`${register}[${i}]`);
+        }
+
+        return bits;
+    }
+
+    private report(enabled: boolean, message: string, position: ContentPosition) {
+        if (enabled) {
+            this.errorListener.addError(ErrorBuilder.unnecessary(message, position));
+        }
+    }
+}
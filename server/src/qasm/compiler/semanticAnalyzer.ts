@@ -20,21 +20,35 @@ import {
     MeasureContext,
     QbitOrQregContext,
     BarrierGateContext,
-    CustomArglistContext
+    CustomArglistContext,
+    BodyExpressionContext,
+    CxGateContext,
+    GateDefinitionContext,
+    ExpContext
 } from '../antlr/QasmParser';
 import {
     SemanticRulesValidator,
     RegistersOfSameSizeRule,
+    RegistersBroadcastRule,
     ExistingSymbolValidationRule,
     ClassicalRegisterTypeRule,
     ClassicalRegisterComparationRule,
     QuantumRegisterTypeRule,
     SemanticRule,
-    ValidRegisterReferenceRule
+    ValidRegisterReferenceRule,
+    GateParametersCountRule,
+    GateQubitsCountRule,
+    DistinctQubitsRule,
+    DefinedParameterRule,
+    QubitArgument
 } from './validations/validations';
 import { PositionAdapter } from '../../tools/positionAdapter';
 import { ErrorListener } from '../../tools/errorListener';
 import { SymbolTable } from '../../compiler/types';
+import { ContentPosition } from '../../types';
+import { DeclaredSymbol, ParameterSymbol } from './symbolTable';
+import { ExpressionEvaluator } from './expressionEvaluator';
+import { ListFlattener } from './tools/listFlattener';
 
 export namespace SemanticAnalyzer {
     export function analyze(tree: ParserRuleContext, symbolTable: SymbolTable, errorListener: ErrorListener) {
@@ -62,16 +76,25 @@ class SemanticValidator extends AbstractParseTreeVisitor<void> implements QasmPa
 
 class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
     private rulesValidator: SemanticRulesValidator;
+    private gateParameters: string[] = [];
 
-    constructor(symbolTable: SymbolTable, errorListener: ErrorListener) {
+    constructor(private symbolTable: SymbolTable, private errorListener: ErrorListener) {
         super();
         this.rulesValidator = new SemanticRulesValidator(symbolTable, errorListener);
     }
 
     defaultResult() {}
 
+    visitGateDefinition(ctx: GateDefinitionContext) {
+        this.gateParameters = ListFlattener.gateParameters(ctx.gateDefinitionArguments()).map(node => node.text);
+        this.visitChildren(ctx);
+        this.gateParameters = [];
+    }
+
     visitConditional(ctx: ConditionalContext) {
         let position = PositionAdapter.fromTerminalNode(ctx.Id());
+        this.recordUsage(ctx.Id().text, position);
+
         this.rulesValidator.validate([
             new ExistingSymbolValidationRule(ctx.Id().text, position),
             new ClassicalRegisterTypeRule(ctx.Id().text, position),
@@ -85,6 +108,8 @@ class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmPa
             let qRegisterPosition = PositionAdapter.fromToken(ctx._quantumRegister);
             let cRegister = ctx._classicalRegister.text;
             let cRegisterPosition = PositionAdapter.fromToken(ctx._classicalRegister);
+            this.recordUsage(qRegister, qRegisterPosition);
+            this.recordUsage(cRegister, cRegisterPosition);
 
             this.rulesValidator.validate([
                 new ExistingSymbolValidationRule(qRegister, qRegisterPosition),
@@ -101,6 +126,7 @@ class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmPa
     visitBarrierGate(ctx: BarrierGateContext) {
         if (ctx.Id() !== undefined) {
             let position = PositionAdapter.fromTerminalNode(ctx.Id());
+            this.recordUsage(ctx.Id().text, position);
 
             this.rulesValidator.validate([
                 new ExistingSymbolValidationRule(ctx.Id().text, position),
@@ -114,16 +140,43 @@ class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmPa
     visitCustomArglist(ctx: CustomArglistContext) {
         if (ctx._gate !== undefined) {
             let position = PositionAdapter.fromToken(ctx._gate);
+            this.recordUsage(ctx._gate.text, position);
 
-            this.rulesValidator.validate([new ExistingSymbolValidationRule(ctx._gate.text, position)]);
+            let gate = ctx._gate.text;
+            let parameters = ListFlattener.expressions(ctx.paramsListNumber());
+            this.validateExpressions(parameters);
+
+            let parametersCount = parameters.length;
+            let qubits = ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()).map(qubit =>
+                this.qubitArgumentOf(qubit)
+            );
+
+            this.rulesValidator.validate([
+                new ExistingSymbolValidationRule(gate, position),
+                new GateParametersCountRule(gate, parametersCount, position),
+                new GateQubitsCountRule(gate, qubits.length, position),
+                new DistinctQubitsRule(gate, qubits),
+                new RegistersBroadcastRule(qubits)
+            ]);
         }
 
         this.visitChildren(ctx);
     }
 
+    visitCxGate(ctx: CxGateContext) {
+        let qubits = ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()).map(qubit => this.qubitArgumentOf(qubit));
+        this.rulesValidator.validate([
+            new DistinctQubitsRule(ctx.Cx().text, qubits),
+            new RegistersBroadcastRule(qubits)
+        ]);
+
+        this.visitChildren(ctx);
+    }
+
     visitQbitOrQreg(ctx: QbitOrQregContext) {
         let rules: SemanticRule[] = [];
         let position = PositionAdapter.fromTerminalNode(ctx.Id());
+        this.recordUsage(ctx.Id().text, position);
 
         rules.push(new ExistingSymbolValidationRule(ctx.Id().text, position));
         rules.push(new QuantumRegisterTypeRule(ctx.Id().text, position));
@@ -137,6 +190,7 @@ class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmPa
 
     visitQubit(ctx: QubitContext) {
         let position = PositionAdapter.fromTerminalNode(ctx.Id());
+        this.recordUsage(ctx.Id().text, position);
 
         this.rulesValidator.validate([
             new ExistingSymbolValidationRule(ctx.Id().text, position),
@@ -147,6 +201,7 @@ class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmPa
 
     visitCbit(ctx: CbitContext) {
         let position = PositionAdapter.fromTerminalNode(ctx.Id());
+        this.recordUsage(ctx.Id().text, position);
 
         this.rulesValidator.validate([
             new ExistingSymbolValidationRule(ctx.Id().text, position),
@@ -154,4 +209,61 @@ class SentenceValidator extends AbstractParseTreeVisitor<void> implements QasmPa
             new ValidRegisterReferenceRule(ctx.Id().text, +ctx.Int().text, position)
         ]);
     }
+
+    visitBodyExpression(ctx: BodyExpressionContext) {
+        let qubits = ListFlattener.identifiers(ctx.paramsList()).map(node => {
+            return { register: node.text, position: PositionAdapter.fromTerminalNode(node) };
+        });
+        let gate = ctx.Id() !== undefined ? ctx.Id().text : ctx.getChild(0).text;
+        let rules: SemanticRule[] = [new DistinctQubitsRule(gate, qubits)];
+        let parameters = ListFlattener.expressions(ctx.paramsListBody());
+        this.validateExpressions(parameters);
+
+        if (ctx.Id() !== undefined) {
+            let position = PositionAdapter.fromTerminalNode(ctx.Id());
+            this.recordUsage(gate, position);
+
+            rules.push(new GateParametersCountRule(gate, parameters.length, position));
+            rules.push(new GateQubitsCountRule(gate, qubits.length, position));
+        }
+
+        this.rulesValidator.validate(rules);
+    }
+
+    /** Checks the values of the expressions and that they only reference the parameters of the enclosing gate. */
+    private validateExpressions(expressions: ExpContext[]) {
+        let evaluator = new ExpressionEvaluator(new Map(), this.errorListener);
+        let rules: SemanticRule[] = [];
+
+        expressions.forEach(expression => {
+            expression.accept(evaluator);
+
+            ListFlattener.expressionIdentifiers(expression).forEach(node => {
+                let position = PositionAdapter.fromTerminalNode(node);
+                let symbol = this.symbolTable.lookup(node.text, node.symbol.line);
+                if (symbol instanceof ParameterSymbol) {
+                    symbol.references.push(position);
+                }
+
+                rules.push(new DefinedParameterRule(node.text, this.gateParameters, position));
+            });
+        });
+
+        this.rulesValidator.validate(rules);
+    }
+
+    private qubitArgumentOf(ctx: QbitOrQregContext): QubitArgument {
+        return {
+            register: ctx.Id().text,
+            index: ctx.Int() !== undefined ? +ctx.Int().text : undefined,
+            position: PositionAdapter.fromTerminalNode(ctx.Id())
+        };
+    }
+
+    private recordUsage(name: string, position: ContentPosition) {
+        let symbol = this.symbolTable.lookup(name);
+        if (symbol instanceof DeclaredSymbol) {
+            symbol.references.push(position);
+        }
+    }
 }
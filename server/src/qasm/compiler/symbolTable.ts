@@ -13,6 +13,7 @@ import { SymbolTable } from '../../compiler/types';
 import { Scope } from '../../compiler/scope';
 import { BuiltInTypeSymbol, Symbol, Type } from '../../compiler/symbols';
 import { MultiScopeSymbolTable } from '../../compiler/multiScopeSymbolTable';
+import { ContentPosition } from '../../types';
 
 export namespace SymbolTableBuilder {
     export function build(): SymbolTable {
@@ -38,11 +39,28 @@ export class VariableSymbol extends Symbol {
     }
 }
 
-export class RegisterSymbol extends Symbol {
-    size: number;
+/** Place where a symbol is written, the file is only informed when it is not the analyzed document. */
+export interface SymbolLocation {
+    file?: string;
+    position: ContentPosition;
+}
 
-    constructor(name: string, type: Type, size: number) {
+/** Symbols declared by the user code, which keep track of their declaration and the places where they are used. */
+export abstract class DeclaredSymbol extends Symbol {
+    declaration: SymbolLocation;
+    references: ContentPosition[] = [];
+
+    constructor(name: string, type: Type, declaration: SymbolLocation) {
         super(name, type);
+        this.declaration = declaration;
+    }
+}
+
+export class RegisterSymbol extends DeclaredSymbol {
+    size: number;
+
+    constructor(name: string, type: Type, size: number, declaration?: SymbolLocation) {
+        super(name, type, declaration);
         this.size = size;
     }
 
@@ -51,6 +69,51 @@ export class RegisterSymbol extends Symbol {
     }
 }
 
+export class GateSymbol extends DeclaredSymbol {
+    parameters: string[];
+    qubits: string[];
+    documentation: string;
+
+    constructor(
+        name: string,
+        type: Type,
+        parameters: string[],
+        qubits: string[],
+        documentation = '',
+        declaration?: SymbolLocation
+    ) {
+        super(name, type, declaration);
+        this.parameters = parameters;
+        this.qubits = qubits;
+        this.documentation = documentation;
+    }
+
+    /** Representation of the gate as it is declared, e.g. u3(theta, phi, lambda) q */
+    signature(): string {
+        let parameters = this.parameters.length > 0 ? `(${this.parameters.join(', ')})` : '';
+
+        return `${this.name}${parameters} ${this.qubits.join(', ')}`;
+    }
+
+    toString(): string {
+        return `{ name: ${this.name}, type: ${this.type}, parameters: ${this.parameters}, qubits: ${this.qubits} }`;
+    }
+}
+
+/** Real parameter declared by a gate, only visible inside the definition of the gate. */
+export class ParameterSymbol extends DeclaredSymbol {
+    gate: string;
+
+    constructor(name: string, type: Type, gate: string, declaration?: SymbolLocation) {
+        super(name, type, declaration);
+        this.gate = gate;
+    }
+
+    toString(): string {
+        return `{ name: ${this.name}, type: ${this.type}, gate: ${this.gate} }`;
+    }
+}
+
 export enum QASMSymbols {
     Qreg = 'Qreg',
     Creg = 'Creg',
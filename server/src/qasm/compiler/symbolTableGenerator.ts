@@ -16,24 +16,38 @@ import {
     OpaqueDefinitionContext,
     IncludeLibraryContext
 } from '../antlr/QasmParser';
-import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { AbstractParseTreeVisitor, TerminalNode } from 'antlr4ts/tree';
 import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
-import { SymbolTableBuilder, RegisterSymbol, VariableSymbol } from './symbolTable';
-import path = require('path');
-import fs = require('fs');
+import { SymbolTableBuilder, RegisterSymbol, GateSymbol, ParameterSymbol, SymbolLocation } from './symbolTable';
 import { ParserRuleContext } from 'antlr4ts';
 import { QASMSyntacticParser } from './qasmSyntacticParser';
 import { PreviousDefinitionValidation } from './validations/validations';
 import { PositionAdapter } from '../../tools/positionAdapter';
 import { ErrorListener } from '../../tools/errorListener';
 import { SymbolTable } from '../../compiler/types';
+import { IncludeTracker } from '../libs/includeResolver';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { ParseErrorLevel } from '../../types';
+import { ErrorMessages } from './tools/errorMessages';
+import { ListFlattener } from './tools/listFlattener';
+import { Comments } from './tools/comments';
 
 export namespace SymbolTableGenerator {
-    export function symbolTableFor(tree: ParserRuleContext, _errorListener?: ErrorListener): SymbolTable {
+    /**
+     * The source file is only needed when the tree does not belong to the analyzed document, like libraries.
+     * The include tracker resolves the included files and collects them while they are analyzed.
+     */
+    export function symbolTableFor(
+        tree: ParserRuleContext,
+        _errorListener?: ErrorListener,
+        sourceFile?: string,
+        includeTracker?: IncludeTracker
+    ): SymbolTable {
         let symbolTable = SymbolTableBuilder.build();
 
         let errorListener = _errorListener || new ErrorListener();
-        let matcher = new DefinitionMatcher(symbolTable, errorListener);
+        let includes = includeTracker || new IncludeTracker();
+        let matcher = new DefinitionMatcher(symbolTable, errorListener, includes, sourceFile);
         tree.accept(matcher);
 
         return symbolTable;
@@ -43,7 +57,12 @@ export namespace SymbolTableGenerator {
 class DefinitionMatcher extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
     private previousDefinitionValidation: PreviousDefinitionValidation;
 
-    constructor(private symbolTable: SymbolTable, private errorListener: ErrorListener) {
+    constructor(
+        private symbolTable: SymbolTable,
+        private errorListener: ErrorListener,
+        private includes: IncludeTracker,
+        private sourceFile?: string
+    ) {
         super();
         this.previousDefinitionValidation = new PreviousDefinitionValidation(this.symbolTable, this.errorListener);
     }
@@ -51,13 +70,32 @@ class DefinitionMatcher extends AbstractParseTreeVisitor<void> implements QasmPa
     defaultResult() {}
 
     visitIncludeLibrary(ctx: IncludeLibraryContext) {
-        let input = this.getLibraryContent(ctx.Library().text);
-        let tree = QASMSyntacticParser.parse(input);
-
-        let symbolTable = SymbolTableGenerator.symbolTableFor(tree, this.errorListener);
+        let library = ctx.Library().text;
+        let position = PositionAdapter.fromTerminalNode(ctx.Library());
+
+        let libraryFile = this.includes.resolve(library);
+        if (libraryFile === null) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.libraryNotFound(library), position));
+            return;
+        }
+        if (this.includes.isBeingIncluded(libraryFile)) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.includeCycle(library), position));
+            return;
+        }
+
+        // errors inside the library cannot be placed in this document, so they are summarized at the include
+        let libraryErrors = new ErrorListener();
+        let symbolTable = this.includes.include(libraryFile, () => {
+            let tree = QASMSyntacticParser.parseWithErrorListener(this.includes.contentOf(libraryFile), libraryErrors);
+            return SymbolTableGenerator.symbolTableFor(tree, libraryErrors, libraryFile, this.includes);
+        });
         this.symbolTable.mergeWith(symbolTable.currentScope);
 
-        this.visitChildren(ctx);
+        let firstError = libraryErrors.errors.find(error => error.level === ParseErrorLevel.ERROR);
+        if (firstError !== undefined) {
+            let message = ErrorMessages.errorsInLibrary(library, firstError.message);
+            this.errorListener.addError(ErrorBuilder.error(message, position));
+        }
     }
 
     visitQregDefinition(ctx: QregDefinitionContext) {
@@ -66,7 +104,7 @@ class DefinitionMatcher extends AbstractParseTreeVisitor<void> implements QasmPa
         let registerName = ctx.Id().text;
         let registerType = this.symbolTable.lookup('Qreg');
         let size = +ctx.dimension().text;
-        let register = new RegisterSymbol(registerName, registerType, size);
+        let register = new RegisterSymbol(registerName, registerType, size, this.locationOf(ctx.Id()));
 
         this.symbolTable.define(register, ctx.start.line);
     }
@@ -77,7 +115,7 @@ class DefinitionMatcher extends AbstractParseTreeVisitor<void> implements QasmPa
         let registerName = ctx.Id().text;
         let registerType = this.symbolTable.lookup('Creg');
         let size = +ctx.dimension().text;
-        let register = new RegisterSymbol(registerName, registerType, size);
+        let register = new RegisterSymbol(registerName, registerType, size, this.locationOf(ctx.Id()));
 
         this.symbolTable.define(register, ctx.start.line);
     }
@@ -87,11 +125,27 @@ class DefinitionMatcher extends AbstractParseTreeVisitor<void> implements QasmPa
 
         let gateName = ctx.Id().text;
         let gateType = this.symbolTable.lookup('Gate');
-        let gate = new VariableSymbol(gateName, gateType);
+        let parameterNodes = ListFlattener.gateParameters(ctx.gateDefinitionArguments());
+        let parameters = parameterNodes.map(node => node.text);
+        let qubits = ListFlattener.gateQubits(ctx.gateDefinitionArguments()).map(node => node.text);
+        let gate = new GateSymbol(
+            gateName,
+            gateType,
+            parameters,
+            qubits,
+            Comments.preceding(ctx),
+            this.locationOf(ctx.Id())
+        );
 
         this.symbolTable.define(gate, ctx.start.line);
 
         this.symbolTable.push(gateName, ctx.start.line);
+        let parameterType = this.symbolTable.lookup('Real');
+        parameterNodes.forEach(node => {
+            let parameter = new ParameterSymbol(node.text, parameterType, gateName, this.locationOf(node));
+            // visible from the first line of the gate, where the parameters are declared
+            this.symbolTable.define(parameter, ctx.start.line - 1);
+        });
         this.visitChildren(ctx);
         this.symbolTable.pop(ctx.stop.line);
     }
@@ -101,13 +155,24 @@ class DefinitionMatcher extends AbstractParseTreeVisitor<void> implements QasmPa
 
         let opaqueName = ctx.Id().text;
         let gateType = this.symbolTable.lookup('Opaque');
-        let gate = new VariableSymbol(opaqueName, gateType);
+        let parameters = ListFlattener.gateParameters(ctx.opaqueDefinitionArguments()).map(node => node.text);
+        let qubits = ListFlattener.gateQubits(ctx.opaqueDefinitionArguments()).map(node => node.text);
+        let gate = new GateSymbol(
+            opaqueName,
+            gateType,
+            parameters,
+            qubits,
+            Comments.preceding(ctx),
+            this.locationOf(ctx.Id())
+        );
 
         this.symbolTable.define(gate, ctx.start.line);
     }
 
-    private getLibraryContent(libraryName: string): string {
-        let libraryPath = path.join(__dirname, '..', 'libs', libraryName);
-        return fs.readFileSync(libraryPath, 'utf8');
+    private locationOf(node: TerminalNode): SymbolLocation {
+        return {
+            file: this.sourceFile,
+            position: PositionAdapter.fromTerminalNode(node)
+        };
     }
 }
@@ -0,0 +1,43 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { Interval } from 'antlr4ts/misc';
+
+const COMMENT_START = /^\s*\/\/\s?/;
+
+export namespace Comments {
+    /**
+     * The lexer skips the comments, so they are read from the source text. Returns the block of
+     * comment lines placed just before the given rule, without the comment marks.
+     */
+    export function preceding(ctx: ParserRuleContext): string {
+        if (ctx.start.inputStream === undefined || ctx.start.startIndex < 1) {
+            return '';
+        }
+
+        let previousText = ctx.start.inputStream.getText(Interval.of(0, ctx.start.startIndex - 1));
+        let lines = previousText.split(/\r?\n/);
+        lines.pop();
+
+        let comments: string[] = [];
+        while (lines.length > 0 && COMMENT_START.test(lines[lines.length - 1])) {
+            comments.unshift(
+                lines
+                    .pop()
+                    .replace(COMMENT_START, '')
+                    .trim()
+            );
+        }
+
+        return comments.join('\n');
+    }
+}
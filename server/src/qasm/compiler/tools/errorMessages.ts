@@ -37,4 +37,219 @@ export namespace ErrorMessages {
     export function incompatibleComparationValue(classicalRegister: string, maxSize: number): string {
         return `${classicalRegister} cannot be compared with a value larger than ${maxSize}`;
     }
+
+    export function wrongNumberOfParameters(gate: string, expected: number, found: number): string {
+        return `Gate ${gate} expects ${expected} ${pluralOf('parameter', expected)} but ${givenCount(found)}.`;
+    }
+
+    export function wrongNumberOfQubits(gate: string, expected: number, found: number): string {
+        return `Gate ${gate} expects ${expected} qubit ${pluralOf('argument', expected)} but ${givenCount(found)}.`;
+    }
+
+    export function repeatedQubit(gate: string, qubit: string): string {
+        return `Qubit ${qubit} is used more than once in the same application of ${gate}.`;
+    }
+
+    export function registersOfDifferentSize(
+        register: string,
+        size: number,
+        firstRegister: string,
+        firstSize: number
+    ): string {
+        return `Register ${register} of size ${size} cannot be broadcast together with register ${firstRegister} of size ${firstSize}.`;
+    }
+
+    export function qubitInBroadcastRegister(qubit: string, register: string): string {
+        return `Qubit ${qubit} cannot be used while broadcasting over its own register ${register}.`;
+    }
+
+    export function libraryNotFound(library: string): string {
+        return `Library ${library} cannot be found next to this file nor in the include search paths.`;
+    }
+
+    export function includeCycle(library: string): string {
+        return `Library ${library} cannot be included because it is part of an include cycle.`;
+    }
+
+    export function errorsInLibrary(library: string, firstError: string): string {
+        return `Library ${library} contains errors: ${firstError}`;
+    }
+
+    export function undefinedParameter(name: string): string {
+        return `Parameter ${name} is not defined, only the parameters of the enclosing gate can be used.`;
+    }
+
+    export function divisionByZero(): string {
+        return `Division by zero.`;
+    }
+
+    export function unknownFunction(name: string): string {
+        return `Unknown function ${name}, expecting one of sin, cos, tan, exp, ln or sqrt.`;
+    }
+
+    export function unusedRegister(name: string): string {
+        return `Register ${name} is declared but never used.`;
+    }
+
+    export function unusedGate(name: string): string {
+        return `Gate ${name} is defined but never applied.`;
+    }
+
+    export function overwrittenMeasurement(bit: string): string {
+        return `The result measured into ${bit} is overwritten before being read.`;
+    }
+
+    export function operationAfterFinalMeasurement(): string {
+        return `The operation is applied after the final measurement of its qubits, so it does not change the results.`;
+    }
+
+    export function opaqueGateCannotBeSimulated(gate: string): string {
+        return `Opaque gate ${gate} cannot be simulated because its definition is unknown.`;
+    }
+
+    export function recursiveGateDefinition(gate: string): string {
+        return `Gate ${gate} cannot be expanded because it is applied inside its own definition.`;
+    }
+
+    export function registersCannotBeBroadcast(gate: string): string {
+        return `The registers applied to ${gate} must have the same size.`;
+    }
+
+    export function tooManyQubitsToSimulate(qubits: number, maximum: number): string {
+        return `The circuit uses ${qubits} qubits but the simulator supports up to ${maximum}.`;
+    }
+
+    export function opaqueGateCannotBeExported(gate: string, target: string): string {
+        return `Opaque gate ${gate} cannot be exported to ${target} because its definition is unknown.`;
+    }
+
+    export function conditionCannotBeExported(target: string): string {
+        return `Classical conditions cannot be exported to ${target}.`;
+    }
+
+    export function registerConditionCannotBeExported(register: string, target: string): string {
+        return `The condition over ${register} cannot be exported to ${target}, only conditions over a single bit are supported.`;
+    }
+
+    export function barrierNotExported(target: string): string {
+        return `Barriers are not exported to ${target}.`;
+    }
+
+    export function onlyDeclaredSymbolsCanBeRenamed(): string {
+        return `Only the registers and gates declared in this file can be renamed.`;
+    }
+
+    export function renameNotSupportedInQASM3(): string {
+        return `Renaming is not supported in OpenQASM 3 files.`;
+    }
+
+    export function notSupportedInQASM3(feature: string): string {
+        return `${feature} is not supported for OpenQASM 3 files yet.`;
+    }
+
+    export function includedSymbolCannotBeRenamed(name: string): string {
+        return `Symbol ${name} is declared in an included file and cannot be renamed.`;
+    }
+
+    export function invalidIdentifier(name: string): string {
+        return `${name} is not a valid identifier.`;
+    }
+
+    export function unterminatedString(): string {
+        return `The string is not closed before the end of the line.`;
+    }
+
+    export function unexpectedCharacter(character: string): string {
+        return `Unexpected character ${character}.`;
+    }
+
+    export function unexpectedToken(found: string, expected: string): string {
+        return `Unexpected ${found}, expecting ${expected}.`;
+    }
+
+    export function unsupportedVersion(version: string): string {
+        return `OpenQASM ${version} is not supported, expecting version 3.`;
+    }
+
+    export function expectingPositiveInteger(): string {
+        return `Expecting a positive integer constant.`;
+    }
+
+    export function expectingGate(name: string): string {
+        return `Expecting gate at ${name} but it is another type.`;
+    }
+
+    export function expectingQubit(name: string): string {
+        return `Expecting qubit at ${name} but it is another type.`;
+    }
+
+    export function expectingBit(name: string): string {
+        return `Expecting bit at ${name} but it is another type.`;
+    }
+
+    export function expectingClassicalValue(name: string): string {
+        return `Expecting classical value at ${name} but it is another type.`;
+    }
+
+    export function cannotBeIndexed(name: string): string {
+        return `Symbol ${name} is not an array and cannot be indexed.`;
+    }
+
+    export function qubitOutsideGate(qubit: string, gate: string): string {
+        return `Qubit ${qubit} cannot be used inside gate ${gate}, only the qubits of its definition can.`;
+    }
+
+    export function wrongNumberOfArguments(name: string, expected: number, found: number): string {
+        return `${name} expects ${expected} ${pluralOf('argument', expected)} but ${givenCount(found)}.`;
+    }
+
+    export function notCallable(name: string): string {
+        return `Symbol ${name} cannot be called because it is not a subroutine nor a function.`;
+    }
+
+    export function cannotBeAssigned(name: string): string {
+        return `Symbol ${name} cannot be assigned, only classical variables can.`;
+    }
+
+    export function constantCannotBeAssigned(name: string): string {
+        return `Constant ${name} cannot be assigned after its declaration.`;
+    }
+
+    export function outsideLoop(keyword: string): string {
+        return `${keyword} can only be used inside a loop.`;
+    }
+
+    export function returnOutsideSubroutine(): string {
+        return `return can only be used inside a subroutine.`;
+    }
+
+    export function onlyGateCallsInGate(gate: string): string {
+        return `Only gates can be applied inside the definition of gate ${gate}.`;
+    }
+
+    export function onlyInGlobalScope(): string {
+        return `Qubits, gates and subroutines can only be declared in the global scope.`;
+    }
+
+    export function registerExceedsDevice(
+        register: string,
+        first: number,
+        last: number,
+        device: string,
+        qubits: number
+    ): string {
+        return `Register ${register} is placed on the qubits ${first} to ${last} but the device ${device} has ${qubits}.`;
+    }
+
+    export function unconnectedQubits(first: string, second: string, device: string): string {
+        return `Qubits ${first} and ${second} are not connected in the device ${device}.`;
+    }
+
+    function pluralOf(word: string, count: number): string {
+        return count === 1 ? word : `${word}s`;
+    }
+
+    function givenCount(count: number): string {
+        return `${count} ${count === 1 ? 'was' : 'were'} given`;
+    }
 }
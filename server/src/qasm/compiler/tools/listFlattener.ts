@@ -0,0 +1,110 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { TerminalNode } from 'antlr4ts/tree';
+import {
+    ParamsListContext,
+    ParamsListBodyContext,
+    ParamsListNumberContext,
+    ExpContext,
+    BodyContext,
+    BodyExpressionContext,
+    QubitAndQregListContext,
+    QbitOrQregContext,
+    QubitListContext,
+    QubitContext,
+    GateDefinitionArgumentsContext,
+    OpaqueDefinitionArgumentsContext
+} from '../../antlr/QasmParser';
+
+/**
+ * The QASM grammar defines its lists as recursive rules, so these helpers unfold them
+ * into plain arrays keeping the source order.
+ */
+export namespace ListFlattener {
+    export function identifiers(ctx: ParamsListContext): TerminalNode[] {
+        let result: TerminalNode[] = [];
+        let current = ctx;
+        while (current !== undefined) {
+            result.push(current.Id());
+            current = current.paramsList();
+        }
+
+        return result;
+    }
+
+    /** Parameters of a gate, declared between parentheses before its qubits. */
+    export function gateParameters(
+        ctx: GateDefinitionArgumentsContext | OpaqueDefinitionArgumentsContext
+    ): TerminalNode[] {
+        let lists = ctx.paramsList();
+
+        return lists.length > 1 ? identifiers(lists[0]) : [];
+    }
+
+    export function gateQubits(ctx: GateDefinitionArgumentsContext | OpaqueDefinitionArgumentsContext): TerminalNode[] {
+        let lists = ctx.paramsList();
+
+        return lists.length > 0 ? identifiers(lists[lists.length - 1]) : [];
+    }
+
+    export function expressions(ctx: ParamsListBodyContext | ParamsListNumberContext): ExpContext[] {
+        if (ctx === undefined) {
+            return [];
+        }
+
+        let previous = ctx instanceof ParamsListBodyContext ? ctx.paramsListBody() : ctx.paramsListNumber();
+
+        return expressions(previous).concat(ctx.exp());
+    }
+
+    /** Identifiers referenced by an expression, which must be parameters of a gate. */
+    export function expressionIdentifiers(ctx: ExpContext): TerminalNode[] {
+        if (ctx.Id() !== undefined) {
+            return [ctx.Id()];
+        }
+
+        return ctx.exp().reduce((result, operand) => result.concat(expressionIdentifiers(operand)), []);
+    }
+
+    export function bodyExpressions(ctx: BodyContext): BodyExpressionContext[] {
+        let result: BodyExpressionContext[] = [];
+        let current = ctx;
+        while (current !== undefined) {
+            result.push(current.bodyExpression());
+            current = current.body();
+        }
+
+        return result;
+    }
+
+    export function qubitsAndRegisters(ctx: QubitAndQregListContext): QbitOrQregContext[] {
+        let result: QbitOrQregContext[] = [];
+        let current = ctx;
+        while (current !== undefined) {
+            result.push(current.qbitOrQreg());
+            current = current.qubitAndQregList();
+        }
+
+        return result;
+    }
+
+    export function qubits(ctx: QubitListContext): QubitContext[] {
+        let result: QubitContext[] = [];
+        let current = ctx;
+        while (current !== undefined) {
+            result.push(current.qubit());
+            current = current.qubitList();
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ANTLRInputStream, Token } from 'antlr4ts';
+import { ParseTree, TerminalNode } from 'antlr4ts/tree';
+import { QasmLexer } from '../../antlr/QasmLexer';
+
+export namespace TokenLocator {
+    /** Finds the token placed at the given line and character, both of them starting at 0. */
+    export function tokenAt(input: string, line: number, character: number): Token {
+        let lexer = new QasmLexer(new ANTLRInputStream(input));
+        lexer.removeErrorListeners();
+
+        let isAtPosition = (token: Token) =>
+            token.line - 1 === line &&
+            token.charPositionInLine <= character &&
+            character <= token.charPositionInLine + token.text.length;
+
+        return lexer.getAllTokens().find(isAtPosition) || null;
+    }
+
+    /** Finds the node of the parse tree built from the given token. */
+    export function nodeAt(tree: ParseTree, token: Token): TerminalNode {
+        if (tree instanceof TerminalNode) {
+            let symbol = tree.symbol;
+            let isSameToken = symbol.line === token.line && symbol.charPositionInLine === token.charPositionInLine;
+
+            return isSameToken ? tree : null;
+        }
+
+        for (let i = 0; i < tree.childCount; i++) {
+            let node = nodeAt(tree.getChild(i), token);
+            if (node !== null) {
+                return node;
+            }
+        }
+
+        return null;
+    }
+}
@@ -11,9 +11,9 @@
 
 import { ErrorMessages } from '../tools/errorMessages';
 import { Override } from 'antlr4ts/Decorators';
-import { RegisterSymbol, QASMSymbols } from '../symbolTable';
+import { RegisterSymbol, GateSymbol, QASMSymbols } from '../symbolTable';
 import { ErrorBuilder } from '../../../tools/errorBuilder';
-import { ContentPosition } from '../../../types';
+import { ContentPosition, ErrorCode } from '../../../types';
 import { ErrorListener } from '../../../tools/errorListener';
 import { SymbolTable } from '../../../compiler/types';
 import { Symbol } from '../../../compiler/symbols';
@@ -56,7 +56,7 @@ export class RegistersOfSameSizeRule implements SemanticRule {
         let classicalRegisterSize = (classicalRegisterSymbol as RegisterSymbol).size;
         if (classicalRegisterSize < quantumRegisterSize) {
             let message = ErrorMessages.classicalRegisterTooSmall(this.quantumRegister, this.classicalRegister);
-            let error = ErrorBuilder.error(message, this.position);
+            let error = ErrorBuilder.error(message, this.position, ErrorCode.RegisterTooSmall);
 
             errorListener.addError(error);
         }
@@ -71,6 +71,52 @@ export class RegistersOfSameSizeRule implements SemanticRule {
     }
 }
 
+/**
+ * A gate applied to registers is repeated for every qubit of them, so all the registers must have
+ * the same size and the single qubits cannot belong to any of the broadcast registers.
+ */
+export class RegistersBroadcastRule implements SemanticRule {
+    constructor(private qubits: QubitArgument[]) {}
+
+    @Override
+    applyWith(symbolTable: SymbolTable, errorListener: ErrorListener) {
+        let registers = this.qubits.filter(qubit => qubit.index === undefined);
+        let firstRegister: RegisterSymbol;
+
+        registers.forEach(argument => {
+            let symbol = symbolTable.lookup(argument.register);
+            if (!(symbol instanceof RegisterSymbol)) {
+                return;
+            }
+            if (firstRegister === undefined) {
+                firstRegister = symbol;
+                return;
+            }
+
+            if (symbol.size !== firstRegister.size) {
+                let message = ErrorMessages.registersOfDifferentSize(
+                    symbol.name,
+                    symbol.size,
+                    firstRegister.name,
+                    firstRegister.size
+                );
+                errorListener.addError(ErrorBuilder.error(message, argument.position));
+            }
+        });
+
+        this.qubits
+            .filter(qubit => qubit.index !== undefined)
+            .filter(qubit => registers.some(register => register.register === qubit.register))
+            .forEach(qubit => {
+                let message = ErrorMessages.qubitInBroadcastRegister(
+                    `${qubit.register}[${qubit.index}]`,
+                    qubit.register
+                );
+                errorListener.addError(ErrorBuilder.error(message, qubit.position));
+            });
+    }
+}
+
 export class ExistingSymbolValidationRule implements SemanticRule {
     constructor(private variableName: string, private position: ContentPosition) {}
 
@@ -81,7 +127,7 @@ export class ExistingSymbolValidationRule implements SemanticRule {
         }
 
         let message = ErrorMessages.notPreviouslyDefined(this.variableName);
-        let error = ErrorBuilder.error(message, this.position);
+        let error = ErrorBuilder.error(message, this.position, ErrorCode.UndefinedSymbol);
 
         errorListener.addError(error);
     }
@@ -186,7 +232,7 @@ export class ValidRegisterReferenceRule implements SemanticRule {
         let registerSize = (symbol as RegisterSymbol).size;
         if (this.reference >= registerSize) {
             let message = ErrorMessages.indexOutOfBound(this.variableName, registerSize);
-            let error = ErrorBuilder.error(message, this.position);
+            let error = ErrorBuilder.error(message, this.position, ErrorCode.IndexOutOfBound);
             errorListener.addError(error);
         }
     }
@@ -200,17 +246,105 @@ export class ValidRegisterReferenceRule implements SemanticRule {
     }
 }
 
+export class GateParametersCountRule implements SemanticRule {
+    constructor(private gate: string, private parametersCount: number, private position: ContentPosition) {}
+
+    @Override
+    applyWith(symbolTable: SymbolTable, errorListener: ErrorListener) {
+        let symbol = symbolTable.lookup(this.gate);
+        if (!(symbol instanceof GateSymbol)) {
+            return;
+        }
+
+        let expected = symbol.parameters.length;
+        if (this.parametersCount !== expected) {
+            let message = ErrorMessages.wrongNumberOfParameters(this.gate, expected, this.parametersCount);
+            let error = ErrorBuilder.error(message, this.position);
+            errorListener.addError(error);
+        }
+    }
+}
+
+export class GateQubitsCountRule implements SemanticRule {
+    constructor(private gate: string, private qubitsCount: number, private position: ContentPosition) {}
+
+    @Override
+    applyWith(symbolTable: SymbolTable, errorListener: ErrorListener) {
+        let symbol = symbolTable.lookup(this.gate);
+        if (!(symbol instanceof GateSymbol)) {
+            return;
+        }
+
+        let expected = symbol.qubits.length;
+        if (this.qubitsCount !== expected) {
+            let message = ErrorMessages.wrongNumberOfQubits(this.gate, expected, this.qubitsCount);
+            let error = ErrorBuilder.error(message, this.position);
+            errorListener.addError(error);
+        }
+    }
+}
+
+/** Qubit argument of a gate application, the index is not informed when the whole register is used. */
+export interface QubitArgument {
+    register: string;
+    index?: number;
+    position: ContentPosition;
+}
+
+export class DistinctQubitsRule implements SemanticRule {
+    constructor(private gate: string, private qubits: QubitArgument[]) {}
+
+    @Override
+    applyWith(_symbolTable: SymbolTable, errorListener: ErrorListener) {
+        this.qubits.forEach((qubit, i) => {
+            let isRepeated = this.qubits.slice(0, i).some(previous => this.isSameArgument(previous, qubit));
+            if (isRepeated) {
+                let message = ErrorMessages.repeatedQubit(this.gate, this.nameOf(qubit));
+                let error = ErrorBuilder.error(message, qubit.position);
+                errorListener.addError(error);
+            }
+        });
+    }
+
+    private isSameArgument(first: QubitArgument, second: QubitArgument): boolean {
+        return first.register === second.register && first.index === second.index;
+    }
+
+    private nameOf(qubit: QubitArgument): string {
+        return qubit.index === undefined ? qubit.register : `${qubit.register}[${qubit.index}]`;
+    }
+}
+
+export class DefinedParameterRule implements SemanticRule {
+    constructor(private parameter: string, private gateParameters: string[], private position: ContentPosition) {}
+
+    @Override
+    applyWith(_symbolTable: SymbolTable, errorListener: ErrorListener) {
+        if (this.gateParameters.indexOf(this.parameter) > -1) {
+            return;
+        }
+
+        let message = ErrorMessages.undefinedParameter(this.parameter);
+        let error = ErrorBuilder.error(message, this.position);
+        errorListener.addError(error);
+    }
+}
+
 export class PreviousDefinitionValidation {
     constructor(private symbolTable: SymbolTable, private errorListener: ErrorListener) {}
 
     apply(variableName: string, position: ContentPosition) {
-        if (this.symbolTable.lookup(variableName) === null) {
+        if (!this.isPreviouslyDefined(variableName)) {
             return;
         }
 
         let message = ErrorMessages.previousDefinitionOf(variableName);
-        let error = ErrorBuilder.warning(message, position);
+        let error = ErrorBuilder.warning(message, position, ErrorCode.PreviousDefinition);
 
         this.errorListener.addError(error);
     }
+
+    isPreviouslyDefined(variableName: string): boolean {
+        return this.symbolTable.lookup(variableName) !== null;
+    }
 }
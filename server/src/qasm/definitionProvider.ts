@@ -0,0 +1,77 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import Uri from 'vscode-uri';
+import { Location, Position, Range } from 'vscode-languageserver/lib/main';
+import { QASMParser } from './parser';
+import { QASMVersion } from './versionedParser';
+import { QasmLexer } from './antlr/QasmLexer';
+import { DeclaredSymbol } from './compiler/symbolTable';
+import { TokenLocator } from './compiler/tools/tokenLocator';
+import { ContentPosition, Parser } from '../types';
+
+export class QASMDefinitionProvider {
+    /** The server gives the parser reusing the validation of the open documents. */
+    constructor(private parser: Parser = new QASMParser()) {}
+
+    definitionFor(uri: string, input: string, position: Position): Location {
+        let symbol = this.symbolAt(input, position, uri);
+        if (symbol === null || symbol.declaration === undefined) {
+            return null;
+        }
+
+        let declarationUri = symbol.declaration.file ? Uri.file(symbol.declaration.file).toString() : uri;
+
+        return Location.create(declarationUri, this.rangeOf(symbol.declaration.position));
+    }
+
+    referencesFor(uri: string, input: string, position: Position, includeDeclaration: boolean): Location[] {
+        let symbol = this.symbolAt(input, position, uri);
+        if (symbol === null) {
+            return [];
+        }
+
+        let references = symbol.references.map(reference => Location.create(uri, this.rangeOf(reference)));
+        if (includeDeclaration && symbol.declaration !== undefined) {
+            let declaration = this.definitionFor(uri, input, position);
+            references.unshift(declaration);
+        }
+
+        return references;
+    }
+
+    /**
+     * Finds the symbol declared by the user code at the given position, with its references already resolved.
+     * The OpenQASM 3 documents are not supported.
+     */
+    symbolAt(input: string, position: Position, uri?: string): DeclaredSymbol {
+        if (QASMVersion.isQASM3(input)) {
+            return null;
+        }
+
+        let token = TokenLocator.tokenAt(input, position.line, position.character);
+        if (token === null || token.type !== QasmLexer.Id) {
+            return null;
+        }
+
+        let symbolTable = this.parser.parse(input, uri).symbolTable;
+        let symbol = symbolTable.lookup(token.text, token.line) || symbolTable.lookup(token.text);
+        if (symbol instanceof DeclaredSymbol) {
+            return symbol;
+        }
+
+        return null;
+    }
+
+    private rangeOf(position: ContentPosition): Range {
+        return Range.create(position.line, position.start, position.line, position.end);
+    }
+}
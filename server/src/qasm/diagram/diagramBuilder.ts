@@ -0,0 +1,268 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
+import {
+    QregDefinitionContext,
+    CregDefinitionContext,
+    GateDefinitionContext,
+    SentenceContext,
+    MeasureContext,
+    CustomArglistContext,
+    CxGateContext,
+    ResetGateContext,
+    BarrierGateContext,
+    QbitOrQregContext
+} from '../antlr/QasmParser';
+import { CircuitDiagram, DiagramOperation, OperationType } from './types';
+import { RegisterLayout, Condition } from '../simulator/types';
+import { QASMSyntacticParser } from '../compiler/qasmSyntacticParser';
+import { ListFlattener } from '../compiler/tools/listFlattener';
+import { ErrorListener } from '../../tools/errorListener';
+import { QASMVersion } from '../versionedParser';
+
+export namespace DiagramBuilder {
+    /**
+     * Builds the diagram of the circuit described by the code. The included gates are not expanded,
+     * so every gate application is drawn as a single box.
+     */
+    export function build(input: string): CircuitDiagram {
+        if (QASMVersion.isQASM3(input)) {
+            let diagram = new OperationsCollector().diagram();
+
+            return Object.assign(diagram, { errors: [QASMVersion.notSupportedInQASM3('The circuit diagram', input)] });
+        }
+
+        let errorListener = new ErrorListener();
+        let tree = QASMSyntacticParser.parseWithErrorListener(input, errorListener);
+
+        return Object.assign(fromTree(tree), { errors: errorListener.errors });
+    }
+
+    export function fromTree(tree: ParserRuleContext): CircuitDiagram {
+        let collector = new OperationsCollector();
+        tree.accept(collector);
+
+        return collector.diagram();
+    }
+}
+
+class OperationsCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    private quantumRegisters: RegisterLayout[] = [];
+    private classicalRegisters: RegisterLayout[] = [];
+    private operations: DiagramOperation[] = [];
+    private qubits = 0;
+    private clbits = 0;
+    private condition: Condition;
+
+    defaultResult() {}
+
+    diagram(): CircuitDiagram {
+        let layout = new ColumnsLayout(this.qubits, this.classicalRegisters);
+        this.operations.forEach(operation => layout.place(operation));
+
+        return {
+            quantumRegisters: this.quantumRegisters,
+            classicalRegisters: this.classicalRegisters,
+            qubits: this.qubits,
+            clbits: this.clbits,
+            columns: layout.columns(),
+            operations: this.operations,
+            errors: []
+        };
+    }
+
+    visitQregDefinition(ctx: QregDefinitionContext) {
+        let size = +ctx.dimension().text;
+        this.quantumRegisters.push({ name: ctx.Id().text, offset: this.qubits, size });
+        this.qubits += size;
+    }
+
+    visitCregDefinition(ctx: CregDefinitionContext) {
+        let size = +ctx.dimension().text;
+        this.classicalRegisters.push({ name: ctx.Id().text, offset: this.clbits, size });
+        this.clbits += size;
+    }
+
+    visitGateDefinition(_ctx: GateDefinitionContext) {
+        // the gates are drawn where they are applied
+    }
+
+    visitSentence(ctx: SentenceContext) {
+        if (ctx.conditional() === undefined) {
+            this.visitChildren(ctx);
+            return;
+        }
+
+        this.condition = {
+            register: ctx.conditional().Id().text,
+            value: +ctx.conditional().Int().text
+        };
+        ctx.expression().accept(this);
+        this.condition = undefined;
+    }
+
+    visitMeasure(ctx: MeasureContext) {
+        if (ctx.qubit() !== undefined && ctx.cbit() !== undefined) {
+            let qubit = this.indexOf(this.quantumRegisters, ctx.qubit().Id().text, +ctx.qubit()._position.text);
+            let clbit = this.indexOf(this.classicalRegisters, ctx.cbit().Id().text, +ctx.cbit()._position.text);
+            if (qubit !== undefined && clbit !== undefined) {
+                this.add(OperationType.Measure, 'measure', [], [qubit], clbit);
+            }
+            return;
+        }
+
+        let qubits = this.indexesOf(this.quantumRegisters, ctx._quantumRegister.text);
+        let clbits = this.indexesOf(this.classicalRegisters, ctx._classicalRegister.text);
+        qubits.slice(0, clbits.length).forEach((qubit, i) => {
+            this.add(OperationType.Measure, 'measure', [], [qubit], clbits[i]);
+        });
+    }
+
+    visitCustomArglist(ctx: CustomArglistContext) {
+        let parameters = ListFlattener.expressions(ctx.paramsListNumber()).map(expression => expression.text);
+        let applications = this.broadcast(ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()));
+
+        applications.forEach(qubits => this.add(OperationType.Gate, ctx._gate.text, parameters, qubits));
+    }
+
+    visitCxGate(ctx: CxGateContext) {
+        let applications = this.broadcast(ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()));
+
+        applications.forEach(qubits => this.add(OperationType.Gate, ctx.Cx().text, [], qubits));
+    }
+
+    visitResetGate(ctx: ResetGateContext) {
+        this.argumentQubits(ctx.qbitOrQreg()).forEach(qubit => this.add(OperationType.Reset, 'reset', [], [qubit]));
+    }
+
+    visitBarrierGate(ctx: BarrierGateContext) {
+        let qubits =
+            ctx.Id() !== undefined
+                ? this.indexesOf(this.quantumRegisters, ctx.Id().text)
+                : ListFlattener.qubits(ctx.qubitList()).map(qubit =>
+                      this.indexOf(this.quantumRegisters, qubit.Id().text, +qubit._position.text)
+                  );
+
+        if (qubits.length > 0 && qubits.every(qubit => qubit !== undefined)) {
+            this.add(OperationType.Barrier, 'barrier', [], qubits);
+        }
+    }
+
+    private add(type: OperationType, name: string, parameters: string[], qubits: number[], clbit?: number) {
+        let operation: DiagramOperation = { type, name, parameters, qubits, column: 0 };
+        if (clbit !== undefined) {
+            operation.clbit = clbit;
+        }
+        if (this.condition !== undefined) {
+            operation.condition = this.condition;
+        }
+
+        this.operations.push(operation);
+    }
+
+    /** Lists the qubits of every application of a gate, ignoring the ones using unknown qubits. */
+    private broadcast(gateArguments: QbitOrQregContext[]): number[][] {
+        let argumentsQubits = gateArguments.map(argument => this.argumentQubits(argument));
+        if (argumentsQubits.some(qubits => qubits.length === 0)) {
+            return [];
+        }
+
+        let applications = Math.max(...argumentsQubits.map(qubits => qubits.length));
+        let result: number[][] = [];
+        for (let i = 0; i < applications; i++) {
+            let qubits = argumentsQubits.map(
+                argumentQubits => (argumentQubits.length === 1 ? argumentQubits[0] : argumentQubits[i])
+            );
+            if (qubits.every(qubit => qubit !== undefined)) {
+                result.push(qubits);
+            }
+        }
+
+        return result;
+    }
+
+    private argumentQubits(ctx: QbitOrQregContext): number[] {
+        if (ctx.Int() === undefined) {
+            return this.indexesOf(this.quantumRegisters, ctx.Id().text);
+        }
+
+        let qubit = this.indexOf(this.quantumRegisters, ctx.Id().text, +ctx.Int().text);
+
+        return qubit !== undefined ? [qubit] : [];
+    }
+
+    private indexOf(registers: RegisterLayout[], register: string, position: number): number {
+        let layout = registers.find(candidate => candidate.name === register);
+        if (layout === undefined || position >= layout.size) {
+            return undefined;
+        }
+
+        return layout.offset + position;
+    }
+
+    private indexesOf(registers: RegisterLayout[], register: string): number[] {
+        let layout = registers.find(candidate => candidate.name === register);
+        let result: number[] = [];
+        for (let i = 0; layout !== undefined && i < layout.size; i++) {
+            result.push(layout.offset + i);
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Places every operation in the first column after the previous operations over the same wires.
+ * The wires crossed by the vertical lines of an operation are taken too, so nothing is drawn over them.
+ */
+class ColumnsLayout {
+    private nextColumns: number[];
+
+    constructor(private qubits: number, private classicalRegisters: RegisterLayout[]) {
+        let clbits = classicalRegisters.reduce((total, register) => total + register.size, 0);
+        this.nextColumns = new Array(qubits + clbits).fill(0);
+    }
+
+    place(operation: DiagramOperation) {
+        let wires = this.wiresOf(operation);
+        operation.column = Math.max(...wires.map(wire => this.nextColumns[wire]));
+        wires.forEach(wire => (this.nextColumns[wire] = operation.column + 1));
+    }
+
+    columns(): number {
+        return Math.max(0, ...this.nextColumns);
+    }
+
+    private wiresOf(operation: DiagramOperation): number[] {
+        let first = Math.min(...operation.qubits);
+        let last = Math.max(...operation.qubits);
+
+        if (operation.clbit !== undefined) {
+            last = this.qubits + operation.clbit;
+        }
+        if (operation.condition !== undefined) {
+            let register = this.classicalRegisters.find(layout => layout.name === operation.condition.register);
+            if (register !== undefined) {
+                last = Math.max(last, this.qubits + register.offset + register.size - 1);
+            }
+        }
+
+        let wires: number[] = [];
+        for (let wire = first; wire <= last; wire++) {
+            wires.push(wire);
+        }
+
+        return wires;
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserError } from '../../types';
+import { RegisterLayout, Condition } from '../simulator/types';
+
+/** Circuit prepared to be drawn, with one wire per qubit followed by one wire per classical bit. */
+export interface CircuitDiagram {
+    quantumRegisters: RegisterLayout[];
+    classicalRegisters: RegisterLayout[];
+    qubits: number;
+    clbits: number;
+    /** Number of columns needed to draw the operations without overlapping them. */
+    columns: number;
+    operations: DiagramOperation[];
+    errors: ParserError[];
+}
+
+export enum OperationType {
+    Gate = 'gate',
+    Measure = 'measure',
+    Barrier = 'barrier',
+    Reset = 'reset'
+}
+
+export interface DiagramOperation {
+    type: OperationType;
+    name: string;
+    /** Text of the parameter expressions, as they are written in the code. */
+    parameters: string[];
+    qubits: number[];
+    clbit?: number;
+    condition?: Condition;
+    column: number;
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ExportCircuit, ExportOperation, ExportOperationType, ExportWriter } from './types';
+import { ExportTools } from './exportTools';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+
+const JSON_INDENTATION = 2;
+const QUARTER_TURN = 0.5;
+const EIGHTH_TURN = 0.25;
+const QUBIT_DIMENSION = 2;
+
+/** Cirq gates are powers of the Pauli and controlled gates, with the rotations as half turns. */
+const CIRQ_GATES: { [gate: string]: (parameters: number[]) => object } = {
+    id: () => ({ cirq_type: 'IdentityGate', qid_shape: [QUBIT_DIMENSION] }),
+    x: () => power('XPowGate', 1),
+    y: () => power('YPowGate', 1),
+    z: () => power('ZPowGate', 1),
+    h: () => power('HPowGate', 1),
+    s: () => power('ZPowGate', QUARTER_TURN),
+    sdg: () => power('ZPowGate', -QUARTER_TURN),
+    t: () => power('ZPowGate', EIGHTH_TURN),
+    tdg: () => power('ZPowGate', -EIGHTH_TURN),
+    rx: ([theta]) => power('XPowGate', theta / Math.PI, -QUARTER_TURN),
+    ry: ([theta]) => power('YPowGate', theta / Math.PI, -QUARTER_TURN),
+    rz: ([phi]) => power('ZPowGate', phi / Math.PI, -QUARTER_TURN),
+    u1: ([lambda]) => power('ZPowGate', lambda / Math.PI),
+    cx: () => power('CXPowGate', 1),
+    CX: () => power('CXPowGate', 1),
+    cz: () => power('CZPowGate', 1),
+    cu1: ([lambda]) => power('CZPowGate', lambda / Math.PI),
+    swap: () => power('SwapPowGate', 1),
+    ccx: () => power('CCXPowGate', 1)
+};
+
+/**
+ * Writes the circuit with the JSON format of Cirq, which can be read with cirq.read_json.
+ * Every operation is placed in the first moment where its qubits are free.
+ */
+export class CirqWriter implements ExportWriter {
+    target = 'Cirq';
+    fileExtension = '.json';
+    nativeGates = Object.keys(CIRQ_GATES);
+
+    write(circuit: ExportCircuit, errorListener: ErrorListener): string {
+        let moments: object[][] = [];
+        let nextMoments: number[] = new Array(circuit.qubits).fill(0);
+
+        ExportTools.blocksOf(ExportTools.withRotations(circuit.operations)).forEach(block => {
+            if (block.condition !== undefined) {
+                let message = ErrorMessages.conditionCannotBeExported(this.target);
+                errorListener.addError(ErrorBuilder.error(message, block.conditionPosition));
+                return;
+            }
+
+            block.operations.forEach(operation => {
+                if (operation.type === ExportOperationType.Barrier) {
+                    let message = ErrorMessages.barrierNotExported(this.target);
+                    errorListener.addError(ErrorBuilder.warning(message, operation.position));
+                    return;
+                }
+
+                let moment = Math.max(...operation.qubits.map(qubit => nextMoments[qubit]));
+                operation.qubits.forEach(qubit => (nextMoments[qubit] = moment + 1));
+                moments[moment] = (moments[moment] || []).concat(this.operation(operation, circuit));
+            });
+        });
+
+        let json = {
+            cirq_type: 'Circuit',
+            moments: moments.map(operations => ({ cirq_type: 'Moment', operations }))
+        };
+
+        return JSON.stringify(json, null, JSON_INDENTATION) + '\n';
+    }
+
+    private operation(operation: ExportOperation, circuit: ExportCircuit): object {
+        return {
+            cirq_type: 'GateOperation',
+            gate: this.gate(operation, circuit),
+            qubits: operation.qubits.map(qubit => ({ cirq_type: 'LineQubit', x: qubit }))
+        };
+    }
+
+    private gate(operation: ExportOperation, circuit: ExportCircuit): object {
+        switch (operation.type) {
+            case ExportOperationType.Measure:
+                return {
+                    cirq_type: 'MeasurementGate',
+                    num_qubits: 1,
+                    key: ExportTools.bitName(circuit.classicalRegisters, operation.clbit),
+                    invert_mask: []
+                };
+            case ExportOperationType.Reset:
+                return { cirq_type: 'ResetChannel', dimension: QUBIT_DIMENSION };
+            default:
+                return CIRQ_GATES[operation.gate](operation.parameters);
+        }
+    }
+}
+
+function power(gate: string, exponent: number, globalShift = 0): object {
+    return { cirq_type: gate, exponent, global_shift: globalShift };
+}
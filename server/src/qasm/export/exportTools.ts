@@ -0,0 +1,83 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ExportCircuit, ExportOperation, ExportOperationType } from './types';
+import { RegisterLayout, Condition } from '../simulator/types';
+import { ContentPosition } from '../../types';
+
+/** Consecutive operations depending on the same condition, or without any condition. */
+export interface ConditionalBlock {
+    condition?: Condition;
+    conditionPosition?: ContentPosition;
+    operations: ExportOperation[];
+}
+
+export namespace ExportTools {
+    /** The operations of a conditional gate expanded into several gates are kept in the same block. */
+    export function blocksOf(operations: ExportOperation[]): ConditionalBlock[] {
+        let blocks: ConditionalBlock[] = [];
+
+        operations.forEach(operation => {
+            let last = blocks[blocks.length - 1];
+            if (last !== undefined && last.condition === operation.condition) {
+                last.operations.push(operation);
+                return;
+            }
+
+            blocks.push({
+                condition: operation.condition,
+                conditionPosition: operation.conditionPosition,
+                operations: [operation]
+            });
+        });
+
+        return blocks;
+    }
+
+    /** Checks if the condition can be translated as the check of a single bit. */
+    export function checksSingleBit(circuit: ExportCircuit, condition: Condition): boolean {
+        let register = circuit.classicalRegisters.find(layout => layout.name === condition.register);
+
+        return register !== undefined && register.size === 1 && (condition.value === 0 || condition.value === 1);
+    }
+
+    /**
+     * Replaces the built-in U gates with rotations around the Z and Y axes, which every target supports.
+     * The result only differs in a global phase.
+     */
+    export function withRotations(operations: ExportOperation[]): ExportOperation[] {
+        let result: ExportOperation[] = [];
+
+        operations.forEach(operation => {
+            if (operation.type !== ExportOperationType.Gate || operation.gate !== 'U') {
+                result.push(operation);
+                return;
+            }
+
+            let [theta, phi, lambda] = operation.parameters;
+            let rotation = (gate: string, angle: number) => Object.assign({}, operation, { gate, parameters: [angle] });
+            result.push(rotation('rz', lambda), rotation('ry', theta), rotation('rz', phi));
+        });
+
+        return result;
+    }
+
+    export function registerOf(registers: RegisterLayout[], index: number): RegisterLayout {
+        return registers.find(layout => index >= layout.offset && index < layout.offset + layout.size);
+    }
+
+    /** Name of a qubit or a classical bit, given its global index. */
+    export function bitName(registers: RegisterLayout[], index: number): string {
+        let register = registerOf(registers, index);
+
+        return `${register.name}[${index - register.offset}]`;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import Uri from 'vscode-uri';
+import { ExportOptions, ExportResult, ExportTarget, ExportWriter } from './types';
+import { OperationsBuilder } from './operationsBuilder';
+import { QuilWriter } from './quilWriter';
+import { CirqWriter } from './cirqWriter';
+import { QSharpWriter } from './qsharpWriter';
+import { QASMParser } from '../parser';
+import { QASMIncludeResolver } from '../libs/includeResolver';
+import { QASMVersion } from '../versionedParser';
+import { ErrorListener } from '../../tools/errorListener';
+import { ParseErrorLevel } from '../../types';
+
+const DEFAULT_CIRCUIT_NAME = 'Circuit';
+
+export namespace QASMExporter {
+    /**
+     * Translates the QASM code to the language of the target. The constructs that cannot be translated
+     * are reported as errors and left out of the exported code, which is not generated at all when the
+     * QASM code itself has errors.
+     */
+    export function run(
+        input: string,
+        options: ExportOptions,
+        includeResolver = new QASMIncludeResolver()
+    ): ExportResult {
+        let writer = writerFor(options.target);
+        if (QASMVersion.isQASM3(input)) {
+            let errors = [QASMVersion.notSupportedInQASM3('Export', input)];
+
+            return { content: null, fileExtension: writer.fileExtension, errors };
+        }
+
+        let parserResult = new QASMParser(includeResolver).parse(input, options.uri);
+        let errors = parserResult.errors.filter(error => error.level === ParseErrorLevel.ERROR);
+        if (errors.length > 0) {
+            return { content: null, fileExtension: writer.fileExtension, errors };
+        }
+
+        let errorListener = new ErrorListener();
+        let circuit = OperationsBuilder.build(
+            parserResult.ast,
+            circuitName(options.uri),
+            writer,
+            errorListener,
+            includeResolver.trackerFor(options.uri)
+        );
+        let content = writer.write(circuit, errorListener);
+
+        return { content, fileExtension: writer.fileExtension, errors: errorListener.errors };
+    }
+}
+
+function writerFor(target: ExportTarget): ExportWriter {
+    switch (target) {
+        case ExportTarget.Cirq:
+            return new CirqWriter();
+        case ExportTarget.QSharp:
+            return new QSharpWriter();
+        default:
+            return new QuilWriter();
+    }
+}
+
+/** The circuit is named after the file, so several exported circuits can be used together. */
+function circuitName(uri?: string): string {
+    let fileName = uri !== undefined ? path.basename(Uri.parse(uri).path, path.extname(Uri.parse(uri).path)) : '';
+    let name = fileName.replace(/[^a-zA-Z0-9_]/g, '');
+    if (name.length === 0 || /^[0-9]/.test(name)) {
+        return DEFAULT_CIRCUIT_NAME;
+    }
+
+    return name.charAt(0).toUpperCase() + name.substring(1);
+}
@@ -0,0 +1,367 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
+import {
+    IncludeLibraryContext,
+    QregDefinitionContext,
+    CregDefinitionContext,
+    GateDefinitionContext,
+    OpaqueDefinitionContext,
+    SentenceContext,
+    MeasureContext,
+    CustomArglistContext,
+    CxGateContext,
+    ResetGateContext,
+    BarrierGateContext,
+    BodyExpressionContext,
+    QbitOrQregContext,
+    ExpContext
+} from '../antlr/QasmParser';
+import { ExportCircuit, ExportOperation, ExportOperationType, GateSet } from './types';
+import { RegisterLayout, Condition } from '../simulator/types';
+import { QASMSyntacticParser } from '../compiler/qasmSyntacticParser';
+import { ExpressionEvaluator } from '../compiler/expressionEvaluator';
+import { ListFlattener } from '../compiler/tools/listFlattener';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { IncludeTracker } from '../libs/includeResolver';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { PositionAdapter } from '../../tools/positionAdapter';
+import { ContentPosition } from '../../types';
+
+const STANDARD_LIBRARY = 'qelib1.inc';
+
+export namespace OperationsBuilder {
+    /**
+     * Lists the operations of the circuit, expanding every gate without an equivalent in the target
+     * into the gates of its definition until only native gates, U and CX are left.
+     */
+    export function build(
+        tree: ParserRuleContext,
+        name: string,
+        gateSet: GateSet,
+        errorListener: ErrorListener,
+        includeTracker = new IncludeTracker()
+    ): ExportCircuit {
+        let collector = new OperationsCollector(gateSet, errorListener, includeTracker);
+        tree.accept(collector);
+
+        return collector.circuit(name);
+    }
+
+    /**
+     * Lists the operations of the definition of a gate applied to its own qubits, which are numbered in the
+     * order they are declared. The parameters of the gate have no value, so the operations have none either.
+     */
+    export function buildGate(
+        tree: ParserRuleContext,
+        gate: string,
+        gateSet: GateSet,
+        errorListener: ErrorListener,
+        includeTracker = new IncludeTracker()
+    ): ExportCircuit {
+        let collector = new OperationsCollector(gateSet, errorListener, includeTracker);
+        tree.accept(collector);
+
+        return collector.gateCircuit(gate);
+    }
+}
+
+interface GateDefinition {
+    parameters: string[];
+    qubits: string[];
+    body: BodyExpressionContext[];
+    standard: boolean;
+}
+
+class OperationsCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    private quantumRegisters: RegisterLayout[] = [];
+    private classicalRegisters: RegisterLayout[] = [];
+    private gates: Map<string, GateDefinition> = new Map();
+    private opaqueGates: Set<string> = new Set();
+    private operations: ExportOperation[] = [];
+    private qubits = 0;
+    private clbits = 0;
+    private condition: Condition;
+    private conditionPosition: ContentPosition;
+    private includingStandardLibrary = false;
+
+    constructor(private gateSet: GateSet, private errorListener: ErrorListener, private includes: IncludeTracker) {
+        super();
+    }
+
+    defaultResult() {}
+
+    circuit(name: string): ExportCircuit {
+        return {
+            name,
+            quantumRegisters: this.quantumRegisters,
+            classicalRegisters: this.classicalRegisters,
+            qubits: this.qubits,
+            clbits: this.clbits,
+            operations: this.operations
+        };
+    }
+
+    gateCircuit(gate: string): ExportCircuit {
+        let definition = this.gates.get(gate);
+        if (definition === undefined) {
+            return null;
+        }
+
+        let qubits = definition.qubits.map((_qubit, i) => i);
+        let position = { line: 0, start: 0, end: 0 };
+        this.quantumRegisters = [{ name: gate, offset: 0, size: qubits.length }];
+        this.classicalRegisters = [];
+        this.qubits = qubits.length;
+        this.clbits = 0;
+        this.operations = [];
+        this.expandDefinition(gate, definition, definition.parameters.map(() => NaN), qubits, position, []);
+
+        return this.circuit(gate);
+    }
+
+    visitIncludeLibrary(ctx: IncludeLibraryContext) {
+        // missing libraries and cycles are already reported by the semantic analysis
+        let libraryFile = this.includes.resolve(ctx.Library().text);
+        if (libraryFile === null || this.includes.isBeingIncluded(libraryFile)) {
+            return;
+        }
+
+        let includingStandardLibrary = this.includingStandardLibrary;
+        this.includingStandardLibrary = ctx.Library().text === STANDARD_LIBRARY;
+        this.includes.include(libraryFile, () => {
+            let tree = QASMSyntacticParser.parse(this.includes.contentOf(libraryFile));
+            tree.accept(this);
+        });
+        this.includingStandardLibrary = includingStandardLibrary;
+    }
+
+    visitQregDefinition(ctx: QregDefinitionContext) {
+        let size = +ctx.dimension().text;
+        this.quantumRegisters.push({ name: ctx.Id().text, offset: this.qubits, size });
+        this.qubits += size;
+    }
+
+    visitCregDefinition(ctx: CregDefinitionContext) {
+        let size = +ctx.dimension().text;
+        this.classicalRegisters.push({ name: ctx.Id().text, offset: this.clbits, size });
+        this.clbits += size;
+    }
+
+    visitGateDefinition(ctx: GateDefinitionContext) {
+        let gateArguments = ctx.gateDefinitionArguments();
+
+        this.gates.set(ctx.Id().text, {
+            parameters: ListFlattener.gateParameters(gateArguments).map(node => node.text),
+            qubits: ListFlattener.gateQubits(gateArguments).map(node => node.text),
+            body: gateArguments.body() ? ListFlattener.bodyExpressions(gateArguments.body()) : [],
+            standard: this.includingStandardLibrary
+        });
+    }
+
+    visitOpaqueDefinition(ctx: OpaqueDefinitionContext) {
+        this.opaqueGates.add(ctx.Id().text);
+    }
+
+    visitSentence(ctx: SentenceContext) {
+        if (ctx.conditional() === undefined) {
+            this.visitChildren(ctx);
+            return;
+        }
+
+        this.condition = {
+            register: ctx.conditional().Id().text,
+            value: +ctx.conditional().Int().text
+        };
+        this.conditionPosition = PositionAdapter.fromContext(ctx.conditional());
+        ctx.expression().accept(this);
+        this.condition = undefined;
+        this.conditionPosition = undefined;
+    }
+
+    visitMeasure(ctx: MeasureContext) {
+        let position = PositionAdapter.fromContext(ctx);
+        let qubits: number[];
+        let clbits: number[];
+
+        if (ctx.qubit() !== undefined && ctx.cbit() !== undefined) {
+            qubits = [this.indexOf(this.quantumRegisters, ctx.qubit().Id().text, +ctx.qubit()._position.text)];
+            clbits = [this.indexOf(this.classicalRegisters, ctx.cbit().Id().text, +ctx.cbit()._position.text)];
+        } else {
+            qubits = this.indexesOf(this.quantumRegisters, ctx._quantumRegister.text);
+            clbits = this.indexesOf(this.classicalRegisters, ctx._classicalRegister.text);
+        }
+
+        qubits.slice(0, clbits.length).forEach((qubit, i) => {
+            this.emit({
+                type: ExportOperationType.Measure,
+                parameters: [],
+                qubits: [qubit],
+                clbit: clbits[i],
+                position
+            });
+        });
+    }
+
+    visitCustomArglist(ctx: CustomArglistContext) {
+        let gate = ctx._gate.text;
+        let position = PositionAdapter.fromToken(ctx._gate);
+        let parameters = this.evaluate(ListFlattener.expressions(ctx.paramsListNumber()), new Map());
+
+        this.broadcast(ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList())).forEach(qubits =>
+            this.expand(gate, parameters, qubits, position, [])
+        );
+    }
+
+    visitCxGate(ctx: CxGateContext) {
+        let position = PositionAdapter.fromTerminalNode(ctx.Cx());
+
+        this.broadcast(ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList())).forEach(qubits =>
+            this.emitGate('CX', [], qubits, position)
+        );
+    }
+
+    visitResetGate(ctx: ResetGateContext) {
+        let position = PositionAdapter.fromContext(ctx);
+
+        this.argumentQubits(ctx.qbitOrQreg()).forEach(qubit =>
+            this.emit({ type: ExportOperationType.Reset, parameters: [], qubits: [qubit], position })
+        );
+    }
+
+    visitBarrierGate(ctx: BarrierGateContext) {
+        let qubits =
+            ctx.Id() !== undefined
+                ? this.indexesOf(this.quantumRegisters, ctx.Id().text)
+                : ListFlattener.qubits(ctx.qubitList()).map(qubit =>
+                      this.indexOf(this.quantumRegisters, qubit.Id().text, +qubit._position.text)
+                  );
+
+        this.emit({
+            type: ExportOperationType.Barrier,
+            parameters: [],
+            qubits,
+            position: PositionAdapter.fromContext(ctx)
+        });
+    }
+
+    private expand(gate: string, parameters: number[], qubits: number[], position: ContentPosition, stack: string[]) {
+        let definition = this.gates.get(gate);
+        let isNative = definition !== undefined && definition.standard && this.gateSet.nativeGates.indexOf(gate) > -1;
+        let isKeptOpaque = this.opaqueGates.has(gate) && this.gateSet.keepsOpaqueGates;
+        if (isNative || isKeptOpaque || this.gateSet.keepsAllGates) {
+            this.emitGate(gate, parameters, qubits, position);
+            return;
+        }
+        if (this.opaqueGates.has(gate)) {
+            let message = ErrorMessages.opaqueGateCannotBeExported(gate, this.gateSet.target);
+            this.errorListener.addError(ErrorBuilder.error(message, position));
+            return;
+        }
+        if (stack.indexOf(gate) > -1) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.recursiveGateDefinition(gate), position));
+            return;
+        }
+        if (definition === undefined) {
+            return;
+        }
+
+        this.expandDefinition(gate, definition, parameters, qubits, position, stack);
+    }
+
+    private expandDefinition(
+        gate: string,
+        definition: GateDefinition,
+        parameters: number[],
+        qubits: number[],
+        position: ContentPosition,
+        stack: string[]
+    ) {
+        let values: Map<string, number> = new Map();
+        definition.parameters.forEach((parameter, i) => values.set(parameter, parameters[i]));
+        let bindings: Map<string, number> = new Map();
+        definition.qubits.forEach((qubit, i) => bindings.set(qubit, qubits[i]));
+
+        definition.body.forEach(expression => {
+            let expressionQubits = ListFlattener.identifiers(expression.paramsList()).map(node =>
+                bindings.get(node.text)
+            );
+            let expressionParameters = this.evaluate(ListFlattener.expressions(expression.paramsListBody()), values);
+
+            if (expression.Cx()) {
+                this.emitGate('CX', [], expressionQubits, position);
+            } else if (expression.U()) {
+                this.emitGate('U', expressionParameters, expressionQubits, position);
+            } else {
+                let innerStack = stack.concat(gate);
+                this.expand(expression.Id().text, expressionParameters, expressionQubits, position, innerStack);
+            }
+        });
+    }
+
+    /** Lists the qubits of every application of a gate over registers of the same size. */
+    private broadcast(gateArguments: QbitOrQregContext[]): number[][] {
+        let argumentsQubits = gateArguments.map(argument => this.argumentQubits(argument));
+        let applications = Math.max(...argumentsQubits.map(qubits => qubits.length));
+
+        let result: number[][] = [];
+        for (let i = 0; i < applications; i++) {
+            result.push(argumentsQubits.map(qubits => (qubits.length === 1 ? qubits[0] : qubits[i])));
+        }
+
+        return result;
+    }
+
+    private argumentQubits(ctx: QbitOrQregContext): number[] {
+        if (ctx.Int() !== undefined) {
+            return [this.indexOf(this.quantumRegisters, ctx.Id().text, +ctx.Int().text)];
+        }
+
+        return this.indexesOf(this.quantumRegisters, ctx.Id().text);
+    }
+
+    private indexOf(registers: RegisterLayout[], register: string, position: number): number {
+        return registers.find(layout => layout.name === register).offset + position;
+    }
+
+    private indexesOf(registers: RegisterLayout[], register: string): number[] {
+        let layout = registers.find(candidate => candidate.name === register);
+        let result: number[] = [];
+        for (let i = 0; layout !== undefined && i < layout.size; i++) {
+            result.push(layout.offset + i);
+        }
+
+        return result;
+    }
+
+    private evaluate(expressions: ExpContext[], values: Map<string, number>): number[] {
+        let evaluator = new ExpressionEvaluator(values);
+
+        return expressions.map(expression => expression.accept(evaluator));
+    }
+
+    private emitGate(gate: string, parameters: number[], qubits: number[], position: ContentPosition) {
+        this.emit({ type: ExportOperationType.Gate, gate, parameters, qubits, position });
+    }
+
+    private emit(operation: ExportOperation) {
+        if (this.condition !== undefined) {
+            operation.condition = this.condition;
+            operation.conditionPosition = this.conditionPosition;
+        }
+
+        this.operations.push(operation);
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ExportCircuit, ExportOperation, ExportOperationType, ExportWriter } from './types';
+import { ExportTools } from './exportTools';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+
+const INDENTATION = '    ';
+const QSHARP_GATES: { [gate: string]: string } = {
+    id: 'I',
+    x: 'X',
+    y: 'Y',
+    z: 'Z',
+    h: 'H',
+    s: 'S',
+    sdg: 'Adjoint S',
+    t: 'T',
+    tdg: 'Adjoint T',
+    rx: 'Rx',
+    ry: 'Ry',
+    rz: 'Rz',
+    u1: 'R1',
+    cx: 'CNOT',
+    CX: 'CNOT',
+    cz: 'CZ',
+    swap: 'SWAP',
+    ccx: 'CCNOT'
+};
+
+/**
+ * Writes the circuit as a Q# operation which allocates the quantum registers and returns the classical ones.
+ */
+export class QSharpWriter implements ExportWriter {
+    target = 'Q#';
+    fileExtension = '.qs';
+    nativeGates = Object.keys(QSHARP_GATES);
+
+    write(circuit: ExportCircuit, errorListener: ErrorListener): string {
+        let body: string[] = circuit.classicalRegisters.map(
+            register => `mutable ${register.name} = new Result[${register.size}];`
+        );
+        let statements = this.statements(circuit, errorListener);
+
+        if (circuit.quantumRegisters.length > 0) {
+            statements = statements.concat(circuit.quantumRegisters.map(register => `ResetAll(${register.name});`));
+            body.push(`using (${this.allocation(circuit)}) {`, ...indent(statements), '}');
+        } else {
+            body.push(...statements);
+        }
+
+        let results = circuit.classicalRegisters.map(register => register.name);
+        if (results.length > 0) {
+            body.push('', `return ${tuple(results)};`);
+        }
+
+        let resultType = results.length > 0 ? tuple(results.map(() => 'Result[]')) : 'Unit';
+        let lines = [
+            'namespace Qasm {',
+            ...indent([
+                'open Microsoft.Quantum.Intrinsic;',
+                '',
+                `operation ${circuit.name}() : ${resultType} {`,
+                ...indent(body),
+                '}'
+            ]),
+            '}'
+        ];
+
+        return lines.join('\n') + '\n';
+    }
+
+    private allocation(circuit: ExportCircuit): string {
+        let names = circuit.quantumRegisters.map(register => register.name);
+        let arrays = circuit.quantumRegisters.map(register => `Qubit[${register.size}]`);
+
+        return `${tuple(names)} = ${tuple(arrays)}`;
+    }
+
+    private statements(circuit: ExportCircuit, errorListener: ErrorListener): string[] {
+        let statements: string[] = [];
+
+        ExportTools.blocksOf(ExportTools.withRotations(circuit.operations)).forEach(block => {
+            let blockStatements = block.operations
+                .map(operation => this.statement(operation, circuit, errorListener))
+                .filter(statement => statement !== null);
+            if (block.condition === undefined) {
+                statements.push(...blockStatements);
+                return;
+            }
+
+            if (!ExportTools.checksSingleBit(circuit, block.condition)) {
+                let message = ErrorMessages.registerConditionCannotBeExported(block.condition.register, this.target);
+                errorListener.addError(ErrorBuilder.error(message, block.conditionPosition));
+                return;
+            }
+
+            let result = block.condition.value === 1 ? 'One' : 'Zero';
+            statements.push(`if (${block.condition.register}[0] == ${result}) {`, ...indent(blockStatements), '}');
+        });
+
+        return statements;
+    }
+
+    private statement(operation: ExportOperation, circuit: ExportCircuit, errorListener: ErrorListener): string {
+        let qubits = operation.qubits.map(qubit => ExportTools.bitName(circuit.quantumRegisters, qubit));
+
+        switch (operation.type) {
+            case ExportOperationType.Measure:
+                return this.measurement(operation, circuit, qubits[0]);
+            case ExportOperationType.Reset:
+                return `Reset(${qubits[0]});`;
+            case ExportOperationType.Barrier:
+                errorListener.addError(
+                    ErrorBuilder.warning(ErrorMessages.barrierNotExported(this.target), operation.position)
+                );
+                return null;
+            default:
+                return this.gate(operation, qubits);
+        }
+    }
+
+    private measurement(operation: ExportOperation, circuit: ExportCircuit, qubit: string): string {
+        let register = ExportTools.registerOf(circuit.classicalRegisters, operation.clbit);
+
+        return `set ${register.name} w/= ${operation.clbit - register.offset} <- M(${qubit});`;
+    }
+
+    private gate(operation: ExportOperation, qubits: string[]): string {
+        let gateArguments = operation.parameters.map(parameter => double(parameter)).concat(qubits);
+
+        return `${QSHARP_GATES[operation.gate]}(${gateArguments.join(', ')});`;
+    }
+}
+
+function indent(lines: string[]): string[] {
+    return lines.map(line => (line.length > 0 ? INDENTATION + line : line));
+}
+
+function tuple(items: string[]): string {
+    return items.length === 1 ? items[0] : `(${items.join(', ')})`;
+}
+
+/** Q# does not convert integers to doubles implicitly. */
+function double(value: number): string {
+    return Number.isInteger(value) ? `${value}.0` : `${value}`;
+}
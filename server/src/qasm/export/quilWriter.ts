@@ -0,0 +1,100 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ExportCircuit, ExportOperation, ExportOperationType, ExportWriter } from './types';
+import { ExportTools } from './exportTools';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+
+const QUIL_GATES: { [gate: string]: string } = {
+    id: 'I',
+    x: 'X',
+    y: 'Y',
+    z: 'Z',
+    h: 'H',
+    s: 'S',
+    sdg: 'DAGGER S',
+    t: 'T',
+    tdg: 'DAGGER T',
+    rx: 'RX',
+    ry: 'RY',
+    rz: 'RZ',
+    u1: 'PHASE',
+    cx: 'CNOT',
+    CX: 'CNOT',
+    cz: 'CZ',
+    cu1: 'CPHASE',
+    swap: 'SWAP',
+    ccx: 'CCNOT'
+};
+
+/** Writes the circuit as a Quil program, using the global index of every qubit. */
+export class QuilWriter implements ExportWriter {
+    target = 'Quil';
+    fileExtension = '.quil';
+    nativeGates = Object.keys(QUIL_GATES);
+
+    write(circuit: ExportCircuit, errorListener: ErrorListener): string {
+        let lines = circuit.classicalRegisters.map(register => `DECLARE ${register.name} BIT[${register.size}]`);
+        if (lines.length > 0) {
+            lines.push('');
+        }
+
+        let labels = 0;
+        ExportTools.blocksOf(ExportTools.withRotations(circuit.operations)).forEach(block => {
+            let instructions = block.operations.map(operation => this.instruction(operation, circuit, errorListener));
+            if (block.condition === undefined) {
+                lines.push(...instructions.filter(instruction => instruction !== null));
+                return;
+            }
+
+            if (!ExportTools.checksSingleBit(circuit, block.condition)) {
+                let message = ErrorMessages.registerConditionCannotBeExported(block.condition.register, this.target);
+                errorListener.addError(ErrorBuilder.error(message, block.conditionPosition));
+                return;
+            }
+
+            labels++;
+            let jump = block.condition.value === 1 ? 'JUMP-UNLESS' : 'JUMP-WHEN';
+            lines.push(`${jump} @skip${labels} ${block.condition.register}[0]`);
+            lines.push(...instructions.filter(instruction => instruction !== null));
+            lines.push(`LABEL @skip${labels}`);
+        });
+
+        return lines.join('\n') + '\n';
+    }
+
+    private instruction(operation: ExportOperation, circuit: ExportCircuit, errorListener: ErrorListener): string {
+        switch (operation.type) {
+            case ExportOperationType.Measure:
+                return `MEASURE ${operation.qubits[0]} ${ExportTools.bitName(
+                    circuit.classicalRegisters,
+                    operation.clbit
+                )}`;
+            case ExportOperationType.Reset:
+                return `RESET ${operation.qubits[0]}`;
+            case ExportOperationType.Barrier:
+                errorListener.addError(
+                    ErrorBuilder.warning(ErrorMessages.barrierNotExported(this.target), operation.position)
+                );
+                return null;
+            default:
+                return this.gate(operation);
+        }
+    }
+
+    private gate(operation: ExportOperation): string {
+        let parameters = operation.parameters.length > 0 ? `(${operation.parameters.join(', ')})` : '';
+
+        return `${QUIL_GATES[operation.gate]}${parameters} ${operation.qubits.join(' ')}`;
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ContentPosition, ParserError } from '../../types';
+import { RegisterLayout, Condition } from '../simulator/types';
+import { ErrorListener } from '../../tools/errorListener';
+
+export enum ExportTarget {
+    Quil = 'quil',
+    Cirq = 'cirq',
+    QSharp = 'qsharp'
+}
+
+/** Gate applications using only the gates supported by the target, over global qubit indexes. */
+export interface ExportCircuit {
+    name: string;
+    quantumRegisters: RegisterLayout[];
+    classicalRegisters: RegisterLayout[];
+    qubits: number;
+    clbits: number;
+    operations: ExportOperation[];
+}
+
+export enum ExportOperationType {
+    Gate = 'gate',
+    Measure = 'measure',
+    Reset = 'reset',
+    Barrier = 'barrier'
+}
+
+export interface ExportOperation {
+    type: ExportOperationType;
+    /** Name of the gate, U and CX for the built-in ones. */
+    gate?: string;
+    parameters: number[];
+    qubits: number[];
+    clbit?: number;
+    condition?: Condition;
+    position: ContentPosition;
+    conditionPosition?: ContentPosition;
+}
+
+/** Gates kept by the operations builder, the rest are expanded into the gates of their definitions. */
+export interface GateSet {
+    /** Name of the target shown in the messages. */
+    target: string;
+    /** Gates of qelib1.inc with an equivalent in the target, the rest are expanded. */
+    nativeGates: string[];
+    /** Keeps every gate as it is applied, without expanding the ones defined in the code. */
+    keepsAllGates?: boolean;
+    /** Keeps the opaque gates instead of reporting them, since they have no definition to expand. */
+    keepsOpaqueGates?: boolean;
+}
+
+export interface ExportWriter extends GateSet {
+    fileExtension: string;
+
+    write(circuit: ExportCircuit, errorListener: ErrorListener): string;
+}
+
+export interface ExportOptions {
+    target: ExportTarget;
+    /** Document being exported, used to find the files it includes and to name the circuit. */
+    uri?: string;
+}
+
+export interface ExportResult {
+    /** The exported code, or null when the QASM code has errors. */
+    content: string;
+    fileExtension: string;
+    errors: ParserError[];
+}
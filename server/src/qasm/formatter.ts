@@ -0,0 +1,362 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Token } from 'antlr4ts';
+import { AbstractParseTreeVisitor, ParseTree, TerminalNode } from 'antlr4ts/tree';
+import { FormattingOptions, Range, TextEdit } from 'vscode-languageserver/lib/main';
+import { QasmParserVisitor } from './antlr/QasmParserVisitor';
+import { HeadersContext, SentenceContext } from './antlr/QasmParser';
+import { QasmLexer } from './antlr/QasmLexer';
+import { QASMSyntacticParser } from './compiler/qasmSyntacticParser';
+import { QASMVersion } from './versionedParser';
+import { ListFlattener } from './compiler/tools/listFlattener';
+import { ErrorListener } from '../tools/errorListener';
+import { FormatSettings } from './settings';
+
+const OPERATORS = [QasmLexer.Sum, QasmLexer.Subs, QasmLexer.Mult, QasmLexer.Div, QasmLexer.Pow];
+const TOKENS_WITHOUT_PREVIOUS_SPACE = [
+    QasmLexer.Semi,
+    QasmLexer.Comma,
+    QasmLexer.RightParen,
+    QasmLexer.LeftBrace,
+    QasmLexer.RightBrace
+];
+const TOKENS_WITHOUT_NEXT_SPACE = [QasmLexer.LeftParen, QasmLexer.LeftBrace];
+
+/**
+ * Rewrites the code with one statement per line, indenting the body of the gates and normalizing
+ * the spaces between tokens. The comments are kept before or after the statements they belong to.
+ */
+export class QASMFormatter {
+    format(input: string, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+        let items = this.itemsFor(input);
+        if (items === null || items.length === 0) {
+            return [];
+        }
+
+        let output = this.render(items, options, settings);
+        if (output === input || !this.keepsContent(input, output)) {
+            return [];
+        }
+
+        let lines = input.split(/\r?\n/);
+        let lastLine = lines.length - 1;
+
+        return [TextEdit.replace(Range.create(0, 0, lastLine, lines[lastLine].length), output)];
+    }
+
+    /** Formats the whole statements touched by the range, so the result is always valid code. */
+    formatRange(input: string, range: Range, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+        let items = this.itemsFor(input);
+        if (items === null) {
+            return [];
+        }
+
+        let selectedStatements = this.statementsWithin(items, range);
+        let selectedItems = items.filter(item => selectedStatements.indexOf(item.statement) > -1);
+        if (selectedItems.length === 0) {
+            return [];
+        }
+
+        let firstLine = selectedItems[0].firstLine;
+        let lastLine = selectedItems[selectedItems.length - 1].lastLine;
+        let lines = input.split(/\r?\n/);
+        let replacedRange =
+            lastLine + 1 < lines.length
+                ? Range.create(firstLine, 0, lastLine + 1, 0)
+                : Range.create(firstLine, 0, lastLine, lines[lastLine].length);
+
+        let output = this.render(selectedItems, options, settings);
+        if (!this.keepsContent(lines.slice(firstLine, lastLine + 1).join('\n'), output)) {
+            return [];
+        }
+
+        return [TextEdit.replace(replacedRange, output)];
+    }
+
+    /**
+     * Lines of the formatted code, or null when the code has syntax errors and cannot be formatted safely.
+     * Only the OpenQASM 2.0 grammar is formatted, the OpenQASM 3 documents are left as they are.
+     */
+    private itemsFor(input: string): OutputItem[] {
+        if (QASMVersion.isQASM3(input)) {
+            return null;
+        }
+
+        let errorListener = new ErrorListener();
+        let tree = QASMSyntacticParser.parseWithErrorListener(input, errorListener);
+        if (errorListener.errors.length > 0) {
+            return null;
+        }
+
+        let collector = new LinesCollector();
+        tree.accept(collector);
+
+        return this.attachComments(collector.lines, this.commentsOf(input));
+    }
+
+    private commentsOf(input: string): Comment[] {
+        let comments: Comment[] = [];
+        input.split(/\r?\n/).forEach((line, i) => {
+            let column = line.indexOf('//');
+            if (column > -1) {
+                comments.push({ line: i, column, text: line.substring(column).trim() });
+            }
+        });
+
+        return comments;
+    }
+
+    private attachComments(lines: CodeLine[], comments: Comment[]): OutputItem[] {
+        let leading: Map<CodeLine, Comment[]> = new Map();
+        let trailing: Map<CodeLine, Comment> = new Map();
+        let remaining: Comment[] = [];
+
+        comments.forEach(comment => {
+            // the last statement ending on the line of the comment, which is written next to it
+            let owner = lines.filter(line => isTrailing(comment, line)).pop();
+            if (owner !== undefined) {
+                trailing.set(owner, comment);
+                return;
+            }
+
+            owner = lines.find(line => isBefore(comment, line.tokens[line.tokens.length - 1]));
+            if (owner === undefined) {
+                remaining.push(comment);
+                return;
+            }
+
+            leading.set(owner, (leading.get(owner) || []).concat(comment));
+        });
+
+        let items: OutputItem[] = [];
+        lines.forEach(line => {
+            (leading.get(line) || []).forEach(comment => items.push(commentItem(comment, line.statement, line.depth)));
+
+            let trailingComment = trailing.get(line);
+            items.push({
+                statement: line.statement,
+                depth: line.depth,
+                tokens: line.tokens,
+                text: trailingComment ? trailingComment.text : '',
+                firstLine: line.tokens[0].line - 1,
+                lastLine: line.tokens[line.tokens.length - 1].line - 1
+            });
+        });
+
+        let lastStatement = lines.length > 0 ? lines[lines.length - 1].statement : 0;
+        remaining.forEach(comment => items.push(commentItem(comment, lastStatement, 0)));
+
+        return items;
+    }
+
+    /** Statements touching the lines of the range, including the ones sharing a line with them. */
+    private statementsWithin(items: OutputItem[], range: Range): number[] {
+        let statements: number[] = [];
+        let firstLine = range.start.line;
+        let lastLine = range.end.line;
+        let found = true;
+
+        while (found) {
+            found = false;
+            items.forEach(item => {
+                let touchesRange = item.firstLine <= lastLine && item.lastLine >= firstLine;
+                if (touchesRange && statements.indexOf(item.statement) === -1) {
+                    statements.push(item.statement);
+                    found = true;
+                }
+            });
+
+            items.filter(item => statements.indexOf(item.statement) > -1).forEach(item => {
+                firstLine = Math.min(firstLine, item.firstLine);
+                lastLine = Math.max(lastLine, item.lastLine);
+            });
+        }
+
+        return statements;
+    }
+
+    private render(items: OutputItem[], options: FormattingOptions, settings: FormatSettings): string {
+        let indentation = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+        let output: string[] = [];
+
+        items.forEach((item, i) => {
+            if (i > 0) {
+                let blankLines = Math.min(item.firstLine - items[i - 1].lastLine - 1, settings.maxBlankLines);
+                for (let j = 0; j < blankLines; j++) {
+                    output.push('');
+                }
+            }
+
+            let code = renderTokens(item.tokens, settings);
+            let text = code && item.text ? `${code} ${item.text}` : code || item.text;
+            output.push(indentation.repeat(item.depth) + text);
+        });
+
+        return output.join('\n') + '\n';
+    }
+
+    /** Checks that formatting only changed spaces, so no code is lost if something unexpected is found. */
+    private keepsContent(input: string, output: string): boolean {
+        let content = (text: string) => text.replace(/"/g, '').replace(/\s/g, '');
+
+        return content(input) === content(output);
+    }
+}
+
+interface CodeLine {
+    statement: number;
+    depth: number;
+    tokens: Token[];
+}
+
+interface Comment {
+    line: number;
+    column: number;
+    text: string;
+}
+
+interface OutputItem {
+    statement: number;
+    depth: number;
+    tokens: Token[];
+    text: string;
+    firstLine: number;
+    lastLine: number;
+}
+
+class LinesCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    lines: CodeLine[] = [];
+    private statement = 0;
+
+    defaultResult() {}
+
+    visitHeaders(ctx: HeadersContext) {
+        if (ctx.QasmDescriptor() !== undefined) {
+            this.addStatement([{ statement: 0, depth: 0, tokens: [ctx.QasmDescriptor().symbol] }]);
+        }
+        if (ctx.includeLibrary() !== undefined) {
+            this.addStatement([{ statement: 0, depth: 0, tokens: terminalsOf(ctx.includeLibrary()) }]);
+        }
+    }
+
+    visitSentence(ctx: SentenceContext) {
+        let tokens = terminalsOf(ctx).filter(token => token.type !== QasmLexer.EOF);
+        if (tokens.length === 0) {
+            return;
+        }
+
+        let gate = ctx.definition() !== undefined ? ctx.definition().gateDefinition() : undefined;
+        if (gate === undefined) {
+            this.addStatement([{ statement: 0, depth: 0, tokens }]);
+            return;
+        }
+
+        let bodyStart = tokens.findIndex(token => token.type === QasmLexer.LeftCurlyBrace);
+        let body = gate.gateDefinitionArguments().body();
+        let bodyExpressions = body !== undefined ? ListFlattener.bodyExpressions(body) : [];
+        let bodyLines = bodyExpressions.map(expression => {
+            return { statement: 0, depth: 1, tokens: terminalsOf(expression) };
+        });
+
+        this.addStatement([
+            { statement: 0, depth: 0, tokens: tokens.slice(0, bodyStart + 1) },
+            ...bodyLines,
+            { statement: 0, depth: 0, tokens: [tokens[tokens.length - 1]] }
+        ]);
+    }
+
+    private addStatement(lines: CodeLine[]) {
+        this.statement++;
+        lines.forEach(line => this.lines.push({ statement: this.statement, depth: line.depth, tokens: line.tokens }));
+    }
+}
+
+function terminalsOf(tree: ParseTree): Token[] {
+    if (tree instanceof TerminalNode) {
+        return [tree.symbol];
+    }
+
+    let tokens: Token[] = [];
+    for (let i = 0; i < tree.childCount; i++) {
+        tokens.push(...terminalsOf(tree.getChild(i)));
+    }
+
+    return tokens;
+}
+
+function renderTokens(tokens: Token[], settings: FormatSettings): string {
+    return tokens.reduce((text, token, i) => {
+        let separator = i > 0 ? separatorBefore(tokens, i, settings) : '';
+        let tokenText = token.type === QasmLexer.Library ? `"${token.text}"` : token.text;
+
+        return text + separator + tokenText;
+    }, '');
+}
+
+function separatorBefore(tokens: Token[], i: number, settings: FormatSettings): string {
+    let previous = tokens[i - 1];
+    let next = tokens[i];
+    let operatorSpace = settings.spaceAroundOperators ? ' ' : '';
+
+    if (
+        TOKENS_WITHOUT_PREVIOUS_SPACE.indexOf(next.type) > -1 ||
+        TOKENS_WITHOUT_NEXT_SPACE.indexOf(previous.type) > -1
+    ) {
+        return '';
+    }
+    if (previous.type === QasmLexer.Comma) {
+        return settings.spaceAfterComma ? ' ' : '';
+    }
+    if (OPERATORS.indexOf(previous.type) > -1) {
+        return isUnaryOperator(tokens, i - 1) ? '' : operatorSpace;
+    }
+    if (OPERATORS.indexOf(next.type) > -1 || previous.type === QasmLexer.Equals || next.type === QasmLexer.Equals) {
+        return operatorSpace;
+    }
+    if (next.type === QasmLexer.LeftParen) {
+        return previous.type === QasmLexer.If ? ' ' : '';
+    }
+
+    return ' ';
+}
+
+function isUnaryOperator(tokens: Token[], i: number): boolean {
+    if (tokens[i].type !== QasmLexer.Subs) {
+        return false;
+    }
+
+    let previous = tokens[i - 1];
+
+    return (
+        previous.type === QasmLexer.LeftParen ||
+        previous.type === QasmLexer.Comma ||
+        OPERATORS.indexOf(previous.type) > -1
+    );
+}
+
+function isTrailing(comment: Comment, line: CodeLine): boolean {
+    let lastToken = line.tokens[line.tokens.length - 1];
+
+    return (
+        lastToken.line - 1 === comment.line && lastToken.charPositionInLine + lastToken.text.length <= comment.column
+    );
+}
+
+function isBefore(comment: Comment, token: Token): boolean {
+    let tokenLine = token.line - 1;
+
+    return comment.line < tokenLine || (comment.line === tokenLine && comment.column < token.charPositionInLine);
+}
+
+function commentItem(comment: Comment, statement: number, depth: number): OutputItem {
+    return { statement, depth, tokens: [], text: comment.text, firstLine: comment.line, lastLine: comment.line };
+}
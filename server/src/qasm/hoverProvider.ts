@@ -0,0 +1,136 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext, Token } from 'antlr4ts';
+import { Hover, MarkedString, Position } from 'vscode-languageserver/lib/main';
+import { Parser, SuggestionSymbol } from '../types';
+import { QASMSuggester } from './suggester';
+import { QasmLexer } from './antlr/QasmLexer';
+import { RegisterSymbol, GateSymbol, ParameterSymbol, QASMSymbols } from './compiler/symbolTable';
+import { ExpressionEvaluator } from './compiler/expressionEvaluator';
+import { ExpContext, ParamsListNumberContext, UnaryOpContext } from './antlr/QasmParser';
+import { TokenLocator } from './compiler/tools/tokenLocator';
+import { Symbol } from '../compiler/symbols';
+import { SymbolTable } from '../compiler/types';
+import { QASMParser } from './parser';
+import { QASMVersion } from './versionedParser';
+
+const QASM_LANGUAGE = 'qasm-lang';
+
+export class QASMHoverProvider {
+    private builtins: SuggestionSymbol[] = new QASMSuggester().availableSymbols();
+
+    /** The server gives the parser reusing the validation of the open documents. */
+    constructor(private parser: Parser = new QASMParser()) {}
+
+    hoverFor(input: string, position: Position, uri?: string): Hover {
+        if (QASMVersion.isQASM3(input)) {
+            return null;
+        }
+
+        let token = TokenLocator.tokenAt(input, position.line, position.character);
+        if (token === null) {
+            return null;
+        }
+
+        let result = this.parser.parse(input, uri);
+        let tokenContents =
+            token.type === QasmLexer.Id ? this.symbolContents(result.symbolTable, token) : this.builtinContents(token);
+        let valueContents = this.valueContents(result.ast, token);
+        if (tokenContents === null && valueContents === null) {
+            return null;
+        }
+
+        let contents = (tokenContents || []).concat(valueContents || []);
+
+        return {
+            contents,
+            range: {
+                start: { line: token.line - 1, character: token.charPositionInLine },
+                end: { line: token.line - 1, character: token.charPositionInLine + token.text.length }
+            }
+        };
+    }
+
+    private symbolContents(symbolTable: SymbolTable, token: Token): MarkedString[] {
+        let symbol = symbolTable.lookup(token.text, token.line) || symbolTable.lookup(token.text);
+        if (symbol instanceof RegisterSymbol) {
+            return this.registerContents(symbol);
+        }
+        if (symbol instanceof GateSymbol) {
+            return this.gateContents(symbol);
+        }
+        if (symbol instanceof ParameterSymbol) {
+            return [{ language: QASM_LANGUAGE, value: symbol.name }, `Parameter of gate ${symbol.gate}`];
+        }
+
+        return null;
+    }
+
+    /** Value of the parameter expression of a gate application where the token is placed. */
+    private valueContents(tree: ParserRuleContext, token: Token): MarkedString[] {
+        let node = TokenLocator.nodeAt(tree, token);
+        if (node === null) {
+            return null;
+        }
+
+        let expression: ExpContext = null;
+        let context = node.parent;
+        while (context instanceof ExpContext || context instanceof UnaryOpContext) {
+            expression = context instanceof ExpContext ? context : expression;
+            context = context.parent;
+        }
+        if (expression === null || !(context instanceof ParamsListNumberContext)) {
+            return null;
+        }
+
+        let value = expression.accept(new ExpressionEvaluator());
+        if (isNaN(value)) {
+            return null;
+        }
+
+        return [`\`${expression.text}\` evaluates to ${value}`];
+    }
+
+    private registerContents(register: RegisterSymbol): MarkedString[] {
+        let isQuantum = this.isTypeOf(register, QASMSymbols.Qreg);
+        let declaration = `${isQuantum ? 'qreg' : 'creg'} ${register.name}[${register.size}]`;
+        let description = `${isQuantum ? 'Quantum' : 'Classical'} register of ${register.size} ${
+            isQuantum ? 'qubits' : 'bits'
+        }`;
+
+        return [{ language: QASM_LANGUAGE, value: declaration }, description];
+    }
+
+    private gateContents(gate: GateSymbol): MarkedString[] {
+        let keyword = this.isTypeOf(gate, QASMSymbols.Opaque) ? 'opaque' : 'gate';
+        let contents: MarkedString[] = [{ language: QASM_LANGUAGE, value: `${keyword} ${gate.signature()}` }];
+        if (gate.documentation) {
+            contents.push(gate.documentation);
+        }
+
+        return contents;
+    }
+
+    private builtinContents(token: Token): MarkedString[] {
+        let tokenType = QasmLexer.VOCABULARY.getSymbolicName(token.type);
+        let builtin = this.builtins.find(symbol => symbol.type === tokenType);
+        if (builtin === undefined) {
+            return null;
+        }
+
+        return [{ language: QASM_LANGUAGE, value: builtin.detail }, builtin.documentation];
+    }
+
+    private isTypeOf(symbol: Symbol, type: QASMSymbols): boolean {
+        return symbol.type !== null && symbol.type.getName() === type;
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import fs = require('fs');
+import Uri from 'vscode-uri';
+import { QASMLibraries } from './libraries';
+
+/**
+ * Finds the files included by the QASM code. A library is searched next to the file including it,
+ * then in the configured search paths and finally between the libraries bundled with the extension.
+ */
+export class QASMIncludeResolver {
+    searchPaths: string[] = [];
+
+    /** The content of the open documents is used instead of the saved one, so unsaved changes are considered. */
+    constructor(private openDocumentContent: (file: string) => string = () => undefined) {}
+
+    resolve(library: string, includingFile?: string): string {
+        let directories = includingFile ? [path.dirname(includingFile)] : [];
+        let candidates = directories.concat(this.searchPaths).map(directory => path.resolve(directory, library));
+
+        let found = candidates.find(file => this.exists(file));
+        if (found !== undefined) {
+            return found;
+        }
+
+        return QASMLibraries.exists(library) ? QASMLibraries.pathOf(library) : null;
+    }
+
+    contentOf(file: string): string {
+        let content = this.openDocumentContent(file);
+
+        return content !== undefined ? content : fs.readFileSync(file, 'utf8');
+    }
+
+    isOpen(file: string): boolean {
+        return this.openDocumentContent(file) !== undefined;
+    }
+
+    /** Creates the tracker used to follow the includes of a document, identified by its uri if it is saved. */
+    trackerFor(uri?: string): IncludeTracker {
+        let documentFile = uri !== undefined && Uri.parse(uri).scheme === 'file' ? Uri.parse(uri).fsPath : undefined;
+
+        return new IncludeTracker(this, documentFile);
+    }
+
+    private exists(file: string): boolean {
+        if (this.isOpen(file)) {
+            return true;
+        }
+
+        try {
+            return fs.statSync(file).isFile();
+        } catch (error) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Follows the chain of includes while a document is analyzed, so nested includes are resolved
+ * relative to the file including them and cycles can be detected.
+ */
+export class IncludeTracker {
+    /** Every file included directly or indirectly by the document. */
+    files: string[] = [];
+    private stack: string[] = [];
+
+    constructor(private resolver: QASMIncludeResolver = new QASMIncludeResolver(), private documentFile?: string) {}
+
+    resolve(library: string): string {
+        let includingFile = this.stack.length > 0 ? this.stack[this.stack.length - 1] : this.documentFile;
+
+        return this.resolver.resolve(library, includingFile);
+    }
+
+    contentOf(file: string): string {
+        return this.resolver.contentOf(file);
+    }
+
+    isBeingIncluded(file: string): boolean {
+        return file === this.documentFile || this.stack.indexOf(file) > -1;
+    }
+
+    include<T>(file: string, analyze: () => T): T {
+        if (this.files.indexOf(file) === -1) {
+            this.files.push(file);
+        }
+
+        this.stack.push(file);
+        try {
+            return analyze();
+        } finally {
+            this.stack.pop();
+        }
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import fs = require('fs');
+
+export namespace QASMLibraries {
+    export function contentOf(libraryName: string): string {
+        return fs.readFileSync(pathOf(libraryName), 'utf8');
+    }
+
+    export function pathOf(libraryName: string): string {
+        return path.join(__dirname, libraryName);
+    }
+
+    /** Checks if the library is bundled with the extension. */
+    export function exists(libraryName: string): boolean {
+        return fs.existsSync(pathOf(libraryName));
+    }
+}
@@ -9,23 +9,45 @@
 
 'use strict';
 
-import { Parser, ParserResult } from '../types';
+import { Parser, ParserResult, ParseErrorLevel } from '../types';
 import { SymbolTableGenerator } from './compiler/symbolTableGenerator';
 import { SemanticAnalyzer } from './compiler/semanticAnalyzer';
 import { QASMSyntacticParser } from './compiler/qasmSyntacticParser';
 import { ErrorListener } from '../tools/errorListener';
+import { QASMIncludeResolver } from './libs/includeResolver';
+import { QASMLinter } from './compiler/linter';
+import { LintSettings } from './settings';
+import { QASMTopologyChecker } from './topology/topologyChecker';
+import { DeviceTopology } from './topology/types';
 
 export class QASMParser implements Parser {
-    parse(input: string): ParserResult {
+    /** The lint warnings are only reported when the settings are given. */
+    lintSettings: LintSettings = null;
+    /** The code is checked against the topology of the device when one is active. */
+    topology: DeviceTopology = null;
+
+    constructor(private includeResolver = new QASMIncludeResolver()) {}
+
+    parse(input: string, uri?: string): ParserResult {
         let errorListener = new ErrorListener();
+        let includeTracker = this.includeResolver.trackerFor(uri);
 
         let tree = QASMSyntacticParser.parseWithErrorListener(input, errorListener);
-        let symbolTable = SymbolTableGenerator.symbolTableFor(tree, errorListener);
+        let symbolTable = SymbolTableGenerator.symbolTableFor(tree, errorListener, undefined, includeTracker);
         SemanticAnalyzer.analyze(tree, symbolTable, errorListener);
+        if (this.lintSettings !== null) {
+            QASMLinter.lint(tree, symbolTable, this.lintSettings, errorListener);
+        }
+        let hasErrors = errorListener.errors.some(error => error.level === ParseErrorLevel.ERROR);
+        if (this.topology !== null && !hasErrors) {
+            QASMTopologyChecker.check(tree, symbolTable, this.topology, errorListener, includeTracker);
+        }
 
         return {
             ast: tree,
-            errors: errorListener.errors
+            errors: errorListener.errors,
+            symbolTable,
+            dependencies: includeTracker.files
         };
     }
 }
@@ -0,0 +1,125 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ANTLRInputStream } from 'antlr4ts';
+import { ErrorCodes, Position, Range, ResponseError, TextEdit, WorkspaceEdit } from 'vscode-languageserver/lib/main';
+import { QASMParser } from './parser';
+import { QASMVersion } from './versionedParser';
+import { QASMDefinitionProvider } from './definitionProvider';
+import { QasmLexer } from './antlr/QasmLexer';
+import { DeclaredSymbol, GateSymbol, ParameterSymbol } from './compiler/symbolTable';
+import { PreviousDefinitionValidation } from './compiler/validations/validations';
+import { ErrorMessages } from './compiler/tools/errorMessages';
+import { ErrorListener } from '../tools/errorListener';
+import { ContentPosition, Parser } from '../types';
+import { SymbolTable } from '../compiler/types';
+
+export class QASMRenameProvider {
+    private definitionProvider: QASMDefinitionProvider;
+
+    constructor(private parser: Parser = new QASMParser()) {
+        this.definitionProvider = new QASMDefinitionProvider(parser);
+    }
+
+    /** Returns the range of the symbol to rename, or the reason why it cannot be renamed. */
+    prepareRenameFor(input: string, position: Position, uri?: string): Range | ResponseError<void> {
+        if (QASMVersion.isQASM3(input)) {
+            return this.errorWith(ErrorMessages.renameNotSupportedInQASM3());
+        }
+
+        let symbol = this.definitionProvider.symbolAt(input, position, uri);
+        let error = this.validateSymbol(symbol);
+        if (error !== null) {
+            return error;
+        }
+
+        let usage = [symbol.declaration.position, ...symbol.references].find(
+            place =>
+                place.line === position.line && place.start <= position.character && position.character <= place.end
+        );
+
+        return this.rangeOf(usage || symbol.declaration.position);
+    }
+
+    renameFor(uri: string, input: string, position: Position, newName: string): WorkspaceEdit | ResponseError<void> {
+        if (QASMVersion.isQASM3(input)) {
+            return this.errorWith(ErrorMessages.renameNotSupportedInQASM3());
+        }
+
+        let symbol = this.definitionProvider.symbolAt(input, position, uri);
+        let error = this.validateSymbol(symbol) || this.validateNewName(uri, input, symbol, newName);
+        if (error !== null) {
+            return error;
+        }
+
+        let edits = [symbol.declaration.position, ...symbol.references].map(place =>
+            TextEdit.replace(this.rangeOf(place), newName)
+        );
+
+        return { changes: { [uri]: edits } };
+    }
+
+    private validateSymbol(symbol: DeclaredSymbol): ResponseError<void> {
+        if (symbol === null || symbol.declaration === undefined) {
+            return this.errorWith(ErrorMessages.onlyDeclaredSymbolsCanBeRenamed());
+        }
+        if (symbol.declaration.file !== undefined) {
+            return this.errorWith(ErrorMessages.includedSymbolCannotBeRenamed(symbol.name));
+        }
+
+        return null;
+    }
+
+    private validateNewName(uri: string, input: string, symbol: DeclaredSymbol, newName: string): ResponseError<void> {
+        if (!this.isIdentifier(newName)) {
+            return this.errorWith(ErrorMessages.invalidIdentifier(newName));
+        }
+
+        let symbolTable = this.parser.parse(input, uri).symbolTable;
+        let previousDefinitionValidation = new PreviousDefinitionValidation(symbolTable, new ErrorListener());
+        if (
+            previousDefinitionValidation.isPreviouslyDefined(newName) ||
+            this.isGateArgument(symbol, newName, symbolTable)
+        ) {
+            return this.errorWith(ErrorMessages.previousDefinitionOf(newName));
+        }
+
+        return null;
+    }
+
+    /** The parameters of a gate share their scope with the qubit arguments, which are not symbols on their own. */
+    private isGateArgument(symbol: DeclaredSymbol, name: string, symbolTable: SymbolTable): boolean {
+        if (!(symbol instanceof ParameterSymbol)) {
+            return false;
+        }
+
+        let gate = symbolTable.lookup(symbol.gate);
+
+        return gate instanceof GateSymbol && (gate.parameters.includes(name) || gate.qubits.includes(name));
+    }
+
+    /** Keywords and library names are not valid, so the new name must be read by the lexer as a single identifier. */
+    private isIdentifier(name: string): boolean {
+        let lexer = new QasmLexer(new ANTLRInputStream(name));
+        lexer.removeErrorListeners();
+        let tokens = lexer.getAllTokens();
+
+        return tokens.length === 1 && tokens[0].type === QasmLexer.Id && tokens[0].text === name;
+    }
+
+    private rangeOf(position: ContentPosition): Range {
+        return Range.create(position.line, position.start, position.line, position.end);
+    }
+
+    private errorWith(message: string): ResponseError<void> {
+        return new ResponseError<void>(ErrorCodes.InvalidRequest, message);
+    }
+}
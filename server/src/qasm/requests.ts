@@ -0,0 +1,73 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { RequestType, NotificationType, TextDocumentPositionParams, Range } from 'vscode-languageserver/lib/main';
+import { SimulationResult } from './simulator/types';
+import { CircuitDiagram } from './diagram/types';
+import { ExportTarget, ExportResult } from './export/types';
+import { ResourceReportResult } from './resources/types';
+import { ActiveTopology } from './topology/types';
+
+export interface SimulationParams {
+    uri: string;
+    shots?: number;
+    seed?: number;
+}
+
+export namespace SimulationRequest {
+    export const type = new RequestType<SimulationParams, SimulationResult, void, void>('qasm/simulate');
+}
+
+export interface CircuitDiagramParams {
+    uri: string;
+}
+
+export namespace CircuitDiagramRequest {
+    export const type = new RequestType<CircuitDiagramParams, CircuitDiagram, void, void>('qasm/circuitDiagram');
+}
+
+export interface ExportParams {
+    uri: string;
+    target: ExportTarget;
+}
+
+export namespace ExportRequest {
+    export const type = new RequestType<ExportParams, ExportResult, void, void>('qasm/export');
+}
+
+export interface ResourceReportParams {
+    uri: string;
+}
+
+export namespace ResourceReportRequest {
+    export const type = new RequestType<ResourceReportParams, ResourceReportResult, void, void>('qasm/resourceReport');
+
+    /** Command of the client showing the report, which is run from the resource lenses. */
+    export const command = 'qiskit-vscode.showQASMResources';
+}
+
+export namespace ActiveTopologyNotification {
+    export const type = new NotificationType<ActiveTopology, void>('qasm/activeTopology');
+}
+
+/** The rename preparation is not included in the protocol version supported by vscode-languageserver yet. */
+export namespace PrepareRenameRequest {
+    export const type = new RequestType<TextDocumentPositionParams, Range, void, void>('textDocument/prepareRename');
+
+    export const capabilities = { renameProvider: { prepareProvider: true } };
+}
+
+/** Quick fixes are sent as commands applying their edits, the only code actions supported by this protocol version. */
+export namespace QuickFixCommand {
+    export const command = 'qasm.applyQuickFix';
+
+    export const capabilities = { executeCommandProvider: { commands: [command] } };
+}
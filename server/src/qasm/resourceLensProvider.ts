@@ -0,0 +1,46 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { CodeLens, Command, Range } from 'vscode-languageserver/lib/main';
+import { QASMResourceEstimator } from './resources/resourceEstimator';
+import { ReportWriter } from './resources/reportWriter';
+import { ResourceEstimate } from './resources/types';
+import { ResourceSettings } from './settings';
+import { ResourceReportRequest } from './requests';
+import { QASMVersion } from './versionedParser';
+import { QASMIncludeResolver } from './libs/includeResolver';
+
+/** Shows the resources of the circuit above the header and the ones of every gate above its definition. */
+export class QASMResourceLensProvider {
+    constructor(private includeResolver = new QASMIncludeResolver()) {}
+
+    codeLensesFor(uri: string, input: string, settings: ResourceSettings): CodeLens[] {
+        if (QASMVersion.isQASM3(input)) {
+            return [];
+        }
+
+        let options = { uri, expandGates: settings.expandGates };
+        let report = QASMResourceEstimator.estimate(input, options, this.includeResolver);
+        if (report.circuit === null) {
+            return [];
+        }
+
+        let lenses = [this.lensFor(uri, report.headerLine, report.circuit)];
+
+        return lenses.concat(report.definedGates.map(gate => this.lensFor(uri, gate.line, gate.estimate)));
+    }
+
+    private lensFor(uri: string, line: number, estimate: ResourceEstimate): CodeLens {
+        let command = Command.create(ReportWriter.summaryOf(estimate), ResourceReportRequest.command, uri);
+
+        return { range: Range.create(line, 0, line, 0), command };
+    }
+}
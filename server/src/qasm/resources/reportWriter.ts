@@ -0,0 +1,69 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ResourceEstimate, ResourceReport } from './types';
+
+const NO_VALUE = '-';
+
+export namespace ReportWriter {
+    /** Writes a Markdown report comparing the resources of the gates as applied and expanded into U and CX. */
+    export function write(title: string, applied: ResourceReport, expanded: ResourceReport): string {
+        let lines = [`# Resources of ${title}`, '', '## Circuit', ''];
+        lines = lines.concat(tableOf(applied.circuit, expanded.circuit));
+
+        applied.definedGates.forEach((definition, i) => {
+            lines.push('', `## Gate ${definition.gate}`, '');
+            lines = lines.concat(tableOf(definition.estimate, expanded.definedGates[i].estimate));
+        });
+
+        return lines.join('\n') + '\n';
+    }
+
+    /** Short summary of the resources shown above the code. */
+    export function summaryOf(estimate: ResourceEstimate): string {
+        let qubits =
+            estimate.usedQubits === estimate.declaredQubits
+                ? countWith(estimate.usedQubits, 'qubit')
+                : `${estimate.usedQubits} of ${countWith(estimate.declaredQubits, 'qubit')} used`;
+
+        return `Depth ${estimate.depth}, ${countWith(estimate.gates, 'gate')}, ${estimate.cnots} CX, ${qubits}`;
+    }
+}
+
+function countWith(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function tableOf(applied: ResourceEstimate, expanded: ResourceEstimate): string[] {
+    let lines = [
+        '| | As written | Expanded to U and CX |',
+        '| --- | --- | --- |',
+        `| Depth | ${applied.depth} | ${expanded.depth} |`,
+        `| Gates | ${applied.gates} | ${expanded.gates} |`,
+        `| CX gates | ${applied.cnots} | ${expanded.cnots} |`,
+        `| Used qubits | ${applied.usedQubits} of ${applied.declaredQubits} | ${expanded.usedQubits} of ${
+            expanded.declaredQubits
+        } |`
+    ];
+
+    let gates = Object.keys(applied.gateCounts).concat(
+        Object.keys(expanded.gateCounts).filter(gate => applied.gateCounts[gate] === undefined)
+    );
+    gates.forEach(gate => {
+        lines.push(`| \`${gate}\` gates | ${countOf(applied, gate)} | ${countOf(expanded, gate)} |`);
+    });
+
+    return lines;
+}
+
+function countOf(estimate: ResourceEstimate, gate: string): string {
+    return estimate.gateCounts[gate] !== undefined ? `${estimate.gateCounts[gate]}` : NO_VALUE;
+}
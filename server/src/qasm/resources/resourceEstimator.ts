@@ -0,0 +1,174 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import Uri from 'vscode-uri';
+import { ParserRuleContext } from 'antlr4ts';
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
+import { HeadersContext, GateDefinitionContext } from '../antlr/QasmParser';
+import { ResourceEstimate, ResourceOptions, ResourceReport, ResourceReportResult } from './types';
+import { ReportWriter } from './reportWriter';
+import { OperationsBuilder } from '../export/operationsBuilder';
+import { ExportCircuit, ExportOperationType, GateSet } from '../export/types';
+import { RegisterLayout } from '../simulator/types';
+import { QASMParser } from '../parser';
+import { QASMIncludeResolver } from '../libs/includeResolver';
+import { QASMVersion } from '../versionedParser';
+import { ErrorListener } from '../../tools/errorListener';
+import { ParseErrorLevel } from '../../types';
+
+const CNOT_GATES = ['CX', 'cx'];
+
+const APPLIED_GATES: GateSet = { target: 'resource estimation', nativeGates: [], keepsAllGates: true };
+
+const EXPANDED_GATES: GateSet = { target: 'resource estimation', nativeGates: [], keepsOpaqueGates: true };
+
+export namespace QASMResourceEstimator {
+    /**
+     * Estimates the resources of the circuit and of every gate defined in the document. The circuit is
+     * not estimated when the QASM code has errors or it is written in OpenQASM 3.
+     */
+    export function estimate(
+        input: string,
+        options: ResourceOptions,
+        includeResolver = new QASMIncludeResolver()
+    ): ResourceReport {
+        if (QASMVersion.isQASM3(input)) {
+            let errors = [QASMVersion.notSupportedInQASM3('Resource estimation', input)];
+
+            return { headerLine: 0, circuit: null, definedGates: [], errors };
+        }
+
+        let parserResult = new QASMParser(includeResolver).parse(input, options.uri);
+        let tree: ParserRuleContext = parserResult.ast;
+        let definitions = new DefinitionsCollector();
+        tree.accept(definitions);
+
+        let errors = parserResult.errors.filter(error => error.level === ParseErrorLevel.ERROR);
+        if (errors.length > 0) {
+            return { headerLine: definitions.headerLine, circuit: null, definedGates: [], errors };
+        }
+
+        let gateSet = options.expandGates ? EXPANDED_GATES : APPLIED_GATES;
+        let errorListener = new ErrorListener();
+        let circuit = OperationsBuilder.build(
+            tree,
+            '',
+            gateSet,
+            errorListener,
+            includeResolver.trackerFor(options.uri)
+        );
+        let definedGates = definitions.gates.map(definition => {
+            let gateCircuit = OperationsBuilder.buildGate(
+                tree,
+                definition.gate,
+                gateSet,
+                errorListener,
+                includeResolver.trackerFor(options.uri)
+            );
+
+            return { gate: definition.gate, line: definition.line, estimate: estimateOf(gateCircuit) };
+        });
+
+        return {
+            headerLine: definitions.headerLine,
+            circuit: estimateOf(circuit),
+            definedGates,
+            errors: errorListener.errors
+        };
+    }
+
+    /** Writes the report of the resources of the document, both with the gates as applied and expanded. */
+    export function report(
+        input: string,
+        uri?: string,
+        includeResolver = new QASMIncludeResolver()
+    ): ResourceReportResult {
+        let applied = estimate(input, { uri, expandGates: false }, includeResolver);
+        if (applied.circuit === null) {
+            return { content: null, errors: applied.errors };
+        }
+
+        let expanded = estimate(input, { uri, expandGates: true }, includeResolver);
+        let title = uri !== undefined ? path.basename(Uri.parse(uri).path) : 'the circuit';
+
+        return {
+            content: ReportWriter.write(title, applied, expanded),
+            errors: applied.errors.concat(expanded.errors)
+        };
+    }
+
+    /**
+     * Depth of the circuit counting the classical bits as wires too, so the operations conditioned on
+     * a register wait for the measures of its bits. The barriers align the qubits without adding depth.
+     */
+    export function estimateOf(circuit: ExportCircuit): ResourceEstimate {
+        let qubitLevels: number[] = new Array(circuit.qubits).fill(0);
+        let clbitLevels: number[] = new Array(circuit.clbits).fill(0);
+        let gateCounts: { [gate: string]: number } = {};
+        let usedQubits: Set<number> = new Set();
+
+        circuit.operations.forEach(operation => {
+            let clbits = operation.clbit !== undefined ? [operation.clbit] : [];
+            if (operation.condition !== undefined) {
+                clbits = clbits.concat(indexesOf(circuit.classicalRegisters, operation.condition.register));
+            }
+
+            let levels = operation.qubits
+                .map(qubit => qubitLevels[qubit])
+                .concat(clbits.map(clbit => clbitLevels[clbit]));
+            let level = Math.max(0, ...levels) + (operation.type === ExportOperationType.Barrier ? 0 : 1);
+            operation.qubits.forEach(qubit => (qubitLevels[qubit] = level));
+            clbits.forEach(clbit => (clbitLevels[clbit] = level));
+
+            if (operation.type !== ExportOperationType.Barrier) {
+                operation.qubits.forEach(qubit => usedQubits.add(qubit));
+            }
+            if (operation.type === ExportOperationType.Gate) {
+                gateCounts[operation.gate] = (gateCounts[operation.gate] || 0) + 1;
+            }
+        });
+
+        let gates = Object.keys(gateCounts).map(gate => gateCounts[gate]);
+
+        return {
+            depth: Math.max(0, ...qubitLevels, ...clbitLevels),
+            gates: gates.reduce((total, count) => total + count, 0),
+            gateCounts,
+            cnots: CNOT_GATES.map(gate => gateCounts[gate] || 0).reduce((total, count) => total + count, 0),
+            usedQubits: usedQubits.size,
+            declaredQubits: circuit.qubits
+        };
+    }
+}
+
+function indexesOf(registers: RegisterLayout[], register: string): number[] {
+    let layout = registers.find(candidate => candidate.name === register);
+
+    return layout !== undefined ? Array.from({ length: layout.size }, (_value, i) => layout.offset + i) : [];
+}
+
+/** Finds the header and the gates defined in the document, leaving out the ones of the included libraries. */
+class DefinitionsCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    headerLine = 0;
+    gates: Array<{ gate: string; line: number }> = [];
+
+    defaultResult() {}
+
+    visitHeaders(ctx: HeadersContext) {
+        this.headerLine = ctx.start.line - 1;
+    }
+
+    visitGateDefinition(ctx: GateDefinitionContext) {
+        this.gates.push({ gate: ctx.Id().text, line: ctx.start.line - 1 });
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserError } from '../../types';
+
+/** Resources needed to run a circuit, measures and resets included in the depth but not in the gate counts. */
+export interface ResourceEstimate {
+    depth: number;
+    gates: number;
+    gateCounts: { [gate: string]: number };
+    cnots: number;
+    /** Qubits used by any operation, the declared qubits without operations are left out. */
+    usedQubits: number;
+    declaredQubits: number;
+}
+
+export interface GateResourceEstimate {
+    gate: string;
+    /** Line of the definition of the gate, starting at 0. */
+    line: number;
+    estimate: ResourceEstimate;
+}
+
+export interface ResourceReport {
+    /** Line of the header of the document, where the estimate of the whole circuit is shown. */
+    headerLine: number;
+    /** Estimate of the circuit, or null when the QASM code has errors. */
+    circuit: ResourceEstimate;
+    definedGates: GateResourceEstimate[];
+    errors: ParserError[];
+}
+
+export interface ResourceOptions {
+    uri?: string;
+    /** Counts the gates after expanding them into U and CX, the opaque gates are counted as they are. */
+    expandGates: boolean;
+}
+
+export interface ResourceReportResult {
+    /** Markdown report of the resources, or null when the QASM code has errors. */
+    content: string;
+    errors: ParserError[];
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ServerCapabilities, TextDocumentSyncKind } from 'vscode-languageserver/lib/main';
+import { PrepareRenameRequest, QuickFixCommand } from './requests';
+
+export namespace QASMServerCapabilities {
+    /** Features announced to the client, which only sends the requests of the advertised ones. */
+    export function of(textDocumentSync: TextDocumentSyncKind): ServerCapabilities {
+        return Object.assign(
+            {
+                textDocumentSync,
+                completionProvider: {
+                    resolveProvider: true
+                },
+                hoverProvider: true,
+                signatureHelpProvider: {
+                    triggerCharacters: ['(', ',']
+                },
+                definitionProvider: true,
+                referencesProvider: true,
+                documentFormattingProvider: true,
+                documentRangeFormattingProvider: true,
+                documentSymbolProvider: true,
+                workspaceSymbolProvider: true,
+                codeActionProvider: true,
+                codeLensProvider: {
+                    resolveProvider: false
+                }
+            },
+            PrepareRenameRequest.capabilities,
+            QuickFixCommand.capabilities
+        );
+    }
+}
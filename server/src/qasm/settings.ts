@@ -0,0 +1,102 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { DeviceTopology } from './topology/types';
+
+const MAX_NUMBER_OF_PROBLEMS = 100;
+
+export interface QASMSettings {
+    maxNumberOfProblems: number;
+    format: FormatSettings;
+    include: IncludeSettings;
+    lint: LintSettings;
+    resources: ResourceSettings;
+    topology: TopologySettings;
+}
+
+export interface FormatSettings {
+    spaceAfterComma: boolean;
+    spaceAroundOperators: boolean;
+    maxBlankLines: number;
+}
+
+export interface LintSettings {
+    unusedRegisters: boolean;
+    unusedGates: boolean;
+    overwrittenMeasurements: boolean;
+    operationsAfterMeasurement: boolean;
+}
+
+export interface ResourceSettings {
+    /** Shows the resources of the gates expanded into U and CX instead of as they are applied. */
+    expandGates: boolean;
+}
+
+export interface TopologySettings {
+    /** JSON file with the topology of the device, relative to the workspace when it is not absolute. */
+    file: string;
+    /** Topology written in the settings, used when no file is given. */
+    device: DeviceTopology;
+}
+
+export interface IncludeSettings {
+    /** Folders where the included libraries are searched, relative to the workspace when they are not absolute. */
+    searchPaths: string[];
+}
+
+export namespace QASMConfiguration {
+    export const section = 'qasmLang';
+
+    export function defaults(): QASMSettings {
+        return {
+            maxNumberOfProblems: MAX_NUMBER_OF_PROBLEMS,
+            format: {
+                spaceAfterComma: true,
+                spaceAroundOperators: false,
+                maxBlankLines: 1
+            },
+            include: {
+                searchPaths: []
+            },
+            lint: {
+                unusedRegisters: true,
+                unusedGates: true,
+                overwrittenMeasurements: true,
+                operationsAfterMeasurement: true
+            },
+            resources: {
+                expandGates: false
+            },
+            topology: {
+                file: '',
+                device: null
+            }
+        };
+    }
+
+    /** Reads the settings sent by the client, using the default values for the missing ones. */
+    export function from(settings: any): QASMSettings {
+        let defaultSettings = defaults();
+        let userSettings = (settings && settings[section]) || {};
+
+        return {
+            maxNumberOfProblems:
+                typeof userSettings.maxNumberOfProblems === 'number'
+                    ? userSettings.maxNumberOfProblems
+                    : defaultSettings.maxNumberOfProblems,
+            format: Object.assign(defaultSettings.format, userSettings.format),
+            include: Object.assign(defaultSettings.include, userSettings.include),
+            lint: Object.assign(defaultSettings.lint, userSettings.lint),
+            resources: Object.assign(defaultSettings.resources, userSettings.resources),
+            topology: Object.assign(defaultSettings.topology, userSettings.topology)
+        };
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ANTLRInputStream, Token } from 'antlr4ts';
+import { Position, SignatureHelp, SignatureInformation, ParameterInformation } from 'vscode-languageserver/lib/main';
+import { QasmLexer } from './antlr/QasmLexer';
+import { GateSymbol } from './compiler/symbolTable';
+import { QASMVersion } from './versionedParser';
+import { QASMParser } from './parser';
+import { Parser } from '../types';
+
+const STATEMENT_LIMITS = [QasmLexer.Semi, QasmLexer.LeftCurlyBrace, QasmLexer.RightCurlyBrace];
+
+interface GateApplication {
+    gate: string;
+    // the parameters are closed when the qubits are being written
+    closedParameters: boolean;
+    argument: number;
+}
+
+/**
+ * Shows the signature of the gate being applied, highlighting the parameter written in the parentheses
+ * and then the qubit written after them.
+ */
+export class QASMSignatureHelpProvider {
+    /** The server gives the parser reusing the validation of the open documents. */
+    constructor(private parser: Parser = new QASMParser()) {}
+
+    signatureHelpFor(input: string, position: Position, uri?: string): SignatureHelp {
+        if (QASMVersion.isQASM3(input)) {
+            return null;
+        }
+
+        let application = this.applicationAt(input, position);
+        if (application === null) {
+            return null;
+        }
+
+        let symbolTable = this.parser.parse(input, uri).symbolTable;
+
+        let gate = symbolTable.lookup(application.gate);
+        if (!(gate instanceof GateSymbol)) {
+            return null;
+        }
+
+        let parameters = gate.parameters.concat(gate.qubits).map(name => ParameterInformation.create(name));
+        let signature = SignatureInformation.create(gate.signature(), gate.documentation || undefined, ...parameters);
+
+        return {
+            signatures: [signature],
+            activeSignature: 0,
+            activeParameter: application.closedParameters
+                ? gate.parameters.length + application.argument
+                : application.argument
+        };
+    }
+
+    /** Finds the gate applied by the statement written before the position and the argument being written. */
+    private applicationAt(input: string, position: Position): GateApplication {
+        let lexer = new QasmLexer(new ANTLRInputStream(input));
+        lexer.removeErrorListeners();
+
+        let isBefore = (token: Token) =>
+            token.line - 1 < position.line ||
+            (token.line - 1 === position.line && token.charPositionInLine < position.character);
+        let tokens = lexer.getAllTokens().filter(isBefore);
+
+        let statementStart = tokens.map(token => STATEMENT_LIMITS.indexOf(token.type) > -1).lastIndexOf(true) + 1;
+        let statement = tokens.slice(statementStart);
+        if (statement.length > 0 && statement[0].type === QasmLexer.If) {
+            let conditionEnd = statement.findIndex(token => token.type === QasmLexer.RightParen);
+            statement = conditionEnd > -1 ? statement.slice(conditionEnd + 1) : [];
+        }
+        if (statement.length === 0 || statement[0].type !== QasmLexer.Id) {
+            return null;
+        }
+
+        let application: GateApplication = { gate: statement[0].text, closedParameters: true, argument: 0 };
+        let depth = 0;
+        statement.slice(1).forEach((token, index) => {
+            if (token.type === QasmLexer.LeftParen) {
+                depth++;
+                application.closedParameters = index === 0 ? false : application.closedParameters;
+            } else if (token.type === QasmLexer.RightParen) {
+                depth--;
+                if (depth === 0 && !application.closedParameters) {
+                    application = { gate: application.gate, closedParameters: true, argument: 0 };
+                }
+            } else if (token.type === QasmLexer.Comma && depth <= 1) {
+                application.argument++;
+            }
+        });
+
+        return application;
+    }
+}
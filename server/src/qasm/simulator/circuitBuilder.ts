@@ -0,0 +1,285 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { QasmParserVisitor } from '../antlr/QasmParserVisitor';
+import {
+    IncludeLibraryContext,
+    QregDefinitionContext,
+    CregDefinitionContext,
+    GateDefinitionContext,
+    OpaqueDefinitionContext,
+    SentenceContext,
+    MeasureContext,
+    CustomArglistContext,
+    CxGateContext,
+    ResetGateContext,
+    BarrierGateContext,
+    BodyExpressionContext,
+    QbitOrQregContext,
+    ExpContext
+} from '../antlr/QasmParser';
+import { Circuit, RegisterLayout, Instruction, InstructionType, Condition } from './types';
+import { QASMSyntacticParser } from '../compiler/qasmSyntacticParser';
+import { ExpressionEvaluator } from '../compiler/expressionEvaluator';
+import { ListFlattener } from '../compiler/tools/listFlattener';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { IncludeTracker } from '../libs/includeResolver';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { PositionAdapter } from '../../tools/positionAdapter';
+import { ContentPosition } from '../../types';
+
+export namespace CircuitBuilder {
+    /** Translates a parse tree into a list of U, CX, measure and reset instructions over global qubit indexes. */
+    export function build(
+        tree: ParserRuleContext,
+        errorListener: ErrorListener,
+        includeTracker = new IncludeTracker()
+    ): Circuit {
+        let collector = new InstructionsCollector(errorListener, includeTracker);
+        tree.accept(collector);
+
+        return collector.circuit();
+    }
+}
+
+interface GateDefinition {
+    name: string;
+    parameters: string[];
+    qubits: string[];
+    body: BodyExpressionContext[];
+}
+
+class InstructionsCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    private quantumRegisters: Map<string, RegisterLayout> = new Map();
+    private classicalRegisters: RegisterLayout[] = [];
+    private gates: Map<string, GateDefinition> = new Map();
+    private opaqueGates: Set<string> = new Set();
+    private instructions: Instruction[] = [];
+    private qubits = 0;
+    private clbits = 0;
+    private condition: Condition;
+
+    constructor(private errorListener: ErrorListener, private includes: IncludeTracker) {
+        super();
+    }
+
+    defaultResult() {}
+
+    circuit(): Circuit {
+        return {
+            qubits: this.qubits,
+            clbits: this.clbits,
+            classicalRegisters: this.classicalRegisters,
+            instructions: this.instructions
+        };
+    }
+
+    visitIncludeLibrary(ctx: IncludeLibraryContext) {
+        // missing libraries and cycles are already reported by the semantic analysis
+        let libraryFile = this.includes.resolve(ctx.Library().text);
+        if (libraryFile === null || this.includes.isBeingIncluded(libraryFile)) {
+            return;
+        }
+
+        this.includes.include(libraryFile, () => {
+            let tree = QASMSyntacticParser.parse(this.includes.contentOf(libraryFile));
+            tree.accept(this);
+        });
+    }
+
+    visitQregDefinition(ctx: QregDefinitionContext) {
+        let size = +ctx.dimension().text;
+        this.quantumRegisters.set(ctx.Id().text, { name: ctx.Id().text, offset: this.qubits, size });
+        this.qubits += size;
+    }
+
+    visitCregDefinition(ctx: CregDefinitionContext) {
+        let size = +ctx.dimension().text;
+        this.classicalRegisters.push({ name: ctx.Id().text, offset: this.clbits, size });
+        this.clbits += size;
+    }
+
+    visitGateDefinition(ctx: GateDefinitionContext) {
+        let gateArguments = ctx.gateDefinitionArguments();
+        let parameters = ListFlattener.gateParameters(gateArguments).map(node => node.text);
+        let qubits = ListFlattener.gateQubits(gateArguments).map(node => node.text);
+        let body = gateArguments.body() ? ListFlattener.bodyExpressions(gateArguments.body()) : [];
+
+        this.gates.set(ctx.Id().text, { name: ctx.Id().text, parameters, qubits, body });
+    }
+
+    visitOpaqueDefinition(ctx: OpaqueDefinitionContext) {
+        this.opaqueGates.add(ctx.Id().text);
+    }
+
+    visitSentence(ctx: SentenceContext) {
+        if (ctx.conditional() === undefined) {
+            this.visitChildren(ctx);
+            return;
+        }
+
+        this.condition = {
+            register: ctx.conditional().Id().text,
+            value: +ctx.conditional().Int().text
+        };
+        ctx.expression().accept(this);
+        this.condition = undefined;
+    }
+
+    visitMeasure(ctx: MeasureContext) {
+        if (ctx.qubit() !== undefined && ctx.cbit() !== undefined) {
+            let qubit = this.qubitIndex(ctx.qubit().Id().text, +ctx.qubit()._position.text);
+            let clbit = this.clbitIndex(ctx.cbit().Id().text, +ctx.cbit()._position.text);
+            this.emit({ type: InstructionType.Measure, qubits: [qubit], clbit });
+            return;
+        }
+
+        let qubits = this.registerQubits(ctx._quantumRegister.text);
+        let clbits = this.registerClbits(ctx._classicalRegister.text);
+        qubits.slice(0, clbits.length).forEach((qubit, i) => {
+            this.emit({ type: InstructionType.Measure, qubits: [qubit], clbit: clbits[i] });
+        });
+    }
+
+    visitCustomArglist(ctx: CustomArglistContext) {
+        let gate = ctx._gate.text;
+        let position = PositionAdapter.fromToken(ctx._gate);
+        let parameters = this.evaluate(ListFlattener.expressions(ctx.paramsListNumber()), new Map());
+        let applications = this.broadcast(gate, ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()), position);
+
+        applications.forEach(qubits => this.expand(gate, parameters, qubits, position, []));
+    }
+
+    visitCxGate(ctx: CxGateContext) {
+        let position = PositionAdapter.fromTerminalNode(ctx.Cx());
+        let applications = this.broadcast('CX', ListFlattener.qubitsAndRegisters(ctx.qubitAndQregList()), position);
+
+        applications.forEach(qubits => this.emit({ type: InstructionType.CX, qubits }));
+    }
+
+    visitResetGate(ctx: ResetGateContext) {
+        this.argumentQubits(ctx.qbitOrQreg()).forEach(qubit =>
+            this.emit({ type: InstructionType.Reset, qubits: [qubit] })
+        );
+    }
+
+    visitBarrierGate(_ctx: BarrierGateContext) {
+        // barriers do not modify the state of the qubits
+    }
+
+    private expand(gate: string, parameters: number[], qubits: number[], position: ContentPosition, stack: string[]) {
+        if (this.opaqueGates.has(gate)) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.opaqueGateCannotBeSimulated(gate), position));
+            return;
+        }
+        if (stack.indexOf(gate) > -1) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.recursiveGateDefinition(gate), position));
+            return;
+        }
+
+        let definition = this.gates.get(gate);
+        if (definition === undefined) {
+            return;
+        }
+
+        let values: Map<string, number> = new Map();
+        definition.parameters.forEach((parameter, i) => values.set(parameter, parameters[i]));
+        let bindings: Map<string, number> = new Map();
+        definition.qubits.forEach((qubit, i) => bindings.set(qubit, qubits[i]));
+
+        definition.body.forEach(expression => {
+            let expressionQubits = ListFlattener.identifiers(expression.paramsList()).map(node =>
+                bindings.get(node.text)
+            );
+            let expressionParameters = this.evaluate(ListFlattener.expressions(expression.paramsListBody()), values);
+
+            if (expression.Cx()) {
+                this.emit({ type: InstructionType.CX, qubits: expressionQubits });
+            } else if (expression.U()) {
+                this.emit({ type: InstructionType.U, qubits: expressionQubits, parameters: expressionParameters });
+            } else {
+                let innerStack = stack.concat(gate);
+                this.expand(expression.Id().text, expressionParameters, expressionQubits, position, innerStack);
+            }
+        });
+    }
+
+    /** Calculates the list of qubits for every application of a gate over registers of the same size. */
+    private broadcast(gate: string, gateArguments: QbitOrQregContext[], position: ContentPosition): number[][] {
+        let argumentsQubits = gateArguments.map(argument => this.argumentQubits(argument));
+        let registersSizes = gateArguments
+            .filter(argument => argument.Int() === undefined)
+            .map(argument => this.registerQubits(argument.Id().text).length);
+
+        let applications = registersSizes.length > 0 ? registersSizes[0] : 1;
+        if (registersSizes.some(size => size !== applications)) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.registersCannotBeBroadcast(gate), position));
+            return [];
+        }
+
+        let result: number[][] = [];
+        for (let i = 0; i < applications; i++) {
+            result.push(argumentsQubits.map(qubits => (qubits.length === 1 ? qubits[0] : qubits[i])));
+        }
+
+        return result;
+    }
+
+    private argumentQubits(ctx: QbitOrQregContext): number[] {
+        if (ctx.Int() !== undefined) {
+            return [this.qubitIndex(ctx.Id().text, +ctx.Int().text)];
+        }
+
+        return this.registerQubits(ctx.Id().text);
+    }
+
+    private registerQubits(register: string): number[] {
+        return this.indexesOf(this.quantumRegisters.get(register));
+    }
+
+    private registerClbits(register: string): number[] {
+        return this.indexesOf(this.classicalRegisters.find(layout => layout.name === register));
+    }
+
+    private qubitIndex(register: string, position: number): number {
+        return this.quantumRegisters.get(register).offset + position;
+    }
+
+    private clbitIndex(register: string, position: number): number {
+        return this.classicalRegisters.find(layout => layout.name === register).offset + position;
+    }
+
+    private indexesOf(layout: RegisterLayout): number[] {
+        let result: number[] = [];
+        for (let i = 0; layout !== undefined && i < layout.size; i++) {
+            result.push(layout.offset + i);
+        }
+
+        return result;
+    }
+
+    private evaluate(expressions: ExpContext[], values: Map<string, number>): number[] {
+        let evaluator = new ExpressionEvaluator(values);
+
+        return expressions.map(expression => expression.accept(evaluator));
+    }
+
+    private emit(instruction: Instruction) {
+        if (this.condition !== undefined) {
+            instruction.condition = this.condition;
+        }
+
+        this.instructions.push(instruction);
+    }
+}
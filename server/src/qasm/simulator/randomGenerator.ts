@@ -0,0 +1,33 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+const MULTIPLIER = 1664525;
+const INCREMENT = 1013904223;
+const MODULUS = 4294967296;
+
+export namespace RandomGenerator {
+    /**
+     * Returns a generator of numbers in [0, 1). When a seed is given the sequence is always the same,
+     * which makes the simulation results reproducible.
+     */
+    export function create(seed?: number): () => number {
+        if (seed === undefined || seed === null) {
+            return Math.random;
+        }
+
+        let state = Math.abs(Math.floor(seed)) % MODULUS;
+
+        return () => {
+            state = (state * MULTIPLIER + INCREMENT) % MODULUS;
+            return state / MODULUS;
+        };
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Circuit, Counts, Instruction, InstructionType, SimulationOptions, SimulationResult } from './types';
+import { CircuitBuilder } from './circuitBuilder';
+import { StateVector } from './stateVector';
+import { RandomGenerator } from './randomGenerator';
+import { QASMParser } from '../parser';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { ParseErrorLevel } from '../../types';
+import { QASMIncludeResolver } from '../libs/includeResolver';
+import { QASMVersion } from '../versionedParser';
+
+const DEFAULT_SHOTS = 1024;
+/**
+ * The simulation blocks the language server while it runs, so the state vectors are kept small,
+ * even more when the circuit has to be simulated again for every shot.
+ */
+const MAX_QUBITS = 16;
+const MAX_QUBITS_SIMULATED_EVERY_SHOT = 12;
+
+export namespace QASMSimulator {
+    /**
+     * Runs the QASM code in a local statevector simulator. The counts are only calculated
+     * when the code does not contain errors, otherwise the errors found are returned.
+     * The simulator only supports OpenQASM 2.0.
+     */
+    export function run(
+        input: string,
+        options: SimulationOptions = {},
+        includeResolver = new QASMIncludeResolver()
+    ): SimulationResult {
+        if (QASMVersion.isQASM3(input)) {
+            return { counts: {}, errors: [QASMVersion.notSupportedInQASM3('Simulation', input)] };
+        }
+
+        let parserResult = new QASMParser(includeResolver).parse(input, options.uri);
+        let errors = parserResult.errors.filter(error => error.level === ParseErrorLevel.ERROR);
+        if (errors.length > 0) {
+            return { counts: {}, errors };
+        }
+
+        let errorListener = new ErrorListener();
+        let circuit = CircuitBuilder.build(parserResult.ast, errorListener, includeResolver.trackerFor(options.uri));
+        let sampled = hasOnlyFinalMeasurements(circuit);
+        let maximum = sampled ? MAX_QUBITS : MAX_QUBITS_SIMULATED_EVERY_SHOT;
+        if (circuit.qubits > maximum) {
+            let position = { line: 0, start: 0, end: 0 };
+            errorListener.addError(
+                ErrorBuilder.error(ErrorMessages.tooManyQubitsToSimulate(circuit.qubits, maximum), position)
+            );
+        }
+        if (errorListener.errors.length > 0) {
+            return { counts: {}, errors: errorListener.errors };
+        }
+
+        let shots = options.shots || DEFAULT_SHOTS;
+        let random = RandomGenerator.create(options.seed);
+        let counts = sampled ? sampleFinalState(circuit, shots, random) : simulateEveryShot(circuit, shots, random);
+
+        return { counts, errors: [] };
+    }
+}
+
+/**
+ * When the state is not modified after measuring, a single evolution of the state is enough
+ * and every shot can be sampled from its final probabilities.
+ */
+function hasOnlyFinalMeasurements(circuit: Circuit): boolean {
+    let measured: Set<number> = new Set();
+
+    return circuit.instructions.every(instruction => {
+        if (instruction.condition !== undefined || instruction.type === InstructionType.Reset) {
+            return false;
+        }
+        if (instruction.type === InstructionType.Measure) {
+            measured.add(instruction.qubits[0]);
+            return true;
+        }
+
+        return instruction.qubits.every(qubit => !measured.has(qubit));
+    });
+}
+
+function sampleFinalState(circuit: Circuit, shots: number, random: () => number): Counts {
+    let state = new StateVector(circuit.qubits);
+    circuit.instructions.forEach(instruction => applyGate(state, instruction));
+
+    let cumulative: number[] = [];
+    state.probabilities().reduce((total, probability) => {
+        cumulative.push(total + probability);
+        return total + probability;
+    }, 0);
+
+    let measures = circuit.instructions.filter(instruction => instruction.type === InstructionType.Measure);
+    let counts: Counts = {};
+    for (let shot = 0; shot < shots; shot++) {
+        let basisState = findBasisState(cumulative, random());
+        let clbits = new Array<number>(circuit.clbits).fill(0);
+        measures.forEach(measure => (clbits[measure.clbit] = (basisState >> measure.qubits[0]) & 1));
+
+        addShot(counts, circuit, clbits);
+    }
+
+    return counts;
+}
+
+function simulateEveryShot(circuit: Circuit, shots: number, random: () => number): Counts {
+    let counts: Counts = {};
+
+    for (let shot = 0; shot < shots; shot++) {
+        let state = new StateVector(circuit.qubits);
+        let clbits = new Array<number>(circuit.clbits).fill(0);
+
+        circuit.instructions.forEach(instruction => {
+            if (!satisfiesCondition(instruction, circuit, clbits)) {
+                return;
+            }
+
+            if (instruction.type === InstructionType.Measure) {
+                clbits[instruction.clbit] = state.measure(instruction.qubits[0], random);
+            } else if (instruction.type === InstructionType.Reset) {
+                state.reset(instruction.qubits[0], random);
+            } else {
+                applyGate(state, instruction);
+            }
+        });
+
+        addShot(counts, circuit, clbits);
+    }
+
+    return counts;
+}
+
+function applyGate(state: StateVector, instruction: Instruction) {
+    if (instruction.type === InstructionType.U) {
+        let [theta, phi, lambda] = instruction.parameters;
+        state.applyU(theta, phi, lambda, instruction.qubits[0]);
+    } else if (instruction.type === InstructionType.CX) {
+        state.applyCX(instruction.qubits[0], instruction.qubits[1]);
+    }
+}
+
+function satisfiesCondition(instruction: Instruction, circuit: Circuit, clbits: number[]): boolean {
+    if (instruction.condition === undefined) {
+        return true;
+    }
+
+    let register = circuit.classicalRegisters.find(layout => layout.name === instruction.condition.register);
+    let value = 0;
+    for (let i = register.size - 1; i >= 0; i--) {
+        value = (value << 1) | clbits[register.offset + i];
+    }
+
+    return value === instruction.condition.value;
+}
+
+function findBasisState(cumulative: number[], value: number): number {
+    let low = 0;
+    let high = cumulative.length - 1;
+
+    while (low < high) {
+        let middle = (low + high) >> 1;
+        if (value < cumulative[middle]) {
+            high = middle;
+        } else {
+            low = middle + 1;
+        }
+    }
+
+    return low;
+}
+
+/** Adds the result of a shot using the Qiskit format, the last register and the most significant bit first. */
+function addShot(counts: Counts, circuit: Circuit, clbits: number[]) {
+    let key = circuit.classicalRegisters
+        .map(register =>
+            clbits
+                .slice(register.offset, register.offset + register.size)
+                .reverse()
+                .join('')
+        )
+        .reverse()
+        .join(' ');
+
+    counts[key] = (counts[key] || 0) + 1;
+}
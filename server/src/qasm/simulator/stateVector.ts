@@ -0,0 +1,144 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+const HALF = 0.5;
+
+/**
+ * Amplitudes of a register of qubits. The basis state index uses little endian ordering,
+ * so the bit k of the index is the value of the qubit k.
+ */
+export class StateVector {
+    private real: Float64Array;
+    private imaginary: Float64Array;
+
+    constructor(public qubits: number) {
+        let size = 1 << qubits;
+        this.real = new Float64Array(size);
+        this.imaginary = new Float64Array(size);
+        this.real[0] = 1;
+    }
+
+    /** Applies the single qubit rotation U(theta, phi, lambda) defined by OpenQASM. */
+    applyU(theta: number, phi: number, lambda: number, target: number): void {
+        let cos = Math.cos(theta * HALF);
+        let sin = Math.sin(theta * HALF);
+
+        let m00 = { real: cos, imaginary: 0 };
+        let m01 = { real: -Math.cos(lambda) * sin, imaginary: -Math.sin(lambda) * sin };
+        let m10 = { real: Math.cos(phi) * sin, imaginary: Math.sin(phi) * sin };
+        let m11 = { real: Math.cos(phi + lambda) * cos, imaginary: Math.sin(phi + lambda) * cos };
+
+        let mask = 1 << target;
+        for (let i = 0; i < this.real.length; i++) {
+            if ((i & mask) !== 0) {
+                continue;
+            }
+
+            let j = i | mask;
+            let aReal = this.real[i];
+            let aImaginary = this.imaginary[i];
+            let bReal = this.real[j];
+            let bImaginary = this.imaginary[j];
+
+            this.real[i] =
+                m00.real * aReal - m00.imaginary * aImaginary + m01.real * bReal - m01.imaginary * bImaginary;
+            this.imaginary[i] =
+                m00.real * aImaginary + m00.imaginary * aReal + m01.real * bImaginary + m01.imaginary * bReal;
+            this.real[j] =
+                m10.real * aReal - m10.imaginary * aImaginary + m11.real * bReal - m11.imaginary * bImaginary;
+            this.imaginary[j] =
+                m10.real * aImaginary + m10.imaginary * aReal + m11.real * bImaginary + m11.imaginary * bReal;
+        }
+    }
+
+    applyCX(control: number, target: number): void {
+        let controlMask = 1 << control;
+        let targetMask = 1 << target;
+
+        for (let i = 0; i < this.real.length; i++) {
+            if ((i & controlMask) !== 0 && (i & targetMask) === 0) {
+                this.swap(i, i | targetMask);
+            }
+        }
+    }
+
+    /** Measures the qubit in the computational basis, collapsing the state to the obtained value. */
+    measure(qubit: number, random: () => number): number {
+        let result = random() < this.probabilityOfOne(qubit) ? 1 : 0;
+        this.collapse(qubit, result);
+
+        return result;
+    }
+
+    reset(qubit: number, random: () => number): void {
+        if (this.measure(qubit, random) === 1) {
+            let mask = 1 << qubit;
+            for (let i = 0; i < this.real.length; i++) {
+                if ((i & mask) === 0) {
+                    this.swap(i, i | mask);
+                }
+            }
+        }
+    }
+
+    probabilities(): number[] {
+        let result: number[] = [];
+        for (let i = 0; i < this.real.length; i++) {
+            result.push(this.real[i] * this.real[i] + this.imaginary[i] * this.imaginary[i]);
+        }
+
+        return result;
+    }
+
+    private probabilityOfOne(qubit: number): number {
+        let mask = 1 << qubit;
+        let total = 0;
+
+        for (let i = mask; i < this.real.length; i++) {
+            if ((i & mask) !== 0) {
+                total += this.real[i] * this.real[i] + this.imaginary[i] * this.imaginary[i];
+            }
+        }
+
+        return total;
+    }
+
+    private collapse(qubit: number, value: number): void {
+        let mask = 1 << qubit;
+        let norm = 0;
+
+        for (let i = 0; i < this.real.length; i++) {
+            let bit = (i & mask) !== 0 ? 1 : 0;
+            if (bit !== value) {
+                this.real[i] = 0;
+                this.imaginary[i] = 0;
+            } else {
+                norm += this.real[i] * this.real[i] + this.imaginary[i] * this.imaginary[i];
+            }
+        }
+
+        let factor = 1 / Math.sqrt(norm);
+        for (let i = 0; i < this.real.length; i++) {
+            this.real[i] *= factor;
+            this.imaginary[i] *= factor;
+        }
+    }
+
+    private swap(i: number, j: number): void {
+        let real = this.real[i];
+        let imaginary = this.imaginary[i];
+
+        this.real[i] = this.real[j];
+        this.imaginary[i] = this.imaginary[j];
+        this.real[j] = real;
+        this.imaginary[j] = imaginary;
+    }
+}
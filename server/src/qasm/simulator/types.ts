@@ -0,0 +1,63 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserError } from '../../types';
+
+export interface Circuit {
+    qubits: number;
+    clbits: number;
+    classicalRegisters: RegisterLayout[];
+    instructions: Instruction[];
+}
+
+/** Location of a register inside the global list of qubits or classical bits. */
+export interface RegisterLayout {
+    name: string;
+    offset: number;
+    size: number;
+}
+
+export enum InstructionType {
+    U = 'U',
+    CX = 'CX',
+    Measure = 'measure',
+    Reset = 'reset'
+}
+
+export interface Instruction {
+    type: InstructionType;
+    qubits: number[];
+    parameters?: number[];
+    clbit?: number;
+    condition?: Condition;
+}
+
+export interface Condition {
+    register: string;
+    value: number;
+}
+
+/** Number of times each classical state was measured, with the same format Qiskit uses. */
+export interface Counts {
+    [bits: string]: number;
+}
+
+export interface SimulationOptions {
+    shots?: number;
+    seed?: number;
+    /** Document being simulated, used to find the files it includes. */
+    uri?: string;
+}
+
+export interface SimulationResult {
+    counts: Counts;
+    errors: ParserError[];
+}
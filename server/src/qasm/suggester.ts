@@ -96,15 +96,15 @@ class SymbolsDictionary {
     symbols = [
         {
             label: 'IBMQASM 2.0; ',
-            detail: 'TBD',
-            documentation: 'TBD',
+            detail: 'Version header',
+            documentation: 'Declares the version of the OpenQASM language used by the file.',
             type: 'QasmDescriptor',
             parent: 'QASM'
         },
         {
             label: 'OPENQASM 2.0; ',
-            detail: 'TBD',
-            documentation: 'TBD',
+            detail: 'Version header',
+            documentation: 'Declares the version of the OpenQASM language used by the file.',
             type: 'QasmDescriptor',
             parent: 'QASM'
         },
@@ -131,15 +131,15 @@ class SymbolsDictionary {
         },
         {
             label: 'U',
-            detail: 'TBD',
-            documentation: 'TBD.',
+            detail: 'U(theta, phi, lambda) qubit',
+            documentation: 'Built-in single qubit rotation with the Euler angles theta, phi and lambda.',
             type: 'U',
             parent: 'QASM'
         },
         {
             label: 'CX',
-            detail: 'TBD',
-            documentation: 'TBD.',
+            detail: 'CX control, target',
+            documentation: 'Built-in controlled-NOT gate, flips the target qubit when the control qubit is |1>.',
             type: 'Cx',
             parent: 'QASM'
         },
@@ -167,14 +167,14 @@ class SymbolsDictionary {
         {
             label: 'opaque',
             detail: 'Opaque',
-            documentation: 'TBD.',
+            documentation: 'Declares a gate whose physical implementation is unknown or not described.',
             type: 'Opaque',
             parent: 'QASM'
         },
         {
             label: 'gate',
             detail: 'Gate declaration',
-            documentation: 'TBD.',
+            documentation: 'Declares a new unitary gate as a sequence of built-in or previously defined gates.',
             type: 'Gate',
             parent: 'QASM'
         }
@@ -0,0 +1,178 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
+import { Range, SymbolInformation, SymbolKind } from 'vscode-languageserver/lib/main';
+import { QasmParserVisitor } from './antlr/QasmParserVisitor';
+import {
+    IncludeLibraryContext,
+    QregDefinitionContext,
+    CregDefinitionContext,
+    GateDefinitionContext,
+    OpaqueDefinitionContext,
+    QasmParser
+} from './antlr/QasmParser';
+import { QASMSyntacticParser } from './compiler/qasmSyntacticParser';
+import { ListFlattener } from './compiler/tools/listFlattener';
+import { QASMVersion } from './versionedParser';
+import { ErrorListener } from '../tools/errorListener';
+import { QASM3SyntacticParser } from '../qasm3/compiler/syntacticParser';
+import {
+    Visitor,
+    VisitableItem,
+    Program,
+    Include,
+    QubitDeclaration,
+    ClassicalDeclaration,
+    GateDefinition,
+    SubroutineDefinition
+} from '../qasm3/ast/types';
+
+/**
+ * Lists the declarations of a QASM document for the outline: includes, registers, gates with the
+ * applications of their bodies as children and opaque gates. OpenQASM 3 documents also list their subroutines.
+ */
+export class QASMSymbolsProvider {
+    documentSymbolsFor(uri: string, input: string): SymbolInformation[] {
+        if (QASMVersion.isQASM3(input)) {
+            let collector = new QASM3DeclarationsCollector(uri, input);
+            QASM3SyntacticParser.parse(input).accept(collector);
+
+            return collector.symbols;
+        }
+
+        let collector = new DeclarationsCollector(uri, input);
+        QASMSyntacticParser.parseWithErrorListener(input, new ErrorListener()).accept(collector);
+
+        return collector.symbols;
+    }
+}
+
+class DeclarationsCollector extends AbstractParseTreeVisitor<void> implements QasmParserVisitor<void> {
+    symbols: SymbolInformation[] = [];
+
+    constructor(private uri: string, private input: string) {
+        super();
+    }
+
+    defaultResult() {}
+
+    visitIncludeLibrary(ctx: IncludeLibraryContext) {
+        let library = ctx.tryGetToken(QasmParser.Library, 0);
+        if (library !== undefined) {
+            this.add(library.text, SymbolKind.File, ctx);
+        }
+    }
+
+    visitQregDefinition(ctx: QregDefinitionContext) {
+        this.add(ctx.Id().text, SymbolKind.Variable, ctx);
+    }
+
+    visitCregDefinition(ctx: CregDefinitionContext) {
+        this.add(ctx.Id().text, SymbolKind.Variable, ctx);
+    }
+
+    visitGateDefinition(ctx: GateDefinitionContext) {
+        let gate = ctx.Id().text;
+        this.add(gate, SymbolKind.Function, ctx);
+
+        let body = ctx.gateDefinitionArguments().body();
+        if (body !== undefined) {
+            ListFlattener.bodyExpressions(body).forEach(expression =>
+                this.add(this.textOf(expression), SymbolKind.Method, expression, gate)
+            );
+        }
+    }
+
+    visitOpaqueDefinition(ctx: OpaqueDefinitionContext) {
+        this.add(ctx.Id().text, SymbolKind.Function, ctx);
+    }
+
+    private add(name: string, kind: SymbolKind, ctx: ParserRuleContext, container?: string) {
+        // incomplete statements have no stop token while they are being written
+        if (ctx.stop === undefined) {
+            return;
+        }
+
+        let range = Range.create(
+            ctx.start.line - 1,
+            ctx.start.charPositionInLine,
+            ctx.stop.line - 1,
+            ctx.stop.charPositionInLine + ctx.stop.text.length
+        );
+
+        this.symbols.push(SymbolInformation.create(name, kind, range, this.uri, container));
+    }
+
+    /** Source code of the statement without the semicolon, with its whitespaces collapsed. */
+    private textOf(ctx: ParserRuleContext): string {
+        return collapsed(this.input.substring(ctx.start.startIndex, ctx.stop.stopIndex + 1));
+    }
+}
+
+class QASM3DeclarationsCollector implements Visitor<void> {
+    symbols: SymbolInformation[] = [];
+    private lines: string[];
+
+    constructor(private uri: string, input: string) {
+        this.lines = input.split(/\r?\n/);
+    }
+
+    defaultValue() {}
+
+    visitProgram(item: Program) {
+        item.statements.forEach(statement => statement.accept(this));
+    }
+
+    visitInclude(item: Include) {
+        this.add(item.file, SymbolKind.File, item);
+    }
+
+    visitQubitDeclaration(item: QubitDeclaration) {
+        this.add(item.name.name, SymbolKind.Variable, item);
+    }
+
+    visitClassicalDeclaration(item: ClassicalDeclaration) {
+        this.add(item.name.name, item.constant ? SymbolKind.Constant : SymbolKind.Variable, item);
+    }
+
+    visitGateDefinition(item: GateDefinition) {
+        this.add(item.name.name, SymbolKind.Function, item);
+        item.body.forEach(statement => this.add(this.textOf(statement), SymbolKind.Method, statement, item.name.name));
+    }
+
+    visitSubroutineDefinition(item: SubroutineDefinition) {
+        this.add(item.name.name, SymbolKind.Function, item);
+    }
+
+    private add(name: string, kind: SymbolKind, item: VisitableItem, container?: string) {
+        let range = Range.create(item.start.line, item.start.column, item.end.line, item.end.column);
+
+        this.symbols.push(SymbolInformation.create(name, kind, range, this.uri, container));
+    }
+
+    private textOf(item: VisitableItem): string {
+        let text =
+            item.start.line === item.end.line
+                ? this.lines[item.start.line].substring(item.start.column, item.end.column)
+                : this.lines[item.start.line].substring(item.start.column);
+
+        return collapsed(text);
+    }
+}
+
+function collapsed(statement: string): string {
+    return statement
+        .replace(/;\s*$/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ParserRuleContext } from 'antlr4ts';
+import { DeviceTopology } from './types';
+import { OperationsBuilder } from '../export/operationsBuilder';
+import { ExportOperationType, GateSet } from '../export/types';
+import { RegisterLayout } from '../simulator/types';
+import { RegisterSymbol } from '../compiler/symbolTable';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { IncludeTracker } from '../libs/includeResolver';
+import { SymbolTable } from '../../compiler/types';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+
+const TWO_QUBITS = 2;
+
+/** The gates are expanded into CX, so the gates defined in the code are checked by the CX they apply. */
+const DEVICE_GATES: GateSet = { target: 'the device', nativeGates: [], keepsOpaqueGates: true };
+
+export namespace QASMTopologyChecker {
+    /**
+     * Reports the registers which do not fit in the device and the two-qubit gates applied to qubits which
+     * are not connected. The registers are placed on the qubits of the device in the order they are declared.
+     * It runs on code without errors, since the gates have to be expanded.
+     */
+    export function check(
+        tree: ParserRuleContext,
+        symbolTable: SymbolTable,
+        topology: DeviceTopology,
+        errorListener: ErrorListener,
+        includeTracker?: IncludeTracker
+    ) {
+        let circuit = OperationsBuilder.build(tree, '', DEVICE_GATES, new ErrorListener(), includeTracker);
+
+        circuit.quantumRegisters.filter(layout => layout.offset + layout.size > topology.qubits).forEach(layout => {
+            let register = symbolTable.lookup(layout.name);
+            if (!(register instanceof RegisterSymbol) || register.declaration === undefined) {
+                return;
+            }
+
+            let message = ErrorMessages.registerExceedsDevice(
+                layout.name,
+                layout.offset,
+                layout.offset + layout.size - 1,
+                topology.name,
+                topology.qubits
+            );
+            errorListener.addError(ErrorBuilder.error(message, register.declaration.position));
+        });
+
+        let connections: Set<string> = new Set();
+        topology.couplingMap.forEach(([first, second]) => {
+            connections.add(connectionOf(first, second));
+            connections.add(connectionOf(second, first));
+        });
+
+        // the gates expanded into several CX between the same qubits are reported once
+        let reported: Set<string> = new Set();
+        circuit.operations
+            .filter(operation => operation.type === ExportOperationType.Gate && operation.qubits.length === TWO_QUBITS)
+            .filter(operation => operation.qubits.every(qubit => qubit < topology.qubits))
+            .filter(operation => !connections.has(connectionOf(operation.qubits[0], operation.qubits[1])))
+            .forEach(operation => {
+                let [first, second] = operation.qubits.map(qubit => nameOf(circuit.quantumRegisters, qubit));
+                let position = operation.position;
+                let qubits = operation.qubits.slice().sort((a, b) => a - b);
+                let key = `${position.line}:${position.start}:${connectionOf(qubits[0], qubits[1])}`;
+                if (reported.has(key)) {
+                    return;
+                }
+
+                reported.add(key);
+                errorListener.addError(
+                    ErrorBuilder.error(ErrorMessages.unconnectedQubits(first, second, topology.name), position)
+                );
+            });
+    }
+}
+
+function connectionOf(first: number, second: number): string {
+    return `${first}-${second}`;
+}
+
+function nameOf(registers: RegisterLayout[], qubit: number): string {
+    let layout = registers.find(candidate => qubit >= candidate.offset && qubit < candidate.offset + candidate.size);
+
+    return `${layout.name}[${qubit - layout.offset}]`;
+}
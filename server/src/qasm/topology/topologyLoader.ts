@@ -0,0 +1,87 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+import { DeviceTopology, TopologyLoadResult } from './types';
+import { TopologySettings } from '../settings';
+
+const PAIR = 2;
+
+export namespace TopologyLoader {
+    /**
+     * Reads the topology from the JSON file of the workspace when the settings point to one, or else from
+     * the device written in the settings.
+     */
+    export function load(settings: TopologySettings, workspaceRoot: string): TopologyLoadResult {
+        if (settings.file) {
+            let file = fileOf(settings, workspaceRoot);
+            let content: any;
+            try {
+                content = JSON.parse(fs.readFileSync(file, 'utf-8'));
+            } catch (error) {
+                return { topology: null, error: `The topology file ${settings.file} cannot be read: ${error.message}` };
+            }
+
+            return fromJSON(content, path.basename(file, path.extname(file)));
+        }
+
+        if (settings.device) {
+            return fromJSON(settings.device, 'custom device');
+        }
+
+        return { topology: null };
+    }
+
+    /** Absolute path of the topology file, relative to the workspace when it is not absolute. */
+    export function fileOf(settings: TopologySettings, workspaceRoot: string): string {
+        return settings.file ? path.resolve(workspaceRoot || '', settings.file) : null;
+    }
+
+    /** Checks the shape of a topology written by the user, naming it after its file when it has no name. */
+    export function fromJSON(content: any, defaultName: string): TopologyLoadResult {
+        let invalid = (reason: string): TopologyLoadResult => ({
+            topology: null,
+            error: `The topology is not valid: ${reason}`
+        });
+
+        if (content === null || typeof content !== 'object') {
+            return invalid('expecting an object with the qubits and the coupling map');
+        }
+        if (!isPositiveInteger(content.qubits)) {
+            return invalid('expecting the number of qubits as a positive integer');
+        }
+        if (!Array.isArray(content.couplingMap)) {
+            return invalid('expecting the coupling map as a list of pairs of qubits');
+        }
+
+        let isValidPair = (pair: any) =>
+            Array.isArray(pair) &&
+            pair.length === PAIR &&
+            pair.every((qubit: any) => Number.isInteger(qubit) && qubit >= 0 && qubit < content.qubits);
+        let wrongPair = content.couplingMap.find((pair: any) => !isValidPair(pair));
+        if (wrongPair !== undefined) {
+            return invalid(`${JSON.stringify(wrongPair)} is not a pair of qubits of the device`);
+        }
+
+        let topology: DeviceTopology = {
+            name: typeof content.name === 'string' && content.name !== '' ? content.name : defaultName,
+            qubits: content.qubits,
+            couplingMap: content.couplingMap
+        };
+
+        return { topology };
+    }
+}
+
+function isPositiveInteger(value: any): boolean {
+    return Number.isInteger(value) && value > 0;
+}
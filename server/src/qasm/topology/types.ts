@@ -0,0 +1,32 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+/** Qubits of a device and the pairs of them connected, the only ones two-qubit gates can be applied to. */
+export interface DeviceTopology {
+    name: string;
+    qubits: number;
+    /** Pairs of connected qubits, the gates are accepted in both directions. */
+    couplingMap: Array<[number, number]>;
+}
+
+export interface TopologyLoadResult {
+    /** The topology the documents are checked against, or null when none is configured or it is invalid. */
+    topology: DeviceTopology;
+    error?: string;
+}
+
+/** Sent to the client every time the topology changes, so it can show which one is active. */
+export interface ActiveTopology {
+    /** Name of the device, or null when no topology is active. */
+    name: string;
+    qubits: number;
+    error?: string;
+}
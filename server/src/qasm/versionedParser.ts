@@ -0,0 +1,59 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Parser, ParserError, ParserResult } from '../types';
+import { QASMParser } from './parser';
+import { QASM3Parser } from '../qasm3/parser';
+import { ErrorBuilder } from '../tools/errorBuilder';
+import { ErrorMessages } from './compiler/tools/errorMessages';
+
+const HEADER = /^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*OPENQASM\s+(\d+)/;
+const HEADER_KEYWORD = 'OPENQASM';
+const DEFAULT_VERSION = 2;
+const QASM3_VERSION = 3;
+
+export namespace QASMVersion {
+    /** Major version declared at the OPENQASM header, the files without header are considered OpenQASM 2.0. */
+    export function of(input: string): number {
+        let header = HEADER.exec(input);
+
+        return header !== null ? +header[1] : DEFAULT_VERSION;
+    }
+
+    export function isQASM3(input: string): boolean {
+        return of(input) === QASM3_VERSION;
+    }
+
+    /** Error at the OPENQASM header for the features only implemented for OpenQASM 2.0. */
+    export function notSupportedInQASM3(feature: string, input: string): ParserError {
+        let header = HEADER.exec(input);
+        let offset = header !== null ? header[0].lastIndexOf(HEADER_KEYWORD) : 0;
+        let lines = input.substring(0, offset).split('\n');
+        let start = lines[lines.length - 1].length;
+        let position = { line: lines.length - 1, start, end: start + HEADER_KEYWORD.length };
+
+        return ErrorBuilder.error(ErrorMessages.notSupportedInQASM3(feature), position);
+    }
+}
+
+/**
+ * Analyzes the OpenQASM 3 files with their own pipeline, and the rest of files with the OpenQASM 2.0 one.
+ * The lint warnings and the device topology checks are only run in the OpenQASM 2.0 pipeline.
+ */
+export class QASMVersionedParser implements Parser {
+    constructor(private qasm2Parser: QASMParser, private qasm3Parser: QASM3Parser) {}
+
+    parse(input: string, uri?: string): ParserResult {
+        let parser: Parser = QASMVersion.isQASM3(input) ? this.qasm3Parser : this.qasm2Parser;
+
+        return parser.parse(input, uri);
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import Uri from 'vscode-uri';
+import { FileChangeType, SymbolInformation, SymbolKind } from 'vscode-languageserver/lib/main';
+import { QASMSymbolsProvider } from './symbolsProvider';
+import { QASMIncludeResolver } from './libs/includeResolver';
+import { DirectoryWalker } from '../tools/directoryWalker';
+
+const QASM_EXTENSIONS = ['.qasm', '.inc'];
+
+interface IndexedFile {
+    content: string;
+    symbols: SymbolInformation[];
+    /** Read from an open document, so it may differ from the saved file. */
+    open: boolean;
+}
+
+/**
+ * Searches the registers and gates declared in the QASM files and libraries of the workspace. The workspace
+ * is walked once and the watched file events keep the list of files up to date. The symbols of every file
+ * are kept while its content does not change, so only the edited files are parsed again.
+ */
+export class QASMWorkspaceSymbols {
+    private workspaceRoot: string = null;
+    /** The files of the workspace, without symbols until they are searched or after they change. */
+    private index: Map<string, IndexedFile> = new Map();
+
+    constructor(
+        private includeResolver = new QASMIncludeResolver(),
+        private symbolsProvider = new QASMSymbolsProvider()
+    ) {}
+
+    search(workspaceRoot: string, query: string): SymbolInformation[] {
+        if (workspaceRoot === null) {
+            return [];
+        }
+
+        if (workspaceRoot !== this.workspaceRoot) {
+            this.workspaceRoot = workspaceRoot;
+            this.index = new Map(
+                DirectoryWalker.filesIn(workspaceRoot)
+                    .filter(isQASMFile)
+                    .map(file => [file, null] as [string, IndexedFile])
+            );
+        }
+
+        return Array.from(this.index.keys())
+            .sort()
+            .map(file => this.symbolsOf(file))
+            .reduce((all, symbols) => all.concat(symbols), [])
+            .filter(symbol => symbol.containerName === undefined && symbol.kind !== SymbolKind.File)
+            .filter(symbol => matches(symbol.name, query));
+    }
+
+    /** Follows the files created, changed or deleted in the indexed workspace. */
+    fileChanged(file: string, type: FileChangeType) {
+        if (this.workspaceRoot === null || !isQASMFile(file) || !DirectoryWalker.reaches(this.workspaceRoot, file)) {
+            return;
+        }
+
+        if (type === FileChangeType.Deleted) {
+            this.index.delete(file);
+        } else {
+            this.index.set(file, null);
+        }
+    }
+
+    private symbolsOf(file: string): SymbolInformation[] {
+        let indexed = this.index.get(file);
+        let open = this.includeResolver.isOpen(file);
+        if (indexed !== null && !indexed.open && !open) {
+            return indexed.symbols;
+        }
+
+        let content: string;
+        try {
+            content = this.includeResolver.contentOf(file);
+        } catch (error) {
+            this.index.delete(file);
+            return [];
+        }
+
+        if (indexed !== null && indexed.content === content) {
+            indexed.open = open;
+            return indexed.symbols;
+        }
+
+        let symbols = this.symbolsProvider.documentSymbolsFor(Uri.file(file).toString(), content);
+        this.index.set(file, { content, symbols, open });
+
+        return symbols;
+    }
+}
+
+function isQASMFile(file: string): boolean {
+    return QASM_EXTENSIONS.indexOf(path.extname(file)) > -1;
+}
+
+/** The characters of the query must appear in the name in the same order, ignoring the case. */
+function matches(name: string, query: string): boolean {
+    let lowerCaseName = name.toLowerCase();
+    let position = 0;
+
+    for (let character of query.toLowerCase()) {
+        position = lowerCaseName.indexOf(character, position) + 1;
+        if (position === 0) {
+            return false;
+        }
+    }
+
+    return true;
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+lexer grammar QasmLexer3;
+
+LineComment: '//' ~[\r\n]* -> skip;
+BlockComment: '/*' .*? ('*/' | EOF) -> skip;
+WhiteSpace: [ \t\n\r]+ -> skip;
+
+OpenQasm: 'OPENQASM';
+Include: 'include';
+Qubit: 'qubit';
+Qreg: 'qreg';
+Creg: 'creg';
+Const: 'const';
+Gate: 'gate';
+Def: 'def';
+For: 'for';
+In: 'in';
+While: 'while';
+If: 'if';
+Else: 'else';
+Break: 'break';
+Continue: 'continue';
+Return: 'return';
+Measure: 'measure';
+Reset: 'reset';
+Barrier: 'barrier';
+True: 'true';
+False: 'false';
+
+Bit: 'bit';
+Int: 'int';
+Uint: 'uint';
+Float: 'float';
+Angle: 'angle';
+Bool: 'bool';
+
+Ctrl: 'ctrl';
+NegCtrl: 'negctrl';
+Inv: 'inv';
+Pow: 'pow';
+
+Arrow: '->';
+DoubleEquals: '==';
+NotEquals: '!=';
+LessEquals: '<=';
+GreaterEquals: '>=';
+DoubleAmpersand: '&&';
+DoublePipe: '||';
+LeftShift: '<<';
+RightShift: '>>';
+DoubleAsterisk: '**';
+PlusEquals: '+=';
+MinusEquals: '-=';
+AsteriskEquals: '*=';
+SlashEquals: '/=';
+
+Semi: ';';
+Comma: ',';
+Colon: ':';
+At: '@';
+LeftParen: '(';
+RightParen: ')';
+LeftBracket: '[';
+RightBracket: ']';
+LeftCurlyBrace: '{';
+RightCurlyBrace: '}';
+Equals: '=';
+Plus: '+';
+Minus: '-';
+Asterisk: '*';
+Slash: '/';
+Percent: '%';
+Less: '<';
+Greater: '>';
+ExclamationPoint: '!';
+Tilde: '~';
+Ampersand: '&';
+Pipe: '|';
+Caret: '^';
+
+Number: ([0-9]+ ('.' [0-9]*)? | '.' [0-9]+) ([eE] [+-]? [0-9]+)?;
+StringLiteral: '"' ~["\r\n]* '"' | '\'' ~['\r\n]* '\'';
+Identifier: [A-Za-z_\u0080-\uFFFF] [A-Za-z0-9_\u0080-\uFFFF]*;
+
+// Hidden from the parser, the syntactic parser reports them as errors and continues with the next token
+UnterminatedString: ('"' ~["\r\n]* | '\'' ~['\r\n]*) -> channel(HIDDEN);
+UnexpectedCharacter: . -> channel(HIDDEN);
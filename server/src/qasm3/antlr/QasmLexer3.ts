@@ -0,0 +1,423 @@
+// Generated from QasmLexer3.g4 by ANTLR 4.6-SNAPSHOT
+
+
+import { ATN } from 'antlr4ts/atn/ATN';
+import { ATNDeserializer } from 'antlr4ts/atn/ATNDeserializer';
+import { CharStream } from 'antlr4ts/CharStream';
+import { Lexer } from 'antlr4ts/Lexer';
+import { LexerATNSimulator } from 'antlr4ts/atn/LexerATNSimulator';
+import { NotNull } from 'antlr4ts/Decorators';
+import { Override } from 'antlr4ts/Decorators';
+import { RuleContext } from 'antlr4ts/RuleContext';
+import { Vocabulary } from 'antlr4ts/Vocabulary';
+import { VocabularyImpl } from 'antlr4ts/VocabularyImpl';
+
+import * as Utils from 'antlr4ts/misc/Utils';
+
+
+export class QasmLexer3 extends Lexer {
+	public static readonly LineComment=1;
+	public static readonly BlockComment=2;
+	public static readonly WhiteSpace=3;
+	public static readonly OpenQasm=4;
+	public static readonly Include=5;
+	public static readonly Qubit=6;
+	public static readonly Qreg=7;
+	public static readonly Creg=8;
+	public static readonly Const=9;
+	public static readonly Gate=10;
+	public static readonly Def=11;
+	public static readonly For=12;
+	public static readonly In=13;
+	public static readonly While=14;
+	public static readonly If=15;
+	public static readonly Else=16;
+	public static readonly Break=17;
+	public static readonly Continue=18;
+	public static readonly Return=19;
+	public static readonly Measure=20;
+	public static readonly Reset=21;
+	public static readonly Barrier=22;
+	public static readonly True=23;
+	public static readonly False=24;
+	public static readonly Bit=25;
+	public static readonly Int=26;
+	public static readonly Uint=27;
+	public static readonly Float=28;
+	public static readonly Angle=29;
+	public static readonly Bool=30;
+	public static readonly Ctrl=31;
+	public static readonly NegCtrl=32;
+	public static readonly Inv=33;
+	public static readonly Pow=34;
+	public static readonly Arrow=35;
+	public static readonly DoubleEquals=36;
+	public static readonly NotEquals=37;
+	public static readonly LessEquals=38;
+	public static readonly GreaterEquals=39;
+	public static readonly DoubleAmpersand=40;
+	public static readonly DoublePipe=41;
+	public static readonly LeftShift=42;
+	public static readonly RightShift=43;
+	public static readonly DoubleAsterisk=44;
+	public static readonly PlusEquals=45;
+	public static readonly MinusEquals=46;
+	public static readonly AsteriskEquals=47;
+	public static readonly SlashEquals=48;
+	public static readonly Semi=49;
+	public static readonly Comma=50;
+	public static readonly Colon=51;
+	public static readonly At=52;
+	public static readonly LeftParen=53;
+	public static readonly RightParen=54;
+	public static readonly LeftBracket=55;
+	public static readonly RightBracket=56;
+	public static readonly LeftCurlyBrace=57;
+	public static readonly RightCurlyBrace=58;
+	public static readonly Equals=59;
+	public static readonly Plus=60;
+	public static readonly Minus=61;
+	public static readonly Asterisk=62;
+	public static readonly Slash=63;
+	public static readonly Percent=64;
+	public static readonly Less=65;
+	public static readonly Greater=66;
+	public static readonly ExclamationPoint=67;
+	public static readonly Tilde=68;
+	public static readonly Ampersand=69;
+	public static readonly Pipe=70;
+	public static readonly Caret=71;
+	public static readonly Number=72;
+	public static readonly StringLiteral=73;
+	public static readonly Identifier=74;
+	public static readonly UnterminatedString=75;
+	public static readonly UnexpectedCharacter=76;
+	public static readonly modeNames: string[] = [
+		"DEFAULT_MODE"
+	];
+
+	public static readonly ruleNames: string[] = [
+		"LineComment", "BlockComment", "WhiteSpace", "OpenQasm", "Include", "Qubit", 
+		"Qreg", "Creg", "Const", "Gate", "Def", "For", "In", "While", "If", "Else", 
+		"Break", "Continue", "Return", "Measure", "Reset", "Barrier", "True", 
+		"False", "Bit", "Int", "Uint", "Float", "Angle", "Bool", "Ctrl", "NegCtrl", 
+		"Inv", "Pow", "Arrow", "DoubleEquals", "NotEquals", "LessEquals", "GreaterEquals", 
+		"DoubleAmpersand", "DoublePipe", "LeftShift", "RightShift", "DoubleAsterisk", 
+		"PlusEquals", "MinusEquals", "AsteriskEquals", "SlashEquals", "Semi", 
+		"Comma", "Colon", "At", "LeftParen", "RightParen", "LeftBracket", "RightBracket", 
+		"LeftCurlyBrace", "RightCurlyBrace", "Equals", "Plus", "Minus", "Asterisk", 
+		"Slash", "Percent", "Less", "Greater", "ExclamationPoint", "Tilde", "Ampersand", 
+		"Pipe", "Caret", "Number", "StringLiteral", "Identifier", "UnterminatedString", 
+		"UnexpectedCharacter"
+	];
+
+	private static readonly _LITERAL_NAMES: (string | undefined)[] = [
+		undefined, undefined, undefined, undefined, "'OPENQASM'", "'include'", 
+		"'qubit'", "'qreg'", "'creg'", "'const'", "'gate'", "'def'", "'for'", 
+		"'in'", "'while'", "'if'", "'else'", "'break'", "'continue'", "'return'", 
+		"'measure'", "'reset'", "'barrier'", "'true'", "'false'", "'bit'", "'int'", 
+		"'uint'", "'float'", "'angle'", "'bool'", "'ctrl'", "'negctrl'", "'inv'", 
+		"'pow'", "'->'", "'=='", "'!='", "'<='", "'>='", "'&&'", "'||'", "'<<'", 
+		"'>>'", "'**'", "'+='", "'-='", "'*='", "'/='", "';'", "','", "':'", "'@'", 
+		"'('", "')'", "'['", "']'", "'{'", "'}'", "'='", "'+'", "'-'", "'*'", 
+		"'/'", "'%'", "'<'", "'>'", "'!'", "'~'", "'&'", "'|'", "'^'"
+	];
+	private static readonly _SYMBOLIC_NAMES: (string | undefined)[] = [
+		undefined, "LineComment", "BlockComment", "WhiteSpace", "OpenQasm", "Include", 
+		"Qubit", "Qreg", "Creg", "Const", "Gate", "Def", "For", "In", "While", 
+		"If", "Else", "Break", "Continue", "Return", "Measure", "Reset", "Barrier", 
+		"True", "False", "Bit", "Int", "Uint", "Float", "Angle", "Bool", "Ctrl", 
+		"NegCtrl", "Inv", "Pow", "Arrow", "DoubleEquals", "NotEquals", "LessEquals", 
+		"GreaterEquals", "DoubleAmpersand", "DoublePipe", "LeftShift", "RightShift", 
+		"DoubleAsterisk", "PlusEquals", "MinusEquals", "AsteriskEquals", "SlashEquals", 
+		"Semi", "Comma", "Colon", "At", "LeftParen", "RightParen", "LeftBracket", 
+		"RightBracket", "LeftCurlyBrace", "RightCurlyBrace", "Equals", "Plus", 
+		"Minus", "Asterisk", "Slash", "Percent", "Less", "Greater", "ExclamationPoint", 
+		"Tilde", "Ampersand", "Pipe", "Caret", "Number", "StringLiteral", "Identifier", 
+		"UnterminatedString", "UnexpectedCharacter"
+	];
+	public static readonly VOCABULARY: Vocabulary = new VocabularyImpl(QasmLexer3._LITERAL_NAMES, QasmLexer3._SYMBOLIC_NAMES, []);
+
+	@Override
+	@NotNull
+	public get vocabulary(): Vocabulary {
+		return QasmLexer3.VOCABULARY;
+	}
+
+
+	constructor(input: CharStream) {
+		super(input);
+		this._interp = new LexerATNSimulator(QasmLexer3._ATN, this);
+	}
+
+	@Override
+	public get grammarFileName(): string { return "QasmLexer3.g4"; }
+
+	@Override
+	public get ruleNames(): string[] { return QasmLexer3.ruleNames; }
+
+	@Override
+	public get serializedATN(): string { return QasmLexer3._serializedATN; }
+
+	@Override
+	public get modeNames(): string[] { return QasmLexer3.modeNames; }
+
+	public static readonly _serializedATN: string =
+		"\x03\uAF6F\u8320\u479D\uB75C\u4880\u1605\u191C\uAB37\x02N\u0214\b\x01"+
+		"\x04\x02\t\x02\x04\x03\t\x03\x04\x04\t\x04\x04\x05\t\x05\x04\x06\t\x06"+
+		"\x04\x07\t\x07\x04\b\t\b\x04\t\t\t\x04\n\t\n\x04\v\t\v\x04\f\t\f\x04\r"+
+		"\t\r\x04\x0E\t\x0E\x04\x0F\t\x0F\x04\x10\t\x10\x04\x11\t\x11\x04\x12\t"+
+		"\x12\x04\x13\t\x13\x04\x14\t\x14\x04\x15\t\x15\x04\x16\t\x16\x04\x17\t"+
+		"\x17\x04\x18\t\x18\x04\x19\t\x19\x04\x1A\t\x1A\x04\x1B\t\x1B\x04\x1C\t"+
+		"\x1C\x04\x1D\t\x1D\x04\x1E\t\x1E\x04\x1F\t\x1F\x04 \t \x04!\t!\x04\"\t"+
+		"\"\x04#\t#\x04$\t$\x04%\t%\x04&\t&\x04\'\t\'\x04(\t(\x04)\t)\x04*\t*\x04"+
+		"+\t+\x04,\t,\x04-\t-\x04.\t.\x04/\t/\x040\t0\x041\t1\x042\t2\x043\t3\x04"+
+		"4\t4\x045\t5\x046\t6\x047\t7\x048\t8\x049\t9\x04:\t:\x04;\t;\x04<\t<\x04"+
+		"=\t=\x04>\t>\x04?\t?\x04@\t@\x04A\tA\x04B\tB\x04C\tC\x04D\tD\x04E\tE\x04"+
+		"F\tF\x04G\tG\x04H\tH\x04I\tI\x04J\tJ\x04K\tK\x04L\tL\x04M\tM\x03\x02\x03"+
+		"\x02\x03\x02\x03\x02\x07\x02\xA0\n\x02\f\x02\x0E\x02\xA3\v\x02\x03\x02"+
+		"\x03\x02\x03\x03\x03\x03\x03\x03\x03\x03\x07\x03\xAB\n\x03\f\x03\x0E\x03"+
+		"\xAE\v\x03\x03\x03\x03\x03\x03\x03\x05\x03\xB3\n\x03\x03\x03\x03\x03\x03"+
+		"\x04\x06\x04\xB8\n\x04\r\x04\x0E\x04\xB9\x03\x04\x03\x04\x03\x05\x03\x05"+
+		"\x03\x05\x03\x05\x03\x05\x03\x05\x03\x05\x03\x05\x03\x05\x03\x06\x03\x06"+
+		"\x03\x06\x03\x06\x03\x06\x03\x06\x03\x06\x03\x06\x03\x07\x03\x07\x03\x07"+
+		"\x03\x07\x03\x07\x03\x07\x03\b\x03\b\x03\b\x03\b\x03\b\x03\t\x03\t\x03"+
+		"\t\x03\t\x03\t\x03\n\x03\n\x03\n\x03\n\x03\n\x03\n\x03\v\x03\v\x03\v\x03"+
+		"\v\x03\v\x03\f\x03\f\x03\f\x03\f\x03\r\x03\r\x03\r\x03\r\x03\x0E\x03\x0E"+
+		"\x03\x0E\x03\x0F\x03\x0F\x03\x0F\x03\x0F\x03\x0F\x03\x0F\x03\x10\x03\x10"+
+		"\x03\x10\x03\x11\x03\x11\x03\x11\x03\x11\x03\x11\x03\x12\x03\x12\x03\x12"+
+		"\x03\x12\x03\x12\x03\x12\x03\x13\x03\x13\x03\x13\x03\x13\x03\x13\x03\x13"+
+		"\x03\x13\x03\x13\x03\x13\x03\x14\x03\x14\x03\x14\x03\x14\x03\x14\x03\x14"+
+		"\x03\x14\x03\x15\x03\x15\x03\x15\x03\x15\x03\x15\x03\x15\x03\x15\x03\x15"+
+		"\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x16\x03\x17\x03\x17\x03\x17"+
+		"\x03\x17\x03\x17\x03\x17\x03\x17\x03\x17\x03\x18\x03\x18\x03\x18\x03\x18"+
+		"\x03\x18\x03\x19\x03\x19\x03\x19\x03\x19\x03\x19\x03\x19\x03\x1A\x03\x1A"+
+		"\x03\x1A\x03\x1A\x03\x1B\x03\x1B\x03\x1B\x03\x1B\x03\x1C\x03\x1C\x03\x1C"+
+		"\x03\x1C\x03\x1C\x03\x1D\x03\x1D\x03\x1D\x03\x1D\x03\x1D\x03\x1D\x03\x1E"+
+		"\x03\x1E\x03\x1E\x03\x1E\x03\x1E\x03\x1E\x03\x1F\x03\x1F\x03\x1F\x03\x1F"+
+		"\x03\x1F\x03 \x03 \x03 \x03 \x03 \x03!\x03!\x03!\x03!\x03!\x03!\x03!\x03"+
+		"!\x03\"\x03\"\x03\"\x03\"\x03#\x03#\x03#\x03#\x03$\x03$\x03$\x03%\x03"+
+		"%\x03%\x03&\x03&\x03&\x03\'\x03\'\x03\'\x03(\x03(\x03(\x03)\x03)\x03)"+
+		"\x03*\x03*\x03*\x03+\x03+\x03+\x03,\x03,\x03,\x03-\x03-\x03-\x03.\x03"+
+		".\x03.\x03/\x03/\x03/\x030\x030\x030\x031\x031\x031\x032\x032\x033\x03"+
+		"3\x034\x034\x035\x035\x036\x036\x037\x037\x038\x038\x039\x039\x03:\x03"+
+		":\x03;\x03;\x03<\x03<\x03=\x03=\x03>\x03>\x03?\x03?\x03@\x03@\x03A\x03"+
+		"A\x03B\x03B\x03C\x03C\x03D\x03D\x03E\x03E\x03F\x03F\x03G\x03G\x03H\x03"+
+		"H\x03I\x06I\u01C6\nI\rI\x0EI\u01C7\x03I\x03I\x07I\u01CC\nI\fI\x0EI\u01CF"+
+		"\vI\x05I\u01D1\nI\x03I\x03I\x06I\u01D5\nI\rI\x0EI\u01D6\x05I\u01D9\nI"+
+		"\x03I\x03I\x05I\u01DD\nI\x03I\x06I\u01E0\nI\rI\x0EI\u01E1\x05I\u01E4\n"+
+		"I\x03J\x03J\x07J\u01E8\nJ\fJ\x0EJ\u01EB\vJ\x03J\x03J\x03J\x07J\u01F0\n"+
+		"J\fJ\x0EJ\u01F3\vJ\x03J\x05J\u01F6\nJ\x03K\x03K\x07K\u01FA\nK\fK\x0EK"+
+		"\u01FD\vK\x03L\x03L\x07L\u0201\nL\fL\x0EL\u0204\vL\x03L\x03L\x07L\u0208"+
+		"\nL\fL\x0EL\u020B\vL\x05L\u020D\nL\x03L\x03L\x03M\x03M\x03M\x03M\x03\xAC"+
+		"\x02\x02N\x03\x02\x03\x05\x02\x04\x07\x02\x05\t\x02\x06\v\x02\x07\r\x02"+
+		"\b\x0F\x02\t\x11\x02\n\x13\x02\v\x15\x02\f\x17\x02\r\x19\x02\x0E\x1B\x02"+
+		"\x0F\x1D\x02\x10\x1F\x02\x11!\x02\x12#\x02\x13%\x02\x14\'\x02\x15)\x02"+
+		"\x16+\x02\x17-\x02\x18/\x02\x191\x02\x1A3\x02\x1B5\x02\x1C7\x02\x1D9\x02"+
+		"\x1E;\x02\x1F=\x02 ?\x02!A\x02\"C\x02#E\x02$G\x02%I\x02&K\x02\'M\x02("+
+		"O\x02)Q\x02*S\x02+U\x02,W\x02-Y\x02.[\x02/]\x020_\x021a\x022c\x023e\x02"+
+		"4g\x025i\x026k\x027m\x028o\x029q\x02:s\x02;u\x02<w\x02=y\x02>{\x02?}\x02"+
+		"@\x7F\x02A\x81\x02B\x83\x02C\x85\x02D\x87\x02E\x89\x02F\x8B\x02G\x8D\x02"+
+		"H\x8F\x02I\x91\x02J\x93\x02K\x95\x02L\x97\x02M\x99\x02N\x03\x02\v\x04"+
+		"\x02\f\f\x0F\x0F\x05\x02\v\f\x0F\x0F\"\"\x03\x022;\x04\x02GGgg\x04\x02"+
+		"--//\x05\x02\f\f\x0F\x0F$$\x05\x02\f\f\x0F\x0F))\x06\x02C\\aac|\x82\x01"+
+		"\x07\x022;C\\aac|\x82\x01\u0226\x02\x03\x03\x02\x02\x02\x02\x05\x03\x02"+
+		"\x02\x02\x02\x07\x03\x02\x02\x02\x02\t\x03\x02\x02\x02\x02\v\x03\x02\x02"+
+		"\x02\x02\r\x03\x02\x02\x02\x02\x0F\x03\x02\x02\x02\x02\x11\x03\x02\x02"+
+		"\x02\x02\x13\x03\x02\x02\x02\x02\x15\x03\x02\x02\x02\x02\x17\x03\x02\x02"+
+		"\x02\x02\x19\x03\x02\x02\x02\x02\x1B\x03\x02\x02\x02\x02\x1D\x03\x02\x02"+
+		"\x02\x02\x1F\x03\x02\x02\x02\x02!\x03\x02\x02\x02\x02#\x03\x02\x02\x02"+
+		"\x02%\x03\x02\x02\x02\x02\'\x03\x02\x02\x02\x02)\x03\x02\x02\x02\x02+"+
+		"\x03\x02\x02\x02\x02-\x03\x02\x02\x02\x02/\x03\x02\x02\x02\x021\x03\x02"+
+		"\x02\x02\x023\x03\x02\x02\x02\x025\x03\x02\x02\x02\x027\x03\x02\x02\x02"+
+		"\x029\x03\x02\x02\x02\x02;\x03\x02\x02\x02\x02=\x03\x02\x02\x02\x02?\x03"+
+		"\x02\x02\x02\x02A\x03\x02\x02\x02\x02C\x03\x02\x02\x02\x02E\x03\x02\x02"+
+		"\x02\x02G\x03\x02\x02\x02\x02I\x03\x02\x02\x02\x02K\x03\x02\x02\x02\x02"+
+		"M\x03\x02\x02\x02\x02O\x03\x02\x02\x02\x02Q\x03\x02\x02\x02\x02S\x03\x02"+
+		"\x02\x02\x02U\x03\x02\x02\x02\x02W\x03\x02\x02\x02\x02Y\x03\x02\x02\x02"+
+		"\x02[\x03\x02\x02\x02\x02]\x03\x02\x02\x02\x02_\x03\x02\x02\x02\x02a\x03"+
+		"\x02\x02\x02\x02c\x03\x02\x02\x02\x02e\x03\x02\x02\x02\x02g\x03\x02\x02"+
+		"\x02\x02i\x03\x02\x02\x02\x02k\x03\x02\x02\x02\x02m\x03\x02\x02\x02\x02"+
+		"o\x03\x02\x02\x02\x02q\x03\x02\x02\x02\x02s\x03\x02\x02\x02\x02u\x03\x02"+
+		"\x02\x02\x02w\x03\x02\x02\x02\x02y\x03\x02\x02\x02\x02{\x03\x02\x02\x02"+
+		"\x02}\x03\x02\x02\x02\x02\x7F\x03\x02\x02\x02\x02\x81\x03\x02\x02\x02"+
+		"\x02\x83\x03\x02\x02\x02\x02\x85\x03\x02\x02\x02\x02\x87\x03\x02\x02\x02"+
+		"\x02\x89\x03\x02\x02\x02\x02\x8B\x03\x02\x02\x02\x02\x8D\x03\x02\x02\x02"+
+		"\x02\x8F\x03\x02\x02\x02\x02\x91\x03\x02\x02\x02\x02\x93\x03\x02\x02\x02"+
+		"\x02\x95\x03\x02\x02\x02\x02\x97\x03\x02\x02\x02\x02\x99\x03\x02\x02\x02"+
+		"\x03\x9B\x03\x02\x02\x02\x05\xA6\x03\x02\x02\x02\x07\xB7\x03\x02\x02\x02"+
+		"\t\xBD\x03\x02\x02\x02\v\xC6\x03\x02\x02\x02\r\xCE\x03\x02\x02\x02\x0F"+
+		"\xD4\x03\x02\x02\x02\x11\xD9\x03\x02\x02\x02\x13\xDE\x03\x02\x02\x02\x15"+
+		"\xE4\x03\x02\x02\x02\x17\xE9\x03\x02\x02\x02\x19\xED\x03\x02\x02\x02\x1B"+
+		"\xF1\x03\x02\x02\x02\x1D\xF4\x03\x02\x02\x02\x1F\xFA\x03\x02\x02\x02!"+
+		"\xFD\x03\x02\x02\x02#\u0102\x03\x02\x02\x02%\u0108\x03\x02\x02\x02\'\u0111"+
+		"\x03\x02\x02\x02)\u0118\x03\x02\x02\x02+\u0120\x03\x02\x02\x02-\u0126"+
+		"\x03\x02\x02\x02/\u012E\x03\x02\x02\x021\u0133\x03\x02\x02\x023\u0139"+
+		"\x03\x02\x02\x025\u013D\x03\x02\x02\x027\u0141\x03\x02\x02\x029\u0146"+
+		"\x03\x02\x02\x02;\u014C\x03\x02\x02\x02=\u0152\x03\x02\x02\x02?\u0157"+
+		"\x03\x02\x02\x02A\u015C\x03\x02\x02\x02C\u0164\x03\x02\x02\x02E\u0168"+
+		"\x03\x02\x02\x02G\u016C\x03\x02\x02\x02I\u016F\x03\x02\x02\x02K\u0172"+
+		"\x03\x02\x02\x02M\u0175\x03\x02\x02\x02O\u0178\x03\x02\x02\x02Q\u017B"+
+		"\x03\x02\x02\x02S\u017E\x03\x02\x02\x02U\u0181\x03\x02\x02\x02W\u0184"+
+		"\x03\x02\x02\x02Y\u0187\x03\x02\x02\x02[\u018A\x03\x02\x02\x02]\u018D"+
+		"\x03\x02\x02\x02_\u0190\x03\x02\x02\x02a\u0193\x03\x02\x02\x02c\u0196"+
+		"\x03\x02\x02\x02e\u0198\x03\x02\x02\x02g\u019A\x03\x02\x02\x02i\u019C"+
+		"\x03\x02\x02\x02k\u019E\x03\x02\x02\x02m\u01A0\x03\x02\x02\x02o\u01A2"+
+		"\x03\x02\x02\x02q\u01A4\x03\x02\x02\x02s\u01A6\x03\x02\x02\x02u\u01A8"+
+		"\x03\x02\x02\x02w\u01AA\x03\x02\x02\x02y\u01AC\x03\x02\x02\x02{\u01AE"+
+		"\x03\x02\x02\x02}\u01B0\x03\x02\x02\x02\x7F\u01B2\x03\x02\x02\x02\x81"+
+		"\u01B4\x03\x02\x02\x02\x83\u01B6\x03\x02\x02\x02\x85\u01B8\x03\x02\x02"+
+		"\x02\x87\u01BA\x03\x02\x02\x02\x89\u01BC\x03\x02\x02\x02\x8B\u01BE\x03"+
+		"\x02\x02\x02\x8D\u01C0\x03\x02\x02\x02\x8F\u01C2\x03\x02\x02\x02\x91\u01D8"+
+		"\x03\x02\x02\x02\x93\u01F5\x03\x02\x02\x02\x95\u01F7\x03\x02\x02\x02\x97"+
+		"\u020C\x03\x02\x02\x02\x99\u0210\x03\x02\x02\x02\x9B\x9C\x071\x02\x02"+
+		"\x9C\x9D\x071\x02\x02\x9D\xA1\x03\x02\x02\x02\x9E\xA0\n\x02\x02\x02\x9F"+
+		"\x9E\x03\x02\x02\x02\xA0\xA3\x03\x02\x02\x02\xA1\x9F\x03\x02\x02\x02\xA1"+
+		"\xA2\x03\x02\x02\x02\xA2\xA4\x03\x02\x02\x02\xA3\xA1\x03\x02\x02\x02\xA4"+
+		"\xA5\b\x02\x02\x02\xA5\x04\x03\x02\x02\x02\xA6\xA7\x071\x02\x02\xA7\xA8"+
+		"\x07,\x02\x02\xA8\xAC\x03\x02\x02\x02\xA9\xAB\v\x02\x02\x02\xAA\xA9\x03"+
+		"\x02\x02\x02\xAB\xAE\x03\x02\x02\x02\xAC\xAD\x03\x02\x02\x02\xAC\xAA\x03"+
+		"\x02\x02\x02\xAD\xB2\x03\x02\x02\x02\xAE\xAC\x03\x02\x02\x02\xAF\xB0\x07"+
+		",\x02\x02\xB0\xB3\x071\x02\x02\xB1\xB3\x07\x02\x02\x03\xB2\xAF\x03\x02"+
+		"\x02\x02\xB2\xB1\x03\x02\x02\x02\xB3\xB4\x03\x02\x02\x02\xB4\xB5\b\x03"+
+		"\x02\x02\xB5\x06\x03\x02\x02\x02\xB6\xB8\t\x03\x02\x02\xB7\xB6\x03\x02"+
+		"\x02\x02\xB8\xB9\x03\x02\x02\x02\xB9\xB7\x03\x02\x02\x02\xB9\xBA\x03\x02"+
+		"\x02\x02\xBA\xBB\x03\x02\x02\x02\xBB\xBC\b\x04\x02\x02\xBC\b\x03\x02\x02"+
+		"\x02\xBD\xBE\x07Q\x02\x02\xBE\xBF\x07R\x02\x02\xBF\xC0\x07G\x02\x02\xC0"+
+		"\xC1\x07P\x02\x02\xC1\xC2\x07S\x02\x02\xC2\xC3\x07C\x02\x02\xC3\xC4\x07"+
+		"U\x02\x02\xC4\xC5\x07O\x02\x02\xC5\n\x03\x02\x02\x02\xC6\xC7\x07k\x02"+
+		"\x02\xC7\xC8\x07p\x02\x02\xC8\xC9\x07e\x02\x02\xC9\xCA\x07n\x02\x02\xCA"+
+		"\xCB\x07w\x02\x02\xCB\xCC\x07f\x02\x02\xCC\xCD\x07g\x02\x02\xCD\f\x03"+
+		"\x02\x02\x02\xCE\xCF\x07s\x02\x02\xCF\xD0\x07w\x02\x02\xD0\xD1\x07d\x02"+
+		"\x02\xD1\xD2\x07k\x02\x02\xD2\xD3\x07v\x02\x02\xD3\x0E\x03\x02\x02\x02"+
+		"\xD4\xD5\x07s\x02\x02\xD5\xD6\x07t\x02\x02\xD6\xD7\x07g\x02\x02\xD7\xD8"+
+		"\x07i\x02\x02\xD8\x10\x03\x02\x02\x02\xD9\xDA\x07e\x02\x02\xDA\xDB\x07"+
+		"t\x02\x02\xDB\xDC\x07g\x02\x02\xDC\xDD\x07i\x02\x02\xDD\x12\x03\x02\x02"+
+		"\x02\xDE\xDF\x07e\x02\x02\xDF\xE0\x07q\x02\x02\xE0\xE1\x07p\x02\x02\xE1"+
+		"\xE2\x07u\x02\x02\xE2\xE3\x07v\x02\x02\xE3\x14\x03\x02\x02\x02\xE4\xE5"+
+		"\x07i\x02\x02\xE5\xE6\x07c\x02\x02\xE6\xE7\x07v\x02\x02\xE7\xE8\x07g\x02"+
+		"\x02\xE8\x16\x03\x02\x02\x02\xE9\xEA\x07f\x02\x02\xEA\xEB\x07g\x02\x02"+
+		"\xEB\xEC\x07h\x02\x02\xEC\x18\x03\x02\x02\x02\xED\xEE\x07h\x02\x02\xEE"+
+		"\xEF\x07q\x02\x02\xEF\xF0\x07t\x02\x02\xF0\x1A\x03\x02\x02\x02\xF1\xF2"+
+		"\x07k\x02\x02\xF2\xF3\x07p\x02\x02\xF3\x1C\x03\x02\x02\x02\xF4\xF5\x07"+
+		"y\x02\x02\xF5\xF6\x07j\x02\x02\xF6\xF7\x07k\x02\x02\xF7\xF8\x07n\x02\x02"+
+		"\xF8\xF9\x07g\x02\x02\xF9\x1E\x03\x02\x02\x02\xFA\xFB\x07k\x02\x02\xFB"+
+		"\xFC\x07h\x02\x02\xFC \x03\x02\x02\x02\xFD\xFE\x07g\x02\x02\xFE\xFF\x07"+
+		"n\x02\x02\xFF\u0100\x07u\x02\x02\u0100\u0101\x07g\x02\x02\u0101\"\x03"+
+		"\x02\x02\x02\u0102\u0103\x07d\x02\x02\u0103\u0104\x07t\x02\x02\u0104\u0105"+
+		"\x07g\x02\x02\u0105\u0106\x07c\x02\x02\u0106\u0107\x07m\x02\x02\u0107"+
+		"$\x03\x02\x02\x02\u0108\u0109\x07e\x02\x02\u0109\u010A\x07q\x02\x02\u010A"+
+		"\u010B\x07p\x02\x02\u010B\u010C\x07v\x02\x02\u010C\u010D\x07k\x02\x02"+
+		"\u010D\u010E\x07p\x02\x02\u010E\u010F\x07w\x02\x02\u010F\u0110\x07g\x02"+
+		"\x02\u0110&\x03\x02\x02\x02\u0111\u0112\x07t\x02\x02\u0112\u0113\x07g"+
+		"\x02\x02\u0113\u0114\x07v\x02\x02\u0114\u0115\x07w\x02\x02\u0115\u0116"+
+		"\x07t\x02\x02\u0116\u0117\x07p\x02\x02\u0117(\x03\x02\x02\x02\u0118\u0119"+
+		"\x07o\x02\x02\u0119\u011A\x07g\x02\x02\u011A\u011B\x07c\x02\x02\u011B"+
+		"\u011C\x07u\x02\x02\u011C\u011D\x07w\x02\x02\u011D\u011E\x07t\x02\x02"+
+		"\u011E\u011F\x07g\x02\x02\u011F*\x03\x02\x02\x02\u0120\u0121\x07t\x02"+
+		"\x02\u0121\u0122\x07g\x02\x02\u0122\u0123\x07u\x02\x02\u0123\u0124\x07"+
+		"g\x02\x02\u0124\u0125\x07v\x02\x02\u0125,\x03\x02\x02\x02\u0126\u0127"+
+		"\x07d\x02\x02\u0127\u0128\x07c\x02\x02\u0128\u0129\x07t\x02\x02\u0129"+
+		"\u012A\x07t\x02\x02\u012A\u012B\x07k\x02\x02\u012B\u012C\x07g\x02\x02"+
+		"\u012C\u012D\x07t\x02\x02\u012D.\x03\x02\x02\x02\u012E\u012F\x07v\x02"+
+		"\x02\u012F\u0130\x07t\x02\x02\u0130\u0131\x07w\x02\x02\u0131\u0132\x07"+
+		"g\x02\x02\u01320\x03\x02\x02\x02\u0133\u0134\x07h\x02\x02\u0134\u0135"+
+		"\x07c\x02\x02\u0135\u0136\x07n\x02\x02\u0136\u0137\x07u\x02\x02\u0137"+
+		"\u0138\x07g\x02\x02\u01382\x03\x02\x02\x02\u0139\u013A\x07d\x02\x02\u013A"+
+		"\u013B\x07k\x02\x02\u013B\u013C\x07v\x02\x02\u013C4\x03\x02\x02\x02\u013D"+
+		"\u013E\x07k\x02\x02\u013E\u013F\x07p\x02\x02\u013F\u0140\x07v\x02\x02"+
+		"\u01406\x03\x02\x02\x02\u0141\u0142\x07w\x02\x02\u0142\u0143\x07k\x02"+
+		"\x02\u0143\u0144\x07p\x02\x02\u0144\u0145\x07v\x02\x02\u01458\x03\x02"+
+		"\x02\x02\u0146\u0147\x07h\x02\x02\u0147\u0148\x07n\x02\x02\u0148\u0149"+
+		"\x07q\x02\x02\u0149\u014A\x07c\x02\x02\u014A\u014B\x07v\x02\x02\u014B"+
+		":\x03\x02\x02\x02\u014C\u014D\x07c\x02\x02\u014D\u014E\x07p\x02\x02\u014E"+
+		"\u014F\x07i\x02\x02\u014F\u0150\x07n\x02\x02\u0150\u0151\x07g\x02\x02"+
+		"\u0151<\x03\x02\x02\x02\u0152\u0153\x07d\x02\x02\u0153\u0154\x07q\x02"+
+		"\x02\u0154\u0155\x07q\x02\x02\u0155\u0156\x07n\x02\x02\u0156>\x03\x02"+
+		"\x02\x02\u0157\u0158\x07e\x02\x02\u0158\u0159\x07v\x02\x02\u0159\u015A"+
+		"\x07t\x02\x02\u015A\u015B\x07n\x02\x02\u015B@\x03\x02\x02\x02\u015C\u015D"+
+		"\x07p\x02\x02\u015D\u015E\x07g\x02\x02\u015E\u015F\x07i\x02\x02\u015F"+
+		"\u0160\x07e\x02\x02\u0160\u0161\x07v\x02\x02\u0161\u0162\x07t\x02\x02"+
+		"\u0162\u0163\x07n\x02\x02\u0163B\x03\x02\x02\x02\u0164\u0165\x07k\x02"+
+		"\x02\u0165\u0166\x07p\x02\x02\u0166\u0167\x07x\x02\x02\u0167D\x03\x02"+
+		"\x02\x02\u0168\u0169\x07r\x02\x02\u0169\u016A\x07q\x02\x02\u016A\u016B"+
+		"\x07y\x02\x02\u016BF\x03\x02\x02\x02\u016C\u016D\x07/\x02\x02\u016D\u016E"+
+		"\x07@\x02\x02\u016EH\x03\x02\x02\x02\u016F\u0170\x07?\x02\x02\u0170\u0171"+
+		"\x07?\x02\x02\u0171J\x03\x02\x02\x02\u0172\u0173\x07#\x02\x02\u0173\u0174"+
+		"\x07?\x02\x02\u0174L\x03\x02\x02\x02\u0175\u0176\x07>\x02\x02\u0176\u0177"+
+		"\x07?\x02\x02\u0177N\x03\x02\x02\x02\u0178\u0179\x07@\x02\x02\u0179\u017A"+
+		"\x07?\x02\x02\u017AP\x03\x02\x02\x02\u017B\u017C\x07(\x02\x02\u017C\u017D"+
+		"\x07(\x02\x02\u017DR\x03\x02\x02\x02\u017E\u017F\x07~\x02\x02\u017F\u0180"+
+		"\x07~\x02\x02\u0180T\x03\x02\x02\x02\u0181\u0182\x07>\x02\x02\u0182\u0183"+
+		"\x07>\x02\x02\u0183V\x03\x02\x02\x02\u0184\u0185\x07@\x02\x02\u0185\u0186"+
+		"\x07@\x02\x02\u0186X\x03\x02\x02\x02\u0187\u0188\x07,\x02\x02\u0188\u0189"+
+		"\x07,\x02\x02\u0189Z\x03\x02\x02\x02\u018A\u018B\x07-\x02\x02\u018B\u018C"+
+		"\x07?\x02\x02\u018C\\\x03\x02\x02\x02\u018D\u018E\x07/\x02\x02\u018E\u018F"+
+		"\x07?\x02\x02\u018F^\x03\x02\x02\x02\u0190\u0191\x07,\x02\x02\u0191\u0192"+
+		"\x07?\x02\x02\u0192`\x03\x02\x02\x02\u0193\u0194\x071\x02\x02\u0194\u0195"+
+		"\x07?\x02\x02\u0195b\x03\x02\x02\x02\u0196\u0197\x07=\x02\x02\u0197d\x03"+
+		"\x02\x02\x02\u0198\u0199\x07.\x02\x02\u0199f\x03\x02\x02\x02\u019A\u019B"+
+		"\x07<\x02\x02\u019Bh\x03\x02\x02\x02\u019C\u019D\x07B\x02\x02\u019Dj\x03"+
+		"\x02\x02\x02\u019E\u019F\x07*\x02\x02\u019Fl\x03\x02\x02\x02\u01A0\u01A1"+
+		"\x07+\x02\x02\u01A1n\x03\x02\x02\x02\u01A2\u01A3\x07]\x02\x02\u01A3p\x03"+
+		"\x02\x02\x02\u01A4\u01A5\x07_\x02\x02\u01A5r\x03\x02\x02\x02\u01A6\u01A7"+
+		"\x07}\x02\x02\u01A7t\x03\x02\x02\x02\u01A8\u01A9\x07\x7F\x02\x02\u01A9"+
+		"v\x03\x02\x02\x02\u01AA\u01AB\x07?\x02\x02\u01ABx\x03\x02\x02\x02\u01AC"+
+		"\u01AD\x07-\x02\x02\u01ADz\x03\x02\x02\x02\u01AE\u01AF\x07/\x02\x02\u01AF"+
+		"|\x03\x02\x02\x02\u01B0\u01B1\x07,\x02\x02\u01B1~\x03\x02\x02\x02\u01B2"+
+		"\u01B3\x071\x02\x02\u01B3\x80\x03\x02\x02\x02\u01B4\u01B5\x07\'\x02\x02"+
+		"\u01B5\x82\x03\x02\x02\x02\u01B6\u01B7\x07>\x02\x02\u01B7\x84\x03\x02"+
+		"\x02\x02\u01B8\u01B9\x07@\x02\x02\u01B9\x86\x03\x02\x02\x02\u01BA\u01BB"+
+		"\x07#\x02\x02\u01BB\x88\x03\x02\x02\x02\u01BC\u01BD\x07\x80\x02\x02\u01BD"+
+		"\x8A\x03\x02\x02\x02\u01BE\u01BF\x07(\x02\x02\u01BF\x8C\x03\x02\x02\x02"+
+		"\u01C0\u01C1\x07~\x02\x02\u01C1\x8E\x03\x02\x02\x02\u01C2\u01C3\x07`\x02"+
+		"\x02\u01C3\x90\x03\x02\x02\x02\u01C4\u01C6\t\x04\x02\x02\u01C5\u01C4\x03"+
+		"\x02\x02\x02\u01C6\u01C7\x03\x02\x02\x02\u01C7\u01C5\x03\x02\x02\x02\u01C7"+
+		"\u01C8\x03\x02\x02\x02\u01C8\u01D0\x03\x02\x02\x02\u01C9\u01CD\x070\x02"+
+		"\x02\u01CA\u01CC\t\x04\x02\x02\u01CB\u01CA\x03\x02\x02\x02\u01CC\u01CF"+
+		"\x03\x02\x02\x02\u01CD\u01CB\x03\x02\x02\x02\u01CD\u01CE\x03\x02\x02\x02"+
+		"\u01CE\u01D1\x03\x02\x02\x02\u01CF\u01CD\x03\x02\x02\x02\u01D0\u01C9\x03"+
+		"\x02\x02\x02\u01D0\u01D1\x03\x02\x02\x02\u01D1\u01D9\x03\x02\x02\x02\u01D2"+
+		"\u01D4\x070\x02\x02\u01D3\u01D5\t\x04\x02\x02\u01D4\u01D3\x03\x02\x02"+
+		"\x02\u01D5\u01D6\x03\x02\x02\x02\u01D6\u01D4\x03\x02\x02\x02\u01D6\u01D7"+
+		"\x03\x02\x02\x02\u01D7\u01D9\x03\x02\x02\x02\u01D8\u01C5\x03\x02\x02\x02"+
+		"\u01D8\u01D2\x03\x02\x02\x02\u01D9\u01E3\x03\x02\x02\x02\u01DA\u01DC\t"+
+		"\x05\x02\x02\u01DB\u01DD\t\x06\x02\x02\u01DC\u01DB\x03\x02\x02\x02\u01DC"+
+		"\u01DD\x03\x02\x02\x02\u01DD\u01DF\x03\x02\x02\x02\u01DE\u01E0\t\x04\x02"+
+		"\x02\u01DF\u01DE\x03\x02\x02\x02\u01E0\u01E1\x03\x02\x02\x02\u01E1\u01DF"+
+		"\x03\x02\x02\x02\u01E1\u01E2\x03\x02\x02\x02\u01E2\u01E4\x03\x02\x02\x02"+
+		"\u01E3\u01DA\x03\x02\x02\x02\u01E3\u01E4\x03\x02\x02\x02\u01E4\x92\x03"+
+		"\x02\x02\x02\u01E5\u01E9\x07$\x02\x02\u01E6\u01E8\n\x07\x02\x02\u01E7"+
+		"\u01E6\x03\x02\x02\x02\u01E8\u01EB\x03\x02\x02\x02\u01E9\u01E7\x03\x02"+
+		"\x02\x02\u01E9\u01EA\x03\x02\x02\x02\u01EA\u01EC\x03\x02\x02\x02\u01EB"+
+		"\u01E9\x03\x02\x02\x02\u01EC\u01F6\x07$\x02\x02\u01ED\u01F1\x07)\x02\x02"+
+		"\u01EE\u01F0\n\b\x02\x02\u01EF\u01EE\x03\x02\x02\x02\u01F0\u01F3\x03\x02"+
+		"\x02\x02\u01F1\u01EF\x03\x02\x02\x02\u01F1\u01F2\x03\x02\x02\x02\u01F2"+
+		"\u01F4\x03\x02\x02\x02\u01F3\u01F1\x03\x02\x02\x02\u01F4\u01F6\x07)\x02"+
+		"\x02\u01F5\u01E5\x03\x02\x02\x02\u01F5\u01ED\x03\x02\x02\x02\u01F6\x94"+
+		"\x03\x02\x02\x02\u01F7\u01FB\t\t\x02\x02\u01F8\u01FA\t\n\x02\x02\u01F9"+
+		"\u01F8\x03\x02\x02\x02\u01FA\u01FD\x03\x02\x02\x02\u01FB\u01F9\x03\x02"+
+		"\x02\x02\u01FB\u01FC\x03\x02\x02\x02\u01FC\x96\x03\x02\x02\x02\u01FD\u01FB"+
+		"\x03\x02\x02\x02\u01FE\u0202\x07$\x02\x02\u01FF\u0201\n\x07\x02\x02\u0200"+
+		"\u01FF\x03\x02\x02\x02\u0201\u0204\x03\x02\x02\x02\u0202\u0200\x03\x02"+
+		"\x02\x02\u0202\u0203\x03\x02\x02\x02\u0203\u020D\x03\x02\x02\x02\u0204"+
+		"\u0202\x03\x02\x02\x02\u0205\u0209\x07)\x02\x02\u0206\u0208\n\b\x02\x02"+
+		"\u0207\u0206\x03\x02\x02\x02\u0208\u020B\x03\x02\x02\x02\u0209\u0207\x03"+
+		"\x02\x02\x02\u0209\u020A\x03\x02\x02\x02\u020A\u020D\x03\x02\x02\x02\u020B"+
+		"\u0209\x03\x02\x02\x02\u020C\u01FE\x03\x02\x02\x02\u020C\u0205\x03\x02"+
+		"\x02\x02\u020D\u020E\x03\x02\x02\x02\u020E\u020F\bL\x03\x02\u020F\x98"+
+		"\x03\x02\x02\x02\u0210\u0211\v\x02\x02\x02\u0211\u0212\x03\x02\x02\x02"+
+		"\u0212\u0213\bM\x03\x02\u0213\x9A\x03\x02\x02\x02\x16\x02\xA1\xAC\xB2"+
+		"\xB9\u01C7\u01CD\u01D0\u01D6\u01D8\u01DC\u01E1\u01E3\u01E9\u01F1\u01F5"+
+		"\u01FB\u0202\u0209\u020C\x04\b\x02\x02\x02\x03\x02";
+	public static __ATN: ATN;
+	public static get _ATN(): ATN {
+		if (!QasmLexer3.__ATN) {
+			QasmLexer3.__ATN = new ATNDeserializer().deserialize(Utils.toCharArray(QasmLexer3._serializedATN));
+		}
+
+		return QasmLexer3.__ATN;
+	}
+
+}
+
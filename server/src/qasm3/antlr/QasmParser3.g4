@@ -0,0 +1,188 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+parser grammar QasmParser3;
+options { tokenVocab=QasmLexer3; }
+
+program
+    : header? statement* EOF
+    ;
+
+header
+    : OpenQasm version=Number Semi
+    ;
+
+statement
+    : include
+    | qubitDeclaration
+    | registerDeclaration
+    | classicalDeclaration
+    | gateDefinition
+    | subroutineDefinition
+    | forLoop
+    | whileLoop
+    | ifStatement
+    | loopControl
+    | returnStatement
+    | measureStatement
+    | resetStatement
+    | barrierStatement
+    | assignment
+    | expressionStatement
+    | gateCall
+    ;
+
+include
+    : Include file=StringLiteral Semi
+    ;
+
+qubitDeclaration
+    : Qubit designator? Identifier Semi
+    ;
+
+registerDeclaration
+    : keyword=(Qreg | Creg) Identifier designator? Semi
+    ;
+
+classicalDeclaration
+    : Const? classicalType Identifier (Equals valueExpression)? Semi
+    ;
+
+gateDefinition
+    : Gate Identifier (LeftParen parameters=identifierList? RightParen)? qubits=identifierList block
+    ;
+
+subroutineDefinition
+    : Def Identifier LeftParen (subroutineArgument (Comma subroutineArgument)*)? RightParen (Arrow classicalType)? block
+    ;
+
+subroutineArgument
+    : Qubit designator? Identifier
+    | classicalType Identifier
+    ;
+
+forLoop
+    : For classicalType? Identifier In iterable body
+    ;
+
+iterable
+    : LeftBracket expression Colon expression (Colon expression)? RightBracket   # rangeIterable
+    | LeftCurlyBrace expressionList RightCurlyBrace                             # setIterable
+    | expression                                                                 # expressionIterable
+    ;
+
+whileLoop
+    : While LeftParen expression RightParen body
+    ;
+
+ifStatement
+    : If LeftParen expression RightParen body (Else elseBody=body)?
+    ;
+
+loopControl
+    : keyword=(Break | Continue) Semi
+    ;
+
+returnStatement
+    : Return valueExpression? Semi
+    ;
+
+measureStatement
+    : measurement (Arrow operand)? Semi
+    ;
+
+resetStatement
+    : Reset operand Semi
+    ;
+
+barrierStatement
+    : Barrier operandList? Semi
+    ;
+
+assignment
+    : operand operator=(Equals | PlusEquals | MinusEquals | AsteriskEquals | SlashEquals) valueExpression Semi
+    ;
+
+expressionStatement
+    : call Semi
+    ;
+
+gateCall
+    : gateModifier* Identifier (LeftParen expressionList? RightParen)? operandList? Semi
+    ;
+
+gateModifier
+    : name=(Ctrl | NegCtrl | Inv | Pow) (LeftParen expression RightParen)? At
+    ;
+
+body
+    : block
+    | statement
+    ;
+
+block
+    : LeftCurlyBrace statement* RightCurlyBrace
+    ;
+
+classicalType
+    : name=(Bit | Int | Uint | Float | Angle | Bool) designator?
+    ;
+
+designator
+    : LeftBracket expression RightBracket
+    ;
+
+valueExpression
+    : measurement
+    | expression
+    ;
+
+measurement
+    : Measure operand
+    ;
+
+expression
+    : Number                                                                    # numberLiteral
+    | value=(True | False)                                                      # booleanLiteral
+    | LeftParen expression RightParen                                           # parenthesisExpression
+    | call                                                                      # callExpression
+    | Identifier designator?                                                    # identifierExpression
+    | <assoc=right> expression operator=DoubleAsterisk expression               # binaryExpression
+    | operator=(Minus | ExclamationPoint | Tilde) expression                    # unaryExpression
+    | expression operator=(Asterisk | Slash | Percent) expression               # binaryExpression
+    | expression operator=(Plus | Minus) expression                             # binaryExpression
+    | expression operator=(LeftShift | RightShift) expression                   # binaryExpression
+    | expression operator=(Less | Greater | LessEquals | GreaterEquals) expression  # binaryExpression
+    | expression operator=(DoubleEquals | NotEquals) expression                 # binaryExpression
+    | expression operator=Ampersand expression                                  # binaryExpression
+    | expression operator=Caret expression                                      # binaryExpression
+    | expression operator=Pipe expression                                       # binaryExpression
+    | expression operator=DoubleAmpersand expression                            # binaryExpression
+    | expression operator=DoublePipe expression                                 # binaryExpression
+    ;
+
+call
+    : Identifier LeftParen expressionList? RightParen
+    ;
+
+expressionList
+    : expression (Comma expression)*
+    ;
+
+operand
+    : Identifier designator?
+    ;
+
+operandList
+    : operand (Comma operand)*
+    ;
+
+identifierList
+    : Identifier (Comma Identifier)*
+    ;
@@ -0,0 +1,3843 @@
+// Generated from QasmParser3.g4 by ANTLR 4.6-SNAPSHOT
+
+
+import { ATN } from 'antlr4ts/atn/ATN';
+import { ATNDeserializer } from 'antlr4ts/atn/ATNDeserializer';
+import { FailedPredicateException } from 'antlr4ts/FailedPredicateException';
+import { NotNull } from 'antlr4ts/Decorators';
+import { NoViableAltException } from 'antlr4ts/NoViableAltException';
+import { Override } from 'antlr4ts/Decorators';
+import { Parser } from 'antlr4ts/Parser';
+import { ParserRuleContext } from 'antlr4ts/ParserRuleContext';
+import { ParserATNSimulator } from 'antlr4ts/atn/ParserATNSimulator';
+import { ParseTreeListener } from 'antlr4ts/tree/ParseTreeListener';
+import { ParseTreeVisitor } from 'antlr4ts/tree/ParseTreeVisitor';
+import { RecognitionException } from 'antlr4ts/RecognitionException';
+import { RuleContext } from 'antlr4ts/RuleContext';
+import { RuleVersion } from 'antlr4ts/RuleVersion';
+import { TerminalNode } from 'antlr4ts/tree/TerminalNode';
+import { Token } from 'antlr4ts/Token';
+import { TokenStream } from 'antlr4ts/TokenStream';
+import { Vocabulary } from 'antlr4ts/Vocabulary';
+import { VocabularyImpl } from 'antlr4ts/VocabularyImpl';
+
+import * as Utils from 'antlr4ts/misc/Utils';
+
+import { QasmParser3Listener } from './QasmParser3Listener';
+import { QasmParser3Visitor } from './QasmParser3Visitor';
+
+
+export class QasmParser3 extends Parser {
+	public static readonly LineComment=1;
+	public static readonly BlockComment=2;
+	public static readonly WhiteSpace=3;
+	public static readonly OpenQasm=4;
+	public static readonly Include=5;
+	public static readonly Qubit=6;
+	public static readonly Qreg=7;
+	public static readonly Creg=8;
+	public static readonly Const=9;
+	public static readonly Gate=10;
+	public static readonly Def=11;
+	public static readonly For=12;
+	public static readonly In=13;
+	public static readonly While=14;
+	public static readonly If=15;
+	public static readonly Else=16;
+	public static readonly Break=17;
+	public static readonly Continue=18;
+	public static readonly Return=19;
+	public static readonly Measure=20;
+	public static readonly Reset=21;
+	public static readonly Barrier=22;
+	public static readonly True=23;
+	public static readonly False=24;
+	public static readonly Bit=25;
+	public static readonly Int=26;
+	public static readonly Uint=27;
+	public static readonly Float=28;
+	public static readonly Angle=29;
+	public static readonly Bool=30;
+	public static readonly Ctrl=31;
+	public static readonly NegCtrl=32;
+	public static readonly Inv=33;
+	public static readonly Pow=34;
+	public static readonly Arrow=35;
+	public static readonly DoubleEquals=36;
+	public static readonly NotEquals=37;
+	public static readonly LessEquals=38;
+	public static readonly GreaterEquals=39;
+	public static readonly DoubleAmpersand=40;
+	public static readonly DoublePipe=41;
+	public static readonly LeftShift=42;
+	public static readonly RightShift=43;
+	public static readonly DoubleAsterisk=44;
+	public static readonly PlusEquals=45;
+	public static readonly MinusEquals=46;
+	public static readonly AsteriskEquals=47;
+	public static readonly SlashEquals=48;
+	public static readonly Semi=49;
+	public static readonly Comma=50;
+	public static readonly Colon=51;
+	public static readonly At=52;
+	public static readonly LeftParen=53;
+	public static readonly RightParen=54;
+	public static readonly LeftBracket=55;
+	public static readonly RightBracket=56;
+	public static readonly LeftCurlyBrace=57;
+	public static readonly RightCurlyBrace=58;
+	public static readonly Equals=59;
+	public static readonly Plus=60;
+	public static readonly Minus=61;
+	public static readonly Asterisk=62;
+	public static readonly Slash=63;
+	public static readonly Percent=64;
+	public static readonly Less=65;
+	public static readonly Greater=66;
+	public static readonly ExclamationPoint=67;
+	public static readonly Tilde=68;
+	public static readonly Ampersand=69;
+	public static readonly Pipe=70;
+	public static readonly Caret=71;
+	public static readonly Number=72;
+	public static readonly StringLiteral=73;
+	public static readonly Identifier=74;
+	public static readonly UnterminatedString=75;
+	public static readonly UnexpectedCharacter=76;
+	public static readonly RULE_program = 0;
+	public static readonly RULE_header = 1;
+	public static readonly RULE_statement = 2;
+	public static readonly RULE_include = 3;
+	public static readonly RULE_qubitDeclaration = 4;
+	public static readonly RULE_registerDeclaration = 5;
+	public static readonly RULE_classicalDeclaration = 6;
+	public static readonly RULE_gateDefinition = 7;
+	public static readonly RULE_subroutineDefinition = 8;
+	public static readonly RULE_subroutineArgument = 9;
+	public static readonly RULE_forLoop = 10;
+	public static readonly RULE_iterable = 11;
+	public static readonly RULE_whileLoop = 12;
+	public static readonly RULE_ifStatement = 13;
+	public static readonly RULE_loopControl = 14;
+	public static readonly RULE_returnStatement = 15;
+	public static readonly RULE_measureStatement = 16;
+	public static readonly RULE_resetStatement = 17;
+	public static readonly RULE_barrierStatement = 18;
+	public static readonly RULE_assignment = 19;
+	public static readonly RULE_expressionStatement = 20;
+	public static readonly RULE_gateCall = 21;
+	public static readonly RULE_gateModifier = 22;
+	public static readonly RULE_body = 23;
+	public static readonly RULE_block = 24;
+	public static readonly RULE_classicalType = 25;
+	public static readonly RULE_designator = 26;
+	public static readonly RULE_valueExpression = 27;
+	public static readonly RULE_measurement = 28;
+	public static readonly RULE_expression = 29;
+	public static readonly RULE_call = 30;
+	public static readonly RULE_expressionList = 31;
+	public static readonly RULE_operand = 32;
+	public static readonly RULE_operandList = 33;
+	public static readonly RULE_identifierList = 34;
+	public static readonly ruleNames: string[] = [
+		"program", "header", "statement", "include", "qubitDeclaration", "registerDeclaration", 
+		"classicalDeclaration", "gateDefinition", "subroutineDefinition", "subroutineArgument", 
+		"forLoop", "iterable", "whileLoop", "ifStatement", "loopControl", "returnStatement", 
+		"measureStatement", "resetStatement", "barrierStatement", "assignment", 
+		"expressionStatement", "gateCall", "gateModifier", "body", "block", "classicalType", 
+		"designator", "valueExpression", "measurement", "expression", "call", 
+		"expressionList", "operand", "operandList", "identifierList"
+	];
+
+	private static readonly _LITERAL_NAMES: (string | undefined)[] = [
+		undefined, undefined, undefined, undefined, "'OPENQASM'", "'include'", 
+		"'qubit'", "'qreg'", "'creg'", "'const'", "'gate'", "'def'", "'for'", 
+		"'in'", "'while'", "'if'", "'else'", "'break'", "'continue'", "'return'", 
+		"'measure'", "'reset'", "'barrier'", "'true'", "'false'", "'bit'", "'int'", 
+		"'uint'", "'float'", "'angle'", "'bool'", "'ctrl'", "'negctrl'", "'inv'", 
+		"'pow'", "'->'", "'=='", "'!='", "'<='", "'>='", "'&&'", "'||'", "'<<'", 
+		"'>>'", "'**'", "'+='", "'-='", "'*='", "'/='", "';'", "','", "':'", "'@'", 
+		"'('", "')'", "'['", "']'", "'{'", "'}'", "'='", "'+'", "'-'", "'*'", 
+		"'/'", "'%'", "'<'", "'>'", "'!'", "'~'", "'&'", "'|'", "'^'"
+	];
+	private static readonly _SYMBOLIC_NAMES: (string | undefined)[] = [
+		undefined, "LineComment", "BlockComment", "WhiteSpace", "OpenQasm", "Include", 
+		"Qubit", "Qreg", "Creg", "Const", "Gate", "Def", "For", "In", "While", 
+		"If", "Else", "Break", "Continue", "Return", "Measure", "Reset", "Barrier", 
+		"True", "False", "Bit", "Int", "Uint", "Float", "Angle", "Bool", "Ctrl", 
+		"NegCtrl", "Inv", "Pow", "Arrow", "DoubleEquals", "NotEquals", "LessEquals", 
+		"GreaterEquals", "DoubleAmpersand", "DoublePipe", "LeftShift", "RightShift", 
+		"DoubleAsterisk", "PlusEquals", "MinusEquals", "AsteriskEquals", "SlashEquals", 
+		"Semi", "Comma", "Colon", "At", "LeftParen", "RightParen", "LeftBracket", 
+		"RightBracket", "LeftCurlyBrace", "RightCurlyBrace", "Equals", "Plus", 
+		"Minus", "Asterisk", "Slash", "Percent", "Less", "Greater", "ExclamationPoint", 
+		"Tilde", "Ampersand", "Pipe", "Caret", "Number", "StringLiteral", "Identifier", 
+		"UnterminatedString", "UnexpectedCharacter"
+	];
+	public static readonly VOCABULARY: Vocabulary = new VocabularyImpl(QasmParser3._LITERAL_NAMES, QasmParser3._SYMBOLIC_NAMES, []);
+
+	@Override
+	@NotNull
+	public get vocabulary(): Vocabulary {
+		return QasmParser3.VOCABULARY;
+	}
+
+	@Override
+	public get grammarFileName(): string { return "QasmParser3.g4"; }
+
+	@Override
+	public get ruleNames(): string[] { return QasmParser3.ruleNames; }
+
+	@Override
+	public get serializedATN(): string { return QasmParser3._serializedATN; }
+
+	constructor(input: TokenStream) {
+		super(input);
+		this._interp = new ParserATNSimulator(QasmParser3._ATN, this);
+	}
+	@RuleVersion(0)
+	public program(): ProgramContext {
+		let _localctx: ProgramContext = new ProgramContext(this._ctx, this.state);
+		this.enterRule(_localctx, 0, QasmParser3.RULE_program);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 71;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.OpenQasm) {
+				{
+				this.state = 70;
+				this.header();
+				}
+			}
+
+			this.state = 76;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			while (((((_la - 5)) & ~0x1F) === 0 && ((1 << (_la - 5)) & ((1 << (QasmParser3.Include - 5)) | (1 << (QasmParser3.Qubit - 5)) | (1 << (QasmParser3.Qreg - 5)) | (1 << (QasmParser3.Creg - 5)) | (1 << (QasmParser3.Const - 5)) | (1 << (QasmParser3.Gate - 5)) | (1 << (QasmParser3.Def - 5)) | (1 << (QasmParser3.For - 5)) | (1 << (QasmParser3.While - 5)) | (1 << (QasmParser3.If - 5)) | (1 << (QasmParser3.Break - 5)) | (1 << (QasmParser3.Continue - 5)) | (1 << (QasmParser3.Return - 5)) | (1 << (QasmParser3.Measure - 5)) | (1 << (QasmParser3.Reset - 5)) | (1 << (QasmParser3.Barrier - 5)) | (1 << (QasmParser3.Bit - 5)) | (1 << (QasmParser3.Int - 5)) | (1 << (QasmParser3.Uint - 5)) | (1 << (QasmParser3.Float - 5)) | (1 << (QasmParser3.Angle - 5)) | (1 << (QasmParser3.Bool - 5)) | (1 << (QasmParser3.Ctrl - 5)) | (1 << (QasmParser3.NegCtrl - 5)) | (1 << (QasmParser3.Inv - 5)) | (1 << (QasmParser3.Pow - 5)))) !== 0) || _la===QasmParser3.Identifier) {
+				{
+				{
+				this.state = 73;
+				this.statement();
+				}
+				}
+				this.state = 78;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+			}
+			this.state = 79;
+			this.match(QasmParser3.EOF);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public header(): HeaderContext {
+		let _localctx: HeaderContext = new HeaderContext(this._ctx, this.state);
+		this.enterRule(_localctx, 2, QasmParser3.RULE_header);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 81;
+			this.match(QasmParser3.OpenQasm);
+			this.state = 82;
+			_localctx._version = this.match(QasmParser3.Number);
+			this.state = 83;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public statement(): StatementContext {
+		let _localctx: StatementContext = new StatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 4, QasmParser3.RULE_statement);
+		try {
+			this.state = 102;
+			this._errHandler.sync(this);
+			switch ( this.interpreter.adaptivePredict(this._input,2,this._ctx) ) {
+			case 1:
+				this.enterOuterAlt(_localctx, 1);
+				{
+				this.state = 85;
+				this.include();
+				}
+				break;
+
+			case 2:
+				this.enterOuterAlt(_localctx, 2);
+				{
+				this.state = 86;
+				this.qubitDeclaration();
+				}
+				break;
+
+			case 3:
+				this.enterOuterAlt(_localctx, 3);
+				{
+				this.state = 87;
+				this.registerDeclaration();
+				}
+				break;
+
+			case 4:
+				this.enterOuterAlt(_localctx, 4);
+				{
+				this.state = 88;
+				this.classicalDeclaration();
+				}
+				break;
+
+			case 5:
+				this.enterOuterAlt(_localctx, 5);
+				{
+				this.state = 89;
+				this.gateDefinition();
+				}
+				break;
+
+			case 6:
+				this.enterOuterAlt(_localctx, 6);
+				{
+				this.state = 90;
+				this.subroutineDefinition();
+				}
+				break;
+
+			case 7:
+				this.enterOuterAlt(_localctx, 7);
+				{
+				this.state = 91;
+				this.forLoop();
+				}
+				break;
+
+			case 8:
+				this.enterOuterAlt(_localctx, 8);
+				{
+				this.state = 92;
+				this.whileLoop();
+				}
+				break;
+
+			case 9:
+				this.enterOuterAlt(_localctx, 9);
+				{
+				this.state = 93;
+				this.ifStatement();
+				}
+				break;
+
+			case 10:
+				this.enterOuterAlt(_localctx, 10);
+				{
+				this.state = 94;
+				this.loopControl();
+				}
+				break;
+
+			case 11:
+				this.enterOuterAlt(_localctx, 11);
+				{
+				this.state = 95;
+				this.returnStatement();
+				}
+				break;
+
+			case 12:
+				this.enterOuterAlt(_localctx, 12);
+				{
+				this.state = 96;
+				this.measureStatement();
+				}
+				break;
+
+			case 13:
+				this.enterOuterAlt(_localctx, 13);
+				{
+				this.state = 97;
+				this.resetStatement();
+				}
+				break;
+
+			case 14:
+				this.enterOuterAlt(_localctx, 14);
+				{
+				this.state = 98;
+				this.barrierStatement();
+				}
+				break;
+
+			case 15:
+				this.enterOuterAlt(_localctx, 15);
+				{
+				this.state = 99;
+				this.assignment();
+				}
+				break;
+
+			case 16:
+				this.enterOuterAlt(_localctx, 16);
+				{
+				this.state = 100;
+				this.expressionStatement();
+				}
+				break;
+
+			case 17:
+				this.enterOuterAlt(_localctx, 17);
+				{
+				this.state = 101;
+				this.gateCall();
+				}
+				break;
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public include(): IncludeContext {
+		let _localctx: IncludeContext = new IncludeContext(this._ctx, this.state);
+		this.enterRule(_localctx, 6, QasmParser3.RULE_include);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 104;
+			this.match(QasmParser3.Include);
+			this.state = 105;
+			_localctx._file = this.match(QasmParser3.StringLiteral);
+			this.state = 106;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public qubitDeclaration(): QubitDeclarationContext {
+		let _localctx: QubitDeclarationContext = new QubitDeclarationContext(this._ctx, this.state);
+		this.enterRule(_localctx, 8, QasmParser3.RULE_qubitDeclaration);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 108;
+			this.match(QasmParser3.Qubit);
+			this.state = 110;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftBracket) {
+				{
+				this.state = 109;
+				this.designator();
+				}
+			}
+
+			this.state = 112;
+			this.match(QasmParser3.Identifier);
+			this.state = 113;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public registerDeclaration(): RegisterDeclarationContext {
+		let _localctx: RegisterDeclarationContext = new RegisterDeclarationContext(this._ctx, this.state);
+		this.enterRule(_localctx, 10, QasmParser3.RULE_registerDeclaration);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 115;
+			_localctx._keyword = this._input.LT(1);
+			_la = this._input.LA(1);
+			if ( !(_la===QasmParser3.Qreg || _la===QasmParser3.Creg) ) {
+				_localctx._keyword = this._errHandler.recoverInline(this);
+			} else {
+				if (this._input.LA(1) === Token.EOF) {
+					this.matchedEOF = true;
+				}
+
+				this._errHandler.reportMatch(this);
+				this.consume();
+			}
+			this.state = 116;
+			this.match(QasmParser3.Identifier);
+			this.state = 118;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftBracket) {
+				{
+				this.state = 117;
+				this.designator();
+				}
+			}
+
+			this.state = 120;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public classicalDeclaration(): ClassicalDeclarationContext {
+		let _localctx: ClassicalDeclarationContext = new ClassicalDeclarationContext(this._ctx, this.state);
+		this.enterRule(_localctx, 12, QasmParser3.RULE_classicalDeclaration);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 123;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.Const) {
+				{
+				this.state = 122;
+				this.match(QasmParser3.Const);
+				}
+			}
+
+			this.state = 125;
+			this.classicalType();
+			this.state = 126;
+			this.match(QasmParser3.Identifier);
+			this.state = 129;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.Equals) {
+				{
+				this.state = 127;
+				this.match(QasmParser3.Equals);
+				this.state = 128;
+				this.valueExpression();
+				}
+			}
+
+			this.state = 131;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public gateDefinition(): GateDefinitionContext {
+		let _localctx: GateDefinitionContext = new GateDefinitionContext(this._ctx, this.state);
+		this.enterRule(_localctx, 14, QasmParser3.RULE_gateDefinition);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 133;
+			this.match(QasmParser3.Gate);
+			this.state = 134;
+			this.match(QasmParser3.Identifier);
+			this.state = 140;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftParen) {
+				{
+				this.state = 135;
+				this.match(QasmParser3.LeftParen);
+				this.state = 137;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+				if (_la===QasmParser3.Identifier) {
+					{
+					this.state = 136;
+					_localctx._parameters = this.identifierList();
+					}
+				}
+
+				this.state = 139;
+				this.match(QasmParser3.RightParen);
+				}
+			}
+
+			this.state = 142;
+			_localctx._qubits = this.identifierList();
+			this.state = 143;
+			this.block();
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public subroutineDefinition(): SubroutineDefinitionContext {
+		let _localctx: SubroutineDefinitionContext = new SubroutineDefinitionContext(this._ctx, this.state);
+		this.enterRule(_localctx, 16, QasmParser3.RULE_subroutineDefinition);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 145;
+			this.match(QasmParser3.Def);
+			this.state = 146;
+			this.match(QasmParser3.Identifier);
+			this.state = 147;
+			this.match(QasmParser3.LeftParen);
+			this.state = 156;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if ((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << QasmParser3.Qubit) | (1 << QasmParser3.Bit) | (1 << QasmParser3.Int) | (1 << QasmParser3.Uint) | (1 << QasmParser3.Float) | (1 << QasmParser3.Angle) | (1 << QasmParser3.Bool))) !== 0)) {
+				{
+				this.state = 148;
+				this.subroutineArgument();
+				this.state = 153;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+				while (_la===QasmParser3.Comma) {
+					{
+					{
+					this.state = 149;
+					this.match(QasmParser3.Comma);
+					this.state = 150;
+					this.subroutineArgument();
+					}
+					}
+					this.state = 155;
+					this._errHandler.sync(this);
+					_la = this._input.LA(1);
+				}
+				}
+			}
+
+			this.state = 158;
+			this.match(QasmParser3.RightParen);
+			this.state = 161;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.Arrow) {
+				{
+				this.state = 159;
+				this.match(QasmParser3.Arrow);
+				this.state = 160;
+				this.classicalType();
+				}
+			}
+
+			this.state = 163;
+			this.block();
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public subroutineArgument(): SubroutineArgumentContext {
+		let _localctx: SubroutineArgumentContext = new SubroutineArgumentContext(this._ctx, this.state);
+		this.enterRule(_localctx, 18, QasmParser3.RULE_subroutineArgument);
+		let _la: number;
+		try {
+			this.state = 173;
+			this._errHandler.sync(this);
+			switch (this._input.LA(1)) {
+			case QasmParser3.Qubit:
+				this.enterOuterAlt(_localctx, 1);
+				{
+				this.state = 165;
+				this.match(QasmParser3.Qubit);
+				this.state = 167;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+				if (_la===QasmParser3.LeftBracket) {
+					{
+					this.state = 166;
+					this.designator();
+					}
+				}
+
+				this.state = 169;
+				this.match(QasmParser3.Identifier);
+				}
+				break;
+			case QasmParser3.Bit:
+			case QasmParser3.Int:
+			case QasmParser3.Uint:
+			case QasmParser3.Float:
+			case QasmParser3.Angle:
+			case QasmParser3.Bool:
+				this.enterOuterAlt(_localctx, 2);
+				{
+				this.state = 170;
+				this.classicalType();
+				this.state = 171;
+				this.match(QasmParser3.Identifier);
+				}
+				break;
+			default:
+				throw new NoViableAltException(this);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public forLoop(): ForLoopContext {
+		let _localctx: ForLoopContext = new ForLoopContext(this._ctx, this.state);
+		this.enterRule(_localctx, 20, QasmParser3.RULE_forLoop);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 175;
+			this.match(QasmParser3.For);
+			this.state = 177;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if ((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << QasmParser3.Bit) | (1 << QasmParser3.Int) | (1 << QasmParser3.Uint) | (1 << QasmParser3.Float) | (1 << QasmParser3.Angle) | (1 << QasmParser3.Bool))) !== 0)) {
+				{
+				this.state = 176;
+				this.classicalType();
+				}
+			}
+
+			this.state = 179;
+			this.match(QasmParser3.Identifier);
+			this.state = 180;
+			this.match(QasmParser3.In);
+			this.state = 181;
+			this.iterable();
+			this.state = 182;
+			this.body();
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public iterable(): IterableContext {
+		let _localctx: IterableContext = new IterableContext(this._ctx, this.state);
+		this.enterRule(_localctx, 22, QasmParser3.RULE_iterable);
+		let _la: number;
+		try {
+			this.state = 199;
+			this._errHandler.sync(this);
+			switch (this._input.LA(1)) {
+			case QasmParser3.LeftBracket:
+				_localctx = new RangeIterableContext(_localctx);
+				this.enterOuterAlt(_localctx, 1);
+				{
+				this.state = 184;
+				this.match(QasmParser3.LeftBracket);
+				this.state = 185;
+				this.expression(0);
+				this.state = 186;
+				this.match(QasmParser3.Colon);
+				this.state = 187;
+				this.expression(0);
+				this.state = 190;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+				if (_la===QasmParser3.Colon) {
+					{
+					this.state = 188;
+					this.match(QasmParser3.Colon);
+					this.state = 189;
+					this.expression(0);
+					}
+				}
+
+				this.state = 192;
+				this.match(QasmParser3.RightBracket);
+				}
+				break;
+			case QasmParser3.LeftCurlyBrace:
+				_localctx = new SetIterableContext(_localctx);
+				this.enterOuterAlt(_localctx, 2);
+				{
+				this.state = 194;
+				this.match(QasmParser3.LeftCurlyBrace);
+				this.state = 195;
+				this.expressionList();
+				this.state = 196;
+				this.match(QasmParser3.RightCurlyBrace);
+				}
+				break;
+			case QasmParser3.True:
+			case QasmParser3.False:
+			case QasmParser3.LeftParen:
+			case QasmParser3.Minus:
+			case QasmParser3.ExclamationPoint:
+			case QasmParser3.Tilde:
+			case QasmParser3.Number:
+			case QasmParser3.Identifier:
+				_localctx = new ExpressionIterableContext(_localctx);
+				this.enterOuterAlt(_localctx, 3);
+				{
+				this.state = 198;
+				this.expression(0);
+				}
+				break;
+			default:
+				throw new NoViableAltException(this);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public whileLoop(): WhileLoopContext {
+		let _localctx: WhileLoopContext = new WhileLoopContext(this._ctx, this.state);
+		this.enterRule(_localctx, 24, QasmParser3.RULE_whileLoop);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 201;
+			this.match(QasmParser3.While);
+			this.state = 202;
+			this.match(QasmParser3.LeftParen);
+			this.state = 203;
+			this.expression(0);
+			this.state = 204;
+			this.match(QasmParser3.RightParen);
+			this.state = 205;
+			this.body();
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public ifStatement(): IfStatementContext {
+		let _localctx: IfStatementContext = new IfStatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 26, QasmParser3.RULE_ifStatement);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 207;
+			this.match(QasmParser3.If);
+			this.state = 208;
+			this.match(QasmParser3.LeftParen);
+			this.state = 209;
+			this.expression(0);
+			this.state = 210;
+			this.match(QasmParser3.RightParen);
+			this.state = 211;
+			this.body();
+			this.state = 214;
+			this._errHandler.sync(this);
+			switch ( this.interpreter.adaptivePredict(this._input,17,this._ctx) ) {
+			case 1:
+				{
+				this.state = 212;
+				this.match(QasmParser3.Else);
+				this.state = 213;
+				_localctx._elseBody = this.body();
+				}
+				break;
+			}
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public loopControl(): LoopControlContext {
+		let _localctx: LoopControlContext = new LoopControlContext(this._ctx, this.state);
+		this.enterRule(_localctx, 28, QasmParser3.RULE_loopControl);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 216;
+			_localctx._keyword = this._input.LT(1);
+			_la = this._input.LA(1);
+			if ( !(_la===QasmParser3.Break || _la===QasmParser3.Continue) ) {
+				_localctx._keyword = this._errHandler.recoverInline(this);
+			} else {
+				if (this._input.LA(1) === Token.EOF) {
+					this.matchedEOF = true;
+				}
+
+				this._errHandler.reportMatch(this);
+				this.consume();
+			}
+			this.state = 217;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public returnStatement(): ReturnStatementContext {
+		let _localctx: ReturnStatementContext = new ReturnStatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 30, QasmParser3.RULE_returnStatement);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 219;
+			this.match(QasmParser3.Return);
+			this.state = 221;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if ((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << QasmParser3.Measure) | (1 << QasmParser3.True) | (1 << QasmParser3.False))) !== 0) || ((((_la - 53)) & ~0x1F) === 0 && ((1 << (_la - 53)) & ((1 << (QasmParser3.LeftParen - 53)) | (1 << (QasmParser3.Minus - 53)) | (1 << (QasmParser3.ExclamationPoint - 53)) | (1 << (QasmParser3.Tilde - 53)) | (1 << (QasmParser3.Number - 53)) | (1 << (QasmParser3.Identifier - 53)))) !== 0)) {
+				{
+				this.state = 220;
+				this.valueExpression();
+				}
+			}
+
+			this.state = 223;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public measureStatement(): MeasureStatementContext {
+		let _localctx: MeasureStatementContext = new MeasureStatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 32, QasmParser3.RULE_measureStatement);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 225;
+			this.measurement();
+			this.state = 228;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.Arrow) {
+				{
+				this.state = 226;
+				this.match(QasmParser3.Arrow);
+				this.state = 227;
+				this.operand();
+				}
+			}
+
+			this.state = 230;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public resetStatement(): ResetStatementContext {
+		let _localctx: ResetStatementContext = new ResetStatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 34, QasmParser3.RULE_resetStatement);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 232;
+			this.match(QasmParser3.Reset);
+			this.state = 233;
+			this.operand();
+			this.state = 234;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public barrierStatement(): BarrierStatementContext {
+		let _localctx: BarrierStatementContext = new BarrierStatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 36, QasmParser3.RULE_barrierStatement);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 236;
+			this.match(QasmParser3.Barrier);
+			this.state = 238;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.Identifier) {
+				{
+				this.state = 237;
+				this.operandList();
+				}
+			}
+
+			this.state = 240;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public assignment(): AssignmentContext {
+		let _localctx: AssignmentContext = new AssignmentContext(this._ctx, this.state);
+		this.enterRule(_localctx, 38, QasmParser3.RULE_assignment);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 242;
+			this.operand();
+			this.state = 243;
+			_localctx._operator = this._input.LT(1);
+			_la = this._input.LA(1);
+			if ( !(((((_la - 45)) & ~0x1F) === 0 && ((1 << (_la - 45)) & ((1 << (QasmParser3.PlusEquals - 45)) | (1 << (QasmParser3.MinusEquals - 45)) | (1 << (QasmParser3.AsteriskEquals - 45)) | (1 << (QasmParser3.SlashEquals - 45)) | (1 << (QasmParser3.Equals - 45)))) !== 0)) ) {
+				_localctx._operator = this._errHandler.recoverInline(this);
+			} else {
+				if (this._input.LA(1) === Token.EOF) {
+					this.matchedEOF = true;
+				}
+
+				this._errHandler.reportMatch(this);
+				this.consume();
+			}
+			this.state = 244;
+			this.valueExpression();
+			this.state = 245;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public expressionStatement(): ExpressionStatementContext {
+		let _localctx: ExpressionStatementContext = new ExpressionStatementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 40, QasmParser3.RULE_expressionStatement);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 247;
+			this.call();
+			this.state = 248;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public gateCall(): GateCallContext {
+		let _localctx: GateCallContext = new GateCallContext(this._ctx, this.state);
+		this.enterRule(_localctx, 42, QasmParser3.RULE_gateCall);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 253;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			while (((((_la - 31)) & ~0x1F) === 0 && ((1 << (_la - 31)) & ((1 << (QasmParser3.Ctrl - 31)) | (1 << (QasmParser3.NegCtrl - 31)) | (1 << (QasmParser3.Inv - 31)) | (1 << (QasmParser3.Pow - 31)))) !== 0)) {
+				{
+				{
+				this.state = 250;
+				this.gateModifier();
+				}
+				}
+				this.state = 255;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+			}
+			this.state = 256;
+			this.match(QasmParser3.Identifier);
+			this.state = 262;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftParen) {
+				{
+				this.state = 257;
+				this.match(QasmParser3.LeftParen);
+				this.state = 259;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+				if (_la===QasmParser3.True || _la===QasmParser3.False || ((((_la - 53)) & ~0x1F) === 0 && ((1 << (_la - 53)) & ((1 << (QasmParser3.LeftParen - 53)) | (1 << (QasmParser3.Minus - 53)) | (1 << (QasmParser3.ExclamationPoint - 53)) | (1 << (QasmParser3.Tilde - 53)) | (1 << (QasmParser3.Number - 53)) | (1 << (QasmParser3.Identifier - 53)))) !== 0)) {
+					{
+					this.state = 258;
+					this.expressionList();
+					}
+				}
+
+				this.state = 261;
+				this.match(QasmParser3.RightParen);
+				}
+			}
+
+			this.state = 265;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.Identifier) {
+				{
+				this.state = 264;
+				this.operandList();
+				}
+			}
+
+			this.state = 267;
+			this.match(QasmParser3.Semi);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public gateModifier(): GateModifierContext {
+		let _localctx: GateModifierContext = new GateModifierContext(this._ctx, this.state);
+		this.enterRule(_localctx, 44, QasmParser3.RULE_gateModifier);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 269;
+			_localctx._name = this._input.LT(1);
+			_la = this._input.LA(1);
+			if ( !(((((_la - 31)) & ~0x1F) === 0 && ((1 << (_la - 31)) & ((1 << (QasmParser3.Ctrl - 31)) | (1 << (QasmParser3.NegCtrl - 31)) | (1 << (QasmParser3.Inv - 31)) | (1 << (QasmParser3.Pow - 31)))) !== 0)) ) {
+				_localctx._name = this._errHandler.recoverInline(this);
+			} else {
+				if (this._input.LA(1) === Token.EOF) {
+					this.matchedEOF = true;
+				}
+
+				this._errHandler.reportMatch(this);
+				this.consume();
+			}
+			this.state = 274;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftParen) {
+				{
+				this.state = 270;
+				this.match(QasmParser3.LeftParen);
+				this.state = 271;
+				this.expression(0);
+				this.state = 272;
+				this.match(QasmParser3.RightParen);
+				}
+			}
+
+			this.state = 276;
+			this.match(QasmParser3.At);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public body(): BodyContext {
+		let _localctx: BodyContext = new BodyContext(this._ctx, this.state);
+		this.enterRule(_localctx, 46, QasmParser3.RULE_body);
+		try {
+			this.state = 280;
+			this._errHandler.sync(this);
+			switch (this._input.LA(1)) {
+			case QasmParser3.LeftCurlyBrace:
+				this.enterOuterAlt(_localctx, 1);
+				{
+				this.state = 278;
+				this.block();
+				}
+				break;
+			case QasmParser3.Include:
+			case QasmParser3.Qubit:
+			case QasmParser3.Qreg:
+			case QasmParser3.Creg:
+			case QasmParser3.Const:
+			case QasmParser3.Gate:
+			case QasmParser3.Def:
+			case QasmParser3.For:
+			case QasmParser3.While:
+			case QasmParser3.If:
+			case QasmParser3.Break:
+			case QasmParser3.Continue:
+			case QasmParser3.Return:
+			case QasmParser3.Measure:
+			case QasmParser3.Reset:
+			case QasmParser3.Barrier:
+			case QasmParser3.Bit:
+			case QasmParser3.Int:
+			case QasmParser3.Uint:
+			case QasmParser3.Float:
+			case QasmParser3.Angle:
+			case QasmParser3.Bool:
+			case QasmParser3.Ctrl:
+			case QasmParser3.NegCtrl:
+			case QasmParser3.Inv:
+			case QasmParser3.Pow:
+			case QasmParser3.Identifier:
+				this.enterOuterAlt(_localctx, 2);
+				{
+				this.state = 279;
+				this.statement();
+				}
+				break;
+			default:
+				throw new NoViableAltException(this);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public block(): BlockContext {
+		let _localctx: BlockContext = new BlockContext(this._ctx, this.state);
+		this.enterRule(_localctx, 48, QasmParser3.RULE_block);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 282;
+			this.match(QasmParser3.LeftCurlyBrace);
+			this.state = 286;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			while (((((_la - 5)) & ~0x1F) === 0 && ((1 << (_la - 5)) & ((1 << (QasmParser3.Include - 5)) | (1 << (QasmParser3.Qubit - 5)) | (1 << (QasmParser3.Qreg - 5)) | (1 << (QasmParser3.Creg - 5)) | (1 << (QasmParser3.Const - 5)) | (1 << (QasmParser3.Gate - 5)) | (1 << (QasmParser3.Def - 5)) | (1 << (QasmParser3.For - 5)) | (1 << (QasmParser3.While - 5)) | (1 << (QasmParser3.If - 5)) | (1 << (QasmParser3.Break - 5)) | (1 << (QasmParser3.Continue - 5)) | (1 << (QasmParser3.Return - 5)) | (1 << (QasmParser3.Measure - 5)) | (1 << (QasmParser3.Reset - 5)) | (1 << (QasmParser3.Barrier - 5)) | (1 << (QasmParser3.Bit - 5)) | (1 << (QasmParser3.Int - 5)) | (1 << (QasmParser3.Uint - 5)) | (1 << (QasmParser3.Float - 5)) | (1 << (QasmParser3.Angle - 5)) | (1 << (QasmParser3.Bool - 5)) | (1 << (QasmParser3.Ctrl - 5)) | (1 << (QasmParser3.NegCtrl - 5)) | (1 << (QasmParser3.Inv - 5)) | (1 << (QasmParser3.Pow - 5)))) !== 0) || _la===QasmParser3.Identifier) {
+				{
+				{
+				this.state = 283;
+				this.statement();
+				}
+				}
+				this.state = 288;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+			}
+			this.state = 289;
+			this.match(QasmParser3.RightCurlyBrace);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public classicalType(): ClassicalTypeContext {
+		let _localctx: ClassicalTypeContext = new ClassicalTypeContext(this._ctx, this.state);
+		this.enterRule(_localctx, 50, QasmParser3.RULE_classicalType);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 291;
+			_localctx._name = this._input.LT(1);
+			_la = this._input.LA(1);
+			if ( !((((_la) & ~0x1F) === 0 && ((1 << _la) & ((1 << QasmParser3.Bit) | (1 << QasmParser3.Int) | (1 << QasmParser3.Uint) | (1 << QasmParser3.Float) | (1 << QasmParser3.Angle) | (1 << QasmParser3.Bool))) !== 0)) ) {
+				_localctx._name = this._errHandler.recoverInline(this);
+			} else {
+				if (this._input.LA(1) === Token.EOF) {
+					this.matchedEOF = true;
+				}
+
+				this._errHandler.reportMatch(this);
+				this.consume();
+			}
+			this.state = 293;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftBracket) {
+				{
+				this.state = 292;
+				this.designator();
+				}
+			}
+
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public designator(): DesignatorContext {
+		let _localctx: DesignatorContext = new DesignatorContext(this._ctx, this.state);
+		this.enterRule(_localctx, 52, QasmParser3.RULE_designator);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 295;
+			this.match(QasmParser3.LeftBracket);
+			this.state = 296;
+			this.expression(0);
+			this.state = 297;
+			this.match(QasmParser3.RightBracket);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public valueExpression(): ValueExpressionContext {
+		let _localctx: ValueExpressionContext = new ValueExpressionContext(this._ctx, this.state);
+		this.enterRule(_localctx, 54, QasmParser3.RULE_valueExpression);
+		try {
+			this.state = 301;
+			this._errHandler.sync(this);
+			switch (this._input.LA(1)) {
+			case QasmParser3.Measure:
+				this.enterOuterAlt(_localctx, 1);
+				{
+				this.state = 299;
+				this.measurement();
+				}
+				break;
+			case QasmParser3.True:
+			case QasmParser3.False:
+			case QasmParser3.LeftParen:
+			case QasmParser3.Minus:
+			case QasmParser3.ExclamationPoint:
+			case QasmParser3.Tilde:
+			case QasmParser3.Number:
+			case QasmParser3.Identifier:
+				this.enterOuterAlt(_localctx, 2);
+				{
+				this.state = 300;
+				this.expression(0);
+				}
+				break;
+			default:
+				throw new NoViableAltException(this);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public measurement(): MeasurementContext {
+		let _localctx: MeasurementContext = new MeasurementContext(this._ctx, this.state);
+		this.enterRule(_localctx, 56, QasmParser3.RULE_measurement);
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 303;
+			this.match(QasmParser3.Measure);
+			this.state = 304;
+			this.operand();
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+
+	public expression(): ExpressionContext;
+	public expression(_p: number): ExpressionContext;
+	@RuleVersion(0)
+	public expression(_p?: number): ExpressionContext {
+		if (_p === undefined) {
+			_p = 0;
+		}
+
+		let _parentctx: ParserRuleContext = this._ctx;
+		let _parentState: number = this.state;
+		let _localctx: ExpressionContext = new ExpressionContext(this._ctx, _parentState);
+		let _prevctx: ExpressionContext = _localctx;
+		let _startState: number = 58;
+		this.enterRecursionRule(_localctx, 58, QasmParser3.RULE_expression, _p);
+		let _la: number;
+		try {
+			let _alt: number;
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 320;
+			this._errHandler.sync(this);
+			switch ( this.interpreter.adaptivePredict(this._input,31,this._ctx) ) {
+			case 1:
+				{
+				_localctx = new NumberLiteralContext(_localctx);
+				this._ctx = _localctx;
+				_prevctx = _localctx;
+
+				this.state = 307;
+				this.match(QasmParser3.Number);
+				}
+				break;
+
+			case 2:
+				{
+				_localctx = new BooleanLiteralContext(_localctx);
+				this._ctx = _localctx;
+				_prevctx = _localctx;
+				this.state = 308;
+				(_localctx as BooleanLiteralContext)._value = this._input.LT(1);
+				_la = this._input.LA(1);
+				if ( !(_la===QasmParser3.True || _la===QasmParser3.False) ) {
+					(_localctx as BooleanLiteralContext)._value = this._errHandler.recoverInline(this);
+				} else {
+					if (this._input.LA(1) === Token.EOF) {
+						this.matchedEOF = true;
+					}
+
+					this._errHandler.reportMatch(this);
+					this.consume();
+				}
+				}
+				break;
+
+			case 3:
+				{
+				_localctx = new ParenthesisExpressionContext(_localctx);
+				this._ctx = _localctx;
+				_prevctx = _localctx;
+				this.state = 309;
+				this.match(QasmParser3.LeftParen);
+				this.state = 310;
+				this.expression(0);
+				this.state = 311;
+				this.match(QasmParser3.RightParen);
+				}
+				break;
+
+			case 4:
+				{
+				_localctx = new CallExpressionContext(_localctx);
+				this._ctx = _localctx;
+				_prevctx = _localctx;
+				this.state = 313;
+				this.call();
+				}
+				break;
+
+			case 5:
+				{
+				_localctx = new IdentifierExpressionContext(_localctx);
+				this._ctx = _localctx;
+				_prevctx = _localctx;
+				this.state = 314;
+				this.match(QasmParser3.Identifier);
+				this.state = 316;
+				this._errHandler.sync(this);
+				switch ( this.interpreter.adaptivePredict(this._input,30,this._ctx) ) {
+				case 1:
+					{
+					this.state = 315;
+					this.designator();
+					}
+					break;
+				}
+				}
+				break;
+
+			case 6:
+				{
+				_localctx = new UnaryExpressionContext(_localctx);
+				this._ctx = _localctx;
+				_prevctx = _localctx;
+				this.state = 318;
+				(_localctx as UnaryExpressionContext)._operator = this._input.LT(1);
+				_la = this._input.LA(1);
+				if ( !(((((_la - 61)) & ~0x1F) === 0 && ((1 << (_la - 61)) & ((1 << (QasmParser3.Minus - 61)) | (1 << (QasmParser3.ExclamationPoint - 61)) | (1 << (QasmParser3.Tilde - 61)))) !== 0)) ) {
+					(_localctx as UnaryExpressionContext)._operator = this._errHandler.recoverInline(this);
+				} else {
+					if (this._input.LA(1) === Token.EOF) {
+						this.matchedEOF = true;
+					}
+
+					this._errHandler.reportMatch(this);
+					this.consume();
+				}
+				this.state = 319;
+				this.expression(11);
+				}
+				break;
+			}
+			this._ctx._stop = this._input.tryLT(-1);
+			this.state = 357;
+			this._errHandler.sync(this);
+			_alt = this.interpreter.adaptivePredict(this._input,33,this._ctx);
+			while ( _alt!==2 && _alt!==ATN.INVALID_ALT_NUMBER ) {
+				if ( _alt===1 ) {
+					if ( this._parseListeners!=null ) this.triggerExitRuleEvent();
+					_prevctx = _localctx;
+					{
+					this.state = 355;
+					this._errHandler.sync(this);
+					switch ( this.interpreter.adaptivePredict(this._input,32,this._ctx) ) {
+					case 1:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 322;
+						if (!(this.precpred(this._ctx, 12))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 12)");
+						this.state = 323;
+						(_localctx as BinaryExpressionContext)._operator = this.match(QasmParser3.DoubleAsterisk);
+						this.state = 324;
+						this.expression(12);
+						}
+						break;
+
+					case 2:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 325;
+						if (!(this.precpred(this._ctx, 10))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 10)");
+						this.state = 326;
+						(_localctx as BinaryExpressionContext)._operator = this._input.LT(1);
+						_la = this._input.LA(1);
+						if ( !(((((_la - 62)) & ~0x1F) === 0 && ((1 << (_la - 62)) & ((1 << (QasmParser3.Asterisk - 62)) | (1 << (QasmParser3.Slash - 62)) | (1 << (QasmParser3.Percent - 62)))) !== 0)) ) {
+							(_localctx as BinaryExpressionContext)._operator = this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
+						}
+						this.state = 327;
+						this.expression(11);
+						}
+						break;
+
+					case 3:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 328;
+						if (!(this.precpred(this._ctx, 9))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 9)");
+						this.state = 329;
+						(_localctx as BinaryExpressionContext)._operator = this._input.LT(1);
+						_la = this._input.LA(1);
+						if ( !(_la===QasmParser3.Plus || _la===QasmParser3.Minus) ) {
+							(_localctx as BinaryExpressionContext)._operator = this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
+						}
+						this.state = 330;
+						this.expression(10);
+						}
+						break;
+
+					case 4:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 331;
+						if (!(this.precpred(this._ctx, 8))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 8)");
+						this.state = 332;
+						(_localctx as BinaryExpressionContext)._operator = this._input.LT(1);
+						_la = this._input.LA(1);
+						if ( !(_la===QasmParser3.LeftShift || _la===QasmParser3.RightShift) ) {
+							(_localctx as BinaryExpressionContext)._operator = this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
+						}
+						this.state = 333;
+						this.expression(9);
+						}
+						break;
+
+					case 5:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 334;
+						if (!(this.precpred(this._ctx, 7))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 7)");
+						this.state = 335;
+						(_localctx as BinaryExpressionContext)._operator = this._input.LT(1);
+						_la = this._input.LA(1);
+						if ( !(((((_la - 38)) & ~0x1F) === 0 && ((1 << (_la - 38)) & ((1 << (QasmParser3.LessEquals - 38)) | (1 << (QasmParser3.GreaterEquals - 38)) | (1 << (QasmParser3.Less - 38)) | (1 << (QasmParser3.Greater - 38)))) !== 0)) ) {
+							(_localctx as BinaryExpressionContext)._operator = this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
+						}
+						this.state = 336;
+						this.expression(8);
+						}
+						break;
+
+					case 6:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 337;
+						if (!(this.precpred(this._ctx, 6))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 6)");
+						this.state = 338;
+						(_localctx as BinaryExpressionContext)._operator = this._input.LT(1);
+						_la = this._input.LA(1);
+						if ( !(_la===QasmParser3.DoubleEquals || _la===QasmParser3.NotEquals) ) {
+							(_localctx as BinaryExpressionContext)._operator = this._errHandler.recoverInline(this);
+						} else {
+							if (this._input.LA(1) === Token.EOF) {
+								this.matchedEOF = true;
+							}
+
+							this._errHandler.reportMatch(this);
+							this.consume();
+						}
+						this.state = 339;
+						this.expression(7);
+						}
+						break;
+
+					case 7:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 340;
+						if (!(this.precpred(this._ctx, 5))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 5)");
+						this.state = 341;
+						(_localctx as BinaryExpressionContext)._operator = this.match(QasmParser3.Ampersand);
+						this.state = 342;
+						this.expression(6);
+						}
+						break;
+
+					case 8:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 343;
+						if (!(this.precpred(this._ctx, 4))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 4)");
+						this.state = 344;
+						(_localctx as BinaryExpressionContext)._operator = this.match(QasmParser3.Caret);
+						this.state = 345;
+						this.expression(5);
+						}
+						break;
+
+					case 9:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 346;
+						if (!(this.precpred(this._ctx, 3))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 3)");
+						this.state = 347;
+						(_localctx as BinaryExpressionContext)._operator = this.match(QasmParser3.Pipe);
+						this.state = 348;
+						this.expression(4);
+						}
+						break;
+
+					case 10:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 349;
+						if (!(this.precpred(this._ctx, 2))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 2)");
+						this.state = 350;
+						(_localctx as BinaryExpressionContext)._operator = this.match(QasmParser3.DoubleAmpersand);
+						this.state = 351;
+						this.expression(3);
+						}
+						break;
+
+					case 11:
+						{
+						_localctx = new BinaryExpressionContext(new ExpressionContext(_parentctx, _parentState));
+						this.pushNewRecursionContext(_localctx, _startState, QasmParser3.RULE_expression);
+						this.state = 352;
+						if (!(this.precpred(this._ctx, 1))) throw new FailedPredicateException(this, "this.precpred(this._ctx, 1)");
+						this.state = 353;
+						(_localctx as BinaryExpressionContext)._operator = this.match(QasmParser3.DoublePipe);
+						this.state = 354;
+						this.expression(2);
+						}
+						break;
+					}
+					} 
+				}
+				this.state = 359;
+				this._errHandler.sync(this);
+				_alt = this.interpreter.adaptivePredict(this._input,33,this._ctx);
+			}
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.unrollRecursionContexts(_parentctx);
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public call(): CallContext {
+		let _localctx: CallContext = new CallContext(this._ctx, this.state);
+		this.enterRule(_localctx, 60, QasmParser3.RULE_call);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 360;
+			this.match(QasmParser3.Identifier);
+			this.state = 361;
+			this.match(QasmParser3.LeftParen);
+			this.state = 363;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.True || _la===QasmParser3.False || ((((_la - 53)) & ~0x1F) === 0 && ((1 << (_la - 53)) & ((1 << (QasmParser3.LeftParen - 53)) | (1 << (QasmParser3.Minus - 53)) | (1 << (QasmParser3.ExclamationPoint - 53)) | (1 << (QasmParser3.Tilde - 53)) | (1 << (QasmParser3.Number - 53)) | (1 << (QasmParser3.Identifier - 53)))) !== 0)) {
+				{
+				this.state = 362;
+				this.expressionList();
+				}
+			}
+
+			this.state = 365;
+			this.match(QasmParser3.RightParen);
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public expressionList(): ExpressionListContext {
+		let _localctx: ExpressionListContext = new ExpressionListContext(this._ctx, this.state);
+		this.enterRule(_localctx, 62, QasmParser3.RULE_expressionList);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 367;
+			this.expression(0);
+			this.state = 372;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			while (_la===QasmParser3.Comma) {
+				{
+				{
+				this.state = 368;
+				this.match(QasmParser3.Comma);
+				this.state = 369;
+				this.expression(0);
+				}
+				}
+				this.state = 374;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+			}
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public operand(): OperandContext {
+		let _localctx: OperandContext = new OperandContext(this._ctx, this.state);
+		this.enterRule(_localctx, 64, QasmParser3.RULE_operand);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 375;
+			this.match(QasmParser3.Identifier);
+			this.state = 377;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			if (_la===QasmParser3.LeftBracket) {
+				{
+				this.state = 376;
+				this.designator();
+				}
+			}
+
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public operandList(): OperandListContext {
+		let _localctx: OperandListContext = new OperandListContext(this._ctx, this.state);
+		this.enterRule(_localctx, 66, QasmParser3.RULE_operandList);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 379;
+			this.operand();
+			this.state = 384;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			while (_la===QasmParser3.Comma) {
+				{
+				{
+				this.state = 380;
+				this.match(QasmParser3.Comma);
+				this.state = 381;
+				this.operand();
+				}
+				}
+				this.state = 386;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+			}
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+	@RuleVersion(0)
+	public identifierList(): IdentifierListContext {
+		let _localctx: IdentifierListContext = new IdentifierListContext(this._ctx, this.state);
+		this.enterRule(_localctx, 68, QasmParser3.RULE_identifierList);
+		let _la: number;
+		try {
+			this.enterOuterAlt(_localctx, 1);
+			{
+			this.state = 387;
+			this.match(QasmParser3.Identifier);
+			this.state = 392;
+			this._errHandler.sync(this);
+			_la = this._input.LA(1);
+			while (_la===QasmParser3.Comma) {
+				{
+				{
+				this.state = 388;
+				this.match(QasmParser3.Comma);
+				this.state = 389;
+				this.match(QasmParser3.Identifier);
+				}
+				}
+				this.state = 394;
+				this._errHandler.sync(this);
+				_la = this._input.LA(1);
+			}
+			}
+		}
+		catch (re) {
+			if (re instanceof RecognitionException) {
+				_localctx.exception = re;
+				this._errHandler.reportError(this, re);
+				this._errHandler.recover(this, re);
+			} else {
+				throw re;
+			}
+		}
+		finally {
+			this.exitRule();
+		}
+		return _localctx;
+	}
+
+	public sempred(_localctx: RuleContext, ruleIndex: number, predIndex: number): boolean {
+		switch (ruleIndex) {
+		case 29:
+			return this.expression_sempred(_localctx as ExpressionContext, predIndex);
+		}
+		return true;
+	}
+	private expression_sempred(_localctx: ExpressionContext, predIndex: number): boolean {
+		switch (predIndex) {
+		case 0:
+			return this.precpred(this._ctx, 12);
+
+		case 1:
+			return this.precpred(this._ctx, 10);
+
+		case 2:
+			return this.precpred(this._ctx, 9);
+
+		case 3:
+			return this.precpred(this._ctx, 8);
+
+		case 4:
+			return this.precpred(this._ctx, 7);
+
+		case 5:
+			return this.precpred(this._ctx, 6);
+
+		case 6:
+			return this.precpred(this._ctx, 5);
+
+		case 7:
+			return this.precpred(this._ctx, 4);
+
+		case 8:
+			return this.precpred(this._ctx, 3);
+
+		case 9:
+			return this.precpred(this._ctx, 2);
+
+		case 10:
+			return this.precpred(this._ctx, 1);
+		}
+		return true;
+	}
+
+	public static readonly _serializedATN: string =
+		"\x03\uAF6F\u8320\u479D\uB75C\u4880\u1605\u191C\uAB37\x03N\u018E\x04\x02"+
+		"\t\x02\x04\x03\t\x03\x04\x04\t\x04\x04\x05\t\x05\x04\x06\t\x06\x04\x07"+
+		"\t\x07\x04\b\t\b\x04\t\t\t\x04\n\t\n\x04\v\t\v\x04\f\t\f\x04\r\t\r\x04"+
+		"\x0E\t\x0E\x04\x0F\t\x0F\x04\x10\t\x10\x04\x11\t\x11\x04\x12\t\x12\x04"+
+		"\x13\t\x13\x04\x14\t\x14\x04\x15\t\x15\x04\x16\t\x16\x04\x17\t\x17\x04"+
+		"\x18\t\x18\x04\x19\t\x19\x04\x1A\t\x1A\x04\x1B\t\x1B\x04\x1C\t\x1C\x04"+
+		"\x1D\t\x1D\x04\x1E\t\x1E\x04\x1F\t\x1F\x04 \t \x04!\t!\x04\"\t\"\x04#"+
+		"\t#\x04$\t$\x03\x02\x05\x02J\n\x02\x03\x02\x07\x02M\n\x02\f\x02\x0E\x02"+
+		"P\v\x02\x03\x02\x03\x02\x03\x03\x03\x03\x03\x03\x03\x03\x03\x04\x03\x04"+
+		"\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04"+
+		"\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04\x03\x04\x05\x04i\n\x04\x03\x05"+
+		"\x03\x05\x03\x05\x03\x05\x03\x06\x03\x06\x05\x06q\n\x06\x03\x06\x03\x06"+
+		"\x03\x06\x03\x07\x03\x07\x03\x07\x05\x07y\n\x07\x03\x07\x03\x07\x03\b"+
+		"\x05\b~\n\b\x03\b\x03\b\x03\b\x03\b\x05\b\x84\n\b\x03\b\x03\b\x03\t\x03"+
+		"\t\x03\t\x03\t\x05\t\x8C\n\t\x03\t\x05\t\x8F\n\t\x03\t\x03\t\x03\t\x03"+
+		"\n\x03\n\x03\n\x03\n\x03\n\x03\n\x07\n\x9A\n\n\f\n\x0E\n\x9D\v\n\x05\n"+
+		"\x9F\n\n\x03\n\x03\n\x03\n\x05\n\xA4\n\n\x03\n\x03\n\x03\v\x03\v\x05\v"+
+		"\xAA\n\v\x03\v\x03\v\x03\v\x03\v\x05\v\xB0\n\v\x03\f\x03\f\x05\f\xB4\n"+
+		"\f\x03\f\x03\f\x03\f\x03\f\x03\f\x03\r\x03\r\x03\r\x03\r\x03\r\x03\r\x05"+
+		"\r\xC1\n\r\x03\r\x03\r\x03\r\x03\r\x03\r\x03\r\x03\r\x05\r\xCA\n\r\x03"+
+		"\x0E\x03\x0E\x03\x0E\x03\x0E\x03\x0E\x03\x0E\x03\x0F\x03\x0F\x03\x0F\x03"+
+		"\x0F\x03\x0F\x03\x0F\x03\x0F\x05\x0F\xD9\n\x0F\x03\x10\x03\x10\x03\x10"+
+		"\x03\x11\x03\x11\x05\x11\xE0\n\x11\x03\x11\x03\x11\x03\x12\x03\x12\x03"+
+		"\x12\x05\x12\xE7\n\x12\x03\x12\x03\x12\x03\x13\x03\x13\x03\x13\x03\x13"+
+		"\x03\x14\x03\x14\x05\x14\xF1\n\x14\x03\x14\x03\x14\x03\x15\x03\x15\x03"+
+		"\x15\x03\x15\x03\x15\x03\x16\x03\x16\x03\x16\x03\x17\x07\x17\xFE\n\x17"+
+		"\f\x17\x0E\x17\u0101\v\x17\x03\x17\x03\x17\x03\x17\x05\x17\u0106\n\x17"+
+		"\x03\x17\x05\x17\u0109\n\x17\x03\x17\x05\x17\u010C\n\x17\x03\x17\x03\x17"+
+		"\x03\x18\x03\x18\x03\x18\x03\x18\x03\x18\x05\x18\u0115\n\x18\x03\x18\x03"+
+		"\x18\x03\x19\x03\x19\x05\x19\u011B\n\x19\x03\x1A\x03\x1A\x07\x1A\u011F"+
+		"\n\x1A\f\x1A\x0E\x1A\u0122\v\x1A\x03\x1A\x03\x1A\x03\x1B\x03\x1B\x05\x1B"+
+		"\u0128\n\x1B\x03\x1C\x03\x1C\x03\x1C\x03\x1C\x03\x1D\x03\x1D\x05\x1D\u0130"+
+		"\n\x1D\x03\x1E\x03\x1E\x03\x1E\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F"+
+		"\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x05\x1F\u013F\n\x1F\x03\x1F\x03"+
+		"\x1F\x05\x1F\u0143\n\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F"+
+		"\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F"+
+		"\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F"+
+		"\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F\x03\x1F"+
+		"\x07\x1F\u0166\n\x1F\f\x1F\x0E\x1F\u0169\v\x1F\x03 \x03 \x03 \x05 \u016E"+
+		"\n \x03 \x03 \x03!\x03!\x03!\x07!\u0175\n!\f!\x0E!\u0178\v!\x03\"\x03"+
+		"\"\x05\"\u017C\n\"\x03#\x03#\x03#\x07#\u0181\n#\f#\x0E#\u0184\v#\x03$"+
+		"\x03$\x03$\x07$\u0189\n$\f$\x0E$\u018C\v$\x03$\x02\x02\x03<%\x02\x02\x04"+
+		"\x02\x06\x02\b\x02\n\x02\f\x02\x0E\x02\x10\x02\x12\x02\x14\x02\x16\x02"+
+		"\x18\x02\x1A\x02\x1C\x02\x1E\x02 \x02\"\x02$\x02&\x02(\x02*\x02,\x02."+
+		"\x020\x022\x024\x026\x028\x02:\x02<\x02>\x02@\x02B\x02D\x02F\x02\x02\x0E"+
+		"\x03\x02\t\n\x03\x02\x13\x14\x04\x02/2==\x03\x02!$\x03\x02\x1B \x03\x02"+
+		"\x19\x1A\x04\x02??EF\x03\x02@B\x03\x02>?\x03\x02,-\x04\x02()CD\x03\x02"+
+		"&\'\u01AE\x02I\x03\x02\x02\x02\x04S\x03\x02\x02\x02\x06h\x03\x02\x02\x02"+
+		"\bj\x03\x02\x02\x02\nn\x03\x02\x02\x02\fu\x03\x02\x02\x02\x0E}\x03\x02"+
+		"\x02\x02\x10\x87\x03\x02\x02\x02\x12\x93\x03\x02\x02\x02\x14\xAF\x03\x02"+
+		"\x02\x02\x16\xB1\x03\x02\x02\x02\x18\xC9\x03\x02\x02\x02\x1A\xCB\x03\x02"+
+		"\x02\x02\x1C\xD1\x03\x02\x02\x02\x1E\xDA\x03\x02\x02\x02 \xDD\x03\x02"+
+		"\x02\x02\"\xE3\x03\x02\x02\x02$\xEA\x03\x02\x02\x02&\xEE\x03\x02\x02\x02"+
+		"(\xF4\x03\x02\x02\x02*\xF9\x03\x02\x02\x02,\xFF\x03\x02\x02\x02.\u010F"+
+		"\x03\x02\x02\x020\u011A\x03\x02\x02\x022\u011C\x03\x02\x02\x024\u0125"+
+		"\x03\x02\x02\x026\u0129\x03\x02\x02\x028\u012F\x03\x02\x02\x02:\u0131"+
+		"\x03\x02\x02\x02<\u0142\x03\x02\x02\x02>\u016A\x03\x02\x02\x02@\u0171"+
+		"\x03\x02\x02\x02B\u0179\x03\x02\x02\x02D\u017D\x03\x02\x02\x02F\u0185"+
+		"\x03\x02\x02\x02HJ\x05\x04\x03\x02IH\x03\x02\x02\x02IJ\x03\x02\x02\x02"+
+		"JN\x03\x02\x02\x02KM\x05\x06\x04\x02LK\x03\x02\x02\x02MP\x03\x02\x02\x02"+
+		"NL\x03\x02\x02\x02NO\x03\x02\x02\x02OQ\x03\x02\x02\x02PN\x03\x02\x02\x02"+
+		"QR\x07\x02\x02\x03R\x03\x03\x02\x02\x02ST\x07\x06\x02\x02TU\x07J\x02\x02"+
+		"UV\x073\x02\x02V\x05\x03\x02\x02\x02Wi\x05\b\x05\x02Xi\x05\n\x06\x02Y"+
+		"i\x05\f\x07\x02Zi\x05\x0E\b\x02[i\x05\x10\t\x02\\i\x05\x12\n\x02]i\x05"+
+		"\x16\f\x02^i\x05\x1A\x0E\x02_i\x05\x1C\x0F\x02`i\x05\x1E\x10\x02ai\x05"+
+		" \x11\x02bi\x05\"\x12\x02ci\x05$\x13\x02di\x05&\x14\x02ei\x05(\x15\x02"+
+		"fi\x05*\x16\x02gi\x05,\x17\x02hW\x03\x02\x02\x02hX\x03\x02\x02\x02hY\x03"+
+		"\x02\x02\x02hZ\x03\x02\x02\x02h[\x03\x02\x02\x02h\\\x03\x02\x02\x02h]"+
+		"\x03\x02\x02\x02h^\x03\x02\x02\x02h_\x03\x02\x02\x02h`\x03\x02\x02\x02"+
+		"ha\x03\x02\x02\x02hb\x03\x02\x02\x02hc\x03\x02\x02\x02hd\x03\x02\x02\x02"+
+		"he\x03\x02\x02\x02hf\x03\x02\x02\x02hg\x03\x02\x02\x02i\x07\x03\x02\x02"+
+		"\x02jk\x07\x07\x02\x02kl\x07K\x02\x02lm\x073\x02\x02m\t\x03\x02\x02\x02"+
+		"np\x07\b\x02\x02oq\x056\x1C\x02po\x03\x02\x02\x02pq\x03\x02\x02\x02qr"+
+		"\x03\x02\x02\x02rs\x07L\x02\x02st\x073\x02\x02t\v\x03\x02\x02\x02uv\t"+
+		"\x02\x02\x02vx\x07L\x02\x02wy\x056\x1C\x02xw\x03\x02\x02\x02xy\x03\x02"+
+		"\x02\x02yz\x03\x02\x02\x02z{\x073\x02\x02{\r\x03\x02\x02\x02|~\x07\v\x02"+
+		"\x02}|\x03\x02\x02\x02}~\x03\x02\x02\x02~\x7F\x03\x02\x02\x02\x7F\x80"+
+		"\x054\x1B\x02\x80\x83\x07L\x02\x02\x81\x82\x07=\x02\x02\x82\x84\x058\x1D"+
+		"\x02\x83\x81\x03\x02\x02\x02\x83\x84\x03\x02\x02\x02\x84\x85\x03\x02\x02"+
+		"\x02\x85\x86\x073\x02\x02\x86\x0F\x03\x02\x02\x02\x87\x88\x07\f\x02\x02"+
+		"\x88\x8E\x07L\x02\x02\x89\x8B\x077\x02\x02\x8A\x8C\x05F$\x02\x8B\x8A\x03"+
+		"\x02\x02\x02\x8B\x8C\x03\x02\x02\x02\x8C\x8D\x03\x02\x02\x02\x8D\x8F\x07"+
+		"8\x02\x02\x8E\x89\x03\x02\x02\x02\x8E\x8F\x03\x02\x02\x02\x8F\x90\x03"+
+		"\x02\x02\x02\x90\x91\x05F$\x02\x91\x92\x052\x1A\x02\x92\x11\x03\x02\x02"+
+		"\x02\x93\x94\x07\r\x02\x02\x94\x95\x07L\x02\x02\x95\x9E\x077\x02\x02\x96"+
+		"\x9B\x05\x14\v\x02\x97\x98\x074\x02\x02\x98\x9A\x05\x14\v\x02\x99\x97"+
+		"\x03\x02\x02\x02\x9A\x9D\x03\x02\x02\x02\x9B\x99\x03\x02\x02\x02\x9B\x9C"+
+		"\x03\x02\x02\x02\x9C\x9F\x03\x02\x02\x02\x9D\x9B\x03\x02\x02\x02\x9E\x96"+
+		"\x03\x02\x02\x02\x9E\x9F\x03\x02\x02\x02\x9F\xA0\x03\x02\x02\x02\xA0\xA3"+
+		"\x078\x02\x02\xA1\xA2\x07%\x02\x02\xA2\xA4\x054\x1B\x02\xA3\xA1\x03\x02"+
+		"\x02\x02\xA3\xA4\x03\x02\x02\x02\xA4\xA5\x03\x02\x02\x02\xA5\xA6\x052"+
+		"\x1A\x02\xA6\x13\x03\x02\x02\x02\xA7\xA9\x07\b\x02\x02\xA8\xAA\x056\x1C"+
+		"\x02\xA9\xA8\x03\x02\x02\x02\xA9\xAA\x03\x02\x02\x02\xAA\xAB\x03\x02\x02"+
+		"\x02\xAB\xB0\x07L\x02\x02\xAC\xAD\x054\x1B\x02\xAD\xAE\x07L\x02\x02\xAE"+
+		"\xB0\x03\x02\x02\x02\xAF\xA7\x03\x02\x02\x02\xAF\xAC\x03\x02\x02\x02\xB0"+
+		"\x15\x03\x02\x02\x02\xB1\xB3\x07\x0E\x02\x02\xB2\xB4\x054\x1B\x02\xB3"+
+		"\xB2\x03\x02\x02\x02\xB3\xB4\x03\x02\x02\x02\xB4\xB5\x03\x02\x02\x02\xB5"+
+		"\xB6\x07L\x02\x02\xB6\xB7\x07\x0F\x02\x02\xB7\xB8\x05\x18\r\x02\xB8\xB9"+
+		"\x050\x19\x02\xB9\x17\x03\x02\x02\x02\xBA\xBB\x079\x02\x02\xBB\xBC\x05"+
+		"<\x1F\x02\xBC\xBD\x075\x02\x02\xBD\xC0\x05<\x1F\x02\xBE\xBF\x075\x02\x02"+
+		"\xBF\xC1\x05<\x1F\x02\xC0\xBE\x03\x02\x02\x02\xC0\xC1\x03\x02\x02\x02"+
+		"\xC1\xC2\x03\x02\x02\x02\xC2\xC3\x07:\x02\x02\xC3\xCA\x03\x02\x02\x02"+
+		"\xC4\xC5\x07;\x02\x02\xC5\xC6\x05@!\x02\xC6\xC7\x07<\x02\x02\xC7\xCA\x03"+
+		"\x02\x02\x02\xC8\xCA\x05<\x1F\x02\xC9\xBA\x03\x02\x02\x02\xC9\xC4\x03"+
+		"\x02\x02\x02\xC9\xC8\x03\x02\x02\x02\xCA\x19\x03\x02\x02\x02\xCB\xCC\x07"+
+		"\x10\x02\x02\xCC\xCD\x077\x02\x02\xCD\xCE\x05<\x1F\x02\xCE\xCF\x078\x02"+
+		"\x02\xCF\xD0\x050\x19\x02\xD0\x1B\x03\x02\x02\x02\xD1\xD2\x07\x11\x02"+
+		"\x02\xD2\xD3\x077\x02\x02\xD3\xD4\x05<\x1F\x02\xD4\xD5\x078\x02\x02\xD5"+
+		"\xD8\x050\x19\x02\xD6\xD7\x07\x12\x02\x02\xD7\xD9\x050\x19\x02\xD8\xD6"+
+		"\x03\x02\x02\x02\xD8\xD9\x03\x02\x02\x02\xD9\x1D\x03\x02\x02\x02\xDA\xDB"+
+		"\t\x03\x02\x02\xDB\xDC\x073\x02\x02\xDC\x1F\x03\x02\x02\x02\xDD\xDF\x07"+
+		"\x15\x02\x02\xDE\xE0\x058\x1D\x02\xDF\xDE\x03\x02\x02\x02\xDF\xE0\x03"+
+		"\x02\x02\x02\xE0\xE1\x03\x02\x02\x02\xE1\xE2\x073\x02\x02\xE2!\x03\x02"+
+		"\x02\x02\xE3\xE6\x05:\x1E\x02\xE4\xE5\x07%\x02\x02\xE5\xE7\x05B\"\x02"+
+		"\xE6\xE4\x03\x02\x02\x02\xE6\xE7\x03\x02\x02\x02\xE7\xE8\x03\x02\x02\x02"+
+		"\xE8\xE9\x073\x02\x02\xE9#\x03\x02\x02\x02\xEA\xEB\x07\x17\x02\x02\xEB"+
+		"\xEC\x05B\"\x02\xEC\xED\x073\x02\x02\xED%\x03\x02\x02\x02\xEE\xF0\x07"+
+		"\x18\x02\x02\xEF\xF1\x05D#\x02\xF0\xEF\x03\x02\x02\x02\xF0\xF1\x03\x02"+
+		"\x02\x02\xF1\xF2\x03\x02\x02\x02\xF2\xF3\x073\x02\x02\xF3\'\x03\x02\x02"+
+		"\x02\xF4\xF5\x05B\"\x02\xF5\xF6\t\x04\x02\x02\xF6\xF7\x058\x1D\x02\xF7"+
+		"\xF8\x073\x02\x02\xF8)\x03\x02\x02\x02\xF9\xFA\x05> \x02\xFA\xFB\x073"+
+		"\x02\x02\xFB+\x03\x02\x02\x02\xFC\xFE\x05.\x18\x02\xFD\xFC\x03\x02\x02"+
+		"\x02\xFE\u0101\x03\x02\x02\x02\xFF\xFD\x03\x02\x02\x02\xFF\u0100\x03\x02"+
+		"\x02\x02\u0100\u0102\x03\x02\x02\x02\u0101\xFF\x03\x02\x02\x02\u0102\u0108"+
+		"\x07L\x02\x02\u0103\u0105\x077\x02\x02\u0104\u0106\x05@!\x02\u0105\u0104"+
+		"\x03\x02\x02\x02\u0105\u0106\x03\x02\x02\x02\u0106\u0107\x03\x02\x02\x02"+
+		"\u0107\u0109\x078\x02\x02\u0108\u0103\x03\x02\x02\x02\u0108\u0109\x03"+
+		"\x02\x02\x02\u0109\u010B\x03\x02\x02\x02\u010A\u010C\x05D#\x02\u010B\u010A"+
+		"\x03\x02\x02\x02\u010B\u010C\x03\x02\x02\x02\u010C\u010D\x03\x02\x02\x02"+
+		"\u010D\u010E\x073\x02\x02\u010E-\x03\x02\x02\x02\u010F\u0114\t\x05\x02"+
+		"\x02\u0110\u0111\x077\x02\x02\u0111\u0112\x05<\x1F\x02\u0112\u0113\x07"+
+		"8\x02\x02\u0113\u0115\x03\x02\x02\x02\u0114\u0110\x03\x02\x02\x02\u0114"+
+		"\u0115\x03\x02\x02\x02\u0115\u0116\x03\x02\x02\x02\u0116\u0117\x076\x02"+
+		"\x02\u0117/\x03\x02\x02\x02\u0118\u011B\x052\x1A\x02\u0119\u011B\x05\x06"+
+		"\x04\x02\u011A\u0118\x03\x02\x02\x02\u011A\u0119\x03\x02\x02\x02\u011B"+
+		"1\x03\x02\x02\x02\u011C\u0120\x07;\x02\x02\u011D\u011F\x05\x06\x04\x02"+
+		"\u011E\u011D\x03\x02\x02\x02\u011F\u0122\x03\x02\x02\x02\u0120\u011E\x03"+
+		"\x02\x02\x02\u0120\u0121\x03\x02\x02\x02\u0121\u0123\x03\x02\x02\x02\u0122"+
+		"\u0120\x03\x02\x02\x02\u0123\u0124\x07<\x02\x02\u01243\x03\x02\x02\x02"+
+		"\u0125\u0127\t\x06\x02\x02\u0126\u0128\x056\x1C\x02\u0127\u0126\x03\x02"+
+		"\x02\x02\u0127\u0128\x03\x02\x02\x02\u01285\x03\x02\x02\x02\u0129\u012A"+
+		"\x079\x02\x02\u012A\u012B\x05<\x1F\x02\u012B\u012C\x07:\x02\x02\u012C"+
+		"7\x03\x02\x02\x02\u012D\u0130\x05:\x1E\x02\u012E\u0130\x05<\x1F\x02\u012F"+
+		"\u012D\x03\x02\x02\x02\u012F\u012E\x03\x02\x02\x02\u01309\x03\x02\x02"+
+		"\x02\u0131\u0132\x07\x16\x02\x02\u0132\u0133\x05B\"\x02\u0133;\x03\x02"+
+		"\x02\x02\u0134\u0135\b\x1F\x01\x02\u0135\u0143\x07J\x02\x02\u0136\u0143"+
+		"\t\x07\x02\x02\u0137\u0138\x077\x02\x02\u0138\u0139\x05<\x1F\x02\u0139"+
+		"\u013A\x078\x02\x02\u013A\u0143\x03\x02\x02\x02\u013B\u0143\x05> \x02"+
+		"\u013C\u013E\x07L\x02\x02\u013D\u013F\x056\x1C\x02\u013E\u013D\x03\x02"+
+		"\x02\x02\u013E\u013F\x03\x02\x02\x02\u013F\u0143\x03\x02\x02\x02\u0140"+
+		"\u0141\t\b\x02\x02\u0141\u0143\x05<\x1F\r\u0142\u0134\x03\x02\x02\x02"+
+		"\u0142\u0136\x03\x02\x02\x02\u0142\u0137\x03\x02\x02\x02\u0142\u013B\x03"+
+		"\x02\x02\x02\u0142\u013C\x03\x02\x02\x02\u0142\u0140\x03\x02\x02\x02\u0143"+
+		"\u0167\x03\x02\x02\x02\u0144\u0145\f\x0E\x02\x02\u0145\u0146\x07.\x02"+
+		"\x02\u0146\u0166\x05<\x1F\x0E\u0147\u0148\f\f\x02\x02\u0148\u0149\t\t"+
+		"\x02\x02\u0149\u0166\x05<\x1F\r\u014A\u014B\f\v\x02\x02\u014B\u014C\t"+
+		"\n\x02\x02\u014C\u0166\x05<\x1F\f\u014D\u014E\f\n\x02\x02\u014E\u014F"+
+		"\t\v\x02\x02\u014F\u0166\x05<\x1F\v\u0150\u0151\f\t\x02\x02\u0151\u0152"+
+		"\t\f\x02\x02\u0152\u0166\x05<\x1F\n\u0153\u0154\f\b\x02\x02\u0154\u0155"+
+		"\t\r\x02\x02\u0155\u0166\x05<\x1F\t\u0156\u0157\f\x07\x02\x02\u0157\u0158"+
+		"\x07G\x02\x02\u0158\u0166\x05<\x1F\b\u0159\u015A\f\x06\x02\x02\u015A\u015B"+
+		"\x07I\x02\x02\u015B\u0166\x05<\x1F\x07\u015C\u015D\f\x05\x02\x02\u015D"+
+		"\u015E\x07H\x02\x02\u015E\u0166\x05<\x1F\x06\u015F\u0160\f\x04\x02\x02"+
+		"\u0160\u0161\x07*\x02\x02\u0161\u0166\x05<\x1F\x05\u0162\u0163\f\x03\x02"+
+		"\x02\u0163\u0164\x07+\x02\x02\u0164\u0166\x05<\x1F\x04\u0165\u0144\x03"+
+		"\x02\x02\x02\u0165\u0147\x03\x02\x02\x02\u0165\u014A\x03\x02\x02\x02\u0165"+
+		"\u014D\x03\x02\x02\x02\u0165\u0150\x03\x02\x02\x02\u0165\u0153\x03\x02"+
+		"\x02\x02\u0165\u0156\x03\x02\x02\x02\u0165\u0159\x03\x02\x02\x02\u0165"+
+		"\u015C\x03\x02\x02\x02\u0165\u015F\x03\x02\x02\x02\u0165\u0162\x03\x02"+
+		"\x02\x02\u0166\u0169\x03\x02\x02\x02\u0167\u0165\x03\x02\x02\x02\u0167"+
+		"\u0168\x03\x02\x02\x02\u0168=\x03\x02\x02\x02\u0169\u0167\x03\x02\x02"+
+		"\x02\u016A\u016B\x07L\x02\x02\u016B\u016D\x077\x02\x02\u016C\u016E\x05"+
+		"@!\x02\u016D\u016C\x03\x02\x02\x02\u016D\u016E\x03\x02\x02\x02\u016E\u016F"+
+		"\x03\x02\x02\x02\u016F\u0170\x078\x02\x02\u0170?\x03\x02\x02\x02\u0171"+
+		"\u0176\x05<\x1F\x02\u0172\u0173\x074\x02\x02\u0173\u0175\x05<\x1F\x02"+
+		"\u0174\u0172\x03\x02\x02\x02\u0175\u0178\x03\x02\x02\x02\u0176\u0174\x03"+
+		"\x02\x02\x02\u0176\u0177\x03\x02\x02\x02\u0177A\x03\x02\x02\x02\u0178"+
+		"\u0176\x03\x02\x02\x02\u0179\u017B\x07L\x02\x02\u017A\u017C\x056\x1C\x02"+
+		"\u017B\u017A\x03\x02\x02\x02\u017B\u017C\x03\x02\x02\x02\u017CC\x03\x02"+
+		"\x02\x02\u017D\u0182\x05B\"\x02\u017E\u017F\x074\x02\x02\u017F\u0181\x05"+
+		"B\"\x02\u0180\u017E\x03\x02\x02\x02\u0181\u0184\x03\x02\x02\x02\u0182"+
+		"\u0180\x03\x02\x02\x02\u0182\u0183\x03\x02\x02\x02\u0183E\x03\x02\x02"+
+		"\x02\u0184\u0182\x03\x02\x02\x02\u0185\u018A\x07L\x02\x02\u0186\u0187"+
+		"\x074\x02\x02\u0187\u0189\x07L\x02\x02\u0188\u0186\x03\x02\x02\x02\u0189"+
+		"\u018C\x03\x02\x02\x02\u018A\u0188\x03\x02\x02\x02\u018A\u018B\x03\x02"+
+		"\x02\x02\u018BG\x03\x02\x02\x02\u018C\u018A\x03\x02\x02\x02)INhpx}\x83"+
+		"\x8B\x8E\x9B\x9E\xA3\xA9\xAF\xB3\xC0\xC9\xD8\xDF\xE6\xF0\xFF\u0105\u0108"+
+		"\u010B\u0114\u011A\u0120\u0127\u012F\u013E\u0142\u0165\u0167\u016D\u0176"+
+		"\u017B\u0182\u018A";
+	public static __ATN: ATN;
+	public static get _ATN(): ATN {
+		if (!QasmParser3.__ATN) {
+			QasmParser3.__ATN = new ATNDeserializer().deserialize(Utils.toCharArray(QasmParser3._serializedATN));
+		}
+
+		return QasmParser3.__ATN;
+	}
+
+}
+
+export class ProgramContext extends ParserRuleContext {
+	public EOF(): TerminalNode { return this.getToken(QasmParser3.EOF, 0); }
+	public header(): HeaderContext | undefined {
+		return this.tryGetRuleContext(0, HeaderContext);
+	}
+	public statement(): StatementContext[];
+	public statement(i: number): StatementContext;
+	public statement(i?: number): StatementContext | StatementContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(StatementContext);
+		} else {
+			return this.getRuleContext(i, StatementContext);
+		}
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_program; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterProgram) listener.enterProgram(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitProgram) listener.exitProgram(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitProgram) return visitor.visitProgram(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class HeaderContext extends ParserRuleContext {
+	public _version: Token;
+	public OpenQasm(): TerminalNode { return this.getToken(QasmParser3.OpenQasm, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public Number(): TerminalNode { return this.getToken(QasmParser3.Number, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_header; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterHeader) listener.enterHeader(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitHeader) listener.exitHeader(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitHeader) return visitor.visitHeader(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class StatementContext extends ParserRuleContext {
+	public include(): IncludeContext | undefined {
+		return this.tryGetRuleContext(0, IncludeContext);
+	}
+	public qubitDeclaration(): QubitDeclarationContext | undefined {
+		return this.tryGetRuleContext(0, QubitDeclarationContext);
+	}
+	public registerDeclaration(): RegisterDeclarationContext | undefined {
+		return this.tryGetRuleContext(0, RegisterDeclarationContext);
+	}
+	public classicalDeclaration(): ClassicalDeclarationContext | undefined {
+		return this.tryGetRuleContext(0, ClassicalDeclarationContext);
+	}
+	public gateDefinition(): GateDefinitionContext | undefined {
+		return this.tryGetRuleContext(0, GateDefinitionContext);
+	}
+	public subroutineDefinition(): SubroutineDefinitionContext | undefined {
+		return this.tryGetRuleContext(0, SubroutineDefinitionContext);
+	}
+	public forLoop(): ForLoopContext | undefined {
+		return this.tryGetRuleContext(0, ForLoopContext);
+	}
+	public whileLoop(): WhileLoopContext | undefined {
+		return this.tryGetRuleContext(0, WhileLoopContext);
+	}
+	public ifStatement(): IfStatementContext | undefined {
+		return this.tryGetRuleContext(0, IfStatementContext);
+	}
+	public loopControl(): LoopControlContext | undefined {
+		return this.tryGetRuleContext(0, LoopControlContext);
+	}
+	public returnStatement(): ReturnStatementContext | undefined {
+		return this.tryGetRuleContext(0, ReturnStatementContext);
+	}
+	public measureStatement(): MeasureStatementContext | undefined {
+		return this.tryGetRuleContext(0, MeasureStatementContext);
+	}
+	public resetStatement(): ResetStatementContext | undefined {
+		return this.tryGetRuleContext(0, ResetStatementContext);
+	}
+	public barrierStatement(): BarrierStatementContext | undefined {
+		return this.tryGetRuleContext(0, BarrierStatementContext);
+	}
+	public assignment(): AssignmentContext | undefined {
+		return this.tryGetRuleContext(0, AssignmentContext);
+	}
+	public expressionStatement(): ExpressionStatementContext | undefined {
+		return this.tryGetRuleContext(0, ExpressionStatementContext);
+	}
+	public gateCall(): GateCallContext | undefined {
+		return this.tryGetRuleContext(0, GateCallContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_statement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterStatement) listener.enterStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitStatement) listener.exitStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitStatement) return visitor.visitStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class IncludeContext extends ParserRuleContext {
+	public _file: Token;
+	public Include(): TerminalNode { return this.getToken(QasmParser3.Include, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public StringLiteral(): TerminalNode { return this.getToken(QasmParser3.StringLiteral, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_include; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterInclude) listener.enterInclude(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitInclude) listener.exitInclude(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitInclude) return visitor.visitInclude(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class QubitDeclarationContext extends ParserRuleContext {
+	public Qubit(): TerminalNode { return this.getToken(QasmParser3.Qubit, 0); }
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public designator(): DesignatorContext | undefined {
+		return this.tryGetRuleContext(0, DesignatorContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_qubitDeclaration; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterQubitDeclaration) listener.enterQubitDeclaration(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitQubitDeclaration) listener.exitQubitDeclaration(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitQubitDeclaration) return visitor.visitQubitDeclaration(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class RegisterDeclarationContext extends ParserRuleContext {
+	public _keyword: Token;
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public Qreg(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Qreg, 0); }
+	public Creg(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Creg, 0); }
+	public designator(): DesignatorContext | undefined {
+		return this.tryGetRuleContext(0, DesignatorContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_registerDeclaration; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterRegisterDeclaration) listener.enterRegisterDeclaration(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitRegisterDeclaration) listener.exitRegisterDeclaration(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitRegisterDeclaration) return visitor.visitRegisterDeclaration(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ClassicalDeclarationContext extends ParserRuleContext {
+	public classicalType(): ClassicalTypeContext {
+		return this.getRuleContext(0, ClassicalTypeContext);
+	}
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public Const(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Const, 0); }
+	public Equals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Equals, 0); }
+	public valueExpression(): ValueExpressionContext | undefined {
+		return this.tryGetRuleContext(0, ValueExpressionContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_classicalDeclaration; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterClassicalDeclaration) listener.enterClassicalDeclaration(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitClassicalDeclaration) listener.exitClassicalDeclaration(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitClassicalDeclaration) return visitor.visitClassicalDeclaration(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class GateDefinitionContext extends ParserRuleContext {
+	public _parameters: IdentifierListContext;
+	public _qubits: IdentifierListContext;
+	public Gate(): TerminalNode { return this.getToken(QasmParser3.Gate, 0); }
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public block(): BlockContext {
+		return this.getRuleContext(0, BlockContext);
+	}
+	public identifierList(): IdentifierListContext[];
+	public identifierList(i: number): IdentifierListContext;
+	public identifierList(i?: number): IdentifierListContext | IdentifierListContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(IdentifierListContext);
+		} else {
+			return this.getRuleContext(i, IdentifierListContext);
+		}
+	}
+	public LeftParen(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.LeftParen, 0); }
+	public RightParen(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.RightParen, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_gateDefinition; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterGateDefinition) listener.enterGateDefinition(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitGateDefinition) listener.exitGateDefinition(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitGateDefinition) return visitor.visitGateDefinition(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class SubroutineDefinitionContext extends ParserRuleContext {
+	public Def(): TerminalNode { return this.getToken(QasmParser3.Def, 0); }
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public LeftParen(): TerminalNode { return this.getToken(QasmParser3.LeftParen, 0); }
+	public RightParen(): TerminalNode { return this.getToken(QasmParser3.RightParen, 0); }
+	public block(): BlockContext {
+		return this.getRuleContext(0, BlockContext);
+	}
+	public subroutineArgument(): SubroutineArgumentContext[];
+	public subroutineArgument(i: number): SubroutineArgumentContext;
+	public subroutineArgument(i?: number): SubroutineArgumentContext | SubroutineArgumentContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(SubroutineArgumentContext);
+		} else {
+			return this.getRuleContext(i, SubroutineArgumentContext);
+		}
+	}
+	public Arrow(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Arrow, 0); }
+	public classicalType(): ClassicalTypeContext | undefined {
+		return this.tryGetRuleContext(0, ClassicalTypeContext);
+	}
+	public Comma(): TerminalNode[];
+	public Comma(i: number): TerminalNode;
+	public Comma(i?: number): TerminalNode | TerminalNode[] {
+		if (i === undefined) {
+			return this.getTokens(QasmParser3.Comma);
+		} else {
+			return this.getToken(QasmParser3.Comma, i);
+		}
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_subroutineDefinition; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterSubroutineDefinition) listener.enterSubroutineDefinition(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitSubroutineDefinition) listener.exitSubroutineDefinition(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitSubroutineDefinition) return visitor.visitSubroutineDefinition(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class SubroutineArgumentContext extends ParserRuleContext {
+	public Qubit(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Qubit, 0); }
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public designator(): DesignatorContext | undefined {
+		return this.tryGetRuleContext(0, DesignatorContext);
+	}
+	public classicalType(): ClassicalTypeContext | undefined {
+		return this.tryGetRuleContext(0, ClassicalTypeContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_subroutineArgument; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterSubroutineArgument) listener.enterSubroutineArgument(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitSubroutineArgument) listener.exitSubroutineArgument(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitSubroutineArgument) return visitor.visitSubroutineArgument(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ForLoopContext extends ParserRuleContext {
+	public For(): TerminalNode { return this.getToken(QasmParser3.For, 0); }
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public In(): TerminalNode { return this.getToken(QasmParser3.In, 0); }
+	public iterable(): IterableContext {
+		return this.getRuleContext(0, IterableContext);
+	}
+	public body(): BodyContext {
+		return this.getRuleContext(0, BodyContext);
+	}
+	public classicalType(): ClassicalTypeContext | undefined {
+		return this.tryGetRuleContext(0, ClassicalTypeContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_forLoop; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterForLoop) listener.enterForLoop(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitForLoop) listener.exitForLoop(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitForLoop) return visitor.visitForLoop(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class IterableContext extends ParserRuleContext {
+	constructor();
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent?: ParserRuleContext, invokingState?: number) {
+		if (parent !== undefined && invokingState !== undefined) {
+			super(parent, invokingState);
+		} else {
+			super();
+		}
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_iterable; }
+ 
+	public copyFrom(ctx: IterableContext): void {
+		super.copyFrom(ctx);
+	}
+}
+export class RangeIterableContext extends IterableContext {
+	public LeftBracket(): TerminalNode { return this.getToken(QasmParser3.LeftBracket, 0); }
+	public expression(): ExpressionContext[];
+	public expression(i: number): ExpressionContext;
+	public expression(i?: number): ExpressionContext | ExpressionContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(ExpressionContext);
+		} else {
+			return this.getRuleContext(i, ExpressionContext);
+		}
+	}
+	public Colon(): TerminalNode[];
+	public Colon(i: number): TerminalNode;
+	public Colon(i?: number): TerminalNode | TerminalNode[] {
+		if (i === undefined) {
+			return this.getTokens(QasmParser3.Colon);
+		} else {
+			return this.getToken(QasmParser3.Colon, i);
+		}
+	}
+	public RightBracket(): TerminalNode { return this.getToken(QasmParser3.RightBracket, 0); }
+	constructor(ctx: IterableContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterRangeIterable) listener.enterRangeIterable(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitRangeIterable) listener.exitRangeIterable(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitRangeIterable) return visitor.visitRangeIterable(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class SetIterableContext extends IterableContext {
+	public LeftCurlyBrace(): TerminalNode { return this.getToken(QasmParser3.LeftCurlyBrace, 0); }
+	public expressionList(): ExpressionListContext {
+		return this.getRuleContext(0, ExpressionListContext);
+	}
+	public RightCurlyBrace(): TerminalNode { return this.getToken(QasmParser3.RightCurlyBrace, 0); }
+	constructor(ctx: IterableContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterSetIterable) listener.enterSetIterable(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitSetIterable) listener.exitSetIterable(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitSetIterable) return visitor.visitSetIterable(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class ExpressionIterableContext extends IterableContext {
+	public expression(): ExpressionContext {
+		return this.getRuleContext(0, ExpressionContext);
+	}
+	constructor(ctx: IterableContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterExpressionIterable) listener.enterExpressionIterable(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitExpressionIterable) listener.exitExpressionIterable(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitExpressionIterable) return visitor.visitExpressionIterable(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class WhileLoopContext extends ParserRuleContext {
+	public While(): TerminalNode { return this.getToken(QasmParser3.While, 0); }
+	public LeftParen(): TerminalNode { return this.getToken(QasmParser3.LeftParen, 0); }
+	public expression(): ExpressionContext {
+		return this.getRuleContext(0, ExpressionContext);
+	}
+	public RightParen(): TerminalNode { return this.getToken(QasmParser3.RightParen, 0); }
+	public body(): BodyContext {
+		return this.getRuleContext(0, BodyContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_whileLoop; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterWhileLoop) listener.enterWhileLoop(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitWhileLoop) listener.exitWhileLoop(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitWhileLoop) return visitor.visitWhileLoop(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class IfStatementContext extends ParserRuleContext {
+	public _elseBody: BodyContext;
+	public If(): TerminalNode { return this.getToken(QasmParser3.If, 0); }
+	public LeftParen(): TerminalNode { return this.getToken(QasmParser3.LeftParen, 0); }
+	public expression(): ExpressionContext {
+		return this.getRuleContext(0, ExpressionContext);
+	}
+	public RightParen(): TerminalNode { return this.getToken(QasmParser3.RightParen, 0); }
+	public body(): BodyContext[];
+	public body(i: number): BodyContext;
+	public body(i?: number): BodyContext | BodyContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(BodyContext);
+		} else {
+			return this.getRuleContext(i, BodyContext);
+		}
+	}
+	public Else(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Else, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_ifStatement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterIfStatement) listener.enterIfStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitIfStatement) listener.exitIfStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitIfStatement) return visitor.visitIfStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class LoopControlContext extends ParserRuleContext {
+	public _keyword: Token;
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public Break(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Break, 0); }
+	public Continue(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Continue, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_loopControl; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterLoopControl) listener.enterLoopControl(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitLoopControl) listener.exitLoopControl(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitLoopControl) return visitor.visitLoopControl(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ReturnStatementContext extends ParserRuleContext {
+	public Return(): TerminalNode { return this.getToken(QasmParser3.Return, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public valueExpression(): ValueExpressionContext | undefined {
+		return this.tryGetRuleContext(0, ValueExpressionContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_returnStatement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterReturnStatement) listener.enterReturnStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitReturnStatement) listener.exitReturnStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitReturnStatement) return visitor.visitReturnStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class MeasureStatementContext extends ParserRuleContext {
+	public measurement(): MeasurementContext {
+		return this.getRuleContext(0, MeasurementContext);
+	}
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public Arrow(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Arrow, 0); }
+	public operand(): OperandContext | undefined {
+		return this.tryGetRuleContext(0, OperandContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_measureStatement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterMeasureStatement) listener.enterMeasureStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitMeasureStatement) listener.exitMeasureStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitMeasureStatement) return visitor.visitMeasureStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ResetStatementContext extends ParserRuleContext {
+	public Reset(): TerminalNode { return this.getToken(QasmParser3.Reset, 0); }
+	public operand(): OperandContext {
+		return this.getRuleContext(0, OperandContext);
+	}
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_resetStatement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterResetStatement) listener.enterResetStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitResetStatement) listener.exitResetStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitResetStatement) return visitor.visitResetStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class BarrierStatementContext extends ParserRuleContext {
+	public Barrier(): TerminalNode { return this.getToken(QasmParser3.Barrier, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public operandList(): OperandListContext | undefined {
+		return this.tryGetRuleContext(0, OperandListContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_barrierStatement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterBarrierStatement) listener.enterBarrierStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitBarrierStatement) listener.exitBarrierStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitBarrierStatement) return visitor.visitBarrierStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class AssignmentContext extends ParserRuleContext {
+	public _operator: Token;
+	public operand(): OperandContext {
+		return this.getRuleContext(0, OperandContext);
+	}
+	public valueExpression(): ValueExpressionContext {
+		return this.getRuleContext(0, ValueExpressionContext);
+	}
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public Equals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Equals, 0); }
+	public PlusEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.PlusEquals, 0); }
+	public MinusEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.MinusEquals, 0); }
+	public AsteriskEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.AsteriskEquals, 0); }
+	public SlashEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.SlashEquals, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_assignment; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterAssignment) listener.enterAssignment(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitAssignment) listener.exitAssignment(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitAssignment) return visitor.visitAssignment(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ExpressionStatementContext extends ParserRuleContext {
+	public call(): CallContext {
+		return this.getRuleContext(0, CallContext);
+	}
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_expressionStatement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterExpressionStatement) listener.enterExpressionStatement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitExpressionStatement) listener.exitExpressionStatement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitExpressionStatement) return visitor.visitExpressionStatement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class GateCallContext extends ParserRuleContext {
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public Semi(): TerminalNode { return this.getToken(QasmParser3.Semi, 0); }
+	public gateModifier(): GateModifierContext[];
+	public gateModifier(i: number): GateModifierContext;
+	public gateModifier(i?: number): GateModifierContext | GateModifierContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(GateModifierContext);
+		} else {
+			return this.getRuleContext(i, GateModifierContext);
+		}
+	}
+	public LeftParen(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.LeftParen, 0); }
+	public RightParen(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.RightParen, 0); }
+	public operandList(): OperandListContext | undefined {
+		return this.tryGetRuleContext(0, OperandListContext);
+	}
+	public expressionList(): ExpressionListContext | undefined {
+		return this.tryGetRuleContext(0, ExpressionListContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_gateCall; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterGateCall) listener.enterGateCall(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitGateCall) listener.exitGateCall(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitGateCall) return visitor.visitGateCall(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class GateModifierContext extends ParserRuleContext {
+	public _name: Token;
+	public At(): TerminalNode { return this.getToken(QasmParser3.At, 0); }
+	public Ctrl(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Ctrl, 0); }
+	public NegCtrl(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.NegCtrl, 0); }
+	public Inv(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Inv, 0); }
+	public Pow(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Pow, 0); }
+	public LeftParen(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.LeftParen, 0); }
+	public expression(): ExpressionContext | undefined {
+		return this.tryGetRuleContext(0, ExpressionContext);
+	}
+	public RightParen(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.RightParen, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_gateModifier; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterGateModifier) listener.enterGateModifier(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitGateModifier) listener.exitGateModifier(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitGateModifier) return visitor.visitGateModifier(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class BodyContext extends ParserRuleContext {
+	public block(): BlockContext | undefined {
+		return this.tryGetRuleContext(0, BlockContext);
+	}
+	public statement(): StatementContext | undefined {
+		return this.tryGetRuleContext(0, StatementContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_body; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterBody) listener.enterBody(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitBody) listener.exitBody(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitBody) return visitor.visitBody(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class BlockContext extends ParserRuleContext {
+	public LeftCurlyBrace(): TerminalNode { return this.getToken(QasmParser3.LeftCurlyBrace, 0); }
+	public RightCurlyBrace(): TerminalNode { return this.getToken(QasmParser3.RightCurlyBrace, 0); }
+	public statement(): StatementContext[];
+	public statement(i: number): StatementContext;
+	public statement(i?: number): StatementContext | StatementContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(StatementContext);
+		} else {
+			return this.getRuleContext(i, StatementContext);
+		}
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_block; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterBlock) listener.enterBlock(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitBlock) listener.exitBlock(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitBlock) return visitor.visitBlock(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ClassicalTypeContext extends ParserRuleContext {
+	public _name: Token;
+	public Bit(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Bit, 0); }
+	public Int(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Int, 0); }
+	public Uint(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Uint, 0); }
+	public Float(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Float, 0); }
+	public Angle(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Angle, 0); }
+	public Bool(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Bool, 0); }
+	public designator(): DesignatorContext | undefined {
+		return this.tryGetRuleContext(0, DesignatorContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_classicalType; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterClassicalType) listener.enterClassicalType(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitClassicalType) listener.exitClassicalType(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitClassicalType) return visitor.visitClassicalType(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class DesignatorContext extends ParserRuleContext {
+	public LeftBracket(): TerminalNode { return this.getToken(QasmParser3.LeftBracket, 0); }
+	public expression(): ExpressionContext {
+		return this.getRuleContext(0, ExpressionContext);
+	}
+	public RightBracket(): TerminalNode { return this.getToken(QasmParser3.RightBracket, 0); }
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_designator; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterDesignator) listener.enterDesignator(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitDesignator) listener.exitDesignator(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitDesignator) return visitor.visitDesignator(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ValueExpressionContext extends ParserRuleContext {
+	public measurement(): MeasurementContext | undefined {
+		return this.tryGetRuleContext(0, MeasurementContext);
+	}
+	public expression(): ExpressionContext | undefined {
+		return this.tryGetRuleContext(0, ExpressionContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_valueExpression; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterValueExpression) listener.enterValueExpression(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitValueExpression) listener.exitValueExpression(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitValueExpression) return visitor.visitValueExpression(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class MeasurementContext extends ParserRuleContext {
+	public Measure(): TerminalNode { return this.getToken(QasmParser3.Measure, 0); }
+	public operand(): OperandContext {
+		return this.getRuleContext(0, OperandContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_measurement; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterMeasurement) listener.enterMeasurement(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitMeasurement) listener.exitMeasurement(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitMeasurement) return visitor.visitMeasurement(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ExpressionContext extends ParserRuleContext {
+	constructor();
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent?: ParserRuleContext, invokingState?: number) {
+		if (parent !== undefined && invokingState !== undefined) {
+			super(parent, invokingState);
+		} else {
+			super();
+		}
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_expression; }
+ 
+	public copyFrom(ctx: ExpressionContext): void {
+		super.copyFrom(ctx);
+	}
+}
+export class NumberLiteralContext extends ExpressionContext {
+	public Number(): TerminalNode { return this.getToken(QasmParser3.Number, 0); }
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterNumberLiteral) listener.enterNumberLiteral(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitNumberLiteral) listener.exitNumberLiteral(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitNumberLiteral) return visitor.visitNumberLiteral(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class BooleanLiteralContext extends ExpressionContext {
+	public _value: Token;
+	public True(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.True, 0); }
+	public False(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.False, 0); }
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterBooleanLiteral) listener.enterBooleanLiteral(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitBooleanLiteral) listener.exitBooleanLiteral(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitBooleanLiteral) return visitor.visitBooleanLiteral(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class ParenthesisExpressionContext extends ExpressionContext {
+	public LeftParen(): TerminalNode { return this.getToken(QasmParser3.LeftParen, 0); }
+	public expression(): ExpressionContext {
+		return this.getRuleContext(0, ExpressionContext);
+	}
+	public RightParen(): TerminalNode { return this.getToken(QasmParser3.RightParen, 0); }
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterParenthesisExpression) listener.enterParenthesisExpression(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitParenthesisExpression) listener.exitParenthesisExpression(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitParenthesisExpression) return visitor.visitParenthesisExpression(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class CallExpressionContext extends ExpressionContext {
+	public call(): CallContext {
+		return this.getRuleContext(0, CallContext);
+	}
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterCallExpression) listener.enterCallExpression(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitCallExpression) listener.exitCallExpression(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitCallExpression) return visitor.visitCallExpression(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class IdentifierExpressionContext extends ExpressionContext {
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public designator(): DesignatorContext | undefined {
+		return this.tryGetRuleContext(0, DesignatorContext);
+	}
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterIdentifierExpression) listener.enterIdentifierExpression(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitIdentifierExpression) listener.exitIdentifierExpression(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitIdentifierExpression) return visitor.visitIdentifierExpression(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class UnaryExpressionContext extends ExpressionContext {
+	public _operator: Token;
+	public expression(): ExpressionContext {
+		return this.getRuleContext(0, ExpressionContext);
+	}
+	public Minus(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Minus, 0); }
+	public ExclamationPoint(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.ExclamationPoint, 0); }
+	public Tilde(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Tilde, 0); }
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterUnaryExpression) listener.enterUnaryExpression(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitUnaryExpression) listener.exitUnaryExpression(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitUnaryExpression) return visitor.visitUnaryExpression(this);
+		else return visitor.visitChildren(this);
+	}
+}
+export class BinaryExpressionContext extends ExpressionContext {
+	public _operator: Token;
+	public expression(): ExpressionContext[];
+	public expression(i: number): ExpressionContext;
+	public expression(i?: number): ExpressionContext | ExpressionContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(ExpressionContext);
+		} else {
+			return this.getRuleContext(i, ExpressionContext);
+		}
+	}
+	public DoubleAsterisk(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.DoubleAsterisk, 0); }
+	public Asterisk(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Asterisk, 0); }
+	public Slash(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Slash, 0); }
+	public Percent(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Percent, 0); }
+	public Plus(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Plus, 0); }
+	public Minus(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Minus, 0); }
+	public LeftShift(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.LeftShift, 0); }
+	public RightShift(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.RightShift, 0); }
+	public Less(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Less, 0); }
+	public Greater(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Greater, 0); }
+	public LessEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.LessEquals, 0); }
+	public GreaterEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.GreaterEquals, 0); }
+	public DoubleEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.DoubleEquals, 0); }
+	public NotEquals(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.NotEquals, 0); }
+	public Ampersand(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Ampersand, 0); }
+	public Caret(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Caret, 0); }
+	public Pipe(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.Pipe, 0); }
+	public DoubleAmpersand(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.DoubleAmpersand, 0); }
+	public DoublePipe(): TerminalNode | undefined { return this.tryGetToken(QasmParser3.DoublePipe, 0); }
+	constructor(ctx: ExpressionContext) { super(); this.copyFrom(ctx); }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterBinaryExpression) listener.enterBinaryExpression(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitBinaryExpression) listener.exitBinaryExpression(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitBinaryExpression) return visitor.visitBinaryExpression(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class CallContext extends ParserRuleContext {
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public LeftParen(): TerminalNode { return this.getToken(QasmParser3.LeftParen, 0); }
+	public RightParen(): TerminalNode { return this.getToken(QasmParser3.RightParen, 0); }
+	public expressionList(): ExpressionListContext | undefined {
+		return this.tryGetRuleContext(0, ExpressionListContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_call; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterCall) listener.enterCall(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitCall) listener.exitCall(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitCall) return visitor.visitCall(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class ExpressionListContext extends ParserRuleContext {
+	public expression(): ExpressionContext[];
+	public expression(i: number): ExpressionContext;
+	public expression(i?: number): ExpressionContext | ExpressionContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(ExpressionContext);
+		} else {
+			return this.getRuleContext(i, ExpressionContext);
+		}
+	}
+	public Comma(): TerminalNode[];
+	public Comma(i: number): TerminalNode;
+	public Comma(i?: number): TerminalNode | TerminalNode[] {
+		if (i === undefined) {
+			return this.getTokens(QasmParser3.Comma);
+		} else {
+			return this.getToken(QasmParser3.Comma, i);
+		}
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_expressionList; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterExpressionList) listener.enterExpressionList(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitExpressionList) listener.exitExpressionList(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitExpressionList) return visitor.visitExpressionList(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class OperandContext extends ParserRuleContext {
+	public Identifier(): TerminalNode { return this.getToken(QasmParser3.Identifier, 0); }
+	public designator(): DesignatorContext | undefined {
+		return this.tryGetRuleContext(0, DesignatorContext);
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_operand; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterOperand) listener.enterOperand(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitOperand) listener.exitOperand(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitOperand) return visitor.visitOperand(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class OperandListContext extends ParserRuleContext {
+	public operand(): OperandContext[];
+	public operand(i: number): OperandContext;
+	public operand(i?: number): OperandContext | OperandContext[] {
+		if (i === undefined) {
+			return this.getRuleContexts(OperandContext);
+		} else {
+			return this.getRuleContext(i, OperandContext);
+		}
+	}
+	public Comma(): TerminalNode[];
+	public Comma(i: number): TerminalNode;
+	public Comma(i?: number): TerminalNode | TerminalNode[] {
+		if (i === undefined) {
+			return this.getTokens(QasmParser3.Comma);
+		} else {
+			return this.getToken(QasmParser3.Comma, i);
+		}
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_operandList; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterOperandList) listener.enterOperandList(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitOperandList) listener.exitOperandList(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitOperandList) return visitor.visitOperandList(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
+export class IdentifierListContext extends ParserRuleContext {
+	public Identifier(): TerminalNode[];
+	public Identifier(i: number): TerminalNode;
+	public Identifier(i?: number): TerminalNode | TerminalNode[] {
+		if (i === undefined) {
+			return this.getTokens(QasmParser3.Identifier);
+		} else {
+			return this.getToken(QasmParser3.Identifier, i);
+		}
+	}
+	public Comma(): TerminalNode[];
+	public Comma(i: number): TerminalNode;
+	public Comma(i?: number): TerminalNode | TerminalNode[] {
+		if (i === undefined) {
+			return this.getTokens(QasmParser3.Comma);
+		} else {
+			return this.getToken(QasmParser3.Comma, i);
+		}
+	}
+	constructor(parent: ParserRuleContext, invokingState: number);
+	constructor(parent: ParserRuleContext, invokingState: number) {
+		super(parent, invokingState);
+
+	}
+	@Override public get ruleIndex(): number { return QasmParser3.RULE_identifierList; }
+	@Override
+	public enterRule(listener: QasmParser3Listener): void {
+		if (listener.enterIdentifierList) listener.enterIdentifierList(this);
+	}
+	@Override
+	public exitRule(listener: QasmParser3Listener): void {
+		if (listener.exitIdentifierList) listener.exitIdentifierList(this);
+	}
+	@Override
+	public accept<Result>(visitor: QasmParser3Visitor<Result>): Result {
+		if (visitor.visitIdentifierList) return visitor.visitIdentifierList(this);
+		else return visitor.visitChildren(this);
+	}
+}
+
+
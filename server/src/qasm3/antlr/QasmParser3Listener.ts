@@ -0,0 +1,549 @@
+// Generated from QasmParser3.g4 by ANTLR 4.6-SNAPSHOT
+
+
+import { ParseTreeListener } from 'antlr4ts/tree/ParseTreeListener';
+
+import { ProgramContext } from './QasmParser3';
+import { HeaderContext } from './QasmParser3';
+import { StatementContext } from './QasmParser3';
+import { IncludeContext } from './QasmParser3';
+import { QubitDeclarationContext } from './QasmParser3';
+import { RegisterDeclarationContext } from './QasmParser3';
+import { ClassicalDeclarationContext } from './QasmParser3';
+import { GateDefinitionContext } from './QasmParser3';
+import { SubroutineDefinitionContext } from './QasmParser3';
+import { SubroutineArgumentContext } from './QasmParser3';
+import { ForLoopContext } from './QasmParser3';
+import { RangeIterableContext } from './QasmParser3';
+import { SetIterableContext } from './QasmParser3';
+import { ExpressionIterableContext } from './QasmParser3';
+import { WhileLoopContext } from './QasmParser3';
+import { IfStatementContext } from './QasmParser3';
+import { LoopControlContext } from './QasmParser3';
+import { ReturnStatementContext } from './QasmParser3';
+import { MeasureStatementContext } from './QasmParser3';
+import { ResetStatementContext } from './QasmParser3';
+import { BarrierStatementContext } from './QasmParser3';
+import { AssignmentContext } from './QasmParser3';
+import { ExpressionStatementContext } from './QasmParser3';
+import { GateCallContext } from './QasmParser3';
+import { GateModifierContext } from './QasmParser3';
+import { BodyContext } from './QasmParser3';
+import { BlockContext } from './QasmParser3';
+import { ClassicalTypeContext } from './QasmParser3';
+import { DesignatorContext } from './QasmParser3';
+import { ValueExpressionContext } from './QasmParser3';
+import { MeasurementContext } from './QasmParser3';
+import { NumberLiteralContext } from './QasmParser3';
+import { BooleanLiteralContext } from './QasmParser3';
+import { ParenthesisExpressionContext } from './QasmParser3';
+import { CallExpressionContext } from './QasmParser3';
+import { IdentifierExpressionContext } from './QasmParser3';
+import { UnaryExpressionContext } from './QasmParser3';
+import { BinaryExpressionContext } from './QasmParser3';
+import { CallContext } from './QasmParser3';
+import { ExpressionListContext } from './QasmParser3';
+import { OperandContext } from './QasmParser3';
+import { OperandListContext } from './QasmParser3';
+import { IdentifierListContext } from './QasmParser3';
+
+
+/**
+ * This interface defines a complete listener for a parse tree produced by
+ * `QasmParser3`.
+ */
+export interface QasmParser3Listener extends ParseTreeListener {
+	/**
+	 * Enter a parse tree produced by `QasmParser3.program`.
+	 * @param ctx the parse tree
+	 */
+	enterProgram?: (ctx: ProgramContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.program`.
+	 * @param ctx the parse tree
+	 */
+	exitProgram?: (ctx: ProgramContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.header`.
+	 * @param ctx the parse tree
+	 */
+	enterHeader?: (ctx: HeaderContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.header`.
+	 * @param ctx the parse tree
+	 */
+	exitHeader?: (ctx: HeaderContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.statement`.
+	 * @param ctx the parse tree
+	 */
+	enterStatement?: (ctx: StatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.statement`.
+	 * @param ctx the parse tree
+	 */
+	exitStatement?: (ctx: StatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.include`.
+	 * @param ctx the parse tree
+	 */
+	enterInclude?: (ctx: IncludeContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.include`.
+	 * @param ctx the parse tree
+	 */
+	exitInclude?: (ctx: IncludeContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.qubitDeclaration`.
+	 * @param ctx the parse tree
+	 */
+	enterQubitDeclaration?: (ctx: QubitDeclarationContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.qubitDeclaration`.
+	 * @param ctx the parse tree
+	 */
+	exitQubitDeclaration?: (ctx: QubitDeclarationContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.registerDeclaration`.
+	 * @param ctx the parse tree
+	 */
+	enterRegisterDeclaration?: (ctx: RegisterDeclarationContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.registerDeclaration`.
+	 * @param ctx the parse tree
+	 */
+	exitRegisterDeclaration?: (ctx: RegisterDeclarationContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.classicalDeclaration`.
+	 * @param ctx the parse tree
+	 */
+	enterClassicalDeclaration?: (ctx: ClassicalDeclarationContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.classicalDeclaration`.
+	 * @param ctx the parse tree
+	 */
+	exitClassicalDeclaration?: (ctx: ClassicalDeclarationContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.gateDefinition`.
+	 * @param ctx the parse tree
+	 */
+	enterGateDefinition?: (ctx: GateDefinitionContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.gateDefinition`.
+	 * @param ctx the parse tree
+	 */
+	exitGateDefinition?: (ctx: GateDefinitionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.subroutineDefinition`.
+	 * @param ctx the parse tree
+	 */
+	enterSubroutineDefinition?: (ctx: SubroutineDefinitionContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.subroutineDefinition`.
+	 * @param ctx the parse tree
+	 */
+	exitSubroutineDefinition?: (ctx: SubroutineDefinitionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.subroutineArgument`.
+	 * @param ctx the parse tree
+	 */
+	enterSubroutineArgument?: (ctx: SubroutineArgumentContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.subroutineArgument`.
+	 * @param ctx the parse tree
+	 */
+	exitSubroutineArgument?: (ctx: SubroutineArgumentContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.forLoop`.
+	 * @param ctx the parse tree
+	 */
+	enterForLoop?: (ctx: ForLoopContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.forLoop`.
+	 * @param ctx the parse tree
+	 */
+	exitForLoop?: (ctx: ForLoopContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `rangeIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 */
+	enterRangeIterable?: (ctx: RangeIterableContext) => void;
+	/**
+	 * Exit a parse tree produced by the `rangeIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 */
+	exitRangeIterable?: (ctx: RangeIterableContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `setIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 */
+	enterSetIterable?: (ctx: SetIterableContext) => void;
+	/**
+	 * Exit a parse tree produced by the `setIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 */
+	exitSetIterable?: (ctx: SetIterableContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `expressionIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 */
+	enterExpressionIterable?: (ctx: ExpressionIterableContext) => void;
+	/**
+	 * Exit a parse tree produced by the `expressionIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 */
+	exitExpressionIterable?: (ctx: ExpressionIterableContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.whileLoop`.
+	 * @param ctx the parse tree
+	 */
+	enterWhileLoop?: (ctx: WhileLoopContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.whileLoop`.
+	 * @param ctx the parse tree
+	 */
+	exitWhileLoop?: (ctx: WhileLoopContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.ifStatement`.
+	 * @param ctx the parse tree
+	 */
+	enterIfStatement?: (ctx: IfStatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.ifStatement`.
+	 * @param ctx the parse tree
+	 */
+	exitIfStatement?: (ctx: IfStatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.loopControl`.
+	 * @param ctx the parse tree
+	 */
+	enterLoopControl?: (ctx: LoopControlContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.loopControl`.
+	 * @param ctx the parse tree
+	 */
+	exitLoopControl?: (ctx: LoopControlContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.returnStatement`.
+	 * @param ctx the parse tree
+	 */
+	enterReturnStatement?: (ctx: ReturnStatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.returnStatement`.
+	 * @param ctx the parse tree
+	 */
+	exitReturnStatement?: (ctx: ReturnStatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.measureStatement`.
+	 * @param ctx the parse tree
+	 */
+	enterMeasureStatement?: (ctx: MeasureStatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.measureStatement`.
+	 * @param ctx the parse tree
+	 */
+	exitMeasureStatement?: (ctx: MeasureStatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.resetStatement`.
+	 * @param ctx the parse tree
+	 */
+	enterResetStatement?: (ctx: ResetStatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.resetStatement`.
+	 * @param ctx the parse tree
+	 */
+	exitResetStatement?: (ctx: ResetStatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.barrierStatement`.
+	 * @param ctx the parse tree
+	 */
+	enterBarrierStatement?: (ctx: BarrierStatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.barrierStatement`.
+	 * @param ctx the parse tree
+	 */
+	exitBarrierStatement?: (ctx: BarrierStatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.assignment`.
+	 * @param ctx the parse tree
+	 */
+	enterAssignment?: (ctx: AssignmentContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.assignment`.
+	 * @param ctx the parse tree
+	 */
+	exitAssignment?: (ctx: AssignmentContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.expressionStatement`.
+	 * @param ctx the parse tree
+	 */
+	enterExpressionStatement?: (ctx: ExpressionStatementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.expressionStatement`.
+	 * @param ctx the parse tree
+	 */
+	exitExpressionStatement?: (ctx: ExpressionStatementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.gateCall`.
+	 * @param ctx the parse tree
+	 */
+	enterGateCall?: (ctx: GateCallContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.gateCall`.
+	 * @param ctx the parse tree
+	 */
+	exitGateCall?: (ctx: GateCallContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.gateModifier`.
+	 * @param ctx the parse tree
+	 */
+	enterGateModifier?: (ctx: GateModifierContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.gateModifier`.
+	 * @param ctx the parse tree
+	 */
+	exitGateModifier?: (ctx: GateModifierContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.body`.
+	 * @param ctx the parse tree
+	 */
+	enterBody?: (ctx: BodyContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.body`.
+	 * @param ctx the parse tree
+	 */
+	exitBody?: (ctx: BodyContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.block`.
+	 * @param ctx the parse tree
+	 */
+	enterBlock?: (ctx: BlockContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.block`.
+	 * @param ctx the parse tree
+	 */
+	exitBlock?: (ctx: BlockContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.classicalType`.
+	 * @param ctx the parse tree
+	 */
+	enterClassicalType?: (ctx: ClassicalTypeContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.classicalType`.
+	 * @param ctx the parse tree
+	 */
+	exitClassicalType?: (ctx: ClassicalTypeContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.designator`.
+	 * @param ctx the parse tree
+	 */
+	enterDesignator?: (ctx: DesignatorContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.designator`.
+	 * @param ctx the parse tree
+	 */
+	exitDesignator?: (ctx: DesignatorContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.valueExpression`.
+	 * @param ctx the parse tree
+	 */
+	enterValueExpression?: (ctx: ValueExpressionContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.valueExpression`.
+	 * @param ctx the parse tree
+	 */
+	exitValueExpression?: (ctx: ValueExpressionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.measurement`.
+	 * @param ctx the parse tree
+	 */
+	enterMeasurement?: (ctx: MeasurementContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.measurement`.
+	 * @param ctx the parse tree
+	 */
+	exitMeasurement?: (ctx: MeasurementContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `numberLiteral`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterNumberLiteral?: (ctx: NumberLiteralContext) => void;
+	/**
+	 * Exit a parse tree produced by the `numberLiteral`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitNumberLiteral?: (ctx: NumberLiteralContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `booleanLiteral`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterBooleanLiteral?: (ctx: BooleanLiteralContext) => void;
+	/**
+	 * Exit a parse tree produced by the `booleanLiteral`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitBooleanLiteral?: (ctx: BooleanLiteralContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `parenthesisExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterParenthesisExpression?: (ctx: ParenthesisExpressionContext) => void;
+	/**
+	 * Exit a parse tree produced by the `parenthesisExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitParenthesisExpression?: (ctx: ParenthesisExpressionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `callExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterCallExpression?: (ctx: CallExpressionContext) => void;
+	/**
+	 * Exit a parse tree produced by the `callExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitCallExpression?: (ctx: CallExpressionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `identifierExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterIdentifierExpression?: (ctx: IdentifierExpressionContext) => void;
+	/**
+	 * Exit a parse tree produced by the `identifierExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitIdentifierExpression?: (ctx: IdentifierExpressionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `unaryExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterUnaryExpression?: (ctx: UnaryExpressionContext) => void;
+	/**
+	 * Exit a parse tree produced by the `unaryExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitUnaryExpression?: (ctx: UnaryExpressionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by the `binaryExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	enterBinaryExpression?: (ctx: BinaryExpressionContext) => void;
+	/**
+	 * Exit a parse tree produced by the `binaryExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 */
+	exitBinaryExpression?: (ctx: BinaryExpressionContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.call`.
+	 * @param ctx the parse tree
+	 */
+	enterCall?: (ctx: CallContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.call`.
+	 * @param ctx the parse tree
+	 */
+	exitCall?: (ctx: CallContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.expressionList`.
+	 * @param ctx the parse tree
+	 */
+	enterExpressionList?: (ctx: ExpressionListContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.expressionList`.
+	 * @param ctx the parse tree
+	 */
+	exitExpressionList?: (ctx: ExpressionListContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.operand`.
+	 * @param ctx the parse tree
+	 */
+	enterOperand?: (ctx: OperandContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.operand`.
+	 * @param ctx the parse tree
+	 */
+	exitOperand?: (ctx: OperandContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.operandList`.
+	 * @param ctx the parse tree
+	 */
+	enterOperandList?: (ctx: OperandListContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.operandList`.
+	 * @param ctx the parse tree
+	 */
+	exitOperandList?: (ctx: OperandListContext) => void;
+
+	/**
+	 * Enter a parse tree produced by `QasmParser3.identifierList`.
+	 * @param ctx the parse tree
+	 */
+	enterIdentifierList?: (ctx: IdentifierListContext) => void;
+	/**
+	 * Exit a parse tree produced by `QasmParser3.identifierList`.
+	 * @param ctx the parse tree
+	 */
+	exitIdentifierList?: (ctx: IdentifierListContext) => void;
+}
+
@@ -0,0 +1,370 @@
+// Generated from QasmParser3.g4 by ANTLR 4.6-SNAPSHOT
+
+
+import { ParseTreeVisitor } from 'antlr4ts/tree/ParseTreeVisitor';
+
+import { ProgramContext } from './QasmParser3';
+import { HeaderContext } from './QasmParser3';
+import { StatementContext } from './QasmParser3';
+import { IncludeContext } from './QasmParser3';
+import { QubitDeclarationContext } from './QasmParser3';
+import { RegisterDeclarationContext } from './QasmParser3';
+import { ClassicalDeclarationContext } from './QasmParser3';
+import { GateDefinitionContext } from './QasmParser3';
+import { SubroutineDefinitionContext } from './QasmParser3';
+import { SubroutineArgumentContext } from './QasmParser3';
+import { ForLoopContext } from './QasmParser3';
+import { RangeIterableContext } from './QasmParser3';
+import { SetIterableContext } from './QasmParser3';
+import { ExpressionIterableContext } from './QasmParser3';
+import { WhileLoopContext } from './QasmParser3';
+import { IfStatementContext } from './QasmParser3';
+import { LoopControlContext } from './QasmParser3';
+import { ReturnStatementContext } from './QasmParser3';
+import { MeasureStatementContext } from './QasmParser3';
+import { ResetStatementContext } from './QasmParser3';
+import { BarrierStatementContext } from './QasmParser3';
+import { AssignmentContext } from './QasmParser3';
+import { ExpressionStatementContext } from './QasmParser3';
+import { GateCallContext } from './QasmParser3';
+import { GateModifierContext } from './QasmParser3';
+import { BodyContext } from './QasmParser3';
+import { BlockContext } from './QasmParser3';
+import { ClassicalTypeContext } from './QasmParser3';
+import { DesignatorContext } from './QasmParser3';
+import { ValueExpressionContext } from './QasmParser3';
+import { MeasurementContext } from './QasmParser3';
+import { NumberLiteralContext } from './QasmParser3';
+import { BooleanLiteralContext } from './QasmParser3';
+import { ParenthesisExpressionContext } from './QasmParser3';
+import { CallExpressionContext } from './QasmParser3';
+import { IdentifierExpressionContext } from './QasmParser3';
+import { UnaryExpressionContext } from './QasmParser3';
+import { BinaryExpressionContext } from './QasmParser3';
+import { CallContext } from './QasmParser3';
+import { ExpressionListContext } from './QasmParser3';
+import { OperandContext } from './QasmParser3';
+import { OperandListContext } from './QasmParser3';
+import { IdentifierListContext } from './QasmParser3';
+
+
+/**
+ * This interface defines a complete generic visitor for a parse tree produced
+ * by `QasmParser3`.
+ *
+ * @param <Result> The return type of the visit operation. Use `void` for
+ * operations with no return type.
+ */
+export interface QasmParser3Visitor<Result> extends ParseTreeVisitor<Result> {
+	/**
+	 * Visit a parse tree produced by `QasmParser3.program`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitProgram?: (ctx: ProgramContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.header`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitHeader?: (ctx: HeaderContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.statement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitStatement?: (ctx: StatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.include`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitInclude?: (ctx: IncludeContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.qubitDeclaration`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitQubitDeclaration?: (ctx: QubitDeclarationContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.registerDeclaration`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitRegisterDeclaration?: (ctx: RegisterDeclarationContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.classicalDeclaration`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitClassicalDeclaration?: (ctx: ClassicalDeclarationContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.gateDefinition`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitGateDefinition?: (ctx: GateDefinitionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.subroutineDefinition`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitSubroutineDefinition?: (ctx: SubroutineDefinitionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.subroutineArgument`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitSubroutineArgument?: (ctx: SubroutineArgumentContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.forLoop`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitForLoop?: (ctx: ForLoopContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `rangeIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitRangeIterable?: (ctx: RangeIterableContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `setIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitSetIterable?: (ctx: SetIterableContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `expressionIterable`
+	 * labeled alternative in `QasmParser3.iterable`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitExpressionIterable?: (ctx: ExpressionIterableContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.whileLoop`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitWhileLoop?: (ctx: WhileLoopContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.ifStatement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitIfStatement?: (ctx: IfStatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.loopControl`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitLoopControl?: (ctx: LoopControlContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.returnStatement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitReturnStatement?: (ctx: ReturnStatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.measureStatement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitMeasureStatement?: (ctx: MeasureStatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.resetStatement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitResetStatement?: (ctx: ResetStatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.barrierStatement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitBarrierStatement?: (ctx: BarrierStatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.assignment`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitAssignment?: (ctx: AssignmentContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.expressionStatement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitExpressionStatement?: (ctx: ExpressionStatementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.gateCall`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitGateCall?: (ctx: GateCallContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.gateModifier`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitGateModifier?: (ctx: GateModifierContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.body`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitBody?: (ctx: BodyContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.block`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitBlock?: (ctx: BlockContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.classicalType`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitClassicalType?: (ctx: ClassicalTypeContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.designator`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitDesignator?: (ctx: DesignatorContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.valueExpression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitValueExpression?: (ctx: ValueExpressionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.measurement`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitMeasurement?: (ctx: MeasurementContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `numberLiteral`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitNumberLiteral?: (ctx: NumberLiteralContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `booleanLiteral`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitBooleanLiteral?: (ctx: BooleanLiteralContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `parenthesisExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitParenthesisExpression?: (ctx: ParenthesisExpressionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `callExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitCallExpression?: (ctx: CallExpressionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `identifierExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitIdentifierExpression?: (ctx: IdentifierExpressionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `unaryExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitUnaryExpression?: (ctx: UnaryExpressionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by the `binaryExpression`
+	 * labeled alternative in `QasmParser3.expression`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitBinaryExpression?: (ctx: BinaryExpressionContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.call`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitCall?: (ctx: CallContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.expressionList`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitExpressionList?: (ctx: ExpressionListContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.operand`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitOperand?: (ctx: OperandContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.operandList`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitOperandList?: (ctx: OperandListContext) => Result;
+
+	/**
+	 * Visit a parse tree produced by `QasmParser3.identifierList`.
+	 * @param ctx the parse tree
+	 * @return the visitor result
+	 */
+	visitIdentifierList?: (ctx: IdentifierListContext) => Result;
+}
+
@@ -0,0 +1,377 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Symbol } from '../../compiler/symbols';
+
+export interface Visitor<T> {
+    visitProgram?(item: Program): T;
+    visitInclude?(item: Include): T;
+    visitQubitDeclaration?(item: QubitDeclaration): T;
+    visitClassicalDeclaration?(item: ClassicalDeclaration): T;
+    visitGateDefinition?(item: GateDefinition): T;
+    visitSubroutineDefinition?(item: SubroutineDefinition): T;
+    visitForLoop?(item: ForLoop): T;
+    visitWhileLoop?(item: WhileLoop): T;
+    visitIfStatement?(item: IfStatement): T;
+    visitLoopControl?(item: LoopControl): T;
+    visitReturnStatement?(item: ReturnStatement): T;
+    visitGateCall?(item: GateCall): T;
+    visitMeasurement?(item: Measurement): T;
+    visitReset?(item: Reset): T;
+    visitBarrier?(item: Barrier): T;
+    visitAssignment?(item: Assignment): T;
+    visitExpressionStatement?(item: ExpressionStatement): T;
+    visitIdentifier?(item: Identifier): T;
+    visitIndexedIdentifier?(item: IndexedIdentifier): T;
+    visitNumberLiteral?(item: NumberLiteral): T;
+    visitBooleanLiteral?(item: BooleanLiteral): T;
+    visitUnaryExpression?(item: UnaryExpression): T;
+    visitBinaryExpression?(item: BinaryExpression): T;
+    visitCallExpression?(item: CallExpression): T;
+    visitRangeExpression?(item: RangeExpression): T;
+    visitSetExpression?(item: SetExpression): T;
+
+    defaultValue(): T;
+}
+
+/** Zero based line and column, the end position points after the last character of the item. */
+export interface Position {
+    line: number;
+    column: number;
+}
+
+export abstract class VisitableItem {
+    start: Position;
+    end: Position;
+
+    abstract accept<T>(visitor: Visitor<T>): T;
+}
+
+export type Statement = VisitableItem;
+
+export type Expression = VisitableItem;
+
+/** Classical type as it is written, e.g. int[32] or bool. The size is null when it is not specified. */
+export interface ClassicalType {
+    name: string;
+    size: Expression;
+}
+
+export class Program extends VisitableItem {
+    constructor(public version: string, public statements: Statement[]) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitProgram ? visitor.visitProgram(this) : visitor.defaultValue();
+    }
+}
+
+export class Include extends VisitableItem {
+    constructor(public file: string) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitInclude ? visitor.visitInclude(this) : visitor.defaultValue();
+    }
+}
+
+/** Declaration of a qubit or an array of qubits, written as qubit[n] q or with the OpenQASM 2 qreg q[n]. */
+export class QubitDeclaration extends VisitableItem {
+    constructor(public name: Identifier, public size: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitQubitDeclaration ? visitor.visitQubitDeclaration(this) : visitor.defaultValue();
+    }
+}
+
+/** Declaration of a classical variable, the OpenQASM 2 creg c[n] is declared as a bit[n]. */
+export class ClassicalDeclaration extends VisitableItem {
+    constructor(
+        public type: ClassicalType,
+        public name: Identifier,
+        public initializer: Expression,
+        public constant: boolean
+    ) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitClassicalDeclaration ? visitor.visitClassicalDeclaration(this) : visitor.defaultValue();
+    }
+}
+
+export class GateDefinition extends VisitableItem {
+    constructor(
+        public name: Identifier,
+        public parameters: Identifier[],
+        public qubits: Identifier[],
+        public body: Statement[]
+    ) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitGateDefinition ? visitor.visitGateDefinition(this) : visitor.defaultValue();
+    }
+}
+
+/** Argument of a subroutine, the type is null for the quantum arguments. */
+export interface SubroutineArgument {
+    name: Identifier;
+    type: ClassicalType;
+    qubits: Expression;
+}
+
+export class SubroutineDefinition extends VisitableItem {
+    constructor(
+        public name: Identifier,
+        public parameters: SubroutineArgument[],
+        public returnType: ClassicalType,
+        public body: Statement[]
+    ) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitSubroutineDefinition ? visitor.visitSubroutineDefinition(this) : visitor.defaultValue();
+    }
+}
+
+export class ForLoop extends VisitableItem {
+    constructor(
+        public variableType: ClassicalType,
+        public variable: Identifier,
+        public iterable: Expression,
+        public body: Statement[]
+    ) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitForLoop ? visitor.visitForLoop(this) : visitor.defaultValue();
+    }
+}
+
+export class WhileLoop extends VisitableItem {
+    constructor(public condition: Expression, public body: Statement[]) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitWhileLoop ? visitor.visitWhileLoop(this) : visitor.defaultValue();
+    }
+}
+
+/** The else body is null when there is no else branch. */
+export class IfStatement extends VisitableItem {
+    constructor(public condition: Expression, public body: Statement[], public elseBody: Statement[]) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitIfStatement ? visitor.visitIfStatement(this) : visitor.defaultValue();
+    }
+}
+
+/** A break or a continue statement. */
+export class LoopControl extends VisitableItem {
+    constructor(public keyword: string) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitLoopControl ? visitor.visitLoopControl(this) : visitor.defaultValue();
+    }
+}
+
+export class ReturnStatement extends VisitableItem {
+    constructor(public value: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitReturnStatement ? visitor.visitReturnStatement(this) : visitor.defaultValue();
+    }
+}
+
+/** Modifier applied to a gate, like ctrl @ or pow(2) @. The argument is null when it is not given. */
+export interface GateModifier {
+    name: string;
+    argument: Expression;
+    start: Position;
+}
+
+export class GateCall extends VisitableItem {
+    constructor(
+        public modifiers: GateModifier[],
+        public name: Identifier,
+        public parameters: Expression[],
+        public qubits: IndexedIdentifier[]
+    ) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitGateCall ? visitor.visitGateCall(this) : visitor.defaultValue();
+    }
+}
+
+/** A measurement, the target is only given with the OpenQASM 2 syntax measure q -> c. */
+export class Measurement extends VisitableItem {
+    constructor(public qubit: IndexedIdentifier, public target: IndexedIdentifier) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitMeasurement ? visitor.visitMeasurement(this) : visitor.defaultValue();
+    }
+}
+
+export class Reset extends VisitableItem {
+    constructor(public qubit: IndexedIdentifier) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitReset ? visitor.visitReset(this) : visitor.defaultValue();
+    }
+}
+
+export class Barrier extends VisitableItem {
+    constructor(public qubits: IndexedIdentifier[]) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitBarrier ? visitor.visitBarrier(this) : visitor.defaultValue();
+    }
+}
+
+export class Assignment extends VisitableItem {
+    constructor(public target: IndexedIdentifier, public operator: string, public value: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitAssignment ? visitor.visitAssignment(this) : visitor.defaultValue();
+    }
+}
+
+export class ExpressionStatement extends VisitableItem {
+    constructor(public expression: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitExpressionStatement ? visitor.visitExpressionStatement(this) : visitor.defaultValue();
+    }
+}
+
+export class Identifier extends VisitableItem {
+    /** Symbol named by the identifier, resolved by the symbol table generator and undefined when it is unknown. */
+    symbol: Symbol;
+
+    constructor(public name: string) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitIdentifier ? visitor.visitIdentifier(this) : visitor.defaultValue();
+    }
+}
+
+/** Reference to a variable, with the index of the element when it is an array. */
+export class IndexedIdentifier extends VisitableItem {
+    constructor(public identifier: Identifier, public index: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitIndexedIdentifier ? visitor.visitIndexedIdentifier(this) : visitor.defaultValue();
+    }
+}
+
+export class NumberLiteral extends VisitableItem {
+    constructor(public value: number) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitNumberLiteral ? visitor.visitNumberLiteral(this) : visitor.defaultValue();
+    }
+}
+
+export class BooleanLiteral extends VisitableItem {
+    constructor(public value: boolean) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitBooleanLiteral ? visitor.visitBooleanLiteral(this) : visitor.defaultValue();
+    }
+}
+
+export class UnaryExpression extends VisitableItem {
+    constructor(public operator: string, public operand: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitUnaryExpression ? visitor.visitUnaryExpression(this) : visitor.defaultValue();
+    }
+}
+
+export class BinaryExpression extends VisitableItem {
+    constructor(public operator: string, public left: Expression, public right: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitBinaryExpression ? visitor.visitBinaryExpression(this) : visitor.defaultValue();
+    }
+}
+
+/** Call to a built-in function, a subroutine or a cast to a classical type, like int(x). */
+export class CallExpression extends VisitableItem {
+    constructor(public callee: Identifier, public parameters: Expression[]) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitCallExpression ? visitor.visitCallExpression(this) : visitor.defaultValue();
+    }
+}
+
+/** Range of values iterated by a for loop, e.g. [0:2:10]. The step is null when it is not given. */
+export class RangeExpression extends VisitableItem {
+    constructor(public first: Expression, public step: Expression, public last: Expression) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitRangeExpression ? visitor.visitRangeExpression(this) : visitor.defaultValue();
+    }
+}
+
+/** Set of values iterated by a for loop, e.g. {1, 3, 5}. */
+export class SetExpression extends VisitableItem {
+    constructor(public values: Expression[]) {
+        super();
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        return visitor.visitSetExpression ? visitor.visitSetExpression(this) : visitor.defaultValue();
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import {
+    Visitor,
+    Expression,
+    NumberLiteral,
+    Identifier,
+    UnaryExpression,
+    BinaryExpression,
+    CallExpression
+} from '../ast/types';
+import { ClassicalSymbol } from './symbols';
+
+const FUNCTIONS: { [name: string]: (value: number) => number } = {
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    arcsin: Math.asin,
+    arccos: Math.acos,
+    arctan: Math.atan,
+    exp: Math.exp,
+    log: Math.log,
+    sqrt: Math.sqrt,
+    ceiling: Math.ceil,
+    floor: Math.floor
+};
+
+export namespace ConstantEvaluator {
+    /**
+     * Calculates the value of the expressions made of numbers and constants, which is undefined for the
+     * rest of expressions. The identifiers must be already resolved by the symbol table generator.
+     */
+    export function evaluate(expression: Expression): number {
+        let value = expression.accept(new ExpressionCalculator());
+
+        return value === undefined || isNaN(value) || !isFinite(value) ? undefined : value;
+    }
+}
+
+class ExpressionCalculator implements Visitor<number> {
+    defaultValue(): number {
+        return undefined;
+    }
+
+    visitNumberLiteral(item: NumberLiteral): number {
+        return item.value;
+    }
+
+    visitIdentifier(item: Identifier): number {
+        let symbol = item.symbol;
+
+        return symbol instanceof ClassicalSymbol && symbol.constant ? symbol.value : undefined;
+    }
+
+    visitUnaryExpression(item: UnaryExpression): number {
+        let operand = item.operand.accept(this);
+
+        return item.operator === '-' && operand !== undefined ? -operand : undefined;
+    }
+
+    visitBinaryExpression(item: BinaryExpression): number {
+        let left = item.left.accept(this);
+        let right = item.right.accept(this);
+        if (left === undefined || right === undefined) {
+            return undefined;
+        }
+
+        switch (item.operator) {
+            case '+':
+                return left + right;
+            case '-':
+                return left - right;
+            case '*':
+                return left * right;
+            case '/':
+                return left / right;
+            case '%':
+                return left % right;
+            case '**':
+                return Math.pow(left, right);
+            default:
+                return undefined;
+        }
+    }
+
+    visitCallExpression(item: CallExpression): number {
+        let calculate = FUNCTIONS[item.callee.name];
+        if (calculate === undefined || item.callee.symbol === undefined || item.parameters.length !== 1) {
+            return undefined;
+        }
+
+        let value = item.parameters[0].accept(this);
+
+        return value !== undefined ? calculate(value) : undefined;
+    }
+}
@@ -0,0 +1,419 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import {
+    Visitor,
+    VisitableItem,
+    Program,
+    QubitDeclaration,
+    ClassicalDeclaration,
+    GateDefinition,
+    SubroutineDefinition,
+    ForLoop,
+    WhileLoop,
+    IfStatement,
+    LoopControl,
+    ReturnStatement,
+    GateCall,
+    Measurement,
+    Reset,
+    Barrier,
+    Assignment,
+    ExpressionStatement,
+    Identifier,
+    IndexedIdentifier,
+    UnaryExpression,
+    BinaryExpression,
+    CallExpression,
+    RangeExpression,
+    SetExpression,
+    Statement,
+    Expression,
+    GateModifier
+} from '../ast/types';
+import { QubitSymbol, ClassicalSymbol, SubroutineSymbol, FunctionSymbol } from './symbols';
+import { CLASSICAL_TYPES } from './syntacticParser';
+import { ConstantEvaluator } from './constantEvaluator';
+import { GateSymbol } from '../../qasm/compiler/symbolTable';
+import { ErrorMessages } from '../../qasm/compiler/tools/errorMessages';
+import { Symbol } from '../../compiler/symbols';
+import { SymbolTable } from '../../compiler/types';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { PositionAdapter } from '../../tools/positionAdapter';
+
+const BIT_TYPE = 'bit';
+const CONTROL_MODIFIERS = ['ctrl', 'negctrl'];
+
+export namespace SemanticAnalyzer {
+    /** The identifiers of the program must be already resolved by the symbol table generator. */
+    export function analyze(program: Program, _symbolTable: SymbolTable, errorListener: ErrorListener) {
+        program.accept(new SemanticRules(errorListener));
+    }
+}
+
+class SemanticRules implements Visitor<void> {
+    private nestedLoops = 0;
+    private insideSubroutine = false;
+    private nestedBlocks = 0;
+    private currentGate: GateDefinition = null;
+
+    constructor(private errorListener: ErrorListener) {}
+
+    defaultValue() {}
+
+    visitProgram(item: Program) {
+        this.visitAll(item.statements);
+    }
+
+    visitQubitDeclaration(item: QubitDeclaration) {
+        this.checkGlobalScope(item);
+    }
+
+    visitClassicalDeclaration(item: ClassicalDeclaration) {
+        this.checkExpression(item.type.size);
+
+        if (item.initializer instanceof Measurement && !this.isBit(item.name.symbol)) {
+            this.error(ErrorMessages.expectingBit(item.name.name), item.name);
+        }
+        this.checkValue(item.initializer);
+    }
+
+    visitGateDefinition(item: GateDefinition) {
+        this.checkGlobalScope(item);
+
+        this.currentGate = item;
+        item.body.forEach(statement => {
+            if (!(statement instanceof GateCall) && !(statement instanceof Barrier)) {
+                this.error(ErrorMessages.onlyGateCallsInGate(item.name.name), statement);
+            }
+            statement.accept(this);
+        });
+        this.currentGate = null;
+    }
+
+    visitSubroutineDefinition(item: SubroutineDefinition) {
+        this.checkGlobalScope(item);
+        item.parameters.forEach(parameter => {
+            this.checkExpression(parameter.qubits);
+            this.checkExpression(parameter.type !== null ? parameter.type.size : null);
+        });
+
+        let nestedLoops = this.nestedLoops;
+        this.nestedLoops = 0;
+        this.insideSubroutine = true;
+        this.visitBlock(item.body);
+        this.insideSubroutine = false;
+        this.nestedLoops = nestedLoops;
+    }
+
+    visitForLoop(item: ForLoop) {
+        this.checkExpression(item.iterable);
+        this.visitLoop(item.body);
+    }
+
+    visitWhileLoop(item: WhileLoop) {
+        this.checkExpression(item.condition);
+        this.visitLoop(item.body);
+    }
+
+    visitIfStatement(item: IfStatement) {
+        this.checkExpression(item.condition);
+        this.visitBlock(item.body);
+        if (item.elseBody !== null) {
+            this.visitBlock(item.elseBody);
+        }
+    }
+
+    visitLoopControl(item: LoopControl) {
+        if (this.nestedLoops === 0) {
+            this.error(ErrorMessages.outsideLoop(item.keyword), item);
+        }
+    }
+
+    visitReturnStatement(item: ReturnStatement) {
+        if (!this.insideSubroutine) {
+            this.error(ErrorMessages.returnOutsideSubroutine(), item);
+        }
+        this.checkValue(item.value);
+    }
+
+    visitGateCall(item: GateCall) {
+        item.modifiers.forEach(modifier => this.checkExpression(modifier.argument));
+        item.parameters.forEach(parameter => this.checkExpression(parameter));
+        item.qubits.forEach(qubit => this.checkQubit(qubit.identifier, qubit.index));
+
+        let symbol = item.name.symbol;
+        if (symbol === undefined) {
+            this.error(ErrorMessages.notPreviouslyDefined(item.name.name), item.name);
+            return;
+        }
+        if (!(symbol instanceof GateSymbol)) {
+            this.error(ErrorMessages.expectingGate(item.name.name), item.name);
+            return;
+        }
+
+        if (item.parameters.length !== symbol.parameters.length) {
+            let message = ErrorMessages.wrongNumberOfParameters(
+                item.name.name,
+                symbol.parameters.length,
+                item.parameters.length
+            );
+            this.error(message, item.name);
+        }
+
+        let controls = this.controlQubits(item.modifiers);
+        if (controls !== undefined && item.qubits.length !== symbol.qubits.length + controls) {
+            let expected = symbol.qubits.length + controls;
+            this.error(ErrorMessages.wrongNumberOfQubits(item.name.name, expected, item.qubits.length), item.name);
+        }
+
+        this.checkRepeatedQubits(item);
+    }
+
+    visitMeasurement(item: Measurement) {
+        this.checkQubit(item.qubit.identifier, item.qubit.index);
+
+        if (item.target !== null) {
+            this.checkBit(item.target);
+        }
+    }
+
+    visitReset(item: Reset) {
+        this.checkQubit(item.qubit.identifier, item.qubit.index);
+    }
+
+    visitBarrier(item: Barrier) {
+        item.qubits.forEach(qubit => this.checkQubit(qubit.identifier, qubit.index));
+    }
+
+    visitAssignment(item: Assignment) {
+        let target = item.target.identifier;
+        let symbol = target.symbol;
+
+        if (symbol === undefined) {
+            this.error(ErrorMessages.notPreviouslyDefined(target.name), target);
+        } else if (!(symbol instanceof ClassicalSymbol)) {
+            this.error(ErrorMessages.cannotBeAssigned(target.name), target);
+        } else if (symbol.constant) {
+            this.error(ErrorMessages.constantCannotBeAssigned(target.name), target);
+        } else if (item.value instanceof Measurement && !this.isBit(symbol)) {
+            this.error(ErrorMessages.expectingBit(target.name), target);
+        } else {
+            this.checkIndex(target, item.target.index);
+        }
+
+        this.checkExpression(item.target.index);
+        this.checkValue(item.value);
+    }
+
+    visitExpressionStatement(item: ExpressionStatement) {
+        this.checkExpression(item.expression);
+    }
+
+    visitIdentifier(item: Identifier) {
+        if (item.symbol === undefined) {
+            this.error(ErrorMessages.notPreviouslyDefined(item.name), item);
+        } else if (!(item.symbol instanceof ClassicalSymbol)) {
+            this.error(ErrorMessages.expectingClassicalValue(item.name), item);
+        }
+    }
+
+    visitIndexedIdentifier(item: IndexedIdentifier) {
+        item.identifier.accept(this);
+        if (item.identifier.symbol instanceof ClassicalSymbol) {
+            this.checkIndex(item.identifier, item.index);
+        }
+        this.checkExpression(item.index);
+    }
+
+    visitUnaryExpression(item: UnaryExpression) {
+        item.operand.accept(this);
+    }
+
+    visitBinaryExpression(item: BinaryExpression) {
+        item.left.accept(this);
+        item.right.accept(this);
+    }
+
+    visitCallExpression(item: CallExpression) {
+        let callee = item.callee;
+        if (CLASSICAL_TYPES.indexOf(callee.name) > -1) {
+            item.parameters.forEach(parameter => parameter.accept(this));
+            return;
+        }
+
+        let symbol = callee.symbol;
+        if (symbol === undefined) {
+            this.error(ErrorMessages.notPreviouslyDefined(callee.name), callee);
+        } else if (symbol instanceof SubroutineSymbol) {
+            let subroutineParameters = symbol.parameters;
+            this.checkArgumentsCount(callee, subroutineParameters.length, item.parameters.length);
+            item.parameters.forEach((parameter, i) => {
+                let quantum = i < subroutineParameters.length && subroutineParameters[i].quantum;
+                this.checkArgument(parameter, quantum);
+            });
+            return;
+        } else if (symbol instanceof FunctionSymbol) {
+            this.checkArgumentsCount(callee, symbol.argumentsCount, item.parameters.length);
+        } else {
+            this.error(ErrorMessages.notCallable(callee.name), callee);
+        }
+
+        item.parameters.forEach(parameter => parameter.accept(this));
+    }
+
+    visitRangeExpression(item: RangeExpression) {
+        item.first.accept(this);
+        this.checkExpression(item.step);
+        item.last.accept(this);
+    }
+
+    visitSetExpression(item: SetExpression) {
+        item.values.forEach(value => value.accept(this));
+    }
+
+    private visitLoop(body: Statement[]) {
+        this.nestedLoops++;
+        this.visitBlock(body);
+        this.nestedLoops--;
+    }
+
+    private visitBlock(body: Statement[]) {
+        this.nestedBlocks++;
+        this.visitAll(body);
+        this.nestedBlocks--;
+    }
+
+    private visitAll(statements: Statement[]) {
+        statements.forEach(statement => statement.accept(this));
+    }
+
+    private checkGlobalScope(item: VisitableItem) {
+        if (this.nestedBlocks > 0) {
+            this.error(ErrorMessages.onlyInGlobalScope(), item);
+        }
+    }
+
+    /** The values assigned to the variables can be classical expressions or measurements. */
+    private checkValue(value: Expression) {
+        if (value instanceof Measurement) {
+            value.accept(this);
+        } else {
+            this.checkExpression(value);
+        }
+    }
+
+    private checkExpression(expression: Expression) {
+        if (expression !== null) {
+            expression.accept(this);
+        }
+    }
+
+    private checkArgument(argument: Expression, quantum: boolean) {
+        if (!quantum) {
+            argument.accept(this);
+        } else if (argument instanceof Identifier) {
+            this.checkQubit(argument, null);
+        } else if (argument instanceof IndexedIdentifier) {
+            this.checkQubit(argument.identifier, argument.index);
+        } else {
+            this.error(ErrorMessages.expectingQubit('this argument'), argument);
+        }
+    }
+
+    private checkArgumentsCount(callee: Identifier, expected: number, found: number) {
+        if (expected !== found) {
+            this.error(ErrorMessages.wrongNumberOfArguments(callee.name, expected, found), callee);
+        }
+    }
+
+    private checkQubit(identifier: Identifier, index: Expression) {
+        let symbol = identifier.symbol;
+        this.checkExpression(index);
+
+        if (symbol === undefined) {
+            this.error(ErrorMessages.notPreviouslyDefined(identifier.name), identifier);
+        } else if (!(symbol instanceof QubitSymbol)) {
+            this.error(ErrorMessages.expectingQubit(identifier.name), identifier);
+        } else if (this.currentGate !== null && this.currentGate.qubits.every(qubit => qubit.name !== symbol.name)) {
+            this.error(ErrorMessages.qubitOutsideGate(identifier.name, this.currentGate.name.name), identifier);
+        } else {
+            this.checkIndex(identifier, index);
+        }
+    }
+
+    private checkBit(target: IndexedIdentifier) {
+        let symbol = target.identifier.symbol;
+        this.checkExpression(target.index);
+
+        if (symbol === undefined) {
+            this.error(ErrorMessages.notPreviouslyDefined(target.identifier.name), target.identifier);
+        } else if (!this.isBit(symbol)) {
+            this.error(ErrorMessages.expectingBit(target.identifier.name), target.identifier);
+        } else {
+            this.checkIndex(target.identifier, target.index);
+        }
+    }
+
+    /** Only the arrays of qubits and bits can be indexed, with constants lower than their size. */
+    private checkIndex(identifier: Identifier, index: Expression) {
+        let symbol = identifier.symbol as QubitSymbol | ClassicalSymbol;
+        if (index === null) {
+            return;
+        }
+        if (symbol.size === null && (symbol instanceof QubitSymbol || this.isBit(symbol))) {
+            this.error(ErrorMessages.cannotBeIndexed(identifier.name), index);
+            return;
+        }
+
+        let position = ConstantEvaluator.evaluate(index);
+        if (typeof symbol.size === 'number' && position !== undefined && (position < 0 || position >= symbol.size)) {
+            this.error(ErrorMessages.indexOutOfBound(identifier.name, symbol.size), index);
+        }
+    }
+
+    /** Each control modifier adds one control qubit unless another number is given, which is undefined if unknown. */
+    private controlQubits(modifiers: GateModifier[]): number {
+        return modifiers
+            .filter(modifier => CONTROL_MODIFIERS.indexOf(modifier.name) > -1)
+            .map(modifier => (modifier.argument === null ? 1 : ConstantEvaluator.evaluate(modifier.argument)))
+            .reduce(
+                (total, controls) => (total === undefined || controls === undefined ? undefined : total + controls),
+                0
+            );
+    }
+
+    private checkRepeatedQubits(item: GateCall) {
+        let qubits: string[] = [];
+
+        item.qubits.forEach(qubit => {
+            let index = qubit.index !== null ? ConstantEvaluator.evaluate(qubit.index) : null;
+            if (index === undefined) {
+                return;
+            }
+
+            let name = index === null ? qubit.identifier.name : `${qubit.identifier.name}[${index}]`;
+            if (qubits.indexOf(name) > -1) {
+                this.error(ErrorMessages.repeatedQubit(item.name.name, name), qubit);
+            }
+            qubits.push(name);
+        });
+    }
+
+    private isBit(symbol: Symbol): boolean {
+        return symbol instanceof ClassicalSymbol && symbol.isType(BIT_TYPE);
+    }
+
+    private error(message: string, item: VisitableItem) {
+        this.errorListener.addError(ErrorBuilder.error(message, PositionAdapter.fromItem(item)));
+    }
+}
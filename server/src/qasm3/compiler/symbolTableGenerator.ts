@@ -0,0 +1,444 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import {
+    Visitor,
+    VisitableItem,
+    Program,
+    Include,
+    QubitDeclaration,
+    ClassicalDeclaration,
+    GateDefinition,
+    SubroutineDefinition,
+    ForLoop,
+    WhileLoop,
+    IfStatement,
+    ReturnStatement,
+    GateCall,
+    Measurement,
+    Reset,
+    Barrier,
+    Assignment,
+    ExpressionStatement,
+    Identifier,
+    IndexedIdentifier,
+    UnaryExpression,
+    BinaryExpression,
+    CallExpression,
+    RangeExpression,
+    SetExpression,
+    Expression,
+    ClassicalType
+} from '../ast/types';
+import {
+    QASM3SymbolTableBuilder,
+    QASM3Symbols,
+    QubitSymbol,
+    ClassicalSymbol,
+    SubroutineSymbol,
+    FunctionSymbol
+} from './symbols';
+import { QASM3SyntacticParser, CLASSICAL_TYPES } from './syntacticParser';
+import { ConstantEvaluator } from './constantEvaluator';
+import { GateSymbol, DeclaredSymbol, SymbolLocation } from '../../qasm/compiler/symbolTable';
+import { ErrorMessages } from '../../qasm/compiler/tools/errorMessages';
+import { IncludeTracker } from '../../qasm/libs/includeResolver';
+import { SymbolTable } from '../../compiler/types';
+import { Symbol, Type } from '../../compiler/symbols';
+import { Scope } from '../../compiler/scope';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { PositionAdapter } from '../../tools/positionAdapter';
+import { ParseErrorLevel } from '../../types';
+
+const TAU = Math.PI + Math.PI;
+const CONSTANTS: { [name: string]: number } = {
+    pi: Math.PI,
+    π: Math.PI,
+    tau: TAU,
+    τ: TAU,
+    euler: Math.E,
+    ℇ: Math.E
+};
+const FUNCTIONS: { [name: string]: number } = {
+    sin: 1,
+    cos: 1,
+    tan: 1,
+    arcsin: 1,
+    arccos: 1,
+    arctan: 1,
+    exp: 1,
+    log: 1,
+    sqrt: 1,
+    ceiling: 1,
+    floor: 1,
+    popcount: 1,
+    mod: 2,
+    rotl: 2,
+    rotr: 2
+};
+const LOOP_VARIABLE_TYPE = 'int';
+const GATE_PARAMETER_TYPE = 'angle';
+
+export namespace SymbolTableGenerator {
+    /**
+     * Defines the symbols of the program and resolves every identifier to the symbol it refers to, which
+     * is kept at the identifier for the semantic analysis. The source file and the include tracker work
+     * like in the OpenQASM 2.0 symbol table generator.
+     */
+    export function symbolTableFor(
+        program: Program,
+        _errorListener?: ErrorListener,
+        sourceFile?: string,
+        includeTracker?: IncludeTracker
+    ): SymbolTable {
+        let symbolTable = QASM3SymbolTableBuilder.build();
+
+        let errorListener = _errorListener || new ErrorListener();
+        let includes = includeTracker || new IncludeTracker();
+        program.accept(new DefinitionMatcher(symbolTable, errorListener, includes, sourceFile));
+
+        return symbolTable;
+    }
+}
+
+/** Symbols visible from every block being analyzed, where the last scope is the innermost one. */
+class LexicalScopes {
+    private scopes: Array<Map<string, Symbol>> = [new Map()];
+
+    push() {
+        this.scopes.push(new Map());
+    }
+
+    pop() {
+        this.scopes.pop();
+    }
+
+    isDefinedInCurrentScope(name: string): boolean {
+        return this.scopes[this.scopes.length - 1].has(name);
+    }
+
+    define(symbol: Symbol) {
+        this.scopes[this.scopes.length - 1].set(symbol.name, symbol);
+    }
+
+    resolve(name: string): Symbol {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            if (this.scopes[i].has(name)) {
+                return this.scopes[i].get(name);
+            }
+        }
+
+        return undefined;
+    }
+}
+
+class DefinitionMatcher implements Visitor<void> {
+    private scopes = new LexicalScopes();
+    private globalScope: Scope;
+
+    constructor(
+        private symbolTable: SymbolTable,
+        private errorListener: ErrorListener,
+        private includes: IncludeTracker,
+        private sourceFile?: string
+    ) {
+        this.globalScope = symbolTable.currentScope;
+        this.defineBuiltIns();
+    }
+
+    defaultValue() {}
+
+    visitProgram(item: Program) {
+        this.visitAll(item.statements);
+    }
+
+    visitInclude(item: Include) {
+        let library = item.file;
+        let position = PositionAdapter.fromItem(item);
+
+        let libraryFile = this.includes.resolve(library);
+        if (libraryFile === null) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.libraryNotFound(library), position));
+            return;
+        }
+        if (this.includes.isBeingIncluded(libraryFile)) {
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.includeCycle(library), position));
+            return;
+        }
+
+        // errors inside the library cannot be placed in this document, so they are summarized at the include
+        let libraryErrors = new ErrorListener();
+        let symbolTable = this.includes.include(libraryFile, () => {
+            let program = QASM3SyntacticParser.parseWithErrorListener(
+                this.includes.contentOf(libraryFile),
+                libraryErrors
+            );
+            return SymbolTableGenerator.symbolTableFor(program, libraryErrors, libraryFile, this.includes);
+        });
+        this.symbolTable.mergeWith(symbolTable.currentScope);
+        symbolTable.currentSymbols().forEach(symbol => this.scopes.define(symbol));
+
+        let firstError = libraryErrors.errors.find(error => error.level === ParseErrorLevel.ERROR);
+        if (firstError !== undefined) {
+            let message = ErrorMessages.errorsInLibrary(library, firstError.message);
+            this.errorListener.addError(ErrorBuilder.error(message, position));
+        }
+    }
+
+    visitQubitDeclaration(item: QubitDeclaration) {
+        let size = this.sizeOf(item.size);
+        let qubitType = this.typeOf(QASM3Symbols.Qubit);
+
+        this.define(new QubitSymbol(item.name.name, qubitType, size, this.locationOf(item.name)), item);
+    }
+
+    visitClassicalDeclaration(item: ClassicalDeclaration) {
+        this.visit(item.initializer);
+
+        let value =
+            item.constant && item.initializer !== null ? ConstantEvaluator.evaluate(item.initializer) : undefined;
+        let symbol = this.classicalSymbol(item.name, item.type, item.constant, value);
+
+        this.define(symbol, item);
+    }
+
+    visitGateDefinition(item: GateDefinition) {
+        let gateType = this.typeOf(QASM3Symbols.Gate);
+        let parameters = item.parameters.map(parameter => parameter.name);
+        let qubits = item.qubits.map(qubit => qubit.name);
+        let gate = new GateSymbol(item.name.name, gateType, parameters, qubits, '', this.locationOf(item.name));
+
+        this.define(gate, item);
+        this.inScope(item, item.name.name, () => {
+            let parameterType = { name: GATE_PARAMETER_TYPE, size: null as Expression };
+            item.parameters.forEach(parameter =>
+                this.defineArgument(this.classicalSymbol(parameter, parameterType, false), item)
+            );
+            item.qubits.forEach(qubit => {
+                let qubitType = this.typeOf(QASM3Symbols.Qubit);
+                this.defineArgument(new QubitSymbol(qubit.name, qubitType, null, this.locationOf(qubit)), item);
+            });
+            this.visitAll(item.body);
+        });
+    }
+
+    visitSubroutineDefinition(item: SubroutineDefinition) {
+        let subroutineType = this.typeOf(QASM3Symbols.Subroutine);
+        let parameters = item.parameters.map(parameter => ({
+            name: parameter.name.name,
+            quantum: parameter.type === null
+        }));
+        let returnType = item.returnType !== null ? item.returnType.name : null;
+        let location = this.locationOf(item.name);
+
+        this.define(new SubroutineSymbol(item.name.name, subroutineType, parameters, returnType, location), item);
+        this.inScope(item, item.name.name, () => {
+            item.parameters.forEach(parameter => {
+                if (parameter.type !== null) {
+                    this.defineArgument(this.classicalSymbol(parameter.name, parameter.type, false), item);
+                    return;
+                }
+
+                let size = this.sizeOf(parameter.qubits);
+                let qubitType = this.typeOf(QASM3Symbols.Qubit);
+                let qubit = new QubitSymbol(parameter.name.name, qubitType, size, this.locationOf(parameter.name));
+                this.defineArgument(qubit, item);
+            });
+            this.visitAll(item.body);
+        });
+    }
+
+    visitForLoop(item: ForLoop) {
+        this.visit(item.iterable);
+
+        let variableType = item.variableType || { name: LOOP_VARIABLE_TYPE, size: null };
+        this.inScope(item, 'for', () => {
+            this.defineArgument(this.classicalSymbol(item.variable, variableType, false), item);
+            this.visitAll(item.body);
+        });
+    }
+
+    visitWhileLoop(item: WhileLoop) {
+        this.visit(item.condition);
+        this.inScope(item, 'while', () => this.visitAll(item.body));
+    }
+
+    visitIfStatement(item: IfStatement) {
+        this.visit(item.condition);
+        this.inScope(item, 'if', () => this.visitAll(item.body));
+        if (item.elseBody !== null) {
+            this.inScope(item, 'else', () => this.visitAll(item.elseBody));
+        }
+    }
+
+    visitReturnStatement(item: ReturnStatement) {
+        this.visit(item.value);
+    }
+
+    visitGateCall(item: GateCall) {
+        item.modifiers.forEach(modifier => this.visit(modifier.argument));
+        item.name.accept(this);
+        this.visitAll(item.parameters);
+        this.visitAll(item.qubits);
+    }
+
+    visitMeasurement(item: Measurement) {
+        item.qubit.accept(this);
+        this.visit(item.target);
+    }
+
+    visitReset(item: Reset) {
+        item.qubit.accept(this);
+    }
+
+    visitBarrier(item: Barrier) {
+        this.visitAll(item.qubits);
+    }
+
+    visitAssignment(item: Assignment) {
+        item.target.accept(this);
+        item.value.accept(this);
+    }
+
+    visitExpressionStatement(item: ExpressionStatement) {
+        item.expression.accept(this);
+    }
+
+    visitIdentifier(item: Identifier) {
+        item.symbol = this.scopes.resolve(item.name);
+
+        if (item.symbol instanceof DeclaredSymbol && this.sourceFile === undefined) {
+            item.symbol.references.push(PositionAdapter.fromItem(item));
+        }
+    }
+
+    visitIndexedIdentifier(item: IndexedIdentifier) {
+        item.identifier.accept(this);
+        this.visit(item.index);
+    }
+
+    visitUnaryExpression(item: UnaryExpression) {
+        item.operand.accept(this);
+    }
+
+    visitBinaryExpression(item: BinaryExpression) {
+        item.left.accept(this);
+        item.right.accept(this);
+    }
+
+    visitCallExpression(item: CallExpression) {
+        // the casts to classical types, like int(x), are not calls to symbols
+        if (CLASSICAL_TYPES.indexOf(item.callee.name) === -1) {
+            item.callee.accept(this);
+        }
+        this.visitAll(item.parameters);
+    }
+
+    visitRangeExpression(item: RangeExpression) {
+        item.first.accept(this);
+        this.visit(item.step);
+        item.last.accept(this);
+    }
+
+    visitSetExpression(item: SetExpression) {
+        this.visitAll(item.values);
+    }
+
+    private defineBuiltIns() {
+        Object.keys(CONSTANTS).forEach(name => {
+            let floatType = this.typeOf('float');
+            this.scopes.define(new ClassicalSymbol(name, floatType, null, true, CONSTANTS[name]));
+        });
+        Object.keys(FUNCTIONS).forEach(name => {
+            let functionType = this.typeOf(QASM3Symbols.Function);
+            this.scopes.define(new FunctionSymbol(name, functionType, FUNCTIONS[name]));
+        });
+
+        let gateType = this.typeOf(QASM3Symbols.Gate);
+        this.scopes.define(new GateSymbol('U', gateType, ['θ', 'φ', 'λ'], ['q'], 'Built-in single qubit gate.'));
+        this.scopes.define(new GateSymbol('gphase', gateType, ['γ'], [], 'Built-in global phase.'));
+    }
+
+    /** The types are searched in the global scope, where they are defined, regardless of the current scope. */
+    private typeOf(name: string): Type {
+        return this.globalScope.lookup(name);
+    }
+
+    private classicalSymbol(name: Identifier, type: ClassicalType, constant: boolean, value?: number) {
+        let size = this.sizeOf(type.size);
+        let classicalType = this.typeOf(type.name);
+
+        return new ClassicalSymbol(name.name, classicalType, size, constant, value, this.locationOf(name));
+    }
+
+    /** The sizes must be positive integer constants, otherwise they are reported and considered unknown. */
+    private sizeOf(size: Expression): number {
+        if (size === null) {
+            return null;
+        }
+
+        size.accept(this);
+        let value = ConstantEvaluator.evaluate(size);
+        if (value === undefined || value <= 0 || !Number.isInteger(value)) {
+            let position = PositionAdapter.fromItem(size);
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.expectingPositiveInteger(), position));
+            return undefined;
+        }
+
+        return value;
+    }
+
+    private define(symbol: DeclaredSymbol, item: VisitableItem) {
+        this.defineAt(symbol, item.start.line + 1);
+    }
+
+    /** The arguments of the gates, the subroutines and the loops are visible from the first line of the block. */
+    private defineArgument(symbol: DeclaredSymbol, item: VisitableItem) {
+        this.defineAt(symbol, item.start.line);
+    }
+
+    private defineAt(symbol: DeclaredSymbol, line: number) {
+        if (this.scopes.isDefinedInCurrentScope(symbol.name)) {
+            let message = ErrorMessages.previousDefinitionOf(symbol.name);
+            this.errorListener.addError(ErrorBuilder.error(message, symbol.declaration.position));
+            return;
+        }
+
+        this.scopes.define(symbol);
+        this.symbolTable.define(symbol, line);
+    }
+
+    private inScope(item: VisitableItem, name: string, analyze: () => void) {
+        this.scopes.push();
+        this.symbolTable.push(name, item.start.line + 1);
+        analyze();
+        this.symbolTable.pop(item.end.line + 1);
+        this.scopes.pop();
+    }
+
+    private visit(item: VisitableItem) {
+        if (item !== null) {
+            item.accept(this);
+        }
+    }
+
+    private visitAll(items: VisitableItem[]) {
+        items.forEach(item => item.accept(this));
+    }
+
+    private locationOf(identifier: Identifier): SymbolLocation {
+        return {
+            file: this.sourceFile,
+            position: PositionAdapter.fromItem(identifier)
+        };
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { SymbolTable } from '../../compiler/types';
+import { Scope } from '../../compiler/scope';
+import { BuiltInTypeSymbol, Symbol, Type } from '../../compiler/symbols';
+import { MultiScopeSymbolTable } from '../../compiler/multiScopeSymbolTable';
+import { DeclaredSymbol, SymbolLocation } from '../../qasm/compiler/symbolTable';
+import { CLASSICAL_TYPES } from './syntacticParser';
+
+export enum QASM3Symbols {
+    Qubit = 'Qubit',
+    Gate = 'Gate',
+    Subroutine = 'Subroutine',
+    Function = 'Function'
+}
+
+export namespace QASM3SymbolTableBuilder {
+    export function build(): SymbolTable {
+        let rootScope = new Scope(null, 'global');
+        Object.keys(QASM3Symbols).forEach(name => rootScope.define(new BuiltInTypeSymbol(name), 0));
+        CLASSICAL_TYPES.forEach(name => rootScope.define(new BuiltInTypeSymbol(name), 0));
+
+        return new MultiScopeSymbolTable(rootScope);
+    }
+}
+
+/** A qubit or an array of qubits, the size is null for a single qubit and undefined when it is not a constant. */
+export class QubitSymbol extends DeclaredSymbol {
+    constructor(name: string, type: Type, public size: number, declaration?: SymbolLocation) {
+        super(name, type, declaration);
+    }
+
+    toString(): string {
+        return `{ name: ${this.name}, type: ${this.type}, size: ${this.size} }`;
+    }
+}
+
+/**
+ * Variable of a classical type, like bit[n] or float[64]. The size follows the same rules than the qubits
+ * and the value is only known for the constants.
+ */
+export class ClassicalSymbol extends DeclaredSymbol {
+    constructor(
+        name: string,
+        type: Type,
+        public size: number,
+        public constant: boolean,
+        public value?: number,
+        declaration?: SymbolLocation
+    ) {
+        super(name, type, declaration);
+    }
+
+    toString(): string {
+        return `{ name: ${this.name}, type: ${this.type}, size: ${this.size}, constant: ${this.constant} }`;
+    }
+}
+
+/** Argument of a subroutine, where the quantum ones receive qubits instead of classical values. */
+export interface ArgumentDescription {
+    name: string;
+    quantum: boolean;
+}
+
+export class SubroutineSymbol extends DeclaredSymbol {
+    constructor(
+        name: string,
+        type: Type,
+        public parameters: ArgumentDescription[],
+        public returnType: string,
+        declaration?: SymbolLocation
+    ) {
+        super(name, type, declaration);
+    }
+
+    toString(): string {
+        return `{ name: ${this.name}, type: ${this.type}, parameters: ${this.parameters.map(p => p.name)} }`;
+    }
+}
+
+/** Built-in function of the classical expressions, like sin or popcount. */
+export class FunctionSymbol extends Symbol {
+    constructor(name: string, type: Type, public argumentsCount: number) {
+        super(name, type);
+    }
+
+    toString(): string {
+        return `{ name: ${this.name}, type: ${this.type}, arguments: ${this.argumentsCount} }`;
+    }
+}
@@ -0,0 +1,528 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import {
+    ANTLRErrorListener,
+    ANTLRInputStream,
+    CommonTokenStream,
+    Parser,
+    ParserRuleContext,
+    RecognitionException,
+    Recognizer,
+    Token
+} from 'antlr4ts';
+import { AbstractParseTreeVisitor, ErrorNode } from 'antlr4ts/tree';
+import { QasmLexer3 } from '../antlr/QasmLexer3';
+import {
+    QasmParser3,
+    ProgramContext,
+    HeaderContext,
+    StatementContext,
+    IncludeContext,
+    QubitDeclarationContext,
+    RegisterDeclarationContext,
+    ClassicalDeclarationContext,
+    GateDefinitionContext,
+    SubroutineDefinitionContext,
+    SubroutineArgumentContext,
+    ForLoopContext,
+    RangeIterableContext,
+    SetIterableContext,
+    WhileLoopContext,
+    IfStatementContext,
+    LoopControlContext,
+    ReturnStatementContext,
+    MeasureStatementContext,
+    ResetStatementContext,
+    BarrierStatementContext,
+    AssignmentContext,
+    ExpressionStatementContext,
+    GateCallContext,
+    GateModifierContext,
+    BodyContext,
+    BlockContext,
+    ClassicalTypeContext,
+    DesignatorContext,
+    MeasurementContext,
+    NumberLiteralContext,
+    BooleanLiteralContext,
+    ParenthesisExpressionContext,
+    IdentifierExpressionContext,
+    UnaryExpressionContext,
+    BinaryExpressionContext,
+    CallContext,
+    ExpressionListContext,
+    OperandContext,
+    OperandListContext,
+    IdentifierListContext
+} from '../antlr/QasmParser3';
+import { QasmParser3Visitor } from '../antlr/QasmParser3Visitor';
+import {
+    Program,
+    Statement,
+    Expression,
+    ClassicalType,
+    Include,
+    QubitDeclaration,
+    ClassicalDeclaration,
+    GateDefinition,
+    SubroutineDefinition,
+    SubroutineArgument,
+    ForLoop,
+    WhileLoop,
+    IfStatement,
+    LoopControl,
+    ReturnStatement,
+    GateModifier,
+    GateCall,
+    Measurement,
+    Reset,
+    Barrier,
+    Assignment,
+    ExpressionStatement,
+    Identifier,
+    IndexedIdentifier,
+    NumberLiteral,
+    BooleanLiteral,
+    UnaryExpression,
+    BinaryExpression,
+    CallExpression,
+    RangeExpression,
+    SetExpression,
+    VisitableItem,
+    Position
+} from '../ast/types';
+import { ErrorListener } from '../../tools/errorListener';
+import { ErrorBuilder } from '../../tools/errorBuilder';
+import { ErrorMessages } from '../../qasm/compiler/tools/errorMessages';
+
+export const CLASSICAL_TYPES = ['bit', 'int', 'uint', 'float', 'angle', 'bool'];
+export const GATE_MODIFIERS = ['ctrl', 'negctrl', 'inv', 'pow'];
+
+const RANGE_LIMITS_AND_STEP = 3;
+const SUPPORTED_VERSION = '3';
+/** Built-in gate without qubits, so its applications look like calls to subroutines. */
+const GLOBAL_PHASE = 'gphase';
+
+/** Tokens expected by the grammar which are not written literally. */
+const TOKEN_DESCRIPTIONS: { [type: number]: string } = {
+    [QasmParser3.Identifier]: 'a name',
+    [QasmParser3.Number]: 'a number',
+    [QasmParser3.StringLiteral]: 'a file name between quotes',
+    [QasmParser3.EOF]: 'end of file'
+};
+
+/** Rules which can start with many different tokens, described by what they expect instead. */
+const RULE_DESCRIPTIONS: { [rule: number]: string } = {
+    [QasmParser3.RULE_program]: 'a statement',
+    [QasmParser3.RULE_statement]: 'a statement',
+    [QasmParser3.RULE_body]: 'a statement',
+    [QasmParser3.RULE_block]: 'a statement',
+    [QasmParser3.RULE_assignment]: 'an assignment',
+    [QasmParser3.RULE_classicalType]: 'a classical type',
+    [QasmParser3.RULE_iterable]: 'a range like [first:last] or [first:step:last]',
+    [QasmParser3.RULE_valueExpression]: 'an expression',
+    [QasmParser3.RULE_expression]: 'an expression'
+};
+
+export namespace QASM3SyntacticParser {
+    export function parse(input: string): Program {
+        return parseWithErrorListener(input, new ErrorListener());
+    }
+
+    /**
+     * Parses the code with the grammar of QasmParser3.g4 and builds the tree of the program. The statements
+     * with syntax errors are reported and left out, so the analysis continues with the next statement.
+     */
+    export function parseWithErrorListener(input: string, errorListener: ErrorListener): Program {
+        let lexer = new QasmLexer3(new ANTLRInputStream(input));
+        lexer.removeErrorListeners();
+
+        let tokenStream = new CommonTokenStream(lexer);
+        tokenStream.fill();
+        tokenStream.getTokens().forEach(token => reportLexicalError(token, errorListener));
+
+        let parser = new QasmParser3(tokenStream);
+        parser.removeErrorListeners();
+        parser.addErrorListener(new SyntaxErrorListener(errorListener));
+
+        return new ProgramBuilder(errorListener).visitProgram(parser.program());
+    }
+}
+
+/** The lexer sends the unclosed strings and the unknown characters apart from the tokens given to the parser. */
+function reportLexicalError(token: Token, errorListener: ErrorListener) {
+    let position = { line: token.line - 1, start: token.charPositionInLine, end: token.charPositionInLine + 1 };
+
+    if (token.type === QasmLexer3.UnterminatedString) {
+        errorListener.addError(ErrorBuilder.error(ErrorMessages.unterminatedString(), position));
+    } else if (token.type === QasmLexer3.UnexpectedCharacter) {
+        errorListener.addError(ErrorBuilder.error(ErrorMessages.unexpectedCharacter(token.text), position));
+    }
+}
+
+/** Reports the syntax errors of the parser describing the token found and what the grammar expects there. */
+class SyntaxErrorListener implements ANTLRErrorListener<Token> {
+    constructor(private errorListener: ErrorListener) {}
+
+    syntaxError<T extends Token>(
+        recognizer: Recognizer<T, any>,
+        offendingSymbol: T | undefined,
+        line: number,
+        charPositionInLine: number,
+        msg: string,
+        _e: RecognitionException | undefined
+    ): void {
+        if (!(recognizer instanceof Parser) || offendingSymbol === undefined) {
+            let unknownPosition = { line: line - 1, start: charPositionInLine, end: charPositionInLine + 1 };
+            this.errorListener.addError(ErrorBuilder.error(msg, unknownPosition));
+
+            return;
+        }
+
+        let found = offendingSymbol.type === Token.EOF ? 'end of file' : `'${offendingSymbol.text}'`;
+        let message = ErrorMessages.unexpectedToken(found, this.expected(recognizer));
+        let position = {
+            line: line - 1,
+            start: charPositionInLine,
+            end: charPositionInLine + (offendingSymbol.text || '').length
+        };
+
+        this.errorListener.addError(ErrorBuilder.error(message, position));
+    }
+
+    private expected(parser: Parser): string {
+        let types = parser.getExpectedTokens().toArray();
+        if (types.length === 1) {
+            return this.describe(parser, types[0]);
+        }
+
+        let rule = RULE_DESCRIPTIONS[parser.context.ruleIndex];
+
+        if (rule !== undefined) {
+            return rule;
+        }
+
+        let descriptions = types.map(type => this.describe(parser, type));
+
+        return `${descriptions.slice(0, -1).join(', ')} or ${descriptions[descriptions.length - 1]}`;
+    }
+
+    private describe(parser: Parser, type: number): string {
+        return TOKEN_DESCRIPTIONS[type] || parser.vocabulary.getLiteralName(type);
+    }
+}
+
+/**
+ * Builds the program from the parse tree. Only the complete statements are built, the ones recovered
+ * after a syntax error are already reported by the parser.
+ */
+class ProgramBuilder extends AbstractParseTreeVisitor<VisitableItem> implements QasmParser3Visitor<VisitableItem> {
+    constructor(private errorListener: ErrorListener) {
+        super();
+    }
+
+    defaultResult(): VisitableItem {
+        return null;
+    }
+
+    visitProgram(ctx: ProgramContext): Program {
+        let header = ctx.header();
+        let version = header !== undefined && isComplete(header) ? this.version(header) : null;
+
+        return located(new Program(version, this.statements(ctx.statement())), ctx.start, ctx.stop);
+    }
+
+    visitInclude(ctx: IncludeContext): Include {
+        let file = ctx._file.text;
+
+        return this.located(new Include(file.substring(1, file.length - 1)), ctx);
+    }
+
+    visitQubitDeclaration(ctx: QubitDeclarationContext): QubitDeclaration {
+        return this.located(
+            new QubitDeclaration(identifierOf(ctx.Identifier().symbol), this.size(ctx.designator())),
+            ctx
+        );
+    }
+
+    /** Declarations with the OpenQASM 2 syntax, qreg q[n] and creg c[n]. */
+    visitRegisterDeclaration(ctx: RegisterDeclarationContext): Statement {
+        let name = identifierOf(ctx.Identifier().symbol);
+        let size = this.size(ctx.designator());
+
+        if (ctx._keyword.type === QasmParser3.Qreg) {
+            return this.located(new QubitDeclaration(name, size), ctx);
+        }
+
+        return this.located(new ClassicalDeclaration({ name: 'bit', size }, name, null, false), ctx);
+    }
+
+    visitClassicalDeclaration(ctx: ClassicalDeclarationContext): ClassicalDeclaration {
+        let type = this.classicalType(ctx.classicalType());
+        let name = identifierOf(ctx.Identifier().symbol);
+        let initializer = ctx.valueExpression() !== undefined ? this.visit(ctx.valueExpression()) : null;
+
+        return this.located(new ClassicalDeclaration(type, name, initializer, ctx.Const() !== undefined), ctx);
+    }
+
+    visitGateDefinition(ctx: GateDefinitionContext): GateDefinition {
+        let name = identifierOf(ctx.Identifier().symbol);
+        let parameters = ctx._parameters !== undefined ? this.identifiers(ctx._parameters) : [];
+        let qubits = this.identifiers(ctx._qubits);
+
+        return this.located(new GateDefinition(name, parameters, qubits, this.block(ctx.block())), ctx);
+    }
+
+    visitSubroutineDefinition(ctx: SubroutineDefinitionContext): SubroutineDefinition {
+        let name = identifierOf(ctx.Identifier().symbol);
+        let parameters = ctx.subroutineArgument().map(argument => this.subroutineArgument(argument));
+        let returnType = ctx.classicalType() !== undefined ? this.classicalType(ctx.classicalType()) : null;
+
+        return this.located(new SubroutineDefinition(name, parameters, returnType, this.block(ctx.block())), ctx);
+    }
+
+    visitForLoop(ctx: ForLoopContext): ForLoop {
+        let variableType = ctx.classicalType() !== undefined ? this.classicalType(ctx.classicalType()) : null;
+        let variable = identifierOf(ctx.Identifier().symbol);
+        let iterable = this.visit(ctx.iterable());
+
+        return this.located(new ForLoop(variableType, variable, iterable, this.body(ctx.body())), ctx);
+    }
+
+    visitRangeIterable(ctx: RangeIterableContext): RangeExpression {
+        let values = ctx.expression().map(expression => this.visit(expression));
+        let step = values.length === RANGE_LIMITS_AND_STEP ? values[1] : null;
+
+        return this.located(new RangeExpression(values[0], step, values[values.length - 1]), ctx);
+    }
+
+    visitSetIterable(ctx: SetIterableContext): SetExpression {
+        return this.located(new SetExpression(this.expressions(ctx.expressionList())), ctx);
+    }
+
+    visitWhileLoop(ctx: WhileLoopContext): WhileLoop {
+        return this.located(new WhileLoop(this.visit(ctx.expression()), this.body(ctx.body())), ctx);
+    }
+
+    visitIfStatement(ctx: IfStatementContext): IfStatement {
+        let condition = this.visit(ctx.expression());
+        let elseBody = ctx._elseBody !== undefined ? this.body(ctx._elseBody) : null;
+
+        return this.located(new IfStatement(condition, this.body(ctx.body(0)), elseBody), ctx);
+    }
+
+    visitLoopControl(ctx: LoopControlContext): LoopControl {
+        return this.located(new LoopControl(ctx._keyword.text), ctx);
+    }
+
+    visitReturnStatement(ctx: ReturnStatementContext): ReturnStatement {
+        let value = ctx.valueExpression() !== undefined ? this.visit(ctx.valueExpression()) : null;
+
+        return this.located(new ReturnStatement(value), ctx);
+    }
+
+    /** The measurement ends with its target, the OpenQASM 2 syntax measure q -> c, without the semicolon. */
+    visitMeasureStatement(ctx: MeasureStatementContext): Measurement {
+        let measurement = this.visitMeasurement(ctx.measurement());
+        if (ctx.operand() !== undefined) {
+            measurement.target = this.operand(ctx.operand());
+            measurement.end = measurement.target.end;
+        }
+
+        return measurement;
+    }
+
+    visitMeasurement(ctx: MeasurementContext): Measurement {
+        return this.located(new Measurement(this.operand(ctx.operand()), null), ctx);
+    }
+
+    visitResetStatement(ctx: ResetStatementContext): Reset {
+        return this.located(new Reset(this.operand(ctx.operand())), ctx);
+    }
+
+    visitBarrierStatement(ctx: BarrierStatementContext): Barrier {
+        return this.located(new Barrier(this.operands(ctx.operandList())), ctx);
+    }
+
+    visitAssignment(ctx: AssignmentContext): Assignment {
+        let target = this.operand(ctx.operand());
+
+        return this.located(new Assignment(target, ctx._operator.text, this.visit(ctx.valueExpression())), ctx);
+    }
+
+    /** Calls to subroutines, except the global phase which is a gate applied without qubits. */
+    visitExpressionStatement(ctx: ExpressionStatementContext): Statement {
+        let call = this.visitCall(ctx.call());
+        if (call.callee.name === GLOBAL_PHASE) {
+            return this.located(new GateCall([], call.callee, call.parameters, []), ctx);
+        }
+
+        return this.located(new ExpressionStatement(call), ctx);
+    }
+
+    visitGateCall(ctx: GateCallContext): GateCall {
+        let modifiers = ctx.gateModifier().map(modifier => this.gateModifier(modifier));
+        let name = identifierOf(ctx.Identifier().symbol);
+        let parameters = this.expressions(ctx.expressionList());
+
+        return this.located(new GateCall(modifiers, name, parameters, this.operands(ctx.operandList())), ctx);
+    }
+
+    visitNumberLiteral(ctx: NumberLiteralContext): NumberLiteral {
+        return this.located(new NumberLiteral(+ctx.Number().text), ctx);
+    }
+
+    visitBooleanLiteral(ctx: BooleanLiteralContext): BooleanLiteral {
+        return this.located(new BooleanLiteral(ctx._value.type === QasmParser3.True), ctx);
+    }
+
+    visitParenthesisExpression(ctx: ParenthesisExpressionContext): Expression {
+        return this.visit(ctx.expression());
+    }
+
+    visitIdentifierExpression(ctx: IdentifierExpressionContext): Expression {
+        let identifier = identifierOf(ctx.Identifier().symbol);
+        if (ctx.designator() === undefined) {
+            return identifier;
+        }
+
+        return this.located(new IndexedIdentifier(identifier, this.size(ctx.designator())), ctx);
+    }
+
+    visitUnaryExpression(ctx: UnaryExpressionContext): UnaryExpression {
+        return this.located(new UnaryExpression(ctx._operator.text, this.visit(ctx.expression())), ctx);
+    }
+
+    /** Placed from the start of the left operand, which can be between parentheses. */
+    visitBinaryExpression(ctx: BinaryExpressionContext): BinaryExpression {
+        let left = this.visit(ctx.expression(0));
+        let expression = new BinaryExpression(ctx._operator.text, left, this.visit(ctx.expression(1)));
+        expression.start = left.start;
+        expression.end = endOf(ctx.stop);
+
+        return expression;
+    }
+
+    visitCall(ctx: CallContext): CallExpression {
+        let callee = identifierOf(ctx.Identifier().symbol);
+
+        return this.located(new CallExpression(callee, this.expressions(ctx.expressionList())), ctx);
+    }
+
+    private version(header: HeaderContext): string {
+        let version = header._version;
+        if (version.text.split('.')[0] !== SUPPORTED_VERSION) {
+            let position = { line: version.line - 1, start: version.charPositionInLine, end: endOf(version).column };
+            this.errorListener.addError(ErrorBuilder.error(ErrorMessages.unsupportedVersion(version.text), position));
+        }
+
+        return version.text;
+    }
+
+    private statements(contexts: StatementContext[]): Statement[] {
+        return contexts.filter(context => isComplete(context)).map(context => this.visit(context));
+    }
+
+    /** The body of the loops and the conditionals can be a block or a single statement. */
+    private body(ctx: BodyContext): Statement[] {
+        return ctx.block() !== undefined ? this.block(ctx.block()) : this.statements([ctx.statement()]);
+    }
+
+    private block(ctx: BlockContext): Statement[] {
+        return this.statements(ctx.statement());
+    }
+
+    private subroutineArgument(ctx: SubroutineArgumentContext): SubroutineArgument {
+        let name = identifierOf(ctx.Identifier().symbol);
+        if (ctx.Qubit() !== undefined) {
+            return { name, type: null, qubits: this.size(ctx.designator()) };
+        }
+
+        return { name, type: this.classicalType(ctx.classicalType()), qubits: null };
+    }
+
+    private gateModifier(ctx: GateModifierContext): GateModifier {
+        let argument = ctx.expression() !== undefined ? this.visit(ctx.expression()) : null;
+
+        return { name: ctx._name.text, argument, start: startOf(ctx._name) };
+    }
+
+    private classicalType(ctx: ClassicalTypeContext): ClassicalType {
+        return { name: ctx._name.text, size: this.size(ctx.designator()) };
+    }
+
+    private size(ctx: DesignatorContext): Expression {
+        return ctx !== undefined ? this.visit(ctx.expression()) : null;
+    }
+
+    private operand(ctx: OperandContext): IndexedIdentifier {
+        let identifier = identifierOf(ctx.Identifier().symbol);
+
+        return this.located(new IndexedIdentifier(identifier, this.size(ctx.designator())), ctx);
+    }
+
+    private operands(ctx: OperandListContext): IndexedIdentifier[] {
+        return ctx !== undefined ? ctx.operand().map(operand => this.operand(operand)) : [];
+    }
+
+    private expressions(ctx: ExpressionListContext): Expression[] {
+        return ctx !== undefined ? ctx.expression().map(expression => this.visit(expression)) : [];
+    }
+
+    private identifiers(ctx: IdentifierListContext): Identifier[] {
+        return ctx.Identifier().map(identifier => identifierOf(identifier.symbol));
+    }
+
+    private located<T extends VisitableItem>(item: T, ctx: ParserRuleContext): T {
+        return located(item, ctx.start, ctx.stop);
+    }
+}
+
+/**
+ * A statement is complete when the parser did not need to recover from an error while parsing it. The nested
+ * statements are checked apart, so an error inside a block only leaves out the statement where it is found.
+ */
+function isComplete(ctx: ParserRuleContext): boolean {
+    if (ctx.exception !== undefined) {
+        return false;
+    }
+
+    return (ctx.children || []).every(child => {
+        if (child instanceof ErrorNode) {
+            return false;
+        }
+
+        return !(child instanceof ParserRuleContext) || child instanceof StatementContext || isComplete(child);
+    });
+}
+
+function identifierOf(token: Token): Identifier {
+    return located(new Identifier(token.text), token, token);
+}
+
+function located<T extends VisitableItem>(item: T, start: Token, stop: Token): T {
+    item.start = startOf(start);
+    item.end = endOf(stop);
+
+    return item;
+}
+
+function startOf(token: Token): Position {
+    return { line: token.line - 1, column: token.charPositionInLine };
+}
+
+/** The end of file has no length, so the end of a program is placed where the file ends. */
+function endOf(token: Token): Position {
+    let length = token.type === Token.EOF ? 0 : token.text.length;
+
+    return { line: token.line - 1, column: token.charPositionInLine + length };
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Parser, ParserResult } from '../types';
+import { QASM3SyntacticParser } from './compiler/syntacticParser';
+import { SymbolTableGenerator } from './compiler/symbolTableGenerator';
+import { SemanticAnalyzer } from './compiler/semanticAnalyzer';
+import { ErrorListener } from '../tools/errorListener';
+import { QASMIncludeResolver } from '../qasm/libs/includeResolver';
+
+export class QASM3Parser implements Parser {
+    constructor(private includeResolver = new QASMIncludeResolver()) {}
+
+    parse(input: string, uri?: string): ParserResult {
+        let errorListener = new ErrorListener();
+        let includeTracker = this.includeResolver.trackerFor(uri);
+
+        let program = QASM3SyntacticParser.parseWithErrorListener(input, errorListener);
+        let symbolTable = SymbolTableGenerator.symbolTableFor(program, errorListener, undefined, includeTracker);
+        SemanticAnalyzer.analyze(program, symbolTable, errorListener);
+
+        return {
+            ast: program,
+            errors: errorListener.errors,
+            symbolTable,
+            dependencies: includeTracker.files
+        };
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { MethodReference, VisitableItem, KeywordArgument } from './types';
+import { ArgumentSymbol, ArgumentKind } from '../compiler/symbols';
+
+export interface BoundArgument {
+    argument: ArgumentSymbol;
+    value: VisitableItem;
+}
+
+export interface ArgumentsBinding {
+    bound: BoundArgument[];
+    /** Positional values left when every positional argument is taken. */
+    exceeding: VisitableItem[];
+    /** Keyword values not matching any argument. */
+    unknown: KeywordArgument[];
+    /** Keyword values of arguments already given. */
+    duplicated: KeywordArgument[];
+    /** Required arguments not given, empty when some values are unpacked because they cannot be known. */
+    missing: ArgumentSymbol[];
+}
+
+/**
+ * Matches the values of a call with the arguments of the method, following the Python rules: the positional
+ * values are taken in order and then by `*args`, the keyword ones by name and then by `**kwargs`.
+ */
+export namespace ArgumentsBinder {
+    export function bind(method: MethodReference, methodArguments: ArgumentSymbol[]): ArgumentsBinding {
+        let binding: ArgumentsBinding = { bound: [], exceeding: [], unknown: [], duplicated: [], missing: [] };
+        let positionals = methodArguments.filter(argument => argument.kind === ArgumentKind.Positional);
+        let variadicPositional = methodArguments.find(argument => argument.kind === ArgumentKind.VariadicPositional);
+        let variadicKeyword = methodArguments.find(argument => argument.kind === ArgumentKind.VariadicKeyword);
+        let isBound = (argument: ArgumentSymbol) => binding.bound.some(bound => bound.argument === argument);
+
+        method.args.forEach((value, position) => {
+            if (position < positionals.length) {
+                binding.bound.push({ argument: positionals[position], value });
+            } else if (variadicPositional) {
+                binding.bound.push({ argument: variadicPositional, value });
+            } else {
+                binding.exceeding.push(value);
+            }
+        });
+
+        let givenKeywords: string[] = [];
+        method.keywordArgs.forEach(keywordArg => {
+            let argument = methodArguments.find(
+                candidate => !candidate.isVariadic() && candidate.getName() === keywordArg.name
+            );
+
+            if (givenKeywords.indexOf(keywordArg.name) > -1 || (argument && isBound(argument))) {
+                binding.duplicated.push(keywordArg);
+            } else if (argument) {
+                binding.bound.push({ argument, value: keywordArg.value });
+            } else if (variadicKeyword) {
+                binding.bound.push({ argument: variadicKeyword, value: keywordArg.value });
+            } else {
+                binding.unknown.push(keywordArg);
+            }
+
+            givenKeywords.push(keywordArg.name);
+        });
+
+        if (!method.unpacksArguments) {
+            binding.missing = methodArguments.filter(
+                argument => !argument.optional && !argument.isVariadic() && !isBound(argument)
+            );
+        }
+
+        return binding;
+    }
+}
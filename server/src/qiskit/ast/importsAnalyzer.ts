@@ -10,38 +10,61 @@
 import { ParserRuleContext } from 'antlr4ts';
 import { AbstractParseTreeVisitor } from 'antlr4ts/tree';
 import { Python3Visitor } from '../antlr/Python3Visitor';
-import { Import_as_nameContext, AtomContext } from '../antlr/Python3Parser';
+import { Import_stmtContext, AtomContext } from '../antlr/Python3Parser';
 import { ErrorBuilder } from '../../tools/errorBuilder';
 import { ErrorMessages } from '../compiler/tools/errorMessages';
 import { PositionAdapter } from '../../tools/positionAdapter';
 import { ErrorListener } from '../../tools/errorListener';
 import { QiskitSDK } from '../libs/qiskitSDK';
+import { ImportTracker } from '../libs/moduleResolver';
+import { ImportFolder } from './treeFolder';
+import { ImportStatement } from './types';
 
 export namespace ImportsAnalyzer {
-    export function analyze(tree: ParserRuleContext, errorListener: ErrorListener) {
-        let validator = new ImportsValidator(errorListener);
-        tree.accept(validator);
+    /** The trees of the top-level statements are analyzed in order, as the names are imported before their use. */
+    export function analyze(
+        trees: ParserRuleContext[],
+        errorListener: ErrorListener,
+        importTracker: ImportTracker = new ImportTracker()
+    ) {
+        let validator = new ImportsValidator(errorListener, importTracker);
+        trees.forEach(tree => tree.accept(validator));
     }
 }
 
 class ImportsValidator extends AbstractParseTreeVisitor<void> implements Python3Visitor<void> {
     imported: string[] = [];
+    /** Any Qiskit class may come from a star import of a module whose names are not known. */
+    importsUnknownNames = false;
 
-    constructor(private errorListener: ErrorListener) {
+    constructor(private errorListener: ErrorListener, private importTracker: ImportTracker) {
         super();
     }
 
     defaultResult() {}
 
-    visitImport_as_name(ctx: Import_as_nameContext) {
-        this.imported.push(ctx.text);
+    /** The names are imported even when their module is not found, as the installed packages are not followed. */
+    visitImport_stmt(ctx: Import_stmtContext) {
+        let statement = ImportFolder.fold(ctx);
+        let binding = this.importTracker.bind(statement);
+
+        this.imported.push(...statement.names.map(imported => imported.alias || imported.name.split('.')[0]));
+        this.imported.push(...Array.from(binding.bound.keys()));
+        this.importsUnknownNames = this.importsUnknownNames || binding.unknownNames;
+
+        binding.missing.forEach(imported => {
+            let message = ErrorMessages.notDefinedInModule(imported.name, moduleNameOf(statement));
+            let error = ErrorBuilder.warning(message, PositionAdapter.fromItem(imported));
+
+            this.errorListener.addError(error);
+        });
     }
 
     visitAtom(ctx: AtomContext) {
         let isFromQiskit = QiskitSDK.containsClass(ctx.text);
         let isPreviouslyImported = this.imported.some(importedValue => importedValue === ctx.text);
 
-        if (isFromQiskit && !isPreviouslyImported) {
+        if (isFromQiskit && !isPreviouslyImported && !this.importsUnknownNames) {
             let message = ErrorMessages.notPreviouslyImported(ctx.text);
             let position = PositionAdapter.fromToken(ctx._start);
             let error = ErrorBuilder.warning(message, position);
@@ -50,3 +73,7 @@ class ImportsValidator extends AbstractParseTreeVisitor<void> implements Python3
         }
     }
 }
+
+function moduleNameOf(statement: ImportStatement): string {
+    return `${'.'.repeat(statement.level)}${statement.module}`;
+}
@@ -21,8 +21,18 @@ import {
     Block
 } from './types';
 import { ParserError } from '../../types';
-import { VariableSymbol, ClassSymbol, MethodSymbol, ArgumentSymbol } from '../compiler/symbols';
+import {
+    VariableSymbol,
+    ClassSymbol,
+    MethodSymbol,
+    ArgumentSymbol,
+    QiskitSymbols,
+    ModuleSymbol,
+    UnionTypeSymbol
+} from '../compiler/symbols';
 import { ErrorBuilder } from './tools/errorBuilder';
+import { ErrorMessages } from '../compiler/tools/errorMessages';
+import { ArgumentsBinder, ArgumentsBinding } from './argumentsBinder';
 import { SymbolTable } from '../../compiler/types';
 import { Type, BuiltInTypeSymbol } from '../../compiler/symbols';
 
@@ -94,21 +104,52 @@ class TermSemanticValidator implements Visitor<ExpressionAnalysis> {
     }
 
     visitVariableReference(variable: VariableReference): ExpressionAnalysis {
-        this.currentAnalysis.lastSymbol = this.symbolTable.lookup(variable.value, variable.start.line);
+        let lastSymbol = this.currentAnalysis.lastSymbol;
+        if (lastSymbol instanceof ModuleSymbol) {
+            this.currentAnalysis.lastSymbol = lastSymbol.lookup(variable.value);
+        } else {
+            this.currentAnalysis.lastSymbol = this.symbolTable.lookup(variable.value, variable.start.line);
+        }
 
         return this.currentAnalysis;
     }
 
     visitMethodReference(method: MethodReference): ExpressionAnalysis {
+        let lastSymbol = this.currentAnalysis.lastSymbol;
+        if (lastSymbol === undefined) {
+            return this.visitCall(method, this.symbolTable.lookup(method.name, method.start.line));
+        }
+        if (lastSymbol instanceof ModuleSymbol) {
+            return this.visitCall(method, lastSymbol.lookup(method.name));
+        }
+
         let methodSymbol = this.findMethodSymbol(method.name, this.currentAnalysis.lastSymbol);
         if (methodSymbol) {
-            this.currentAnalysis.errors.push(...this.checkMethodArguments(method, methodSymbol));
+            this.currentAnalysis.errors.push(...this.checkMethodArguments(method, methodSymbol.arguments));
             this.currentAnalysis.lastSymbol = methodSymbol.type;
         }
 
         return this.currentAnalysis;
     }
 
+    /**
+     * A call starting the expression or reaching a member of a module builds an instance of a class or runs a
+     * function.
+     */
+    visitCall(method: MethodReference, symbol: Type): ExpressionAnalysis {
+        if (symbol instanceof ClassSymbol) {
+            this.currentAnalysis.errors.push(...this.checkMethodArguments(method, symbol.requiredArguments));
+            this.currentAnalysis.lastSymbol = symbol;
+        } else if (symbol instanceof MethodSymbol) {
+            this.currentAnalysis.errors.push(...this.checkMethodArguments(method, symbol.arguments));
+            this.currentAnalysis.lastSymbol = symbol.type;
+        } else {
+            this.currentAnalysis.lastSymbol = null;
+        }
+
+        return this.currentAnalysis;
+    }
+
     findMethodSymbol(methodName: string, lastSymbol: Type): MethodSymbol {
         if (lastSymbol === null) {
             return null;
@@ -125,32 +166,53 @@ class TermSemanticValidator implements Visitor<ExpressionAnalysis> {
         return null;
     }
 
-    checkMethodArguments(method: MethodReference, methodSymbol: MethodSymbol): ParserError[] {
+    checkMethodArguments(method: MethodReference, methodArguments: ArgumentSymbol[]): ParserError[] {
+        let binding = ArgumentsBinder.bind(method, methodArguments);
+
         return []
-            .concat(this.checkArgumentsNumber(method, methodSymbol))
-            .concat(this.checkArgumentsType(method, methodSymbol));
+            .concat(this.checkArgumentsNumber(method, binding))
+            .concat(this.checkKeywordArguments(method, binding))
+            .concat(this.checkArgumentsType(binding));
     }
 
-    checkArgumentsNumber(method: MethodReference, methodSymbol: MethodSymbol): ParserError[] {
+    checkArgumentsNumber(method: MethodReference, binding: ArgumentsBinding): ParserError[] {
         let result: ParserError[] = [];
 
-        let requiredArguments = methodSymbol.arguments.filter(arg => arg.optional === false).length;
-        if (method.args.length < requiredArguments) {
-            let message = `Expecting ${requiredArguments} arguments but ${method.args.length} received`;
-            let error = ErrorBuilder.warning(message, method);
+        if (binding.missing.length > 0) {
+            let missing = binding.missing.map(argument => argument.getName());
+            result.push(ErrorBuilder.warning(ErrorMessages.missingArguments(method.name, missing), method));
+        }
+
+        if (binding.exceeding.length > 0) {
+            let maximum = method.args.length - binding.exceeding.length;
+            let message = ErrorMessages.exceedingArguments(method.name, maximum, method.args.length);
+            let firstExceeding = binding.exceeding[0];
 
-            result.push(error);
+            result.push(
+                ErrorBuilder.warning(message, firstExceeding && firstExceeding.start ? firstExceeding : method)
+            );
         }
 
         return result;
     }
 
-    checkArgumentsType(method: MethodReference, methodSymbol: MethodSymbol): ParserError[] {
+    checkKeywordArguments(method: MethodReference, binding: ArgumentsBinding): ParserError[] {
+        let unknownErrors = binding.unknown.map(keywordArg =>
+            ErrorBuilder.warning(ErrorMessages.unknownKeywordArgument(method.name, keywordArg.name), keywordArg)
+        );
+        let duplicatedErrors = binding.duplicated.map(keywordArg =>
+            ErrorBuilder.warning(ErrorMessages.duplicatedArgument(method.name, keywordArg.name), keywordArg)
+        );
+
+        return unknownErrors.concat(duplicatedErrors);
+    }
+
+    checkArgumentsType(binding: ArgumentsBinding): ParserError[] {
         let errors: ParserError[] = [];
-        methodSymbol.arguments.forEach((arg, position) => {
-            if (method.args[position]) {
-                let argumentValidator = new ArgumentSemanticValidator(arg, this.symbolTable);
-                errors.push(...method.args[position].accept(argumentValidator));
+        binding.bound.forEach(bound => {
+            if (bound.value) {
+                let argumentValidator = new ArgumentSemanticValidator(bound.argument, this.symbolTable);
+                errors.push(...bound.value.accept(argumentValidator));
             }
         });
 
@@ -219,13 +281,20 @@ class ArgumentSemanticValidator implements Visitor<ParserError[]> {
     }
 
     checkVariableType(item: VisitableItem, variableSymbol: VariableSymbol, name: string) {
-        if (variableSymbol.type !== this.requiredArgument.type) {
-            let expectedType = this.requiredArgument.type.getName();
+        // the type of the variables like the parameters without annotation is not known
+        if (variableSymbol.type !== null && variableSymbol.type.getName() === QiskitSymbols.object) {
+            return [];
+        }
+
+        let requiredType = this.requiredArgument.type;
+        let acceptedTypes = requiredType instanceof UnionTypeSymbol ? requiredType.types : [requiredType];
+        if (acceptedTypes.indexOf(variableSymbol.type) === -1) {
+            let expectedType = requiredType.getName();
 
             // checks on primitive types should be avoided because this kind of variables are not properly
             // registered at the symbol table
-            let symbol = this.symbolTable.lookup(expectedType, item.start.line);
-            if (symbol === null || symbol instanceof BuiltInTypeSymbol) {
+            let symbols = acceptedTypes.map(type => this.symbolTable.lookup(type.getName(), item.start.line));
+            if (symbols.some(symbol => symbol === null || symbol instanceof BuiltInTypeSymbol)) {
                 return [];
             }
 
@@ -20,39 +20,107 @@ import {
     Float,
     Integer,
     Text,
-    Block
+    Block,
+    FunctionDefinition,
+    ClassDefinition,
+    Parameter,
+    ReturnStatement,
+    ImportStatement
 } from './types';
-import { VariableSymbol, ClassSymbol, VariableMetadata, MethodSymbol, QiskitSymbols } from '../compiler/symbols';
+import {
+    VariableSymbol,
+    ClassSymbol,
+    VariableMetadata,
+    MethodSymbol,
+    QiskitSymbols,
+    ArgumentSymbol,
+    ArgumentKind,
+    ModuleSymbol
+} from '../compiler/symbols';
 import { QiskitSymbolTableBuilder } from '../compiler/qiskitSymbolTableBuilder';
+import { ArgumentsBinder } from './argumentsBinder';
 import { SymbolTable } from '../../compiler/types';
-import { Type } from '../../compiler/symbols';
+import { Type, Symbol } from '../../compiler/symbols';
+import { ImportTracker } from '../libs/moduleResolver';
 
 export namespace SymbolTableGenerator {
-    export function symbolTableFor(codeBlock: Block): SymbolTable {
+    /** The imports are only followed when a tracker is given. */
+    export function symbolTableFor(codeBlock: Block, importTracker: ImportTracker = null): SymbolTable {
         let symbolTable = QiskitSymbolTableBuilder.create();
 
         codeBlock.childs.forEach(block => {
-            let updater = new StatementSymbolTableUpdater(symbolTable);
+            let updater = new StatementSymbolTableUpdater(symbolTable, importTracker);
             block.accept(updater);
         });
 
         return symbolTable;
     }
+
+    /** The symbols defined at the global scope of a module, the ones other modules can import. */
+    export function moduleSymbolsFor(codeBlock: Block, importTracker: ImportTracker): Map<string, Symbol> {
+        return symbolTableFor(codeBlock, importTracker).currentScope.ownSymbols();
+    }
 }
 
 class StatementSymbolTableUpdater implements Visitor<void> {
-    constructor(private symbolTable: SymbolTable) {}
+    /** The returned types are collected when the statements are at the body of a function. */
+    constructor(
+        private symbolTable: SymbolTable,
+        private importTracker: ImportTracker,
+        private returnedTypes: Type[] = null
+    ) {}
 
     defaultValue() {}
 
     visitCodeBlock(block: Block) {
         this.symbolTable.push('local', block.start.line);
 
-        block.childs.map(innerBlock => innerBlock.accept(new StatementSymbolTableUpdater(this.symbolTable)));
+        block.childs.map(innerBlock =>
+            innerBlock.accept(new StatementSymbolTableUpdater(this.symbolTable, this.importTracker, this.returnedTypes))
+        );
 
         this.symbolTable.pop(block.end.line);
     }
 
+    visitFunctionDefinition(definition: FunctionDefinition) {
+        this.functionSymbolOf(definition, null);
+    }
+
+    visitClassDefinition(definition: ClassDefinition) {
+        let classSymbol = new ClassSymbol(definition.name, this.symbolTable.lookup(QiskitSymbols.class), [], []);
+        this.symbolTable.define(classSymbol, definition.start.line);
+        this.inheritFromBases(classSymbol, definition);
+
+        this.symbolTable.push(definition.name, definition.start.line);
+        definition.childs.forEach(child => {
+            if (child instanceof FunctionDefinition) {
+                this.defineMethod(classSymbol, this.functionSymbolOf(child, classSymbol));
+            } else {
+                child.accept(new StatementSymbolTableUpdater(this.symbolTable, this.importTracker));
+            }
+        });
+        this.symbolTable.pop(definition.end.line);
+    }
+
+    visitReturnStatement(statement: ReturnStatement) {
+        this.visitStatement(statement);
+
+        if (this.returnedTypes !== null) {
+            this.returnedTypes.push(this.returnedTypeOf(statement));
+        }
+    }
+
+    /** The imported symbols are defined with the names they are bound to, as the aliases. */
+    visitImportStatement(statement: ImportStatement) {
+        if (this.importTracker === null) {
+            return;
+        }
+
+        this.importTracker
+            .bind(statement)
+            .bound.forEach((symbol, name) => this.symbolTable.define(symbol, statement.start.line, name));
+    }
+
     visitStatement(statement: Statement) {
         if (statement.expression === null) {
             return;
@@ -61,6 +129,113 @@ class StatementSymbolTableUpdater implements Visitor<void> {
         let updater = new AssignmentSymbolTableUpdater(this.symbolTable);
         statement.expression.accept(updater);
     }
+
+    /**
+     * Defines the function and, at its own scope, its parameters and body. The first parameter of the methods
+     * is the instance, so it is not part of their arguments.
+     */
+    private functionSymbolOf(definition: FunctionDefinition, owner: ClassSymbol): MethodSymbol {
+        let functionSymbol = new MethodSymbol(definition.name, this.symbolTable.lookup(QiskitSymbols.void));
+        let bindsInstance = owner !== null && definition.decorators.indexOf('staticmethod') === -1;
+        this.symbolTable.define(functionSymbol, definition.start.line);
+
+        this.symbolTable.push(definition.name, definition.start.line);
+        let argumentSymbols = definition.parameters.map((parameter, position) => {
+            let type = bindsInstance && position === 0 ? owner : this.parameterTypeOf(parameter);
+            this.symbolTable.define(new VariableSymbol(parameter.name, type), definition.start.line);
+
+            return new ArgumentSymbol(parameter.name, type, parameter.defaultValue !== null, parameter.kind);
+        });
+        functionSymbol.arguments = bindsInstance ? argumentSymbols.slice(1) : argumentSymbols;
+
+        let returnedTypes: Type[] = [];
+        definition.childs.forEach(child =>
+            child.accept(new StatementSymbolTableUpdater(this.symbolTable, this.importTracker, returnedTypes))
+        );
+        this.symbolTable.pop(definition.end.line);
+
+        functionSymbol.type = this.returnTypeOf(definition, returnedTypes);
+
+        return functionSymbol;
+    }
+
+    private defineMethod(classSymbol: ClassSymbol, method: MethodSymbol) {
+        if (method.name === '__init__') {
+            classSymbol.requiredArguments = method.arguments;
+            return;
+        }
+
+        classSymbol.methods = classSymbol.methods.filter(inherited => inherited.name !== method.name).concat(method);
+    }
+
+    /** The arguments of the classes extending unknown ones are not known, so any argument is accepted. */
+    private inheritFromBases(classSymbol: ClassSymbol, definition: ClassDefinition) {
+        definition.bases
+            .filter(base => base !== 'object')
+            .map(base => this.symbolTable.lookup(base))
+            .reverse()
+            .forEach(base => {
+                if (base instanceof ClassSymbol) {
+                    classSymbol.requiredArguments = base.requiredArguments;
+                    base.methods.forEach(method => this.defineMethod(classSymbol, method));
+                } else {
+                    let object = this.symbolTable.lookup(QiskitSymbols.object);
+                    classSymbol.requiredArguments = [
+                        new ArgumentSymbol('args', object, true, ArgumentKind.VariadicPositional),
+                        new ArgumentSymbol('kwargs', object, true, ArgumentKind.VariadicKeyword)
+                    ];
+                }
+            });
+    }
+
+    /** The annotated type when it is known, otherwise the type of the default value. */
+    private parameterTypeOf(parameter: Parameter): Type {
+        let annotatedType = parameter.annotation === null ? null : this.symbolTable.lookup(parameter.annotation);
+        if (annotatedType !== null) {
+            return annotatedType;
+        }
+
+        if (parameter.defaultValue !== null) {
+            return this.knownTypeOf(parameter.defaultValue);
+        }
+
+        return this.symbolTable.lookup(QiskitSymbols.object);
+    }
+
+    private returnedTypeOf(statement: ReturnStatement): Type {
+        if (statement.expression === null) {
+            return this.symbolTable.lookup(QiskitSymbols.void);
+        }
+
+        return this.knownTypeOf(statement.expression);
+    }
+
+    /** The annotated type when it is known, otherwise the type returned by every return statement. */
+    private returnTypeOf(definition: FunctionDefinition, returnedTypes: Type[]): Type {
+        let annotatedType =
+            definition.returnAnnotation === null ? null : this.symbolTable.lookup(definition.returnAnnotation);
+        if (annotatedType !== null) {
+            return annotatedType;
+        }
+
+        if (returnedTypes.length === 0) {
+            return this.symbolTable.lookup(QiskitSymbols.void);
+        }
+
+        let sameTypes = returnedTypes.every(type => type === returnedTypes[0]);
+
+        return sameTypes ? returnedTypes[0] : this.symbolTable.lookup(QiskitSymbols.object);
+    }
+
+    /** Only the classes are inferred from the values, the primitive values are not registered as typed. */
+    private knownTypeOf(item: VisitableItem): Type {
+        let invocationData = item.accept(new AssignmentSymbolTableUpdater(this.symbolTable));
+        if (invocationData && invocationData.type instanceof ClassSymbol) {
+            return invocationData.type;
+        }
+
+        return this.symbolTable.lookup(QiskitSymbols.object);
+    }
 }
 
 class AssignmentSymbolTableUpdater implements Visitor<MethodInvocationData> {
@@ -101,6 +276,10 @@ class AssignmentSymbolTableUpdater implements Visitor<MethodInvocationData> {
                 let unwrapper = new MethodCallUnwrapper(a.type, this.symbolTable);
                 return b.accept(unwrapper);
             }
+            if (a.type instanceof ModuleSymbol) {
+                let unwrapper = new ModuleMemberUnwrapper(a.type, this.symbolTable);
+                return b.accept(unwrapper);
+            }
 
             return a;
         };
@@ -117,6 +296,14 @@ class AssignmentSymbolTableUpdater implements Visitor<MethodInvocationData> {
     }
 
     visitMethodReference(reference: MethodReference): MethodInvocationData {
+        let functionSymbol = this.symbolTable.lookup(reference.name);
+        if (functionSymbol instanceof MethodSymbol) {
+            return {
+                type: this.theClassTypeOf(functionSymbol.type),
+                metadata: metadataOf(reference, functionSymbol.arguments)
+            };
+        }
+
         let classSymbol = this.theClassTypeOf(this.symbolTable.lookup(reference.name));
 
         return {
@@ -140,21 +327,7 @@ class AssignmentSymbolTableUpdater implements Visitor<MethodInvocationData> {
 
     unwrapMetadata(classSymbol: Type, reference: MethodReference): VariableMetadata {
         if (classSymbol instanceof ClassSymbol) {
-            let metadata: VariableMetadata = {};
-            let argumentUnwrapper = new ArgumentUnwrapper();
-            classSymbol.requiredArguments.forEach((arg, position) => {
-                if (reference.args[position]) {
-                    // TODO convert to real metadata { name: 'size' , value: 'unwrappedValue' }
-                    if (arg.getName() === 'size') {
-                        metadata.size = reference.args[position].accept(argumentUnwrapper);
-                    }
-                    if (arg.getName() === 'name') {
-                        metadata.name = reference.args[position].accept(argumentUnwrapper);
-                    }
-                }
-            });
-
-            return metadata;
+            return metadataOf(reference, classSymbol.requiredArguments);
         }
 
         return null;
@@ -220,27 +393,63 @@ class MethodCallUnwrapper implements Visitor<MethodInvocationData> {
 
     unwrapMetadata(methodSymbol: Type, reference: MethodReference): VariableMetadata {
         if (methodSymbol instanceof MethodSymbol) {
-            let metadata: VariableMetadata = {};
-            let argumentUnwrapper = new ArgumentUnwrapper();
-            methodSymbol.arguments.forEach((arg, position) => {
-                if (reference.args[position]) {
-                    // TODO convert to real metadata { name: 'size' , value: 'unwrappedValue' }
-                    if (arg.getName() === 'size') {
-                        metadata.size = reference.args[position].accept(argumentUnwrapper);
-                    }
-                    if (arg.getName() === 'name') {
-                        metadata.name = reference.args[position].accept(argumentUnwrapper);
-                    }
-                }
-            });
-
-            return metadata;
+            return metadataOf(reference, methodSymbol.arguments);
         }
 
         return null;
     }
 }
 
+/** The classes, functions and variables of a module reached as its attributes, like `qiskit.QuantumCircuit`. */
+class ModuleMemberUnwrapper implements Visitor<MethodInvocationData> {
+    constructor(private module: ModuleSymbol, private symbolTable: SymbolTable) {}
+
+    defaultValue(): MethodInvocationData {
+        return {
+            type: this.symbolTable.lookup(QiskitSymbols.void)
+        };
+    }
+
+    visitVariableReference(reference: VariableReference): MethodInvocationData {
+        let member = this.module.lookup(reference.value);
+        if (member instanceof VariableSymbol) {
+            return { type: member.type };
+        }
+
+        return member !== null ? { type: member } : this.defaultValue();
+    }
+
+    visitMethodReference(reference: MethodReference): MethodInvocationData {
+        let member = this.module.lookup(reference.name);
+        if (member instanceof ClassSymbol) {
+            return { type: member, metadata: metadataOf(reference, member.requiredArguments) };
+        }
+        if (member instanceof MethodSymbol) {
+            return { type: member.type, metadata: metadataOf(reference, member.arguments) };
+        }
+
+        return this.defaultValue();
+    }
+}
+
+function metadataOf(reference: MethodReference, methodArguments: ArgumentSymbol[]): VariableMetadata {
+    let metadata: VariableMetadata = {};
+    let argumentUnwrapper = new ArgumentUnwrapper();
+    ArgumentsBinder.bind(reference, methodArguments).bound.forEach(bound => {
+        if (bound.value) {
+            // TODO convert to real metadata { name: 'size' , value: 'unwrappedValue' }
+            if (bound.argument.getName() === 'size') {
+                metadata.size = bound.value.accept(argumentUnwrapper);
+            }
+            if (bound.argument.getName() === 'name') {
+                metadata.name = bound.value.accept(argumentUnwrapper);
+            }
+        }
+    });
+
+    return metadata;
+}
+
 interface MethodInvocationData {
     type: Type;
     metadata?: VariableMetadata;
@@ -23,7 +23,17 @@ import {
     DictorsetmakerContext,
     Simple_stmtContext,
     Compound_stmtContext,
-    SuiteContext
+    SuiteContext,
+    ArgumentContext,
+    FuncdefContext,
+    ClassdefContext,
+    ParametersContext,
+    TfpdefContext,
+    TestContext,
+    Return_stmtContext,
+    Import_stmtContext,
+    Import_nameContext,
+    Import_fromContext
 } from '../antlr/Python3Parser';
 import { Python3Lexer } from '../antlr/Python3Lexer';
 import {
@@ -37,13 +47,21 @@ import {
     Float,
     Integer,
     MethodReference,
+    KeywordArgument,
     Visitor,
     QiskitBoolean,
     Dictionary,
     Block,
     CodeBlock,
-    Position
+    Position,
+    FunctionDefinition,
+    ClassDefinition,
+    Parameter,
+    ReturnStatement,
+    ImportStatement,
+    ImportedName
 } from './types';
+import { ArgumentKind } from '../compiler/symbols';
 import { ParserRuleContext, Token } from 'antlr4ts';
 import { QLogger } from '../../logger';
 
@@ -75,6 +93,11 @@ export class StatementFolder extends AbstractParseTreeVisitor<Block> implements
     }
 
     visitCompound_stmt(ctx: Compound_stmtContext): Block {
+        let definition = DefinitionFolder.fold(ctx);
+        if (definition) {
+            return definition;
+        }
+
         let innerBlocks = ctx.accept(new CompoundStatementFolder());
 
         let result = new CodeBlock(innerBlocks);
@@ -100,6 +123,11 @@ export class CompoundStatementFolder extends AbstractParseTreeVisitor<Block[]> i
         let toStatement = (statement: StmtContext) => statement.accept(new StatementFolder());
         let notUndefinedStatements = (block: Block) => block !== undefined;
 
+        // the bodies written at the same line, as in def f(): return 1
+        if (ctx.simple_stmt()) {
+            return [ctx.simple_stmt().accept(new ExpressionStatementFolder())].filter(notUndefinedStatements);
+        }
+
         return ctx
             .stmt()
             .map(toStatement)
@@ -131,6 +159,177 @@ export class ExpressionStatementFolder extends AbstractParseTreeVisitor<Statemen
 
         return this.foldedStatement;
     }
+
+    visitReturn_stmt(ctx: Return_stmtContext): Statement {
+        let value = ctx.testlist() ? ctx.testlist().accept(new ExpressionFolder()) : null;
+
+        this.foldedStatement = new ReturnStatement(value);
+        this.foldedStatement.start = PositionCalc.startContext(ctx);
+        this.foldedStatement.end = PositionCalc.endToken(ctx.stop);
+
+        return this.foldedStatement;
+    }
+
+    visitImport_stmt(ctx: Import_stmtContext): Statement {
+        this.foldedStatement = ImportFolder.fold(ctx);
+
+        return this.foldedStatement;
+    }
+}
+
+/** Folds the import statements, also used by the analysis of the imports working on the parse tree. */
+export namespace ImportFolder {
+    export function fold(ctx: Import_stmtContext): ImportStatement {
+        let statement = ctx.import_name() ? importOf(ctx.import_name()) : importFromOf(ctx.import_from());
+        statement.start = PositionCalc.startContext(ctx);
+        statement.end = PositionCalc.endToken(ctx.stop);
+
+        return statement;
+    }
+
+    function importOf(ctx: Import_nameContext): ImportStatement {
+        let names = ctx
+            .dotted_as_names()
+            .dotted_as_name()
+            .map(
+                dottedName =>
+                    new ImportedName(
+                        dottedName.dotted_name().text,
+                        dottedName.NAME() ? dottedName.NAME().text : null,
+                        PositionCalc.startContext(dottedName),
+                        PositionCalc.afterToken(dottedName.stop)
+                    )
+            );
+
+        return new ImportStatement(null, 0, names, false, null, null);
+    }
+
+    /** The relative levels are written with dots, the ellipsis token being three of them. */
+    function importFromOf(ctx: Import_fromContext): ImportStatement {
+        let module = ctx.dotted_name() ? ctx.dotted_name().text : '';
+        let level = ctx.children
+            .filter(child => child.text === '.' || child.text === '...')
+            .reduce((dots, child) => dots + child.text.length, 0);
+        let importsAll = ctx.children.some(child => child.text === '*');
+        let names = ctx.import_as_names()
+            ? ctx
+                  .import_as_names()
+                  .import_as_name()
+                  .map(
+                      importedName =>
+                          new ImportedName(
+                              importedName.NAME(0).text,
+                              importedName.AS() ? importedName.NAME(1).text : null,
+                              PositionCalc.startContext(importedName),
+                              PositionCalc.afterToken(importedName.stop)
+                          )
+                  )
+            : [];
+
+        return new ImportStatement(module, level, names, importsAll, null, null);
+    }
+}
+
+namespace DefinitionFolder {
+    export function fold(ctx: Compound_stmtContext): Block {
+        let decorated = ctx.decorated();
+        let decorators = decorated
+            ? decorated
+                  .decorators()
+                  .decorator()
+                  .map(decorator => decorator.dotted_name().text)
+            : [];
+
+        let funcdef = ctx.funcdef() || (decorated && decorated.funcdef());
+        if (funcdef) {
+            return functionOf(funcdef, decorators);
+        }
+
+        let classdef = ctx.classdef() || (decorated && decorated.classdef());
+        if (classdef) {
+            return classOf(classdef);
+        }
+
+        return undefined;
+    }
+
+    function functionOf(ctx: FuncdefContext, decorators: string[]): FunctionDefinition {
+        let returnAnnotation = ctx.test() ? ctx.test().text : null;
+        let body = ctx.suite().accept(new CompoundStatementFolder());
+
+        return new FunctionDefinition(
+            ctx.NAME().text,
+            parametersOf(ctx.parameters()),
+            returnAnnotation,
+            decorators,
+            body,
+            PositionCalc.startContext(ctx),
+            PositionCalc.endContext(ctx)
+        );
+    }
+
+    function classOf(ctx: ClassdefContext): ClassDefinition {
+        let bases = ctx.arglist()
+            ? ctx
+                  .arglist()
+                  .argument()
+                  .map(argument => argument.text)
+            : [];
+        let body = ctx.suite().accept(new CompoundStatementFolder());
+
+        return new ClassDefinition(
+            ctx.NAME().text,
+            bases,
+            body,
+            PositionCalc.startContext(ctx),
+            PositionCalc.endContext(ctx)
+        );
+    }
+
+    /** The parameters after `*` or `*args` are keyword only, the defaults follow the parameter they belong to. */
+    function parametersOf(ctx: ParametersContext): Parameter[] {
+        let parameters: Parameter[] = [];
+        if (ctx.typedargslist() === undefined) {
+            return parameters;
+        }
+
+        let prefix = '';
+        let afterStar = false;
+        ctx.typedargslist().children.forEach(child => {
+            if (child instanceof TfpdefContext) {
+                parameters.push(parameterOf(child, kindOf(prefix, afterStar)));
+                prefix = '';
+            } else if (child instanceof TestContext) {
+                parameters[parameters.length - 1].defaultValue = child.accept(new ExpressionFolder());
+            } else if (child.text === '*' || child.text === '**') {
+                prefix = child.text;
+                afterStar = true;
+            } else if (child.text === ',') {
+                prefix = '';
+            }
+        });
+
+        return parameters;
+    }
+
+    function parameterOf(ctx: TfpdefContext, kind: ArgumentKind): Parameter {
+        let annotation = ctx.test() ? ctx.test().text : null;
+        let start = PositionCalc.startToken(ctx.NAME().symbol);
+        let end = PositionCalc.endToken(ctx.NAME().symbol);
+
+        return new Parameter(ctx.NAME().text, annotation, kind, start, end);
+    }
+
+    function kindOf(prefix: string, afterStar: boolean): ArgumentKind {
+        if (prefix === '**') {
+            return ArgumentKind.VariadicKeyword;
+        }
+        if (prefix === '*') {
+            return ArgumentKind.VariadicPositional;
+        }
+
+        return afterStar ? ArgumentKind.KeywordOnly : ArgumentKind.Positional;
+    }
 }
 
 export class ExpressionFolder extends AbstractParseTreeVisitor<VisitableItem> implements Python3Visitor<VisitableItem> {
@@ -169,7 +368,14 @@ export class ExpressionFolder extends AbstractParseTreeVisitor<VisitableItem> im
     }
 
     asMethodReference(variable: VariableReference, argsItem: Arguments): MethodReference {
-        return new MethodReference(variable.value, argsItem.args, variable.start, variable.end);
+        return new MethodReference(
+            variable.value,
+            argsItem.args,
+            variable.start,
+            variable.end,
+            argsItem.keywordArgs,
+            argsItem.unpacksArguments
+        );
     }
 
     asArrayReference(variable: VariableReference, arrayIndex: ArrayIndex): ArrayReference {
@@ -204,12 +410,24 @@ class TrailerFolder extends AbstractParseTreeVisitor<VisitableItem> implements P
             }
 
             let expressionFolder = new ExpressionFolder();
-            let args = ctx
-                .arglist()
-                .argument()
-                .map(argument => argument.accept(expressionFolder));
+            let args: VisitableItem[] = [];
+            let keywordArgs: KeywordArgument[] = [];
+            // the values unpacked with * or ** are not folded, they cannot be matched with the arguments
+            let unpacksArguments = ctx.arglist().children.some(child => child.text === '*' || child.text === '**');
 
-            return new Arguments(args, start, end);
+            ctx.arglist()
+                .argument()
+                .forEach(argument => {
+                    if (isKeywordArgument(argument)) {
+                        keywordArgs.push(this.asKeywordArgument(argument, expressionFolder));
+                    } else if (argument.text.startsWith('*')) {
+                        unpacksArguments = true;
+                    } else {
+                        args.push(this.asPositionalArgument(argument, expressionFolder));
+                    }
+                });
+
+            return new Arguments(args, start, end, keywordArgs, unpacksArguments);
         } else if (ctx.text.startsWith('[')) {
             if (ctx.subscriptlist() === undefined) {
                 return new ArrayIndex([], start, end);
@@ -227,6 +445,28 @@ class TrailerFolder extends AbstractParseTreeVisitor<VisitableItem> implements P
         let terminalFolder = new TerminalFolder();
         return ctx.NAME().accept(terminalFolder);
     }
+
+    /** The value takes the range of the whole argument, the one of its expression only covers its first term. */
+    asPositionalArgument(ctx: ArgumentContext, expressionFolder: ExpressionFolder): VisitableItem {
+        let value = ctx.accept(expressionFolder);
+        if (value !== null) {
+            value.start = PositionCalc.startContext(ctx);
+            value.end = PositionCalc.afterToken(ctx.stop);
+        }
+
+        return value;
+    }
+
+    asKeywordArgument(ctx: ArgumentContext, expressionFolder: ExpressionFolder): KeywordArgument {
+        let start = PositionCalc.startContext(ctx);
+        let end = PositionCalc.afterToken(ctx.stop);
+
+        return new KeywordArgument(ctx.test(0).text, ctx.test(1).accept(expressionFolder), start, end);
+    }
+}
+
+function isKeywordArgument(ctx: ArgumentContext): boolean {
+    return ctx.test().length > 1;
 }
 
 class TerminalFolder extends AbstractParseTreeVisitor<VisitableItem> implements Python3Visitor<VisitableItem> {
@@ -282,11 +522,21 @@ class TerminalFolder extends AbstractParseTreeVisitor<VisitableItem> implements
 
 class Arguments extends VisitableItem {
     args: VisitableItem[] = [];
-
-    constructor(args: VisitableItem[], start: Position, end: Position) {
+    keywordArgs: KeywordArgument[] = [];
+    unpacksArguments = false;
+
+    constructor(
+        args: VisitableItem[],
+        start: Position,
+        end: Position,
+        keywordArgs: KeywordArgument[] = [],
+        unpacksArguments = false
+    ) {
         super();
 
         this.args = args;
+        this.keywordArgs = keywordArgs;
+        this.unpacksArguments = unpacksArguments;
         this.start = start;
         this.end = end;
     }
@@ -296,7 +546,7 @@ class Arguments extends VisitableItem {
     }
 
     toString(): string {
-        return `Arguments(${this.args.join(',')})`;
+        return `Arguments(${this.args.concat(this.keywordArgs).join(',')})`;
     }
 }
 
@@ -348,4 +598,12 @@ namespace PositionCalc {
             column: token.charPositionInLine + token.text.length + 1
         };
     }
+
+    /** Position right after the token, so the imported names are reported exactly. */
+    export function afterToken(token: Token): Position {
+        return {
+            line: token.line - 1,
+            column: token.charPositionInLine + token.text.length
+        };
+    }
 }
@@ -9,13 +9,22 @@
 
 'use strict';
 
+import { ArgumentKind } from '../compiler/symbols';
+
 export interface Visitor<T> {
     visitCodeBlock?(item: CodeBlock): T;
+    visitFunctionDefinition?(item: FunctionDefinition): T;
+    visitClassDefinition?(item: ClassDefinition): T;
+    visitParameter?(item: Parameter): T;
     visitStatement?(item: Statement): T;
+    visitReturnStatement?(item: ReturnStatement): T;
+    visitImportStatement?(item: ImportStatement): T;
+    visitImportedName?(item: ImportedName): T;
     visitAssignment?(item: Assignment): T;
     visitExpression?(item: Expression): T;
     visitVariableReference?(item: VariableReference): T;
     visitMethodReference?(item: MethodReference): T;
+    visitKeywordArgument?(item: KeywordArgument): T;
     visitArrayReference?(item: ArrayReference): T;
     visitInteger?(item: Integer): T;
     visitFloat?(item: Float): T;
@@ -63,6 +72,111 @@ export class CodeBlock extends Block {
     }
 }
 
+/** The visitors without specific support for the definitions visit them as their body block. */
+export class FunctionDefinition extends Block {
+    name: string;
+    parameters: Parameter[] = [];
+    /** Type written after `->`, null when it is not annotated. */
+    returnAnnotation: string;
+    decorators: string[] = [];
+
+    constructor(
+        name: string,
+        parameters: Parameter[],
+        returnAnnotation: string,
+        decorators: string[],
+        body: Block[],
+        start: Position,
+        end: Position
+    ) {
+        super(body);
+
+        this.name = name;
+        this.parameters = parameters;
+        this.returnAnnotation = returnAnnotation;
+        this.decorators = decorators;
+        this.start = start;
+        this.end = end;
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitFunctionDefinition) {
+            return visitor.visitFunctionDefinition(this);
+        }
+        if (visitor.visitCodeBlock) {
+            return visitor.visitCodeBlock(this);
+        }
+        return visitor.defaultValue();
+    }
+
+    toString(): string {
+        return `Function(${this.name}(${this.parameters.join(', ')}), ${this.childs.join(', ')})`;
+    }
+}
+
+export class ClassDefinition extends Block {
+    name: string;
+    bases: string[] = [];
+
+    constructor(name: string, bases: string[], body: Block[], start: Position, end: Position) {
+        super(body);
+
+        this.name = name;
+        this.bases = bases;
+        this.start = start;
+        this.end = end;
+    }
+
+    /** The functions defined at the body of the class. */
+    methods(): FunctionDefinition[] {
+        return this.childs.filter(child => child instanceof FunctionDefinition) as FunctionDefinition[];
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitClassDefinition) {
+            return visitor.visitClassDefinition(this);
+        }
+        if (visitor.visitCodeBlock) {
+            return visitor.visitCodeBlock(this);
+        }
+        return visitor.defaultValue();
+    }
+
+    toString(): string {
+        return `Class(${this.name}, ${this.childs.join(', ')})`;
+    }
+}
+
+export class Parameter extends VisitableItem {
+    name: string;
+    /** Type written after `:`, null when it is not annotated. */
+    annotation: string;
+    /** Value used when the argument is not given, null for the required ones. */
+    defaultValue: VisitableItem = null;
+    kind: ArgumentKind;
+
+    constructor(name: string, annotation: string, kind: ArgumentKind, start: Position, end: Position) {
+        super();
+
+        this.name = name;
+        this.annotation = annotation;
+        this.kind = kind;
+        this.start = start;
+        this.end = end;
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitParameter) {
+            return visitor.visitParameter(this);
+        }
+        return visitor.defaultValue();
+    }
+
+    toString(): string {
+        return this.defaultValue ? `${this.name}=${this.defaultValue}` : this.name;
+    }
+}
+
 export class Statement extends Block {
     expression: VisitableItem;
 
@@ -88,6 +202,89 @@ export class Statement extends Block {
     }
 }
 
+/** The visitors without specific support for the returns visit them as statements. */
+export class ReturnStatement extends Statement {
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitReturnStatement) {
+            return visitor.visitReturnStatement(this);
+        }
+        return super.accept(visitor);
+    }
+
+    toString(): string {
+        return `Return(${this.expression})`;
+    }
+}
+
+/** Both `import module as alias` and `from module import name as alias`, a statement without expression. */
+export class ImportStatement extends Statement {
+    /** Module of `from module import names`, null at `import modules` where the names are the modules. */
+    module: string;
+    /** Number of leading dots of the relative imports, as in `from ..module import name`. */
+    level = 0;
+    names: ImportedName[] = [];
+    /** The statement is `from module import *`. */
+    importsAll = false;
+
+    constructor(
+        module: string,
+        level: number,
+        names: ImportedName[],
+        importsAll: boolean,
+        start: Position,
+        end: Position
+    ) {
+        super(null);
+
+        this.module = module;
+        this.level = level;
+        this.names = names;
+        this.importsAll = importsAll;
+        this.start = start;
+        this.end = end;
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitImportStatement) {
+            return visitor.visitImportStatement(this);
+        }
+        return visitor.defaultValue();
+    }
+
+    toString(): string {
+        let names = this.importsAll ? '*' : this.names.join(', ');
+
+        return this.module === null ? `Import(${names})` : `From(${'.'.repeat(this.level)}${this.module}, ${names})`;
+    }
+}
+
+export class ImportedName extends VisitableItem {
+    /** Dotted name of the imported module or name of the imported symbol. */
+    name: string;
+    /** Name given with `as`, null when it is imported with its own name. */
+    alias: string;
+
+    constructor(name: string, alias: string, start: Position, end: Position) {
+        super();
+
+        this.name = name;
+        this.alias = alias;
+        this.start = start;
+        this.end = end;
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitImportedName) {
+            return visitor.visitImportedName(this);
+        }
+        return visitor.defaultValue();
+    }
+
+    toString(): string {
+        return this.alias === null ? this.name : `${this.name} as ${this.alias}`;
+    }
+}
+
 export class Assignment extends VisitableItem {
     left: VisitableItem;
     right: VisitableItem;
@@ -169,13 +366,27 @@ export class VariableReference extends VisitableItem {
 
 export class MethodReference extends VisitableItem {
     name: string;
+    /** Arguments given by their position. */
     args: VisitableItem[] = [];
-
-    constructor(name: string, args: VisitableItem[], start: Position, end: Position) {
+    /** Arguments given by their name, after the positional ones. */
+    keywordArgs: KeywordArgument[] = [];
+    /** Some arguments are unpacked from a list or a dictionary with `*` or `**`, so they are not known. */
+    unpacksArguments = false;
+
+    constructor(
+        name: string,
+        args: VisitableItem[],
+        start: Position,
+        end: Position,
+        keywordArgs: KeywordArgument[] = [],
+        unpacksArguments = false
+    ) {
         super();
 
         this.name = name;
         this.args = args;
+        this.keywordArgs = keywordArgs;
+        this.unpacksArguments = unpacksArguments;
         this.start = start;
         this.end = end;
     }
@@ -188,7 +399,32 @@ export class MethodReference extends VisitableItem {
     }
 
     toString(): string {
-        return `Method(${this.name}(${this.args.join(', ')}))`;
+        return `Method(${this.name}(${this.args.concat(this.keywordArgs).join(', ')}))`;
+    }
+}
+
+export class KeywordArgument extends VisitableItem {
+    name: string;
+    value: VisitableItem;
+
+    constructor(name: string, value: VisitableItem, start: Position, end: Position) {
+        super();
+
+        this.name = name;
+        this.value = value;
+        this.start = start;
+        this.end = end;
+    }
+
+    accept<T>(visitor: Visitor<T>): T {
+        if (visitor.visitKeywordArgument) {
+            return visitor.visitKeywordArgument(this);
+        }
+        return visitor.defaultValue();
+    }
+
+    toString(): string {
+        return `${this.name}=${this.value}`;
     }
 }
 
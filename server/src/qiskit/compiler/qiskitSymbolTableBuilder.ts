@@ -10,15 +10,35 @@
 'use strict';
 
 import { Scope } from '../../compiler/scope';
-import { QiskitSymbols, ArgumentSymbol, MethodSymbol, ClassSymbol } from './symbols';
-import { QiskitSDK, QiskitMethod, QiskitArgument } from '../libs/qiskitSDK';
+import { QiskitSymbols, ArgumentSymbol, MethodSymbol, ClassSymbol, ArgumentKind, UnionTypeSymbol } from './symbols';
+import { QiskitSDK, QiskitCatalog, QiskitMethod, QiskitArgument } from '../libs/qiskitSDK';
 import { SymbolTable } from '../../compiler/types';
-import { BuiltInTypeSymbol } from '../../compiler/symbols';
+import { BuiltInTypeSymbol, Type } from '../../compiler/symbols';
 import { MultiScopeSymbolTable } from '../../compiler/multiScopeSymbolTable';
 
+const UNION_SEPARATOR = '|';
+
 export namespace QiskitSymbolTableBuilder {
-    export function create(): SymbolTable {
-        let scope = new Scope(null, 'global');
+    /**
+     * The built-in scope is shared by the symbol tables of the same catalog, so the modules importing each
+     * other see the same Qiskit classes.
+     */
+    let builtIns: { catalog: QiskitCatalog; scope: Scope } = null;
+
+    /**
+     * Creates a global scope over the built-in types and the classes and functions of the catalog, the active
+     * one by default.
+     */
+    export function create(catalog: QiskitCatalog = QiskitSDK.catalog()): SymbolTable {
+        if (builtIns === null || builtIns.catalog !== catalog) {
+            builtIns = { catalog, scope: builtInScopeFor(catalog) };
+        }
+
+        return new MultiScopeSymbolTable(new Scope(builtIns.scope, 'global'));
+    }
+
+    function builtInScopeFor(catalog: QiskitCatalog): Scope {
+        let scope = new Scope(null, 'builtins');
 
         scope.define(new BuiltInTypeSymbol(QiskitSymbols.void), 0);
         scope.define(new BuiltInTypeSymbol(QiskitSymbols.object), 0);
@@ -28,14 +48,15 @@ export namespace QiskitSymbolTableBuilder {
         scope.define(new BuiltInTypeSymbol(QiskitSymbols.dictionary), 0);
         scope.define(new BuiltInTypeSymbol(QiskitSymbols.qbitPol), 0);
         scope.define(new BuiltInTypeSymbol(QiskitSymbols.class), 0);
+        scope.define(new BuiltInTypeSymbol(QiskitSymbols.module), 0);
 
-        loadQiskitSymbolsAt(scope);
+        loadQiskitSymbolsAt(scope, catalog);
 
-        return new MultiScopeSymbolTable(scope);
+        return scope;
     }
 
-    function loadQiskitSymbolsAt(scope: Scope): void {
-        QiskitSDK.classes().forEach(qclass => {
+    function loadQiskitSymbolsAt(scope: Scope, catalog: QiskitCatalog): void {
+        catalog.classes.forEach(qclass => {
             let type = scope.lookup(QiskitSymbols.class);
             let args: ArgumentSymbol[] = getArgumentsSymbols(qclass.arguments, scope);
             let methods: MethodSymbol[] = getMethodsSymbols(qclass.methods, scope);
@@ -43,6 +64,10 @@ export namespace QiskitSymbolTableBuilder {
 
             scope.define(classSymbol, 0);
         });
+
+        getMethodsSymbols(catalog.functions || [], scope)
+            .filter(functionSymbol => scope.lookup(functionSymbol.name) === null)
+            .forEach(functionSymbol => scope.define(functionSymbol, 0));
     }
 
     function getMethodsSymbols(qmethods: QiskitMethod[], scope: Scope): MethodSymbol[] {
@@ -59,10 +84,43 @@ export namespace QiskitSymbolTableBuilder {
             return [];
         }
 
+        // the arguments declared after *args can only be given by their name
+        let afterVariadic = false;
+
         return qarguments.map(qargument => {
-            let type = scope.lookup(qargument.type) || scope.lookup(QiskitSymbols.void);
+            let type = argumentTypeOf(qargument, scope);
+            let kind = kindOf(qargument, afterVariadic);
+            afterVariadic = afterVariadic || kind === ArgumentKind.VariadicPositional;
 
-            return new ArgumentSymbol(qargument.name, type, qargument.optional);
+            return new ArgumentSymbol(qargument.name.replace(/^\*+/, ''), type, qargument.optional, kind);
         });
     }
+
+    /**
+     * The catalogs write the arguments accepting several types as `QuantumRegister|ClassicalRegister`, the
+     * unknown types are not checked.
+     */
+    function argumentTypeOf(qargument: QiskitArgument, scope: Scope): Type {
+        let types = qargument.type.split(UNION_SEPARATOR).map(typeName => scope.lookup(typeName));
+        if (types.some(type => type === null)) {
+            return scope.lookup(QiskitSymbols.void);
+        }
+
+        return types.length > 1 ? new UnionTypeSymbol(types) : types[0];
+    }
+
+    /** The catalogs name the variadic arguments as in Python, `*args` and `**kwargs`. */
+    function kindOf(qargument: QiskitArgument, afterVariadic: boolean): ArgumentKind {
+        if (qargument.name.startsWith('**')) {
+            return ArgumentKind.VariadicKeyword;
+        }
+        if (qargument.name.startsWith('*')) {
+            return ArgumentKind.VariadicPositional;
+        }
+        if (qargument.keywordOnly || afterVariadic) {
+            return ArgumentKind.KeywordOnly;
+        }
+
+        return ArgumentKind.Positional;
+    }
 }
@@ -16,6 +16,11 @@ export class ClassSymbol extends Symbol {
         super(name, type);
     }
 
+    /** The Python signature of the instantiation, as `QuantumRegister(size, name=...)`. */
+    signature(): string {
+        return signatureOf(this.name, this.requiredArguments);
+    }
+
     toString() {
         return `{ name: ${this.name}, type: ${this.type.getName()} }`;
     }
@@ -33,16 +38,37 @@ export class MethodSymbol extends Symbol {
         return this.arguments;
     }
 
+    /** The Python signature of the call, as `cu3(theta, phi, lam, ctl, tgt)`. */
+    signature(): string {
+        return signatureOf(this.name, this.arguments);
+    }
+
     toString() {
         return `{ name: ${this.name}, type: ${this.type.getName()}, arguments: ${this.arguments} }`;
     }
 }
 
 export class ArgumentSymbol extends Symbol {
-    constructor(name: string, type: Type, public optional = false) {
+    constructor(name: string, type: Type, public optional = false, public kind = ArgumentKind.Positional) {
         super(name, type);
     }
 
+    isVariadic(): boolean {
+        return this.kind === ArgumentKind.VariadicPositional || this.kind === ArgumentKind.VariadicKeyword;
+    }
+
+    /** The argument as it is declared, the default values are not known so they are written as an ellipsis. */
+    label(): string {
+        if (this.kind === ArgumentKind.VariadicPositional) {
+            return `*${this.name}`;
+        }
+        if (this.kind === ArgumentKind.VariadicKeyword) {
+            return `**${this.name}`;
+        }
+
+        return this.optional ? `${this.name}=...` : this.name;
+    }
+
     toString() {
         if (this.type === null) {
             return `{ name: ${this.name}, type: NULL }`;
@@ -52,6 +78,17 @@ export class ArgumentSymbol extends Symbol {
     }
 }
 
+/** Type of the arguments accepting values of any of several types, written `QuantumRegister|ClassicalRegister`. */
+export class UnionTypeSymbol extends Symbol implements Type {
+    constructor(public types: Type[]) {
+        super(types.map(type => type.getName()).join('|'), null);
+    }
+
+    toString(): string {
+        return `{ name: ${this.getName()} }`;
+    }
+}
+
 export class VariableSymbol extends Symbol {
     metadata: VariableMetadata = null;
 
@@ -80,6 +117,32 @@ export class VariableSymbol extends Symbol {
     }
 }
 
+/** A module bound by an import, its classes, functions and variables are reached as its attributes. */
+export class ModuleSymbol extends Symbol {
+    constructor(name: string, type: Type, public symbols: Map<string, Symbol>) {
+        super(name, type);
+    }
+
+    lookup(symbolName: string): Symbol {
+        return this.symbols.get(symbolName) || null;
+    }
+
+    toString() {
+        return `{ name: ${this.name}, type: module }`;
+    }
+}
+
+export enum ArgumentKind {
+    /** Given by its position or by its name. */
+    Positional = 'positional',
+    /** Declared after a variadic positional argument, only given by its name. */
+    KeywordOnly = 'keywordOnly',
+    /** Declared as `*args`, takes the remaining positional arguments. */
+    VariadicPositional = 'variadicPositional',
+    /** Declared as `**kwargs`, takes the remaining keyword arguments. */
+    VariadicKeyword = 'variadicKeyword'
+}
+
 export interface VariableMetadata {
     name?: string;
     size?: number;
@@ -93,5 +156,10 @@ export enum QiskitSymbols {
     boolean = 'boolean',
     dictionary = 'dict',
     qbitPol = 'qubit_pol',
-    class = 'class'
+    class = 'class',
+    module = 'module'
+}
+
+function signatureOf(name: string, signatureArguments: ArgumentSymbol[]): string {
+    return `${name}(${signatureArguments.map(argument => argument.label()).join(', ')})`;
 }
@@ -13,4 +13,28 @@ export namespace ErrorMessages {
     export function notPreviouslyImported(expectedImport: string): string {
         return `${expectedImport} must be previously imported.`;
     }
+
+    export function notDefinedInModule(name: string, module: string): string {
+        return `${name} is not defined at ${module}.`;
+    }
+
+    export function missingArguments(method: string, missing: string[]): string {
+        return `Missing ${pluralOf('argument', missing.length)} ${missing.join(', ')} of ${method}.`;
+    }
+
+    export function exceedingArguments(method: string, maximum: number, received: number): string {
+        return `${method} takes ${maximum} positional ${pluralOf('argument', maximum)} but ${received} received.`;
+    }
+
+    export function unknownKeywordArgument(method: string, keyword: string): string {
+        return `${method} does not have an argument named ${keyword}.`;
+    }
+
+    export function duplicatedArgument(method: string, keyword: string): string {
+        return `Argument ${keyword} of ${method} is given more than once.`;
+    }
+
+    function pluralOf(word: string, count: number): string {
+        return count === 1 ? word : `${word}s`;
+    }
 }
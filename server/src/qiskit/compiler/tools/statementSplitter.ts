@@ -0,0 +1,166 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ANTLRInputStream, Token } from 'antlr4ts';
+import { Python3Lexer } from '../../antlr/Python3Lexer';
+import { Python3Parser } from '../../antlr/Python3Parser';
+
+/** Clauses continuing the compound statement before them, which cannot be parsed on their own. */
+const CONTINUATION_KEYWORDS = [Python3Lexer.ELSE, Python3Lexer.ELIF, Python3Lexer.EXCEPT, Python3Lexer.FINALLY];
+
+const LAYOUT_TOKENS = [Python3Parser.NEWLINE, Python3Parser.INDENT, Python3Parser.DEDENT];
+
+const OPENING_BRACKETS = [Python3Lexer.OPEN_PAREN, Python3Lexer.OPEN_BRACK, Python3Lexer.OPEN_BRACE];
+
+const CLOSING_BRACKETS = [Python3Lexer.CLOSE_PAREN, Python3Lexer.CLOSE_BRACK, Python3Lexer.CLOSE_BRACE];
+
+const QUOTES = ['"', "'"];
+
+/** Code of a top-level statement, followed by the blank lines and comments before the next one. */
+export interface TopLevelStatement {
+    text: string;
+    /** Line where the statement starts, counting from 1 as the lexer does. */
+    line: number;
+}
+
+export namespace StatementSplitter {
+    /**
+     * Splits the code before every statement starting a line without indentation, so each part can be parsed
+     * on its own. The lexer closes the brackets and the indented blocks before those statements, so the parts
+     * give the same parse trees as the whole code. The clauses as `else` and the definitions following their
+     * decorators are kept with the statement they continue. The code is not split anymore after a compound
+     * statement without indented block, as the parser takes the rest of the code as its block, after a closing
+     * bracket without opening one, as the lexer counts it for the rest of the code, nor after a string without
+     * closing quotes, as the quotes of the code after it can close it.
+     */
+    export function split(input: string): TopLevelStatement[] {
+        return partsOf(input, 1, startsIn(input, () => false));
+    }
+
+    /**
+     * Splits a new version of the code reusing the split of the previous one for the statements before and after
+     * the change. The code is split again from the last statement kept before the change, which the change can
+     * continue, until the start of a statement kept after it, as the code from there is split as before.
+     */
+    export function splitChanged(previous: TopLevelStatement[], input: string): TopLevelStatement[] {
+        let kept = 0;
+        let keptEnd = 0;
+        while (kept < previous.length && input.startsWith(previous[kept].text, keptEnd)) {
+            keptEnd += previous[kept].text.length;
+            kept++;
+        }
+        if (kept === previous.length && keptEnd === input.length) {
+            return previous;
+        }
+
+        let first = Math.max(0, kept - 1);
+        let start = kept > 0 ? keptEnd - previous[first].text.length : 0;
+        let line = kept > 0 ? previous[first].line : 1;
+
+        let keptAfter: Map<number, number> = new Map();
+        let afterStart = input.length;
+        for (let index = previous.length - 1; index >= kept; index--) {
+            let text = previous[index].text;
+            if (afterStart - text.length < keptEnd || input.substring(afterStart - text.length, afterStart) !== text) {
+                break;
+            }
+            afterStart -= text.length;
+            keptAfter.set(afterStart - start, index);
+        }
+
+        let code = input.substring(start);
+        let starts = startsIn(code, offset => keptAfter.has(offset));
+        let stop = starts.length > 0 ? starts[starts.length - 1] : null;
+        if (stop === null || !keptAfter.has(stop.offset)) {
+            return previous.slice(0, first).concat(partsOf(code, line, starts));
+        }
+
+        let next = keptAfter.get(stop.offset);
+        let shift = line + stop.line - 1 - previous[next].line;
+        let parts = partsOf(code.substring(0, stop.offset), line, starts.slice(0, -1));
+
+        return previous
+            .slice(0, first)
+            .concat(parts)
+            .concat(previous.slice(next).map(statement => ({ text: statement.text, line: statement.line + shift })));
+    }
+}
+
+/** Start of a part of the code, with its line counting from the beginning of the code. */
+interface PartStart {
+    offset: number;
+    line: number;
+}
+
+/**
+ * Starts of the parts after the first one, which begins with the code. The lexer stops at the first start
+ * accepted by the given function, so the rest of the code is not read.
+ */
+function startsIn(code: string, stopsAt: (offset: number) => boolean): PartStart[] {
+    let lexer = new Python3Lexer(new ANTLRInputStream(code));
+    lexer.removeErrorListeners();
+
+    let starts: PartStart[] = [];
+    let beforePrevious: Token;
+    let previous: Token;
+    let previousLineStart: Token;
+    let openedBrackets = 0;
+    let joinsRest = false;
+
+    for (let token = lexer.nextToken(); token.type !== Token.EOF; token = lexer.nextToken()) {
+        if (OPENING_BRACKETS.indexOf(token.type) > -1) {
+            openedBrackets++;
+        } else if (CLOSING_BRACKETS.indexOf(token.type) > -1) {
+            openedBrackets--;
+        }
+        let unclosedString = token.type === Python3Lexer.UNKNOWN_CHAR && QUOTES.indexOf(token.text) > -1;
+        joinsRest = joinsRest || openedBrackets < 0 || unclosedString;
+
+        if (startsLine(token, previous)) {
+            joinsRest = joinsRest || (beforePrevious !== undefined && beforePrevious.type === Python3Lexer.COLON);
+            if (!joinsRest && !continues(token, previousLineStart) && token.startIndex > 0) {
+                starts.push({ offset: token.startIndex, line: token.line });
+                if (stopsAt(token.startIndex)) {
+                    break;
+                }
+            }
+            previousLineStart = token;
+        }
+        beforePrevious = previous;
+        previous = token;
+    }
+
+    return starts;
+}
+
+function partsOf(code: string, line: number, starts: PartStart[]): TopLevelStatement[] {
+    let offsets = [0].concat(starts.map(start => start.offset));
+    let lines = [1].concat(starts.map(start => start.line));
+
+    return offsets.map((offset, index) => ({
+        text: code.substring(offset, index + 1 < offsets.length ? offsets[index + 1] : code.length),
+        line: line + lines[index] - 1
+    }));
+}
+
+/** The lexer emits a NEWLINE at the end of the statements, and a DEDENT when their indented block ends. */
+function startsLine(token: Token, previous: Token): boolean {
+    let afterStatement =
+        previous === undefined || previous.type === Python3Parser.NEWLINE || previous.type === Python3Parser.DEDENT;
+
+    return token.charPositionInLine === 0 && LAYOUT_TOKENS.indexOf(token.type) === -1 && afterStatement;
+}
+
+function continues(token: Token, previousLineStart: Token): boolean {
+    let afterDecorator = previousLineStart !== undefined && previousLineStart.type === Python3Lexer.AT;
+
+    return afterDecorator || CONTINUATION_KEYWORDS.indexOf(token.type) > -1;
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QiskitSDK, QiskitClass, QiskitMethod } from '../../libs/qiskitSDK';
+import { QiskitSymbolTableBuilder } from '../qiskitSymbolTableBuilder';
+import { ClassSymbol, MethodSymbol, ModuleSymbol } from '../symbols';
+import { SymbolTable } from '../../../compiler/types';
+import { Symbol } from '../../../compiler/symbols';
+
+export interface LocatedSymbol {
+    symbol: Symbol;
+    /** The class or the module the symbol is reached through, null when it is reached by its name. */
+    owner: Symbol;
+}
+
+export namespace SymbolLocator {
+    /**
+     * The symbol reached by the names of an attribute reference, as `qc.cu3`, null when any of them is not known.
+     * The definitions at the given line are visible, so a variable is found where it is assigned.
+     */
+    export function symbolFor(names: string[], symbolTable: SymbolTable, line: number): LocatedSymbol {
+        let symbol = symbolTable.lookup(names[0], line + 1) || symbolTable.lookup(names[0]);
+        let located: LocatedSymbol = symbol !== null ? { symbol, owner: null } : null;
+
+        names.slice(1).forEach(name => {
+            located = located !== null ? attributeOf(located.symbol, name) : null;
+        });
+
+        return located;
+    }
+
+    /** The entry of the catalog describing the symbol, null for the symbols defined by the code. */
+    export function catalogEntryFor(located: LocatedSymbol): QiskitClass | QiskitMethod {
+        if (located.owner instanceof ClassSymbol) {
+            let ownerClass = isFromCatalog(located.owner) ? classEntryFor(located.owner.name) : null;
+
+            return ownerClass !== null
+                ? ownerClass.methods.find(method => method.name === located.symbol.name) || null
+                : null;
+        }
+
+        if (!isFromCatalog(located.symbol)) {
+            return null;
+        }
+        if (located.symbol instanceof ClassSymbol) {
+            return classEntryFor(located.symbol.name);
+        }
+        if (located.symbol instanceof MethodSymbol) {
+            return QiskitSDK.functions().find(qfunction => qfunction.name === located.symbol.name) || null;
+        }
+
+        return null;
+    }
+
+    /** The attributes of the modules, the methods of the classes and the methods of the class of the variables. */
+    function attributeOf(symbol: Symbol, name: string): LocatedSymbol {
+        let owner = symbol instanceof ModuleSymbol || symbol instanceof ClassSymbol ? symbol : symbol.type;
+
+        let attribute: Symbol = null;
+        if (owner instanceof ModuleSymbol) {
+            attribute = owner.lookup(name);
+        } else if (owner instanceof ClassSymbol) {
+            attribute = owner.methods.find(method => method.name === name) || null;
+        }
+
+        return attribute !== null ? { symbol: attribute, owner: owner as Symbol } : null;
+    }
+
+    /** The catalog symbols are the ones of the built-in scope, the code may define others with the same names. */
+    function isFromCatalog(symbol: Symbol): boolean {
+        return QiskitSymbolTableBuilder.create().lookup(symbol.name) === symbol;
+    }
+
+    function classEntryFor(name: string): QiskitClass {
+        return QiskitSDK.classes().find(qclass => qclass.name === name) || null;
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ANTLRInputStream, Token } from 'antlr4ts';
+import { Position } from 'vscode-languageserver/lib/main';
+import { Python3Lexer } from '../../antlr/Python3Lexer';
+
+export namespace TokenLocator {
+    /** The tokens of the code, a NEWLINE is only found at the end of a statement, never inside the brackets. */
+    export function tokensOf(input: string): Token[] {
+        let lexer = new Python3Lexer(new ANTLRInputStream(input));
+        lexer.removeErrorListeners();
+
+        return lexer.getAllTokens();
+    }
+
+    /** Index of the name placed at the position, or ending at it, -1 when there is no name there. */
+    export function nameAt(tokens: Token[], position: Position): number {
+        return tokens.findIndex(
+            token =>
+                token.type === Python3Lexer.NAME &&
+                token.line - 1 === position.line &&
+                token.charPositionInLine <= position.character &&
+                position.character <= token.charPositionInLine + token.text.length
+        );
+    }
+
+    /** The names of the attribute reference ending at the name of the index, as ['qc', 'cu3'] for `qc.cu3`. */
+    export function attributeNamesAt(tokens: Token[], index: number): string[] {
+        let dot = index - 1;
+        let owner = dot - 1;
+        if (owner >= 0 && tokens[dot].type === Python3Lexer.DOT && tokens[owner].type === Python3Lexer.NAME) {
+            return attributeNamesAt(tokens, owner).concat(tokens[index].text);
+        }
+
+        return [tokens[index].text];
+    }
+}
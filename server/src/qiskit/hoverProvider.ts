@@ -0,0 +1,110 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Hover, MarkedString, Position } from 'vscode-languageserver/lib/main';
+import { TokenLocator } from './compiler/tools/tokenLocator';
+import { SymbolLocator, LocatedSymbol } from './compiler/tools/symbolLocator';
+import { ClassSymbol, MethodSymbol, VariableSymbol, ModuleSymbol, QiskitSymbols } from './compiler/symbols';
+import { QiskitParser } from './parser';
+import { Parser } from '../types';
+
+const PYTHON_LANGUAGE = 'python';
+
+/**
+ * Describes the name placed at the position: the classes and methods with their signature and the documentation
+ * of the catalog, and the variables with the type and the arguments they are built with. The symbols are the ones
+ * of the given parser, so the result of the validation of the document is reused.
+ */
+export class QiskitHoverProvider {
+    constructor(private parser: Parser = new QiskitParser()) {}
+
+    hoverFor(input: string, position: Position, uri?: string): Hover {
+        let tokens = TokenLocator.tokensOf(input);
+        let index = TokenLocator.nameAt(tokens, position);
+        if (index === -1) {
+            return null;
+        }
+
+        let token = tokens[index];
+        let symbolTable = this.parser.parse(input, uri).symbolTable;
+        let located = SymbolLocator.symbolFor(TokenLocator.attributeNamesAt(tokens, index), symbolTable, position.line);
+        let contents = located !== null ? this.contentsOf(located) : null;
+        if (contents === null) {
+            return null;
+        }
+
+        return {
+            contents,
+            range: {
+                start: { line: token.line - 1, character: token.charPositionInLine },
+                end: { line: token.line - 1, character: token.charPositionInLine + token.text.length }
+            }
+        };
+    }
+
+    private contentsOf(located: LocatedSymbol): MarkedString[] {
+        let symbol = located.symbol;
+        if (symbol instanceof ClassSymbol) {
+            return this.documented(`class ${symbol.signature()}`, located);
+        }
+        if (symbol instanceof MethodSymbol) {
+            let owner = located.owner instanceof ClassSymbol ? `${located.owner.name}.` : '';
+            let returned = this.isKnownType(symbol) ? ` -> ${symbol.type.getName()}` : '';
+
+            return this.documented(`def ${owner}${symbol.signature()}${returned}`, located);
+        }
+        if (symbol instanceof VariableSymbol) {
+            return this.variableContents(symbol);
+        }
+        if (symbol instanceof ModuleSymbol) {
+            return [{ language: PYTHON_LANGUAGE, value: `module ${symbol.name}` }];
+        }
+
+        return null;
+    }
+
+    /** The arguments the variable is built with are shown after its type, as `q: QuantumRegister(size=3)`. */
+    private variableContents(variable: VariableSymbol): MarkedString[] {
+        if (!this.isKnownType(variable)) {
+            return null;
+        }
+
+        let metadata = variable.metadata || {};
+        let values: string[] = [];
+        if (metadata.size !== undefined && metadata.size !== null) {
+            values.push(`size=${metadata.size}`);
+        }
+        if (metadata.name !== undefined && metadata.name !== null) {
+            values.push(`name=${metadata.name}`);
+        }
+        let built = values.length > 0 ? `(${values.join(', ')})` : '';
+
+        return [{ language: PYTHON_LANGUAGE, value: `${variable.name}: ${variable.type.getName()}${built}` }];
+    }
+
+    private documented(declaration: string, located: LocatedSymbol): MarkedString[] {
+        let contents: MarkedString[] = [{ language: PYTHON_LANGUAGE, value: declaration }];
+
+        let entry = SymbolLocator.catalogEntryFor(located);
+        let description = entry !== null ? entry.documentation || entry.detail : null;
+        if (description) {
+            contents.push(description);
+        }
+
+        return contents;
+    }
+
+    private isKnownType(symbol: MethodSymbol | VariableSymbol): boolean {
+        let typeName = symbol.type !== null ? symbol.type.getName() : QiskitSymbols.void;
+
+        return typeName !== QiskitSymbols.void && typeName !== QiskitSymbols.object;
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+import { QiskitSDK, QiskitCatalog } from './qiskitSDK';
+
+export namespace QiskitCatalogLoader {
+    /** File where the catalog of a Qiskit version is generated. */
+    export function fileFor(version: string, folder: string): string {
+        return path.join(folder, `qiskit-${version}.json`);
+    }
+
+    /**
+     * Reads the catalog generated for the installed version of Qiskit, falling back to the bundled one
+     * when it is not generated yet or it cannot be read.
+     */
+    export function catalogFor(version: string, folder: string): QiskitCatalog {
+        if (!version || !folder) {
+            return QiskitSDK.bundled();
+        }
+
+        let content: any;
+        try {
+            content = JSON.parse(fs.readFileSync(fileFor(version, folder), 'utf-8'));
+        } catch (error) {
+            return QiskitSDK.bundled();
+        }
+
+        return isCatalog(content) && content.version === version ? content : QiskitSDK.bundled();
+    }
+}
+
+function isCatalog(content: any): content is QiskitCatalog {
+    let isListOf = (value: any, isValid: (item: any) => boolean) => Array.isArray(value) && value.every(isValid);
+    let isNamed = (item: any) => item !== null && typeof item === 'object' && typeof item.name === 'string';
+    let isClass = (item: any) => isNamed(item) && isListOf(item.methods, isNamed);
+
+    return (
+        content !== null &&
+        typeof content === 'object' &&
+        typeof content.version === 'string' &&
+        isListOf(content.classes, isClass) &&
+        (content.functions === undefined || isListOf(content.functions, isNamed))
+    );
+}
@@ -0,0 +1,379 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import path = require('path');
+import fs = require('fs');
+import Uri from 'vscode-uri';
+import { ANTLRInputStream, CommonTokenStream } from 'antlr4ts';
+import { Python3Lexer } from '../antlr/Python3Lexer';
+import { Python3Parser } from '../antlr/Python3Parser';
+import { TreeFolder } from '../ast/treeFolder';
+import { SymbolTableGenerator } from '../ast/symbolTableGenerator';
+import { ImportStatement, ImportedName } from '../ast/types';
+import { ModuleSymbol, QiskitSymbols } from '../compiler/symbols';
+import { QiskitSymbolTableBuilder } from '../compiler/qiskitSymbolTableBuilder';
+import { Symbol } from '../../compiler/symbols';
+import { QiskitSDK, QiskitCatalog } from './qiskitSDK';
+
+const QISKIT_MODULE = 'qiskit';
+const PYTHON_EXTENSION = '.py';
+const PACKAGE_FILE = '__init__.py';
+
+export interface QiskitModule {
+    /** Dotted name the module is imported with. */
+    name: string;
+    /** File of the modules of the workspace, null for the Qiskit ones described by the catalog. */
+    file: string;
+    symbols: Map<string, Symbol>;
+    /** Every name defined by the module, null when they are not known. */
+    names: string[];
+}
+
+/**
+ * Analysis of a module of the workspace, valid until it or the modules it imports are invalidated
+ * and while the same catalog describes the Qiskit modules.
+ */
+interface AnalyzedModule {
+    /** Files of the module and of every module it imports, directly or indirectly. */
+    files: string[];
+    /** Search paths used to find the imported modules. */
+    searchPaths: string;
+    /** Catalog used to bind the names imported from Qiskit. */
+    catalog: QiskitCatalog;
+    symbols: Map<string, Symbol>;
+    names: string[];
+}
+
+export interface ImportBinding {
+    /** Symbols bound by the import, by the name they are bound to. */
+    bound: Map<string, Symbol>;
+    /** Names imported from a module which does not define them. */
+    missing: ImportedName[];
+    /** The import brings every name of a module whose names are not known. */
+    unknownNames: boolean;
+}
+
+/**
+ * Finds the modules imported by the Qiskit code. The Qiskit modules are described by the catalog, the other
+ * modules are Python files searched next to the importing file and then in the search paths.
+ */
+export class QiskitModuleResolver {
+    searchPaths: string[] = [];
+    private analyzedModules: Map<string, AnalyzedModule> = new Map();
+
+    /** The content of the open documents is used instead of the saved one, so unsaved changes are considered. */
+    constructor(private openDocumentContent: (file: string) => string = () => undefined) {}
+
+    /** The file of a module of the workspace, null when it is not found. */
+    resolve(moduleName: string, level: number, importingFile?: string): string {
+        let directories = this.directoriesFor(level, importingFile);
+        let modulePath = moduleName === '' ? [] : moduleName.split('.');
+
+        let candidates: string[] = [];
+        directories.forEach(directory => {
+            let base = path.join(directory, ...modulePath);
+            if (modulePath.length > 0) {
+                candidates.push(`${base}${PYTHON_EXTENSION}`);
+            }
+            candidates.push(path.join(base, PACKAGE_FILE));
+        });
+
+        let found = candidates.find(file => this.exists(file));
+
+        return found !== undefined ? found : null;
+    }
+
+    contentOf(file: string): string {
+        let content = this.openDocumentContent(file);
+
+        return content !== undefined ? content : fs.readFileSync(file, 'utf8');
+    }
+
+    /** The analysis kept for the module, null when it was invalidated or the search paths or the catalog changed. */
+    analyzedModule(file: string): AnalyzedModule {
+        let analyzed = this.analyzedModules.get(file);
+        if (
+            analyzed === undefined ||
+            analyzed.searchPaths !== this.searchPaths.join(path.delimiter) ||
+            analyzed.catalog !== QiskitSDK.catalog()
+        ) {
+            return null;
+        }
+
+        return analyzed;
+    }
+
+    /** Keeps the analysis of the module, so the next documents importing it do not parse it again. */
+    keepAnalysis(file: string, files: string[], symbols: Map<string, Symbol>, names: string[]) {
+        let searchPaths = this.searchPaths.join(path.delimiter);
+        this.analyzedModules.set(file, { files, searchPaths, catalog: QiskitSDK.catalog(), symbols, names });
+    }
+
+    /**
+     * Forgets the analysis of the modules depending on the changed file, or of every module when no file
+     * is given. Needed when the files change, and when they are created or deleted, as the imports can be
+     * found in other files then.
+     */
+    invalidate(file?: string) {
+        this.analyzedModules.forEach((analyzed, analyzedFile) => {
+            if (file === undefined || analyzed.files.indexOf(file) > -1) {
+                this.analyzedModules.delete(analyzedFile);
+            }
+        });
+    }
+
+    /** Creates the tracker used to follow the imports of a document, identified by its uri if it is saved. */
+    trackerFor(uri?: string): ImportTracker {
+        let documentFile = uri !== undefined && Uri.parse(uri).scheme === 'file' ? Uri.parse(uri).fsPath : undefined;
+
+        return new ImportTracker(this, documentFile);
+    }
+
+    /** The relative imports start at the package of the importing file, going up one package for each dot. */
+    private directoriesFor(level: number, importingFile?: string): string[] {
+        if (level === 0) {
+            return (importingFile ? [path.dirname(importingFile)] : []).concat(this.searchPaths);
+        }
+
+        if (!importingFile) {
+            return [];
+        }
+
+        let directory = path.dirname(importingFile);
+        for (let parentLevel = 1; parentLevel < level; parentLevel++) {
+            directory = path.dirname(directory);
+        }
+
+        return [directory];
+    }
+
+    private exists(file: string): boolean {
+        if (this.openDocumentContent(file) !== undefined) {
+            return true;
+        }
+
+        try {
+            return fs.statSync(file).isFile();
+        } catch (error) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Follows the imports while a document is analyzed. Every module is analyzed once, the imports of a module are
+ * resolved relative to it and a module importing back one being imported sees it without names. The analysis
+ * of the modules is kept by the resolver for the next documents, unless it depends on the module importing back.
+ */
+export class ImportTracker {
+    /** Every file of the workspace imported directly or indirectly by the document. */
+    files: string[] = [];
+    private modules: Map<string, QiskitModule> = new Map();
+    private stack: string[] = [];
+    /** Files with imports of every name of a module whose names are not known. */
+    private withUnknownNames: string[] = [];
+    /** Files imported directly or indirectly by every module of the workspace analyzed. */
+    private importedFiles: Map<string, string[]> = new Map();
+    /** Files seeing a module being imported without names, so their analysis cannot be kept. */
+    private incomplete: string[] = [];
+
+    constructor(private resolver: QiskitModuleResolver = new QiskitModuleResolver(), private documentFile?: string) {}
+
+    /** The imported module, null when it is neither a Qiskit module nor a module of the workspace. */
+    moduleFor(moduleName: string, level = 0): QiskitModule {
+        if (level === 0 && (moduleName === QISKIT_MODULE || moduleName.startsWith(`${QISKIT_MODULE}.`))) {
+            if (!this.modules.has(moduleName)) {
+                this.modules.set(moduleName, this.qiskitModule(moduleName));
+            }
+
+            return this.modules.get(moduleName);
+        }
+
+        let file = this.resolver.resolve(moduleName, level, this.importingFile());
+        if (file === null) {
+            return null;
+        }
+
+        if (file === this.documentFile || this.stack.indexOf(file) > -1) {
+            this.imported([file]);
+            this.stack.forEach(importingFile => this.incomplete.push(importingFile));
+
+            return { name: moduleName, file, symbols: new Map(), names: null };
+        }
+
+        this.imported([file]);
+        if (!this.modules.has(file)) {
+            this.modules.set(file, this.analyze(moduleName, file));
+        }
+        this.imported(this.importedFiles.get(file));
+
+        return this.modules.get(file);
+    }
+
+    /** Finds the symbols bound by the statement and the imported names the modules do not define. */
+    bind(statement: ImportStatement): ImportBinding {
+        let binding: ImportBinding = { bound: new Map(), missing: [], unknownNames: false };
+
+        if (statement.module === null) {
+            this.bindModules(statement, binding);
+        } else if (statement.importsAll) {
+            this.bindAll(statement, binding);
+        } else {
+            this.bindNames(statement, binding);
+        }
+
+        if (binding.unknownNames) {
+            this.withUnknownNames.push(this.importingFile());
+        }
+
+        return binding;
+    }
+
+    /** `import a.b` binds the package a while `import a.b as c` binds the module a.b. */
+    private bindModules(statement: ImportStatement, binding: ImportBinding) {
+        statement.names.forEach(imported => {
+            let moduleName = imported.alias === null ? imported.name.split('.')[0] : imported.name;
+            let module = this.moduleFor(moduleName);
+
+            if (module !== null) {
+                binding.bound.set(imported.alias || moduleName, this.moduleSymbolOf(module));
+            }
+        });
+    }
+
+    /** The names starting with an underscore are private to the module. */
+    private bindAll(statement: ImportStatement, binding: ImportBinding) {
+        let module = this.moduleFor(statement.module, statement.level);
+        if (module === null || module.names === null) {
+            binding.unknownNames = true;
+        }
+
+        if (module !== null) {
+            module.symbols.forEach((symbol, name) => {
+                if (!name.startsWith('_')) {
+                    binding.bound.set(name, symbol);
+                }
+            });
+        }
+    }
+
+    private bindNames(statement: ImportStatement, binding: ImportBinding) {
+        let module = this.moduleFor(statement.module, statement.level);
+
+        statement.names.forEach(imported => {
+            let symbol = this.importedSymbolOf(statement, module, imported.name);
+
+            if (symbol !== null) {
+                binding.bound.set(imported.alias || imported.name, symbol);
+            } else if (module !== null && module.names !== null && module.names.indexOf(imported.name) === -1) {
+                binding.missing.push(imported);
+            }
+        });
+    }
+
+    /** A symbol of the module or, as in `from package import module`, one of the modules of the package. */
+    private importedSymbolOf(statement: ImportStatement, module: QiskitModule, name: string): Symbol {
+        if (module !== null && module.symbols.has(name)) {
+            return module.symbols.get(name);
+        }
+
+        let submoduleName = statement.module === '' ? name : `${statement.module}.${name}`;
+        let submodule = this.moduleFor(submoduleName, statement.level);
+
+        return submodule !== null ? this.moduleSymbolOf(submodule) : null;
+    }
+
+    private moduleSymbolOf(module: QiskitModule): ModuleSymbol {
+        let moduleType = QiskitSymbolTableBuilder.create().lookup(QiskitSymbols.module);
+
+        return new ModuleSymbol(module.name, moduleType, module.symbols);
+    }
+
+    /**
+     * The modules inspected to generate the catalog are known. Their names are the ones the catalog lists
+     * for them or, when it does not list them, the names of the Qiskit classes and functions.
+     */
+    private qiskitModule(moduleName: string): QiskitModule {
+        let catalog = QiskitSDK.catalog();
+        if (moduleName !== QISKIT_MODULE && (catalog.modules || []).indexOf(moduleName) === -1) {
+            return null;
+        }
+
+        let names =
+            catalog.exports && catalog.exports[moduleName]
+                ? catalog.exports[moduleName]
+                : namesOf(catalog.classes).concat(namesOf(catalog.functions || []));
+        let symbols: Map<string, Symbol> = new Map();
+        QiskitSymbolTableBuilder.create(catalog)
+            .currentSymbols()
+            .filter(symbol => names.indexOf(symbol.name) > -1)
+            .forEach(symbol => symbols.set(symbol.name, symbol));
+
+        return { name: moduleName, file: null, symbols, names };
+    }
+
+    private analyze(moduleName: string, file: string): QiskitModule {
+        let analyzed = this.resolver.analyzedModule(file);
+        if (analyzed !== null) {
+            this.importedFiles.set(file, analyzed.files.filter(imported => imported !== file));
+
+            return { name: moduleName, file, symbols: analyzed.symbols, names: analyzed.names };
+        }
+
+        let content = this.resolver.contentOf(file);
+        this.importedFiles.set(file, []);
+        this.stack.push(file);
+        try {
+            let codeBlock = new TreeFolder().visit(parse(content));
+            let symbols = SymbolTableGenerator.moduleSymbolsFor(codeBlock, this);
+            let names = this.withUnknownNames.indexOf(file) > -1 ? null : Array.from(symbols.keys());
+            if (this.incomplete.indexOf(file) === -1) {
+                this.resolver.keepAnalysis(file, [file, ...this.importedFiles.get(file)], symbols, names);
+            }
+
+            return { name: moduleName, file, symbols, names };
+        } finally {
+            this.stack.pop();
+        }
+    }
+
+    /** Adds the files to the ones imported by the document and by the modules being analyzed. */
+    private imported(files: string[]) {
+        files.forEach(file => {
+            if (this.files.indexOf(file) === -1) {
+                this.files.push(file);
+            }
+            this.stack
+                .map(importingFile => this.importedFiles.get(importingFile))
+                .filter(importedFiles => importedFiles.indexOf(file) === -1)
+                .forEach(importedFiles => importedFiles.push(file));
+        });
+    }
+
+    private importingFile(): string {
+        return this.stack.length > 0 ? this.stack[this.stack.length - 1] : this.documentFile;
+    }
+}
+
+function namesOf(members: Array<{ name: string }>): string[] {
+    return members.map(member => member.name);
+}
+
+/** The errors of the imported modules are reported when they are open, not at the importing document. */
+function parse(content: string) {
+    let lexer = new Python3Lexer(new ANTLRInputStream(content));
+    lexer.removeErrorListeners();
+
+    let parser = new Python3Parser(new CommonTokenStream(lexer));
+    parser.removeErrorListeners();
+
+    return parser.program();
+}
@@ -7,11 +7,36 @@
  * the LICENSE.txt file in the root directory of this source tree.
  */
 
+/**
+ * Classes and functions of Qiskit known by the analysis. The bundled catalog is used until the one
+ * generated from the installed Qiskit is loaded.
+ */
 export namespace QiskitSDK {
-    const dictionary: any = require('./qiskitSDK.json');
+    const bundledCatalog: QiskitCatalog = require('./qiskitSDK.json');
+    let activeCatalog = bundledCatalog;
+
+    export function bundled(): QiskitCatalog {
+        return bundledCatalog;
+    }
+
+    export function use(catalog: QiskitCatalog) {
+        activeCatalog = catalog;
+    }
+
+    export function catalog(): QiskitCatalog {
+        return activeCatalog;
+    }
+
+    export function version(): string {
+        return activeCatalog.version;
+    }
 
     export function classes(): QiskitClass[] {
-        return dictionary.classes;
+        return activeCatalog.classes;
+    }
+
+    export function functions(): QiskitFunction[] {
+        return activeCatalog.functions || [];
     }
 
     export function containsClass(className: string): boolean {
@@ -19,8 +44,20 @@ export namespace QiskitSDK {
     }
 }
 
+export interface QiskitCatalog {
+    /** Version of Qiskit the catalog was generated from. */
+    version: string;
+    /** Modules inspected to generate the catalog. */
+    modules?: string[];
+    /** Every public name of each inspected module, including the ones which are neither classes nor functions. */
+    exports?: { [module: string]: string[] };
+    classes: QiskitClass[];
+    functions?: QiskitFunction[];
+}
+
 export interface QiskitClass {
     name: string;
+    module?: string;
     detail: string;
     documentation: string;
     arguments?: QiskitArgument[];
@@ -35,8 +72,16 @@ export interface QiskitMethod {
     arguments?: QiskitArgument[];
 }
 
+export interface QiskitFunction extends QiskitMethod {
+    module?: string;
+}
+
 export interface QiskitArgument {
     name: string;
     type: string;
     optional?: boolean;
+    /** Python representation of the default value of the optional arguments. */
+    default?: string;
+    /** The argument can only be given by its name. */
+    keywordOnly?: boolean;
 }
@@ -10,42 +10,91 @@
 'use strict';
 
 import { ANTLRInputStream, CommonTokenStream, ConsoleErrorListener } from 'antlr4ts';
-import { Parser, ParserResult } from '../types';
-import { Python3Parser } from './antlr/Python3Parser';
+import { IncrementalParser, ParserError, ParserResult } from '../types';
+import { Python3Parser, ProgramContext } from './antlr/Python3Parser';
 import { Python3Lexer } from './antlr/Python3Lexer';
 import { TreeFolder } from './ast/treeFolder';
 import { SymbolTableGenerator } from './ast/symbolTableGenerator';
 import { SemanticAnalyzer } from './ast/semanticAnalyzer';
 import { ImportsAnalyzer } from './ast/importsAnalyzer';
+import { Block, CodeBlock } from './ast/types';
+import { StatementSplitter, TopLevelStatement } from './compiler/tools/statementSplitter';
 import { ErrorListener } from '../tools/errorListener';
+import { QiskitModuleResolver } from './libs/moduleResolver';
+
+/** Top-level statement parsed on its own, which can be reused while neither its code nor its line change. */
+interface ParsedStatement extends TopLevelStatement {
+    tree: ProgramContext;
+    blocks: Block[];
+    syntaxErrors: ParserError[];
+}
+
+interface QiskitParserResult extends ParserResult {
+    statements: ParsedStatement[];
+}
+
+/**
+ * Parses every top-level statement on its own, so a new version of the code only parses again the statements
+ * which changed. The symbols, the imports and the semantics are always analyzed for the whole code, as any
+ * statement can change the meaning of the rest.
+ */
+export class QiskitParser implements IncrementalParser {
+    constructor(private moduleResolver = new QiskitModuleResolver()) {}
+
+    parse(input: string, uri?: string): ParserResult {
+        return this.reparse(input, null, uri);
+    }
+
+    reparse(input: string, previous: ParserResult, uri?: string): ParserResult {
+        let previousStatements = previous !== null ? (previous as QiskitParserResult).statements : [];
+        let parsedBefore: Map<string, ParsedStatement> = new Map();
+        previousStatements.forEach(statement => parsedBefore.set(keyOf(statement), statement));
+
+        let split =
+            previous !== null
+                ? StatementSplitter.splitChanged(previousStatements, input)
+                : StatementSplitter.split(input);
+        let statements = split.map(statement => parsedBefore.get(keyOf(statement)) || this.parseStatement(statement));
 
-export class QiskitParser implements Parser {
-    parse(input: string): ParserResult {
         let errorListener = new ErrorListener();
-        let parser = this.buildQiskitParser(input, errorListener);
+        statements.forEach(statement => statement.syntaxErrors.forEach(error => errorListener.addError(error)));
 
-        let tree = parser.program();
-        let folder = new TreeFolder();
-        let codeBlock = folder.visit(tree);
-        let symbolTable = SymbolTableGenerator.symbolTableFor(codeBlock);
+        let importTracker = this.moduleResolver.trackerFor(uri);
+        let codeBlock = new CodeBlock([].concat(...statements.map(statement => statement.blocks)));
+        let symbolTable = SymbolTableGenerator.symbolTableFor(codeBlock, importTracker);
         let errors = SemanticAnalyzer.analyze(codeBlock, symbolTable);
-        ImportsAnalyzer.analyze(tree, errorListener);
+        ImportsAnalyzer.analyze(statements.map(statement => statement.tree), errorListener, importTracker);
 
-        return {
-            ast: tree,
-            errors: errorListener.errors.concat(errors)
+        let result: QiskitParserResult = {
+            ast: codeBlock,
+            errors: errorListener.errors.concat(errors),
+            symbolTable,
+            dependencies: importTracker.files,
+            statements
         };
+
+        return result;
     }
 
-    private buildQiskitParser(input: string, errorListener: ErrorListener): Python3Parser {
-        let inputStream = new ANTLRInputStream(input);
+    /** The lexer starts at the line of the statement, so the positions are the ones in the whole code. */
+    private parseStatement(statement: TopLevelStatement): ParsedStatement {
+        let errorListener = new ErrorListener();
+        let inputStream = new ANTLRInputStream(statement.text);
         let lexer = new Python3Lexer(inputStream);
         lexer.removeErrorListener(ConsoleErrorListener.INSTANCE);
+        lexer.line = statement.line;
 
         let tokenStream = new CommonTokenStream(lexer);
         let parser = new Python3Parser(tokenStream);
         parser.addErrorListener(errorListener);
 
-        return parser;
+        let tree = parser.program();
+        let blocks = new TreeFolder().visit(tree).childs;
+
+        return { text: statement.text, line: statement.line, tree, blocks, syntaxErrors: errorListener.errors };
     }
 }
+
+function keyOf(statement: TopLevelStatement): string {
+    return `${statement.line}:${statement.text}`;
+}
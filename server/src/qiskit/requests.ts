@@ -0,0 +1,23 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { NotificationType } from 'vscode-languageserver/lib/main';
+
+export interface QiskitCatalogParams {
+    /** Version of the installed Qiskit. */
+    version: string;
+    /** Folder where the catalogs of the installed versions are generated. */
+    folder: string;
+}
+
+export namespace QiskitCatalogNotification {
+    export const type = new NotificationType<QiskitCatalogParams, void>('qiskit/catalog');
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Token } from 'antlr4ts';
+import { Position, SignatureHelp, SignatureInformation, ParameterInformation } from 'vscode-languageserver/lib/main';
+import { Python3Lexer } from './antlr/Python3Lexer';
+import { TokenLocator } from './compiler/tools/tokenLocator';
+import { SymbolLocator } from './compiler/tools/symbolLocator';
+import { ArgumentSymbol, ArgumentKind, ClassSymbol, MethodSymbol } from './compiler/symbols';
+import { QiskitParser } from './parser';
+import { Parser } from '../types';
+
+const OPENING_BRACKETS = ['(', '[', '{'];
+const CLOSING_BRACKETS = [')', ']', '}'];
+const DEFINITION_KEYWORDS = ['def', 'class'];
+
+interface Call {
+    /** Names of the attribute reference being called, as ['qc', 'cu3'] for `qc.cu3(`. */
+    callee: string[];
+    line: number;
+    /** Position of the argument being written, counting the previous ones. */
+    argument: number;
+    /** Name of the argument being written by its name, null when it is given by its position. */
+    keyword: string;
+}
+
+/**
+ * Shows the signature of the class or the method being called, highlighting the argument being written by its
+ * position or by its name.
+ */
+export class QiskitSignatureHelpProvider {
+    constructor(private parser: Parser = new QiskitParser()) {}
+
+    signatureHelpFor(input: string, position: Position, uri?: string): SignatureHelp {
+        let call = this.callAt(input, position);
+        if (call === null) {
+            return null;
+        }
+
+        let symbolTable = this.parser.parse(input, uri).symbolTable;
+        let located = SymbolLocator.symbolFor(call.callee, symbolTable, call.line);
+        if (located === null) {
+            return null;
+        }
+
+        let callable = located.symbol;
+        let signatureArguments: ArgumentSymbol[];
+        if (callable instanceof ClassSymbol) {
+            signatureArguments = callable.requiredArguments;
+        } else if (callable instanceof MethodSymbol) {
+            signatureArguments = callable.arguments;
+        } else {
+            return null;
+        }
+
+        let entry = SymbolLocator.catalogEntryFor(located);
+        let documentation = entry !== null ? entry.documentation || entry.detail || undefined : undefined;
+        let parameters = signatureArguments.map(argument => ParameterInformation.create(argument.label()));
+
+        return {
+            signatures: [SignatureInformation.create(callable.signature(), documentation, ...parameters)],
+            activeSignature: 0,
+            activeParameter: this.activeArgument(signatureArguments, call)
+        };
+    }
+
+    /**
+     * Finds the innermost call whose parentheses are open at the position, the brackets of the lists, tuples
+     * and dictionaries being written as an argument are skipped.
+     */
+    private callAt(input: string, position: Position): Call {
+        let isBefore = (token: Token) =>
+            token.line - 1 < position.line ||
+            (token.line - 1 === position.line && token.charPositionInLine < position.character);
+        let tokens = TokenLocator.tokensOf(input).filter(isBefore);
+
+        let depth = 0;
+        let argument = 0;
+        let argumentStart = -1;
+        for (let index = tokens.length - 1; index >= 0; index--) {
+            let text = tokens[index].text;
+
+            if (tokens[index].type === Python3Lexer.NEWLINE) {
+                return null;
+            } else if (CLOSING_BRACKETS.indexOf(text) > -1) {
+                depth++;
+            } else if (OPENING_BRACKETS.indexOf(text) > -1 && depth > 0) {
+                depth--;
+            } else if (OPENING_BRACKETS.indexOf(text) > -1 && this.isCallAt(tokens, index)) {
+                return this.callOf(tokens, index, argument, argumentStart > -1 ? argumentStart : index + 1);
+            } else if (OPENING_BRACKETS.indexOf(text) > -1) {
+                argument = 0;
+                argumentStart = -1;
+            } else if (text === ',' && depth === 0) {
+                argumentStart = argument === 0 ? index + 1 : argumentStart;
+                argument++;
+            }
+        }
+
+        return null;
+    }
+
+    /** A parenthesis opened after a name which is not being defined. */
+    private isCallAt(tokens: Token[], index: number): boolean {
+        let callee = index - 1;
+        let keyword = callee - 1;
+
+        return (
+            tokens[index].text === '(' &&
+            callee >= 0 &&
+            tokens[callee].type === Python3Lexer.NAME &&
+            (keyword < 0 || DEFINITION_KEYWORDS.indexOf(tokens[keyword].text) === -1)
+        );
+    }
+
+    private callOf(tokens: Token[], parenthesis: number, argument: number, argumentStart: number): Call {
+        let callee = parenthesis - 1;
+        let assignment = argumentStart + 1;
+        let isKeyword =
+            assignment < tokens.length &&
+            tokens[argumentStart].type === Python3Lexer.NAME &&
+            tokens[assignment].text === '=';
+
+        return {
+            callee: TokenLocator.attributeNamesAt(tokens, callee),
+            line: tokens[callee].line - 1,
+            argument,
+            keyword: isKeyword ? tokens[argumentStart].text : null
+        };
+    }
+
+    /**
+     * The arguments given by their names are highlighted by them, the rest of the arguments are taken by the
+     * variadic ones, -1 when no argument takes the one being written.
+     */
+    private activeArgument(signatureArguments: ArgumentSymbol[], call: Call): number {
+        let isKind = (kind: ArgumentKind) => (argument: ArgumentSymbol) => argument.kind === kind;
+
+        if (call.keyword !== null) {
+            let named = signatureArguments.findIndex(
+                argument => argument.name === call.keyword && !argument.isVariadic()
+            );
+
+            return named > -1 ? named : signatureArguments.findIndex(isKind(ArgumentKind.VariadicKeyword));
+        }
+
+        let positional = signatureArguments.filter(isKind(ArgumentKind.Positional));
+        if (call.argument < positional.length) {
+            return signatureArguments.indexOf(positional[call.argument]);
+        }
+
+        return signatureArguments.findIndex(isKind(ArgumentKind.VariadicPositional));
+    }
+}
@@ -10,6 +10,7 @@
 'use strict';
 
 import { SuggestionSymbol } from '../../types';
+import { QiskitSDK, QiskitClass } from '../libs/qiskitSDK';
 
 export class SuggestionsDictionary {
     allSymbols(): SuggestionSymbol[] {
@@ -31,9 +32,8 @@ export class SuggestionsDictionary {
     }
 
     private getSymbols(): SuggestionSymbol[] {
-        const qiskitSymbols: QiskitSDK = require('../libs/qiskitSDK.json');
         let symbols: SuggestionSymbol[] = [];
-        qiskitSymbols.classes.forEach(qclass => {
+        QiskitSDK.classes().forEach(qclass => {
             symbols.push({
                 label: qclass.name,
                 detail: qclass.detail,
@@ -59,27 +59,3 @@ export class SuggestionsDictionary {
         });
     }
 }
-
-interface QiskitSDK {
-    classes: QiskitClass[];
-}
-
-interface QiskitClass {
-    name: string;
-    detail: string;
-    documentation: string;
-    methods: QiskitMethod[];
-}
-
-interface QiskitMethod {
-    name: string;
-    type: string;
-    detail: string;
-    documentation: string;
-    arguments: QiskitArgument[];
-}
-
-interface QiskitArgument {
-    name: string;
-    type: string;
-}
@@ -17,38 +17,178 @@ import {
     TextDocuments,
     InitializeResult,
     TextDocumentPositionParams,
-    CompletionItem
+    CompletionItem,
+    Hover,
+    SignatureHelp,
+    Location,
+    ReferenceParams,
+    RenameParams,
+    DocumentFormattingParams,
+    DocumentRangeFormattingParams,
+    TextEdit,
+    TextDocument,
+    DidChangeWatchedFilesParams,
+    DocumentSymbolParams,
+    WorkspaceSymbolParams,
+    SymbolInformation,
+    CodeActionParams,
+    Command,
+    ExecuteCommandParams,
+    WorkspaceEdit,
+    CodeLensParams,
+    CodeLens
 } from 'vscode-languageserver/lib/main';
-import { CompilationTool } from './compilation';
+import path = require('path');
+import Uri from 'vscode-uri';
+import { CompilationTool, ValidatedDocumentParser } from './compilation';
+import { Parser } from './types';
 import { QASMSuggester } from './qasm/suggester';
 import { QASMParser } from './qasm/parser';
+import { QASM3Parser } from './qasm3/parser';
+import { QASMVersion, QASMVersionedParser } from './qasm/versionedParser';
+import { QASMHoverProvider } from './qasm/hoverProvider';
+import { QASMSignatureHelpProvider } from './qasm/signatureHelpProvider';
+import { QASMDefinitionProvider } from './qasm/definitionProvider';
+import { QASMRenameProvider } from './qasm/renameProvider';
+import { QASMFormatter } from './qasm/formatter';
+import { QASMCodeActionProvider } from './qasm/codeActionProvider';
+import { QASMResourceLensProvider } from './qasm/resourceLensProvider';
+import { QASMResourceEstimator } from './qasm/resources/resourceEstimator';
+import { ResourceReportResult } from './qasm/resources/types';
+import { QASMSymbolsProvider } from './qasm/symbolsProvider';
+import { QASMWorkspaceSymbols } from './qasm/workspaceSymbols';
+import { QASMConfiguration, QASMSettings } from './qasm/settings';
+import { QASMIncludeResolver } from './qasm/libs/includeResolver';
+import { TopologyLoader } from './qasm/topology/topologyLoader';
+import { QASMSimulator } from './qasm/simulator/simulator';
+import { QASMServerCapabilities } from './qasm/serverCapabilities';
+import {
+    SimulationRequest,
+    SimulationParams,
+    CircuitDiagramRequest,
+    CircuitDiagramParams,
+    ExportRequest,
+    ExportParams,
+    PrepareRenameRequest,
+    QuickFixCommand,
+    ResourceReportRequest,
+    ResourceReportParams,
+    ActiveTopologyNotification
+} from './qasm/requests';
+import { SimulationResult } from './qasm/simulator/types';
+import { DiagramBuilder } from './qasm/diagram/diagramBuilder';
+import { CircuitDiagram } from './qasm/diagram/types';
+import { QASMExporter } from './qasm/export/exporter';
+import { ExportResult } from './qasm/export/types';
 
 let connection: IConnection = createConnection(new IPCMessageReader(process), new IPCMessageWriter(process));
 
 let documents: TextDocuments = new TextDocuments();
 documents.listen(connection);
 
-let compilationTool: CompilationTool = new CompilationTool(connection, new QASMParser(), new QASMSuggester());
+let includeResolver: QASMIncludeResolver = new QASMIncludeResolver(file => {
+    let document = documents.get(Uri.file(file).toString());
+    return document !== undefined ? document.getText() : undefined;
+});
+let parser: QASMParser = new QASMParser(includeResolver);
+let versionedParser: QASMVersionedParser = new QASMVersionedParser(parser, new QASM3Parser(includeResolver));
+let compilationTool: CompilationTool = new CompilationTool(connection, versionedParser, new QASMSuggester());
+// the providers analyze the OpenQASM 2.0 documents, so only their validation is reused
+let providerParser: Parser = new ValidatedDocumentParser(compilationTool, parser, input => !QASMVersion.isQASM3(input));
+let hoverProvider: QASMHoverProvider = new QASMHoverProvider(providerParser);
+let signatureHelpProvider: QASMSignatureHelpProvider = new QASMSignatureHelpProvider(providerParser);
+let definitionProvider: QASMDefinitionProvider = new QASMDefinitionProvider(providerParser);
+let renameProvider: QASMRenameProvider = new QASMRenameProvider(providerParser);
+let formatter: QASMFormatter = new QASMFormatter();
+let codeActionProvider: QASMCodeActionProvider = new QASMCodeActionProvider(providerParser);
+let resourceLensProvider: QASMResourceLensProvider = new QASMResourceLensProvider(includeResolver);
+let symbolsProvider: QASMSymbolsProvider = new QASMSymbolsProvider();
+let workspaceSymbols: QASMWorkspaceSymbols = new QASMWorkspaceSymbols(includeResolver, symbolsProvider);
+let settings: QASMSettings = QASMConfiguration.defaults();
+parser.lintSettings = settings.lint;
+let workspaceRoot: string = null;
+let dependencies: Map<string, string[]> = new Map();
+let topologyFile: string = null;
+
+connection.onInitialize((params): InitializeResult => {
+    workspaceRoot = params.rootUri ? Uri.parse(params.rootUri).fsPath : params.rootPath;
 
-connection.onInitialize((_params): InitializeResult => {
     return {
-        capabilities: {
-            textDocumentSync: documents.syncKind,
-            completionProvider: {
-                resolveProvider: true
-            }
-        }
+        capabilities: QASMServerCapabilities.of(documents.syncKind)
     };
 });
 
 documents.onDidChangeContent(change => {
-    compilationTool.validateDocument(change.document);
+    let uri = change.document.uri;
+    compilationTool.debounceValidation(change.document, result => {
+        dependencies.set(uri, result.dependencies || []);
+        validateDependentsOf(uri);
+    });
 });
 
-connection.onDidChangeConfiguration(() => {
-    documents.all().forEach(compilationTool.validateDocument);
+documents.onDidClose(event => {
+    compilationTool.closeDocument(event.document.uri);
+    dependencies.delete(event.document.uri);
 });
 
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+    params.changes.forEach(change => workspaceSymbols.fileChanged(Uri.parse(change.uri).fsPath, change.type));
+
+    if (params.changes.some(change => Uri.parse(change.uri).fsPath === topologyFile)) {
+        loadTopology();
+        compilationTool.invalidate();
+        documents.all().forEach(validateDocument);
+        return;
+    }
+
+    params.changes.forEach(change => validateDependentsOf(change.uri));
+});
+
+connection.onDidChangeConfiguration(change => {
+    settings = QASMConfiguration.from(change.settings);
+    includeResolver.searchPaths = settings.include.searchPaths.map(searchPath =>
+        path.resolve(workspaceRoot || '', searchPath)
+    );
+    parser.lintSettings = settings.lint;
+    compilationTool.maxNumberOfProblems = settings.maxNumberOfProblems;
+    loadTopology();
+
+    compilationTool.invalidate();
+    documents.all().forEach(validateDocument);
+});
+
+/** Checks the documents against the topology of the settings and tells the client which one is active. */
+function loadTopology() {
+    let result = TopologyLoader.load(settings.topology, workspaceRoot);
+    topologyFile = TopologyLoader.fileOf(settings.topology, workspaceRoot);
+    parser.topology = result.topology;
+
+    connection.sendNotification(ActiveTopologyNotification.type, {
+        name: result.topology !== null ? result.topology.name : null,
+        qubits: result.topology !== null ? result.topology.qubits : 0,
+        error: result.error
+    });
+}
+
+function validateDocument(document: TextDocument) {
+    let result = compilationTool.validateDocument(document);
+    dependencies.set(document.uri, result.dependencies || []);
+}
+
+/** Validates again the open documents which include the changed file, directly or through other files. */
+function validateDependentsOf(uri: string) {
+    let changedFile = Uri.parse(uri).fsPath;
+
+    documents
+        .all()
+        .filter(document => document.uri !== uri)
+        .filter(document => (dependencies.get(document.uri) || []).indexOf(changedFile) > -1)
+        .forEach(document => {
+            compilationTool.invalidate(document.uri);
+            validateDocument(document);
+        });
+}
+
 connection.onCompletion((_textDocumentPosition: TextDocumentPositionParams): CompletionItem[] => {
     return compilationTool.availableCompletions(_textDocumentPosition);
 });
@@ -57,4 +197,156 @@ connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
     return compilationTool.completionDetailsFor(item);
 });
 
+connection.onHover((params: TextDocumentPositionParams): Hover => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return hoverProvider.hoverFor(document.getText(), params.position, document.uri);
+});
+
+connection.onSignatureHelp((params: TextDocumentPositionParams): SignatureHelp => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return signatureHelpProvider.signatureHelpFor(document.getText(), params.position, document.uri);
+});
+
+connection.onDefinition((params: TextDocumentPositionParams): Location => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return definitionProvider.definitionFor(document.uri, document.getText(), params.position);
+});
+
+connection.onReferences((params: ReferenceParams): Location[] => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return [];
+    }
+
+    return definitionProvider.referencesFor(
+        document.uri,
+        document.getText(),
+        params.position,
+        params.context.includeDeclaration
+    );
+});
+
+connection.onRequest(PrepareRenameRequest.type, (params: TextDocumentPositionParams) => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return renameProvider.prepareRenameFor(document.getText(), params.position, document.uri);
+});
+
+connection.onRenameRequest((params: RenameParams) => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return renameProvider.renameFor(document.uri, document.getText(), params.position, params.newName);
+});
+
+connection.onDocumentFormatting((params: DocumentFormattingParams): TextEdit[] => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return [];
+    }
+
+    return formatter.format(document.getText(), params.options, settings.format);
+});
+
+connection.onDocumentRangeFormatting((params: DocumentRangeFormattingParams): TextEdit[] => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return [];
+    }
+
+    return formatter.formatRange(document.getText(), params.range, params.options, settings.format);
+});
+
+connection.onDocumentSymbol((params: DocumentSymbolParams): SymbolInformation[] => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return [];
+    }
+
+    return symbolsProvider.documentSymbolsFor(document.uri, document.getText());
+});
+
+connection.onWorkspaceSymbol((params: WorkspaceSymbolParams): SymbolInformation[] => {
+    return workspaceSymbols.search(workspaceRoot, params.query);
+});
+
+connection.onCodeAction((params: CodeActionParams): Command[] => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return [];
+    }
+
+    return codeActionProvider.codeActionsFor(document.uri, document.getText(), params.context.diagnostics);
+});
+
+connection.onExecuteCommand((params: ExecuteCommandParams) => {
+    if (params.command === QuickFixCommand.command) {
+        connection.workspace.applyEdit(params.arguments[0] as WorkspaceEdit);
+    }
+});
+
+connection.onCodeLens((params: CodeLensParams): CodeLens[] => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return [];
+    }
+
+    return resourceLensProvider.codeLensesFor(document.uri, document.getText(), settings.resources);
+});
+
+connection.onRequest(ResourceReportRequest.type, (params: ResourceReportParams): ResourceReportResult => {
+    let document = documents.get(params.uri);
+    if (document === undefined) {
+        return { content: null, errors: [] };
+    }
+
+    return QASMResourceEstimator.report(document.getText(), document.uri, includeResolver);
+});
+
+connection.onRequest(SimulationRequest.type, (params: SimulationParams): SimulationResult => {
+    let document = documents.get(params.uri);
+    if (document === undefined) {
+        return { counts: {}, errors: [] };
+    }
+
+    let options = { shots: params.shots, seed: params.seed, uri: document.uri };
+
+    return QASMSimulator.run(document.getText(), options, includeResolver);
+});
+
+connection.onRequest(CircuitDiagramRequest.type, (params: CircuitDiagramParams): CircuitDiagram => {
+    let document = documents.get(params.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return DiagramBuilder.build(document.getText());
+});
+
+connection.onRequest(ExportRequest.type, (params: ExportParams): ExportResult => {
+    let document = documents.get(params.uri);
+    if (document === undefined) {
+        return { content: null, fileExtension: '', errors: [] };
+    }
+
+    return QASMExporter.run(document.getText(), { target: params.target, uri: document.uri }, includeResolver);
+});
+
 connection.listen();
@@ -17,38 +17,120 @@ import {
     TextDocuments,
     InitializeResult,
     TextDocumentPositionParams,
-    CompletionItem
+    CompletionItem,
+    DidChangeWatchedFilesParams,
+    FileChangeType,
+    TextDocument,
+    Hover,
+    SignatureHelp
 } from 'vscode-languageserver/lib/main';
-import { CompilationTool } from './compilation';
+import Uri from 'vscode-uri';
+import { CompilationTool, ValidatedDocumentParser } from './compilation';
+import { Parser } from './types';
 import { QiskitSuggester } from './qiskit/suggester';
 import { QiskitParser } from './qiskit/parser';
+import { QiskitCatalogNotification } from './qiskit/requests';
+import { QiskitCatalogLoader } from './qiskit/libs/catalogLoader';
+import { QiskitSDK } from './qiskit/libs/qiskitSDK';
+import { QiskitModuleResolver } from './qiskit/libs/moduleResolver';
+import { QiskitHoverProvider } from './qiskit/hoverProvider';
+import { QiskitSignatureHelpProvider } from './qiskit/signatureHelpProvider';
 
 let connection: IConnection = createConnection(new IPCMessageReader(process), new IPCMessageWriter(process));
 
 let documents: TextDocuments = new TextDocuments();
 documents.listen(connection);
 
-let compilationTool: CompilationTool = new CompilationTool(connection, new QiskitParser(), new QiskitSuggester());
+let moduleResolver: QiskitModuleResolver = new QiskitModuleResolver(file => {
+    let document = documents.get(Uri.file(file).toString());
+    return document !== undefined ? document.getText() : undefined;
+});
+let parser: QiskitParser = new QiskitParser(moduleResolver);
+let compilationTool: CompilationTool = new CompilationTool(connection, parser, new QiskitSuggester());
+let providerParser: Parser = new ValidatedDocumentParser(compilationTool, parser);
+let hoverProvider: QiskitHoverProvider = new QiskitHoverProvider(providerParser);
+let signatureHelpProvider: QiskitSignatureHelpProvider = new QiskitSignatureHelpProvider(providerParser);
+let dependencies: Map<string, string[]> = new Map();
+
+connection.onInitialize((params): InitializeResult => {
+    let workspaceRoot = params.rootUri ? Uri.parse(params.rootUri).fsPath : params.rootPath;
+    moduleResolver.searchPaths = workspaceRoot ? [workspaceRoot] : [];
 
-connection.onInitialize((_params): InitializeResult => {
     return {
         capabilities: {
             textDocumentSync: documents.syncKind,
             completionProvider: {
                 resolveProvider: true
+            },
+            hoverProvider: true,
+            signatureHelpProvider: {
+                triggerCharacters: ['(', ',']
             }
         }
     };
 });
 
 documents.onDidChangeContent(change => {
-    compilationTool.validateDocument(change.document);
+    let uri = change.document.uri;
+    moduleResolver.invalidate(Uri.parse(uri).fsPath);
+    compilationTool.debounceValidation(change.document, result => {
+        dependencies.set(uri, result.dependencies || []);
+        validateDependentsOf(uri);
+    });
+});
+
+documents.onDidClose(event => {
+    moduleResolver.invalidate(Uri.parse(event.document.uri).fsPath);
+    compilationTool.closeDocument(event.document.uri);
+    dependencies.delete(event.document.uri);
+});
+
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+    params.changes.forEach(change => {
+        if (change.type === FileChangeType.Changed) {
+            moduleResolver.invalidate(Uri.parse(change.uri).fsPath);
+        } else {
+            moduleResolver.invalidate();
+        }
+        validateDependentsOf(change.uri);
+    });
+});
+
+connection.onDidChangeConfiguration(change => {
+    let settings = (change.settings && change.settings.qiskitLang) || {};
+    if (typeof settings.maxNumberOfProblems === 'number') {
+        compilationTool.maxNumberOfProblems = settings.maxNumberOfProblems;
+    }
+
+    documents.all().forEach(validateDocument);
 });
 
-connection.onDidChangeConfiguration(() => {
-    documents.all().forEach(compilationTool.validateDocument);
+connection.onNotification(QiskitCatalogNotification.type, params => {
+    QiskitSDK.use(QiskitCatalogLoader.catalogFor(params.version, params.folder));
+
+    compilationTool.invalidate();
+    documents.all().forEach(validateDocument);
 });
 
+function validateDocument(document: TextDocument) {
+    let result = compilationTool.validateDocument(document);
+    dependencies.set(document.uri, result.dependencies || []);
+}
+
+/** Validates again the open documents which import the changed file, directly or through other modules. */
+function validateDependentsOf(uri: string) {
+    let changedFile = Uri.parse(uri).fsPath;
+
+    documents
+        .all()
+        .filter(document => document.uri !== uri)
+        .filter(document => (dependencies.get(document.uri) || []).indexOf(changedFile) > -1)
+        .forEach(document => {
+            compilationTool.invalidate(document.uri);
+            validateDocument(document);
+        });
+}
+
 connection.onCompletion((_textDocumentPosition: TextDocumentPositionParams): CompletionItem[] => {
     return compilationTool.availableCompletions(_textDocumentPosition);
 });
@@ -57,4 +139,22 @@ connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
     return compilationTool.completionDetailsFor(item);
 });
 
+connection.onHover((params: TextDocumentPositionParams): Hover => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return hoverProvider.hoverFor(document.getText(), params.position, document.uri);
+});
+
+connection.onSignatureHelp((params: TextDocumentPositionParams): SignatureHelp => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        return null;
+    }
+
+    return signatureHelpProvider.signatureHelpFor(document.getText(), params.position, document.uri);
+});
+
 connection.listen();
@@ -0,0 +1,86 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+
+const IGNORED_FOLDERS = ['node_modules'];
+
+export namespace DirectoryWalker {
+    /**
+     * Lists the files inside the folder and its subfolders, sorted and skipping the hidden entries and the
+     * dependencies. Entries which cannot be read, like broken links, are ignored, and the folders reached
+     * again through links are only walked once.
+     */
+    export function filesIn(directory: string): string[] {
+        return walk(directory, new Set()).sort();
+    }
+
+    /** Whether walking the folder would reach the file, so the changes of the file matter to a listing. */
+    export function reaches(directory: string, file: string): boolean {
+        let relativePath = path.relative(directory, file);
+        if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        return relativePath.split(path.sep).every(isWalked);
+    }
+}
+
+function walk(directory: string, visited: Set<string>): string[] {
+    let realPath = realPathOf(directory);
+    if (realPath === null || visited.has(realPath)) {
+        return [];
+    }
+    visited.add(realPath);
+
+    let entries: string[];
+    try {
+        entries = fs.readdirSync(directory);
+    } catch (error) {
+        return [];
+    }
+
+    return entries
+        .filter(isWalked)
+        .map(entry => path.join(directory, entry))
+        .reduce((files, entry) => {
+            let stats = statsOf(entry);
+            if (stats === null) {
+                return files;
+            }
+
+            return stats.isDirectory() ? files.concat(walk(entry, visited)) : files.concat(entry);
+        }, []);
+}
+
+function isWalked(entry: string): boolean {
+    return !entry.startsWith('.') && IGNORED_FOLDERS.indexOf(entry) === -1;
+}
+
+/** Stats of the entry, or of the entry it links to, or null when it cannot be read. */
+function statsOf(entry: string): fs.Stats {
+    try {
+        let stats = fs.lstatSync(entry);
+
+        return stats.isSymbolicLink() ? fs.statSync(entry) : stats;
+    } catch (error) {
+        return null;
+    }
+}
+
+function realPathOf(directory: string): string {
+    try {
+        return fs.realpathSync(directory);
+    } catch (error) {
+        return null;
+    }
+}
@@ -9,27 +9,37 @@
 
 'use strict';
 
-import { ParserError, ParseErrorLevel } from '../types';
+import { ParserError, ParseErrorLevel, DiagnosticTag, ErrorCode } from '../types';
 import { ContentPosition } from '../types';
 
 export namespace ErrorBuilder {
-    export function error(message: string, position: ContentPosition): ParserError {
+    export function error(message: string, position: ContentPosition, code?: ErrorCode): ParserError {
         return {
             line: position.line,
             start: position.start,
             end: position.end,
             message,
-            level: ParseErrorLevel.ERROR
+            level: ParseErrorLevel.ERROR,
+            code
         };
     }
 
-    export function warning(message: string, position: ContentPosition): ParserError {
+    export function warning(message: string, position: ContentPosition, code?: ErrorCode): ParserError {
         return {
             line: position.line,
             start: position.start,
             end: position.end,
             message,
-            level: ParseErrorLevel.WARNING
+            level: ParseErrorLevel.WARNING,
+            code
         };
     }
+
+    /** Warning about code without effect, which editors can display faded out. */
+    export function unnecessary(message: string, position: ContentPosition): ParserError {
+        let error = warning(message, position);
+        error.tags = [DiagnosticTag.Unnecessary];
+
+        return error;
+    }
 }
@@ -11,7 +11,12 @@
 
 import { TerminalNode } from 'antlr4ts/tree';
 import { ContentPosition } from '../types';
-import { Token } from 'antlr4ts';
+import { Token, ParserRuleContext } from 'antlr4ts';
+
+interface ItemPosition {
+    line: number;
+    column: number;
+}
 
 export namespace PositionAdapter {
     export function fromTerminalNode(node: TerminalNode): ContentPosition {
@@ -22,6 +27,26 @@ export namespace PositionAdapter {
         };
     }
 
+    /** Position of a rule, which is limited to its first line when it spans several lines. */
+    export function fromContext(ctx: ParserRuleContext): ContentPosition {
+        if (ctx.stop === undefined || ctx.stop.line !== ctx.start.line) {
+            return fromToken(ctx.start);
+        }
+
+        return {
+            line: ctx.start.line - 1,
+            start: ctx.start.charPositionInLine,
+            end: ctx.stop.charPositionInLine + ctx.stop.text.length
+        };
+    }
+
+    /** Position of an item of the hand-written syntax trees, which are placed with zero based lines and columns. */
+    export function fromItem(item: { start: ItemPosition; end: ItemPosition }): ContentPosition {
+        let end = item.end.line === item.start.line ? item.end.column : item.start.column + 1;
+
+        return { line: item.start.line, start: item.start.column, end };
+    }
+
     export function fromToken(token: Token): ContentPosition {
         return {
             line: token.line - 1,
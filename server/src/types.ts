@@ -9,8 +9,15 @@
 
 'use strict';
 
+import { SymbolTable } from './compiler/types';
+
 export interface Parser {
-    parse(input: string): ParserResult;
+    parse(input: string, uri?: string): ParserResult;
+}
+
+/** Parser reusing the result of a previous version of the input for the parts of it which did not change. */
+export interface IncrementalParser extends Parser {
+    reparse(input: string, previous: ParserResult, uri?: string): ParserResult;
 }
 
 export interface Suggester {
@@ -34,6 +41,9 @@ export enum SuggestionSymbolType {
 export interface ParserResult {
     ast: any;
     errors: ParserError[];
+    symbolTable?: SymbolTable;
+    /** Files used to analyze the input, so it must be analyzed again when any of them changes. */
+    dependencies?: string[];
 }
 
 export interface ParserError {
@@ -42,6 +52,8 @@ export interface ParserError {
     end: number;
     message: string;
     level: ParseErrorLevel;
+    tags?: DiagnosticTag[];
+    code?: ErrorCode;
 }
 
 export enum ParseErrorLevel {
@@ -49,6 +61,19 @@ export enum ParseErrorLevel {
     WARNING
 }
 
+/** Diagnostic tags defined by the version 3.15 of the language server protocol. */
+export enum DiagnosticTag {
+    Unnecessary = 1
+}
+
+/** Identifies the validations whose errors can be fixed by the editors. */
+export enum ErrorCode {
+    UndefinedSymbol = 'undefined-symbol',
+    RegisterTooSmall = 'register-too-small',
+    IndexOutOfBound = 'index-out-of-bound',
+    PreviousDefinition = 'previous-definition'
+}
+
 export interface CompilationResult {
     ast: any;
     errors: CompilationError[];
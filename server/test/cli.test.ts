@@ -0,0 +1,213 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { run, EXIT_SUCCESS, EXIT_FAILURE, EXIT_USAGE_ERROR } from '../src/cli/lint';
+import { LintOptionsParser } from '../src/cli/optionsParser';
+import { FileFinder } from '../src/cli/fileFinder';
+import { OutputFormat } from '../src/cli/types';
+import { ParseErrorLevel } from '../src/types';
+
+const FILES: { [file: string]: string } = {
+    'valid.qasm': 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\ncx q[0], q[1];',
+    'unused.qasm': 'OPENQASM 2.0;\nqreg q[1];\nqreg unused[1];\nreset q[0];',
+    'circuits/broken.qasm': 'OPENQASM 2.0;\nqreg q[1];\nh q[0];',
+    'circuits/nested/line.qasm': 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[3];\ncx q[0], q[2];',
+    'circuits/notes.txt': 'not code',
+    'circuit.py': 'from qiskit import QuantumRegister\nq = QuantumRegister(2)\n',
+    'line.json': '{ "name": "line", "qubits": 3, "couplingMap": [[0, 1], [1, 2]] }'
+};
+
+describe('A command line linter', () => {
+    let workspace: string;
+    let output: { log: string[]; error: string[] };
+
+    let lint = (...args: string[]) => {
+        output = { log: [], error: [] };
+        return run(args, workspace, {
+            log: message => output.log.push(message),
+            error: message => output.error.push(message)
+        });
+    };
+
+    beforeAll(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'qasm-lint-'));
+        fs.mkdirSync(path.join(workspace, 'circuits'));
+        fs.mkdirSync(path.join(workspace, 'circuits', 'nested'));
+        Object.keys(FILES).forEach(file => fs.writeFileSync(path.join(workspace, file), FILES[file]));
+    });
+
+    afterAll(() => {
+        Object.keys(FILES).forEach(file => fs.unlinkSync(path.join(workspace, file)));
+        fs.rmdirSync(path.join(workspace, 'circuits', 'nested'));
+        fs.rmdirSync(path.join(workspace, 'circuits'));
+        fs.rmdirSync(workspace);
+    });
+
+    it('will succeed when the files have no errors', () => {
+        expect(lint('valid.qasm', 'unused.qasm')).toEqual(EXIT_SUCCESS);
+        expect(output.log).toEqual([
+            'unused.qasm:3:6: warning: Register unused is declared but never used.\n' +
+                '0 errors and 1 warning found in 2 files checked.'
+        ]);
+    });
+
+    it('will fail when the files have errors', () => {
+        expect(lint('circuits/broken.qasm')).toEqual(EXIT_FAILURE);
+        expect(output.log[0]).toContain(
+            'circuits/broken.qasm:3:1: error: Symbol h is not previously defined. [undefined-symbol]'
+        );
+    });
+
+    it('will lint the Qiskit files with the Qiskit parser', () => {
+        expect(lint('circuit.py')).toEqual(EXIT_SUCCESS);
+        expect(output.log).toEqual(['0 errors and 0 warnings found in 1 file checked.']);
+    });
+
+    it('will only report and fail on the chosen severities', () => {
+        expect(lint('--severity', 'error', 'unused.qasm')).toEqual(EXIT_SUCCESS);
+        expect(output.log).toEqual(['0 errors and 0 warnings found in 1 file checked.']);
+
+        expect(lint('--fail-on', 'warning', 'unused.qasm')).toEqual(EXIT_FAILURE);
+    });
+
+    it('will only run the chosen rules', () => {
+        lint('--rules', 'unusedGates', 'unused.qasm');
+
+        expect(output.log).toEqual(['0 errors and 0 warnings found in 1 file checked.']);
+    });
+
+    it('will check the files against a device topology', () => {
+        expect(lint('--topology', 'line.json', 'circuits/nested/line.qasm')).toEqual(EXIT_FAILURE);
+        expect(output.log[0]).toContain('Qubits q[0] and q[2] are not connected in the device line.');
+    });
+
+    it('will write the diagnostics as JSON', () => {
+        lint('--format', 'json', 'circuits/broken.qasm');
+
+        expect(JSON.parse(output.log[0])).toEqual([
+            {
+                file: path.join('circuits', 'broken.qasm'),
+                diagnostics: [
+                    {
+                        line: 3,
+                        column: 1,
+                        endColumn: 2,
+                        severity: 'error',
+                        message: 'Symbol h is not previously defined.',
+                        rule: 'undefined-symbol'
+                    }
+                ]
+            }
+        ]);
+    });
+
+    it('will write the diagnostics as SARIF', () => {
+        lint('--format', 'sarif', 'circuits/broken.qasm', 'unused.qasm');
+        let sarif = JSON.parse(output.log[0]);
+
+        expect(sarif.version).toEqual('2.1.0');
+        expect(sarif.runs[0].tool.driver.rules).toEqual([{ id: 'undefined-symbol' }]);
+        expect(sarif.runs[0].results[0]).toEqual({
+            ruleId: 'undefined-symbol',
+            level: 'error',
+            message: { text: 'Symbol h is not previously defined.' },
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: { uri: 'circuits/broken.qasm' },
+                        region: { startLine: 3, startColumn: 1, endColumn: 2 }
+                    }
+                }
+            ]
+        });
+        expect(sarif.runs[0].results[1].level).toEqual('warning');
+    });
+
+    it('will report the wrong arguments and the missing files', () => {
+        expect(lint('--format', 'xml', 'valid.qasm')).toEqual(EXIT_USAGE_ERROR);
+        expect(output.error[0]).toMatch(/^Unknown format xml, expecting human, json, sarif./);
+
+        expect(lint('missing.qasm')).toEqual(EXIT_USAGE_ERROR);
+        expect(output.error).toEqual(['No files found at missing.qasm.', 'No files to lint.']);
+    });
+});
+
+describe('A lint options parser', () => {
+    it('will use the default options', () => {
+        expect(LintOptionsParser.parse(['main.qasm'])).toEqual({
+            options: {
+                patterns: ['main.qasm'],
+                format: OutputFormat.Human,
+                rules: ['unusedRegisters', 'unusedGates', 'overwrittenMeasurements', 'operationsAfterMeasurement'],
+                severity: ParseErrorLevel.WARNING,
+                failOn: ParseErrorLevel.ERROR,
+                help: false
+            }
+        });
+    });
+
+    it('will reject the unknown options and rules', () => {
+        expect(LintOptionsParser.parse(['--fix', 'main.qasm']).error).toEqual('Unknown option --fix.');
+        expect(LintOptionsParser.parse(['--rules', 'unusedQubits', 'main.qasm']).error).toMatch(
+            /^Unknown rule unusedQubits/
+        );
+        expect(LintOptionsParser.parse(['main.qasm', '--severity']).error).toEqual('Missing value of --severity.');
+        expect(LintOptionsParser.parse([]).error).toEqual('Expecting the files to lint.');
+    });
+});
+
+describe('A file finder', () => {
+    let workspace: string;
+
+    beforeAll(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'qasm-find-'));
+        fs.mkdirSync(path.join(workspace, 'lib'));
+        ['a.qasm', 'b.py', 'c.inc', path.join('lib', 'd.qasm'), path.join('lib', 'e.inc')].forEach(file =>
+            fs.writeFileSync(path.join(workspace, file), '')
+        );
+        fs.symlinkSync(path.join(workspace, 'missing.qasm'), path.join(workspace, 'broken.qasm'));
+        fs.symlinkSync(workspace, path.join(workspace, 'lib', 'loop'));
+    });
+
+    afterAll(() => {
+        fs.unlinkSync(path.join(workspace, 'broken.qasm'));
+        fs.unlinkSync(path.join(workspace, 'lib', 'loop'));
+        ['a.qasm', 'b.py', 'c.inc', path.join('lib', 'd.qasm'), path.join('lib', 'e.inc')].forEach(file =>
+            fs.unlinkSync(path.join(workspace, file))
+        );
+        fs.rmdirSync(path.join(workspace, 'lib'));
+        fs.rmdirSync(workspace);
+    });
+
+    let namesFound = (...patterns: string[]) =>
+        FileFinder.find(patterns, workspace).files.map(file => path.relative(workspace, file));
+
+    it('will find the code files of the folders', () => {
+        expect(namesFound('.')).toEqual(['a.qasm', 'b.py', path.join('lib', 'd.qasm')]);
+    });
+
+    it('will expand the globs', () => {
+        expect(namesFound('*.inc')).toEqual(['c.inc']);
+        expect(namesFound('**/*.inc')).toEqual(['c.inc', path.join('lib', 'e.inc')]);
+        expect(namesFound('lib/?.qasm', 'a.qasm', '*.qasm')).toEqual([path.join('lib', 'd.qasm'), 'a.qasm']);
+    });
+
+    it('will skip the broken links and walk the folders reached through links once', () => {
+        expect(namesFound('**/*.qasm')).toEqual(['a.qasm', path.join('lib', 'd.qasm')]);
+    });
+
+    it('will tell the patterns without files', () => {
+        expect(FileFinder.find(['*.txt', 'a.qasm'], workspace).unmatched).toEqual(['*.txt']);
+    });
+});
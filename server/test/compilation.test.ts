@@ -15,11 +15,46 @@ import {
     IConnection,
     IPCMessageWriter,
     IPCMessageReader,
-    CompletionItem
+    CompletionItem,
+    PublishDiagnosticsParams,
+    TextDocument
 } from 'vscode-languageserver';
-import { CompilationTool } from '../src/compilation';
+import { CompilationTool, ValidatedDocumentParser, VALIDATION_DELAY } from '../src/compilation';
 import { QASMParser } from '../src/qasm/parser';
 import { QASMSuggester } from '../src/qasm/suggester';
+import { QiskitParser } from '../src/qiskit/parser';
+import { IncrementalParser, Parser, ParserResult } from '../src/types';
+
+class CountingParser implements Parser {
+    parsedVersions: string[] = [];
+
+    constructor(private parser: Parser) {}
+
+    parse(input: string, uri?: string): ParserResult {
+        this.parsedVersions.push(input);
+
+        return this.parser.parse(input, uri);
+    }
+}
+
+class ReparsingParser implements IncrementalParser {
+    previousResults: ParserResult[] = [];
+    results: ParserResult[] = [];
+
+    private parser = new QiskitParser();
+
+    parse(input: string, uri?: string): ParserResult {
+        return this.reparse(input, null, uri);
+    }
+
+    reparse(input: string, previous: ParserResult, uri?: string): ParserResult {
+        let result = previous !== null ? this.parser.reparse(input, previous, uri) : this.parser.parse(input, uri);
+        this.previousResults.push(previous);
+        this.results.push(result);
+
+        return result;
+    }
+}
 
 describe('A compilation tool', () => {
     let messageReaderMock: IPCMessageReader = mock(IPCMessageReader);
@@ -43,4 +78,160 @@ describe('A compilation tool', () => {
             expect(result.detail).toEqual('');
         });
     });
+
+    describe('when validating documents', () => {
+        let parser: CountingParser;
+        let sentDiagnostics: PublishDiagnosticsParams[];
+        let tool: CompilationTool;
+
+        let documentOf = (uri: string, version: number, content: string) =>
+            TextDocument.create(uri, 'qasm-lang', version, content);
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            parser = new CountingParser(new QASMParser());
+            sentDiagnostics = [];
+            let diagnosticsConnection = {
+                sendDiagnostics: (params: PublishDiagnosticsParams) => {
+                    sentDiagnostics.push(params);
+                }
+            } as IConnection;
+            tool = new CompilationTool(diagnosticsConnection, parser, new QASMSuggester());
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('will only validate the latest version once the document stops changing', () => {
+            tool.debounceValidation(documentOf('file:///a.qasm', 1, 'OPENQASM 2.0;\nqreg q[1];'));
+            tool.debounceValidation(documentOf('file:///a.qasm', 2, 'OPENQASM 2.0;\nqreg q[2];'));
+            jest.advanceTimersByTime(VALIDATION_DELAY - 1);
+
+            expect(parser.parsedVersions).toEqual([]);
+
+            jest.advanceTimersByTime(1);
+
+            expect(parser.parsedVersions).toEqual(['OPENQASM 2.0;\nqreg q[2];']);
+            expect(sentDiagnostics.map(params => params.uri)).toEqual(['file:///a.qasm']);
+        });
+
+        it('will keep the validations of different documents apart', () => {
+            let validated: string[] = [];
+            tool.debounceValidation(documentOf('file:///a.qasm', 1, 'OPENQASM 2.0;'), () => validated.push('a'));
+            tool.debounceValidation(documentOf('file:///b.qasm', 1, 'OPENQASM 2.0;'), () => validated.push('b'));
+            jest.runAllTimers();
+
+            expect(validated).toEqual(['a', 'b']);
+        });
+
+        it('will not parse again the same version until it is invalidated', () => {
+            let document = documentOf('file:///a.qasm', 1, 'OPENQASM 2.0;\nqreg q[1];');
+            let first = tool.validateDocument(document);
+
+            expect(tool.validateDocument(document)).toBe(first);
+            expect(parser.parsedVersions.length).toEqual(1);
+
+            tool.invalidate('file:///b.qasm');
+            tool.validateDocument(document);
+            expect(parser.parsedVersions.length).toEqual(1);
+
+            tool.invalidate();
+            tool.validateDocument(document);
+            expect(parser.parsedVersions.length).toEqual(2);
+        });
+
+        it('will cancel the pending validation of closed documents', () => {
+            tool.debounceValidation(documentOf('file:///a.qasm', 1, 'OPENQASM 2.0;'));
+            tool.closeDocument('file:///a.qasm');
+            jest.runAllTimers();
+
+            expect(parser.parsedVersions).toEqual([]);
+        });
+
+        it('will send the errors first up to the maximum number of problems', () => {
+            let input = 'OPENQASM 2.0;\nqreg unused[1];\nqreg q[1];\nx q[0];\ny q[0];';
+            tool.maxNumberOfProblems = 2;
+            tool.validateDocument(documentOf('file:///a.qasm', 1, input));
+
+            expect(sentDiagnostics[0].diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+                'Symbol x is not previously defined.',
+                'Symbol y is not previously defined.'
+            ]);
+        });
+
+        it('will give the providers the result of the validated version', () => {
+            let input = 'OPENQASM 2.0;\nqreg q[1];';
+            let validated = tool.validateDocument(documentOf('file:///a.qasm', 1, input));
+            let providerParser = new ValidatedDocumentParser(tool, parser);
+
+            expect(providerParser.parse(input, 'file:///a.qasm')).toBe(validated);
+            expect(parser.parsedVersions.length).toEqual(1);
+        });
+
+        it('will parse once the pending version asked for by the providers', () => {
+            let input = 'OPENQASM 2.0;\nqreg q[1];';
+            let sentBefore = sentDiagnostics.length;
+            let document = documentOf('file:///a.qasm', 1, input);
+            tool.debounceValidation(document);
+            let providerParser = new ValidatedDocumentParser(tool, parser);
+
+            let result = providerParser.parse(input, 'file:///a.qasm');
+            jest.runAllTimers();
+
+            expect(tool.validateDocument(document)).toBe(result);
+            expect(parser.parsedVersions.length).toEqual(1);
+            expect(sentDiagnostics.length).toBeGreaterThan(sentBefore);
+        });
+
+        it('will parse the contents which are not the latest version of an open document', () => {
+            tool.validateDocument(documentOf('file:///a.qasm', 1, 'OPENQASM 2.0;\nqreg q[1];'));
+            let providerParser = new ValidatedDocumentParser(tool, parser, input => input.indexOf('creg') === -1);
+
+            providerParser.parse('OPENQASM 2.0;\nqreg q[2];', 'file:///a.qasm');
+            providerParser.parse('OPENQASM 2.0;\nqreg q[1];', 'file:///b.qasm');
+            providerParser.parse('OPENQASM 2.0;\nqreg q[1];');
+
+            expect(parser.parsedVersions.length).toEqual(4);
+        });
+
+        it('will not reuse the validation of the contents the providers cannot use', () => {
+            let input = 'OPENQASM 2.0;\ncreg c[1];';
+            tool.validateDocument(documentOf('file:///a.qasm', 1, input));
+            let providerParser = new ValidatedDocumentParser(tool, parser, content => content.indexOf('creg') === -1);
+
+            providerParser.parse(input, 'file:///a.qasm');
+
+            expect(parser.parsedVersions.length).toEqual(2);
+        });
+
+        it('will parse again incrementally the new versions of the documents', () => {
+            let incrementalParser = new ReparsingParser();
+            let diagnosticsConnection = {
+                sendDiagnostics: (params: PublishDiagnosticsParams) => {
+                    sentDiagnostics.push(params);
+                }
+            } as IConnection;
+            let incrementalTool = new CompilationTool(diagnosticsConnection, incrementalParser, new QASMSuggester());
+
+            let validated = incrementalTool.validateDocument(documentOf('file:///a.py', 1, 'x = 1\n'));
+            incrementalTool.validateDocument(documentOf('file:///a.py', 2, 'x = 2\n'));
+            incrementalTool.invalidate();
+            let revalidated = incrementalTool.validateDocument(documentOf('file:///a.py', 2, 'x = 2\n'));
+
+            expect(incrementalParser.previousResults).toEqual([null, validated, incrementalParser.results[1]]);
+            expect(revalidated).not.toBe(incrementalParser.results[1]);
+        });
+
+        it('will complete the document asked for', () => {
+            tool.validateDocument(documentOf('file:///a.qasm', 1, 'OPENQASM 2.0;\nqreg q[1];\n'));
+
+            expect(tool.availableCompletions(positionIn('file:///a.qasm')).length).toBeGreaterThan(0);
+            expect(tool.availableCompletions(positionIn('file:///unknown.qasm'))).toEqual([]);
+        });
+    });
 });
+
+function positionIn(uri: string) {
+    return { textDocument: { uri }, position: { line: 2, character: 0 } };
+}
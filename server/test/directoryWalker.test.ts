@@ -0,0 +1,59 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { DirectoryWalker } from '../src/tools/directoryWalker';
+
+describe('A directory walker', () => {
+    let workspace: string;
+    let links = ['broken', path.join('lib', 'loop'), 'shortcut'];
+
+    beforeAll(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'qasm-walk-'));
+        fs.mkdirSync(path.join(workspace, 'lib'));
+        fs.mkdirSync(path.join(workspace, '.git'));
+        fs.writeFileSync(path.join(workspace, 'main.qasm'), '');
+        fs.writeFileSync(path.join(workspace, 'lib', 'gates.inc'), '');
+        fs.writeFileSync(path.join(workspace, '.git', 'HEAD'), '');
+        fs.symlinkSync(path.join(workspace, 'missing.qasm'), path.join(workspace, 'broken'));
+        fs.symlinkSync(workspace, path.join(workspace, 'lib', 'loop'));
+        fs.symlinkSync(path.join(workspace, 'main.qasm'), path.join(workspace, 'shortcut'));
+    });
+
+    afterAll(() => {
+        links.forEach(link => fs.unlinkSync(path.join(workspace, link)));
+        fs.unlinkSync(path.join(workspace, 'main.qasm'));
+        fs.unlinkSync(path.join(workspace, 'lib', 'gates.inc'));
+        fs.unlinkSync(path.join(workspace, '.git', 'HEAD'));
+        fs.rmdirSync(path.join(workspace, 'lib'));
+        fs.rmdirSync(path.join(workspace, '.git'));
+        fs.rmdirSync(workspace);
+    });
+
+    it('will list the files of the folders and follow the links, skipping the broken ones and the loops', () => {
+        let files = DirectoryWalker.filesIn(workspace).map(file => path.relative(workspace, file));
+
+        expect(files).toEqual([path.join('lib', 'gates.inc'), 'main.qasm', 'shortcut']);
+    });
+
+    it('will list nothing in a missing folder', () => {
+        expect(DirectoryWalker.filesIn(path.join(workspace, 'missing'))).toEqual([]);
+    });
+
+    it('will tell the files reached when walking a folder', () => {
+        expect(DirectoryWalker.reaches(workspace, path.join(workspace, 'lib', 'gates.inc'))).toBe(true);
+        expect(DirectoryWalker.reaches(workspace, path.join(workspace, '.git', 'HEAD'))).toBe(false);
+        expect(DirectoryWalker.reaches(workspace, path.join(workspace, 'node_modules', 'a.inc'))).toBe(false);
+        expect(DirectoryWalker.reaches(path.join(workspace, 'lib'), path.join(workspace, 'main.qasm'))).toBe(false);
+    });
+});
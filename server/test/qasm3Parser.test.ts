@@ -0,0 +1,283 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASM3Parser } from '../src/qasm3/parser';
+import { QASMParser } from '../src/qasm/parser';
+import { QASMVersionedParser, QASMVersion } from '../src/qasm/versionedParser';
+import { QubitSymbol, SubroutineSymbol } from '../src/qasm3/compiler/symbols';
+import { GateSymbol } from '../src/qasm/compiler/symbolTable';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+import { ParseErrorLevel } from '../src/types';
+import { QASMConfiguration } from '../src/qasm/settings';
+import { Program } from '../src/qasm3/ast/types';
+
+describe('An OpenQASM 3 parser', () => {
+    let parser = new QASM3Parser();
+
+    let messagesOf = (input: string) => parser.parse(input).errors.map(error => error.message);
+
+    it('will accept a program using the standard gates', () => {
+        let input = `OPENQASM 3.0;
+include "stdgates.inc";
+qubit[2] q;
+bit[2] c;
+h q[0];
+cx q[0], q[1];
+c = measure q;`;
+
+        let result = parser.parse(input);
+
+        expect(result.errors).toEqual([]);
+        expect(result.symbolTable.lookup('q')).toBeInstanceOf(QubitSymbol);
+        expect((result.symbolTable.lookup('q') as QubitSymbol).size).toEqual(2);
+        expect(result.symbolTable.lookup('cx')).toBeInstanceOf(GateSymbol);
+    });
+
+    it('will accept subroutines, loops and classical types', () => {
+        let input = `OPENQASM 3;
+include "stdgates.inc";
+const int n = 3;
+qubit[n] q;
+bit[n] c;
+float[64] angle_step = π / n;
+
+def flip_all(qubit[n] register, int times) -> bit {
+    for int i in [0:times - 1] {
+        x register;
+    }
+    return measure register[0];
+}
+
+int counter = 0;
+while (counter < 2) {
+    counter += 1;
+    if (counter == 2) {
+        break;
+    }
+}
+for i in {0, 2} {
+    rx(angle_step * i) q[i];
+}
+c[0] = flip_all(q, 2);`;
+
+        let result = parser.parse(input);
+
+        expect(result.errors).toEqual([]);
+        expect(result.symbolTable.lookup('flip_all')).toBeInstanceOf(SubroutineSymbol);
+    });
+
+    it('will accept gate modifiers and count the control qubits', () => {
+        let input = `OPENQASM 3;
+include "stdgates.inc";
+qubit[3] q;
+ctrl @ x q[0], q[1];
+ctrl(2) @ inv @ h q[0], q[1], q[2];
+negctrl @ pow(2) @ rz(π) q[1], q[2];
+ctrl @ h q[0];`;
+
+        expect(parser.parse(input).errors).toEqual([
+            {
+                line: 6,
+                start: 7,
+                end: 8,
+                message: ErrorMessages.wrongNumberOfQubits('h', 2, 1),
+                level: ParseErrorLevel.ERROR
+            }
+        ]);
+    });
+
+    it('will report the syntax errors and continue with the next statement', () => {
+        let input = `OPENQASM 3;
+qubit[2] q
+bit c;
+measure q[0] -> ;
+reset q[1];`;
+
+        let result = parser.parse(input);
+
+        expect(result.errors.map(error => [error.line, error.message])).toEqual([
+            [2, ErrorMessages.unexpectedToken("'bit'", "';'")],
+            [3, ErrorMessages.unexpectedToken("';'", 'a name')],
+            [4, ErrorMessages.notPreviouslyDefined('q')]
+        ]);
+    });
+
+    it('will only leave out the statement with the error inside the blocks', () => {
+        let input = `OPENQASM 3;
+qubit q;
+if (true) {
+    reset q
+    x = ;
+    reset q;
+}
+ctrl @ @ x q;`;
+
+        let result = parser.parse(input);
+
+        expect(result.errors.map(error => [error.line, error.message])).toEqual([
+            [4, ErrorMessages.unexpectedToken("'x'", "';'")],
+            [4, ErrorMessages.unexpectedToken("';'", 'an expression')],
+            [7, ErrorMessages.unexpectedToken("'@'", "'ctrl', 'negctrl', 'inv', 'pow' or a name")]
+        ]);
+        expect((result.ast as Program).statements[1]).toMatchObject({
+            body: [{ qubit: { identifier: { name: 'q' } } }]
+        });
+    });
+
+    it('will report the unclosed strings, the unexpected characters and the unsupported versions', () => {
+        let input = `OPENQASM 2.5;
+include "stdgates.inc;
+qubit $q;`;
+
+        expect(parser.parse(input).errors.map(error => [error.line, error.start, error.message])).toEqual([
+            [1, 8, ErrorMessages.unterminatedString()],
+            [2, 6, ErrorMessages.unexpectedCharacter('$')],
+            [2, 0, ErrorMessages.unexpectedToken("'qubit'", 'a file name between quotes')],
+            [0, 9, ErrorMessages.unsupportedVersion('2.5')]
+        ]);
+    });
+
+    it('will report the undeclared and the redeclared symbols', () => {
+        let input = `OPENQASM 3;
+qubit q;
+bit q;
+int x = y + 1;
+U(0, 0, 0) r;`;
+
+        expect(messagesOf(input)).toEqual([
+            ErrorMessages.previousDefinitionOf('q'),
+            ErrorMessages.notPreviouslyDefined('y'),
+            ErrorMessages.notPreviouslyDefined('r')
+        ]);
+    });
+
+    it('will check the gates and the subroutines are applied with the right arguments', () => {
+        let input = `OPENQASM 3;
+gate rot(θ) a, b { U(θ, 0, 0) a; U(0, 0, θ) b; }
+def parity(bit[2] bits) -> bit { return bits[0] ^ bits[1]; }
+qubit[2] q;
+bit[2] c;
+rot q[0], q[1];
+rot(1) q[0], q[0];
+c[0] = parity(c, c);
+parity(q);`;
+
+        expect(messagesOf(input)).toEqual([
+            ErrorMessages.wrongNumberOfParameters('rot', 1, 0),
+            ErrorMessages.repeatedQubit('rot', 'q[0]'),
+            ErrorMessages.wrongNumberOfArguments('parity', 1, 2),
+            ErrorMessages.expectingClassicalValue('q')
+        ]);
+    });
+
+    it('will check the quantum and the classical types are not mixed', () => {
+        let input = `OPENQASM 3;
+include "stdgates.inc";
+qubit[2] q;
+bit[2] c;
+int counter;
+const int limit = 4;
+h c[0];
+int value = q[0];
+counter = measure q[0];
+limit = 2;
+q = 1;
+measure q[1] -> counter;`;
+
+        expect(messagesOf(input)).toEqual([
+            ErrorMessages.expectingQubit('c'),
+            ErrorMessages.expectingClassicalValue('q'),
+            ErrorMessages.expectingBit('counter'),
+            ErrorMessages.constantCannotBeAssigned('limit'),
+            ErrorMessages.cannotBeAssigned('q'),
+            ErrorMessages.expectingBit('counter')
+        ]);
+    });
+
+    it('will check the sizes and the indexes of the arrays', () => {
+        let input = `OPENQASM 3;
+int n = 2;
+qubit[n] q;
+qubit[2] r;
+qubit single;
+bit[0] c;
+reset r[2];
+reset single[0];`;
+
+        expect(messagesOf(input)).toEqual([
+            ErrorMessages.expectingPositiveInteger(),
+            ErrorMessages.expectingPositiveInteger(),
+            ErrorMessages.indexOutOfBound('r', 2),
+            ErrorMessages.cannotBeIndexed('single')
+        ]);
+    });
+
+    it('will check where the statements can be used', () => {
+        let input = `OPENQASM 3;
+qubit global;
+break;
+return;
+gate bad a { U(0, 0, 0) global; int x = 1; }
+if (true) {
+    qubit local;
+}
+def inner() {
+    for i in [0:2] {
+        continue;
+    }
+    continue;
+}`;
+
+        expect(messagesOf(input)).toEqual([
+            ErrorMessages.outsideLoop('break'),
+            ErrorMessages.returnOutsideSubroutine(),
+            ErrorMessages.qubitOutsideGate('global', 'bad'),
+            ErrorMessages.onlyGateCallsInGate('bad'),
+            ErrorMessages.onlyInGlobalScope(),
+            ErrorMessages.outsideLoop('continue')
+        ]);
+    });
+});
+
+describe('A versioned QASM parser', () => {
+    let parser = new QASMVersionedParser(new QASMParser(), new QASM3Parser());
+
+    it('will detect the version from the header', () => {
+        expect(QASMVersion.of('// a comment\nOPENQASM 3.0;')).toEqual(3);
+        expect(QASMVersion.of('/* a\ncomment */ OPENQASM 3;')).toEqual(3);
+        expect(QASMVersion.of('OPENQASM 2.0;')).toEqual(2);
+        expect(QASMVersion.of('qreg q[1];')).toEqual(2);
+    });
+
+    it('will keep analyzing the OpenQASM 2.0 files as before', () => {
+        let result = parser.parse('OPENQASM 2.0;\nqreg q[1];\nqubit[1] r;');
+
+        expect(result.errors.length).toBeGreaterThan(0);
+        expect(result.symbolTable.lookup('q')).not.toBeInstanceOf(QubitSymbol);
+    });
+
+    it('will only lint and check the topology of the OpenQASM 2.0 files', () => {
+        let qasm2Parser = new QASMParser();
+        qasm2Parser.lintSettings = QASMConfiguration.defaults().lint;
+        qasm2Parser.topology = { name: 'line2', qubits: 2, couplingMap: [[0, 1]] };
+        let lintingParser = new QASMVersionedParser(qasm2Parser, new QASM3Parser());
+
+        expect(lintingParser.parse('OPENQASM 2.0;\nqreg q[3];').errors.length).toBeGreaterThan(0);
+        expect(lintingParser.parse('OPENQASM 3;\nqubit[3] q;').errors).toEqual([]);
+    });
+
+    it('will analyze the OpenQASM 3 files with the new grammar', () => {
+        let result = parser.parse('OPENQASM 3;\nqubit[1] r;');
+
+        expect(result.errors).toEqual([]);
+        expect(result.symbolTable.lookup('r')).toBeInstanceOf(QubitSymbol);
+    });
+});
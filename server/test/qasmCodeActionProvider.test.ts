@@ -0,0 +1,156 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { Diagnostic, TextEdit } from 'vscode-languageserver/lib/main';
+import { QASMCodeActionProvider } from '../src/qasm/codeActionProvider';
+import { QASMParser } from '../src/qasm/parser';
+import { QuickFixCommand } from '../src/qasm/requests';
+
+describe('A QASM code action provider', () => {
+    let provider = new QASMCodeActionProvider();
+    let parser = new QASMParser();
+    let uri = 'file:///workspace/main.qasm';
+
+    let diagnosticsOf = (input: string): Diagnostic[] =>
+        parser.parse(input, uri).errors.map(error => ({
+            range: {
+                start: { line: error.line, character: error.start },
+                end: { line: error.line, character: error.end }
+            },
+            message: error.message,
+            code: error.code
+        }));
+
+    let fixesFor = (input: string) =>
+        provider.codeActionsFor(uri, input, diagnosticsOf(input)).map(command => {
+            let edits: TextEdit[] = command.arguments[0].changes[uri];
+
+            return { title: command.title, command: command.command, edits };
+        });
+
+    it('will declare the missing registers with the size they are used with', () => {
+        let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+h a[2];
+measure q -> c;`;
+
+        expect(fixesFor(input)).toEqual([
+            {
+                title: 'Declare qreg a[3];',
+                command: QuickFixCommand.command,
+                edits: [
+                    {
+                        range: { start: { line: 3, character: 0 }, end: { line: 3, character: 0 } },
+                        newText: 'qreg a[3];\n'
+                    }
+                ]
+            },
+            {
+                title: 'Declare creg c[2];',
+                command: QuickFixCommand.command,
+                edits: [
+                    {
+                        range: { start: { line: 3, character: 0 }, end: { line: 3, character: 0 } },
+                        newText: 'creg c[2];\n'
+                    }
+                ]
+            }
+        ]);
+    });
+
+    it('will declare the registers used by the conditionals with enough bits for the compared value', () => {
+        let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[1];
+if (flags == 5) x q[0];`;
+
+        expect(fixesFor(input).map(fix => fix.edits[0].newText)).toEqual(['creg flags[3];\n']);
+    });
+
+    it('will include the standard library when its gates are used without it', () => {
+        let input = `OPENQASM 2.0;
+qreg q[2];
+cx q[0], q[1];
+h q[0];
+unknown q[1];`;
+
+        expect(fixesFor(input).map(fix => fix.title)).toEqual([
+            'Add include "qelib1.inc";',
+            'Add include "qelib1.inc";'
+        ]);
+        expect(fixesFor(input)[0].edits).toEqual([
+            {
+                range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } },
+                newText: 'include "qelib1.inc";\n'
+            }
+        ]);
+    });
+
+    it('will enlarge the classical registers too small to hold a measure', () => {
+        let input = `OPENQASM 2.0;
+qreg q[3];
+creg c[2];
+measure q -> c;`;
+
+        expect(fixesFor(input)).toEqual([
+            {
+                title: 'Change the size of c to 3',
+                command: QuickFixCommand.command,
+                edits: [{ range: { start: { line: 2, character: 7 }, end: { line: 2, character: 8 } }, newText: '3' }]
+            }
+        ]);
+    });
+
+    it('will grow the registers referenced beyond their size', () => {
+        let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+creg c[2];
+x q[4];
+measure q[3] -> c[1];`;
+
+        expect(fixesFor(input).map(fix => [fix.title, fix.edits[0].newText])).toEqual([
+            ['Change the size of q to 5', '5'],
+            ['Change the size of q to 5', '5']
+        ]);
+    });
+
+    it('will remove the duplicated declarations', () => {
+        let input = `OPENQASM 2.0;
+qreg q[2];
+qreg q[2];
+gate flip a { U(0, 0, 0) a; } opaque flip a;`;
+
+        expect(fixesFor(input)).toEqual([
+            {
+                title: 'Remove the duplicated declaration of q',
+                command: QuickFixCommand.command,
+                edits: [{ range: { start: { line: 2, character: 0 }, end: { line: 3, character: 0 } }, newText: '' }]
+            },
+            {
+                title: 'Remove the duplicated declaration of flip',
+                command: QuickFixCommand.command,
+                edits: [{ range: { start: { line: 3, character: 30 }, end: { line: 3, character: 44 } }, newText: '' }]
+            }
+        ]);
+    });
+
+    it('will ignore the diagnostics without fixes', () => {
+        let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[1];
+cx q[0], q[0];`;
+
+        expect(diagnosticsOf(input).length).toBeGreaterThan(0);
+        expect(fixesFor(input)).toEqual([]);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import Uri from 'vscode-uri';
+import { QASMDefinitionProvider } from '../src/qasm/definitionProvider';
+import { QASMLibraries } from '../src/qasm/libs/libraries';
+
+describe('A QASM definition provider', () => {
+    let definitionProvider = new QASMDefinitionProvider();
+    let uri = 'file:///circuit.qasm';
+    let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+creg c[2];
+gate bell a, b {
+    h a;
+    cx a, b;
+}
+bell q[0], q[1];
+measure q -> c;
+if (c==1) x q[0];`;
+
+    describe('looking for definitions', () => {
+        it('will find registers declared in the document', () => {
+            let location = definitionProvider.definitionFor(uri, input, { line: 8, character: 6 });
+
+            expect(location).toEqual({
+                uri,
+                range: { start: { line: 2, character: 5 }, end: { line: 2, character: 6 } }
+            });
+        });
+
+        it('will find gates declared in the document', () => {
+            let location = definitionProvider.definitionFor(uri, input, { line: 8, character: 2 });
+
+            expect(location).toEqual({
+                uri,
+                range: { start: { line: 4, character: 5 }, end: { line: 4, character: 9 } }
+            });
+        });
+
+        it('will open the library for gates declared in included files', () => {
+            let location = definitionProvider.definitionFor(uri, input, { line: 10, character: 10 });
+
+            expect(location.uri).toEqual(Uri.file(QASMLibraries.pathOf('qelib1.inc')).toString());
+            expect(location.range.start.line).toBeGreaterThan(0);
+        });
+
+        it('will not find anything in OpenQASM 3 documents', () => {
+            let qasm3Input = 'OPENQASM 3;\nqubit[2] q;\nreset q;';
+
+            expect(definitionProvider.definitionFor(uri, qasm3Input, { line: 2, character: 6 })).toBeNull();
+            expect(definitionProvider.referencesFor(uri, qasm3Input, { line: 1, character: 9 }, true)).toEqual([]);
+        });
+
+        it('will not find anything for keywords', () => {
+            expect(definitionProvider.definitionFor(uri, input, { line: 9, character: 2 })).toBeNull();
+        });
+    });
+
+    describe('looking for references', () => {
+        it('will find every usage of a register', () => {
+            let locations = definitionProvider.referencesFor(uri, input, { line: 2, character: 5 }, false);
+
+            expect(locations.map(location => location.range.start)).toEqual([
+                { line: 8, character: 5 },
+                { line: 8, character: 11 },
+                { line: 9, character: 8 },
+                { line: 10, character: 12 }
+            ]);
+        });
+
+        it('will include the declaration when it is requested', () => {
+            let locations = definitionProvider.referencesFor(uri, input, { line: 3, character: 5 }, true);
+
+            expect(locations.map(location => location.range.start)).toEqual([
+                { line: 3, character: 5 },
+                { line: 9, character: 13 },
+                { line: 10, character: 4 }
+            ]);
+        });
+
+        it('will find the usages of gates inside other gates', () => {
+            let locations = definitionProvider.referencesFor(uri, input, { line: 6, character: 5 }, false);
+
+            expect(locations.map(location => location.range.start)).toEqual([{ line: 6, character: 4 }]);
+        });
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { DiagramBuilder } from '../src/qasm/diagram/diagramBuilder';
+import { OperationType } from '../src/qasm/diagram/types';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+import { ParseErrorLevel } from '../src/types';
+
+describe('A QASM circuit diagram', () => {
+    it('will have a wire for every qubit and classical bit', () => {
+        let diagram = DiagramBuilder.build(`include "qelib1.inc";
+qreg q[2];
+qreg r[1];
+creg c[3];`);
+
+        expect(diagram.quantumRegisters).toEqual([
+            { name: 'q', offset: 0, size: 2 },
+            { name: 'r', offset: 2, size: 1 }
+        ]);
+        expect(diagram.classicalRegisters).toEqual([{ name: 'c', offset: 0, size: 3 }]);
+        expect(diagram.qubits).toEqual(3);
+        expect(diagram.clbits).toEqual(3);
+        expect(diagram.operations).toEqual([]);
+        expect(diagram.errors).toEqual([]);
+    });
+
+    it('will place the gates in columns', () => {
+        let diagram = DiagramBuilder.build(`qreg q[3];
+gate flip a { U(pi,0,pi) a; }
+u3(pi/2, 0, pi) q[0];
+flip q[2];
+CX q[0], q[1];
+flip q[2];`);
+
+        expect(diagram.operations).toEqual([
+            { type: OperationType.Gate, name: 'u3', parameters: ['pi/2', '0', 'pi'], qubits: [0], column: 0 },
+            { type: OperationType.Gate, name: 'flip', parameters: [], qubits: [2], column: 0 },
+            { type: OperationType.Gate, name: 'CX', parameters: [], qubits: [0, 1], column: 1 },
+            { type: OperationType.Gate, name: 'flip', parameters: [], qubits: [2], column: 1 }
+        ]);
+        expect(diagram.columns).toEqual(2);
+    });
+
+    it('will draw a gate for every qubit of the registers it is broadcast to', () => {
+        let diagram = DiagramBuilder.build(`include "qelib1.inc";
+qreg q[2];
+qreg r[2];
+h q;
+cx q, r;`);
+
+        expect(diagram.operations.map(operation => [operation.name, operation.qubits, operation.column])).toEqual([
+            ['h', [0], 0],
+            ['h', [1], 0],
+            ['cx', [0, 2], 1],
+            ['cx', [1, 3], 2]
+        ]);
+    });
+
+    it('will draw measurements, resets and barriers', () => {
+        let diagram = DiagramBuilder.build(`qreg q[2];
+creg c[2];
+reset q[1];
+barrier q;
+measure q -> c;`);
+
+        expect(diagram.operations).toEqual([
+            { type: OperationType.Reset, name: 'reset', parameters: [], qubits: [1], column: 0 },
+            { type: OperationType.Barrier, name: 'barrier', parameters: [], qubits: [0, 1], column: 1 },
+            { type: OperationType.Measure, name: 'measure', parameters: [], qubits: [0], clbit: 0, column: 2 },
+            { type: OperationType.Measure, name: 'measure', parameters: [], qubits: [1], clbit: 1, column: 3 }
+        ]);
+    });
+
+    it('will keep the classical conditions of the operations', () => {
+        let diagram = DiagramBuilder.build(`include "qelib1.inc";
+qreg q[2];
+creg c[1];
+measure q[0] -> c[0];
+if (c==1) x q[1];`);
+
+        expect(diagram.operations[1]).toEqual({
+            type: OperationType.Gate,
+            name: 'x',
+            parameters: [],
+            qubits: [1],
+            condition: { register: 'c', value: 1 },
+            column: 1
+        });
+    });
+
+    it('will ignore the operations over unknown qubits', () => {
+        let diagram = DiagramBuilder.build(`qreg q[1];
+CX q[0], r[0];
+u3(0,0,0) q[3];`);
+
+        expect(diagram.operations).toEqual([]);
+    });
+
+    it('will report the syntax errors', () => {
+        let diagram = DiagramBuilder.build('qreg q[1] creg c[1];');
+
+        expect(diagram.errors.length).toBeGreaterThan(0);
+    });
+
+    it('will not draw OpenQASM 3 documents', () => {
+        let diagram = DiagramBuilder.build('OPENQASM 3;\nqubit q;\nh q;');
+
+        expect(diagram.operations).toEqual([]);
+        expect(diagram.errors).toEqual([
+            {
+                line: 0,
+                start: 0,
+                end: 8,
+                message: ErrorMessages.notSupportedInQASM3('The circuit diagram'),
+                level: ParseErrorLevel.ERROR,
+                code: undefined
+            }
+        ]);
+    });
+});
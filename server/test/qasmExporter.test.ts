@@ -0,0 +1,234 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMExporter } from '../src/qasm/export/exporter';
+import { ExportTarget } from '../src/qasm/export/types';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+import { ParseErrorLevel } from '../src/types';
+
+describe('A QASM exporter', () => {
+    let bell = `include "qelib1.inc";
+qreg q[2];
+creg c[2];
+h q[0];
+cx q[0], q[1];
+measure q -> c;`;
+    let precedence = `include "qelib1.inc";
+qreg q[1];
+rx(pi/2+pi/4) q[0];`;
+
+    describe('to Quil', () => {
+        let options = { target: ExportTarget.Quil, uri: 'file:///workspace/bell.qasm' };
+
+        it('will translate the gates with an equivalent', () => {
+            let result = QASMExporter.run(bell, options);
+
+            expect(result.errors).toEqual([]);
+            expect(result.fileExtension).toEqual('.quil');
+            expect(result.content).toEqual(`DECLARE c BIT[2]
+
+H 0
+CNOT 0 1
+MEASURE 0 c[0]
+MEASURE 1 c[1]
+`);
+        });
+
+        it('will expand the gates without an equivalent', () => {
+            let input = `include "qelib1.inc";
+qreg q[1];
+gate flip a { x a; }
+flip q[0];
+u3(pi, 0, pi) q[0];`;
+
+            expect(QASMExporter.run(input, options).content).toEqual(`X 0
+RZ(${Math.PI}) 0
+RY(${Math.PI}) 0
+RZ(0) 0
+`);
+        });
+
+        it('will evaluate the parameters following the operator precedence', () => {
+            expect(QASMExporter.run(precedence, options).content).toEqual(`RX(${Math.PI / 2 + Math.PI / 4}) 0
+`);
+        });
+
+        it('will translate conditions over a single bit', () => {
+            let input = `include "qelib1.inc";
+qreg q[1];
+creg c[1];
+measure q[0] -> c[0];
+if (c==1) x q[0];`;
+
+            expect(QASMExporter.run(input, options).content).toEqual(`DECLARE c BIT[1]
+
+MEASURE 0 c[0]
+JUMP-UNLESS @skip1 c[0]
+X 0
+LABEL @skip1
+`);
+        });
+
+        it('will report the conditions over whole registers', () => {
+            let input = `include "qelib1.inc";
+qreg q[2];
+creg c[2];
+measure q -> c;
+if (c==3) x q[0];`;
+
+            let result = QASMExporter.run(input, options);
+
+            expect(result.content).not.toContain('X 0');
+            expect(result.errors).toEqual([
+                {
+                    line: 4,
+                    start: 0,
+                    end: 9,
+                    message: ErrorMessages.registerConditionCannotBeExported('c', 'Quil'),
+                    level: ParseErrorLevel.ERROR
+                }
+            ]);
+        });
+    });
+
+    describe('to Cirq', () => {
+        let options = { target: ExportTarget.Cirq };
+
+        it('will write the operations in moments', () => {
+            let result = QASMExporter.run(bell, options);
+            let json = JSON.parse(result.content);
+
+            expect(result.errors).toEqual([]);
+            expect(result.fileExtension).toEqual('.json');
+            expect(json.cirq_type).toEqual('Circuit');
+            expect(json.moments.length).toEqual(3);
+            expect(json.moments[0].operations).toEqual([
+                {
+                    cirq_type: 'GateOperation',
+                    gate: { cirq_type: 'HPowGate', exponent: 1, global_shift: 0 },
+                    qubits: [{ cirq_type: 'LineQubit', x: 0 }]
+                }
+            ]);
+            expect(json.moments[2].operations.map((operation: any) => operation.gate.key)).toEqual(['c[0]', 'c[1]']);
+        });
+
+        it('will evaluate the parameters following the operator precedence', () => {
+            let json = JSON.parse(QASMExporter.run(precedence, options).content);
+
+            expect(json.moments[0].operations[0].gate.cirq_type).toEqual('XPowGate');
+            expect(json.moments[0].operations[0].gate.exponent).toBeCloseTo(0.75);
+        });
+
+        it('will report the classical conditions', () => {
+            let input = `include "qelib1.inc";
+qreg q[1];
+creg c[1];
+if (c==1) x q[0];`;
+
+            let result = QASMExporter.run(input, options);
+
+            expect(JSON.parse(result.content).moments).toEqual([]);
+            expect(result.errors.map(error => error.message)).toEqual([
+                ErrorMessages.conditionCannotBeExported('Cirq')
+            ]);
+        });
+    });
+
+    describe('to Q#', () => {
+        let options = { target: ExportTarget.QSharp, uri: 'file:///workspace/bell.qasm' };
+
+        it('will write an operation named after the file', () => {
+            let result = QASMExporter.run(bell, options);
+
+            expect(result.errors).toEqual([]);
+            expect(result.fileExtension).toEqual('.qs');
+            expect(result.content).toEqual(`namespace Qasm {
+    open Microsoft.Quantum.Intrinsic;
+
+    operation Bell() : Result[] {
+        mutable c = new Result[2];
+        using (q = Qubit[2]) {
+            H(q[0]);
+            CNOT(q[0], q[1]);
+            set c w/= 0 <- M(q[0]);
+            set c w/= 1 <- M(q[1]);
+            ResetAll(q);
+        }
+
+        return c;
+    }
+}
+`);
+        });
+
+        it('will use doubles as parameters and translate conditions over a single bit', () => {
+            let input = `include "qelib1.inc";
+qreg q[1];
+qreg r[1];
+creg c[1];
+creg d[1];
+rx(1) q[0];
+measure q[0] -> c[0];
+if (c==0) reset r;`;
+
+            expect(QASMExporter.run(input, options).content).toContain(`operation Bell() : (Result[], Result[]) {
+        mutable c = new Result[1];
+        mutable d = new Result[1];
+        using ((q, r) = (Qubit[1], Qubit[1])) {
+            Rx(1.0, q[0]);
+            set c w/= 0 <- M(q[0]);
+            if (c[0] == Zero) {
+                Reset(r[0]);
+            }
+            ResetAll(q);
+            ResetAll(r);
+        }
+
+        return (c, d);
+    }`);
+        });
+
+        it('will evaluate the parameters following the operator precedence', () => {
+            expect(QASMExporter.run(precedence, options).content).toContain(`Rx(${Math.PI / 2 + Math.PI / 4}, q[0]);`);
+        });
+    });
+
+    it('will report the opaque gates and the barriers', () => {
+        let input = `qreg q[1];
+opaque magic a;
+magic q[0];
+barrier q;`;
+
+        let result = QASMExporter.run(input, { target: ExportTarget.QSharp });
+
+        expect(result.errors.map(error => [error.message, error.level])).toEqual([
+            [ErrorMessages.opaqueGateCannotBeExported('magic', 'Q#'), ParseErrorLevel.ERROR],
+            [ErrorMessages.barrierNotExported('Q#'), ParseErrorLevel.WARNING]
+        ]);
+        expect(result.content).toContain('operation Circuit() : Unit {');
+    });
+
+    it('will not export code with errors', () => {
+        let result = QASMExporter.run('qreg q[1]; h q[0];', { target: ExportTarget.Quil });
+
+        expect(result.content).toBeNull();
+        expect(result.errors.length).toBeGreaterThan(0);
+    });
+
+    it('will not export OpenQASM 3 documents', () => {
+        let result = QASMExporter.run('// Bell state\nOPENQASM 3;\nqubit[2] q;', { target: ExportTarget.Quil });
+
+        expect(result.content).toBeNull();
+        expect(result.errors.map(error => [error.line, error.start, error.message])).toEqual([
+            [1, 0, ErrorMessages.notSupportedInQASM3('Export')]
+        ]);
+    });
+});
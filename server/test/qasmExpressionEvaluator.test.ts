@@ -0,0 +1,54 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ANTLRInputStream, CommonTokenStream } from 'antlr4ts';
+import { QasmLexer } from '../src/qasm/antlr/QasmLexer';
+import { QasmParser } from '../src/qasm/antlr/QasmParser';
+import { ExpressionEvaluator } from '../src/qasm/compiler/expressionEvaluator';
+
+describe('A QASM expression evaluator', () => {
+    let evaluate = (expression: string, parameters: Map<string, number> = new Map()): number => {
+        let lexer = new QasmLexer(new ANTLRInputStream(expression));
+        let parser = new QasmParser(new CommonTokenStream(lexer));
+
+        return parser.exp().accept(new ExpressionEvaluator(parameters));
+    };
+
+    it('will multiply before adding', () => {
+        expect(evaluate('1+2*3')).toEqual(7);
+        expect(evaluate('2*3+1')).toEqual(7);
+    });
+
+    it('will divide before adding', () => {
+        expect(evaluate('pi/2+pi/2')).toBeCloseTo(Math.PI);
+        expect(evaluate('pi/2+pi/4')).toBeCloseTo((3 * Math.PI) / 4);
+    });
+
+    it('will subtract and divide from left to right', () => {
+        expect(evaluate('10-4-3')).toEqual(3);
+        expect(evaluate('8/4/2')).toEqual(1);
+        expect(evaluate('8/4*2')).toEqual(4);
+    });
+
+    it('will raise to powers before any other operation, from right to left', () => {
+        expect(evaluate('2*3^2')).toEqual(18);
+        expect(evaluate('2^3^2')).toEqual(512);
+        expect(evaluate('-2^2')).toEqual(-4);
+    });
+
+    it('will apply the parentheses first', () => {
+        expect(evaluate('(1+2)*3')).toEqual(9);
+    });
+
+    it('will use the values of the parameters', () => {
+        expect(evaluate('theta/2+phi*2', new Map([['theta', 1], ['phi', 2]]))).toEqual(4.5);
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMFormatter } from '../src/qasm/formatter';
+import { QASMConfiguration } from '../src/qasm/settings';
+
+describe('A QASM formatter', () => {
+    let formatter = new QASMFormatter();
+    let options = { tabSize: 4, insertSpaces: true };
+    let settings = QASMConfiguration.defaults().format;
+
+    let formatted = (input: string, formatSettings = settings) => {
+        let edits = formatter.format(input, options, formatSettings);
+        expect(edits.length).toEqual(1);
+
+        return edits[0].newText;
+    };
+
+    it('will put every statement in its own line', () => {
+        let input = `OPENQASM 2.0;include "qelib1.inc";   qreg q[2]; creg  c[2];
+h q[0];cx q[0],q[1];measure q->c;`;
+
+        expect(formatted(input)).toEqual(`OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+creg c[2];
+h q[0];
+cx q[0], q[1];
+measure q -> c;
+`);
+    });
+
+    it('will indent the body of the gates', () => {
+        let input = `gate  rot(theta,phi)a,b{U(theta,-phi/2,pi) a;CX a,b;}
+gate empty a {}`;
+
+        expect(formatted(input)).toEqual(`gate rot(theta, phi) a, b {
+    U(theta, -phi/2, pi) a;
+    CX a, b;
+}
+gate empty a {
+}
+`);
+    });
+
+    it('will normalize conditionals and expressions', () => {
+        let input = `qreg q[1];
+creg c[1];
+if(c == 1) u3( - pi , sin(pi*2) , 0 ) q[0];`;
+
+        expect(formatted(input)).toEqual(`qreg q[1];
+creg c[1];
+if (c==1) u3(-pi, sin(pi*2), 0) q[0];
+`);
+    });
+
+    it('will use the formatting settings', () => {
+        let input = `qreg q[2];
+
+
+gate g(a) x, y { U(a+1, 0, 0) x; }
+g(pi/2) q[0],q[1];`;
+        let custom = { spaceAfterComma: false, spaceAroundOperators: true, maxBlankLines: 0 };
+
+        expect(formatter.format(input, { tabSize: 2, insertSpaces: false }, custom)[0].newText).toEqual(`qreg q[2];
+gate g(a) x,y {
+\tU(a + 1,0,0) x;
+}
+g(pi / 2) q[0],q[1];
+`);
+    });
+
+    it('will keep the comments and the blank lines', () => {
+        let input = `// Bell state
+qreg q[2];  // two qubits
+
+
+
+gate bell a, b {
+  // entangle
+  h a;
+  cx a, b;
+}
+// end`;
+
+        expect(formatted(input)).toEqual(`// Bell state
+qreg q[2]; // two qubits
+
+gate bell a, b {
+    // entangle
+    h a;
+    cx a, b;
+}
+// end
+`);
+    });
+
+    it('will keep the trailing comments after the last statement of their line', () => {
+        let input = `qreg a[1];
+qreg b[1];
+cx a,b;   u1(theta) b; // trailing`;
+
+        expect(formatted(input)).toEqual(`qreg a[1];
+qreg b[1];
+cx a, b;
+u1(theta) b; // trailing
+`);
+    });
+
+    it('will not change code with syntax errors', () => {
+        expect(formatter.format('qreg q[2] creg c[2];', options, settings)).toEqual([]);
+    });
+
+    it('will not change OpenQASM 3 documents', () => {
+        let input = 'OPENQASM 3;\nqubit[2]   q;\nreset q;';
+        let range = { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } };
+
+        expect(formatter.format(input, options, settings)).toEqual([]);
+        expect(formatter.formatRange(input, range, options, settings)).toEqual([]);
+    });
+
+    it('will not change code already formatted', () => {
+        expect(formatter.format('qreg q[2];\nh q[0];\n', options, settings)).toEqual([]);
+    });
+
+    it('will format only the statements within a range', () => {
+        let input = `qreg   q[2];
+h q[0];cx q[0],
+   q[1];
+measure   q -> c;`;
+        let range = { start: { line: 2, character: 0 }, end: { line: 2, character: 2 } };
+
+        let edits = formatter.formatRange(input, range, options, settings);
+
+        expect(edits).toEqual([
+            {
+                range: { start: { line: 1, character: 0 }, end: { line: 3, character: 0 } },
+                newText: 'h q[0];\ncx q[0], q[1];\n'
+            }
+        ]);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMHoverProvider } from '../src/qasm/hoverProvider';
+
+describe('A QASM hover provider', () => {
+    let hoverProvider = new QASMHoverProvider();
+    let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[3];
+creg c[3];
+// flips both qubits
+gate flip(angle) a, b {
+    U(angle, 0, pi) a;
+}
+opaque magic q;
+u3(pi, 0, pi) q[0];
+flip(pi) q[0], q[1];
+measure q -> c;`;
+
+    it('will show the size of quantum registers', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 9, character: 15 });
+
+        expect(hover.contents).toEqual([{ language: 'qasm-lang', value: 'qreg q[3]' }, 'Quantum register of 3 qubits']);
+        expect(hover.range).toEqual({ start: { line: 9, character: 14 }, end: { line: 9, character: 15 } });
+    });
+
+    it('will show the size of classical registers', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 11, character: 13 });
+
+        expect(hover.contents).toEqual([{ language: 'qasm-lang', value: 'creg c[3]' }, 'Classical register of 3 bits']);
+    });
+
+    it('will show the signature and the comment of a user gate', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 10, character: 1 });
+
+        expect(hover.contents).toEqual([
+            { language: 'qasm-lang', value: 'gate flip(angle) a, b' },
+            'flips both qubits'
+        ]);
+    });
+
+    it('will show the documentation of the gates included from qelib1.inc', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 9, character: 1 });
+
+        expect(hover.contents).toEqual([
+            { language: 'qasm-lang', value: 'gate u3(theta, phi, lambda) q' },
+            '3-parameter 2-pulse single qubit gate'
+        ]);
+    });
+
+    it('will show opaque gates signature', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 8, character: 9 });
+
+        expect(hover.contents).toEqual([{ language: 'qasm-lang', value: 'opaque magic q' }]);
+    });
+
+    it('will describe the builtin instructions', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 11, character: 2 });
+
+        expect(hover.contents).toEqual([
+            { language: 'qasm-lang', value: 'Measurement' },
+            'Measurement in the computational (standard) basis (Z).'
+        ]);
+    });
+
+    it('will describe the parameters of a gate', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 6, character: 8 });
+
+        expect(hover.contents).toEqual([{ language: 'qasm-lang', value: 'angle' }, 'Parameter of gate flip']);
+    });
+
+    it('will show the value of the parameters of a gate application', () => {
+        let hover = hoverProvider.hoverFor('qreg q[1];\nu3(sin(pi/2)*2, 0, 0) q[0];', { line: 1, character: 4 });
+
+        expect(hover.contents).toEqual(['`sin(pi/2)*2` evaluates to 2']);
+    });
+
+    it('will not show values of the expressions inside gate definitions', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 6, character: 13 });
+
+        expect(hover).toBeNull();
+    });
+
+    it('will not show anything for unknown symbols', () => {
+        expect(hoverProvider.hoverFor('foo q[0];', { line: 0, character: 1 })).toBeNull();
+    });
+
+    it('will not show anything for OpenQASM 3 documents', () => {
+        expect(hoverProvider.hoverFor('OPENQASM 3;\nqubit[2] q;\nreset q;', { line: 2, character: 6 })).toBeNull();
+    });
+
+    it('will not show anything out of the tokens', () => {
+        expect(hoverProvider.hoverFor(input, { line: 20, character: 0 })).toBeNull();
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMParser } from '../src/qasm/parser';
+import { QASMIncludeResolver } from '../src/qasm/libs/includeResolver';
+import { QASMLibraries } from '../src/qasm/libs/libraries';
+import { QASMSimulator } from '../src/qasm/simulator/simulator';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+import { GateSymbol } from '../src/qasm/compiler/symbolTable';
+
+describe('A QASM include', () => {
+    let files: { [file: string]: string } = {
+        '/workspace/mygates.inc': 'gate flip a { U(pi,0,pi) a; }',
+        '/workspace/nested.inc': 'include "mygates.inc"; gate flipflop a { flip a; flip a; }',
+        '/workspace/first.inc': 'include "second.inc";',
+        '/workspace/second.inc': 'include "first.inc";',
+        '/workspace/broken.inc': 'gate broken a { U(0,0,0) a }',
+        '/shared/sharedgates.inc': 'gate shared a { U(0,0,0) a; }'
+    };
+    let uri = 'file:///workspace/main.qasm';
+    let includeResolver = new QASMIncludeResolver(file => files[file]);
+    let parser = new QASMParser(includeResolver);
+
+    it('will find the libraries next to the document', () => {
+        let result = parser.parse('include "mygates.inc"; qreg q[1]; flip q[0];', uri);
+
+        expect(result.errors).toEqual([]);
+        expect(result.symbolTable.lookup('flip')).toBeInstanceOf(GateSymbol);
+        expect(result.dependencies).toEqual(['/workspace/mygates.inc']);
+    });
+
+    it('will resolve nested includes relative to the including file', () => {
+        let result = parser.parse('include "nested.inc"; qreg q[1]; flipflop q[0];', uri);
+
+        expect(result.errors).toEqual([]);
+        expect(result.dependencies).toEqual(['/workspace/nested.inc', '/workspace/mygates.inc']);
+    });
+
+    it('will find the libraries in the search paths', () => {
+        let resolver = new QASMIncludeResolver(file => files[file]);
+        resolver.searchPaths = ['/shared'];
+
+        let result = new QASMParser(resolver).parse('include "sharedgates.inc"; qreg q[1]; shared q[0];', uri);
+
+        expect(result.errors).toEqual([]);
+        expect(result.dependencies).toEqual(['/shared/sharedgates.inc']);
+    });
+
+    it('will use the bundled libraries when the file is not found', () => {
+        let result = parser.parse('include "qelib1.inc"; qreg q[1]; h q[0];', uri);
+
+        expect(result.errors).toEqual([]);
+        expect(result.dependencies).toEqual([QASMLibraries.pathOf('qelib1.inc')]);
+    });
+
+    it('will report a missing library at the include', () => {
+        let result = parser.parse('include "missing.inc";', uri);
+
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toMatchObject({
+            message: ErrorMessages.libraryNotFound('missing.inc'),
+            line: 0,
+            start: 9,
+            end: 20
+        });
+    });
+
+    it('will report a cycle of includes', () => {
+        let result = parser.parse('include "second.inc";', 'file:///workspace/first.inc');
+
+        expect(result.errors.map(error => error.message)).toEqual([
+            ErrorMessages.errorsInLibrary('second.inc', ErrorMessages.includeCycle('first.inc'))
+        ]);
+    });
+
+    it('will report the errors found inside a library', () => {
+        let result = parser.parse('include "broken.inc";', uri);
+
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].message).toContain(ErrorMessages.errorsInLibrary('broken.inc', ''));
+    });
+
+    it('will simulate the gates defined in a library', () => {
+        let input = 'include "mygates.inc"; qreg q[1]; creg c[1]; flip q[0]; measure q -> c;';
+
+        let result = QASMSimulator.run(input, { shots: 10, seed: 1, uri }, includeResolver);
+
+        expect(result.errors).toEqual([]);
+        expect(result.counts).toEqual({ '1': 10 });
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMParser } from '../src/qasm/parser';
+import { QASMConfiguration } from '../src/qasm/settings';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+import { DiagnosticTag, ParseErrorLevel } from '../src/types';
+
+describe('A QASM linter', () => {
+    let parser = new QASMParser();
+    parser.lintSettings = QASMConfiguration.defaults().lint;
+
+    let messagesOf = (input: string) => parser.parse(input).errors.map(error => error.message);
+
+    it('will warn about unused registers', () => {
+        let errors = parser.parse(`qreg q[1];
+qreg unused[2];
+creg c[1];
+measure q -> c;`).errors;
+
+        expect(errors).toEqual([
+            {
+                line: 1,
+                start: 5,
+                end: 11,
+                message: ErrorMessages.unusedRegister('unused'),
+                level: ParseErrorLevel.WARNING,
+                tags: [DiagnosticTag.Unnecessary]
+            }
+        ]);
+    });
+
+    it('will warn about unused gates', () => {
+        expect(
+            messagesOf(`qreg q[1];
+creg c[1];
+gate flip a { U(pi,0,pi) a; }
+gate used a { U(0,0,0) a; }
+used q[0];
+measure q -> c;`)
+        ).toEqual([ErrorMessages.unusedGate('flip')]);
+    });
+
+    it('will not warn about the gates of the included libraries', () => {
+        expect(messagesOf('include "qelib1.inc"; qreg q[1]; creg c[1]; h q[0]; measure q -> c;')).toEqual([]);
+    });
+
+    it('will warn about measurements overwritten before being read', () => {
+        let errors = parser.parse(`qreg q[2];
+creg c[2];
+measure q[0] -> c[0];
+measure q[1] -> c[0];
+measure q -> c;`).errors;
+
+        expect(errors.map(error => [error.message, error.line])).toEqual([
+            [ErrorMessages.overwrittenMeasurement('c[0]'), 2],
+            [ErrorMessages.overwrittenMeasurement('c[0]'), 3]
+        ]);
+    });
+
+    it('will not warn about measurements read by a conditional', () => {
+        expect(
+            messagesOf(`qreg q[1];
+creg c[1];
+measure q -> c;
+if (c==1) reset q;
+measure q -> c;`)
+        ).toEqual([]);
+    });
+
+    it('will warn about operations after the final measurement', () => {
+        let errors = parser.parse(`include "qelib1.inc";
+qreg q[2];
+creg c[2];
+h q[0];
+measure q -> c;
+cx q[0], q[1];
+x q[1];`).errors;
+
+        expect(errors.map(error => [error.message, error.line, error.start])).toEqual([
+            [ErrorMessages.operationAfterFinalMeasurement(), 5, 0],
+            [ErrorMessages.operationAfterFinalMeasurement(), 6, 0]
+        ]);
+    });
+
+    it('will not warn about operations followed by another measurement', () => {
+        expect(
+            messagesOf(`include "qelib1.inc";
+qreg q[1];
+creg c[1];
+creg d[1];
+measure q -> c;
+x q[0];
+measure q -> d;`)
+        ).toEqual([]);
+    });
+
+    it('will not warn about operations over qubits not measured yet', () => {
+        expect(
+            messagesOf(`include "qelib1.inc";
+qreg q[2];
+creg c[2];
+measure q[0] -> c[0];
+cx q[0], q[1];
+measure q[1] -> c[1];`)
+        ).toEqual([]);
+    });
+
+    it('will only report the warnings enabled in the settings', () => {
+        let customParser = new QASMParser();
+        customParser.lintSettings = {
+            unusedRegisters: false,
+            unusedGates: true,
+            overwrittenMeasurements: false,
+            operationsAfterMeasurement: true
+        };
+
+        let errors = customParser.parse(`qreg q[1];
+qreg unused[1];
+creg c[1];
+gate flip a { U(pi,0,pi) a; }
+measure q -> c;
+measure q -> c;
+reset q;`).errors;
+
+        expect(errors.map(error => error.message)).toEqual([
+            ErrorMessages.unusedGate('flip'),
+            ErrorMessages.operationAfterFinalMeasurement()
+        ]);
+    });
+
+    it('will not report anything without settings', () => {
+        expect(new QASMParser().parse('qreg q[1]; qreg unused[1];').errors).toEqual([]);
+    });
+});
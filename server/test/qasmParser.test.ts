@@ -10,7 +10,7 @@
 'use strict';
 
 import { QASMParser } from '../src/qasm/parser';
-import { Parser, ParseErrorLevel, ParserError } from '../src/types';
+import { Parser, ParseErrorLevel, ParserError, ErrorCode } from '../src/types';
 import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
 
 describe('A QASM parser', () => {
@@ -62,7 +62,7 @@ describe('A QASM parser', () => {
 
         it('will accept gates definition', () => {
             let input = `
-        gate u1(lamda) q {
+        gate u1(lambda) q {
           U(0,0,lambda) q;
         }
         `;
@@ -178,6 +178,7 @@ describe('A QASM parser', () => {
 
             Expect.oneErrorLike({
                 message: ErrorMessages.notPreviouslyDefined('foo'),
+                code: ErrorCode.UndefinedSymbol,
                 start: 28,
                 end: 31
             }).at(result.errors);
@@ -192,6 +193,7 @@ describe('A QASM parser', () => {
 
             Expect.oneWarningLike({
                 message: ErrorMessages.previousDefinitionOf('q'),
+                code: ErrorCode.PreviousDefinition,
                 start: 25,
                 end: 26
             }).at(result.errors);
@@ -204,6 +206,7 @@ describe('A QASM parser', () => {
 
             Expect.oneWarningLike({
                 message: ErrorMessages.previousDefinitionOf('q'),
+                code: ErrorCode.PreviousDefinition,
                 start: 15,
                 end: 16
             }).at(result.errors);
@@ -218,6 +221,7 @@ describe('A QASM parser', () => {
 
             Expect.oneWarningLike({
                 message: ErrorMessages.previousDefinitionOf('cx'),
+                code: ErrorCode.PreviousDefinition,
                 start: 16,
                 end: 18
             }).at(result.errors);
@@ -230,6 +234,7 @@ describe('A QASM parser', () => {
 
             Expect.oneWarningLike({
                 message: ErrorMessages.previousDefinitionOf('foo'),
+                code: ErrorCode.PreviousDefinition,
                 start: 19,
                 end: 22
             }).at(result.errors);
@@ -246,6 +251,7 @@ describe('A QASM parser', () => {
 
             Expect.oneErrorLike({
                 message: ErrorMessages.indexOutOfBound('foo', registerSize),
+                code: ErrorCode.IndexOutOfBound,
                 start: 32,
                 end: 35
             }).at(result.errors);
@@ -270,6 +276,7 @@ describe('A QASM parser', () => {
 
             Expect.oneErrorLike({
                 message: ErrorMessages.classicalRegisterTooSmall('foo', 'bar'),
+                code: ErrorCode.RegisterTooSmall,
                 start: 39,
                 end: 42
             }).at(result.errors);
@@ -282,20 +289,21 @@ describe('A QASM parser', () => {
 
             Expect.oneErrorLike({
                 message: ErrorMessages.notPreviouslyDefined('u1'),
+                code: ErrorCode.UndefinedSymbol,
                 start: 10,
                 end: 12
             }).at(result.errors);
         });
 
         it('if a creg is used as a qreg when a gate is invoked', () => {
-            let input = `gate u1(lamda) q {U(0,0,lambda) q;} creg c[5]; u1(pi) c;`;
+            let input = `gate u1(lambda) q {U(0,0,lambda) q;} creg c[5]; u1(pi) c;`;
 
             let result = parser.parse(input);
 
             Expect.oneErrorLike({
                 message: ErrorMessages.expectingQuantumRegister('c'),
-                start: 54,
-                end: 55
+                start: 55,
+                end: 56
             }).at(result.errors);
         });
 
@@ -342,6 +350,7 @@ describe('A QASM parser', () => {
 
             Expect.oneWarningLike({
                 message: ErrorMessages.previousDefinitionOf('a'),
+                code: ErrorCode.PreviousDefinition,
                 start: 24,
                 end: 25
             }).at(result.errors);
@@ -378,6 +387,7 @@ describe('A QASM parser', () => {
 
             Expect.oneErrorLike({
                 message: ErrorMessages.notPreviouslyDefined('a'),
+                code: ErrorCode.UndefinedSymbol,
                 start: 23,
                 end: 24
             }).at(result.errors);
@@ -394,6 +404,134 @@ describe('A QASM parser', () => {
                 end: 45
             }).at(result.errors);
         });
+
+        it('if a gate is applied with a wrong number of parameters', () => {
+            let input = `include "qelib1.inc";qreg q[2];u3(0.1) q[0];`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.wrongNumberOfParameters('u3', 3, 1),
+                start: 31,
+                end: 33
+            }).at(result.errors);
+        });
+
+        it('if a gate is applied to a wrong number of qubits', () => {
+            let input = `include "qelib1.inc";qreg q[2];cx q[0];`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.wrongNumberOfQubits('cx', 2, 1),
+                start: 31,
+                end: 33
+            }).at(result.errors);
+        });
+
+        it('with the number of arguments in singular or plural', () => {
+            let input = `include "qelib1.inc";qreg q[2];cx q[0];h q[0], q[1];`;
+
+            expect(parser.parse(input).errors.map(error => error.message)).toEqual([
+                'Gate cx expects 2 qubit arguments but 1 was given.',
+                'Gate h expects 1 qubit argument but 2 were given.'
+            ]);
+        });
+
+        it('if a gate inside a gate definition is applied with wrong arguments', () => {
+            let input = `gate g(theta) a {U(theta,0,0) a;} gate h a, b {g a, b;}`;
+
+            let result = parser.parse(input);
+
+            expect(result.errors.map(error => error.message)).toEqual([
+                ErrorMessages.wrongNumberOfParameters('g', 1, 0),
+                ErrorMessages.wrongNumberOfQubits('g', 1, 2)
+            ]);
+        });
+
+        it('if a qubit is repeated in the same gate application', () => {
+            let input = `include "qelib1.inc";qreg q[2];cx q[0],q[0];`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.repeatedQubit('cx', 'q[0]'),
+                start: 39,
+                end: 40
+            }).at(result.errors);
+        });
+
+        it('if an expression uses a parameter not declared by the gate', () => {
+            let input = `gate g(theta) a {U(theta,phi,0) a;}`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.undefinedParameter('phi'),
+                start: 25,
+                end: 28
+            }).at(result.errors);
+        });
+
+        it('if an expression outside of a gate uses an identifier', () => {
+            let input = `include "qelib1.inc";qreg q[1];u1(theta) q[0];`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.undefinedParameter('theta'),
+                start: 34,
+                end: 39
+            }).at(result.errors);
+        });
+
+        it('if an expression divides by zero', () => {
+            let input = `include "qelib1.inc";qreg q[1];u1(pi/(1-1)) q[0];`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.divisionByZero(),
+                start: 36,
+                end: 37
+            }).at(result.errors);
+        });
+
+        it('if a register is broadcast together with one of its qubits', () => {
+            let input = `qreg q[2];CX q,q[1];`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.qubitInBroadcastRegister('q[1]', 'q'),
+                start: 15,
+                end: 16
+            }).at(result.errors);
+        });
+
+        it('if registers of different sizes are broadcast', () => {
+            let input = `include "qelib1.inc";qreg a[2];qreg b[3];cx a,b;`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.registersOfDifferentSize('b', 3, 'a', 2),
+                start: 46,
+                end: 47
+            }).at(result.errors);
+        });
+
+        it('if registers of different sizes are broadcast in a CX', () => {
+            let input = `qreg a[2];qreg b[1];CX a,b;`;
+
+            let result = parser.parse(input);
+
+            Expect.oneErrorLike({
+                message: ErrorMessages.registersOfDifferentSize('b', 1, 'a', 2),
+                start: 25,
+                end: 26
+            }).at(result.errors);
+        });
     });
 });
 
@@ -421,7 +559,8 @@ class OneErrorLike {
             line: this.expectedError.line || 0,
             start: this.expectedError.start,
             end: this.expectedError.end,
-            level: ParseErrorLevel.ERROR
+            level: ParseErrorLevel.ERROR,
+            code: this.expectedError.code
         });
     }
 }
@@ -440,7 +579,8 @@ class OneWarningLike {
             line: this.expectedError.line || 0,
             start: this.expectedError.start,
             end: this.expectedError.end,
-            level: ParseErrorLevel.WARNING
+            level: ParseErrorLevel.WARNING,
+            code: this.expectedError.code
         });
     }
 }
@@ -453,4 +593,6 @@ interface Error {
     end: number;
 
     line?: number;
+
+    code?: ErrorCode;
 }
@@ -0,0 +1,119 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { ResponseError, WorkspaceEdit } from 'vscode-languageserver/lib/main';
+import { QASMRenameProvider } from '../src/qasm/renameProvider';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+
+describe('A QASM rename provider', () => {
+    let renameProvider = new QASMRenameProvider();
+    let uri = 'file:///circuit.qasm';
+    let input = `include "qelib1.inc";
+qreg q[2];
+creg c[2];
+gate bell a, b {
+    h a;
+    cx a, b;
+}
+bell q[0], q[1];
+measure q -> c;
+if (c==1) x q[0];`;
+
+    describe('preparing a rename', () => {
+        it('will return the range of a declared symbol', () => {
+            let range = renameProvider.prepareRenameFor(input, { line: 8, character: 13 });
+
+            expect(range).toEqual({ start: { line: 8, character: 13 }, end: { line: 8, character: 14 } });
+        });
+
+        it('will refuse keywords and gates declared in included files', () => {
+            let keyword = renameProvider.prepareRenameFor(input, { line: 8, character: 2 }) as ResponseError<void>;
+            let included = renameProvider.prepareRenameFor(input, { line: 9, character: 10 }) as ResponseError<void>;
+
+            expect(keyword.message).toEqual(ErrorMessages.onlyDeclaredSymbolsCanBeRenamed());
+            expect(included.message).toEqual(ErrorMessages.includedSymbolCannotBeRenamed('x'));
+        });
+    });
+
+    describe('renaming', () => {
+        it('will refuse keywords', () => {
+            let result = renameProvider.renameFor(uri, input, { line: 8, character: 2 }, 'm') as ResponseError<void>;
+
+            expect(result.message).toEqual(ErrorMessages.onlyDeclaredSymbolsCanBeRenamed());
+        });
+
+        it('will refuse OpenQASM 3 documents', () => {
+            let qasm3Input = 'OPENQASM 3;\nqubit[2] q;\nreset q;';
+            let rename = renameProvider.renameFor(uri, qasm3Input, { line: 2, character: 6 }, 'r');
+            let preparation = renameProvider.prepareRenameFor(qasm3Input, { line: 2, character: 6 });
+
+            expect((rename as ResponseError<void>).message).toEqual(ErrorMessages.renameNotSupportedInQASM3());
+            expect((preparation as ResponseError<void>).message).toEqual(ErrorMessages.renameNotSupportedInQASM3());
+        });
+
+        it('will refuse gates declared in included files', () => {
+            let result = renameProvider.renameFor(uri, input, { line: 9, character: 10 }, 'y') as ResponseError<void>;
+
+            expect(result.message).toEqual(ErrorMessages.includedSymbolCannotBeRenamed('x'));
+        });
+
+        it('will change the declaration and every usage of a register', () => {
+            let edit = renameProvider.renameFor(uri, input, { line: 2, character: 5 }, 'result') as WorkspaceEdit;
+
+            expect(edit.changes[uri].map(change => change.range.start)).toEqual([
+                { line: 2, character: 5 },
+                { line: 8, character: 13 },
+                { line: 9, character: 4 }
+            ]);
+            expect(edit.changes[uri].every(change => change.newText === 'result')).toBeTruthy();
+        });
+
+        it('will change the declaration and every application of a gate', () => {
+            let edit = renameProvider.renameFor(uri, input, { line: 7, character: 1 }, 'entangle') as WorkspaceEdit;
+
+            expect(edit.changes[uri].map(change => change.range.start)).toEqual([
+                { line: 3, character: 5 },
+                { line: 7, character: 0 }
+            ]);
+        });
+
+        it('will refuse names colliding with existing symbols', () => {
+            let result = renameProvider.renameFor(uri, input, { line: 1, character: 5 }, 'h') as ResponseError<void>;
+
+            expect(result.message).toEqual(ErrorMessages.previousDefinitionOf('h'));
+        });
+
+        it('will refuse gate parameters named after the arguments of the same gate', () => {
+            let rotation = `gate rotate(theta, phi) a {
+    U(theta, phi, 0) a;
+}`;
+
+            let qubit = renameProvider.renameFor(uri, rotation, { line: 0, character: 13 }, 'a') as ResponseError<void>;
+            let parameter = renameProvider.renameFor(uri, rotation, { line: 1, character: 7 }, 'phi');
+            let edit = renameProvider.renameFor(uri, rotation, { line: 1, character: 7 }, 'lambda') as WorkspaceEdit;
+
+            expect(qubit.message).toEqual(ErrorMessages.previousDefinitionOf('a'));
+            expect((parameter as ResponseError<void>).message).toEqual(ErrorMessages.previousDefinitionOf('phi'));
+            expect(edit.changes[uri].map(change => change.range.start)).toEqual([
+                { line: 0, character: 12 },
+                { line: 1, character: 6 }
+            ]);
+        });
+
+        it('will refuse names that are not identifiers', () => {
+            let keyword = renameProvider.renameFor(uri, input, { line: 1, character: 5 }, 'measure');
+            let uppercase = renameProvider.renameFor(uri, input, { line: 1, character: 5 }, 'Qreg');
+
+            expect((keyword as ResponseError<void>).message).toEqual(ErrorMessages.invalidIdentifier('measure'));
+            expect((uppercase as ResponseError<void>).message).toEqual(ErrorMessages.invalidIdentifier('Qreg'));
+        });
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMResourceEstimator } from '../src/qasm/resources/resourceEstimator';
+import { QASMResourceLensProvider } from '../src/qasm/resourceLensProvider';
+import { ResourceReportRequest } from '../src/qasm/requests';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+
+describe('A QASM resource estimator', () => {
+    let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[3];
+creg c[2];
+gate bell a, b {
+    h a;
+    cx a, b;
+}
+bell q[0], q[1];
+barrier q;
+measure q[0] -> c[0];
+measure q[1] -> c[1];
+if (c == 3) x q[0];`;
+
+    it('will count the gates as they are applied', () => {
+        let report = QASMResourceEstimator.estimate(input, { expandGates: false });
+
+        expect(report.errors).toEqual([]);
+        expect(report.circuit).toEqual({
+            depth: 3,
+            gates: 2,
+            gateCounts: { bell: 1, x: 1 },
+            cnots: 0,
+            usedQubits: 2,
+            declaredQubits: 3
+        });
+    });
+
+    it('will count the gates expanded into U and CX', () => {
+        let report = QASMResourceEstimator.estimate(input, { expandGates: true });
+
+        expect(report.circuit).toEqual({
+            depth: 4,
+            gates: 3,
+            gateCounts: { U: 2, CX: 1 },
+            cnots: 1,
+            usedQubits: 2,
+            declaredQubits: 3
+        });
+    });
+
+    it('will estimate the gates defined in the document', () => {
+        let report = QASMResourceEstimator.estimate(input, { expandGates: false });
+
+        expect(report.headerLine).toEqual(0);
+        expect(report.definedGates).toEqual([
+            {
+                gate: 'bell',
+                line: 4,
+                estimate: {
+                    depth: 2,
+                    gates: 2,
+                    gateCounts: { h: 1, cx: 1 },
+                    cnots: 1,
+                    usedQubits: 2,
+                    declaredQubits: 2
+                }
+            }
+        ]);
+    });
+
+    it('will keep the operations on different qubits in the same layer', () => {
+        let report = QASMResourceEstimator.estimate(
+            'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[4];\nh q;\ncx q[0], q[1];\ncx q[2], q[3];',
+            { expandGates: false }
+        );
+
+        expect(report.circuit.depth).toEqual(2);
+        expect(report.circuit.gates).toEqual(6);
+        expect(report.circuit.cnots).toEqual(2);
+    });
+
+    it('will not estimate the code with errors', () => {
+        let report = QASMResourceEstimator.estimate('OPENQASM 2.0;\nqreg q[1];\nh q[0];', { expandGates: false });
+
+        expect(report.circuit).toBeNull();
+        expect(report.errors.length).toBeGreaterThan(0);
+    });
+
+    it('will not estimate OpenQASM 3 documents', () => {
+        let result = QASMResourceEstimator.report('OPENQASM 3;\nqubit q;\nh q;');
+
+        expect(result.content).toBeNull();
+        expect(result.errors.map(error => error.message)).toEqual([
+            ErrorMessages.notSupportedInQASM3('Resource estimation')
+        ]);
+    });
+
+    it('will write a report comparing the gates as applied and expanded', () => {
+        let result = QASMResourceEstimator.report(input, 'file:///workspace/bell.qasm');
+
+        expect(result.errors).toEqual([]);
+        expect(result.content).toEqual(`# Resources of bell.qasm
+
+## Circuit
+
+| | As written | Expanded to U and CX |
+| --- | --- | --- |
+| Depth | 3 | 4 |
+| Gates | 2 | 3 |
+| CX gates | 0 | 1 |
+| Used qubits | 2 of 3 | 2 of 3 |
+| \`bell\` gates | 1 | - |
+| \`x\` gates | 1 | - |
+| \`U\` gates | - | 2 |
+| \`CX\` gates | - | 1 |
+
+## Gate bell
+
+| | As written | Expanded to U and CX |
+| --- | --- | --- |
+| Depth | 2 | 2 |
+| Gates | 2 | 2 |
+| CX gates | 1 | 1 |
+| Used qubits | 2 of 2 | 2 of 2 |
+| \`h\` gates | 1 | - |
+| \`cx\` gates | 1 | - |
+| \`U\` gates | - | 1 |
+| \`CX\` gates | - | 1 |
+`);
+    });
+});
+
+describe('A QASM resource lens provider', () => {
+    let provider = new QASMResourceLensProvider();
+    let uri = 'file:///workspace/main.qasm';
+
+    it('will show the resources above the header and the gate definitions', () => {
+        let input = 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\n\ngate flip a {\n    x a;\n}\nflip q[0];';
+
+        let lenses = provider.codeLensesFor(uri, input, { expandGates: false });
+
+        expect(lenses).toEqual([
+            {
+                range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+                command: {
+                    title: 'Depth 1, 1 gate, 0 CX, 1 of 2 qubits used',
+                    command: ResourceReportRequest.command,
+                    arguments: [uri]
+                }
+            },
+            {
+                range: { start: { line: 4, character: 0 }, end: { line: 4, character: 0 } },
+                command: {
+                    title: 'Depth 1, 1 gate, 0 CX, 1 qubit',
+                    command: ResourceReportRequest.command,
+                    arguments: [uri]
+                }
+            }
+        ]);
+    });
+
+    it('will not show resources for OpenQASM 3 documents', () => {
+        expect(provider.codeLensesFor(uri, 'OPENQASM 3;\nqubit q;', { expandGates: false })).toEqual([]);
+    });
+});
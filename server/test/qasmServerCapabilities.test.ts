@@ -0,0 +1,26 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { TextDocumentSyncKind } from 'vscode-languageserver/lib/main';
+import { QASMServerCapabilities } from '../src/qasm/serverCapabilities';
+import { QuickFixCommand } from '../src/qasm/requests';
+
+describe('The QASM server capabilities', () => {
+    let capabilities = QASMServerCapabilities.of(TextDocumentSyncKind.Full);
+
+    it('will advertise the rename with its preparation', () => {
+        expect(capabilities.renameProvider).toEqual({ prepareProvider: true });
+    });
+
+    it('will advertise the command applying the quick fixes', () => {
+        expect(capabilities.executeCommandProvider).toEqual({ commands: [QuickFixCommand.command] });
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMSignatureHelpProvider } from '../src/qasm/signatureHelpProvider';
+
+describe('A QASM signature help provider', () => {
+    let provider = new QASMSignatureHelpProvider();
+    let header = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[3];
+creg c[3];
+// swaps two qubits
+gate myswap a, b { cx a, b; cx b, a; cx a, b; }
+`;
+
+    let helpAfter = (statement: string) => {
+        let input = header + statement;
+        let lines = input.split('\n');
+
+        return provider.signatureHelpFor(input, { line: lines.length - 1, character: lines[lines.length - 1].length });
+    };
+
+    it('will show the signature of the gate when its parameters are opened', () => {
+        let help = helpAfter('u3(');
+
+        expect(help.signatures).toEqual([
+            {
+                label: 'u3(theta, phi, lambda) q',
+                documentation: '3-parameter 2-pulse single qubit gate',
+                parameters: [{ label: 'theta' }, { label: 'phi' }, { label: 'lambda' }, { label: 'q' }]
+            }
+        ]);
+        expect(help.activeSignature).toEqual(0);
+        expect(help.activeParameter).toEqual(0);
+    });
+
+    it('will highlight the parameter being written', () => {
+        expect(helpAfter('u3(pi, ').activeParameter).toEqual(1);
+        expect(helpAfter('u3(pi, sin(pi / 2), -').activeParameter).toEqual(2);
+    });
+
+    it('will highlight the qubit being written after the parameters', () => {
+        expect(helpAfter('u3(pi, 0, pi) ').activeParameter).toEqual(3);
+        expect(helpAfter('cu1(pi / 2) q[0], ').activeParameter).toEqual(2);
+    });
+
+    it('will highlight the qubits of the gates without parameters', () => {
+        let help = helpAfter('myswap q[0], ');
+
+        expect(help.signatures[0].label).toEqual('myswap a, b');
+        expect(help.signatures[0].documentation).toEqual('swaps two qubits');
+        expect(help.activeParameter).toEqual(1);
+    });
+
+    it('will follow the gate applied by a conditional', () => {
+        expect(helpAfter('if (c == 1) rx(').signatures[0].label).toEqual('rx(theta) a');
+    });
+
+    it('will only consider the statement being written', () => {
+        expect(helpAfter('u3(pi, 0, pi) q[0];\nh ').signatures[0].label).toEqual('h a');
+        expect(helpAfter('u3(pi, 0, pi) q[0];\n')).toBeNull();
+    });
+
+    it('will not show signatures for unknown gates or other statements', () => {
+        expect(helpAfter('unknown(')).toBeNull();
+        expect(helpAfter('measure q[0] -> ')).toBeNull();
+        expect(helpAfter('qreg r[')).toBeNull();
+    });
+});
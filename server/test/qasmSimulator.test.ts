@@ -0,0 +1,197 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QASMSimulator } from '../src/qasm/simulator/simulator';
+import { ErrorMessages } from '../src/qasm/compiler/tools/errorMessages';
+
+describe('A QASM simulator', () => {
+    describe('with a bell state', () => {
+        let input = `
+        OPENQASM 2.0;
+        include "qelib1.inc";
+        qreg q[2];
+        creg c[2];
+        h q[0];
+        CX q[0], q[1];
+        measure q -> c;
+        `;
+
+        it('will only measure correlated states', () => {
+            let result = QASMSimulator.run(input, { shots: 100, seed: 7 });
+
+            expect(result.errors).toEqual([]);
+            expect(Object.keys(result.counts).sort()).toEqual(['00', '11']);
+            expect(result.counts['00'] + result.counts['11']).toEqual(100);
+        });
+
+        it('will return the same counts with the same seed', () => {
+            let first = QASMSimulator.run(input, { shots: 50, seed: 3 });
+            let second = QASMSimulator.run(input, { shots: 50, seed: 3 });
+
+            expect(first.counts).toEqual(second.counts);
+        });
+    });
+
+    it('will use the most significant bit first in the counts', () => {
+        let input = `
+        include "qelib1.inc";
+        qreg q[2];
+        creg c[2];
+        x q[0];
+        measure q -> c;
+        `;
+
+        let result = QASMSimulator.run(input, { shots: 10 });
+
+        expect(result.counts).toEqual({ '01': 10 });
+    });
+
+    it('will separate the classical registers with spaces, the last register first', () => {
+        let input = `
+        include "qelib1.inc";
+        qreg q[2];
+        creg a[1];
+        creg b[1];
+        x q[1];
+        measure q[0] -> a[0];
+        measure q[1] -> b[0];
+        `;
+
+        let result = QASMSimulator.run(input, { shots: 10 });
+
+        expect(result.counts).toEqual({ '1 0': 10 });
+    });
+
+    it('will broadcast gates over whole registers', () => {
+        let input = `
+        include "qelib1.inc";
+        qreg q[3];
+        creg c[3];
+        x q;
+        measure q -> c;
+        `;
+
+        let result = QASMSimulator.run(input, { shots: 10 });
+
+        expect(result.counts).toEqual({ '111': 10 });
+    });
+
+    it('will apply conditional gates using the measured values', () => {
+        let input = `
+        include "qelib1.inc";
+        qreg q[2];
+        creg a[1];
+        creg b[1];
+        x q[0];
+        measure q[0] -> a[0];
+        if (a==1) x q[1];
+        reset q[0];
+        measure q[0] -> a[0];
+        measure q[1] -> b[0];
+        `;
+
+        let result = QASMSimulator.run(input, { shots: 10, seed: 1 });
+
+        expect(result.counts).toEqual({ '1 0': 10 });
+    });
+
+    it('will expand gates defined in the code', () => {
+        let input = `
+        qreg q[1];
+        creg c[1];
+        gate flip(angle) a {
+            U(angle, 0, pi) a;
+        }
+        flip(pi) q[0];
+        measure q -> c;
+        `;
+
+        let result = QASMSimulator.run(input, { shots: 10 });
+
+        expect(result.counts).toEqual({ '1': 10 });
+    });
+
+    it('will follow the operator precedence in the gate parameters', () => {
+        let input = `
+        include "qelib1.inc";
+        qreg q[1];
+        creg c[1];
+        u3(pi/2+pi/2, 0, pi) q[0];
+        measure q -> c;
+        `;
+
+        let result = QASMSimulator.run(input, { shots: 10 });
+
+        expect(result.counts).toEqual({ '1': 10 });
+    });
+
+    it('will not simulate opaque gates', () => {
+        let input = `
+        qreg q[1];
+        creg c[1];
+        opaque magic q;
+        magic q[0];
+        measure q -> c;
+        `;
+
+        let result = QASMSimulator.run(input);
+
+        expect(result.counts).toEqual({});
+        expect(result.errors.map(error => error.message)).toEqual([ErrorMessages.opaqueGateCannotBeSimulated('magic')]);
+    });
+
+    it('will limit the number of qubits of the circuits sampled from their final state', () => {
+        let input = `
+        qreg q[17];
+        creg c[17];
+        measure q -> c;
+        `;
+
+        let result = QASMSimulator.run(input);
+
+        expect(result.counts).toEqual({});
+        expect(result.errors.map(error => error.message)).toEqual([ErrorMessages.tooManyQubitsToSimulate(17, 16)]);
+    });
+
+    it('will limit further the number of qubits of the circuits simulated on every shot', () => {
+        let input = `
+        qreg q[13];
+        creg c[13];
+        measure q -> c;
+        reset q;
+        `;
+
+        let result = QASMSimulator.run(input);
+
+        expect(result.counts).toEqual({});
+        expect(result.errors.map(error => error.message)).toEqual([ErrorMessages.tooManyQubitsToSimulate(13, 12)]);
+    });
+
+    it('will not simulate code with errors', () => {
+        let input = `
+        qreg q[1];
+        creg c[1];
+        measure q -> r;
+        `;
+
+        let result = QASMSimulator.run(input);
+
+        expect(result.counts).toEqual({});
+        expect(result.errors.length).toBeGreaterThan(0);
+    });
+
+    it('will not simulate OpenQASM 3 documents', () => {
+        let result = QASMSimulator.run('OPENQASM 3;\nqubit q;\nbit c;\nc = measure q;');
+
+        expect(result.counts).toEqual({});
+        expect(result.errors.map(error => error.message)).toEqual([ErrorMessages.notSupportedInQASM3('Simulation')]);
+    });
+});
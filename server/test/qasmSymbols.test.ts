@@ -0,0 +1,175 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import Uri from 'vscode-uri';
+import { FileChangeType, SymbolKind } from 'vscode-languageserver/lib/main';
+import { QASMSymbolsProvider } from '../src/qasm/symbolsProvider';
+import { QASMWorkspaceSymbols } from '../src/qasm/workspaceSymbols';
+import { QASMIncludeResolver } from '../src/qasm/libs/includeResolver';
+
+describe('A QASM symbols provider', () => {
+    let provider = new QASMSymbolsProvider();
+    let uri = 'file:///workspace/main.qasm';
+
+    let outlineOf = (input: string) =>
+        provider.documentSymbolsFor(uri, input).map(symbol => [symbol.name, symbol.kind, symbol.containerName]);
+
+    it('will list the declarations of an OpenQASM 2.0 document', () => {
+        let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+creg c[2];
+gate bell a, b {
+    h a;
+    cx   a, b;
+}
+opaque magic a;
+bell q[0], q[1];`;
+
+        expect(outlineOf(input)).toEqual([
+            ['qelib1.inc', SymbolKind.File, undefined],
+            ['q', SymbolKind.Variable, undefined],
+            ['c', SymbolKind.Variable, undefined],
+            ['bell', SymbolKind.Function, undefined],
+            ['h a', SymbolKind.Method, 'bell'],
+            ['cx a, b', SymbolKind.Method, 'bell'],
+            ['magic', SymbolKind.Function, undefined]
+        ]);
+    });
+
+    it('will locate the declarations in the document', () => {
+        let symbols = provider.documentSymbolsFor(uri, 'OPENQASM 2.0;\nqreg q[2];\ngate flip a {\n  x a;\n}');
+
+        expect(symbols[0].location).toEqual({
+            uri: uri,
+            range: { start: { line: 1, character: 0 }, end: { line: 1, character: 10 } }
+        });
+        expect(symbols[1].location.range).toEqual({ start: { line: 2, character: 0 }, end: { line: 4, character: 1 } });
+    });
+
+    it('will skip the declarations being written', () => {
+        expect(outlineOf('OPENQASM 2.0;\nqreg q[1];\nqreg')).toEqual([['q', SymbolKind.Variable, undefined]]);
+    });
+
+    it('will list the declarations of an OpenQASM 3 document', () => {
+        let input = `OPENQASM 3;
+include "stdgates.inc";
+const int n = 2;
+qubit[n] q;
+bit[n] c;
+gate flip a { x a; }
+def check(qubit a) -> bit { return measure a; }`;
+
+        expect(outlineOf(input)).toEqual([
+            ['stdgates.inc', SymbolKind.File, undefined],
+            ['n', SymbolKind.Constant, undefined],
+            ['q', SymbolKind.Variable, undefined],
+            ['c', SymbolKind.Variable, undefined],
+            ['flip', SymbolKind.Function, undefined],
+            ['x a', SymbolKind.Method, 'flip'],
+            ['check', SymbolKind.Function, undefined]
+        ]);
+    });
+});
+
+describe('A QASM workspace symbols index', () => {
+    let workspace: string;
+    let openDocuments: { [file: string]: string } = {};
+    let symbols = new QASMWorkspaceSymbols(new QASMIncludeResolver(file => openDocuments[file]));
+
+    let namesFound = (query: string) =>
+        symbols
+            .search(workspace, query)
+            .map(symbol => symbol.name)
+            .sort();
+
+    beforeAll(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'qasm-workspace-'));
+        fs.mkdirSync(path.join(workspace, 'libs'));
+        fs.mkdirSync(path.join(workspace, 'node_modules'));
+        fs.writeFileSync(path.join(workspace, 'main.qasm'), 'include "gates.inc";\nqreg data[2];\nflip data[0];');
+        fs.writeFileSync(path.join(workspace, 'libs', 'gates.inc'), 'gate flip a { U(pi,0,pi) a; }\nopaque oracle a;');
+        fs.writeFileSync(path.join(workspace, 'node_modules', 'ignored.inc'), 'gate ignored a { U(0,0,0) a; }');
+        fs.writeFileSync(path.join(workspace, 'notes.txt'), 'qreg hidden[1];');
+    });
+
+    afterAll(() => {
+        fs.unlinkSync(path.join(workspace, 'main.qasm'));
+        fs.unlinkSync(path.join(workspace, 'libs', 'gates.inc'));
+        fs.unlinkSync(path.join(workspace, 'node_modules', 'ignored.inc'));
+        fs.unlinkSync(path.join(workspace, 'notes.txt'));
+        fs.rmdirSync(path.join(workspace, 'libs'));
+        fs.rmdirSync(path.join(workspace, 'node_modules'));
+        fs.rmdirSync(workspace);
+    });
+
+    it('will find the registers and the gates of every QASM file', () => {
+        expect(namesFound('')).toEqual(['data', 'flip', 'oracle']);
+    });
+
+    it('will match the query in order ignoring the case', () => {
+        expect(namesFound('FP')).toEqual(['flip']);
+        expect(namesFound('pf')).toEqual([]);
+    });
+
+    it('will point to the file declaring the symbol', () => {
+        let found = symbols.search(workspace, 'oracle');
+
+        expect(found.length).toEqual(1);
+        expect(found[0].location.uri).toEqual(Uri.file(path.join(workspace, 'libs', 'gates.inc')).toString());
+    });
+
+    it('will use the content of the open documents', () => {
+        let main = path.join(workspace, 'main.qasm');
+        openDocuments[main] = 'include "gates.inc";\nqreg ancilla[1];';
+
+        expect(namesFound('')).toEqual(['ancilla', 'flip', 'oracle']);
+        expect(namesFound('data')).toEqual([]);
+
+        delete openDocuments[main];
+    });
+
+    it('will follow the watched file events instead of walking the workspace again', () => {
+        let added = path.join(workspace, 'added.qasm');
+        let main = path.join(workspace, 'main.qasm');
+        let mainContent = fs.readFileSync(main, 'utf8');
+        namesFound('');
+
+        fs.writeFileSync(added, 'qreg extra[1];');
+        expect(namesFound('')).toEqual(['data', 'flip', 'oracle']);
+        symbols.fileChanged(added, FileChangeType.Created);
+        expect(namesFound('')).toEqual(['data', 'extra', 'flip', 'oracle']);
+
+        fs.writeFileSync(main, 'qreg other[1];');
+        symbols.fileChanged(main, FileChangeType.Changed);
+        expect(namesFound('')).toEqual(['extra', 'flip', 'oracle', 'other']);
+
+        fs.unlinkSync(added);
+        fs.writeFileSync(main, mainContent);
+        symbols.fileChanged(added, FileChangeType.Deleted);
+        symbols.fileChanged(main, FileChangeType.Changed);
+        expect(namesFound('')).toEqual(['data', 'flip', 'oracle']);
+    });
+
+    it('will ignore the watched file events outside the indexed files', () => {
+        symbols.fileChanged(path.join(workspace, 'node_modules', 'ignored.inc'), FileChangeType.Created);
+        symbols.fileChanged(path.join(workspace, 'notes.txt'), FileChangeType.Created);
+
+        expect(namesFound('')).toEqual(['data', 'flip', 'oracle']);
+    });
+
+    it('will not search without a workspace', () => {
+        expect(symbols.search(null, '')).toEqual([]);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { QASMParser } from '../src/qasm/parser';
+import { TopologyLoader } from '../src/qasm/topology/topologyLoader';
+import { DeviceTopology } from '../src/qasm/topology/types';
+import { ParseErrorLevel } from '../src/types';
+
+describe('A QASM parser with a device topology', () => {
+    // a line of three qubits, 0 - 1 - 2
+    let topology: DeviceTopology = { name: 'line3', qubits: 3, couplingMap: [[0, 1], [2, 1]] };
+    let parser = new QASMParser();
+    parser.topology = topology;
+
+    let errorsOf = (input: string) =>
+        parser.parse(input).errors.map(error => ({
+            line: error.line,
+            start: error.start,
+            end: error.end,
+            message: error.message,
+            level: error.level
+        }));
+
+    afterAll(() => {
+        parser.topology = null;
+    });
+
+    it('will accept the gates between connected qubits in both directions', () => {
+        let input = 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[3];\ncx q[0], q[1];\ncx q[1], q[2];\nCX q[1], q[0];';
+
+        expect(errorsOf(input)).toEqual([]);
+    });
+
+    it('will report the gates between unconnected qubits', () => {
+        let input = 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[3];\ncx q[0], q[2];';
+
+        expect(errorsOf(input)).toEqual([
+            {
+                line: 3,
+                start: 0,
+                end: 2,
+                message: 'Qubits q[0] and q[2] are not connected in the device line3.',
+                level: ParseErrorLevel.ERROR
+            }
+        ]);
+    });
+
+    it('will report the gates defined in the code once by the CX they apply', () => {
+        let input = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg a[1];
+qreg b[2];
+swap a[0], b[0];
+swap a[0], b[1];
+cz b[1], a[0];`;
+
+        expect(errorsOf(input).map(error => [error.line, error.message])).toEqual([
+            [5, 'Qubits a[0] and b[1] are not connected in the device line3.'],
+            [6, 'Qubits b[1] and a[0] are not connected in the device line3.']
+        ]);
+    });
+
+    it('will report the registers which do not fit in the device', () => {
+        let input = 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nqreg r[2];\ncx q[0], q[1];\nx r[1];';
+
+        expect(errorsOf(input)).toEqual([
+            {
+                line: 3,
+                start: 5,
+                end: 6,
+                message: 'Register r is placed on the qubits 2 to 3 but the device line3 has 3.',
+                level: ParseErrorLevel.ERROR
+            }
+        ]);
+    });
+
+    it('will not check the code with errors', () => {
+        let input = 'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[4];\ncx q[0], q[3];\nx r[0];';
+
+        expect(errorsOf(input).map(error => error.message)).toEqual(['Symbol r is not previously defined.']);
+    });
+});
+
+describe('A topology loader', () => {
+    let workspace: string;
+    let settings = (file: string, device: any = null) => ({ file, device });
+
+    beforeAll(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'qasm-topology-'));
+        fs.writeFileSync(path.join(workspace, 'ibmqx2.json'), '{ "qubits": 5, "couplingMap": [[0, 1], [0, 2]] }');
+        fs.writeFileSync(path.join(workspace, 'broken.json'), '{ "qubits": ');
+    });
+
+    afterAll(() => {
+        fs.unlinkSync(path.join(workspace, 'ibmqx2.json'));
+        fs.unlinkSync(path.join(workspace, 'broken.json'));
+        fs.rmdirSync(workspace);
+    });
+
+    it('will read the topology of the workspace file, named after it', () => {
+        let result = TopologyLoader.load(settings('ibmqx2.json', { qubits: 1, couplingMap: [] }), workspace);
+
+        expect(result).toEqual({ topology: { name: 'ibmqx2', qubits: 5, couplingMap: [[0, 1], [0, 2]] } });
+    });
+
+    it('will read the topology of the settings when there is no file', () => {
+        let device = { name: 'pair', qubits: 2, couplingMap: [[0, 1]] };
+
+        expect(TopologyLoader.load(settings('', device), workspace)).toEqual({ topology: device });
+        expect(TopologyLoader.load(settings(''), workspace)).toEqual({ topology: null });
+    });
+
+    it('will report the files which cannot be read', () => {
+        expect(TopologyLoader.load(settings('broken.json'), workspace).topology).toBeNull();
+        expect(TopologyLoader.load(settings('missing.json'), workspace).error).toMatch(
+            /^The topology file missing.json cannot be read/
+        );
+    });
+
+    it('will report the topologies with a wrong shape', () => {
+        expect(TopologyLoader.fromJSON({ qubits: 0, couplingMap: [] }, 'device')).toEqual({
+            topology: null,
+            error: 'The topology is not valid: expecting the number of qubits as a positive integer'
+        });
+        expect(TopologyLoader.fromJSON({ qubits: 2 }, 'device').error).toEqual(
+            'The topology is not valid: expecting the coupling map as a list of pairs of qubits'
+        );
+        expect(TopologyLoader.fromJSON({ qubits: 2, couplingMap: [[0, 2]] }, 'device').error).toEqual(
+            'The topology is not valid: [0,2] is not a pair of qubits of the device'
+        );
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { QiskitSDK, QiskitCatalog } from '../src/qiskit/libs/qiskitSDK';
+import { QiskitCatalogLoader } from '../src/qiskit/libs/catalogLoader';
+import { QiskitSymbolTableBuilder } from '../src/qiskit/compiler/qiskitSymbolTableBuilder';
+import { MethodSymbol, ClassSymbol } from '../src/qiskit/compiler/symbols';
+import { QiskitParser } from '../src/qiskit/parser';
+import { QiskitSuggester } from '../src/qiskit/suggester';
+import { ErrorMessages } from '../src/qiskit/compiler/tools/errorMessages';
+
+let catalog: QiskitCatalog = {
+    version: '0.7.0',
+    modules: ['qiskit'],
+    classes: [
+        {
+            name: 'QuantumRegister',
+            module: 'qiskit',
+            detail: 'Implement a quantum register',
+            documentation: 'Implement a quantum register.',
+            arguments: [{ name: 'size', type: 'number' }, { name: 'name', type: 'string', optional: true }],
+            methods: []
+        },
+        {
+            name: 'BasicAer',
+            module: 'qiskit',
+            detail: 'Provider of the simulators',
+            documentation: 'Provider of the simulators.',
+            methods: [{ name: 'get_backend', type: 'object', detail: '', documentation: '', arguments: [] }]
+        }
+    ],
+    functions: [
+        {
+            name: 'execute',
+            module: 'qiskit',
+            type: 'object',
+            detail: 'Execute a list of circuits',
+            documentation: 'Execute a list of circuits.',
+            arguments: [
+                { name: 'circuits', type: 'QuantumCircuit' },
+                { name: 'shots', type: 'number', optional: true, default: '1024' }
+            ]
+        },
+        { name: 'BasicAer', module: 'qiskit', type: 'object', detail: '', documentation: '', arguments: [] }
+    ]
+};
+
+describe('A Qiskit catalog loader', () => {
+    let folder: string;
+
+    beforeAll(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'qiskit-catalogs-'));
+        fs.writeFileSync(QiskitCatalogLoader.fileFor('0.7.0', folder), JSON.stringify(catalog));
+        fs.writeFileSync(QiskitCatalogLoader.fileFor('0.7.1', folder), JSON.stringify(catalog));
+        fs.writeFileSync(QiskitCatalogLoader.fileFor('0.8.0', folder), '{ "version": "0.8.0", "classes": 3 }');
+    });
+
+    afterAll(() => {
+        ['0.7.0', '0.7.1', '0.8.0'].forEach(version => fs.unlinkSync(QiskitCatalogLoader.fileFor(version, folder)));
+        fs.rmdirSync(folder);
+    });
+
+    it('will read the catalog generated for the installed version', () => {
+        expect(QiskitCatalogLoader.catalogFor('0.7.0', folder)).toEqual(catalog);
+    });
+
+    it('will fall back to the bundled catalog', () => {
+        expect(QiskitCatalogLoader.catalogFor('0.9.0', folder)).toBe(QiskitSDK.bundled());
+        expect(QiskitCatalogLoader.catalogFor('0.7.1', folder)).toBe(QiskitSDK.bundled());
+        expect(QiskitCatalogLoader.catalogFor('0.8.0', folder)).toBe(QiskitSDK.bundled());
+        expect(QiskitCatalogLoader.catalogFor('', folder)).toBe(QiskitSDK.bundled());
+    });
+});
+
+describe('A Qiskit symbol table built from a catalog', () => {
+    let symbolTable = QiskitSymbolTableBuilder.create(catalog);
+
+    it('will contain its classes with their arguments', () => {
+        let register = symbolTable.lookup('QuantumRegister') as ClassSymbol;
+
+        expect(register).toBeInstanceOf(ClassSymbol);
+        expect(register.requiredArguments.map(argument => argument.name)).toEqual(['size', 'name']);
+        expect(symbolTable.lookup('QuantumProgram')).toBeNull();
+    });
+
+    it('will contain its functions unless a class has the same name', () => {
+        let execute = symbolTable.lookup('execute') as MethodSymbol;
+
+        expect(execute).toBeInstanceOf(MethodSymbol);
+        expect(execute.getArguments().map(argument => argument.name)).toEqual(['circuits', 'shots']);
+        expect(symbolTable.lookup('BasicAer')).toBeInstanceOf(ClassSymbol);
+    });
+});
+
+describe('A Qiskit parser using a generated catalog', () => {
+    afterEach(() => {
+        QiskitSDK.use(QiskitSDK.bundled());
+    });
+
+    it('will use the bundled catalog by default', () => {
+        expect(QiskitSDK.version()).toEqual('0.6.0');
+        expect(QiskitSDK.containsClass('QuantumProgram')).toBe(true);
+    });
+
+    it('will check the imports with the classes of the active catalog', () => {
+        QiskitSDK.use(catalog);
+        let errors = new QiskitParser().parse('b = BasicAer.get_backend()\n').errors;
+
+        expect(errors.map(error => error.message)).toEqual([ErrorMessages.notPreviouslyImported('BasicAer')]);
+    });
+
+    it('will suggest the classes of the active catalog', () => {
+        QiskitSDK.use(catalog);
+        let labels = new QiskitSuggester().availableSymbols().map(symbol => symbol.label);
+
+        expect(labels).toContain('BasicAer');
+        expect(labels).not.toContain('QuantumProgram');
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QiskitHoverProvider } from '../src/qiskit/hoverProvider';
+import { QiskitModuleResolver } from '../src/qiskit/libs/moduleResolver';
+import { QiskitParser } from '../src/qiskit/parser';
+
+describe('A Qiskit hover provider', () => {
+    let hoverProvider = new QiskitHoverProvider();
+    let input = `
+from qiskit import QuantumRegister, ClassicalRegister, QuantumCircuit
+import qiskit
+qr = QuantumRegister(3, 'q')
+cr = ClassicalRegister(3)
+qc = QuantumCircuit(qr, cr)
+qc.cu3(0, 0, 0, qr[0], qr[1])
+
+def bell(qubits):
+    q = QuantumRegister(qubits)
+    return QuantumCircuit(q)
+
+circuit = bell(2)
+`;
+
+    it('will show the type of the variables with the arguments they are built with', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 3, character: 1 });
+
+        expect(hover.contents).toEqual([{ language: 'python', value: "qr: QuantumRegister(size=3, name='q')" }]);
+        expect(hover.range).toEqual({ start: { line: 3, character: 0 }, end: { line: 3, character: 2 } });
+    });
+
+    it('will show the variables where they are used', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 6, character: 17 });
+
+        expect(hover.contents).toEqual([{ language: 'python', value: "qr: QuantumRegister(size=3, name='q')" }]);
+        expect(hoverProvider.hoverFor(input, { line: 4, character: 0 }).contents).toEqual([
+            { language: 'python', value: 'cr: ClassicalRegister(size=3)' }
+        ]);
+    });
+
+    it('will show the signature and the documentation of the classes of the SDK', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 5, character: 8 });
+
+        expect(hover.contents).toEqual([
+            { language: 'python', value: 'class QuantumCircuit(*regs, name=...)' },
+            'Quantum circuit.'
+        ]);
+    });
+
+    it('will show the signature and the documentation of the methods of the SDK', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 6, character: 4 });
+
+        expect(hover.contents).toEqual([
+            { language: 'python', value: 'def QuantumCircuit.cu3(theta, phi, lam, ctl, tgt)' },
+            'Apply cu3 from ctl to tgt with angle theta, phi, lam.'
+        ]);
+        expect(hover.range).toEqual({ start: { line: 6, character: 3 }, end: { line: 6, character: 6 } });
+    });
+
+    it('will show the functions of the code with the type they return', () => {
+        let hover = hoverProvider.hoverFor(input, { line: 12, character: 11 });
+
+        expect(hover.contents).toEqual([{ language: 'python', value: 'def bell(qubits) -> QuantumCircuit' }]);
+        expect(hoverProvider.hoverFor(input, { line: 12, character: 2 }).contents).toEqual([
+            { language: 'python', value: 'circuit: QuantumCircuit' }
+        ]);
+    });
+
+    it('will show the modules and reach the classes through them', () => {
+        let moduleInput = '\nimport qiskit\nq = qiskit.QuantumRegister(2)\n';
+
+        expect(hoverProvider.hoverFor(moduleInput, { line: 2, character: 5 }).contents).toEqual([
+            { language: 'python', value: 'module qiskit' }
+        ]);
+        expect(hoverProvider.hoverFor(moduleInput, { line: 2, character: 12 }).contents).toEqual([
+            { language: 'python', value: 'class QuantumRegister(size, name=...)' },
+            'Implement a quantum register.'
+        ]);
+    });
+
+    it('will show the symbols imported from the modules of the workspace', () => {
+        let files: { [file: string]: string } = { '/workspace/gates.py': 'def entangle(qc, a, b):\n    qc.cx(a, b)\n' };
+        let provider = new QiskitHoverProvider(new QiskitParser(new QiskitModuleResolver(file => files[file])));
+        let moduleInput = '\nfrom gates import entangle\nentangle(qc, 0, 1)\n';
+
+        expect(provider.hoverFor(moduleInput, { line: 2, character: 3 }, 'file:///workspace/main.py').contents).toEqual(
+            [{ language: 'python', value: 'def entangle(qc, a, b)' }]
+        );
+    });
+
+    it('will show the symbols of the result given by its parser', () => {
+        let validated = new QiskitParser().parse(input);
+        let provider = new QiskitHoverProvider({ parse: () => validated });
+
+        expect(provider.hoverFor(input, { line: 3, character: 1 }, 'file:///main.py').contents).toEqual([
+            { language: 'python', value: "qr: QuantumRegister(size=3, name='q')" }
+        ]);
+    });
+
+    it('will not show anything out of the names or for the unknown ones', () => {
+        expect(hoverProvider.hoverFor(input, { line: 6, character: 8 })).toBeNull();
+        expect(hoverProvider.hoverFor(input, { line: 2, character: 1 })).toBeNull();
+        expect(hoverProvider.hoverFor('\nunknown(1)\n', { line: 1, character: 2 })).toBeNull();
+    });
+});
@@ -0,0 +1,250 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QiskitParser } from '../src/qiskit/parser';
+import { QiskitModuleResolver } from '../src/qiskit/libs/moduleResolver';
+import { QiskitSDK, QiskitCatalog } from '../src/qiskit/libs/qiskitSDK';
+import { ErrorMessages } from '../src/qiskit/compiler/tools/errorMessages';
+import { ModuleSymbol } from '../src/qiskit/compiler/symbols';
+
+describe('A Qiskit import', () => {
+    let files: { [file: string]: string } = {
+        '/workspace/circuits.py': `
+from qiskit import QuantumCircuit, QuantumRegister
+
+def bell(size):
+    q = QuantumRegister(size)
+    return QuantumCircuit(q)
+
+SHOTS = 1024
+`,
+        '/workspace/lib/__init__.py': 'from .gates import entangle\n',
+        '/workspace/lib/gates.py': 'def entangle(qc, a, b):\n    qc.cx(a, b)\n',
+        '/workspace/first.py': 'from second import *\nA = 1\n',
+        '/workspace/second.py': 'from first import *\nB = 2\n',
+        '/shared/helpers.py': 'def helper(value):\n    return value\n'
+    };
+    let uri = 'file:///workspace/main.py';
+    let resolver = new QiskitModuleResolver(file => files[file]);
+    let parser = new QiskitParser(resolver);
+    let errorsOf = (code: string) => parser.parse(code, uri).errors.map(error => [error.line, error.message]);
+
+    it('binds the Qiskit classes to their aliases', () => {
+        let code = `
+from qiskit import QuantumRegister as QR, QuantumCircuit
+q = QR(2)
+qc = QuantumCircuit(q)
+qc.h(q[3])
+`;
+        let result = parser.parse(code, uri);
+
+        expect(result.symbolTable.lookup('q').type.getName()).toEqual('QuantumRegister');
+        expect(result.errors.map(error => [error.line, error.message])).toEqual([[4, 'Position 3 is not valid at q']]);
+    });
+
+    it('reaches the Qiskit classes through the imported module', () => {
+        let code = `
+import qiskit as qk
+q = qk.QuantumRegister(2)
+qc = qk.QuantumCircuit(q)
+qc.h(q[2])
+c = qk.ClassicalRegister()
+`;
+        let result = parser.parse(code, uri);
+
+        expect(result.symbolTable.lookup('qk')).toBeInstanceOf(ModuleSymbol);
+        expect(result.symbolTable.lookup('qc').type.getName()).toEqual('QuantumCircuit');
+        expect(result.errors.map(error => [error.line, error.message])).toEqual([
+            [4, 'Position 2 is not valid at q'],
+            [5, ErrorMessages.missingArguments('ClassicalRegister', ['size'])]
+        ]);
+    });
+
+    it('builds the symbols of the modules of the workspace', () => {
+        let code = `
+from circuits import bell, SHOTS, ghz
+qc = bell(2)
+bell()
+`;
+        let result = parser.parse(code, uri);
+
+        expect(result.symbolTable.lookup('qc').type.getName()).toEqual('QuantumCircuit');
+        expect(result.dependencies).toEqual(['/workspace/circuits.py']);
+        expect(result.errors.map(error => [error.line, error.message])).toEqual([
+            [1, ErrorMessages.notDefinedInModule('ghz', 'circuits')],
+            [3, ErrorMessages.missingArguments('bell', ['size'])]
+        ]);
+        expect(result.errors[0]).toMatchObject({ start: 34, end: 37 });
+    });
+
+    it('brings every name of the module with a star import', () => {
+        let code = `
+from circuits import *
+qc = QuantumCircuit(QuantumRegister(1))
+other = bell(1)
+`;
+
+        expect(errorsOf(code)).toEqual([]);
+    });
+
+    it('follows the packages, their modules and the relative imports', () => {
+        let code = `
+from lib import entangle, gates
+from lib.gates import entangle as ent
+import lib.gates
+ent(1)
+`;
+        let result = parser.parse(code, uri);
+
+        expect(result.symbolTable.lookup('gates')).toBeInstanceOf(ModuleSymbol);
+        expect(result.symbolTable.lookup('lib')).toBeInstanceOf(ModuleSymbol);
+        expect(result.dependencies).toEqual(['/workspace/lib/__init__.py', '/workspace/lib/gates.py']);
+        expect(result.errors.map(error => [error.line, error.message])).toEqual([
+            [4, ErrorMessages.missingArguments('ent', ['a', 'b'])]
+        ]);
+    });
+
+    it('does not report the names of the modules importing each other', () => {
+        expect(errorsOf('\nfrom first import A, B, C\n')).toEqual([]);
+    });
+
+    it('does not report the modules which are not found', () => {
+        let result = parser.parse('\nimport numpy as np\nfrom scipy import linalg\n', uri);
+
+        expect(result.errors).toEqual([]);
+        expect(result.dependencies).toEqual([]);
+    });
+
+    it('finds the modules in the search paths', () => {
+        let sharedResolver = new QiskitModuleResolver(file => files[file]);
+        sharedResolver.searchPaths = ['/shared'];
+
+        let result = new QiskitParser(sharedResolver).parse('\nfrom helpers import helper, other\n', uri);
+
+        expect(result.errors.map(error => error.message)).toEqual([
+            ErrorMessages.notDefinedInModule('other', 'helpers')
+        ]);
+    });
+
+    it('reports the names the bundled catalog does not list for Qiskit', () => {
+        expect(errorsOf('\nfrom qiskit import execute, Aer, QuantumCircut\n')).toEqual([
+            [1, ErrorMessages.notDefinedInModule('QuantumCircut', 'qiskit')]
+        ]);
+    });
+
+    it('keeps the analysis of the modules while they do not change', () => {
+        let code = '\nfrom circuits import bell\nfrom lib import entangle\nfrom first import A\n';
+        let first = parser.parse(code, uri).symbolTable;
+        let second = parser.parse(code, uri).symbolTable;
+
+        expect(second.lookup('bell')).toBe(first.lookup('bell'));
+        expect(second.lookup('entangle')).toBe(first.lookup('entangle'));
+        expect(second.lookup('A')).not.toBe(first.lookup('A'));
+    });
+
+    it('analyzes the modules again when they or the modules they import are invalidated', () => {
+        let changingFiles = Object.assign({}, files);
+        let changingResolver = new QiskitModuleResolver(file => changingFiles[file]);
+        let changingParser = new QiskitParser(changingResolver);
+        let code = '\nfrom lib import entangle\nentangle(1, 2, 3)\n';
+        let errorsAfterChanges = () => changingParser.parse(code, uri).errors.map(error => error.message);
+
+        expect(errorsAfterChanges()).toEqual([]);
+
+        changingFiles['/workspace/lib/gates.py'] = 'def entangle(qc, a):\n    qc.cx(a, a)\n';
+
+        expect(errorsAfterChanges()).toEqual([]);
+
+        changingResolver.invalidate('/workspace/lib/gates.py');
+
+        expect(errorsAfterChanges().length).toEqual(1);
+
+        changingFiles['/workspace/lib/__init__.py'] = 'from .gates import entangle as other\n';
+        changingResolver.invalidate();
+
+        expect(errorsAfterChanges()).toEqual([ErrorMessages.notDefinedInModule('entangle', 'lib')]);
+    });
+
+    it('does not read the modules kept again', () => {
+        let readFiles: string[] = [];
+        let readingParser = new QiskitParser(
+            new QiskitModuleResolver(file => {
+                readFiles.push(file);
+                return files[file];
+            })
+        );
+        let code = '\nfrom lib import entangle\n';
+        readingParser.parse(code, uri);
+        readFiles = [];
+
+        readingParser.parse(code, uri);
+
+        expect(readFiles).not.toContain('/workspace/lib/gates.py');
+    });
+
+    it('analyzes the modules again when the catalog changes', () => {
+        let catalogParser = new QiskitParser(new QiskitModuleResolver(file => files[file]));
+        let code = '\nfrom circuits import QuantumRegister\n';
+        let errorsWithCatalog = () => catalogParser.parse(code, uri).errors.map(error => error.message);
+
+        expect(errorsWithCatalog()).toEqual([]);
+
+        QiskitSDK.use({
+            version: '0.7.0',
+            exports: { qiskit: ['QuantumCircuit'] },
+            classes: QiskitSDK.bundled().classes
+        });
+        try {
+            expect(errorsWithCatalog()).toEqual([ErrorMessages.notDefinedInModule('QuantumRegister', 'circuits')]);
+        } finally {
+            QiskitSDK.use(QiskitSDK.bundled());
+        }
+    });
+
+    describe('from a catalog without the names of the Qiskit modules', () => {
+        let catalog: QiskitCatalog = {
+            version: '0.7.0',
+            classes: QiskitSDK.bundled().classes,
+            functions: [{ name: 'execute', type: 'void', detail: '', documentation: '' }]
+        };
+
+        beforeAll(() => QiskitSDK.use(catalog));
+        afterAll(() => QiskitSDK.use(QiskitSDK.bundled()));
+
+        it('reports the names which are neither Qiskit classes nor functions', () => {
+            expect(errorsOf('\nfrom qiskit import execute, QuantumRegister, Aer\n')).toEqual([
+                [1, ErrorMessages.notDefinedInModule('Aer', 'qiskit')]
+            ]);
+        });
+    });
+
+    describe('from a catalog listing the names of the Qiskit modules', () => {
+        let catalog: QiskitCatalog = {
+            version: '0.7.0',
+            modules: ['qiskit', 'qiskit.circuit'],
+            exports: {
+                qiskit: ['QuantumRegister', 'Aer'],
+                'qiskit.circuit': ['QuantumRegister']
+            },
+            classes: QiskitSDK.bundled().classes
+        };
+
+        beforeAll(() => QiskitSDK.use(catalog));
+        afterAll(() => QiskitSDK.use(QiskitSDK.bundled()));
+
+        it('reports the names the modules do not define', () => {
+            expect(errorsOf('\nfrom qiskit import Aer, QuantumRegistr\nfrom qiskit.circuit import Aer\n')).toEqual([
+                [1, ErrorMessages.notDefinedInModule('QuantumRegistr', 'qiskit')],
+                [2, ErrorMessages.notDefinedInModule('Aer', 'qiskit.circuit')]
+            ]);
+        });
+    });
+});
@@ -11,7 +11,7 @@
 
 import { QiskitParser } from '../src/qiskit/parser';
 import { ErrorMessages } from '../src/qiskit/compiler/tools/errorMessages';
-import { Parser } from '../src/types';
+import { Parser, ParserResult } from '../src/types';
 
 describe('A Qiskit parser', () => {
     let parser: Parser = new QiskitParser();
@@ -37,4 +37,38 @@ describe('A Qiskit parser', () => {
             expect(result.errors[0].message).toEqual(ErrorMessages.notPreviouslyImported('QuantumRegister'));
         });
     });
+
+    describe('when parsing a new version of the code', () => {
+        let incrementalParser = new QiskitParser();
+        let code =
+            `from qiskit import QuantumRegister\n` +
+            `def size():\n    return 2\n\n` +
+            `q = QuantumRegister(size())\n` +
+            `r = QuantumRegister(3)\n`;
+
+        let withoutTrees = (result: ParserResult) => ({
+            ast: result.ast,
+            errors: result.errors,
+            dependencies: result.dependencies
+        });
+
+        it('will give the same result as parsing the whole code', () => {
+            let previous = incrementalParser.parse(code);
+            let changed = code.replace('QuantumRegister(3)', 'QuantumRegister(3, 4, 5, 6)\nr.x(');
+
+            expect(withoutTrees(incrementalParser.reparse(changed, previous))).toEqual(
+                withoutTrees(incrementalParser.parse(changed))
+            );
+        });
+
+        it('will reuse the statements which did not change', () => {
+            let previous = incrementalParser.parse(code);
+            let result = incrementalParser.reparse(code.replace('(3)', '(4)'), previous);
+            let treesOf = (parsed: ParserResult) => (parsed as any).statements.map((statement: any) => statement.tree);
+
+            let reused = treesOf(result).map((tree: any, index: number) => tree === treesOf(previous)[index]);
+
+            expect(reused).toEqual([true, true, true, false]);
+        });
+    });
 });
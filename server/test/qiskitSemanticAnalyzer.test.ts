@@ -13,6 +13,8 @@ import { TreeFolder } from '../src/qiskit/ast/treeFolder';
 import { SymbolTableGenerator } from '../src/qiskit/ast/symbolTableGenerator';
 import { SemanticAnalyzer } from '../src/qiskit/ast/semanticAnalyzer';
 import { Parser } from './tools/tools';
+import { ErrorMessages } from '../src/qiskit/compiler/tools/errorMessages';
+import { QiskitSDK, QiskitCatalog } from '../src/qiskit/libs/qiskitSDK';
 
 let validSource = `
 from qiskit import ClassicalRegister, QuantumRegister
@@ -72,3 +74,202 @@ describe('From a parsed and folded Qiskit code of a wrong source', () => {
         });
     });
 });
+
+describe('From a parsed and folded Qiskit code with keyword arguments', () => {
+    let errorsOf = (source: string) => {
+        let statements = new TreeFolder().visit(Parser.parse(source));
+        let symbolTable = SymbolTableGenerator.symbolTableFor(statements);
+
+        return SemanticAnalyzer.analyze(statements, symbolTable).map(error => [error.line, error.message]);
+    };
+
+    it('matches the arguments by their names', () => {
+        let source = `
+q = QuantumRegister(name='q', size=2)
+c = ClassicalRegister(2, name='c')
+qc = QuantumCircuit(q, c, name='bell')
+qc.cx(tgt=q[1], ctl=q[0])
+qc.measure(q, cbit=c)
+qc.h(q[2])
+`;
+
+        expect(errorsOf(source)).toEqual([[6, 'Position 2 is not valid at q']]);
+    });
+
+    it('reports the unknown, duplicated and missing arguments', () => {
+        let source = `
+q = QuantumRegister(2, size=3)
+c = ClassicalRegister(sizes=2)
+qc = QuantumCircuit(q)
+qc.measure(q, qubit=q, cbit=c)
+`;
+
+        expect(errorsOf(source)).toEqual([
+            [1, ErrorMessages.duplicatedArgument('QuantumRegister', 'size')],
+            [2, ErrorMessages.missingArguments('ClassicalRegister', ['size'])],
+            [2, ErrorMessages.unknownKeywordArgument('ClassicalRegister', 'sizes')],
+            [4, ErrorMessages.duplicatedArgument('measure', 'qubit')]
+        ]);
+    });
+
+    it('reports the positional arguments exceeding the ones of the method', () => {
+        let source = `
+q = QuantumRegister(2)
+qc = QuantumCircuit(q)
+qc.h(q[0], q[1])
+qc.barrier(q[0], q[1])
+`;
+
+        expect(errorsOf(source)).toEqual([[3, ErrorMessages.exceedingArguments('h', 1, 2)]]);
+    });
+
+    it('reports the arguments with the range of their code', () => {
+        let source = `
+q = QuantumRegister(1, 'a', 3 + 1)
+c = ClassicalRegister(size=1, name='c', size=2)
+`;
+        let statements = new TreeFolder().visit(Parser.parse(source));
+        let errors = SemanticAnalyzer.analyze(statements, SymbolTableGenerator.symbolTableFor(statements));
+
+        expect(errors.map(error => [error.line, error.start, error.end])).toEqual([[1, 28, 33], [2, 40, 46]]);
+    });
+
+    it('checks the type of the arguments given by their names', () => {
+        let source = `
+q = QuantumRegister(2)
+c = ClassicalRegister(2)
+qc = QuantumCircuit(q, c)
+qc.measure(cbit=q, qubit=q)
+`;
+
+        expect(errorsOf(source).map(error => error[1])).toEqual([
+            "Expecting argument of type ClassicalRegister, but q doesn't match it"
+        ]);
+    });
+
+    it('checks the arguments accepting several types against each of them', () => {
+        let source = `
+q = QuantumRegister(2)
+c = ClassicalRegister(2)
+qc = QuantumCircuit(q, c)
+other = QuantumCircuit(c, q, qc)
+`;
+
+        expect(errorsOf(source).map(error => error[1])).toEqual([
+            "Expecting argument of type QuantumRegister|ClassicalRegister, but qc doesn't match it"
+        ]);
+    });
+
+    it('does not report the missing arguments when some are unpacked', () => {
+        let source = `
+q = QuantumRegister(2)
+qc = QuantumCircuit(q)
+qc.cx(*pair)
+`;
+
+        expect(errorsOf(source)).toEqual([]);
+    });
+
+    describe('of a function with variadic arguments', () => {
+        let catalog: QiskitCatalog = {
+            version: '0.7.0',
+            classes: [],
+            functions: [
+                {
+                    name: 'execute',
+                    type: 'object',
+                    detail: '',
+                    documentation: '',
+                    arguments: [
+                        { name: 'circuits', type: 'object' },
+                        { name: '*args', type: 'object' },
+                        { name: 'shots', type: 'number', optional: true, default: '1024' },
+                        { name: '**kwargs', type: 'dict' }
+                    ]
+                },
+                {
+                    name: 'compile',
+                    type: 'object',
+                    detail: '',
+                    documentation: '',
+                    arguments: [
+                        { name: 'circuits', type: 'object' },
+                        { name: 'seed', type: 'number', keywordOnly: true }
+                    ]
+                }
+            ]
+        };
+
+        beforeAll(() => QiskitSDK.use(catalog));
+        afterAll(() => QiskitSDK.use(QiskitSDK.bundled()));
+
+        it('takes the remaining arguments with the variadic ones', () => {
+            expect(errorsOf('\njob = execute(qc, backend, 3, shots=10, seed=1)')).toEqual([]);
+            expect(errorsOf('\njob = execute(shots=10)')).toEqual([
+                [1, ErrorMessages.missingArguments('execute', ['circuits'])]
+            ]);
+        });
+
+        it('only takes the keyword only arguments by their names', () => {
+            expect(errorsOf('\nqobj = compile(qc, 1)')).toEqual([
+                [1, ErrorMessages.missingArguments('compile', ['seed'])],
+                [1, ErrorMessages.exceedingArguments('compile', 1, 2)]
+            ]);
+        });
+    });
+});
+
+describe('From a parsed and folded Qiskit code with function and class definitions', () => {
+    let errorsOf = (source: string) => {
+        let statements = new TreeFolder().visit(Parser.parse(source));
+        let symbolTable = SymbolTableGenerator.symbolTableFor(statements);
+
+        return SemanticAnalyzer.analyze(statements, symbolTable).map(error => [error.line, error.message]);
+    };
+
+    it('checks the calls to the functions like the ones of the SDK', () => {
+        let source = `
+def bell(q, c, name='bell', *, shots=1024):
+    qc = QuantumCircuit(q, c, name=name)
+    qc.h(q[0])
+    return qc
+
+q = QuantumRegister(2)
+c = ClassicalRegister(2)
+bell(q, c, shots=10)
+bell(q)
+bell(q, c, 'name', 'extra')
+bell(q, c, seed=1)
+`;
+
+        expect(errorsOf(source)).toEqual([
+            [9, ErrorMessages.missingArguments('bell', ['c'])],
+            [10, ErrorMessages.exceedingArguments('bell', 3, 4)],
+            [11, ErrorMessages.unknownKeywordArgument('bell', 'seed')]
+        ]);
+    });
+
+    it('checks the arguments of __init__ when the classes are instantiated', () => {
+        let source = `
+class Experiment(object):
+    def __init__(self, circuit, shots=1024):
+        self.circuit = circuit
+
+experiment = Experiment()
+other = Experiment(qc, shots=10)
+`;
+
+        expect(errorsOf(source)).toEqual([[5, ErrorMessages.missingArguments('Experiment', ['circuit'])]]);
+    });
+
+    it('accepts any argument of the classes extending unknown ones', () => {
+        let source = `
+class Job(BaseJob):
+    pass
+
+job = Job(1, 2, name='job')
+`;
+
+        expect(errorsOf(source)).toEqual([]);
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { QiskitSignatureHelpProvider } from '../src/qiskit/signatureHelpProvider';
+import { QiskitSDK, QiskitCatalog } from '../src/qiskit/libs/qiskitSDK';
+
+describe('A Qiskit signature help provider', () => {
+    let provider = new QiskitSignatureHelpProvider();
+    let header = `
+from qiskit import QuantumRegister, ClassicalRegister, QuantumCircuit
+qr = QuantumRegister(3)
+cr = ClassicalRegister(3)
+qc = QuantumCircuit(qr, cr)
+
+def bell(q, c, name='bell', *, shots=1024):
+    return QuantumCircuit(q, c, name=name)
+
+`;
+
+    let helpAfter = (statement: string) => {
+        let input = header + statement;
+        let lines = input.split('\n');
+
+        return provider.signatureHelpFor(input, { line: lines.length - 1, character: lines[lines.length - 1].length });
+    };
+
+    it('will show the signature of the method when its arguments are opened', () => {
+        let help = helpAfter('qc.cu3(');
+
+        expect(help.signatures).toEqual([
+            {
+                label: 'cu3(theta, phi, lam, ctl, tgt)',
+                documentation: 'Apply cu3 from ctl to tgt with angle theta, phi, lam.',
+                parameters: [{ label: 'theta' }, { label: 'phi' }, { label: 'lam' }, { label: 'ctl' }, { label: 'tgt' }]
+            }
+        ]);
+        expect(help.activeSignature).toEqual(0);
+        expect(help.activeParameter).toEqual(0);
+    });
+
+    it('will highlight the argument being written', () => {
+        expect(helpAfter('qc.cu3(0, ').activeParameter).toEqual(1);
+        expect(helpAfter('qc.cu3(0, sin(pi / 2), [1, 2], qr[').activeParameter).toEqual(3);
+    });
+
+    it('will highlight the arguments given by their names', () => {
+        expect(helpAfter('qc.cu3(0, tgt=').activeParameter).toEqual(4);
+        expect(helpAfter('bell(qr, cr, shots=').activeParameter).toEqual(3);
+    });
+
+    it('will show the arguments of the classes and the functions of the code', () => {
+        expect(helpAfter('q = QuantumRegister(').signatures[0].label).toEqual('QuantumRegister(size, name=...)');
+
+        let help = helpAfter('bell(qr, ');
+        expect(help.signatures).toEqual([
+            {
+                label: 'bell(q, c, name=..., shots=...)',
+                parameters: [{ label: 'q' }, { label: 'c' }, { label: 'name=...' }, { label: 'shots=...' }]
+            }
+        ]);
+        expect(help.activeParameter).toEqual(1);
+    });
+
+    it('will show the innermost call being written', () => {
+        expect(helpAfter('qc.measure(qr, bell(').signatures[0].label).toEqual('bell(q, c, name=..., shots=...)');
+        expect(helpAfter('qc.measure(bell(qr, cr), ').activeParameter).toEqual(1);
+    });
+
+    it('will not show signatures out of the calls or for the unknown ones', () => {
+        expect(helpAfter('qc.h(qr[0])')).toBeNull();
+        expect(helpAfter('def other(')).toBeNull();
+        expect(helpAfter('unknown(')).toBeNull();
+        expect(helpAfter('qc.unknown(')).toBeNull();
+    });
+
+    describe('of a function with variadic arguments', () => {
+        let catalog: QiskitCatalog = {
+            version: '0.7.0',
+            classes: [],
+            functions: [
+                {
+                    name: 'execute',
+                    type: 'object',
+                    detail: 'Executes a set of circuits',
+                    documentation: '',
+                    arguments: [
+                        { name: 'circuits', type: 'object' },
+                        { name: '*args', type: 'object' },
+                        { name: 'shots', type: 'number', optional: true, default: '1024' },
+                        { name: '**kwargs', type: 'dict' }
+                    ]
+                }
+            ]
+        };
+
+        beforeAll(() => QiskitSDK.use(catalog));
+        afterAll(() => QiskitSDK.use(QiskitSDK.bundled()));
+
+        it('will highlight the variadic arguments taking the remaining ones', () => {
+            let help = helpAfter('job = execute(qc, backend, ');
+
+            expect(help.signatures[0].label).toEqual('execute(circuits, *args, shots=..., **kwargs)');
+            expect(help.signatures[0].documentation).toEqual('Executes a set of circuits');
+            expect(help.activeParameter).toEqual(1);
+            expect(helpAfter('job = execute(qc, seed=').activeParameter).toEqual(3);
+        });
+    });
+});
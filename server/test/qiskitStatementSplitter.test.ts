@@ -0,0 +1,82 @@
+/**
+ * @license
+ *
+ * Copyright (c) 2018, IBM.
+ *
+ * This source code is licensed under the Apache License, Version 2.0 found in
+ * the LICENSE.txt file in the root directory of this source tree.
+ */
+
+'use strict';
+
+import { StatementSplitter } from '../src/qiskit/compiler/tools/statementSplitter';
+
+describe('A Qiskit statement splitter', () => {
+    let code =
+        `import qiskit\n` +
+        `\n` +
+        `@decorated\n` +
+        `def build(size):\n` +
+        `    return size\n` +
+        `# comment\n` +
+        `if build(2) > 1:\n` +
+        `    x = [1,\n` +
+        `2]\n` +
+        `else:\n` +
+        `    x = 0\n` +
+        `y = x\n`;
+
+    it('will split the code before the statements starting a line', () => {
+        expect(StatementSplitter.split(code)).toEqual([
+            { text: `import qiskit\n\n`, line: 1 },
+            { text: `@decorated\ndef build(size):\n    return size\n# comment\n`, line: 3 },
+            { text: `if build(2) > 1:\n    x = [1,\n2]\nelse:\n    x = 0\n`, line: 7 },
+            { text: `y = x\n`, line: 12 }
+        ]);
+    });
+
+    it('will not split the code after a statement without indented block', () => {
+        expect(StatementSplitter.split(`x = 1\nif x:\ny = 2\nz = 3\n`)).toEqual([
+            { text: `x = 1\n`, line: 1 },
+            { text: `if x:\ny = 2\nz = 3\n`, line: 2 }
+        ]);
+    });
+
+    it('will not split the code after a closing bracket without opening one', () => {
+        expect(StatementSplitter.split(`x = 1)\ny = 2\n`)).toEqual([{ text: `x = 1)\ny = 2\n`, line: 1 }]);
+    });
+
+    it('will not split the code after a string without closing quotes', () => {
+        expect(StatementSplitter.split(`x = 1\ny = """\nz = 3\n`)).toEqual([
+            { text: `x = 1\n`, line: 1 },
+            { text: `y = """\nz = 3\n`, line: 2 }
+        ]);
+    });
+
+    describe('when splitting a new version of the code', () => {
+        let changes = [
+            code.replace('return size', 'return size + 1\nz = 2'),
+            code.replace('y = x', 'y = (x'),
+            code.replace('else:\n', ''),
+            code.replace('import qiskit', 'import qiskit\nimport os'),
+            code.replace('# comment\n', 'w = """\n'),
+            code.replace('2]\n', '2]\n\n\n'),
+            code.replace('@decorated\n', ''),
+            ''
+        ];
+
+        it('will split it as the whole code', () => {
+            changes.forEach(changed =>
+                expect(StatementSplitter.splitChanged(StatementSplitter.split(code), changed)).toEqual(
+                    StatementSplitter.split(changed)
+                )
+            );
+        });
+
+        it('will keep the previous statements when the code did not change', () => {
+            let previous = StatementSplitter.split(code);
+
+            expect(StatementSplitter.splitChanged(previous, code)).toBe(previous);
+        });
+    });
+});
@@ -21,6 +21,7 @@ c = ClassicalRegister(2)
 qc = QuantumCircuit(q, c)
 qp = QuantumProgram()
 qr = qp.create_quantum_register("qr", 2)
+r = QuantumRegister(name="r", size=3)
 `;
 
 describe('From a parsed and folded Qiskit code of a valid source', () => {
@@ -48,6 +49,9 @@ describe('From a parsed and folded Qiskit code of a valid source', () => {
             expect(symbolTable.lookup('qr').type.getName()).toEqual('QuantumRegister');
             expect(symbolTable.lookup('qr')).toHaveProperty('metadata', { size: 2, name: '"qr"' });
         });
+        it('contains a QuantumRegister named r with the size and name given by keyword', () => {
+            expect(symbolTable.lookup('r')).toHaveProperty('metadata', { size: 3, name: '"r"' });
+        });
     });
 });
 
@@ -73,3 +77,64 @@ describe('From a parser and folded Qiskit code of a wrong source', () => {
         });
     });
 });
+
+let definitionsSource = `
+from qiskit import QuantumRegister, QuantumCircuit
+def build(size: int, name="circuit"):
+    local = QuantumRegister(size)
+    return QuantumCircuit(local)
+
+def nothing():
+    pass
+
+class Experiment(object):
+    def __init__(self, shots, backend=None):
+        self.shots = shots
+
+    def circuit(self):
+        return build(2)
+
+qc = build(3)
+experiment = Experiment(1024)
+`;
+
+describe('From a parsed and folded Qiskit code with function and class definitions', () => {
+    let folder = new TreeFolder();
+    let tree = Parser.parse(definitionsSource);
+    let statements = folder.visit(tree);
+
+    describe('when a symbol table is generated', () => {
+        let symbolTable = SymbolTableGenerator.symbolTableFor(statements);
+
+        it('contains a function build returning a QuantumCircuit', () => {
+            expect(symbolTable.lookup('build').type.getName()).toEqual('QuantumCircuit');
+        });
+        it('contains the arguments of the function build', () => {
+            let argumentNames = (symbolTable.lookup('build') as any).arguments.map((arg: any) => arg.getName());
+            expect(argumentNames).toEqual(['size', 'name']);
+        });
+        it('contains a function nothing returning void', () => {
+            expect(symbolTable.lookup('nothing').type.getName()).toEqual('void');
+        });
+        it('does not contain the local variables of the functions', () => {
+            expect(symbolTable.lookup('local')).toBeNull();
+        });
+        it('contains a class Experiment with the arguments of __init__ without self', () => {
+            let argumentNames = (symbolTable.lookup('Experiment') as any).requiredArguments.map((arg: any) =>
+                arg.getName()
+            );
+            expect(argumentNames).toEqual(['shots', 'backend']);
+        });
+        it('contains the method circuit of the class Experiment', () => {
+            let methods = (symbolTable.lookup('Experiment') as any).methods;
+            expect(methods.map((method: any) => method.getName())).toEqual(['circuit']);
+            expect(methods[0].type.getName()).toEqual('QuantumCircuit');
+        });
+        it('contains a QuantumCircuit named qc returned by build', () => {
+            expect(symbolTable.lookup('qc').type.getName()).toEqual('QuantumCircuit');
+        });
+        it('contains an Experiment named experiment', () => {
+            expect(symbolTable.lookup('experiment').type.getName()).toEqual('Experiment');
+        });
+    });
+});